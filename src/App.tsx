@@ -3,9 +3,13 @@ import { ChakraProvider } from '@chakra-ui/react';
 import { BrowserRouter as Router } from 'react-router-dom';
 import { VocabularyProvider } from '@/contexts/VocabularyContext';
 import { ProgressProvider } from '@/contexts/ProgressContext';
+import { SettingsProvider } from '@/contexts/SettingsContext';
 import { AppRouter } from '@/components/Layout';
 import { 
   AppStateRestore, 
+  PracticeSessionResumePrompt,
+  SettingsApplier,
+  StorageUnlockGate,
   FloatingAutoSaveStatus, 
   ErrorBoundary,
   NetworkStatusProvider 
@@ -33,13 +37,22 @@ function App() {
             }}
           >
             {/* 主应用内容 - 暂时跳过状态恢复 */}
-            <VocabularyProvider>
-              <ProgressProvider>
-                <AppRouter />
-                {/* 浮动自动保存状态指示器 */}
-                <FloatingAutoSaveStatus />
-              </ProgressProvider>
-            </VocabularyProvider>
+            {/* 启用本地数据加密时，解锁后才加载数据 */}
+            <StorageUnlockGate>
+              <SettingsProvider>
+                {/* 应用主题、字体大小等用户设置 */}
+                <SettingsApplier />
+                <VocabularyProvider>
+                  <ProgressProvider>
+                    <AppRouter />
+                    {/* 未完成练习的继续提示 */}
+                    <PracticeSessionResumePrompt />
+                    {/* 浮动自动保存状态指示器 */}
+                    <FloatingAutoSaveStatus />
+                  </ProgressProvider>
+                </VocabularyProvider>
+              </SettingsProvider>
+            </StorageUnlockGate>
           </Router>
         </NetworkStatusProvider>
       </ErrorBoundary>
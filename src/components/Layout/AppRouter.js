@@ -14,6 +14,8 @@ const AllVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/AllVocabul
 const FavoriteVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/FavoriteVocabulary'));
 const MasteredVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/MasteredVocabulary'));
 const LearningVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/LearningVocabulary'));
+const DecksPage = React.lazy(() => import('@/pages/Vocabulary/Decks'));
+const DeckDetailPage = React.lazy(() => import('@/pages/Vocabulary/DeckDetail'));
 const QuickPracticePage = React.lazy(() => import('@/pages/Practice/QuickPractice'));
 const TimedPracticePage = React.lazy(() => import('@/pages/Practice/TimedPractice'));
 const ReviewPracticePage = React.lazy(() => import('@/pages/Practice/ReviewPractice'));
@@ -44,6 +46,14 @@ const routeConfig = [
                 path: 'learning',
                 element: LearningVocabularyPage,
             },
+            {
+                path: 'decks',
+                element: DecksPage,
+            },
+            {
+                path: 'decks/:deckId',
+                element: DeckDetailPage,
+            },
         ],
     },
     {
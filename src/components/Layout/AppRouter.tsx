@@ -17,6 +17,8 @@ const AllVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/AllVocabul
 const FavoriteVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/FavoriteVocabulary'));
 const MasteredVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/MasteredVocabulary'));
 const LearningVocabularyPage = React.lazy(() => import('@/pages/Vocabulary/LearningVocabulary'));
+const DecksPage = React.lazy(() => import('@/pages/Vocabulary/Decks'));
+const DeckDetailPage = React.lazy(() => import('@/pages/Vocabulary/DeckDetail'));
 
 // 练习子页面
 const QuickPracticePage = React.lazy(() => import('@/pages/Practice/QuickPractice'));
@@ -99,6 +101,14 @@ const routeConfig: RouteConfig[] = [
         path: 'learning',
         element: LearningVocabularyPage,
       },
+      {
+        path: 'decks',
+        element: DecksPage,
+      },
+      {
+        path: 'decks/:deckId',
+        element: DeckDetailPage,
+      },
     ],
   },
   {
@@ -2,7 +2,7 @@ import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
 import { Box, VStack, HStack, Text, Icon, Badge, Divider, Collapse, useDisclosure, Button, Progress, Avatar, Flex, } from '@chakra-ui/react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { ChevronDownIcon, ChevronRightIcon } from '@chakra-ui/icons';
-import { HomeIcon, AcademicCapIcon, ChartBarIcon, CogIcon, BookOpenIcon, StarIcon, TrophyIcon, ClockIcon, } from '@heroicons/react/24/outline';
+import { HomeIcon, AcademicCapIcon, ChartBarIcon, CogIcon, BookOpenIcon, StarIcon, TrophyIcon, ClockIcon, RectangleStackIcon, } from '@heroicons/react/24/outline';
 import { useVocabulary } from '@/hooks/useVocabulary';
 import { useProgress } from '@/hooks/useProgress';
 export const SideNavigation = ({ className, style, testId, }) => {
@@ -53,6 +53,11 @@ export const SideNavigation = ({ className, style, testId, }) => {
                     badgeCount: stats?.learning || 0,
                     showBadge: true,
                 },
+                {
+                    path: '/vocabulary/decks',
+                    label: '我的卡组',
+                    icon: RectangleStackIcon,
+                },
             ],
         },
         {
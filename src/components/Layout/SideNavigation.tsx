@@ -25,6 +25,7 @@ import {
   StarIcon,
   TrophyIcon,
   ClockIcon,
+  RectangleStackIcon,
 } from '@heroicons/react/24/outline';
 import { BaseComponentProps } from '@/types';
 import { useVocabulary } from '@/hooks/useVocabulary';
@@ -118,6 +119,11 @@ export const SideNavigation: React.FC<SideNavigationProps> = ({
           badgeCount: stats?.learning || 0,
           showBadge: true,
         },
+        {
+          path: '/vocabulary/decks',
+          label: '我的卡组',
+          icon: RectangleStackIcon,
+        },
       ],
     },
     {
@@ -1,8 +1,21 @@
 import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-runtime";
 import { useEffect, useState } from 'react';
 import { Box, VStack, HStack, Text, Progress, Alert, AlertIcon, AlertTitle, AlertDescription, Button, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalFooter, useDisclosure, useToast, Spinner, Icon, } from '@chakra-ui/react';
-import { FiRefreshCw, FiAlertTriangle, FiCheckCircle } from 'react-icons/fi';
-import { useAppStateRestore, useDataPersistence } from '@/hooks/useDataPersistence';
+import { FiRefreshCw, FiAlertTriangle, FiCheckCircle, FiPlayCircle } from 'react-icons/fi';
+import { useNavigate } from 'react-router-dom';
+import { useAppStateRestore, useDataPersistence, usePracticeSessionRestore, } from '@/hooks/useDataPersistence';
+const PRACTICE_MODE_PATHS = {
+    quick: '/practice/quick',
+    timed: '/practice/timed',
+    challenge: '/practice',
+    review: '/practice/review',
+};
+const PRACTICE_MODE_LABELS = {
+    quick: '快速练习',
+    timed: '限时挑战',
+    challenge: '挑战模式',
+    review: '复习模式',
+};
 export const AppStateRestore = ({ onRestoreComplete, onRestoreError, }) => {
     const [restoreProgress, setRestoreProgress] = useState(0);
     const [currentStep, setCurrentStep] = useState('');
@@ -93,10 +106,24 @@ export const AppStateRestore = ({ onRestoreComplete, onRestoreError, }) => {
     if (!isRestoring && !hasError && restoreProgress === 0) {
         return null;
     }
-    return (_jsxs(_Fragment, { children: [isRestoring && (_jsx(Box, { position: "fixed", top: 0, left: 0, right: 0, bottom: 0, bg: "rgba(255, 255, 255, 0.95)", zIndex: 9999, display: "flex", alignItems: "center", justifyContent: "center", _dark: {
+    return (_jsxs(_Fragment, { children: [!isRestoring && _jsx(PracticeSessionResumePrompt, {}), isRestoring && (_jsx(Box, { position: "fixed", top: 0, left: 0, right: 0, bottom: 0, bg: "rgba(255, 255, 255, 0.95)", zIndex: 9999, display: "flex", alignItems: "center", justifyContent: "center", _dark: {
                     bg: 'rgba(26, 32, 44, 0.95)',
                 }, children: _jsxs(VStack, { spacing: 6, maxW: "400px", w: "full", px: 6, children: [_jsxs(VStack, { spacing: 2, children: [_jsx(Spinner, { size: "xl", color: "blue.500", thickness: "4px" }), _jsx(Text, { fontSize: "xl", fontWeight: "semibold", children: "\u6062\u590D\u5E94\u7528\u72B6\u6001" }), _jsx(Text, { fontSize: "sm", color: "gray.600", textAlign: "center", _dark: { color: 'gray.400' }, children: "\u6B63\u5728\u6062\u590D\u60A8\u7684\u5B66\u4E60\u8FDB\u5EA6\u548C\u8BBE\u7F6E\uFF0C\u8BF7\u7A0D\u5019..." })] }), _jsxs(VStack, { spacing: 3, w: "full", children: [_jsx(Progress, { value: restoreProgress, colorScheme: "blue", size: "lg", w: "full", borderRadius: "full" }), _jsxs(HStack, { justify: "space-between", w: "full", children: [_jsx(Text, { fontSize: "sm", color: "gray.600", _dark: { color: 'gray.400' }, children: currentStep }), _jsxs(Text, { fontSize: "sm", fontWeight: "semibold", children: [restoreProgress, "%"] })] })] }), storageUsage.used > 0 && (_jsxs(Alert, { status: "info", borderRadius: "md", size: "sm", children: [_jsx(AlertIcon, {}), _jsxs(VStack, { align: "start", spacing: 1, flex: 1, children: [_jsx(AlertTitle, { fontSize: "sm", children: "\u53D1\u73B0\u672C\u5730\u6570\u636E" }), _jsxs(AlertDescription, { fontSize: "xs", children: ["\u5B58\u50A8\u4F7F\u7528: ", (storageUsage.used / 1024).toFixed(1), " KB (", storageUsage.percentage.toFixed(1), "%)"] })] })] }))] }) })), _jsxs(Modal, { isOpen: isErrorModalOpen, onClose: onErrorModalClose, closeOnOverlayClick: false, children: [_jsx(ModalOverlay, {}), _jsxs(ModalContent, { children: [_jsx(ModalHeader, { children: _jsxs(HStack, { spacing: 2, children: [_jsx(Icon, { as: FiAlertTriangle, color: "red.500" }), _jsx(Text, { children: "\u72B6\u6001\u6062\u590D\u5931\u8D25" })] }) }), _jsx(ModalBody, { children: _jsxs(VStack, { spacing: 4, align: "stretch", children: [_jsxs(Alert, { status: "error", borderRadius: "md", children: [_jsx(AlertIcon, {}), _jsxs(Box, { children: [_jsx(AlertTitle, { children: "\u6062\u590D\u8FC7\u7A0B\u4E2D\u53D1\u751F\u9519\u8BEF" }), _jsx(AlertDescription, { children: errorMessage || '无法恢复应用状态，可能是数据损坏或存储空间不足。' })] })] }), _jsxs(VStack, { spacing: 2, align: "start", children: [_jsx(Text, { fontSize: "sm", fontWeight: "semibold", children: "\u60A8\u53EF\u4EE5\u9009\u62E9\uFF1A" }), _jsxs(VStack, { align: "start", spacing: 1, pl: 4, children: [_jsx(Text, { fontSize: "sm", children: "\u2022 \u91CD\u8BD5\u6062\u590D\u8FC7\u7A0B" }), _jsx(Text, { fontSize: "sm", children: "\u2022 \u8DF3\u8FC7\u6062\u590D\uFF0C\u4F7F\u7528\u9ED8\u8BA4\u8BBE\u7F6E" })] })] }), storageUsage.percentage > 90 && (_jsxs(Alert, { status: "warning", borderRadius: "md", size: "sm", children: [_jsx(AlertIcon, {}), _jsx(AlertDescription, { fontSize: "sm", children: "\u5B58\u50A8\u7A7A\u95F4\u4E0D\u8DB3\u53EF\u80FD\u662F\u5BFC\u81F4\u6062\u590D\u5931\u8D25\u7684\u539F\u56E0\u3002" })] }))] }) }), _jsxs(ModalFooter, { children: [_jsx(Button, { variant: "ghost", mr: 3, onClick: handleSkipRestore, children: "\u8DF3\u8FC7\u6062\u590D" }), _jsx(Button, { colorScheme: "blue", leftIcon: _jsx(FiRefreshCw, {}), onClick: handleRetry, children: "\u91CD\u8BD5" })] })] })] })] }));
 };
+export const PracticeSessionResumePrompt = () => {
+    const navigate = useNavigate();
+    const { pendingCheckpoint, abandonSession, dismiss } = usePracticeSessionRestore();
+    if (!pendingCheckpoint) {
+        return null;
+    }
+    const { session, savedAt } = pendingCheckpoint;
+    const handleResume = () => {
+        const state = { resumeSessionId: session.id };
+        dismiss();
+        navigate(PRACTICE_MODE_PATHS[session.mode], { state });
+    };
+    return (_jsxs(Modal, { isOpen: true, onClose: dismiss, closeOnOverlayClick: false, isCentered: true, children: [_jsx(ModalOverlay, {}), _jsxs(ModalContent, { children: [_jsx(ModalHeader, { children: _jsxs(HStack, { spacing: 2, children: [_jsx(Icon, { as: FiPlayCircle, color: "blue.500" }), _jsx(Text, { children: "\u53D1\u73B0\u672A\u5B8C\u6210\u7684\u7EC3\u4E60" })] }) }), _jsx(ModalBody, { children: _jsxs(VStack, { spacing: 2, align: "start", children: [_jsxs(Text, { fontSize: "sm", children: [PRACTICE_MODE_LABELS[session.mode], "\uFF1A\u5DF2\u5B8C\u6210 ", session.answers.length, "/", session.questions.length, " \u9898"] }), _jsxs(Text, { fontSize: "xs", color: "gray.500", children: ["\u4E0A\u6B21\u4FDD\u5B58\u4E8E ", new Date(savedAt).toLocaleString()] })] }) }), _jsxs(ModalFooter, { children: [_jsx(Button, { variant: "ghost", mr: 3, onClick: abandonSession, children: "\u653E\u5F03" }), _jsx(Button, { colorScheme: "blue", onClick: handleResume, children: "\u7EE7\u7EED\u7EC3\u4E60" })] })] })] }));
+};
 export const RestoreSuccessIndicator = ({ restoredItemsCount, onDismiss }) => {
     useEffect(() => {
         const timer = setTimeout(() => {
@@ -26,9 +26,32 @@ import {
   Spinner,
   Icon,
 } from '@chakra-ui/react';
-import { FiRefreshCw, FiAlertTriangle, FiCheckCircle } from 'react-icons/fi';
-import { useAppStateRestore, useDataPersistence } from '@/hooks/useDataPersistence';
-import { VocabularyItem, UserProgress, UserSettings } from '@/types';
+import { FiRefreshCw, FiAlertTriangle, FiCheckCircle, FiPlayCircle } from 'react-icons/fi';
+import { useNavigate } from 'react-router-dom';
+import {
+  useAppStateRestore,
+  useDataPersistence,
+  usePracticeSessionRestore,
+} from '@/hooks/useDataPersistence';
+import { PracticeResumeState } from '@/hooks/usePracticeSession';
+import { VocabularyItem, UserProgress, UserSettings, PracticeSession } from '@/types';
+
+/**
+ * 各练习模式对应的页面
+ */
+const PRACTICE_MODE_PATHS: Record<PracticeSession['mode'], string> = {
+  quick: '/practice/quick',
+  timed: '/practice/timed',
+  challenge: '/practice',
+  review: '/practice/review',
+};
+
+const PRACTICE_MODE_LABELS: Record<PracticeSession['mode'], string> = {
+  quick: '快速练习',
+  timed: '限时挑战',
+  challenge: '挑战模式',
+  review: '复习模式',
+};
 
 interface AppStateRestoreProps {
   onRestoreComplete: (data: {
@@ -166,6 +189,9 @@ export const AppStateRestore: React.FC<AppStateRestoreProps> = ({
 
   return (
     <>
+      {/* 未完成练习提示 */}
+      {!isRestoring && <PracticeSessionResumePrompt />}
+
       {/* 恢复进度显示 */}
       {isRestoring && (
         <Box
@@ -295,6 +321,62 @@ export const AppStateRestore: React.FC<AppStateRestoreProps> = ({
   );
 };
 
+/**
+ * 未完成练习提示
+ * 启动时发现未完成的练习，询问继续练习还是放弃
+ */
+export const PracticeSessionResumePrompt: React.FC = () => {
+  const navigate = useNavigate();
+  const { pendingCheckpoint, abandonSession, dismiss } = usePracticeSessionRestore();
+
+  if (!pendingCheckpoint) {
+    return null;
+  }
+
+  const { session, savedAt } = pendingCheckpoint;
+
+  /**
+   * 继续练习
+   */
+  const handleResume = () => {
+    const state: PracticeResumeState = { resumeSessionId: session.id };
+    dismiss();
+    navigate(PRACTICE_MODE_PATHS[session.mode], { state });
+  };
+
+  return (
+    <Modal isOpen onClose={dismiss} closeOnOverlayClick={false} isCentered>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          <HStack spacing={2}>
+            <Icon as={FiPlayCircle} color="blue.500" />
+            <Text>发现未完成的练习</Text>
+          </HStack>
+        </ModalHeader>
+        <ModalBody>
+          <VStack spacing={2} align="start">
+            <Text fontSize="sm">
+              {PRACTICE_MODE_LABELS[session.mode]}：已完成 {session.answers.length}/{session.questions.length} 题
+            </Text>
+            <Text fontSize="xs" color="gray.500">
+              上次保存于 {new Date(savedAt).toLocaleString()}
+            </Text>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={abandonSession}>
+            放弃
+          </Button>
+          <Button colorScheme="blue" onClick={handleResume}>
+            继续练习
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
 /**
  * 恢复成功指示器
  */
@@ -0,0 +1,14 @@
+/**
+ * 设置应用组件
+ * 挂载在应用根部，让主题模式、字体大小等设置在修改后立即生效
+ */
+
+import React from 'react';
+import { useApplySettings } from '@/hooks/useSettings';
+
+export const SettingsApplier: React.FC = () => {
+  useApplySettings();
+  return null;
+};
+
+export default SettingsApplier;
@@ -0,0 +1,139 @@
+/**
+ * 本地数据解锁组件
+ * 启用本地数据加密后，需要先输入口令解锁，才能加载应用内容
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  Box,
+  VStack,
+  Heading,
+  Text,
+  Input,
+  Button,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  Icon,
+  AlertDialog,
+  AlertDialogOverlay,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogBody,
+  AlertDialogFooter,
+  useDisclosure,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { FiLock } from 'react-icons/fi';
+import { storageService } from '@/services/storage';
+import { storageManager } from '@/services/storageManager';
+import { dataMigrationService } from '@/services/dataMigration';
+
+interface StorageUnlockGateProps {
+  children: React.ReactNode;
+}
+
+export const StorageUnlockGate: React.FC<StorageUnlockGateProps> = ({ children }) => {
+  const [isLocked, setIsLocked] = useState(() => storageService.isLocked());
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const cardBg = useColorModeValue('white', 'gray.800');
+
+  /**
+   * 用口令解锁
+   */
+  const handleUnlock = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      if (await storageService.unlock(passphrase)) {
+        // 启动时加密数据无法读取，解锁后再升级其中的旧版本数据
+        dataMigrationService.migrateUnlockedData(storageService);
+        setIsLocked(false);
+      } else {
+        setError('密码错误，请重试');
+      }
+    } catch (unlockError) {
+      console.error('Failed to unlock storage:', unlockError);
+      setError('解锁失败，请稍后重试');
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [passphrase]);
+
+  /**
+   * 忘记口令时清除所有本地数据
+   */
+  const handleConfirmClear = useCallback(async () => {
+    await storageManager.clearAllData();
+    onClose();
+    setIsLocked(storageService.isLocked());
+  }, [onClose]);
+
+  if (!isLocked) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Box minH="100vh" display="flex" alignItems="center" justifyContent="center" p={6}>
+      <Box as="form" onSubmit={handleUnlock} bg={cardBg} p={8} borderRadius="xl" boxShadow="md" w="full" maxW="sm">
+        <VStack spacing={5} align="stretch">
+          <VStack spacing={2}>
+            <Icon as={FiLock} boxSize={8} color="primary.500" />
+            <Heading size="md">本地数据已加密</Heading>
+            <Text color="gray.600" fontSize="sm" textAlign="center">
+              请输入设置加密时使用的密码来解锁学习数据
+            </Text>
+          </VStack>
+
+          <FormControl isInvalid={!!error}>
+            <FormLabel htmlFor="unlockPassphrase">密码</FormLabel>
+            <Input
+              id="unlockPassphrase"
+              type="password"
+              autoFocus
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+            />
+            {error && <FormErrorMessage>{error}</FormErrorMessage>}
+          </FormControl>
+
+          <Button type="submit" colorScheme="primary" isLoading={isUnlocking} isDisabled={!passphrase}>
+            解锁
+          </Button>
+          <Button variant="link" size="sm" colorScheme="red" onClick={onOpen}>
+            忘记密码？清除本地数据
+          </Button>
+        </VStack>
+      </Box>
+
+      <AlertDialog isOpen={isOpen} leastDestructiveRef={cancelRef} onClose={onClose}>
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              清除本地数据
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              加密的数据无法在没有密码的情况下恢复，清除后学习记录和设置都会丢失。确定继续吗？
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={onClose}>
+                取消
+              </Button>
+              <Button colorScheme="red" onClick={handleConfirmClear} ml={3}>
+                清除数据
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </Box>
+  );
+};
+
+export default StorageUnlockGate;
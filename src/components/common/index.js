@@ -8,8 +8,10 @@ export { EnhancedSkeleton, CardSkeleton, ListSkeleton, TableSkeleton, VisualFeed
 export { useResponsive, useThemeToggle, DeviceType, ScreenOrientation } from '@/hooks/useResponsive';
 export { DataBackup, StorageStatusIndicator } from './DataBackup';
 export { AutoSaveStatus, FloatingAutoSaveStatus } from './AutoSaveStatus';
-export { useDataPersistence, useAppStateRestore } from '@/hooks/useDataPersistence';
-export { AppStateRestore, RestoreSuccessIndicator, DataMigrationPrompt } from './AppStateRestore';
+export { useDataPersistence, useAppStateRestore, usePracticeSessionRestore } from '@/hooks/useDataPersistence';
+export { AppStateRestore, PracticeSessionResumePrompt, RestoreSuccessIndicator, DataMigrationPrompt } from './AppStateRestore';
+export { SettingsApplier } from './SettingsApplier';
+export { StorageUnlockGate } from './StorageUnlockGate';
 export { PullToRefresh, SimplePullToRefresh, CustomRefreshIndicator } from './PullToRefresh';
 export { ContentUpdateNotification, UpdateBanner, FloatingUpdateButton, UpdateType, UpdateStatus } from './ContentUpdateNotification';
 export { usePullToRefresh, PullToRefreshState } from '@/hooks/usePullToRefresh';
@@ -46,15 +46,20 @@ export { DataBackup, StorageStatusIndicator } from './DataBackup';
 export { AutoSaveStatus, FloatingAutoSaveStatus } from './AutoSaveStatus';
 
 // Data persistence hooks
-export { useDataPersistence, useAppStateRestore } from '@/hooks/useDataPersistence';
+export { useDataPersistence, useAppStateRestore, usePracticeSessionRestore } from '@/hooks/useDataPersistence';
 
 // App state restore components
 export { 
   AppStateRestore, 
+  PracticeSessionResumePrompt,
   RestoreSuccessIndicator, 
   DataMigrationPrompt 
 } from './AppStateRestore';
 
+// Settings components
+export { SettingsApplier } from './SettingsApplier';
+export { StorageUnlockGate } from './StorageUnlockGate';
+
 // Pull to refresh components
 export { 
   PullToRefresh, 
@@ -0,0 +1,392 @@
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  SimpleGrid,
+  Badge,
+  useColorModeValue,
+  Fade,
+} from '@chakra-ui/react';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { MatchingQuestion as MatchingQuestionType } from '@/types/practice';
+import { QuestionComponentProps } from './types';
+
+/**
+ * 匹配题组件Props
+ */
+interface MatchingQuestionProps extends QuestionComponentProps {
+  question: MatchingQuestionType;
+}
+
+/**
+ * 配对标记颜色，按配对顺序循环使用
+ */
+const PAIR_COLORS = ['purple', 'orange', 'teal', 'pink', 'cyan', 'yellow'];
+
+/**
+ * 匹配题组件
+ * 先点击左侧术语再点击右侧释义完成配对，点击已配对的项目可取消配对；
+ * 所有项目均为按钮，支持触摸和键盘（Tab 切换、Enter/空格选择、Esc 取消选择）
+ */
+export const MatchingQuestion: React.FC<MatchingQuestionProps> = ({
+  question,
+  onAnswer,
+  showResult = false,
+  userAnswer,
+  disabled = false,
+  className,
+}) => {
+  const [matches, setMatches] = useState<Record<string, string>>({});
+  const [activeLeftId, setActiveLeftId] = useState<string | null>(null);
+  const [isAnswered, setIsAnswered] = useState(false);
+
+  // 主题颜色
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+  const correctColor = useColorModeValue('green.50', 'green.900');
+  const incorrectColor = useColorModeValue('red.50', 'red.900');
+  const explanationBg = useColorModeValue('blue.50', 'blue.900');
+
+  const isLocked = disabled || isAnswered;
+  const isRevealed = showResult || isAnswered;
+
+  /**
+   * 展示结果时优先使用已提交的答案
+   */
+  const displayMatches = useMemo<Record<string, string>>(() => {
+    if (!isAnswered && showResult && userAnswer && typeof userAnswer.answer === 'object' && !Array.isArray(userAnswer.answer)) {
+      return userAnswer.answer;
+    }
+    return matches;
+  }, [isAnswered, showResult, userAnswer, matches]);
+
+  const correctMap = useMemo(
+    () => new Map(question.correctMatches.map(match => [match.leftId, match.rightId])),
+    [question.correctMatches]
+  );
+
+  const rightToLeft = useMemo(
+    () => new Map(Object.entries(displayMatches).map(([leftId, rightId]) => [rightId, leftId])),
+    [displayMatches]
+  );
+
+  /**
+   * 配对序号，用于给左右两侧的同一组配对标相同颜色
+   */
+  const pairIndexes = useMemo(() => {
+    const indexes = new Map<string, number>();
+    question.leftItems.forEach(item => {
+      if (displayMatches[item.id]) {
+        indexes.set(item.id, indexes.size);
+      }
+    });
+    return indexes;
+  }, [question.leftItems, displayMatches]);
+
+  const matchedCount = Object.keys(matches).length;
+  const isComplete = matchedCount === question.leftItems.length;
+
+  /**
+   * 点击左侧术语：选中或取消已有配对
+   */
+  const handleLeftClick = useCallback((leftId: string) => {
+    if (isLocked) return;
+
+    if (matches[leftId]) {
+      setMatches(prev => {
+        const next = { ...prev };
+        delete next[leftId];
+        return next;
+      });
+      setActiveLeftId(leftId);
+      return;
+    }
+
+    setActiveLeftId(prev => (prev === leftId ? null : leftId));
+  }, [isLocked, matches]);
+
+  /**
+   * 点击右侧释义：与当前选中的术语配对
+   */
+  const handleRightClick = useCallback((rightId: string) => {
+    if (isLocked) return;
+
+    const pairedLeftId = rightToLeft.get(rightId);
+
+    if (!activeLeftId) {
+      // 未选中术语时点击已配对的释义即取消配对
+      if (pairedLeftId) {
+        setMatches(prev => {
+          const next = { ...prev };
+          delete next[pairedLeftId];
+          return next;
+        });
+      }
+      return;
+    }
+
+    setMatches(prev => {
+      const next = { ...prev };
+      if (pairedLeftId) {
+        delete next[pairedLeftId];
+      }
+      next[activeLeftId] = rightId;
+      return next;
+    });
+    setActiveLeftId(null);
+  }, [isLocked, activeLeftId, rightToLeft]);
+
+  /**
+   * 重置所有配对
+   */
+  const handleReset = useCallback(() => {
+    if (isLocked) return;
+    setMatches({});
+    setActiveLeftId(null);
+  }, [isLocked]);
+
+  /**
+   * 提交答案
+   */
+  const handleSubmit = useCallback(() => {
+    if (!isComplete || isLocked) return;
+
+    setIsAnswered(true);
+    setActiveLeftId(null);
+    onAnswer(matches);
+  }, [isComplete, isLocked, matches, onAnswer]);
+
+  /**
+   * Esc 取消当前选中
+   */
+  useEffect(() => {
+    if (!activeLeftId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setActiveLeftId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeLeftId]);
+
+  /**
+   * 获取项目样式
+   */
+  const getItemStyle = (leftId: string | undefined, isActive: boolean) => {
+    if (isActive) {
+      return { bg: 'primary.50', borderColor: 'primary.500' };
+    }
+
+    if (!leftId || !displayMatches[leftId]) {
+      return { bg: bgColor, borderColor };
+    }
+
+    if (isRevealed) {
+      return correctMap.get(leftId) === displayMatches[leftId]
+        ? { bg: correctColor, borderColor: 'green.500' }
+        : { bg: incorrectColor, borderColor: 'red.500' };
+    }
+
+    const colorScheme = PAIR_COLORS[(pairIndexes.get(leftId) ?? 0) % PAIR_COLORS.length];
+    return { bg: bgColor, borderColor: `${colorScheme}.400` };
+  };
+
+  /**
+   * 渲染配对标记
+   */
+  const renderPairBadge = (leftId: string | undefined) => {
+    if (!leftId || !displayMatches[leftId]) return null;
+
+    if (isRevealed) {
+      return correctMap.get(leftId) === displayMatches[leftId]
+        ? <CheckIcon width={16} height={16} color="green" />
+        : <XMarkIcon width={16} height={16} color="red" />;
+    }
+
+    const pairIndex = pairIndexes.get(leftId) ?? 0;
+    return (
+      <Badge colorScheme={PAIR_COLORS[pairIndex % PAIR_COLORS.length]} variant="solid" borderRadius="full">
+        {pairIndex + 1}
+      </Badge>
+    );
+  };
+
+  const leftContent = new Map(question.leftItems.map(item => [item.id, item.content]));
+  const rightContent = new Map(question.rightItems.map(item => [item.id, item.content]));
+
+  return (
+    <Box className={className} w="full" maxW="800px" mx="auto">
+      <VStack spacing={6} align="stretch">
+        {/* 题目信息 */}
+        <Box>
+          <HStack justify="space-between" mb={4}>
+            <Badge colorScheme="primary" variant="subtle">
+              匹配题
+            </Badge>
+            <HStack spacing={2}>
+              <Badge colorScheme="gray" variant="outline">
+                {question.difficulty}
+              </Badge>
+              <Badge colorScheme="blue" variant="outline">
+                {question.points}分
+              </Badge>
+            </HStack>
+          </HStack>
+
+          {/* 题目文本 */}
+          <Text fontSize="lg" fontWeight="medium" mb={2}>
+            {question.question}
+          </Text>
+          <Text fontSize="sm" color="gray.500">
+            先选择左侧术语，再选择右侧对应的释义（已配对 {matchedCount}/{question.leftItems.length}）
+          </Text>
+        </Box>
+
+        {/* 配对区域 */}
+        <SimpleGrid columns={2} spacing={{ base: 2, md: 6 }}>
+          <VStack spacing={3} align="stretch" role="group" aria-label="术语">
+            {question.leftItems.map(item => {
+              const isActive = activeLeftId === item.id;
+
+              return (
+                <Button
+                  key={item.id}
+                  h="auto"
+                  minH="56px"
+                  py={3}
+                  px={3}
+                  variant="outline"
+                  borderWidth="2px"
+                  borderRadius="lg"
+                  whiteSpace="normal"
+                  justifyContent="space-between"
+                  aria-pressed={isActive}
+                  isDisabled={disabled && !isRevealed}
+                  cursor={isLocked ? 'default' : 'pointer'}
+                  onClick={() => handleLeftClick(item.id)}
+                  {...getItemStyle(item.id, isActive)}
+                >
+                  <Text fontWeight="semibold" textAlign="left">
+                    {item.content}
+                  </Text>
+                  {renderPairBadge(item.id)}
+                </Button>
+              );
+            })}
+          </VStack>
+
+          <VStack spacing={3} align="stretch" role="group" aria-label="释义">
+            {question.rightItems.map(item => {
+              const leftId = rightToLeft.get(item.id);
+
+              return (
+                <Button
+                  key={item.id}
+                  h="auto"
+                  minH="56px"
+                  py={3}
+                  px={3}
+                  variant="outline"
+                  borderWidth="2px"
+                  borderRadius="lg"
+                  whiteSpace="normal"
+                  justifyContent="space-between"
+                  isDisabled={disabled && !isRevealed}
+                  cursor={isLocked ? 'default' : 'pointer'}
+                  onClick={() => handleRightClick(item.id)}
+                  {...getItemStyle(leftId, false)}
+                >
+                  <Text fontSize="sm" fontWeight="normal" textAlign="left">
+                    {item.content}
+                  </Text>
+                  {renderPairBadge(leftId)}
+                </Button>
+              );
+            })}
+          </VStack>
+        </SimpleGrid>
+
+        {/* 操作按钮 */}
+        {!isRevealed && (
+          <HStack spacing={4}>
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={handleReset}
+              isDisabled={matchedCount === 0 || disabled}
+            >
+              重置
+            </Button>
+            <Button
+              flex="1"
+              colorScheme="primary"
+              size="lg"
+              onClick={handleSubmit}
+              isDisabled={!isComplete || disabled}
+              _hover={{
+                transform: 'translateY(-2px)',
+                shadow: 'lg',
+              }}
+            >
+              提交答案
+            </Button>
+          </HStack>
+        )}
+
+        {/* 正确答案显示 */}
+        {isRevealed && (
+          <Fade in={true}>
+            <Box
+              p={4}
+              bg={correctColor}
+              borderRadius="lg"
+              borderLeft="4px solid"
+              borderLeftColor="green.500"
+            >
+              <Text fontSize="sm" fontWeight="medium" color="green.700" mb={2}>
+                正确答案
+              </Text>
+              <VStack spacing={1} align="stretch">
+                {question.correctMatches.map(match => (
+                  <Text key={match.leftId} fontSize="sm" color="green.600">
+                    <Text as="span" fontWeight="bold">{leftContent.get(match.leftId)}</Text>
+                    {' — '}
+                    {rightContent.get(match.rightId)}
+                  </Text>
+                ))}
+              </VStack>
+            </Box>
+          </Fade>
+        )}
+
+        {/* 答案解释 */}
+        {isRevealed && question.explanation && (
+          <Fade in={true}>
+            <Box
+              p={4}
+              bg={explanationBg}
+              borderRadius="lg"
+              borderLeft="4px solid"
+              borderLeftColor="blue.500"
+            >
+              <Text fontSize="sm" fontWeight="medium" color="blue.700" mb={2}>
+                解释说明
+              </Text>
+              <Text fontSize="sm" color="blue.600">
+                {question.explanation}
+              </Text>
+            </Box>
+          </Fade>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default MatchingQuestion;
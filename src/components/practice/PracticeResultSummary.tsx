@@ -0,0 +1,275 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Badge,
+  Progress,
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Wrap,
+  WrapItem,
+  Divider,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import {
+  PracticeResult,
+  PracticeSession,
+  QUESTION_TYPE_LABELS,
+  PracticeDifficulty,
+  VocabularyItem,
+  Web3Category,
+} from '@/types';
+import { PracticeBreakdown, parseWeakArea } from '@/services/practiceAnalytics';
+
+/**
+ * 练习结果组件Props
+ */
+interface PracticeResultSummaryProps {
+  /** 练习分析结果 */
+  result: PracticeResult;
+  /** 已完成的练习会话 */
+  session: PracticeSession;
+  /** 标题 */
+  title?: string;
+  /** 再练一次按钮文字 */
+  retryLabel?: string;
+  /** 再练一次回调 */
+  onRetry?: () => void;
+  /** 返回回调 */
+  onExit?: () => void;
+  /** 附加内容，显示在操作按钮上方 */
+  children?: React.ReactNode;
+}
+
+const DIFFICULTY_LABELS: Record<PracticeDifficulty, string> = {
+  [PracticeDifficulty.EASY]: '简单',
+  [PracticeDifficulty.MEDIUM]: '中等',
+  [PracticeDifficulty.HARD]: '困难',
+};
+
+const CATEGORY_LABELS: Record<Web3Category, string> = {
+  [Web3Category.BLOCKCHAIN]: '区块链',
+  [Web3Category.DEFI]: 'DeFi',
+  [Web3Category.NFT]: 'NFT',
+  [Web3Category.TRADING]: '交易',
+  [Web3Category.PROTOCOL]: '协议',
+  [Web3Category.CONSENSUS]: '共识',
+  [Web3Category.SECURITY]: '安全',
+  [Web3Category.GOVERNANCE]: '治理',
+};
+
+/**
+ * 格式化秒数为 mm:ss
+ */
+const formatDuration = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  const remainingSeconds = rounded % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * 薄弱领域显示名称
+ */
+const getWeakAreaLabel = (area: string): string => {
+  const parsed = parseWeakArea(area);
+  if (!parsed) return area;
+  return parsed.kind === 'category'
+    ? CATEGORY_LABELS[parsed.key as Web3Category] ?? parsed.key
+    : `#${parsed.key}`;
+};
+
+/**
+ * 获取正确率对应的颜色
+ */
+const getAccuracyColor = (accuracy: number): string => {
+  if (accuracy >= 0.8) return 'green';
+  if (accuracy >= 0.6) return 'yellow';
+  return 'red';
+};
+
+/**
+ * 分组统计列表
+ */
+const BreakdownList: React.FC<{
+  title: string;
+  breakdown: Record<string, PracticeBreakdown>;
+  labels: Record<string, string>;
+}> = ({ title, breakdown, labels }) => {
+  const entries = Object.entries(breakdown).filter(([, data]) => data.total > 0);
+  if (entries.length === 0) return null;
+
+  return (
+    <Box w="full">
+      <Text fontWeight="semibold" mb={3}>
+        {title}
+      </Text>
+      <VStack spacing={3} align="stretch">
+        {entries.map(([key, data]) => (
+          <Box key={key}>
+            <HStack justify="space-between" mb={1}>
+              <Text fontSize="sm">{labels[key] ?? key}</Text>
+              <Text fontSize="sm" color="gray.500">
+                {data.correct}/{data.total} · {Math.round(data.accuracy * 100)}%
+              </Text>
+            </HStack>
+            <Progress
+              value={data.accuracy * 100}
+              size="sm"
+              borderRadius="full"
+              colorScheme={getAccuracyColor(data.accuracy)}
+            />
+          </Box>
+        ))}
+      </VStack>
+    </Box>
+  );
+};
+
+/**
+ * 练习结果组件
+ * 展示练习得分、题型和难度分布、薄弱领域以及建议复习的词汇
+ */
+export const PracticeResultSummary: React.FC<PracticeResultSummaryProps> = ({
+  result,
+  session,
+  title = '练习完成！',
+  retryLabel = '再来一次',
+  onRetry,
+  onExit,
+  children,
+}) => {
+  const cardBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  /**
+   * 建议复习的词汇
+   */
+  const suggestedWords = useMemo(() => {
+    const vocabularyMap = new Map<string, VocabularyItem>(
+      session.questions.map(question => [question.vocabulary.id, question.vocabulary])
+    );
+    return result.reviewSuggestions
+      .map(wordId => vocabularyMap.get(wordId))
+      .filter((item): item is VocabularyItem => !!item);
+  }, [result.reviewSuggestions, session.questions]);
+
+  return (
+    <Box bg={cardBg} p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor={borderColor}>
+      <VStack spacing={6}>
+        <Text fontSize="xl" fontWeight="bold">
+          {title}
+        </Text>
+
+        {/* 总体统计 */}
+        <SimpleGrid columns={{ base: 2, md: 3 }} spacing={4} w="full">
+          <Stat textAlign="center">
+            <StatLabel>正确率</StatLabel>
+            <StatNumber color={`${getAccuracyColor(result.accuracy)}.500`}>
+              {Math.round(result.accuracy * 100)}%
+            </StatNumber>
+          </Stat>
+          <Stat textAlign="center">
+            <StatLabel>得分</StatLabel>
+            <StatNumber>{result.totalScore}/{session.maxScore}</StatNumber>
+          </Stat>
+          <Stat textAlign="center">
+            <StatLabel>用时</StatLabel>
+            <StatNumber>{formatDuration(result.totalTime)}</StatNumber>
+          </Stat>
+          <Stat textAlign="center">
+            <StatLabel>正确</StatLabel>
+            <StatNumber color="green.500">{result.correctAnswers}</StatNumber>
+          </Stat>
+          <Stat textAlign="center">
+            <StatLabel>错误</StatLabel>
+            <StatNumber color="red.500">{result.wrongAnswers}</StatNumber>
+          </Stat>
+          <Stat textAlign="center">
+            <StatLabel>未作答</StatLabel>
+            <StatNumber color="gray.500">{result.skippedAnswers}</StatNumber>
+          </Stat>
+        </SimpleGrid>
+
+        <Text fontSize="sm" color="gray.500">
+          平均每题用时 {result.averageTime.toFixed(1)} 秒
+        </Text>
+
+        <Divider />
+
+        {/* 分组统计 */}
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={6} w="full">
+          <BreakdownList title="按题型" breakdown={result.byQuestionType} labels={QUESTION_TYPE_LABELS} />
+          <BreakdownList title="按难度" breakdown={result.byDifficulty} labels={DIFFICULTY_LABELS} />
+        </SimpleGrid>
+
+        {/* 薄弱领域 */}
+        {result.weakAreas.length > 0 && (
+          <Box w="full">
+            <Text fontWeight="semibold" mb={3}>
+              薄弱领域
+            </Text>
+            <Wrap spacing={2}>
+              {result.weakAreas.map(area => (
+                <WrapItem key={area}>
+                  <Badge colorScheme="red" variant="subtle" px={3} py={1} borderRadius="md">
+                    {getWeakAreaLabel(area)}
+                  </Badge>
+                </WrapItem>
+              ))}
+            </Wrap>
+          </Box>
+        )}
+
+        {/* 建议复习 */}
+        {suggestedWords.length > 0 && (
+          <Box w="full">
+            <Text fontWeight="semibold" mb={3}>
+              建议复习（{suggestedWords.length}）
+            </Text>
+            <VStack spacing={2} align="stretch">
+              {suggestedWords.map(item => (
+                <HStack
+                  key={item.id}
+                  justify="space-between"
+                  p={3}
+                  borderRadius="md"
+                  border="1px solid"
+                  borderColor={borderColor}
+                >
+                  <Text fontWeight="medium">{item.word}</Text>
+                  <Text fontSize="sm" color="gray.500" noOfLines={1} textAlign="right">
+                    {item.definition}
+                  </Text>
+                </HStack>
+              ))}
+            </VStack>
+          </Box>
+        )}
+
+        {children}
+
+        {/* 操作按钮 */}
+        <HStack spacing={4}>
+          {onExit && (
+            <Button variant="outline" onClick={onExit}>
+              返回
+            </Button>
+          )}
+          {onRetry && (
+            <Button colorScheme="primary" onClick={onRetry}>
+              {retryLabel}
+            </Button>
+          )}
+        </HStack>
+      </VStack>
+    </Box>
+  );
+};
+
+export default PracticeResultSummary;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { FormControl, FormLabel, Select, Text } from '@chakra-ui/react';
+import { VocabularyDeck } from '@/types';
+
+/**
+ * 出题范围选择Props
+ */
+interface PracticeSourceSelectProps {
+  /** 全部卡组 */
+  decks: VocabularyDeck[];
+  /** 当前选择的卡组，为空时从全部词汇中出题 */
+  deck: VocabularyDeck | null;
+  /** 全部词汇数量 */
+  vocabularyCount: number;
+  /** 当前范围内可出题的词汇数量 */
+  sourceCount: number;
+  /** 选择回调 */
+  onChange: (deckId: string | null) => void;
+}
+
+/**
+ * 出题范围选择组件
+ * 在全部词汇和用户卡组之间选择练习的词汇来源
+ */
+export const PracticeSourceSelect: React.FC<PracticeSourceSelectProps> = ({
+  decks,
+  deck,
+  vocabularyCount,
+  sourceCount,
+  onChange,
+}) => {
+  if (decks.length === 0) return null;
+
+  return (
+    <FormControl maxW="320px">
+      <FormLabel fontSize="sm" color="gray.600">
+        出题范围
+      </FormLabel>
+      <Select value={deck?.id ?? ''} onChange={event => onChange(event.target.value || null)}>
+        <option value="">全部词汇（{vocabularyCount}）</option>
+        {decks.map(item => (
+          <option key={item.id} value={item.id}>
+            {item.name}（{item.wordIds.length}）
+          </option>
+        ))}
+      </Select>
+      {deck && (
+        <Text fontSize="xs" color="gray.500" mt={1}>
+          {deck.settings.randomOrder ? '随机顺序' : '按卡组顺序'}出题，卡组中可用词汇 {sourceCount} 个
+        </Text>
+      )}
+    </FormControl>
+  );
+};
+
+export default PracticeSourceSelect;
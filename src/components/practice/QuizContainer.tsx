@@ -1,9 +1,10 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import {
   Box,
   VStack,
   HStack,
   Button,
+  Text,
   useColorModeValue,
   Fade,
   Container,
@@ -13,6 +14,8 @@ import { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
 import { FillBlankQuestion } from './FillBlankQuestion';
 import { ListeningQuestion } from './ListeningQuestion';
 import { DragDropQuestion } from './DragDropQuestion';
+import { TrueFalseQuestion } from './TrueFalseQuestion';
+import { MatchingQuestion } from './MatchingQuestion';
 import { Timer } from './Timer';
 import { ProgressIndicator } from './ProgressIndicator';
 import { FeedbackDisplay } from './FeedbackDisplay';
@@ -27,6 +30,8 @@ interface QuizContainerProps {
   session: PracticeSession;
   /** 答题完成回调 */
   onComplete: (answers: UserAnswer[]) => void;
+  /** 每答完一题的回调，用于保存练习进度 */
+  onProgress?: (answers: UserAnswer[]) => void;
   /** 退出练习回调 */
   onExit?: () => void;
   /** 是否显示计时器 */
@@ -45,17 +50,23 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
   questions,
   session,
   onComplete,
+  onProgress,
   onExit,
   showTimer = true,
   showProgress = true,
   showInstantFeedback = true,
 }) => {
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<UserAnswer[]>([]);
+  // 恢复的会话从第一道未作答的题目继续
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(() =>
+    Math.min(session.answers.length, Math.max(questions.length - 1, 0))
+  );
+  const [answers, setAnswers] = useState<UserAnswer[]>(session.answers);
   const [showFeedback, setShowFeedback] = useState(false);
   const [currentAnswer, setCurrentAnswer] = useState<UserAnswer | null>(null);
-  const [timeLeft, setTimeLeft] = useState(0);
   const [isCompleted, setIsCompleted] = useState(false);
+  // 使用 ref 保存最新答案和题目开始时间，避免回调中读取到过期状态
+  const answersRef = useRef<UserAnswer[]>(session.answers);
+  const questionStartRef = useRef(Date.now());
 
   // 主题颜色
   const bgColor = useColorModeValue('gray.50', 'gray.900');
@@ -64,14 +75,44 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
   const currentQuestion = questions[currentQuestionIndex];
   const isLastQuestion = currentQuestionIndex === questions.length - 1;
 
+  // 限时模式下整场练习的剩余时间，恢复的会话扣除已用的答题时间
+  const [totalTimeLimit] = useState(() => {
+    if (!session.config.timedMode || !session.config.totalTimeLimit) return undefined;
+    const usedTime = session.answers.reduce((sum, answer) => sum + answer.timeSpent, 0);
+    return Math.max(session.config.totalTimeLimit - usedTime, 1);
+  });
+
   /**
-   * 初始化计时器
+   * 记录题目开始时间
    */
   useEffect(() => {
-    if (currentQuestion && showTimer) {
-      setTimeLeft(currentQuestion.timeLimit);
+    questionStartRef.current = Date.now();
+  }, [currentQuestionIndex]);
+
+  /**
+   * 结束练习
+   */
+  const finishQuiz = useCallback(() => {
+    setIsCompleted(true);
+    setShowFeedback(false);
+    onComplete(answersRef.current);
+  }, [onComplete]);
+
+  /**
+   * 进入下一题
+   */
+  const handleNextQuestion = useCallback(() => {
+    setShowFeedback(false);
+    setCurrentAnswer(null);
+
+    if (isLastQuestion) {
+      // 完成练习
+      finishQuiz();
+    } else {
+      // 进入下一题
+      setCurrentQuestionIndex(prev => prev + 1);
     }
-  }, [currentQuestion, showTimer]);
+  }, [isLastQuestion, finishQuiz]);
 
   /**
    * 处理答题
@@ -83,7 +124,10 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
       questionId: currentQuestion.id,
       answer,
       isCorrect: checkAnswer(currentQuestion, answer),
-      timeSpent: currentQuestion.timeLimit - timeLeft,
+      timeSpent: Math.min(
+        currentQuestion.timeLimit,
+        Math.round((Date.now() - questionStartRef.current) / 1000)
+      ),
       answeredAt: new Date(),
       score: 0, // 将在后续计算
     };
@@ -91,8 +135,10 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
     // 计算得分
     userAnswer.score = userAnswer.isCorrect ? currentQuestion.points : 0;
 
+    answersRef.current = [...answersRef.current, userAnswer];
     setCurrentAnswer(userAnswer);
-    setAnswers(prev => [...prev, userAnswer]);
+    setAnswers(answersRef.current);
+    onProgress?.(answersRef.current);
 
     // 显示即时反馈
     if (showInstantFeedback) {
@@ -101,7 +147,7 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
       // 直接进入下一题或完成
       handleNextQuestion();
     }
-  }, [currentQuestion, timeLeft, isCompleted, showInstantFeedback]);
+  }, [currentQuestion, isCompleted, showInstantFeedback, handleNextQuestion, onProgress]);
 
   /**
    * 检查答案是否正确
@@ -135,6 +181,15 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
         }
         return false;
       
+      case 'true_false':
+        return answer === String(question.isTrue);
+      
+      case 'matching':
+        if (answer && typeof answer === 'object' && !Array.isArray(answer)) {
+          return question.correctMatches.every(match => answer[match.leftId] === match.rightId);
+        }
+        return false;
+      
       default:
         return false;
     }
@@ -151,21 +206,13 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
   }, [currentQuestion, isCompleted, handleAnswer]);
 
   /**
-   * 进入下一题
+   * 总时间用完，提前结束练习
    */
-  const handleNextQuestion = useCallback(() => {
-    setShowFeedback(false);
-    setCurrentAnswer(null);
-
-    if (isLastQuestion) {
-      // 完成练习
-      setIsCompleted(true);
-      onComplete(answers);
-    } else {
-      // 进入下一题
-      setCurrentQuestionIndex(prev => prev + 1);
+  const handleSessionTimeUp = useCallback(() => {
+    if (!isCompleted) {
+      finishQuiz();
     }
-  }, [isLastQuestion, answers, onComplete]);
+  }, [isCompleted, finishQuiz]);
 
   /**
    * 关闭反馈
@@ -200,11 +247,36 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
       case 'drag_drop':
         return <DragDropQuestion {...commonProps} />;
       
+      case 'true_false':
+        return <TrueFalseQuestion {...commonProps} question={currentQuestion} />;
+      
+      case 'matching':
+        return <MatchingQuestion {...commonProps} question={currentQuestion} />;
+      
       default:
         return null;
     }
   };
 
+  /**
+   * 把答案转换为反馈中展示的文本
+   */
+  const formatAnswer = (question: QuizQuestion, answer: string | string[] | { [key: string]: string }): string => {
+    if (question.type === 'true_false' && typeof answer === 'string') {
+      return answer === 'true' ? '正确' : answer === 'false' ? '错误' : answer;
+    }
+
+    if (question.type === 'matching' && answer && typeof answer === 'object' && !Array.isArray(answer)) {
+      const leftContent = new Map(question.leftItems.map(item => [item.id, item.content]));
+      const rightContent = new Map(question.rightItems.map(item => [item.id, item.content]));
+      return Object.entries(answer)
+        .map(([leftId, rightId]) => `${leftContent.get(leftId)}: ${rightContent.get(rightId)}`)
+        .join('；');
+    }
+
+    return typeof answer === 'string' ? answer : JSON.stringify(answer);
+  };
+
   /**
    * 获取反馈信息
    */
@@ -215,8 +287,8 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
       isCorrect: currentAnswer.isCorrect,
       message: currentAnswer.isCorrect ? '回答正确！' : '回答错误',
       explanation: currentQuestion.explanation,
-      correctAnswer: currentQuestion.correctAnswer,
-      userAnswer: typeof currentAnswer.answer === 'string' ? currentAnswer.answer : JSON.stringify(currentAnswer.answer),
+      correctAnswer: formatAnswer(currentQuestion, currentQuestion.correctAnswer),
+      userAnswer: formatAnswer(currentQuestion, currentAnswer.answer),
       isVisible: showFeedback,
       onClose: handleCloseFeedback,
       onNext: isLastQuestion ? undefined : handleNextQuestion,
@@ -259,10 +331,25 @@ export const QuizContainer: React.FC<QuizContainerProps> = ({
               </Box>
             )}
 
+            {/* 总时间计时器 */}
+            {!!totalTimeLimit && (
+              <HStack spacing={2}>
+                <Text fontSize="sm" color="gray.500">
+                  总时间
+                </Text>
+                <Timer
+                  duration={totalTimeLimit}
+                  onTimeUp={handleSessionTimeUp}
+                  variant="compact"
+                />
+              </HStack>
+            )}
+
             {/* 计时器 */}
             {showTimer && currentQuestion && (
               <Box>
                 <Timer
+                  key={currentQuestionIndex}
                   duration={currentQuestion.timeLimit}
                   onTimeUp={handleTimeUp}
                   isPaused={showFeedback}
@@ -0,0 +1,255 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  SimpleGrid,
+  Badge,
+  useColorModeValue,
+  Fade,
+  ScaleFade,
+} from '@chakra-ui/react';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { TrueFalseQuestion as TrueFalseQuestionType } from '@/types/practice';
+import { QuestionComponentProps } from './types';
+
+/**
+ * 判断题组件Props
+ */
+interface TrueFalseQuestionProps extends QuestionComponentProps {
+  question: TrueFalseQuestionType;
+}
+
+/**
+ * 判断题选项
+ */
+const CHOICES = [
+  { value: 'true', label: '正确', shortcut: 'T', Icon: CheckIcon },
+  { value: 'false', label: '错误', shortcut: 'F', Icon: XMarkIcon },
+];
+
+/**
+ * 判断题组件
+ * 支持点击、触摸和键盘（T/F 或 ←/→ 选择，Enter 提交）答题
+ */
+export const TrueFalseQuestion: React.FC<TrueFalseQuestionProps> = ({
+  question,
+  onAnswer,
+  showResult = false,
+  userAnswer,
+  disabled = false,
+  className,
+}) => {
+  const [selectedValue, setSelectedValue] = useState<string>('');
+  const [isAnswered, setIsAnswered] = useState(false);
+
+  // 主题颜色
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+  const correctColor = useColorModeValue('green.50', 'green.900');
+  const incorrectColor = useColorModeValue('red.50', 'red.900');
+  const vocabularyBg = useColorModeValue('gray.50', 'gray.700');
+  const explanationBg = useColorModeValue('blue.50', 'blue.900');
+
+  const isLocked = disabled || isAnswered;
+  const isRevealed = showResult || isAnswered;
+  const correctValue = String(question.isTrue);
+
+  /**
+   * 处理选项选择
+   */
+  const handleSelect = useCallback((value: string) => {
+    if (isLocked) return;
+    setSelectedValue(value);
+  }, [isLocked]);
+
+  /**
+   * 提交答案
+   */
+  const handleSubmit = useCallback(() => {
+    if (!selectedValue || isLocked) return;
+
+    setIsAnswered(true);
+    onAnswer(selectedValue);
+  }, [selectedValue, isLocked, onAnswer]);
+
+  /**
+   * 键盘快捷键
+   */
+  useEffect(() => {
+    if (isLocked) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // 输入框内的按键不拦截
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 't' || key === 'arrowleft') {
+        event.preventDefault();
+        handleSelect('true');
+      } else if (key === 'f' || key === 'arrowright') {
+        event.preventDefault();
+        handleSelect('false');
+      } else if (key === 'enter' && selectedValue) {
+        event.preventDefault();
+        handleSubmit();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isLocked, selectedValue, handleSelect, handleSubmit]);
+
+  /**
+   * 获取选项样式
+   */
+  const getChoiceStyle = (value: string) => {
+    const isSelected = selectedValue === value || userAnswer?.answer === value;
+
+    if (!isRevealed) {
+      return {
+        bg: isSelected ? 'primary.50' : bgColor,
+        borderColor: isSelected ? 'primary.500' : borderColor,
+      };
+    }
+
+    if (value === correctValue) {
+      return { bg: correctColor, borderColor: 'green.500' };
+    }
+
+    if (isSelected) {
+      return { bg: incorrectColor, borderColor: 'red.500' };
+    }
+
+    return { bg: bgColor, borderColor };
+  };
+
+  return (
+    <Box className={className} w="full" maxW="600px" mx="auto">
+      <VStack spacing={6} align="stretch">
+        {/* 题目信息 */}
+        <Box>
+          <HStack justify="space-between" mb={4}>
+            <Badge colorScheme="primary" variant="subtle">
+              判断题
+            </Badge>
+            <HStack spacing={2}>
+              <Badge colorScheme="gray" variant="outline">
+                {question.difficulty}
+              </Badge>
+              <Badge colorScheme="blue" variant="outline">
+                {question.points}分
+              </Badge>
+            </HStack>
+          </HStack>
+
+          {/* 词汇信息 */}
+          <Box mb={4} p={4} bg={vocabularyBg} borderRadius="lg">
+            <Text fontSize="xl" fontWeight="bold" mb={2}>
+              {question.vocabulary.word}
+            </Text>
+            <Text fontSize="sm" color="gray.600">
+              {question.vocabulary.pronunciation}
+            </Text>
+          </Box>
+
+          {/* 题目文本 */}
+          <Text fontSize="lg" fontWeight="medium" mb={2}>
+            {question.question}
+          </Text>
+          <Text fontSize="sm" color="gray.500">
+            判断以上说法是否正确
+          </Text>
+        </Box>
+
+        {/* 选项 */}
+        <SimpleGrid columns={2} spacing={4} role="radiogroup" aria-label="判断题选项">
+          {CHOICES.map(({ value, label, shortcut, Icon }) => {
+            const isSelected = selectedValue === value;
+            const showIcon = isRevealed && (value === correctValue || isSelected);
+
+            return (
+              <Button
+                key={value}
+                role="radio"
+                aria-checked={isSelected}
+                h="auto"
+                minH="72px"
+                py={4}
+                variant="outline"
+                borderWidth="2px"
+                borderRadius="lg"
+                isDisabled={isLocked && !isRevealed}
+                cursor={isLocked ? 'not-allowed' : 'pointer'}
+                onClick={() => handleSelect(value)}
+                _hover={isLocked ? {} : { transform: 'translateY(-2px)', shadow: 'md' }}
+                {...getChoiceStyle(value)}
+              >
+                <VStack spacing={1}>
+                  <HStack spacing={2}>
+                    <Icon width={20} height={20} />
+                    <Text fontSize="lg">{label}</Text>
+                    {showIcon && (
+                      <ScaleFade in={true} initialScale={0.5}>
+                        {value === correctValue ? (
+                          <CheckIcon width={16} height={16} color="green" />
+                        ) : (
+                          <XMarkIcon width={16} height={16} color="red" />
+                        )}
+                      </ScaleFade>
+                    )}
+                  </HStack>
+                  <Text fontSize="xs" color="gray.500" display={{ base: 'none', md: 'block' }}>
+                    快捷键 {shortcut}
+                  </Text>
+                </VStack>
+              </Button>
+            );
+          })}
+        </SimpleGrid>
+
+        {/* 提交按钮 */}
+        {!isRevealed && (
+          <Button
+            colorScheme="primary"
+            size="lg"
+            onClick={handleSubmit}
+            isDisabled={!selectedValue || disabled}
+            _hover={{
+              transform: 'translateY(-2px)',
+              shadow: 'lg',
+            }}
+          >
+            提交答案
+          </Button>
+        )}
+
+        {/* 答案解释 */}
+        {isRevealed && question.explanation && (
+          <Fade in={true}>
+            <Box
+              p={4}
+              bg={explanationBg}
+              borderRadius="lg"
+              borderLeft="4px solid"
+              borderLeftColor="blue.500"
+            >
+              <Text fontSize="sm" fontWeight="medium" color="blue.700" mb={2}>
+                解释说明
+              </Text>
+              <Text fontSize="sm" color="blue.600">
+                {question.explanation}
+              </Text>
+            </Box>
+          </Fade>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default TrueFalseQuestion;
@@ -3,21 +3,28 @@ export { MultipleChoiceQuestion } from './MultipleChoiceQuestion';
 export { FillBlankQuestion } from './FillBlankQuestion';
 export { ListeningQuestion } from './ListeningQuestion';
 export { DragDropQuestion } from './DragDropQuestion';
+export { TrueFalseQuestion } from './TrueFalseQuestion';
+export { MatchingQuestion } from './MatchingQuestion';
 export { Timer } from './Timer';
 export { ProgressIndicator } from './ProgressIndicator';
 export { FeedbackDisplay } from './FeedbackDisplay';
 export { QuizContainer } from './QuizContainer';
+export { PracticeResultSummary } from './PracticeResultSummary';
 export { MobileDragItem } from './MobileDragItem';
+export { PracticeSourceSelect } from './PracticeSourceSelect';
 
 // Default exports
 export { default as MultipleChoiceQuestionDefault } from './MultipleChoiceQuestion';
 export { default as FillBlankQuestionDefault } from './FillBlankQuestion';
 export { default as ListeningQuestionDefault } from './ListeningQuestion';
 export { default as DragDropQuestionDefault } from './DragDropQuestion';
+export { default as TrueFalseQuestionDefault } from './TrueFalseQuestion';
+export { default as MatchingQuestionDefault } from './MatchingQuestion';
 export { default as TimerDefault } from './Timer';
 export { default as ProgressIndicatorDefault } from './ProgressIndicator';
 export { default as FeedbackDisplayDefault } from './FeedbackDisplay';
 export { default as QuizContainerDefault } from './QuizContainer';
+export { default as PracticeResultSummaryDefault } from './PracticeResultSummary';
 export { default as MobileDragItemDefault } from './MobileDragItem';
 
 // Types
@@ -1,6 +1,6 @@
 import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
 import { useState } from 'react';
-import { Box, VStack, HStack, FormControl, FormLabel, FormErrorMessage, Input, Textarea, Select, Button, Tag, TagLabel, TagCloseButton, Wrap, WrapItem, useToast, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalCloseButton, Text, Divider, } from '@chakra-ui/react';
+import { Box, VStack, HStack, FormControl, FormLabel, FormErrorMessage, Input, Textarea, Select, Button, Tag, TagLabel, TagCloseButton, Wrap, WrapItem, useToast, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalCloseButton, Text, Divider, Alert, AlertIcon, } from '@chakra-ui/react';
 import { PlusIcon } from '@heroicons/react/24/outline';
 import { Web3Category, DifficultyLevel } from '@/types';
 import { vocabularyService } from '@/services/vocabularyService';
@@ -34,6 +34,7 @@ export const AddVocabularyForm = ({ isOpen, onClose, onSuccess, initialData, cla
     const [errors, setErrors] = useState({});
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [newTag, setNewTag] = useState('');
+    const [similarWarning, setSimilarWarning] = useState(null);
     const validateForm = () => {
         const newErrors = {};
         if (!formData.word.trim()) {
@@ -59,6 +60,9 @@ export const AddVocabularyForm = ({ isOpen, onClose, onSuccess, initialData, cla
         return Object.keys(newErrors).length === 0;
     };
     const handleInputChange = (field, value) => {
+        if (field === 'word') {
+            setSimilarWarning(null);
+        }
         setFormData(prev => ({
             ...prev,
             [field]: value,
@@ -107,8 +111,11 @@ export const AddVocabularyForm = ({ isOpen, onClose, onSuccess, initialData, cla
                 studyCount: 0,
                 accuracy: 0,
             };
-            const result = await vocabularyService.addVocabulary(vocabularyData);
-            if (result.success && result.data) {
+            const result = await vocabularyService.addVocabulary(vocabularyData, { allowSimilar: !!similarWarning });
+            if (!result.success && result.error === '发现相似词汇') {
+                setSimilarWarning(result.message || result.error);
+            }
+            else if (result.success && result.data) {
                 toast({
                     title: '添加成功',
                     description: `词汇 "${formData.word}" 已成功添加到词汇库`,
@@ -156,6 +163,7 @@ export const AddVocabularyForm = ({ isOpen, onClose, onSuccess, initialData, cla
         });
         setErrors({});
         setNewTag('');
+        setSimilarWarning(null);
         onClose();
     };
     const handleKeyPress = (event, action) => {
@@ -164,6 +172,6 @@ export const AddVocabularyForm = ({ isOpen, onClose, onSuccess, initialData, cla
             action();
         }
     };
-    return (_jsxs(Modal, { isOpen: isOpen, onClose: handleClose, size: "xl", scrollBehavior: "inside", closeOnOverlayClick: false, children: [_jsx(ModalOverlay, { bg: "blackAlpha.600", backdropFilter: "blur(4px)" }), _jsxs(ModalContent, { className: className, style: style, "data-testid": testId, maxH: "90vh", children: [_jsxs(ModalHeader, { children: [_jsx(Text, { fontSize: "xl", fontWeight: "bold", children: "\u6DFB\u52A0\u65B0\u8BCD\u6C47" }), _jsx(Text, { fontSize: "sm", color: "gray.600", mt: 1, children: "\u6DFB\u52A0\u60A8\u60F3\u8981\u5B66\u4E60\u7684Web3.0\u548CDeFi\u8BCD\u6C47" })] }), _jsx(ModalCloseButton, {}), _jsx(ModalBody, { pb: 6, children: _jsxs(VStack, { spacing: 6, align: "stretch", children: [_jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u57FA\u672C\u4FE1\u606F" }), _jsxs(VStack, { spacing: 4, align: "stretch", children: [_jsxs(FormControl, { isInvalid: !!errors.word, isRequired: true, children: [_jsx(FormLabel, { children: "\u5355\u8BCD" }), _jsx(Input, { value: formData.word, onChange: (e) => handleInputChange('word', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u5355\u8BCD\uFF0C\u5982\uFF1ADeFi", size: "lg" }), _jsx(FormErrorMessage, { children: errors.word })] }), _jsxs(FormControl, { isInvalid: !!errors.definition, isRequired: true, children: [_jsx(FormLabel, { children: "\u4E2D\u6587\u91CA\u4E49" }), _jsx(Textarea, { value: formData.definition, onChange: (e) => handleInputChange('definition', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u4E2D\u6587\u91CA\u4E49", rows: 3, resize: "vertical" }), _jsx(FormErrorMessage, { children: errors.definition })] }), _jsxs(FormControl, { children: [_jsx(FormLabel, { children: "\u82F1\u6587\u91CA\u4E49\uFF08\u53EF\u9009\uFF09" }), _jsx(Textarea, { value: formData.englishDefinition, onChange: (e) => handleInputChange('englishDefinition', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u82F1\u6587\u91CA\u4E49", rows: 2, resize: "vertical" })] }), _jsxs(FormControl, { isInvalid: !!errors.pronunciation, isRequired: true, children: [_jsx(FormLabel, { children: "\u97F3\u6807" }), _jsx(Input, { value: formData.pronunciation, onChange: (e) => handleInputChange('pronunciation', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u97F3\u6807\uFF0C\u5982\uFF1A/di\u02D0fa\u026A/", fontFamily: "mono" }), _jsx(FormErrorMessage, { children: errors.pronunciation })] })] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u5206\u7C7B\u4FE1\u606F" }), _jsxs(HStack, { spacing: 4, align: "start", children: [_jsxs(FormControl, { flex: "1", children: [_jsx(FormLabel, { children: "\u5206\u7C7B" }), _jsx(Select, { value: formData.category, onChange: (e) => handleInputChange('category', e.target.value), children: categoryOptions.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] }), _jsxs(FormControl, { flex: "1", children: [_jsx(FormLabel, { children: "\u96BE\u5EA6" }), _jsx(Select, { value: formData.difficulty, onChange: (e) => handleInputChange('difficulty', e.target.value), children: difficultyOptions.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] })] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u6807\u7B7E" }), _jsxs(VStack, { spacing: 3, align: "stretch", children: [_jsxs(HStack, { children: [_jsx(Input, { value: newTag, onChange: (e) => setNewTag(e.target.value), placeholder: "\u8F93\u5165\u6807\u7B7E", onKeyPress: (e) => handleKeyPress(e, handleAddTag) }), _jsx(Button, { leftIcon: _jsx(PlusIcon, { width: 16, height: 16 }), onClick: handleAddTag, isDisabled: !newTag.trim(), children: "\u6DFB\u52A0" })] }), formData.tags.length > 0 && (_jsx(Wrap, { children: formData.tags.map((tag, index) => (_jsx(WrapItem, { children: _jsxs(Tag, { size: "md", borderRadius: "full", variant: "solid", colorScheme: "primary", children: [_jsx(TagLabel, { children: tag }), _jsx(TagCloseButton, { onClick: () => handleRemoveTag(tag) })] }) }, index))) }))] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u4F8B\u53E5" }), _jsxs(VStack, { spacing: 3, align: "stretch", children: [formData.examples.map((example, index) => (_jsxs(HStack, { align: "start", children: [_jsx(Textarea, { value: example, onChange: (e) => handleUpdateExample(index, e.target.value), placeholder: `请输入例句 ${index + 1}`, rows: 2, resize: "vertical", flex: "1" }), formData.examples.length > 1 && (_jsx(Button, { size: "sm", variant: "ghost", colorScheme: "red", onClick: () => handleRemoveExample(index), mt: 2, children: "\u5220\u9664" }))] }, index))), _jsx(Button, { variant: "outline", leftIcon: _jsx(PlusIcon, { width: 16, height: 16 }), onClick: handleAddExample, size: "sm", alignSelf: "start", children: "\u6DFB\u52A0\u4F8B\u53E5" }), errors.examples && (_jsx(Text, { color: "red.500", fontSize: "sm", children: errors.examples }))] })] }), _jsx(Divider, {}), _jsxs(HStack, { justify: "end", spacing: 3, children: [_jsx(Button, { variant: "ghost", onClick: handleClose, isDisabled: isSubmitting, children: "\u53D6\u6D88" }), _jsx(Button, { colorScheme: "primary", onClick: handleSubmit, isLoading: isSubmitting, loadingText: "\u6DFB\u52A0\u4E2D...", children: "\u6DFB\u52A0\u8BCD\u6C47" })] })] }) })] })] }));
+    return (_jsxs(Modal, { isOpen: isOpen, onClose: handleClose, size: "xl", scrollBehavior: "inside", closeOnOverlayClick: false, children: [_jsx(ModalOverlay, { bg: "blackAlpha.600", backdropFilter: "blur(4px)" }), _jsxs(ModalContent, { className: className, style: style, "data-testid": testId, maxH: "90vh", children: [_jsxs(ModalHeader, { children: [_jsx(Text, { fontSize: "xl", fontWeight: "bold", children: "\u6DFB\u52A0\u65B0\u8BCD\u6C47" }), _jsx(Text, { fontSize: "sm", color: "gray.600", mt: 1, children: "\u6DFB\u52A0\u60A8\u60F3\u8981\u5B66\u4E60\u7684Web3.0\u548CDeFi\u8BCD\u6C47" })] }), _jsx(ModalCloseButton, {}), _jsx(ModalBody, { pb: 6, children: _jsxs(VStack, { spacing: 6, align: "stretch", children: [_jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u57FA\u672C\u4FE1\u606F" }), _jsxs(VStack, { spacing: 4, align: "stretch", children: [_jsxs(FormControl, { isInvalid: !!errors.word, isRequired: true, children: [_jsx(FormLabel, { children: "\u5355\u8BCD" }), _jsx(Input, { value: formData.word, onChange: (e) => handleInputChange('word', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u5355\u8BCD\uFF0C\u5982\uFF1ADeFi", size: "lg" }), _jsx(FormErrorMessage, { children: errors.word })] }), _jsxs(FormControl, { isInvalid: !!errors.definition, isRequired: true, children: [_jsx(FormLabel, { children: "\u4E2D\u6587\u91CA\u4E49" }), _jsx(Textarea, { value: formData.definition, onChange: (e) => handleInputChange('definition', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u4E2D\u6587\u91CA\u4E49", rows: 3, resize: "vertical" }), _jsx(FormErrorMessage, { children: errors.definition })] }), _jsxs(FormControl, { children: [_jsx(FormLabel, { children: "\u82F1\u6587\u91CA\u4E49\uFF08\u53EF\u9009\uFF09" }), _jsx(Textarea, { value: formData.englishDefinition, onChange: (e) => handleInputChange('englishDefinition', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u82F1\u6587\u91CA\u4E49", rows: 2, resize: "vertical" })] }), _jsxs(FormControl, { isInvalid: !!errors.pronunciation, isRequired: true, children: [_jsx(FormLabel, { children: "\u97F3\u6807" }), _jsx(Input, { value: formData.pronunciation, onChange: (e) => handleInputChange('pronunciation', e.target.value), placeholder: "\u8BF7\u8F93\u5165\u97F3\u6807\uFF0C\u5982\uFF1A/di\u02D0fa\u026A/", fontFamily: "mono" }), _jsx(FormErrorMessage, { children: errors.pronunciation })] })] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u5206\u7C7B\u4FE1\u606F" }), _jsxs(HStack, { spacing: 4, align: "start", children: [_jsxs(FormControl, { flex: "1", children: [_jsx(FormLabel, { children: "\u5206\u7C7B" }), _jsx(Select, { value: formData.category, onChange: (e) => handleInputChange('category', e.target.value), children: categoryOptions.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] }), _jsxs(FormControl, { flex: "1", children: [_jsx(FormLabel, { children: "\u96BE\u5EA6" }), _jsx(Select, { value: formData.difficulty, onChange: (e) => handleInputChange('difficulty', e.target.value), children: difficultyOptions.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] })] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u6807\u7B7E" }), _jsxs(VStack, { spacing: 3, align: "stretch", children: [_jsxs(HStack, { children: [_jsx(Input, { value: newTag, onChange: (e) => setNewTag(e.target.value), placeholder: "\u8F93\u5165\u6807\u7B7E", onKeyPress: (e) => handleKeyPress(e, handleAddTag) }), _jsx(Button, { leftIcon: _jsx(PlusIcon, { width: 16, height: 16 }), onClick: handleAddTag, isDisabled: !newTag.trim(), children: "\u6DFB\u52A0" })] }), formData.tags.length > 0 && (_jsx(Wrap, { children: formData.tags.map((tag, index) => (_jsx(WrapItem, { children: _jsxs(Tag, { size: "md", borderRadius: "full", variant: "solid", colorScheme: "primary", children: [_jsx(TagLabel, { children: tag }), _jsx(TagCloseButton, { onClick: () => handleRemoveTag(tag) })] }) }, index))) }))] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, children: "\u4F8B\u53E5" }), _jsxs(VStack, { spacing: 3, align: "stretch", children: [formData.examples.map((example, index) => (_jsxs(HStack, { align: "start", children: [_jsx(Textarea, { value: example, onChange: (e) => handleUpdateExample(index, e.target.value), placeholder: `请输入例句 ${index + 1}`, rows: 2, resize: "vertical", flex: "1" }), formData.examples.length > 1 && (_jsx(Button, { size: "sm", variant: "ghost", colorScheme: "red", onClick: () => handleRemoveExample(index), mt: 2, children: "\u5220\u9664" }))] }, index))), _jsx(Button, { variant: "outline", leftIcon: _jsx(PlusIcon, { width: 16, height: 16 }), onClick: handleAddExample, size: "sm", alignSelf: "start", children: "\u6DFB\u52A0\u4F8B\u53E5" }), errors.examples && (_jsx(Text, { color: "red.500", fontSize: "sm", children: errors.examples }))] })] }), _jsx(Divider, {}), similarWarning && (_jsxs(Alert, { status: "warning", borderRadius: "md", children: [_jsx(AlertIcon, {}), similarWarning, "\uFF0C\u786E\u8BA4\u4E0D\u662F\u540C\u4E00\u4E2A\u8BCD\u6C47\u53EF\u4EE5\u7EE7\u7EED\u6DFB\u52A0"] })), _jsxs(HStack, { justify: "end", spacing: 3, children: [_jsx(Button, { variant: "ghost", onClick: handleClose, isDisabled: isSubmitting, children: "\u53D6\u6D88" }), _jsx(Button, { colorScheme: "primary", onClick: handleSubmit, isLoading: isSubmitting, loadingText: "\u6DFB\u52A0\u4E2D...", children: similarWarning ? '仍然添加' : '添加词汇' })] })] }) })] })] }));
 };
 export default AddVocabularyForm;
@@ -24,6 +24,8 @@ import {
   ModalCloseButton,
   Text,
   Divider,
+  Alert,
+  AlertIcon,
 } from '@chakra-ui/react';
 import { PlusIcon } from '@heroicons/react/24/outline';
 import { Web3Category, DifficultyLevel, VocabularyItem, BaseComponentProps } from '@/types';
@@ -121,6 +123,8 @@ export const AddVocabularyForm: React.FC<AddVocabularyFormProps> = ({
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [newTag, setNewTag] = useState('');
+  // 与已有词汇相似时的提示，再次提交即确认添加
+  const [similarWarning, setSimilarWarning] = useState<string | null>(null);
 
   /**
    * 验证表单
@@ -161,6 +165,9 @@ export const AddVocabularyForm: React.FC<AddVocabularyFormProps> = ({
    * 处理输入变化
    */
   const handleInputChange = (field: keyof VocabularyFormData, value: any) => {
+    if (field === 'word') {
+      setSimilarWarning(null);
+    }
     setFormData(prev => ({
       ...prev,
       [field]: value,
@@ -238,9 +245,11 @@ export const AddVocabularyForm: React.FC<AddVocabularyFormProps> = ({
         accuracy: 0,
       };
 
-      const result = await vocabularyService.addVocabulary(vocabularyData);
+      const result = await vocabularyService.addVocabulary(vocabularyData, { allowSimilar: !!similarWarning });
 
-      if (result.success && result.data) {
+      if (!result.success && result.error === '发现相似词汇') {
+        setSimilarWarning(result.message || result.error);
+      } else if (result.success && result.data) {
         toast({
           title: '添加成功',
           description: `词汇 "${formData.word}" 已成功添加到词汇库`,
@@ -291,6 +300,7 @@ export const AddVocabularyForm: React.FC<AddVocabularyFormProps> = ({
     });
     setErrors({});
     setNewTag('');
+    setSimilarWarning(null);
     onClose();
   };
 
@@ -523,6 +533,13 @@ export const AddVocabularyForm: React.FC<AddVocabularyFormProps> = ({
 
             <Divider />
 
+            {similarWarning && (
+              <Alert status="warning" borderRadius="md">
+                <AlertIcon />
+                {similarWarning}，确认不是同一个词汇可以继续添加
+              </Alert>
+            )}
+
             {/* 操作按钮 */}
             <HStack justify="end" spacing={3}>
               <Button
@@ -538,7 +555,7 @@ export const AddVocabularyForm: React.FC<AddVocabularyFormProps> = ({
                 isLoading={isSubmitting}
                 loadingText="添加中..."
               >
-                添加词汇
+                {similarWarning ? '仍然添加' : '添加词汇'}
               </Button>
             </HStack>
           </VStack>
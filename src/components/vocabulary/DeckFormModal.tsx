@@ -0,0 +1,159 @@
+/**
+ * 卡组编辑弹窗
+ * 新建或编辑卡组的名称、说明和学习设置
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  VStack,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  FormErrorMessage,
+  Input,
+  Textarea,
+  NumberInput,
+  NumberInputField,
+  Switch,
+  Checkbox,
+  CheckboxGroup,
+  SimpleGrid,
+  Button,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+} from '@chakra-ui/react';
+import { VocabularyDeck, QuestionType, QUESTION_TYPE_LABELS } from '@/types';
+import { DeckInput, MAX_DECK_NAME_LENGTH } from '@/services/deckService';
+
+/**
+ * 卡组编辑弹窗Props
+ */
+interface DeckFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** 编辑的卡组，不传时为新建 */
+  deck?: VocabularyDeck | null;
+  /** 提交回调，返回错误信息时显示在表单中 */
+  onSubmit: (input: DeckInput) => Promise<string | null>;
+}
+
+/**
+ * 卡组编辑弹窗组件
+ */
+export const DeckFormModal: React.FC<DeckFormModalProps> = ({ isOpen, onClose, deck, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [questionCount, setQuestionCount] = useState('');
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>([]);
+  const [randomOrder, setRandomOrder] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(deck?.name ?? '');
+      setDescription(deck?.description ?? '');
+      setQuestionCount(deck?.settings.questionCount?.toString() ?? '');
+      setQuestionTypes(deck?.settings.questionTypes ?? []);
+      setRandomOrder(deck?.settings.randomOrder ?? true);
+      setError(null);
+    }
+  }, [isOpen, deck]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const count = parseInt(questionCount, 10);
+      const message = await onSubmit({
+        name,
+        description,
+        settings: {
+          questionCount: count > 0 ? count : undefined,
+          questionTypes: questionTypes.length > 0 ? questionTypes : undefined,
+          randomOrder,
+        },
+      });
+      setError(message);
+      if (!message) {
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>{deck ? '编辑卡组' : '新建卡组'}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <FormControl isRequired isInvalid={!!error}>
+              <FormLabel>名称</FormLabel>
+              <Input
+                value={name}
+                maxLength={MAX_DECK_NAME_LENGTH}
+                placeholder="例如：审计准备：重入与 MEV"
+                onChange={event => setName(event.target.value)}
+              />
+              <FormErrorMessage>{error}</FormErrorMessage>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>说明</FormLabel>
+              <Textarea
+                value={description}
+                rows={3}
+                placeholder="这个卡组的用途"
+                onChange={event => setDescription(event.target.value)}
+              />
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>每次练习题数</FormLabel>
+              <NumberInput min={1} max={100} value={questionCount} onChange={value => setQuestionCount(value)}>
+                <NumberInputField placeholder="跟随练习设置" />
+              </NumberInput>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>题型</FormLabel>
+              <CheckboxGroup value={questionTypes} onChange={value => setQuestionTypes(value as QuestionType[])}>
+                <SimpleGrid columns={3} spacing={2}>
+                  {Object.values(QuestionType).map(type => (
+                    <Checkbox key={type} value={type}>
+                      {QUESTION_TYPE_LABELS[type]}
+                    </Checkbox>
+                  ))}
+                </SimpleGrid>
+              </CheckboxGroup>
+              <FormHelperText>不选择时使用全部题型</FormHelperText>
+            </FormControl>
+
+            <FormControl display="flex" alignItems="center">
+              <FormLabel mb={0}>随机顺序出题</FormLabel>
+              <Switch isChecked={randomOrder} onChange={event => setRandomOrder(event.target.checked)} />
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            取消
+          </Button>
+          <Button colorScheme="primary" onClick={handleSubmit} isLoading={isSubmitting} isDisabled={!name.trim()}>
+            保存
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default DeckFormModal;
@@ -0,0 +1,87 @@
+/**
+ * 搜索结果高亮
+ * 显示搜索命中的片段，并用背景色标出匹配的部分
+ */
+
+import React from 'react';
+import { Text, Mark, VStack, useColorModeValue } from '@chakra-ui/react';
+import { BaseComponentProps } from '@/types';
+import { SearchField, SearchHighlight as SearchHighlightData } from '@/services/vocabularySearch';
+
+/**
+ * 搜索高亮Props
+ */
+interface SearchHighlightProps extends BaseComponentProps {
+  /** 搜索结果中的高亮片段 */
+  highlights: SearchHighlightData[];
+  /** 不显示的字段，例如卡片上已经单独显示的单词 */
+  excludeFields?: SearchField[];
+  /** 最多显示的片段数 */
+  maxItems?: number;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  word: '单词',
+  definition: '释义',
+  englishDefinition: '英文释义',
+  examples: '例句',
+  tags: '标签',
+};
+
+/**
+ * 按高亮区间拆分文本并标出匹配部分
+ */
+export const HighlightedText: React.FC<{ text: string; ranges: [number, number][] }> = ({ text, ranges }) => {
+  const markColor = useColorModeValue('yellow.100', 'yellow.700');
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > offset) {
+      parts.push(text.slice(offset, start));
+    }
+    parts.push(
+      <Mark key={start} bg={markColor} px="1px" borderRadius="sm">
+        {text.slice(start, end)}
+      </Mark>
+    );
+    offset = end;
+  });
+  if (offset < text.length) {
+    parts.push(text.slice(offset));
+  }
+
+  return <>{parts}</>;
+};
+
+/**
+ * 搜索高亮组件
+ */
+export const SearchHighlight: React.FC<SearchHighlightProps> = ({
+  highlights,
+  excludeFields = [],
+  maxItems = 2,
+  className,
+  style,
+  testId,
+}) => {
+  const labelColor = useColorModeValue('gray.500', 'gray.400');
+  const visible = highlights.filter(highlight => !excludeFields.includes(highlight.field)).slice(0, maxItems);
+
+  if (visible.length === 0) return null;
+
+  return (
+    <VStack align="stretch" spacing={1} className={className} style={style} data-testid={testId}>
+      {visible.map(highlight => (
+        <Text key={`${highlight.field}_${highlight.index}`} fontSize="sm" noOfLines={2}>
+          <Text as="span" color={labelColor} mr={2}>
+            {FIELD_LABELS[highlight.field]}
+          </Text>
+          <HighlightedText text={highlight.snippet} ranges={highlight.ranges} />
+        </Text>
+      ))}
+    </VStack>
+  );
+};
+
+export default SearchHighlight;
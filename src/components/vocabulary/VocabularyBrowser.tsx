@@ -0,0 +1,253 @@
+/**
+ * 词汇浏览器
+ * 组合筛选栏、批量操作栏和虚拟滚动列表，供各个词汇列表页面使用
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Box, useToast } from '@chakra-ui/react';
+import {
+  VocabularyItem,
+  VocabularyDeck,
+  VocabularyFilter,
+  VocabularySortBy,
+  SortDirection,
+  OperationResult,
+  BaseComponentProps,
+} from '@/types';
+import { filterVocabulary, sortVocabulary } from '@/contexts/VocabularyContext';
+import { vocabularyService } from '@/services/vocabularyService';
+import { deckService } from '@/services/deckService';
+import { masteryService } from '@/services/masteryService';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
+import { useResponsive } from '@/hooks/useResponsive';
+import { VocabularyFilterBar } from './VocabularyFilterBar';
+import { VocabularyBulkActions } from './VocabularyBulkActions';
+import { VocabularyList } from './VocabularyList';
+import { WordDetailsModal } from './WordDetailsModal';
+
+/**
+ * 列表上方页面标题、筛选栏和操作栏占用的高度
+ */
+const LIST_OFFSET = 320;
+
+/**
+ * 列表的最小高度
+ */
+const MIN_LIST_HEIGHT = 320;
+
+/**
+ * 词汇浏览器Props
+ */
+interface VocabularyBrowserProps extends BaseComponentProps {
+  /** 当前页面要显示的词汇 */
+  items: VocabularyItem[];
+  /** 全部词汇，用于显示关联词汇 */
+  vocabulary: VocabularyItem[];
+  /** 收藏的词汇ID */
+  favorites: string[];
+  /** 没有词汇时显示的文本 */
+  emptyText: string;
+  /** 默认排序字段 */
+  defaultSortBy?: VocabularySortBy;
+  /** 默认排序方向 */
+  defaultSortDirection?: SortDirection;
+  /** 词汇或收藏被修改后回调，用于重新加载数据 */
+  onChanged: () => void;
+}
+
+/**
+ * 词汇浏览器组件
+ */
+export const VocabularyBrowser: React.FC<VocabularyBrowserProps> = ({
+  items,
+  vocabulary,
+  favorites,
+  emptyText,
+  defaultSortBy = VocabularySortBy.CREATED_AT,
+  defaultSortDirection = SortDirection.DESC,
+  onChanged,
+  className,
+  style,
+  testId,
+}) => {
+  const toast = useToast();
+  const { screenHeight } = useResponsive();
+
+  const [filter, setFilter] = useState<VocabularyFilter>({});
+  const [sortBy, setSortBy] = useState(defaultSortBy);
+  const [sortDirection, setSortDirection] = useState(defaultSortDirection);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [decks, setDecks] = useState<VocabularyDeck[]>([]);
+
+  useEffect(() => {
+    deckService.getAllDecks().then(setDecks);
+  }, []);
+
+  const favoriteSet = useMemo(() => new Set(favorites), [favorites]);
+
+  const availableTags = useMemo(
+    () => Array.from(new Set(items.flatMap(item => item.tags))).sort((a, b) => a.localeCompare(b)),
+    [items]
+  );
+
+  const visibleItems = useMemo(
+    () => sortVocabulary(filterVocabulary(items, filter, favorites), sortBy, sortDirection),
+    [items, filter, favorites, sortBy, sortDirection]
+  );
+
+  // 词汇被删除或移出当前页面后，从选择中去掉
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(items.map(item => item.id));
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [items]);
+
+  const detail = useMemo(
+    () => (detailId ? vocabulary.find(item => item.id === detailId) ?? null : null),
+    [vocabulary, detailId]
+  );
+
+  const notify = useCallback(
+    (result: OperationResult<unknown>) => {
+      toast({
+        title: result.success ? result.message : result.error,
+        status: result.success ? 'success' : 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+    },
+    [toast]
+  );
+
+  const handleFilterChange = useCallback(
+    (next: VocabularyFilter) => {
+      setFilter(next);
+      setSelectedIds(new Set());
+      // 清空关键词后相关度排序没有意义，恢复默认排序
+      if (!next.keyword?.trim() && sortBy === VocabularySortBy.RELEVANCE) {
+        setSortBy(defaultSortBy);
+        setSortDirection(defaultSortDirection);
+      }
+    },
+    [sortBy, defaultSortBy, defaultSortDirection]
+  );
+
+  const handleSortChange = useCallback((nextSortBy: VocabularySortBy, direction: SortDirection) => {
+    setSortBy(nextSortBy);
+    setSortDirection(direction);
+  }, []);
+
+  const handleToggleSelect = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleSelectAll = useCallback(
+    (selected: boolean) => {
+      setSelectedIds(selected ? new Set(visibleItems.map(item => item.id)) : new Set());
+    },
+    [visibleItems]
+  );
+
+  const handleToggleFavorite = useCallback(
+    async (item: VocabularyItem) => {
+      const result = await vocabularyService.setFavorites([item.id], !favoriteSet.has(item.id));
+      if (!result.success) notify(result);
+      onChanged();
+    },
+    [favoriteSet, notify, onChanged]
+  );
+
+  const handleSelect = useCallback((item: VocabularyItem) => setDetailId(item.id), []);
+
+  const selected = Array.from(selectedIds);
+
+  const handleBulkFavorite = async (favorite: boolean) => {
+    notify(await vocabularyService.setFavorites(selected, favorite));
+    onChanged();
+  };
+
+  const handleBulkTags = async (tags: string[]) => {
+    notify(await vocabularyService.addTags(selected, tags));
+    onChanged();
+  };
+
+  const handleAddToDeck = async (deckId: string) => {
+    const result = await deckService.addWords(deckId, selected);
+    notify(result.success ? { ...result, message: `已将 ${selected.length} 个词汇加入卡组 "${result.data?.name}"` } : result);
+    if (result.success) {
+      setDecks(await deckService.getAllDecks());
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (!window.confirm(`确定删除选中的 ${selected.length} 个词汇吗？学习记录也会一起删除。`)) return;
+    notify(await vocabularyService.deleteMultipleVocabulary(selected));
+    setSelectedIds(new Set());
+    onChanged();
+  };
+
+  const isMastered = detail ? getMasteryStatus(detail) === 'mastered' : false;
+
+  return (
+    <Box className={className} style={style} data-testid={testId}>
+      <VocabularyFilterBar
+        filter={filter}
+        sortBy={sortBy}
+        sortDirection={sortDirection}
+        availableTags={availableTags}
+        onFilterChange={handleFilterChange}
+        onSortChange={handleSortChange}
+      />
+      <VocabularyBulkActions
+        selectedCount={selectedIds.size}
+        totalCount={visibleItems.length}
+        allFavorite={selected.length > 0 && selected.every(id => favoriteSet.has(id))}
+        decks={decks}
+        onSelectAll={handleSelectAll}
+        onFavorite={handleBulkFavorite}
+        onAddTags={handleBulkTags}
+        onAddToDeck={handleAddToDeck}
+        onDelete={handleBulkDelete}
+      />
+      <VocabularyList
+        items={visibleItems}
+        emptyText={items.length === 0 ? emptyText : '没有符合筛选条件的词汇'}
+        height={Math.max(MIN_LIST_HEIGHT, (screenHeight || window.innerHeight) - LIST_OFFSET)}
+        favorites={favoriteSet}
+        selectedIds={selectedIds}
+        onToggleSelect={handleToggleSelect}
+        onToggleFavorite={handleToggleFavorite}
+        onSelect={handleSelect}
+      />
+      <WordDetailsModal
+        isOpen={!!detail}
+        word={detail}
+        vocabulary={vocabulary}
+        isFavorite={detail ? favoriteSet.has(detail.id) : false}
+        isMastered={isMastered}
+        onClose={() => setDetailId(null)}
+        onToggleFavorite={detail ? () => handleToggleFavorite(detail) : undefined}
+        onToggleMastered={
+          detail && !isMastered
+            ? async () => {
+                await masteryService.markMastered([detail.id]);
+              }
+            : undefined
+        }
+      />
+    </Box>
+  );
+};
+
+export default VocabularyBrowser;
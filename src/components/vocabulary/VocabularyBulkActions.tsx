@@ -0,0 +1,200 @@
+/**
+ * 词汇批量操作栏
+ * 对选中的词汇批量收藏、添加标签、加入卡组或删除
+ */
+
+import React, { useState } from 'react';
+import {
+  Flex,
+  HStack,
+  Text,
+  Button,
+  Checkbox,
+  Input,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+  PopoverBody,
+  useDisclosure,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import {
+  HeartIcon,
+  TagIcon,
+  RectangleStackIcon,
+  TrashIcon,
+  ChevronDownIcon,
+} from '@heroicons/react/24/outline';
+import { VocabularyDeck, BaseComponentProps } from '@/types';
+
+/**
+ * 批量操作栏Props
+ */
+interface VocabularyBulkActionsProps extends BaseComponentProps {
+  /** 选中的数量 */
+  selectedCount: number;
+  /** 当前列表中的词汇数量 */
+  totalCount: number;
+  /** 选中的词汇是否都已收藏 */
+  allFavorite: boolean;
+  /** 可以加入的卡组 */
+  decks: VocabularyDeck[];
+  /** 全选或取消全选回调 */
+  onSelectAll: (selected: boolean) => void;
+  /** 收藏或取消收藏回调 */
+  onFavorite: (favorite: boolean) => void;
+  /** 添加标签回调 */
+  onAddTags: (tags: string[]) => void;
+  /** 加入卡组回调 */
+  onAddToDeck: (deckId: string) => void;
+  /** 删除回调 */
+  onDelete: () => void;
+}
+
+/**
+ * 添加标签弹出框，多个标签用逗号分隔
+ */
+const TagPopover: React.FC<{ onSubmit: (tags: string[]) => void }> = ({ onSubmit }) => {
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [value, setValue] = useState('');
+
+  const tags = value.split(/[,，]/).map(tag => tag.trim()).filter(Boolean);
+
+  const handleSubmit = () => {
+    if (tags.length === 0) return;
+    onSubmit(tags);
+    setValue('');
+    onClose();
+  };
+
+  return (
+    <Popover isOpen={isOpen} onOpen={onOpen} onClose={onClose} placement="bottom-start">
+      <PopoverTrigger>
+        <Button size="sm" variant="outline" leftIcon={<TagIcon width={16} height={16} />}>
+          添加标签
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent w="260px">
+        <PopoverBody>
+          <HStack>
+            <Input
+              size="sm"
+              autoFocus
+              value={value}
+              placeholder="多个标签用逗号分隔"
+              onChange={event => setValue(event.target.value)}
+              onKeyDown={event => {
+                if (event.key === 'Enter') handleSubmit();
+              }}
+            />
+            <Button size="sm" colorScheme="primary" isDisabled={tags.length === 0} onClick={handleSubmit}>
+              添加
+            </Button>
+          </HStack>
+        </PopoverBody>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/**
+ * 批量操作栏组件
+ */
+export const VocabularyBulkActions: React.FC<VocabularyBulkActionsProps> = ({
+  selectedCount,
+  totalCount,
+  allFavorite,
+  decks,
+  onSelectAll,
+  onFavorite,
+  onAddTags,
+  onAddToDeck,
+  onDelete,
+  className,
+  style,
+  testId,
+}) => {
+  const bgColor = useColorModeValue('primary.50', 'gray.700');
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <Flex
+      gap={2}
+      wrap="wrap"
+      align="center"
+      px={4}
+      py={2}
+      mb={3}
+      bg={hasSelection ? bgColor : undefined}
+      borderRadius="lg"
+      className={className}
+      style={style}
+      data-testid={testId}
+    >
+      <Checkbox
+        isChecked={totalCount > 0 && selectedCount === totalCount}
+        isIndeterminate={hasSelection && selectedCount < totalCount}
+        isDisabled={totalCount === 0}
+        onChange={event => onSelectAll(event.target.checked)}
+      >
+        <Text fontSize="sm">
+          {hasSelection ? `已选择 ${selectedCount} 个` : `共 ${totalCount} 个词汇`}
+        </Text>
+      </Checkbox>
+
+      {hasSelection && (
+        <HStack spacing={2} wrap="wrap" ml={{ base: 0, md: 'auto' }}>
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<HeartIcon width={16} height={16} />}
+            onClick={() => onFavorite(!allFavorite)}
+          >
+            {allFavorite ? '取消收藏' : '收藏'}
+          </Button>
+
+          <TagPopover onSubmit={onAddTags} />
+
+          <Menu>
+            <MenuButton
+              as={Button}
+              size="sm"
+              variant="outline"
+              leftIcon={<RectangleStackIcon width={16} height={16} />}
+              rightIcon={<ChevronDownIcon width={14} height={14} />}
+            >
+              加入练习卡组
+            </MenuButton>
+            <MenuList maxH="300px" overflowY="auto">
+              {decks.length === 0 ? (
+                <MenuItem isDisabled>还没有卡组，请先在“我的卡组”中创建</MenuItem>
+              ) : (
+                decks.map(deck => (
+                  <MenuItem key={deck.id} onClick={() => onAddToDeck(deck.id)}>
+                    {deck.name}
+                  </MenuItem>
+                ))
+              )}
+            </MenuList>
+          </Menu>
+
+          <Button
+            size="sm"
+            variant="outline"
+            colorScheme="red"
+            leftIcon={<TrashIcon width={16} height={16} />}
+            onClick={onDelete}
+          >
+            删除
+          </Button>
+        </HStack>
+      )}
+    </Flex>
+  );
+};
+
+export default VocabularyBulkActions;
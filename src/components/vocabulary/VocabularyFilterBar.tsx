@@ -0,0 +1,260 @@
+/**
+ * 词汇筛选栏
+ * 吸顶显示关键词、分类、难度、标签筛选和排序方式
+ */
+
+import React from 'react';
+import {
+  Box,
+  Flex,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Select,
+  Button,
+  IconButton,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuOptionGroup,
+  MenuItemOption,
+  Tooltip,
+  Text,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import {
+  MagnifyingGlassIcon,
+  BarsArrowUpIcon,
+  BarsArrowDownIcon,
+  ChevronDownIcon,
+} from '@heroicons/react/24/outline';
+import {
+  VocabularyFilter,
+  VocabularySortBy,
+  SortDirection,
+  Web3Category,
+  DifficultyLevel,
+  BaseComponentProps,
+} from '@/types';
+
+/**
+ * 筛选栏Props
+ */
+interface VocabularyFilterBarProps extends BaseComponentProps {
+  /** 当前过滤条件 */
+  filter: VocabularyFilter;
+  /** 排序字段 */
+  sortBy: VocabularySortBy;
+  /** 排序方向 */
+  sortDirection: SortDirection;
+  /** 可选的标签 */
+  availableTags: string[];
+  /** 过滤条件变化回调 */
+  onFilterChange: (filter: VocabularyFilter) => void;
+  /** 排序变化回调 */
+  onSortChange: (sortBy: VocabularySortBy, direction: SortDirection) => void;
+}
+
+/**
+ * 分类选项
+ */
+const categoryOptions = [
+  { value: Web3Category.BLOCKCHAIN, label: '区块链基础' },
+  { value: Web3Category.DEFI, label: '去中心化金融' },
+  { value: Web3Category.NFT, label: '非同质化代币' },
+  { value: Web3Category.TRADING, label: '交易相关' },
+  { value: Web3Category.PROTOCOL, label: '协议技术' },
+  { value: Web3Category.CONSENSUS, label: '共识机制' },
+  { value: Web3Category.SECURITY, label: '安全相关' },
+  { value: Web3Category.GOVERNANCE, label: '治理机制' },
+];
+
+/**
+ * 难度选项
+ */
+const difficultyOptions = [
+  { value: DifficultyLevel.BEGINNER, label: '初级' },
+  { value: DifficultyLevel.INTERMEDIATE, label: '中级' },
+  { value: DifficultyLevel.ADVANCED, label: '高级' },
+];
+
+/**
+ * 排序选项，相关度只在有关键词时可选
+ */
+const sortOptions = [
+  { value: VocabularySortBy.CREATED_AT, label: '添加时间' },
+  { value: VocabularySortBy.WORD, label: '字母顺序' },
+  { value: VocabularySortBy.DIFFICULTY, label: '难度' },
+  { value: VocabularySortBy.ACCURACY, label: '正确率' },
+  { value: VocabularySortBy.STUDY_COUNT, label: '学习次数' },
+  { value: VocabularySortBy.RELEVANCE, label: '相关度' },
+];
+
+/**
+ * 词汇筛选栏组件
+ */
+export const VocabularyFilterBar: React.FC<VocabularyFilterBarProps> = ({
+  filter,
+  sortBy,
+  sortDirection,
+  availableTags,
+  onFilterChange,
+  onSortChange,
+  className,
+  style,
+  testId,
+}) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  const hasKeyword = !!filter.keyword?.trim();
+  const hasFilter =
+    hasKeyword ||
+    !!filter.categories?.length ||
+    !!filter.difficulties?.length ||
+    !!filter.tags?.length;
+  const isAscending = sortDirection === SortDirection.ASC;
+
+  return (
+    <Box
+      position="sticky"
+      top={0}
+      zIndex={2}
+      bg={bgColor}
+      p={3}
+      mb={3}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor={borderColor}
+      className={className}
+      style={style}
+      data-testid={testId}
+    >
+      <Flex gap={2} wrap="wrap" align="center">
+        <InputGroup size="sm" flex="1 1 180px">
+          <InputLeftElement pointerEvents="none" color="gray.400">
+            <MagnifyingGlassIcon width={16} height={16} />
+          </InputLeftElement>
+          <Input
+            value={filter.keyword ?? ''}
+            placeholder="搜索单词、释义或标签"
+            borderRadius="md"
+            onChange={event => onFilterChange({ ...filter, keyword: event.target.value })}
+          />
+        </InputGroup>
+
+        <Select
+          size="sm"
+          w="auto"
+          borderRadius="md"
+          aria-label="分类"
+          value={filter.categories?.[0] ?? ''}
+          onChange={event =>
+            onFilterChange({
+              ...filter,
+              categories: event.target.value ? [event.target.value as Web3Category] : undefined,
+            })
+          }
+        >
+          <option value="">全部分类</option>
+          {categoryOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </Select>
+
+        <Select
+          size="sm"
+          w="auto"
+          borderRadius="md"
+          aria-label="难度"
+          value={filter.difficulties?.[0] ?? ''}
+          onChange={event =>
+            onFilterChange({
+              ...filter,
+              difficulties: event.target.value ? [event.target.value as DifficultyLevel] : undefined,
+            })
+          }
+        >
+          <option value="">全部难度</option>
+          {difficultyOptions.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </Select>
+
+        <Menu closeOnSelect={false}>
+          <MenuButton
+            as={Button}
+            size="sm"
+            variant="outline"
+            rightIcon={<ChevronDownIcon width={14} height={14} />}
+            isDisabled={availableTags.length === 0}
+          >
+            标签{filter.tags?.length ? ` (${filter.tags.length})` : ''}
+          </MenuButton>
+          <MenuList maxH="300px" overflowY="auto">
+            <MenuOptionGroup
+              type="checkbox"
+              value={filter.tags ?? []}
+              onChange={value => {
+                const tags = Array.isArray(value) ? value : [value];
+                onFilterChange({ ...filter, tags: tags.length > 0 ? tags : undefined });
+              }}
+            >
+              {availableTags.map(tag => (
+                <MenuItemOption key={tag} value={tag}>
+                  {tag}
+                </MenuItemOption>
+              ))}
+            </MenuOptionGroup>
+          </MenuList>
+        </Menu>
+
+        <Flex align="center" gap={1}>
+          <Text fontSize="sm" color="gray.500" display={{ base: 'none', md: 'block' }}>
+            排序
+          </Text>
+          <Select
+            size="sm"
+            w="auto"
+            borderRadius="md"
+            aria-label="排序方式"
+            value={sortBy}
+            onChange={event => onSortChange(event.target.value as VocabularySortBy, sortDirection)}
+          >
+            {sortOptions
+              .filter(option => hasKeyword || option.value !== VocabularySortBy.RELEVANCE)
+              .map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+          </Select>
+          <Tooltip label={isAscending ? '升序' : '降序'}>
+            <IconButton
+              aria-label={isAscending ? '升序' : '降序'}
+              icon={
+                isAscending ? <BarsArrowUpIcon width={16} height={16} /> : <BarsArrowDownIcon width={16} height={16} />
+              }
+              size="sm"
+              variant="outline"
+              onClick={() => onSortChange(sortBy, isAscending ? SortDirection.DESC : SortDirection.ASC)}
+            />
+          </Tooltip>
+        </Flex>
+
+        {hasFilter && (
+          <Button size="sm" variant="ghost" onClick={() => onFilterChange({})}>
+            清除筛选
+          </Button>
+        )}
+      </Flex>
+    </Box>
+  );
+};
+
+export default VocabularyFilterBar;
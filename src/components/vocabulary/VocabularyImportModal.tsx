@@ -0,0 +1,407 @@
+/**
+ * 词汇 CSV 导入弹窗
+ * 选择文件后先确认列映射并查看预演报告，逐条决定重复词汇跳过、合并还是仍然导入，确认无误后才写入词汇
+ */
+
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Select,
+  Badge,
+  SimpleGrid,
+  FormControl,
+  FormLabel,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  useToast,
+} from '@chakra-ui/react';
+import { vocabularyService } from '@/services/vocabularyService';
+import {
+  CsvColumnMapping,
+  CsvImportReport,
+  CsvVocabularyField,
+  CSV_FIELD_LABELS,
+  REQUIRED_CSV_FIELDS,
+  VocabularyImportRowReport,
+} from '@/services/vocabularyCsv';
+import { DuplicateResolution, DuplicateMatchType } from '@/services/vocabularyDuplicates';
+import { VocabularyItem } from '@/types';
+
+/**
+ * 导入弹窗Props
+ */
+interface VocabularyImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** 导入完成回调，参数为导入的词汇数量 */
+  onImported?: (count: number) => void;
+}
+
+/** 报告中最多列出的问题行数 */
+const MAX_ISSUE_ROWS = 50;
+
+const MATCH_BADGES: Record<DuplicateMatchType, { label: string; colorScheme: string }> = {
+  exact: { label: '同名', colorScheme: 'orange' },
+  alias: { label: '缩写', colorScheme: 'purple' },
+  fuzzy: { label: '拼写相近', colorScheme: 'yellow' },
+};
+
+const ACTION_LABELS: Record<DuplicateResolution['action'], string> = {
+  skip: '跳过',
+  merge: '合并到已有词汇',
+  import: '作为新词汇导入',
+};
+
+/**
+ * 重复行可选的处理方式：同名词汇不能再导入，与文件中更早的行重复时不能合并
+ */
+const availableActions = (row: VocabularyImportRowReport): DuplicateResolution['action'][] => [
+  'skip',
+  ...(row.duplicateOf?.existingId ? ['merge' as const] : []),
+  ...(row.match?.type !== 'exact' ? ['import' as const] : []),
+];
+
+const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * 词汇 CSV 导入弹窗组件
+ */
+export const VocabularyImportModal: React.FC<VocabularyImportModalProps> = ({
+  isOpen,
+  onClose,
+  onImported,
+}) => {
+  const toast = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<CsvImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+  const [existing, setExisting] = useState<Map<string, VocabularyItem>>(new Map());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    vocabularyService.getAllVocabulary().then(items => {
+      setExisting(new Map(items.map(item => [item.id, item])));
+    });
+  }, [isOpen]);
+
+  const handleClose = useCallback(() => {
+    setCsvText(null);
+    setFileName('');
+    setReport(null);
+    setError(null);
+    setResolutions({});
+    onClose();
+  }, [onClose]);
+
+  /**
+   * 按列映射重新生成预演报告
+   */
+  const runPreview = useCallback(async (text: string, mapping?: CsvColumnMapping) => {
+    const result = await vocabularyService.previewCsvImport(text, { mapping });
+    setResolutions({});
+    if (result.success && result.data) {
+      setReport(result.data);
+      setError(null);
+    } else {
+      setReport(null);
+      setError(result.message || result.error || '解析CSV文件失败');
+    }
+  }, []);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await readFileText(file);
+      setCsvText(text);
+      setFileName(file.name);
+      await runPreview(text);
+    } catch (readError) {
+      console.error('Failed to read file:', readError);
+      setError('无法读取选择的文件，请重试');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  }, [runPreview]);
+
+  const handleMappingChange = useCallback((field: CsvVocabularyField, value: string) => {
+    if (!csvText || !report) return;
+
+    const mapping = { ...report.mapping };
+    if (value === '') {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    runPreview(csvText, mapping);
+  }, [csvText, report, runPreview]);
+
+  const handleResolutionChange = useCallback((line: number, resolution: DuplicateResolution) => {
+    setResolutions(prev => ({ ...prev, [line]: resolution }));
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!csvText || !report) return;
+
+    setIsImporting(true);
+    try {
+      const result = await vocabularyService.importVocabulary(csvText, 'csv', {
+        mapping: report.mapping,
+        delimiter: report.delimiter,
+        resolutions,
+      });
+      toast({
+        title: result.success ? '导入完成' : '导入失败',
+        description: result.message,
+        status: result.success ? 'success' : 'error',
+        duration: 4000,
+        isClosable: true,
+      });
+      if (result.success) {
+        onImported?.(result.data || 0);
+        handleClose();
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  }, [csvText, report, resolutions, toast, onImported, handleClose]);
+
+  const invalidRows = report ? report.rows.filter(row => row.status === 'invalid') : [];
+  const duplicateRows = report ? report.rows.filter(row => row.status === 'duplicate') : [];
+  const countAction = (action: DuplicateResolution['action']) =>
+    duplicateRows.filter(row => resolutions[row.line]?.action === action).length;
+  const importCount = (report?.summary.valid ?? 0) + countAction('import');
+  const mergeCount = countAction('merge');
+  const canImport = !!report && report.missingFields.length === 0 && importCount + mergeCount > 0;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} size="3xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>导入 CSV 词汇</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={5} align="stretch">
+            <HStack>
+              <Button size="sm" onClick={() => fileInputRef.current?.click()}>
+                选择文件
+              </Button>
+              <Text fontSize="sm" color="gray.600" noOfLines={1}>
+                {fileName || '支持逗号、分号或制表符分隔，第一行为表头'}
+              </Text>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv"
+                onChange={handleFileChange}
+                style={{ display: 'none' }}
+              />
+            </HStack>
+
+            {error && (
+              <Text color="red.500" fontSize="sm">
+                {error}
+              </Text>
+            )}
+
+            {report && (
+              <>
+                <Box>
+                  <Text fontWeight="semibold" mb={3}>
+                    列映射
+                  </Text>
+                  <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3}>
+                    {(Object.keys(CSV_FIELD_LABELS) as CsvVocabularyField[]).map(field => (
+                      <FormControl
+                        key={field}
+                        isRequired={REQUIRED_CSV_FIELDS.includes(field)}
+                        isInvalid={report.missingFields.includes(field)}
+                      >
+                        <FormLabel fontSize="sm" mb={1}>
+                          {CSV_FIELD_LABELS[field]}
+                        </FormLabel>
+                        <Select
+                          size="sm"
+                          value={report.mapping[field] ?? ''}
+                          onChange={e => handleMappingChange(field, e.target.value)}
+                        >
+                          <option value="">不导入</option>
+                          {report.headers.map((header, index) => (
+                            <option key={index} value={index}>
+                              {header || `第 ${index + 1} 列`}
+                            </option>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    ))}
+                  </SimpleGrid>
+                </Box>
+
+                <HStack spacing={3} flexWrap="wrap">
+                  <Badge colorScheme="green">可导入 {report.summary.valid}</Badge>
+                  <Badge colorScheme="red">无效 {report.summary.invalid}</Badge>
+                  <Badge colorScheme="orange">重复 {report.summary.duplicate}</Badge>
+                  <Text fontSize="sm" color="gray.500">
+                    共 {report.summary.total} 行，无效的行不会导入，合并时例句、标签和学习记录都会保留
+                  </Text>
+                </HStack>
+
+                {invalidRows.length > 0 && (
+                  <Box overflowX="auto">
+                    <Text fontWeight="semibold" mb={2}>
+                      无效的行
+                    </Text>
+                    <Table size="sm">
+                      <Thead>
+                        <Tr>
+                          <Th>行号</Th>
+                          <Th>单词</Th>
+                          <Th>原因</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {invalidRows.slice(0, MAX_ISSUE_ROWS).map(row => (
+                          <Tr key={row.line}>
+                            <Td>{row.line}</Td>
+                            <Td>{row.word || '-'}</Td>
+                            <Td whiteSpace="normal">{row.errors.join('；')}</Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                    {invalidRows.length > MAX_ISSUE_ROWS && (
+                      <Text fontSize="sm" color="gray.500" mt={2}>
+                        还有 {invalidRows.length - MAX_ISSUE_ROWS} 行问题未列出
+                      </Text>
+                    )}
+                  </Box>
+                )}
+
+                {duplicateRows.length > 0 && (
+                  <Box overflowX="auto">
+                    <Text fontWeight="semibold" mb={2}>
+                      重复的词汇
+                    </Text>
+                    <Table size="sm">
+                      <Thead>
+                        <Tr>
+                          <Th>行号</Th>
+                          <Th>导入的词汇</Th>
+                          <Th>已有词汇</Th>
+                          <Th>处理方式</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {duplicateRows.slice(0, MAX_ISSUE_ROWS).map(row => {
+                          const resolution = resolutions[row.line] ?? { action: 'skip' };
+                          const target = row.duplicateOf?.existingId ? existing.get(row.duplicateOf.existingId) : undefined;
+                          const badge = row.match ? MATCH_BADGES[row.match.type] : MATCH_BADGES.exact;
+                          return (
+                            <Tr key={row.line}>
+                              <Td>{row.line}</Td>
+                              <Td whiteSpace="normal">
+                                <Text fontWeight="medium">{row.word}</Text>
+                                <Text fontSize="xs" color="gray.500" noOfLines={2}>
+                                  {row.item?.definition}
+                                </Text>
+                              </Td>
+                              <Td whiteSpace="normal">
+                                <HStack spacing={2}>
+                                  <Text fontWeight="medium">{target?.word ?? row.errors.join('；')}</Text>
+                                  <Badge colorScheme={badge.colorScheme}>{badge.label}</Badge>
+                                </HStack>
+                                {target && (
+                                  <Text fontSize="xs" color="gray.500" noOfLines={2}>
+                                    {target.definition}
+                                  </Text>
+                                )}
+                              </Td>
+                              <Td>
+                                <VStack spacing={2} align="stretch" minW="160px">
+                                  <Select
+                                    size="sm"
+                                    value={resolution.action}
+                                    onChange={e => handleResolutionChange(row.line, {
+                                      ...resolution,
+                                      action: e.target.value as DuplicateResolution['action'],
+                                    })}
+                                  >
+                                    {availableActions(row).map(action => (
+                                      <option key={action} value={action}>
+                                        {ACTION_LABELS[action]}
+                                      </option>
+                                    ))}
+                                  </Select>
+                                  {resolution.action === 'merge' && (
+                                    <Select
+                                      size="sm"
+                                      value={resolution.definition ?? 'target'}
+                                      onChange={e => handleResolutionChange(row.line, {
+                                        ...resolution,
+                                        definition: e.target.value as DuplicateResolution['definition'],
+                                      })}
+                                    >
+                                      <option value="target">保留已有释义</option>
+                                      <option value="source">使用导入的释义</option>
+                                    </Select>
+                                  )}
+                                </VStack>
+                              </Td>
+                            </Tr>
+                          );
+                        })}
+                      </Tbody>
+                    </Table>
+                    {duplicateRows.length > MAX_ISSUE_ROWS && (
+                      <Text fontSize="sm" color="gray.500" mt={2}>
+                        还有 {duplicateRows.length - MAX_ISSUE_ROWS} 个重复词汇未列出，将被跳过
+                      </Text>
+                    )}
+                  </Box>
+                )}
+              </>
+            )}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button mr={3} onClick={handleClose}>
+            取消
+          </Button>
+          <Button colorScheme="primary" onClick={handleImport} isDisabled={!canImport} isLoading={isImporting}>
+            导入 {importCount} 个词汇{mergeCount > 0 ? `，合并 ${mergeCount} 个` : ''}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default VocabularyImportModal;
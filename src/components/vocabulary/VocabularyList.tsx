@@ -0,0 +1,191 @@
+/**
+ * 词汇列表
+ * 虚拟滚动显示词汇，只渲染可见的行，支持多选、收藏和点击查看详情
+ */
+
+import React, { useCallback } from 'react';
+import {
+  Box,
+  HStack,
+  Text,
+  Badge,
+  Checkbox,
+  IconButton,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { HeartIcon } from '@heroicons/react/24/outline';
+import { HeartIcon as HeartIconSolid } from '@heroicons/react/24/solid';
+import VirtualScrollList from '@/components/common/VirtualScrollList';
+import { VocabularyItem, BaseComponentProps } from '@/types';
+import { getMasteryLevel, getMasteryStatus } from '@/services/vocabularyMastery';
+import { WordStatusIndicator } from './WordActions';
+
+/**
+ * 每行的固定高度，虚拟滚动按这个高度计算可见范围
+ */
+export const VOCABULARY_ROW_HEIGHT = 72;
+
+/**
+ * 词汇列表Props
+ */
+interface VocabularyListProps extends BaseComponentProps {
+  /** 要显示的词汇 */
+  items: VocabularyItem[];
+  /** 没有词汇时显示的文本 */
+  emptyText: string;
+  /** 列表高度（像素） */
+  height: number;
+  /** 收藏的词汇ID */
+  favorites?: Set<string>;
+  /** 选中的词汇ID，不传时不显示多选框 */
+  selectedIds?: Set<string>;
+  /** 切换选中回调 */
+  onToggleSelect?: (id: string) => void;
+  /** 切换收藏回调 */
+  onToggleFavorite?: (item: VocabularyItem) => void;
+  /** 点击词汇回调 */
+  onSelect?: (item: VocabularyItem) => void;
+}
+
+interface VocabularyRowProps {
+  item: VocabularyItem;
+  isFavorite: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  onToggleFavorite?: (item: VocabularyItem) => void;
+  onSelect?: (item: VocabularyItem) => void;
+}
+
+/**
+ * 词汇行，只在自身数据或状态变化时重新渲染
+ */
+const VocabularyRow = React.memo<VocabularyRowProps>(({
+  item,
+  isFavorite,
+  isSelected,
+  onToggleSelect,
+  onToggleFavorite,
+  onSelect,
+}) => {
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+  const hoverColor = useColorModeValue('gray.50', 'gray.700');
+  const selectedColor = useColorModeValue('primary.50', 'gray.700');
+
+  return (
+    <HStack
+      w="100%"
+      h="100%"
+      px={4}
+      spacing={3}
+      borderBottom="1px solid"
+      borderColor={borderColor}
+      bg={isSelected ? selectedColor : undefined}
+      cursor={onSelect ? 'pointer' : undefined}
+      _hover={onSelect ? { bg: hoverColor } : undefined}
+      onClick={() => onSelect?.(item)}
+    >
+      {isSelected !== undefined && (
+        <Checkbox
+          isChecked={isSelected}
+          aria-label={`选择 ${item.word}`}
+          onChange={() => onToggleSelect?.(item.id)}
+          onClick={event => event.stopPropagation()}
+        />
+      )}
+      <Box flex={1} minW={0}>
+        <HStack spacing={2}>
+          <Text fontWeight="semibold" noOfLines={1}>
+            {item.word}
+          </Text>
+          <Badge colorScheme="primary" variant="subtle" flexShrink={0}>
+            Lv.{getMasteryLevel(item)}
+          </Badge>
+        </HStack>
+        <Text fontSize="sm" color="gray.600" noOfLines={1}>
+          {item.definition}
+        </Text>
+      </Box>
+      <Box display={{ base: 'none', md: 'block' }}>
+        <WordStatusIndicator word={item} isMastered={getMasteryStatus(item) === 'mastered'} />
+      </Box>
+      {onToggleFavorite && (
+        <IconButton
+          aria-label={isFavorite ? '取消收藏' : '添加收藏'}
+          icon={isFavorite ? <HeartIconSolid width={18} height={18} /> : <HeartIcon width={18} height={18} />}
+          size="sm"
+          variant="ghost"
+          color={isFavorite ? 'red.500' : 'gray.400'}
+          onClick={event => {
+            event.stopPropagation();
+            onToggleFavorite(item);
+          }}
+        />
+      )}
+    </HStack>
+  );
+});
+
+VocabularyRow.displayName = 'VocabularyRow';
+
+/**
+ * 词汇列表组件
+ */
+export const VocabularyList: React.FC<VocabularyListProps> = ({
+  items,
+  emptyText,
+  height,
+  favorites,
+  selectedIds,
+  onToggleSelect,
+  onToggleFavorite,
+  onSelect,
+  className,
+  style,
+  testId,
+}) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  const renderItem = useCallback(
+    (item: VocabularyItem) => (
+      <VocabularyRow
+        item={item}
+        isFavorite={favorites?.has(item.id) ?? false}
+        isSelected={selectedIds ? selectedIds.has(item.id) : undefined}
+        onToggleSelect={onToggleSelect}
+        onToggleFavorite={onToggleFavorite}
+        onSelect={onSelect}
+      />
+    ),
+    [favorites, selectedIds, onToggleSelect, onToggleFavorite, onSelect]
+  );
+
+  return (
+    <Box
+      bg={bgColor}
+      borderRadius="xl"
+      boxShadow="sm"
+      border="1px solid"
+      borderColor={borderColor}
+      overflow="hidden"
+      className={className}
+      style={style}
+      data-testid={testId}
+    >
+      {items.length === 0 ? (
+        <Text color="gray.500" textAlign="center" p={6}>
+          {emptyText}
+        </Text>
+      ) : (
+        <VirtualScrollList
+          items={items}
+          itemHeight={VOCABULARY_ROW_HEIGHT}
+          height={Math.min(height, items.length * VOCABULARY_ROW_HEIGHT)}
+          renderItem={renderItem}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default VocabularyList;
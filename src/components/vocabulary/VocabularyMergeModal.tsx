@@ -0,0 +1,199 @@
+/**
+ * 重复词汇合并弹窗
+ * 列出词汇库中同名、互为缩写或拼写相近的词汇，选择保留的释义后合并，两边的学习记录都会保留
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Text,
+  Button,
+  Badge,
+  Radio,
+  RadioGroup,
+  Spinner,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  useToast,
+} from '@chakra-ui/react';
+import { VocabularyItem } from '@/types';
+import { vocabularyService } from '@/services/vocabularyService';
+import { DefinitionChoice, DuplicatePair, DuplicateMatchType } from '@/services/vocabularyDuplicates';
+
+/**
+ * 合并弹窗Props
+ */
+interface VocabularyMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** 合并完成回调，参数为合并后的词汇 */
+  onMerged?: (vocabulary: VocabularyItem) => void;
+}
+
+const MATCH_LABELS: Record<DuplicateMatchType, { label: string; colorScheme: string }> = {
+  exact: { label: '同名', colorScheme: 'orange' },
+  alias: { label: '缩写', colorScheme: 'purple' },
+  fuzzy: { label: '拼写相近', colorScheme: 'yellow' },
+};
+
+const pairKey = (pair: DuplicatePair): string => `${pair.target.id}:${pair.source.id}`;
+
+/**
+ * 单个词汇的摘要
+ */
+const VocabularySummary: React.FC<{ item: VocabularyItem; label: string }> = ({ item, label }) => (
+  <Box borderWidth="1px" borderRadius="md" p={3}>
+    <Text fontSize="xs" color="gray.500">
+      {label}
+    </Text>
+    <Text fontWeight="semibold">{item.word}</Text>
+    <Text fontSize="sm" noOfLines={3}>
+      {item.definition}
+    </Text>
+    <Text fontSize="xs" color="gray.500" mt={1}>
+      {item.examples.length} 个例句 · {item.tags.length} 个标签 · 学习 {item.studyCount} 次
+    </Text>
+  </Box>
+);
+
+/**
+ * 重复词汇合并弹窗组件
+ */
+export const VocabularyMergeModal: React.FC<VocabularyMergeModalProps> = ({
+  isOpen,
+  onClose,
+  onMerged,
+}) => {
+  const toast = useToast();
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null);
+  const [choices, setChoices] = useState<Record<string, DefinitionChoice>>({});
+  const [ignored, setIgnored] = useState<Set<string>>(new Set());
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const loadPairs = useCallback(async () => {
+    setPairs(await vocabularyService.findDuplicateVocabulary());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPairs(null);
+      setChoices({});
+      setIgnored(new Set());
+      loadPairs();
+    }
+  }, [isOpen, loadPairs]);
+
+  const handleMerge = useCallback(async (pair: DuplicatePair) => {
+    const key = pairKey(pair);
+    setMergingKey(key);
+    try {
+      const result = await vocabularyService.mergeVocabulary(pair.target.id, pair.source.id, {
+        definition: choices[key] ?? 'target',
+      });
+      toast({
+        title: result.success ? '合并完成' : '合并失败',
+        description: result.message || result.error,
+        status: result.success ? 'success' : 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+      if (result.success && result.data) {
+        onMerged?.(result.data);
+        await loadPairs();
+      }
+    } finally {
+      setMergingKey(null);
+    }
+  }, [choices, toast, onMerged, loadPairs]);
+
+  const visiblePairs = pairs?.filter(pair => !ignored.has(pairKey(pair))) ?? [];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>合并重复词汇</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          {pairs === null ? (
+            <HStack justify="center" py={8}>
+              <Spinner />
+            </HStack>
+          ) : visiblePairs.length === 0 ? (
+            <Text color="gray.500" textAlign="center" py={8}>
+              没有发现重复的词汇
+            </Text>
+          ) : (
+            <VStack spacing={4} align="stretch">
+              <Text fontSize="sm" color="gray.600">
+                合并后保留先添加的词汇，例句和标签取并集，两边的学习记录都会保留
+              </Text>
+              {visiblePairs.map(pair => {
+                const key = pairKey(pair);
+                const badge = MATCH_LABELS[pair.match.type];
+                return (
+                  <Box key={key} borderWidth="1px" borderRadius="lg" p={4}>
+                    <HStack justify="space-between" mb={3}>
+                      <HStack>
+                        <Badge colorScheme={badge.colorScheme}>{badge.label}</Badge>
+                        <Text fontSize="sm" color="gray.500">
+                          相似度 {Math.round(pair.match.similarity * 100)}%
+                        </Text>
+                      </HStack>
+                      <HStack>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setIgnored(prev => new Set(prev).add(key))}
+                        >
+                          不是重复
+                        </Button>
+                        <Button
+                          size="sm"
+                          colorScheme="primary"
+                          onClick={() => handleMerge(pair)}
+                          isLoading={mergingKey === key}
+                          isDisabled={mergingKey !== null && mergingKey !== key}
+                        >
+                          合并
+                        </Button>
+                      </HStack>
+                    </HStack>
+                    <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3}>
+                      <VocabularySummary item={pair.target} label="保留" />
+                      <VocabularySummary item={pair.source} label="合并后删除" />
+                    </SimpleGrid>
+                    <RadioGroup
+                      mt={3}
+                      value={choices[key] ?? 'target'}
+                      onChange={value => setChoices(prev => ({ ...prev, [key]: value as DefinitionChoice }))}
+                    >
+                      <HStack spacing={6}>
+                        <Text fontSize="sm">释义使用：</Text>
+                        <Radio value="target">{pair.target.word}</Radio>
+                        <Radio value="source">{pair.source.word}</Radio>
+                      </HStack>
+                    </RadioGroup>
+                  </Box>
+                );
+              })}
+            </VStack>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button onClick={onClose}>完成</Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default VocabularyMergeModal;
@@ -1,14 +1,91 @@
-import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-import { Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalCloseButton, VStack, HStack, Text, Badge, Divider, Box, Progress, Flex, Tag, TagLabel, IconButton, Tooltip, useColorModeValue, } from '@chakra-ui/react';
-import { CalendarIcon, ClockIcon, ChartBarIcon, TagIcon, SpeakerWaveIcon, } from '@heroicons/react/24/outline';
+import { jsx as _jsx, jsxs as _jsxs, Fragment as _Fragment } from "react/jsx-runtime";
+import { useState, useEffect, useMemo } from 'react';
+import { Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalCloseButton, VStack, HStack, Text, Badge, Divider, Box, Progress, Flex, Tag, TagLabel, TagCloseButton, IconButton, Tooltip, Button, Select, useColorModeValue, } from '@chakra-ui/react';
+import { CalendarIcon, ClockIcon, ChartBarIcon, TagIcon, SpeakerWaveIcon, LinkIcon, ArrowLeftIcon, QueueListIcon, } from '@heroicons/react/24/outline';
+import { VocabularyRelationType, QUESTION_TYPE_LABELS } from '@/types';
+import { getLinkedTerms, RELATION_LABELS } from '@/services/vocabularyRelations';
+import { wordHistoryService, getConfusions, WORD_EVENT_LABELS } from '@/services/wordHistory';
 import { WordActions, WordStatusIndicator } from './WordActions';
-export const WordDetailsModal = ({ isOpen, word, isFavorite = false, isMastered = false, onClose, onToggleFavorite, onToggleMastered, onPlayAudio, onMarkDifficult, onMarkEasy, className, style, testId, }) => {
+const RelatedTerms = ({ word, vocabulary, textColor, onSelect, onAddRelation, onRemoveRelation }) => {
+    const [relationType, setRelationType] = useState(VocabularyRelationType.RELATED);
+    const [targetId, setTargetId] = useState('');
+    const groups = useMemo(() => {
+        const result = new Map();
+        getLinkedTerms(word, vocabulary).forEach(link => {
+            result.set(link.label, [...(result.get(link.label) ?? []), link]);
+        });
+        return Array.from(result.entries());
+    }, [word, vocabulary]);
+    const candidates = useMemo(() => vocabulary.filter(item => item.id !== word.id).sort((a, b) => a.word.localeCompare(b.word)), [word.id, vocabulary]);
+    if (groups.length === 0 && !onAddRelation)
+        return null;
+    const handleRemove = (link) => {
+        if (link.direction === 'outgoing') {
+            onRemoveRelation?.(word.id, link.item.id, link.type);
+        }
+        else {
+            onRemoveRelation?.(link.item.id, word.id, link.type);
+        }
+    };
+    return (_jsxs(_Fragment, { children: [_jsx(Divider, {}), _jsxs(Box, { children: [_jsxs(HStack, { mb: 3, align: "center", children: [_jsx(LinkIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "lg", fontWeight: "semibold", color: textColor, children: "\u5173\u8054\u8BCD\u6C47" })] }), _jsxs(VStack, { spacing: 2, align: "stretch", children: [groups.map(([label, links]) => (_jsxs(HStack, { align: "start", spacing: 3, children: [_jsx(Text, { fontSize: "sm", color: "gray.500", minW: "64px", children: label }), _jsx(Flex, { wrap: "wrap", gap: 2, children: links.map(link => (_jsxs(Tag, { size: "md", variant: "subtle", colorScheme: "primary", borderRadius: "full", cursor: "pointer", onClick: () => onSelect(link.item), children: [_jsx(TagLabel, { children: link.item.word }), onRemoveRelation && (_jsx(TagCloseButton, { "aria-label": `取消关联 ${link.item.word}`, onClick: event => {
+                                                        event.stopPropagation();
+                                                        handleRemove(link);
+                                                    } }))] }, `${link.direction}_${link.type}_${link.item.id}`))) })] }, label))), onAddRelation && candidates.length > 0 && (_jsxs(HStack, { spacing: 2, children: [_jsx(Select, { size: "sm", maxW: "120px", value: relationType, onChange: event => setRelationType(event.target.value), children: Object.values(VocabularyRelationType).map(type => (_jsx("option", { value: type, children: RELATION_LABELS[type].label }, type))) }), _jsx(Select, { size: "sm", placeholder: "\u9009\u62E9\u8BCD\u6C47", value: targetId, onChange: event => setTargetId(event.target.value), children: candidates.map(item => (_jsx("option", { value: item.id, children: item.word }, item.id))) }), _jsx(Button, { size: "sm", isDisabled: !targetId, onClick: () => {
+                                            onAddRelation(word.id, targetId, relationType);
+                                            setTargetId('');
+                                        }, children: "\u6DFB\u52A0" })] }))] })] })] }));
+};
+const TIMELINE_PREVIEW_COUNT = 10;
+const EVENT_COLORS = {
+    seen: 'gray',
+    answered: 'blue',
+    mastered: 'green',
+    demoted: 'red',
+    reset: 'orange',
+};
+const StudyTimeline = ({ wordId, textColor, mutedColor, formatDate }) => {
+    const [events, setEvents] = useState([]);
+    const [showAll, setShowAll] = useState(false);
+    useEffect(() => {
+        let cancelled = false;
+        wordHistoryService.getHistory(wordId).then(history => {
+            if (!cancelled)
+                setEvents(history);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [wordId]);
+    const confusions = useMemo(() => getConfusions(events), [events]);
+    const recent = useMemo(() => [...events].reverse(), [events]);
+    if (events.length === 0)
+        return null;
+    const visible = showAll ? recent : recent.slice(0, TIMELINE_PREVIEW_COUNT);
+    return (_jsxs(_Fragment, { children: [_jsx(Divider, {}), _jsxs(Box, { children: [_jsxs(HStack, { mb: 3, align: "center", children: [_jsx(QueueListIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "lg", fontWeight: "semibold", color: textColor, children: "\u5B66\u4E60\u8BB0\u5F55" })] }), confusions.length > 0 && (_jsxs(Box, { mb: 4, children: [_jsx(Text, { fontSize: "sm", color: mutedColor, mb: 2, children: "\u5E38\u89C1\u9519\u8BEF\u7B54\u6848" }), _jsx(Flex, { wrap: "wrap", gap: 2, children: confusions.map(confusion => (_jsx(Tag, { size: "md", variant: "subtle", colorScheme: "red", borderRadius: "full", children: _jsxs(TagLabel, { children: [confusion.answer, " \u00D7 ", confusion.count] }) }, confusion.answer))) })] })), _jsx(VStack, { spacing: 0, align: "stretch", borderLeft: "2px solid", borderColor: "gray.200", ml: 1, children: visible.map((event, index) => (_jsxs(Box, { pl: 4, py: 2, position: "relative", children: [_jsx(Box, { position: "absolute", left: "-5px", top: "14px", w: "8px", h: "8px", borderRadius: "full", bg: `${EVENT_COLORS[event.type]}.400` }), _jsxs(HStack, { spacing: 2, flexWrap: "wrap", children: [_jsx(Text, { fontSize: "xs", color: mutedColor, children: formatDate(new Date(event.timestamp)) }), _jsx(Badge, { colorScheme: EVENT_COLORS[event.type], variant: "subtle", children: WORD_EVENT_LABELS[event.type] }), event.questionType && (_jsx(Text, { fontSize: "xs", color: mutedColor, children: QUESTION_TYPE_LABELS[event.questionType] })), event.type === 'answered' && (_jsx(Badge, { colorScheme: event.isCorrect ? 'green' : 'red', children: event.isCorrect ? '正确' : '错误' })), event.timeSpent !== undefined && (_jsxs(Text, { fontSize: "xs", color: mutedColor, children: [event.timeSpent, " \u79D2"] }))] }), event.type === 'answered' && !event.isCorrect && event.answer && (_jsxs(Text, { fontSize: "sm", color: textColor, mt: 1, children: ["\u7B54\u6848\uFF1A", event.answer, event.correctAnswer && (_jsxs(Text, { as: "span", color: mutedColor, children: [' ', "\uFF08\u6B63\u786E\u7B54\u6848\uFF1A", event.correctAnswer, "\uFF09"] }))] }))] }, `${event.timestamp}_${index}`))) }), recent.length > TIMELINE_PREVIEW_COUNT && (_jsx(Button, { size: "xs", variant: "link", mt: 2, onClick: () => setShowAll(prev => !prev), children: showAll ? '收起' : `显示全部 ${recent.length} 条` }))] })] }));
+};
+export const WordDetailsModal = ({ isOpen, word, isFavorite = false, isMastered = false, onClose, onToggleFavorite, onToggleMastered, onPlayAudio, onMarkDifficult, onMarkEasy, vocabulary, onNavigate, onAddRelation, onRemoveRelation, className, style, testId, }) => {
+    const [history, setHistory] = useState([]);
+    const initialWordId = word?.id;
+    useEffect(() => {
+        setHistory([]);
+    }, [initialWordId, isOpen]);
     const bgColor = useColorModeValue('white', 'gray.800');
     const borderColor = useColorModeValue('gray.200', 'gray.600');
     const textColor = useColorModeValue('gray.800', 'white');
     const mutedColor = useColorModeValue('gray.600', 'gray.400');
     if (!word)
         return null;
+    const latest = history.length > 0 ? history[history.length - 1] : null;
+    const current = (latest && vocabulary?.find(item => item.id === latest.id)) ?? latest ?? word;
+    const isLinkedView = current.id !== word.id;
+    const handleSelectLinked = (linked) => {
+        if (onNavigate) {
+            onNavigate(linked);
+        }
+        else {
+            setHistory(prev => [...prev, linked]);
+        }
+    };
     const difficultyColors = {
         beginner: 'green',
         intermediate: 'orange',
@@ -40,7 +117,7 @@ export const WordDetailsModal = ({ isOpen, word, isFavorite = false, isMastered
             minute: '2-digit',
         }).format(date);
     };
-    return (_jsxs(Modal, { isOpen: isOpen, onClose: onClose, size: "lg", scrollBehavior: "inside", isCentered: true, children: [_jsx(ModalOverlay, { bg: "blackAlpha.600", backdropFilter: "blur(4px)" }), _jsxs(ModalContent, { className: className, style: style, "data-testid": testId, bg: bgColor, borderRadius: "2xl", border: "1px solid", borderColor: borderColor, maxH: "90vh", children: [_jsx(ModalHeader, { pb: 2, children: _jsxs(HStack, { justify: "space-between", align: "start", children: [_jsxs(VStack, { align: "start", spacing: 1, children: [_jsxs(HStack, { spacing: 3, align: "center", children: [_jsx(Text, { fontSize: "2xl", fontWeight: "bold", color: textColor, children: word.word }), _jsx(Tooltip, { label: "\u64AD\u653E\u53D1\u97F3", children: _jsx(IconButton, { "aria-label": "\u64AD\u653E\u53D1\u97F3", icon: _jsx(SpeakerWaveIcon, { width: 20, height: 20 }), size: "sm", variant: "ghost", colorScheme: "primary", onClick: onPlayAudio, _hover: { transform: 'scale(1.1)' } }) })] }), _jsxs(Text, { fontSize: "md", color: mutedColor, fontFamily: "mono", children: ["/", word.pronunciation, "/"] }), _jsxs(HStack, { spacing: 2, children: [_jsx(Badge, { colorScheme: difficultyColors[word.difficulty], variant: "solid", borderRadius: "full", children: word.difficulty }), _jsx(Badge, { colorScheme: categoryColors[word.category], variant: "outline", borderRadius: "full", children: word.category })] })] }), _jsx(WordStatusIndicator, { word: word, isFavorite: isFavorite, isMastered: isMastered, mode: "icons" })] }) }), _jsx(ModalCloseButton, {}), _jsx(ModalBody, { pb: 6, children: _jsxs(VStack, { spacing: 6, align: "stretch", children: [_jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 3, color: textColor, children: "\u91CA\u4E49" }), _jsxs(Box, { bg: "gray.50", borderRadius: "lg", p: 4, border: "1px solid", borderColor: borderColor, children: [_jsx(Text, { fontSize: "md", lineHeight: "1.6", color: textColor, children: word.definition }), word.englishDefinition && (_jsx(Text, { fontSize: "sm", color: mutedColor, fontStyle: "italic", mt: 2, lineHeight: "1.5", children: word.englishDefinition }))] })] }), word.examples.length > 0 && (_jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 3, color: textColor, children: "\u4F8B\u53E5" }), _jsx(VStack, { spacing: 3, align: "stretch", children: word.examples.map((example, index) => (_jsx(Box, { bg: "blue.50", borderRadius: "lg", p: 3, border: "1px solid", borderColor: "blue.200", children: _jsx(Text, { fontSize: "sm", lineHeight: "1.5", color: textColor, children: example }) }, index))) })] })), word.tags.length > 0 && (_jsxs(Box, { children: [_jsxs(HStack, { mb: 3, align: "center", children: [_jsx(TagIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "lg", fontWeight: "semibold", color: textColor, children: "\u6807\u7B7E" })] }), _jsx(Flex, { wrap: "wrap", gap: 2, children: word.tags.map((tag, index) => (_jsx(Tag, { size: "sm", variant: "subtle", colorScheme: "gray", borderRadius: "full", children: _jsx(TagLabel, { children: tag }) }, index))) })] })), _jsx(Divider, {}), _jsxs(Box, { children: [_jsxs(HStack, { mb: 4, align: "center", children: [_jsx(ChartBarIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "lg", fontWeight: "semibold", color: textColor, children: "\u5B66\u4E60\u7EDF\u8BA1" })] }), _jsxs(VStack, { spacing: 4, align: "stretch", children: [_jsxs(Box, { children: [_jsxs(HStack, { justify: "space-between", mb: 2, children: [_jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u638C\u63E1\u7A0B\u5EA6" }), _jsxs(Text, { fontSize: "sm", fontWeight: "semibold", color: getAccuracyColor(word.accuracy), children: [Math.round(word.accuracy * 100), "%"] })] }), _jsx(Progress, { value: word.accuracy * 100, colorScheme: word.accuracy >= 0.8 ? 'green' :
-                                                                word.accuracy >= 0.6 ? 'orange' : 'red', size: "sm", borderRadius: "full" })] }), _jsxs(HStack, { justify: "space-between", children: [_jsxs(HStack, { spacing: 2, children: [_jsx(ClockIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u5B66\u4E60\u6B21\u6570" })] }), _jsxs(Text, { fontSize: "sm", fontWeight: "semibold", color: textColor, children: [word.studyCount, " \u6B21"] })] }), _jsxs(VStack, { spacing: 2, align: "stretch", children: [_jsxs(HStack, { justify: "space-between", children: [_jsxs(HStack, { spacing: 2, children: [_jsx(CalendarIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u6DFB\u52A0\u65F6\u95F4" })] }), _jsx(Text, { fontSize: "sm", color: textColor, children: formatDate(word.createdAt) })] }), _jsxs(HStack, { justify: "space-between", children: [_jsxs(HStack, { spacing: 2, children: [_jsx(CalendarIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u66F4\u65B0\u65F6\u95F4" })] }), _jsx(Text, { fontSize: "sm", color: textColor, children: formatDate(word.updatedAt) })] })] }), word.isCustom && (_jsx(Box, { bg: "purple.50", borderRadius: "lg", p: 3, border: "1px solid", borderColor: "purple.200", children: _jsx(Text, { fontSize: "sm", color: "purple.700", textAlign: "center", children: "\uD83C\uDFAF \u8FD9\u662F\u60A8\u81EA\u5B9A\u4E49\u6DFB\u52A0\u7684\u8BCD\u6C47" }) }))] })] }), _jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, color: textColor, children: "\u64CD\u4F5C" }), _jsx(WordActions, { word: word, isFavorite: isFavorite, isMastered: isMastered, showDetailedActions: true, size: "md", direction: "row", onToggleFavorite: onToggleFavorite, onToggleMastered: onToggleMastered, onPlayAudio: onPlayAudio, onMarkDifficult: onMarkDifficult, onMarkEasy: onMarkEasy })] })] }) })] })] }));
+    return (_jsxs(Modal, { isOpen: isOpen, onClose: onClose, size: "lg", scrollBehavior: "inside", isCentered: true, children: [_jsx(ModalOverlay, { bg: "blackAlpha.600", backdropFilter: "blur(4px)" }), _jsxs(ModalContent, { className: className, style: style, "data-testid": testId, bg: bgColor, borderRadius: "2xl", border: "1px solid", borderColor: borderColor, maxH: "90vh", children: [_jsx(ModalHeader, { pb: 2, children: _jsxs(HStack, { justify: "space-between", align: "start", children: [_jsxs(VStack, { align: "start", spacing: 1, children: [_jsxs(HStack, { spacing: 3, align: "center", children: [history.length > 0 && (_jsx(Tooltip, { label: "\u8FD4\u56DE", children: _jsx(IconButton, { "aria-label": "\u8FD4\u56DE", icon: _jsx(ArrowLeftIcon, { width: 18, height: 18 }), size: "sm", variant: "ghost", onClick: () => setHistory(prev => prev.slice(0, -1)) }) })), _jsx(Text, { fontSize: "2xl", fontWeight: "bold", color: textColor, children: current.word }), !isLinkedView && (_jsx(Tooltip, { label: "\u64AD\u653E\u53D1\u97F3", children: _jsx(IconButton, { "aria-label": "\u64AD\u653E\u53D1\u97F3", icon: _jsx(SpeakerWaveIcon, { width: 20, height: 20 }), size: "sm", variant: "ghost", colorScheme: "primary", onClick: onPlayAudio, _hover: { transform: 'scale(1.1)' } }) }))] }), _jsxs(Text, { fontSize: "md", color: mutedColor, fontFamily: "mono", children: ["/", current.pronunciation, "/"] }), _jsxs(HStack, { spacing: 2, children: [_jsx(Badge, { colorScheme: difficultyColors[current.difficulty], variant: "solid", borderRadius: "full", children: current.difficulty }), _jsx(Badge, { colorScheme: categoryColors[current.category], variant: "outline", borderRadius: "full", children: current.category })] })] }), !isLinkedView && (_jsx(WordStatusIndicator, { word: word, isFavorite: isFavorite, isMastered: isMastered, mode: "icons" }))] }) }), _jsx(ModalCloseButton, {}), _jsx(ModalBody, { pb: 6, children: _jsxs(VStack, { spacing: 6, align: "stretch", children: [_jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 3, color: textColor, children: "\u91CA\u4E49" }), _jsxs(Box, { bg: "gray.50", borderRadius: "lg", p: 4, border: "1px solid", borderColor: borderColor, children: [_jsx(Text, { fontSize: "md", lineHeight: "1.6", color: textColor, children: current.definition }), current.englishDefinition && (_jsx(Text, { fontSize: "sm", color: mutedColor, fontStyle: "italic", mt: 2, lineHeight: "1.5", children: current.englishDefinition }))] })] }), current.examples.length > 0 && (_jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 3, color: textColor, children: "\u4F8B\u53E5" }), _jsx(VStack, { spacing: 3, align: "stretch", children: current.examples.map((example, index) => (_jsx(Box, { bg: "blue.50", borderRadius: "lg", p: 3, border: "1px solid", borderColor: "blue.200", children: _jsx(Text, { fontSize: "sm", lineHeight: "1.5", color: textColor, children: example }) }, index))) })] })), current.tags.length > 0 && (_jsxs(Box, { children: [_jsxs(HStack, { mb: 3, align: "center", children: [_jsx(TagIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "lg", fontWeight: "semibold", color: textColor, children: "\u6807\u7B7E" })] }), _jsx(Flex, { wrap: "wrap", gap: 2, children: current.tags.map((tag, index) => (_jsx(Tag, { size: "sm", variant: "subtle", colorScheme: "gray", borderRadius: "full", children: _jsx(TagLabel, { children: tag }) }, index))) })] })), _jsx(Divider, {}), _jsxs(Box, { children: [_jsxs(HStack, { mb: 4, align: "center", children: [_jsx(ChartBarIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "lg", fontWeight: "semibold", color: textColor, children: "\u5B66\u4E60\u7EDF\u8BA1" })] }), _jsxs(VStack, { spacing: 4, align: "stretch", children: [_jsxs(Box, { children: [_jsxs(HStack, { justify: "space-between", mb: 2, children: [_jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u638C\u63E1\u7A0B\u5EA6" }), _jsxs(Text, { fontSize: "sm", fontWeight: "semibold", color: getAccuracyColor(current.accuracy), children: [Math.round(current.accuracy * 100), "%"] })] }), _jsx(Progress, { value: current.accuracy * 100, colorScheme: current.accuracy >= 0.8 ? 'green' :
+                                                                current.accuracy >= 0.6 ? 'orange' : 'red', size: "sm", borderRadius: "full" })] }), _jsxs(HStack, { justify: "space-between", children: [_jsxs(HStack, { spacing: 2, children: [_jsx(ClockIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u5B66\u4E60\u6B21\u6570" })] }), _jsxs(Text, { fontSize: "sm", fontWeight: "semibold", color: textColor, children: [current.studyCount, " \u6B21"] })] }), _jsxs(VStack, { spacing: 2, align: "stretch", children: [_jsxs(HStack, { justify: "space-between", children: [_jsxs(HStack, { spacing: 2, children: [_jsx(CalendarIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u6DFB\u52A0\u65F6\u95F4" })] }), _jsx(Text, { fontSize: "sm", color: textColor, children: formatDate(current.createdAt) })] }), _jsxs(HStack, { justify: "space-between", children: [_jsxs(HStack, { spacing: 2, children: [_jsx(CalendarIcon, { width: 16, height: 16 }), _jsx(Text, { fontSize: "sm", color: mutedColor, children: "\u66F4\u65B0\u65F6\u95F4" })] }), _jsx(Text, { fontSize: "sm", color: textColor, children: formatDate(current.updatedAt) })] })] }), current.isCustom && (_jsx(Box, { bg: "purple.50", borderRadius: "lg", p: 3, border: "1px solid", borderColor: "purple.200", children: _jsx(Text, { fontSize: "sm", color: "purple.700", textAlign: "center", children: "\uD83C\uDFAF \u8FD9\u662F\u60A8\u81EA\u5B9A\u4E49\u6DFB\u52A0\u7684\u8BCD\u6C47" }) }))] })] }), _jsx(StudyTimeline, { wordId: current.id, textColor: textColor, mutedColor: mutedColor, formatDate: formatDate }, current.id), vocabulary && (_jsx(RelatedTerms, { word: current, vocabulary: vocabulary, textColor: textColor, onSelect: handleSelectLinked, onAddRelation: onAddRelation, onRemoveRelation: onRemoveRelation }, current.id)), !isLinkedView && (_jsxs(_Fragment, { children: [_jsx(Divider, {}), _jsxs(Box, { children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", mb: 4, color: textColor, children: "\u64CD\u4F5C" }), _jsx(WordActions, { word: word, isFavorite: isFavorite, isMastered: isMastered, showDetailedActions: true, size: "md", direction: "row", onToggleFavorite: onToggleFavorite, onToggleMastered: onToggleMastered, onPlayAudio: onPlayAudio, onMarkDifficult: onMarkDifficult, onMarkEasy: onMarkEasy })] })] }))] }) })] })] }));
 };
 export default WordDetailsModal;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Modal,
   ModalOverlay,
@@ -16,8 +16,11 @@ import {
   Flex,
   Tag,
   TagLabel,
+  TagCloseButton,
   IconButton,
   Tooltip,
+  Button,
+  Select,
   useColorModeValue,
 } from '@chakra-ui/react';
 import {
@@ -26,8 +29,14 @@ import {
   ChartBarIcon,
   TagIcon,
   SpeakerWaveIcon,
+  LinkIcon,
+  ArrowLeftIcon,
+  QueueListIcon,
 } from '@heroicons/react/24/outline';
-import { VocabularyItem, BaseComponentProps } from '@/types';
+import { VocabularyItem, VocabularyRelationType, BaseComponentProps, QUESTION_TYPE_LABELS } from '@/types';
+import { getLinkedTerms, LinkedTerm, RELATION_LABELS } from '@/services/vocabularyRelations';
+import { WordEvent } from '@/services/storageManager';
+import { wordHistoryService, getConfusions, WORD_EVENT_LABELS } from '@/services/wordHistory';
 import { WordActions, WordStatusIndicator } from './WordActions';
 
 /**
@@ -54,8 +63,262 @@ interface WordDetailsModalProps extends BaseComponentProps {
   onMarkDifficult?: () => void;
   /** 标记简单回调 */
   onMarkEasy?: () => void;
+  /** 全部词汇，用于显示关联词汇 */
+  vocabulary?: VocabularyItem[];
+  /** 点击关联词汇回调，不传时在弹窗内跳转并可返回 */
+  onNavigate?: (word: VocabularyItem) => void;
+  /** 添加关系回调，关系保存在 sourceId 对应的词汇上 */
+  onAddRelation?: (sourceId: string, targetId: string, type: VocabularyRelationType) => void;
+  /** 删除关系回调 */
+  onRemoveRelation?: (sourceId: string, targetId: string, type: VocabularyRelationType) => void;
 }
 
+/**
+ * 关联词汇列表和编辑区域
+ */
+const RelatedTerms: React.FC<{
+  word: VocabularyItem;
+  vocabulary: VocabularyItem[];
+  textColor: string;
+  onSelect: (word: VocabularyItem) => void;
+  onAddRelation?: WordDetailsModalProps['onAddRelation'];
+  onRemoveRelation?: WordDetailsModalProps['onRemoveRelation'];
+}> = ({ word, vocabulary, textColor, onSelect, onAddRelation, onRemoveRelation }) => {
+  const [relationType, setRelationType] = useState(VocabularyRelationType.RELATED);
+  const [targetId, setTargetId] = useState('');
+
+  const groups = useMemo(() => {
+    const result = new Map<string, LinkedTerm[]>();
+    getLinkedTerms(word, vocabulary).forEach(link => {
+      result.set(link.label, [...(result.get(link.label) ?? []), link]);
+    });
+    return Array.from(result.entries());
+  }, [word, vocabulary]);
+
+  const candidates = useMemo(
+    () => vocabulary.filter(item => item.id !== word.id).sort((a, b) => a.word.localeCompare(b.word)),
+    [word.id, vocabulary]
+  );
+
+  if (groups.length === 0 && !onAddRelation) return null;
+
+  const handleRemove = (link: LinkedTerm) => {
+    if (link.direction === 'outgoing') {
+      onRemoveRelation?.(word.id, link.item.id, link.type);
+    } else {
+      onRemoveRelation?.(link.item.id, word.id, link.type);
+    }
+  };
+
+  return (
+    <>
+      <Divider />
+      <Box>
+        <HStack mb={3} align="center">
+          <LinkIcon width={16} height={16} />
+          <Text fontSize="lg" fontWeight="semibold" color={textColor}>
+            关联词汇
+          </Text>
+        </HStack>
+        <VStack spacing={2} align="stretch">
+          {groups.map(([label, links]) => (
+            <HStack key={label} align="start" spacing={3}>
+              <Text fontSize="sm" color="gray.500" minW="64px">
+                {label}
+              </Text>
+              <Flex wrap="wrap" gap={2}>
+                {links.map(link => (
+                  <Tag
+                    key={`${link.direction}_${link.type}_${link.item.id}`}
+                    size="md"
+                    variant="subtle"
+                    colorScheme="primary"
+                    borderRadius="full"
+                    cursor="pointer"
+                    onClick={() => onSelect(link.item)}
+                  >
+                    <TagLabel>{link.item.word}</TagLabel>
+                    {onRemoveRelation && (
+                      <TagCloseButton
+                        aria-label={`取消关联 ${link.item.word}`}
+                        onClick={event => {
+                          event.stopPropagation();
+                          handleRemove(link);
+                        }}
+                      />
+                    )}
+                  </Tag>
+                ))}
+              </Flex>
+            </HStack>
+          ))}
+
+          {onAddRelation && candidates.length > 0 && (
+            <HStack spacing={2}>
+              <Select
+                size="sm"
+                maxW="120px"
+                value={relationType}
+                onChange={event => setRelationType(event.target.value as VocabularyRelationType)}
+              >
+                {Object.values(VocabularyRelationType).map(type => (
+                  <option key={type} value={type}>
+                    {RELATION_LABELS[type].label}
+                  </option>
+                ))}
+              </Select>
+              <Select size="sm" placeholder="选择词汇" value={targetId} onChange={event => setTargetId(event.target.value)}>
+                {candidates.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.word}
+                  </option>
+                ))}
+              </Select>
+              <Button
+                size="sm"
+                isDisabled={!targetId}
+                onClick={() => {
+                  onAddRelation(word.id, targetId, relationType);
+                  setTargetId('');
+                }}
+              >
+                添加
+              </Button>
+            </HStack>
+          )}
+        </VStack>
+      </Box>
+    </>
+  );
+};
+
+/**
+ * 时间线默认显示的事件数量
+ */
+const TIMELINE_PREVIEW_COUNT = 10;
+
+const EVENT_COLORS: Record<WordEvent['type'], string> = {
+  seen: 'gray',
+  answered: 'blue',
+  mastered: 'green',
+  demoted: 'red',
+  reset: 'orange',
+};
+
+/**
+ * 学习记录时间线和易混答案
+ */
+const StudyTimeline: React.FC<{
+  wordId: string;
+  textColor: string;
+  mutedColor: string;
+  formatDate: (date: Date) => string;
+}> = ({ wordId, textColor, mutedColor, formatDate }) => {
+  const [events, setEvents] = useState<WordEvent[]>([]);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    wordHistoryService.getHistory(wordId).then(history => {
+      if (!cancelled) setEvents(history);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [wordId]);
+
+  const confusions = useMemo(() => getConfusions(events), [events]);
+  const recent = useMemo(() => [...events].reverse(), [events]);
+
+  if (events.length === 0) return null;
+
+  const visible = showAll ? recent : recent.slice(0, TIMELINE_PREVIEW_COUNT);
+
+  return (
+    <>
+      <Divider />
+      <Box>
+        <HStack mb={3} align="center">
+          <QueueListIcon width={16} height={16} />
+          <Text fontSize="lg" fontWeight="semibold" color={textColor}>
+            学习记录
+          </Text>
+        </HStack>
+
+        {confusions.length > 0 && (
+          <Box mb={4}>
+            <Text fontSize="sm" color={mutedColor} mb={2}>
+              常见错误答案
+            </Text>
+            <Flex wrap="wrap" gap={2}>
+              {confusions.map(confusion => (
+                <Tag key={confusion.answer} size="md" variant="subtle" colorScheme="red" borderRadius="full">
+                  <TagLabel>
+                    {confusion.answer} × {confusion.count}
+                  </TagLabel>
+                </Tag>
+              ))}
+            </Flex>
+          </Box>
+        )}
+
+        <VStack spacing={0} align="stretch" borderLeft="2px solid" borderColor="gray.200" ml={1}>
+          {visible.map((event, index) => (
+            <Box key={`${event.timestamp}_${index}`} pl={4} py={2} position="relative">
+              <Box
+                position="absolute"
+                left="-5px"
+                top="14px"
+                w="8px"
+                h="8px"
+                borderRadius="full"
+                bg={`${EVENT_COLORS[event.type]}.400`}
+              />
+              <HStack spacing={2} flexWrap="wrap">
+                <Text fontSize="xs" color={mutedColor}>
+                  {formatDate(new Date(event.timestamp))}
+                </Text>
+                <Badge colorScheme={EVENT_COLORS[event.type]} variant="subtle">
+                  {WORD_EVENT_LABELS[event.type]}
+                </Badge>
+                {event.questionType && (
+                  <Text fontSize="xs" color={mutedColor}>
+                    {QUESTION_TYPE_LABELS[event.questionType]}
+                  </Text>
+                )}
+                {event.type === 'answered' && (
+                  <Badge colorScheme={event.isCorrect ? 'green' : 'red'}>{event.isCorrect ? '正确' : '错误'}</Badge>
+                )}
+                {event.timeSpent !== undefined && (
+                  <Text fontSize="xs" color={mutedColor}>
+                    {event.timeSpent} 秒
+                  </Text>
+                )}
+              </HStack>
+              {event.type === 'answered' && !event.isCorrect && event.answer && (
+                <Text fontSize="sm" color={textColor} mt={1}>
+                  答案：{event.answer}
+                  {event.correctAnswer && (
+                    <Text as="span" color={mutedColor}>
+                      {' '}（正确答案：{event.correctAnswer}）
+                    </Text>
+                  )}
+                </Text>
+              )}
+            </Box>
+          ))}
+        </VStack>
+
+        {recent.length > TIMELINE_PREVIEW_COUNT && (
+          <Button size="xs" variant="link" mt={2} onClick={() => setShowAll(prev => !prev)}>
+            {showAll ? '收起' : `显示全部 ${recent.length} 条`}
+          </Button>
+        )}
+      </Box>
+    </>
+  );
+};
+
 /**
  * 单词详情模态框组件
  * 显示单词的详细信息，包括释义、例句、学习统计等
@@ -71,10 +334,22 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
   onPlayAudio,
   onMarkDifficult,
   onMarkEasy,
+  vocabulary,
+  onNavigate,
+  onAddRelation,
+  onRemoveRelation,
   className,
   style,
   testId,
 }) => {
+  // 在弹窗内跳转过的关联词汇，最后一个为当前显示的词汇
+  const [history, setHistory] = useState<VocabularyItem[]>([]);
+  const initialWordId = word?.id;
+
+  useEffect(() => {
+    setHistory([]);
+  }, [initialWordId, isOpen]);
+
   // 主题颜色
   const bgColor = useColorModeValue('white', 'gray.800');
   const borderColor = useColorModeValue('gray.200', 'gray.600');
@@ -83,6 +358,19 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
 
   if (!word) return null;
 
+  // 跳转后显示最新的词汇数据，收藏等操作只作用于打开时的词汇
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  const current = (latest && vocabulary?.find(item => item.id === latest.id)) ?? latest ?? word;
+  const isLinkedView = current.id !== word.id;
+
+  const handleSelectLinked = (linked: VocabularyItem) => {
+    if (onNavigate) {
+      onNavigate(linked);
+    } else {
+      setHistory(prev => [...prev, linked]);
+    }
+  };
+
   // 难度颜色映射
   const difficultyColors = {
     beginner: 'green',
@@ -143,53 +431,70 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
           <HStack justify="space-between" align="start">
             <VStack align="start" spacing={1}>
               <HStack spacing={3} align="center">
+                {/* 返回上一个词汇 */}
+                {history.length > 0 && (
+                  <Tooltip label="返回">
+                    <IconButton
+                      aria-label="返回"
+                      icon={<ArrowLeftIcon width={18} height={18} />}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setHistory(prev => prev.slice(0, -1))}
+                    />
+                  </Tooltip>
+                )}
+
                 <Text fontSize="2xl" fontWeight="bold" color={textColor}>
-                  {word.word}
+                  {current.word}
                 </Text>
                 
                 {/* 播放音频按钮 */}
-                <Tooltip label="播放发音">
-                  <IconButton
-                    aria-label="播放发音"
-                    icon={<SpeakerWaveIcon width={20} height={20} />}
-                    size="sm"
-                    variant="ghost"
-                    colorScheme="primary"
-                    onClick={onPlayAudio}
-                    _hover={{ transform: 'scale(1.1)' }}
-                  />
-                </Tooltip>
+                {!isLinkedView && (
+                  <Tooltip label="播放发音">
+                    <IconButton
+                      aria-label="播放发音"
+                      icon={<SpeakerWaveIcon width={20} height={20} />}
+                      size="sm"
+                      variant="ghost"
+                      colorScheme="primary"
+                      onClick={onPlayAudio}
+                      _hover={{ transform: 'scale(1.1)' }}
+                    />
+                  </Tooltip>
+                )}
               </HStack>
               
               <Text fontSize="md" color={mutedColor} fontFamily="mono">
-                /{word.pronunciation}/
+                /{current.pronunciation}/
               </Text>
               
               <HStack spacing={2}>
                 <Badge
-                  colorScheme={difficultyColors[word.difficulty]}
+                  colorScheme={difficultyColors[current.difficulty]}
                   variant="solid"
                   borderRadius="full"
                 >
-                  {word.difficulty}
+                  {current.difficulty}
                 </Badge>
                 <Badge
-                  colorScheme={categoryColors[word.category]}
+                  colorScheme={categoryColors[current.category]}
                   variant="outline"
                   borderRadius="full"
                 >
-                  {word.category}
+                  {current.category}
                 </Badge>
               </HStack>
             </VStack>
 
             {/* 状态指示器 */}
-            <WordStatusIndicator
-              word={word}
-              isFavorite={isFavorite}
-              isMastered={isMastered}
-              mode="icons"
-            />
+            {!isLinkedView && (
+              <WordStatusIndicator
+                word={word}
+                isFavorite={isFavorite}
+                isMastered={isMastered}
+                mode="icons"
+              />
+            )}
           </HStack>
         </ModalHeader>
 
@@ -210,10 +515,10 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                 borderColor={borderColor}
               >
                 <Text fontSize="md" lineHeight="1.6" color={textColor}>
-                  {word.definition}
+                  {current.definition}
                 </Text>
                 
-                {word.englishDefinition && (
+                {current.englishDefinition && (
                   <Text
                     fontSize="sm"
                     color={mutedColor}
@@ -221,20 +526,20 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                     mt={2}
                     lineHeight="1.5"
                   >
-                    {word.englishDefinition}
+                    {current.englishDefinition}
                   </Text>
                 )}
               </Box>
             </Box>
 
             {/* 例句部分 */}
-            {word.examples.length > 0 && (
+            {current.examples.length > 0 && (
               <Box>
                 <Text fontSize="lg" fontWeight="semibold" mb={3} color={textColor}>
                   例句
                 </Text>
                 <VStack spacing={3} align="stretch">
-                  {word.examples.map((example, index) => (
+                  {current.examples.map((example, index) => (
                     <Box
                       key={index}
                       bg="blue.50"
@@ -253,7 +558,7 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
             )}
 
             {/* 标签部分 */}
-            {word.tags.length > 0 && (
+            {current.tags.length > 0 && (
               <Box>
                 <HStack mb={3} align="center">
                   <TagIcon width={16} height={16} />
@@ -262,7 +567,7 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                   </Text>
                 </HStack>
                 <Flex wrap="wrap" gap={2}>
-                  {word.tags.map((tag, index) => (
+                  {current.tags.map((tag, index) => (
                     <Tag
                       key={index}
                       size="sm"
@@ -298,16 +603,16 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                     <Text
                       fontSize="sm"
                       fontWeight="semibold"
-                      color={getAccuracyColor(word.accuracy)}
+                      color={getAccuracyColor(current.accuracy)}
                     >
-                      {Math.round(word.accuracy * 100)}%
+                      {Math.round(current.accuracy * 100)}%
                     </Text>
                   </HStack>
                   <Progress
-                    value={word.accuracy * 100}
+                    value={current.accuracy * 100}
                     colorScheme={
-                      word.accuracy >= 0.8 ? 'green' :
-                      word.accuracy >= 0.6 ? 'orange' : 'red'
+                      current.accuracy >= 0.8 ? 'green' :
+                      current.accuracy >= 0.6 ? 'orange' : 'red'
                     }
                     size="sm"
                     borderRadius="full"
@@ -323,7 +628,7 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                     </Text>
                   </HStack>
                   <Text fontSize="sm" fontWeight="semibold" color={textColor}>
-                    {word.studyCount} 次
+                    {current.studyCount} 次
                   </Text>
                 </HStack>
 
@@ -337,7 +642,7 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                       </Text>
                     </HStack>
                     <Text fontSize="sm" color={textColor}>
-                      {formatDate(word.createdAt)}
+                      {formatDate(current.createdAt)}
                     </Text>
                   </HStack>
                   
@@ -349,13 +654,13 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
                       </Text>
                     </HStack>
                     <Text fontSize="sm" color={textColor}>
-                      {formatDate(word.updatedAt)}
+                      {formatDate(current.updatedAt)}
                     </Text>
                   </HStack>
                 </VStack>
 
                 {/* 自定义词汇标识 */}
-                {word.isCustom && (
+                {current.isCustom && (
                   <Box
                     bg="purple.50"
                     borderRadius="lg"
@@ -371,27 +676,52 @@ export const WordDetailsModal: React.FC<WordDetailsModalProps> = ({
               </VStack>
             </Box>
 
-            <Divider />
+            {/* 学习记录 */}
+            <StudyTimeline
+              key={current.id}
+              wordId={current.id}
+              textColor={textColor}
+              mutedColor={mutedColor}
+              formatDate={formatDate}
+            />
 
-            {/* 操作按钮 */}
-            <Box>
-              <Text fontSize="lg" fontWeight="semibold" mb={4} color={textColor}>
-                操作
-              </Text>
-              <WordActions
-                word={word}
-                isFavorite={isFavorite}
-                isMastered={isMastered}
-                showDetailedActions={true}
-                size="md"
-                direction="row"
-                onToggleFavorite={onToggleFavorite}
-                onToggleMastered={onToggleMastered}
-                onPlayAudio={onPlayAudio}
-                onMarkDifficult={onMarkDifficult}
-                onMarkEasy={onMarkEasy}
+            {/* 关联词汇 */}
+            {vocabulary && (
+              <RelatedTerms
+                key={current.id}
+                word={current}
+                vocabulary={vocabulary}
+                textColor={textColor}
+                onSelect={handleSelectLinked}
+                onAddRelation={onAddRelation}
+                onRemoveRelation={onRemoveRelation}
               />
-            </Box>
+            )}
+
+            {/* 操作按钮 */}
+            {!isLinkedView && (
+              <>
+                <Divider />
+                <Box>
+                  <Text fontSize="lg" fontWeight="semibold" mb={4} color={textColor}>
+                    操作
+                  </Text>
+                  <WordActions
+                    word={word}
+                    isFavorite={isFavorite}
+                    isMastered={isMastered}
+                    showDetailedActions={true}
+                    size="md"
+                    direction="row"
+                    onToggleFavorite={onToggleFavorite}
+                    onToggleMastered={onToggleMastered}
+                    onPlayAudio={onPlayAudio}
+                    onMarkDifficult={onMarkDifficult}
+                    onMarkEasy={onMarkEasy}
+                  />
+                </Box>
+              </>
+            )}
           </VStack>
         </ModalBody>
       </ModalContent>
@@ -4,6 +4,14 @@ export { WordActions, WordStatusIndicator } from './WordActions';
 export { WordDetailsModal } from './WordDetailsModal';
 export { default as AddVocabularyForm } from './AddVocabularyForm';
 export { default as VocabularyLoader } from './VocabularyLoader';
+export { VocabularyImportModal } from './VocabularyImportModal';
+export { VocabularyMergeModal } from './VocabularyMergeModal';
+export { SearchHighlight, HighlightedText } from './SearchHighlight';
+export { DeckFormModal } from './DeckFormModal';
+export { VocabularyList } from './VocabularyList';
+export { VocabularyFilterBar } from './VocabularyFilterBar';
+export { VocabularyBulkActions } from './VocabularyBulkActions';
+export { VocabularyBrowser } from './VocabularyBrowser';
 
 // 导出类型
 export type { default as WordCardProps } from './WordCard';
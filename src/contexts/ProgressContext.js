@@ -1,6 +1,12 @@
 import { jsx as _jsx } from "react/jsx-runtime";
-import { createContext, useContext, useReducer } from 'react';
-import { AchievementStatus, AchievementType, } from '@/types';
+import { createContext, useContext, useReducer, useEffect, useRef } from 'react';
+import { AchievementStatus, } from '@/types';
+import { evaluateAchievements } from '@/services/achievementRules';
+import { useWordCategories } from '@/hooks/useWordCategories';
+import { masteryService } from '@/services/masteryService';
+import { vocabularyService } from '@/services/vocabularyService';
+import { vocabularyStore } from '@/services/vocabularyStore';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
 export var ProgressActionType;
 (function (ProgressActionType) {
     ProgressActionType["SET_LOADING"] = "SET_LOADING";
@@ -13,10 +19,13 @@ export var ProgressActionType;
     ProgressActionType["UPDATE_STREAK"] = "UPDATE_STREAK";
     ProgressActionType["ADD_MASTERED_WORD"] = "ADD_MASTERED_WORD";
     ProgressActionType["REMOVE_MASTERED_WORD"] = "REMOVE_MASTERED_WORD";
+    ProgressActionType["SYNC_MASTERED_WORDS"] = "SYNC_MASTERED_WORDS";
+    ProgressActionType["REMOVE_WORDS"] = "REMOVE_WORDS";
     ProgressActionType["ADD_WEAK_WORD"] = "ADD_WEAK_WORD";
     ProgressActionType["REMOVE_WEAK_WORD"] = "REMOVE_WEAK_WORD";
     ProgressActionType["UNLOCK_ACHIEVEMENT"] = "UNLOCK_ACHIEVEMENT";
     ProgressActionType["UPDATE_ACHIEVEMENT_PROGRESS"] = "UPDATE_ACHIEVEMENT_PROGRESS";
+    ProgressActionType["SYNC_ACHIEVEMENTS"] = "SYNC_ACHIEVEMENTS";
     ProgressActionType["ADD_POINTS"] = "ADD_POINTS";
     ProgressActionType["LEVEL_UP"] = "LEVEL_UP";
     ProgressActionType["SET_SUMMARY"] = "SET_SUMMARY";
@@ -25,6 +34,7 @@ export var ProgressActionType;
     ProgressActionType["UPDATE_GOAL"] = "UPDATE_GOAL";
     ProgressActionType["COMPLETE_GOAL"] = "COMPLETE_GOAL";
     ProgressActionType["DELETE_GOAL"] = "DELETE_GOAL";
+    ProgressActionType["RECORD_PRACTICE_SESSION"] = "RECORD_PRACTICE_SESSION";
     ProgressActionType["RESET_PROGRESS"] = "RESET_PROGRESS";
     ProgressActionType["INITIALIZE"] = "INITIALIZE";
 })(ProgressActionType || (ProgressActionType = {}));
@@ -40,6 +50,9 @@ const initialState = {
 const getTodayDateString = () => {
     return new Date().toISOString().split('T')[0];
 };
+const getYesterdayDateString = () => {
+    return new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+};
 const createDefaultDailyStats = (date) => ({
     date,
     wordsStudied: 0,
@@ -77,27 +90,6 @@ const calculateLevel = (totalExp) => {
         nextLevelExp: expForNextLevel - expForCurrentLevel,
     };
 };
-const checkAchievementUnlock = (achievement, userProgress) => {
-    switch (achievement.type) {
-        case AchievementType.STUDY_STREAK:
-            return userProgress.streakDays >= achievement.target;
-        case AchievementType.WORDS_MASTERED:
-            return userProgress.masteredWords.length >= achievement.target;
-        case AchievementType.PRACTICE_COUNT:
-            return userProgress.studySessions.filter(s => s.sessionType === 'practice').length >= achievement.target;
-        case AchievementType.ACCURACY_RATE:
-            const totalStats = userProgress.dailyStats.reduce((acc, stats) => ({
-                correct: acc.correct + stats.correctAnswers,
-                total: acc.total + stats.totalAnswers,
-            }), { correct: 0, total: 0 });
-            const accuracy = totalStats.total > 0 ? totalStats.correct / totalStats.total : 0;
-            return accuracy >= achievement.target / 100;
-        case AchievementType.STUDY_TIME:
-            return userProgress.totalStudyTime >= achievement.target;
-        default:
-            return false;
-    }
-};
 export const progressReducer = (state, action) => {
     switch (action.type) {
         case ProgressActionType.SET_LOADING:
@@ -193,10 +185,14 @@ export const progressReducer = (state, action) => {
             const wordId = action.payload;
             if (state.userProgress.masteredWords.includes(wordId))
                 return state;
+            const todayStats = state.userProgress.dailyStats.find(stats => stats.date === getTodayDateString());
             return {
                 ...state,
                 userProgress: {
                     ...state.userProgress,
+                    dailyStats: updateDailyStats(state.userProgress.dailyStats, {
+                        newMasteredWords: (todayStats?.newMasteredWords ?? 0) + 1,
+                    }),
                     masteredWords: [...state.userProgress.masteredWords, wordId],
                     weakWords: state.userProgress.weakWords.filter(id => id !== wordId),
                     updatedAt: new Date(),
@@ -215,6 +211,47 @@ export const progressReducer = (state, action) => {
                 },
             };
         }
+        case ProgressActionType.SYNC_MASTERED_WORDS: {
+            if (!state.userProgress)
+                return state;
+            const notMastered = new Set(action.payload.notMastered);
+            const masteredWords = Array.from(new Set([
+                ...state.userProgress.masteredWords.filter(id => !notMastered.has(id)),
+                ...action.payload.mastered,
+            ]));
+            if (masteredWords.length === state.userProgress.masteredWords.length &&
+                masteredWords.every(id => state.userProgress.masteredWords.includes(id))) {
+                return state;
+            }
+            const mastered = new Set(masteredWords);
+            return {
+                ...state,
+                userProgress: {
+                    ...state.userProgress,
+                    masteredWords,
+                    weakWords: state.userProgress.weakWords.filter(id => !mastered.has(id)),
+                    updatedAt: new Date(),
+                },
+            };
+        }
+        case ProgressActionType.REMOVE_WORDS: {
+            if (!state.userProgress)
+                return state;
+            const removed = new Set(action.payload);
+            const { masteredWords, weakWords, favoriteWords } = state.userProgress;
+            if (![...masteredWords, ...weakWords, ...favoriteWords].some(id => removed.has(id)))
+                return state;
+            return {
+                ...state,
+                userProgress: {
+                    ...state.userProgress,
+                    masteredWords: masteredWords.filter(id => !removed.has(id)),
+                    weakWords: weakWords.filter(id => !removed.has(id)),
+                    favoriteWords: favoriteWords.filter(id => !removed.has(id)),
+                    updatedAt: new Date(),
+                },
+            };
+        }
         case ProgressActionType.ADD_WEAK_WORD: {
             if (!state.userProgress)
                 return state;
@@ -291,6 +328,29 @@ export const progressReducer = (state, action) => {
                 },
             };
         }
+        case ProgressActionType.SYNC_ACHIEVEMENTS: {
+            if (!state.userProgress)
+                return state;
+            const previous = new Map(state.userProgress.achievements.map(achievement => [achievement.id, achievement]));
+            const rewardPoints = action.payload
+                .filter(achievement => achievement.status === AchievementStatus.UNLOCKED &&
+                previous.get(achievement.id)?.status !== AchievementStatus.UNLOCKED)
+                .reduce((sum, achievement) => sum + achievement.rewardPoints, 0);
+            const totalPoints = state.userProgress.totalPoints + rewardPoints;
+            const levelInfo = calculateLevel(totalPoints);
+            return {
+                ...state,
+                userProgress: {
+                    ...state.userProgress,
+                    achievements: action.payload,
+                    totalPoints,
+                    level: levelInfo.level,
+                    currentLevelExp: levelInfo.currentLevelExp,
+                    nextLevelExp: levelInfo.nextLevelExp,
+                    updatedAt: new Date(),
+                },
+            };
+        }
         case ProgressActionType.ADD_POINTS: {
             if (!state.userProgress)
                 return state;
@@ -340,6 +400,47 @@ export const progressReducer = (state, action) => {
             const filteredGoals = state.goals.filter(goal => goal.id !== action.payload);
             return { ...state, goals: filteredGoals };
         }
+        case ProgressActionType.RECORD_PRACTICE_SESSION: {
+            if (!state.userProgress)
+                return state;
+            const { session, correctWordIds, wrongWordIds, reviewWordIds = [] } = action.payload;
+            const today = getTodayDateString();
+            const todayStats = state.userProgress.dailyStats.find(stats => stats.date === today)
+                || createDefaultDailyStats(today);
+            const totalAnswers = correctWordIds.length + wrongWordIds.length;
+            const wrongSet = new Set([...wrongWordIds, ...reviewWordIds]);
+            const recoveredSet = new Set(correctWordIds.filter(id => !wrongSet.has(id)));
+            const weakWords = [
+                ...state.userProgress.weakWords.filter(id => !recoveredSet.has(id) && !wrongSet.has(id)),
+                ...wrongSet,
+            ];
+            let { streakDays, maxStreakDays } = state.userProgress;
+            if (todayStats.practiceSessions === 0) {
+                const studiedYesterday = state.userProgress.dailyStats.some(stats => stats.date === getYesterdayDateString());
+                streakDays = studiedYesterday ? streakDays + 1 : 1;
+                maxStreakDays = Math.max(maxStreakDays, streakDays);
+            }
+            return {
+                ...state,
+                userProgress: {
+                    ...state.userProgress,
+                    dailyStats: updateDailyStats(state.userProgress.dailyStats, {
+                        wordsStudied: todayStats.wordsStudied + session.wordsStudied.length,
+                        practiceSessions: todayStats.practiceSessions + 1,
+                        correctAnswers: todayStats.correctAnswers + correctWordIds.length,
+                        totalAnswers: todayStats.totalAnswers + totalAnswers,
+                        studyTimeMinutes: todayStats.studyTimeMinutes + Math.floor(session.duration / 60),
+                    }),
+                    weakWords,
+                    streakDays,
+                    maxStreakDays,
+                    studySessions: [...state.userProgress.studySessions, session],
+                    totalStudyTime: state.userProgress.totalStudyTime + Math.floor(session.duration / 60),
+                    lastStudyTime: session.endTime,
+                    updatedAt: new Date(),
+                },
+            };
+        }
         case ProgressActionType.INITIALIZE:
             return { ...state, initialized: true };
         case ProgressActionType.RESET_PROGRESS:
@@ -351,6 +452,59 @@ export const progressReducer = (state, action) => {
 export const ProgressContext = createContext(undefined);
 export const ProgressProvider = ({ children }) => {
     const [state, dispatch] = useReducer(progressReducer, initialState);
+    const wordCategories = useWordCategories();
+    const snapshotRef = useRef(null);
+    const userId = state.userProgress?.userId;
+    useEffect(() => {
+        if (!userId)
+            return;
+        let active = true;
+        vocabularyService.getAllVocabulary()
+            .then(items => {
+            if (!active)
+                return;
+            const masteredIds = new Set(items.filter(item => getMasteryStatus(item) === 'mastered').map(item => item.id));
+            dispatch({
+                type: ProgressActionType.SYNC_MASTERED_WORDS,
+                payload: {
+                    mastered: Array.from(masteredIds),
+                    notMastered: items.filter(item => !masteredIds.has(item.id)).map(item => item.id),
+                },
+            });
+        })
+            .catch(error => {
+            console.error('Failed to sync mastered words:', error);
+        });
+        return () => {
+            active = false;
+        };
+    }, [userId]);
+    useEffect(() => masteryService.subscribe(({ events }) => {
+        events.forEach(event => dispatch({
+            type: event.type === 'mastered'
+                ? ProgressActionType.ADD_MASTERED_WORD
+                : ProgressActionType.REMOVE_MASTERED_WORD,
+            payload: event.wordId,
+        }));
+    }), []);
+    useEffect(() => vocabularyStore.subscribe(({ deleted }) => {
+        if (deleted.length > 0) {
+            dispatch({ type: ProgressActionType.REMOVE_WORDS, payload: deleted });
+        }
+    }), []);
+    useEffect(() => {
+        const progress = state.userProgress;
+        if (!progress) {
+            snapshotRef.current = null;
+            return;
+        }
+        const previous = snapshotRef.current?.userId === progress.userId ? snapshotRef.current.values : undefined;
+        const result = evaluateAchievements(progress.achievements, { progress, wordCategories }, previous);
+        snapshotRef.current = { userId: progress.userId, values: result.snapshot };
+        if (result.changed) {
+            dispatch({ type: ProgressActionType.SYNC_ACHIEVEMENTS, payload: result.achievements });
+        }
+    }, [state.userProgress, wordCategories]);
     return (_jsx(ProgressContext.Provider, { value: { state, dispatch }, children: children }));
 };
 export const useProgressContext = () => {
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef, ReactNode } from 'react';
 import {
   UserProgress,
   DailyStats,
@@ -7,8 +7,13 @@ import {
   ProgressSummary,
   LearningGoal,
   AchievementStatus,
-  AchievementType,
 } from '@/types';
+import { evaluateAchievements, AchievementSnapshot } from '@/services/achievementRules';
+import { useWordCategories } from '@/hooks/useWordCategories';
+import { masteryService } from '@/services/masteryService';
+import { vocabularyService } from '@/services/vocabularyService';
+import { vocabularyStore } from '@/services/vocabularyStore';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
 
 /**
  * 进度状态接口
@@ -44,10 +49,13 @@ export enum ProgressActionType {
   UPDATE_STREAK = 'UPDATE_STREAK',
   ADD_MASTERED_WORD = 'ADD_MASTERED_WORD',
   REMOVE_MASTERED_WORD = 'REMOVE_MASTERED_WORD',
+  SYNC_MASTERED_WORDS = 'SYNC_MASTERED_WORDS',
+  REMOVE_WORDS = 'REMOVE_WORDS',
   ADD_WEAK_WORD = 'ADD_WEAK_WORD',
   REMOVE_WEAK_WORD = 'REMOVE_WEAK_WORD',
   UNLOCK_ACHIEVEMENT = 'UNLOCK_ACHIEVEMENT',
   UPDATE_ACHIEVEMENT_PROGRESS = 'UPDATE_ACHIEVEMENT_PROGRESS',
+  SYNC_ACHIEVEMENTS = 'SYNC_ACHIEVEMENTS',
   ADD_POINTS = 'ADD_POINTS',
   LEVEL_UP = 'LEVEL_UP',
   SET_SUMMARY = 'SET_SUMMARY',
@@ -56,10 +64,25 @@ export enum ProgressActionType {
   UPDATE_GOAL = 'UPDATE_GOAL',
   COMPLETE_GOAL = 'COMPLETE_GOAL',
   DELETE_GOAL = 'DELETE_GOAL',
+  RECORD_PRACTICE_SESSION = 'RECORD_PRACTICE_SESSION',
   RESET_PROGRESS = 'RESET_PROGRESS',
   INITIALIZE = 'INITIALIZE',
 }
 
+/**
+ * 练习会话记录负载
+ */
+export interface PracticeSessionRecord {
+  /** 学习会话记录 */
+  session: StudySession;
+  /** 答对的单词ID列表 */
+  correctWordIds: string[];
+  /** 答错的单词ID列表 */
+  wrongWordIds: string[];
+  /** 练习分析建议复习的单词ID列表 */
+  reviewWordIds?: string[];
+}
+
 /**
  * 进度动作接口
  */
@@ -74,10 +97,13 @@ export type ProgressAction =
   | { type: ProgressActionType.UPDATE_STREAK; payload: number }
   | { type: ProgressActionType.ADD_MASTERED_WORD; payload: string }
   | { type: ProgressActionType.REMOVE_MASTERED_WORD; payload: string }
+  | { type: ProgressActionType.SYNC_MASTERED_WORDS; payload: { mastered: string[]; notMastered: string[] } }
+  | { type: ProgressActionType.REMOVE_WORDS; payload: string[] }
   | { type: ProgressActionType.ADD_WEAK_WORD; payload: string }
   | { type: ProgressActionType.REMOVE_WEAK_WORD; payload: string }
   | { type: ProgressActionType.UNLOCK_ACHIEVEMENT; payload: string }
   | { type: ProgressActionType.UPDATE_ACHIEVEMENT_PROGRESS; payload: { id: string; progress: number } }
+  | { type: ProgressActionType.SYNC_ACHIEVEMENTS; payload: Achievement[] }
   | { type: ProgressActionType.ADD_POINTS; payload: number }
   | { type: ProgressActionType.LEVEL_UP; payload: { newLevel: number; newExp: number } }
   | { type: ProgressActionType.SET_SUMMARY; payload: ProgressSummary }
@@ -86,6 +112,7 @@ export type ProgressAction =
   | { type: ProgressActionType.UPDATE_GOAL; payload: LearningGoal }
   | { type: ProgressActionType.COMPLETE_GOAL; payload: string }
   | { type: ProgressActionType.DELETE_GOAL; payload: string }
+  | { type: ProgressActionType.RECORD_PRACTICE_SESSION; payload: PracticeSessionRecord }
   | { type: ProgressActionType.RESET_PROGRESS }
   | { type: ProgressActionType.INITIALIZE };
 
@@ -109,6 +136,13 @@ const getTodayDateString = (): string => {
   return new Date().toISOString().split('T')[0];
 };
 
+/**
+ * 获取昨日日期字符串
+ */
+const getYesterdayDateString = (): string => {
+  return new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+};
+
 /**
  * 创建默认的每日统计
  */
@@ -166,43 +200,6 @@ const calculateLevel = (totalExp: number): { level: number; currentLevelExp: num
   };
 };
 
-/**
- * 检查成就解锁条件
- */
-const checkAchievementUnlock = (
-  achievement: Achievement,
-  userProgress: UserProgress
-): boolean => {
-  switch (achievement.type) {
-    case AchievementType.STUDY_STREAK:
-      return userProgress.streakDays >= achievement.target;
-    
-    case AchievementType.WORDS_MASTERED:
-      return userProgress.masteredWords.length >= achievement.target;
-    
-    case AchievementType.PRACTICE_COUNT:
-      return userProgress.studySessions.filter(s => s.sessionType === 'practice').length >= achievement.target;
-    
-    case AchievementType.ACCURACY_RATE:
-      // 计算总体正确率
-      const totalStats = userProgress.dailyStats.reduce(
-        (acc, stats) => ({
-          correct: acc.correct + stats.correctAnswers,
-          total: acc.total + stats.totalAnswers,
-        }),
-        { correct: 0, total: 0 }
-      );
-      const accuracy = totalStats.total > 0 ? totalStats.correct / totalStats.total : 0;
-      return accuracy >= achievement.target / 100;
-    
-    case AchievementType.STUDY_TIME:
-      return userProgress.totalStudyTime >= achievement.target;
-    
-    default:
-      return false;
-  }
-};
-
 /**
  * 进度状态reducer
  */
@@ -316,10 +313,15 @@ export const progressReducer = (state: ProgressState, action: ProgressAction): P
       const wordId = action.payload;
       if (state.userProgress.masteredWords.includes(wordId)) return state;
 
+      const todayStats = state.userProgress.dailyStats.find(stats => stats.date === getTodayDateString());
+
       return {
         ...state,
         userProgress: {
           ...state.userProgress,
+          dailyStats: updateDailyStats(state.userProgress.dailyStats, {
+            newMasteredWords: (todayStats?.newMasteredWords ?? 0) + 1,
+          }),
           masteredWords: [...state.userProgress.masteredWords, wordId],
           weakWords: state.userProgress.weakWords.filter(id => id !== wordId),
           updatedAt: new Date(),
@@ -340,6 +342,53 @@ export const progressReducer = (state: ProgressState, action: ProgressAction): P
       };
     }
 
+    case ProgressActionType.SYNC_MASTERED_WORDS: {
+      if (!state.userProgress) return state;
+
+      // 以词汇的掌握状态为准，不在词汇中的单词保持原样
+      const notMastered = new Set(action.payload.notMastered);
+      const masteredWords = Array.from(new Set([
+        ...state.userProgress.masteredWords.filter(id => !notMastered.has(id)),
+        ...action.payload.mastered,
+      ]));
+      if (
+        masteredWords.length === state.userProgress.masteredWords.length &&
+        masteredWords.every(id => state.userProgress!.masteredWords.includes(id))
+      ) {
+        return state;
+      }
+
+      const mastered = new Set(masteredWords);
+      return {
+        ...state,
+        userProgress: {
+          ...state.userProgress,
+          masteredWords,
+          weakWords: state.userProgress.weakWords.filter(id => !mastered.has(id)),
+          updatedAt: new Date(),
+        },
+      };
+    }
+
+    case ProgressActionType.REMOVE_WORDS: {
+      if (!state.userProgress) return state;
+
+      const removed = new Set(action.payload);
+      const { masteredWords, weakWords, favoriteWords } = state.userProgress;
+      if (![...masteredWords, ...weakWords, ...favoriteWords].some(id => removed.has(id))) return state;
+
+      return {
+        ...state,
+        userProgress: {
+          ...state.userProgress,
+          masteredWords: masteredWords.filter(id => !removed.has(id)),
+          weakWords: weakWords.filter(id => !removed.has(id)),
+          favoriteWords: favoriteWords.filter(id => !removed.has(id)),
+          updatedAt: new Date(),
+        },
+      };
+    }
+
     case ProgressActionType.ADD_WEAK_WORD: {
       if (!state.userProgress) return state;
 
@@ -426,6 +475,34 @@ export const progressReducer = (state: ProgressState, action: ProgressAction): P
       };
     }
 
+    case ProgressActionType.SYNC_ACHIEVEMENTS: {
+      if (!state.userProgress) return state;
+
+      // 只为这次新解锁的成就发放奖励积分
+      const previous = new Map(state.userProgress.achievements.map(achievement => [achievement.id, achievement]));
+      const rewardPoints = action.payload
+        .filter(achievement =>
+          achievement.status === AchievementStatus.UNLOCKED &&
+          previous.get(achievement.id)?.status !== AchievementStatus.UNLOCKED
+        )
+        .reduce((sum, achievement) => sum + achievement.rewardPoints, 0);
+      const totalPoints = state.userProgress.totalPoints + rewardPoints;
+      const levelInfo = calculateLevel(totalPoints);
+
+      return {
+        ...state,
+        userProgress: {
+          ...state.userProgress,
+          achievements: action.payload,
+          totalPoints,
+          level: levelInfo.level,
+          currentLevelExp: levelInfo.currentLevelExp,
+          nextLevelExp: levelInfo.nextLevelExp,
+          updatedAt: new Date(),
+        },
+      };
+    }
+
     case ProgressActionType.ADD_POINTS: {
       if (!state.userProgress) return state;
 
@@ -489,6 +566,53 @@ export const progressReducer = (state: ProgressState, action: ProgressAction): P
       return { ...state, goals: filteredGoals };
     }
 
+    case ProgressActionType.RECORD_PRACTICE_SESSION: {
+      if (!state.userProgress) return state;
+
+      const { session, correctWordIds, wrongWordIds, reviewWordIds = [] } = action.payload;
+      const today = getTodayDateString();
+      const todayStats = state.userProgress.dailyStats.find(stats => stats.date === today)
+        || createDefaultDailyStats(today);
+      const totalAnswers = correctWordIds.length + wrongWordIds.length;
+
+      // 答错和建议复习的单词加入薄弱列表，本次全部答对的单词移出
+      const wrongSet = new Set([...wrongWordIds, ...reviewWordIds]);
+      const recoveredSet = new Set(correctWordIds.filter(id => !wrongSet.has(id)));
+      const weakWords = [
+        ...state.userProgress.weakWords.filter(id => !recoveredSet.has(id) && !wrongSet.has(id)),
+        ...wrongSet,
+      ];
+
+      // 连续学习天数只在当天第一次练习时更新：昨天学习过则加一，否则重新从一天开始
+      let { streakDays, maxStreakDays } = state.userProgress;
+      if (todayStats.practiceSessions === 0) {
+        const studiedYesterday = state.userProgress.dailyStats.some(stats => stats.date === getYesterdayDateString());
+        streakDays = studiedYesterday ? streakDays + 1 : 1;
+        maxStreakDays = Math.max(maxStreakDays, streakDays);
+      }
+
+      return {
+        ...state,
+        userProgress: {
+          ...state.userProgress,
+          dailyStats: updateDailyStats(state.userProgress.dailyStats, {
+            wordsStudied: todayStats.wordsStudied + session.wordsStudied.length,
+            practiceSessions: todayStats.practiceSessions + 1,
+            correctAnswers: todayStats.correctAnswers + correctWordIds.length,
+            totalAnswers: todayStats.totalAnswers + totalAnswers,
+            studyTimeMinutes: todayStats.studyTimeMinutes + Math.floor(session.duration / 60),
+          }),
+          weakWords,
+          streakDays,
+          maxStreakDays,
+          studySessions: [...state.userProgress.studySessions, session],
+          totalStudyTime: state.userProgress.totalStudyTime + Math.floor(session.duration / 60),
+          lastStudyTime: session.endTime,
+          updatedAt: new Date(),
+        },
+      };
+    }
+
     case ProgressActionType.INITIALIZE:
       return { ...state, initialized: true };
 
@@ -525,6 +649,81 @@ interface ProgressProviderProps {
  */
 export const ProgressProvider: React.FC<ProgressProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(progressReducer, initialState);
+  const wordCategories = useWordCategories();
+  const snapshotRef = useRef<{ userId: string; values: AchievementSnapshot } | null>(null);
+  const userId = state.userProgress?.userId;
+
+  // 加载进度后按词汇的掌握状态补齐已掌握列表，之前掌握的单词也能计入成就
+  useEffect(() => {
+    if (!userId) return;
+    let active = true;
+
+    vocabularyService.getAllVocabulary()
+      .then(items => {
+        if (!active) return;
+        const masteredIds = new Set(
+          items.filter(item => getMasteryStatus(item) === 'mastered').map(item => item.id)
+        );
+        dispatch({
+          type: ProgressActionType.SYNC_MASTERED_WORDS,
+          payload: {
+            mastered: Array.from(masteredIds),
+            notMastered: items.filter(item => !masteredIds.has(item.id)).map(item => item.id),
+          },
+        });
+      })
+      .catch(error => {
+        console.error('Failed to sync mastered words:', error);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  // 练习或手动标记后单词达到或跌出已掌握时同步已掌握列表，避免自动保存用旧状态覆盖
+  useEffect(
+    () =>
+      masteryService.subscribe(({ events }) => {
+        events.forEach(event =>
+          dispatch({
+            type: event.type === 'mastered'
+              ? ProgressActionType.ADD_MASTERED_WORD
+              : ProgressActionType.REMOVE_MASTERED_WORD,
+            payload: event.wordId,
+          })
+        );
+      }),
+    []
+  );
+
+  // 删除词汇后从进度的单词列表中移除，由自动保存写回
+  useEffect(
+    () =>
+      vocabularyStore.subscribe(({ deleted }) => {
+        if (deleted.length > 0) {
+          dispatch({ type: ProgressActionType.REMOVE_WORDS, payload: deleted });
+        }
+      }),
+    []
+  );
+
+  // 进度变化后计算成就：同一用户只更新指标有变化的成就，加载进度后按全部历史补发
+  useEffect(() => {
+    const progress = state.userProgress;
+    if (!progress) {
+      snapshotRef.current = null;
+      return;
+    }
+
+    const previous = snapshotRef.current?.userId === progress.userId ? snapshotRef.current.values : undefined;
+    const result = evaluateAchievements(progress.achievements, { progress, wordCategories }, previous);
+    snapshotRef.current = { userId: progress.userId, values: result.snapshot };
+
+    if (result.changed) {
+      dispatch({ type: ProgressActionType.SYNC_ACHIEVEMENTS, payload: result.achievements });
+    }
+  }, [state.userProgress, wordCategories]);
 
   return (
     <ProgressContext.Provider value={{ state, dispatch }}>
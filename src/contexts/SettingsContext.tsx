@@ -0,0 +1,184 @@
+import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import { UserSettings, DEFAULT_SETTINGS } from '@/types';
+import { storageManager } from '@/services/storageManager';
+
+/**
+ * 设置状态接口
+ */
+export interface SettingsState {
+  /** 用户设置 */
+  settings: UserSettings;
+  /** 加载状态 */
+  loading: boolean;
+  /** 错误信息 */
+  error: string | null;
+  /** 是否已初始化 */
+  initialized: boolean;
+  /** 加载完成前的修改，加载后在保存的设置上重新应用 */
+  pendingEdits: SettingsEdit[];
+}
+
+/**
+ * 可单独更新的设置分组
+ */
+export type SettingsSection = 'audio' | 'learning' | 'practice' | 'ui' | 'privacy' | 'notifications';
+
+/**
+ * 设置动作类型枚举
+ */
+export enum SettingsActionType {
+  SET_LOADING = 'SET_LOADING',
+  SET_ERROR = 'SET_ERROR',
+  SET_SETTINGS = 'SET_SETTINGS',
+  LOAD_SETTINGS = 'LOAD_SETTINGS',
+  UPDATE_SECTION = 'UPDATE_SECTION',
+  RESET_SETTINGS = 'RESET_SETTINGS',
+  INITIALIZE = 'INITIALIZE',
+}
+
+/**
+ * 设置动作接口
+ */
+export type SettingsAction =
+  | { type: SettingsActionType.SET_LOADING; payload: boolean }
+  | { type: SettingsActionType.SET_ERROR; payload: string | null }
+  | { type: SettingsActionType.SET_SETTINGS; payload: UserSettings }
+  | { type: SettingsActionType.LOAD_SETTINGS; payload: UserSettings }
+  | {
+      type: SettingsActionType.UPDATE_SECTION;
+      payload: { section: SettingsSection; values: Partial<UserSettings[SettingsSection]> };
+    }
+  | { type: SettingsActionType.RESET_SETTINGS }
+  | { type: SettingsActionType.INITIALIZE };
+
+/**
+ * 用户对设置的修改
+ */
+export type SettingsEdit = Extract<
+  SettingsAction,
+  { type: SettingsActionType.UPDATE_SECTION | SettingsActionType.RESET_SETTINGS }
+>;
+
+/**
+ * 初始状态
+ */
+const initialState: SettingsState = {
+  settings: DEFAULT_SETTINGS,
+  loading: false,
+  error: null,
+  initialized: false,
+  pendingEdits: [],
+};
+
+/**
+ * 在设置上应用一次修改
+ */
+const applyEdit = (settings: UserSettings, edit: SettingsEdit): UserSettings => {
+  if (edit.type === SettingsActionType.RESET_SETTINGS) {
+    return { ...DEFAULT_SETTINGS, lastUpdated: new Date() };
+  }
+
+  const { section, values } = edit.payload;
+  return {
+    ...settings,
+    [section]: { ...settings[section], ...values },
+    lastUpdated: new Date(),
+  };
+};
+
+/**
+ * 设置状态reducer
+ */
+export const settingsReducer = (state: SettingsState, action: SettingsAction): SettingsState => {
+  switch (action.type) {
+    case SettingsActionType.SET_LOADING:
+      return { ...state, loading: action.payload };
+
+    case SettingsActionType.SET_ERROR:
+      return { ...state, error: action.payload, loading: false };
+
+    case SettingsActionType.SET_SETTINGS:
+      return { ...state, settings: action.payload, error: null };
+
+    case SettingsActionType.LOAD_SETTINGS:
+      // 已经加载过时忽略，避免迟到的加载结果覆盖用户的修改
+      if (state.initialized) return state;
+      return {
+        ...state,
+        settings: state.pendingEdits.reduce(applyEdit, action.payload),
+        pendingEdits: [],
+        initialized: true,
+        loading: false,
+        error: null,
+      };
+
+    case SettingsActionType.UPDATE_SECTION:
+    case SettingsActionType.RESET_SETTINGS:
+      return {
+        ...state,
+        settings: applyEdit(state.settings, action),
+        pendingEdits: state.initialized ? state.pendingEdits : [...state.pendingEdits, action],
+        error: null,
+      };
+
+    case SettingsActionType.INITIALIZE:
+      return { ...state, initialized: true, loading: false };
+
+    default:
+      return state;
+  }
+};
+
+/**
+ * 设置上下文接口
+ */
+export interface SettingsContextType {
+  state: SettingsState;
+  dispatch: React.Dispatch<SettingsAction>;
+}
+
+/**
+ * 设置上下文
+ */
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+/**
+ * 设置提供者组件Props
+ */
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * 设置提供者组件
+ * 加载完成后设置的每次变化都保存到本地存储
+ */
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(settingsReducer, initialState);
+
+  useEffect(() => {
+    if (!state.initialized) return;
+
+    storageManager.saveUserSettings(state.settings).catch(error => {
+      console.error('Failed to save settings:', error);
+      dispatch({ type: SettingsActionType.SET_ERROR, payload: '保存设置失败' });
+    });
+  }, [state.initialized, state.settings]);
+
+  return (
+    <SettingsContext.Provider value={{ state, dispatch }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+/**
+ * 使用设置上下文的Hook
+ */
+export const useSettingsContext = (): SettingsContextType => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettingsContext must be used within a SettingsProvider');
+  }
+  return context;
+};
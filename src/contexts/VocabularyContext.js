@@ -1,6 +1,9 @@
 import { jsx as _jsx } from "react/jsx-runtime";
-import { createContext, useContext, useReducer } from 'react';
+import { createContext, useContext, useReducer, useEffect } from 'react';
 import { VocabularySortBy, SortDirection, } from '@/types';
+import { VocabularySearchIndex } from '@/services/vocabularySearch';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
+import { masteryService } from '@/services/masteryService';
 export var VocabularyActionType;
 (function (VocabularyActionType) {
     VocabularyActionType["SET_LOADING"] = "SET_LOADING";
@@ -35,16 +38,12 @@ const initialState = {
     error: null,
     initialized: false,
 };
-const filterVocabulary = (vocabulary, filter, favorites) => {
-    return vocabulary.filter(item => {
-        if (filter.keyword) {
-            const keyword = filter.keyword.toLowerCase();
-            const matchesKeyword = item.word.toLowerCase().includes(keyword) ||
-                item.definition.toLowerCase().includes(keyword) ||
-                item.tags.some(tag => tag.toLowerCase().includes(keyword));
-            if (!matchesKeyword)
-                return false;
-        }
+const searchIndex = new VocabularySearchIndex();
+export const filterVocabulary = (vocabulary, filter, favorites) => {
+    const candidates = filter.keyword?.trim()
+        ? searchIndex.sync(vocabulary).search(filter.keyword).map(result => result.item)
+        : vocabulary;
+    return candidates.filter(item => {
         if (filter.categories && filter.categories.length > 0) {
             if (!filter.categories.includes(item.category))
                 return false;
@@ -69,7 +68,7 @@ const filterVocabulary = (vocabulary, filter, favorites) => {
         return true;
     });
 };
-const sortVocabulary = (vocabulary, sortBy, direction) => {
+export const sortVocabulary = (vocabulary, sortBy, direction) => {
     const sorted = [...vocabulary].sort((a, b) => {
         let comparison = 0;
         switch (sortBy) {
@@ -86,6 +85,8 @@ const sortVocabulary = (vocabulary, sortBy, direction) => {
             case VocabularySortBy.STUDY_COUNT:
                 comparison = a.studyCount - b.studyCount;
                 break;
+            case VocabularySortBy.RELEVANCE:
+                break;
             case VocabularySortBy.CREATED_AT:
             default:
                 comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -97,9 +98,9 @@ const sortVocabulary = (vocabulary, sortBy, direction) => {
 };
 const calculateStats = (vocabulary) => {
     const total = vocabulary.length;
-    const mastered = vocabulary.filter(item => item.accuracy >= 0.8).length;
-    const learning = vocabulary.filter(item => item.accuracy > 0 && item.accuracy < 0.8).length;
-    const notStarted = vocabulary.filter(item => item.accuracy === 0).length;
+    const mastered = vocabulary.filter(item => getMasteryStatus(item) === 'mastered').length;
+    const learning = vocabulary.filter(item => getMasteryStatus(item) === 'learning').length;
+    const notStarted = vocabulary.filter(item => getMasteryStatus(item) === 'new').length;
     const byCategory = vocabulary.reduce((acc, item) => {
         acc[item.category] = (acc[item.category] || 0) + 1;
         return acc;
@@ -257,6 +258,9 @@ export const vocabularyReducer = (state, action) => {
 export const VocabularyContext = createContext(undefined);
 export const VocabularyProvider = ({ children }) => {
     const [state, dispatch] = useReducer(vocabularyReducer, initialState);
+    useEffect(() => masteryService.subscribe(({ items }) => {
+        items.forEach(item => dispatch({ type: VocabularyActionType.UPDATE_VOCABULARY, payload: item }));
+    }), []);
     return (_jsx(VocabularyContext.Provider, { value: { state, dispatch }, children: children }));
 };
 export const useVocabularyContext = () => {
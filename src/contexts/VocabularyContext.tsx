@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
 import {
   VocabularyItem,
   VocabularyStats,
@@ -8,6 +8,9 @@ import {
   Web3Category,
   DifficultyLevel,
 } from '@/types';
+import { VocabularySearchIndex } from '@/services/vocabularySearch';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
+import { masteryService } from '@/services/masteryService';
 
 /**
  * 词汇状态接口
@@ -102,21 +105,21 @@ const initialState: VocabularyState = {
   initialized: false,
 };
 
+/**
+ * 词汇搜索索引，每次过滤前与词汇列表同步，只重建有变化的词汇
+ */
+const searchIndex = new VocabularySearchIndex();
+
 /**
  * 过滤词汇列表
  */
-const filterVocabulary = (vocabulary: VocabularyItem[], filter: VocabularyFilter, favorites: string[]): VocabularyItem[] => {
-  return vocabulary.filter(item => {
-    // 关键词过滤
-    if (filter.keyword) {
-      const keyword = filter.keyword.toLowerCase();
-      const matchesKeyword = 
-        item.word.toLowerCase().includes(keyword) ||
-        item.definition.toLowerCase().includes(keyword) ||
-        item.tags.some(tag => tag.toLowerCase().includes(keyword));
-      if (!matchesKeyword) return false;
-    }
+export const filterVocabulary = (vocabulary: VocabularyItem[], filter: VocabularyFilter, favorites: string[]): VocabularyItem[] => {
+  // 关键词搜索，结果按相关度排序
+  const candidates = filter.keyword?.trim()
+    ? searchIndex.sync(vocabulary).search(filter.keyword).map(result => result.item)
+    : vocabulary;
 
+  return candidates.filter(item => {
     // 分类过滤
     if (filter.categories && filter.categories.length > 0) {
       if (!filter.categories.includes(item.category)) return false;
@@ -150,7 +153,7 @@ const filterVocabulary = (vocabulary: VocabularyItem[], filter: VocabularyFilter
 /**
  * 排序词汇列表
  */
-const sortVocabulary = (vocabulary: VocabularyItem[], sortBy: VocabularySortBy, direction: SortDirection): VocabularyItem[] => {
+export const sortVocabulary = (vocabulary: VocabularyItem[], sortBy: VocabularySortBy, direction: SortDirection): VocabularyItem[] => {
   const sorted = [...vocabulary].sort((a, b) => {
     let comparison = 0;
 
@@ -168,6 +171,9 @@ const sortVocabulary = (vocabulary: VocabularyItem[], sortBy: VocabularySortBy,
       case VocabularySortBy.STUDY_COUNT:
         comparison = a.studyCount - b.studyCount;
         break;
+      case VocabularySortBy.RELEVANCE:
+        // 过滤时已按相关度排好
+        break;
       case VocabularySortBy.CREATED_AT:
       default:
         comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -185,9 +191,9 @@ const sortVocabulary = (vocabulary: VocabularyItem[], sortBy: VocabularySortBy,
  */
 const calculateStats = (vocabulary: VocabularyItem[]): VocabularyStats => {
   const total = vocabulary.length;
-  const mastered = vocabulary.filter(item => item.accuracy >= 0.8).length;
-  const learning = vocabulary.filter(item => item.accuracy > 0 && item.accuracy < 0.8).length;
-  const notStarted = vocabulary.filter(item => item.accuracy === 0).length;
+  const mastered = vocabulary.filter(item => getMasteryStatus(item) === 'mastered').length;
+  const learning = vocabulary.filter(item => getMasteryStatus(item) === 'learning').length;
+  const notStarted = vocabulary.filter(item => getMasteryStatus(item) === 'new').length;
 
   const byCategory = vocabulary.reduce((acc, item) => {
     acc[item.category] = (acc[item.category] || 0) + 1;
@@ -436,6 +442,15 @@ interface VocabularyProviderProps {
 export const VocabularyProvider: React.FC<VocabularyProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(vocabularyReducer, initialState);
 
+  // 练习后掌握度服务直接更新存储中的词汇，同步到状态中，避免自动保存时用旧数据覆盖
+  useEffect(
+    () =>
+      masteryService.subscribe(({ items }) => {
+        items.forEach(item => dispatch({ type: VocabularyActionType.UPDATE_VOCABULARY, payload: item }));
+      }),
+    []
+  );
+
   return (
     <VocabularyContext.Provider value={{ state, dispatch }}>
       {children}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useToast } from '@chakra-ui/react';
 import { UpdateType, UpdateStatus } from '@/components/common/ContentUpdateNotification';
 import { storageManager } from '@/services/storageManager';
+import { StorageKey } from '@/services/storage';
 const DEFAULT_CONFIG = {
     checkInterval: 30 * 60 * 1000,
     autoCheck: true,
@@ -237,7 +238,7 @@ export const useContentUpdate = (config = {}) => {
             availableUpdates: prev.availableUpdates.filter(u => u.id !== updateId),
         }));
         try {
-            await storageManager.setItem('ignored_updates', newIgnoredUpdates);
+            await storageManager.setItem(StorageKey.IGNORED_UPDATES, newIgnoredUpdates);
         }
         catch (error) {
             console.error('Failed to save ignored updates:', error);
@@ -278,7 +279,7 @@ export const useContentUpdate = (config = {}) => {
     useEffect(() => {
         const loadIgnoredUpdates = async () => {
             try {
-                const ignored = await storageManager.getItem('ignored_updates', []);
+                const ignored = await storageManager.getItem(StorageKey.IGNORED_UPDATES, []);
                 setState(prev => ({ ...prev, ignoredUpdates: ignored }));
             }
             catch (error) {
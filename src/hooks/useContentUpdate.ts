@@ -7,6 +7,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useToast } from '@chakra-ui/react';
 import { UpdateInfo, UpdateType, UpdateStatus } from '@/components/common/ContentUpdateNotification';
 import { storageManager } from '@/services/storageManager';
+import { StorageKey } from '@/services/storage';
 
 /**
  * 内容更新配置
@@ -356,7 +357,7 @@ export const useContentUpdate = (config: Partial<ContentUpdateConfig> = {}) => {
 
     // 保存到本地存储
     try {
-      await storageManager.setItem('ignored_updates', newIgnoredUpdates);
+      await storageManager.setItem(StorageKey.IGNORED_UPDATES, newIgnoredUpdates);
     } catch (error) {
       console.error('Failed to save ignored updates:', error);
     }
@@ -426,7 +427,7 @@ export const useContentUpdate = (config: Partial<ContentUpdateConfig> = {}) => {
     // 加载忽略的更新列表
     const loadIgnoredUpdates = async () => {
       try {
-        const ignored = await storageManager.getItem('ignored_updates', []);
+        const ignored = await storageManager.getItem<string[]>(StorageKey.IGNORED_UPDATES, []);
         setState(prev => ({ ...prev, ignoredUpdates: ignored }));
       } catch (error) {
         console.error('Failed to load ignored updates:', error);
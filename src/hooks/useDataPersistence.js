@@ -1,5 +1,19 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { storageManager } from '@/services/storageManager';
+import { StorageKey } from '@/services/storage';
+import { DEFAULT_SETTINGS } from '@/types';
+const savePendingChange = async (key, data) => {
+    switch (key) {
+        case 'vocabularyList':
+            await storageManager.saveVocabularyList(data);
+            break;
+        case 'userSettings':
+            await storageManager.saveUserSettings(data);
+            break;
+        default:
+            await storageManager.setItem(key, data);
+    }
+};
 export const useDataPersistence = (config = {
     enabled: true,
     interval: 30000,
@@ -52,23 +66,6 @@ export const useDataPersistence = (config = {
             throw error;
         }
     }, []);
-    const saveUserProgress = useCallback(async (progress) => {
-        try {
-            setState(prev => ({ ...prev, isSaving: true }));
-            await storageManager.setItem('user_progress', progress);
-            setState(prev => ({
-                ...prev,
-                isSaving: false,
-                lastSaveTime: new Date(),
-            }));
-            updateStorageUsage();
-        }
-        catch (error) {
-            setState(prev => ({ ...prev, isSaving: false }));
-            console.error('Failed to save user progress:', error);
-            throw error;
-        }
-    }, [updateStorageUsage]);
     const getUserProgress = useCallback(async () => {
         try {
             setState(prev => ({ ...prev, isLoading: true }));
@@ -143,6 +140,9 @@ export const useDataPersistence = (config = {
         }
     }, []);
     const debouncedSave = useCallback((key, data) => {
+        if (key === 'userProgress' || key === StorageKey.USER_PROGRESS) {
+            throw new Error('User progress is saved by ProgressProvider');
+        }
         pendingChangesRef.current.set(key, data);
         setState(prev => ({ ...prev, hasUnsavedChanges: true }));
         if (saveTimeoutRef.current) {
@@ -152,19 +152,7 @@ export const useDataPersistence = (config = {
             try {
                 setState(prev => ({ ...prev, isSaving: true }));
                 for (const [saveKey, saveData] of pendingChangesRef.current.entries()) {
-                    switch (saveKey) {
-                        case 'userProgress':
-                            await storageManager.setItem('user_progress', saveData);
-                            break;
-                        case 'vocabularyList':
-                            await storageManager.saveVocabularyList(saveData);
-                            break;
-                        case 'userSettings':
-                            await storageManager.saveUserSettings(saveData);
-                            break;
-                        default:
-                            await storageManager.setItem(saveKey, saveData);
-                    }
+                    await savePendingChange(saveKey, saveData);
                 }
                 pendingChangesRef.current.clear();
                 setState(prev => ({
@@ -268,7 +256,7 @@ export const useDataPersistence = (config = {
             try {
                 setState(prev => ({ ...prev, isSaving: true }));
                 for (const [key, data] of pendingChangesRef.current.entries()) {
-                    await storageManager.setItem(key, data);
+                    await savePendingChange(key, data);
                 }
                 pendingChangesRef.current.clear();
                 setState(prev => ({
@@ -329,7 +317,6 @@ export const useDataPersistence = (config = {
         ...state,
         saveLearningData,
         getLearningData,
-        saveUserProgress,
         getUserProgress,
         saveVocabularyList,
         getVocabularyList,
@@ -381,3 +368,43 @@ export const useAppStateRestore = () => {
         restoredData,
     };
 };
+export const usePracticeSessionRestore = () => {
+    const [isChecking, setIsChecking] = useState(true);
+    const [pendingCheckpoint, setPendingCheckpoint] = useState(null);
+    useEffect(() => {
+        const checkPendingSession = async () => {
+            try {
+                const userSettings = await storageManager.getUserSettings();
+                const timeout = userSettings.practice?.sessionTimeout ?? DEFAULT_SETTINGS.practice.sessionTimeout;
+                setPendingCheckpoint(await storageManager.getResumableSession(timeout));
+            }
+            catch (error) {
+                console.error('Failed to check pending practice session:', error);
+            }
+            finally {
+                setIsChecking(false);
+            }
+        };
+        checkPendingSession();
+    }, []);
+    const abandonSession = useCallback(async () => {
+        try {
+            await storageManager.abandonSessionCheckpoint();
+        }
+        catch (error) {
+            console.error('Failed to abandon practice session:', error);
+        }
+        finally {
+            setPendingCheckpoint(null);
+        }
+    }, []);
+    const dismiss = useCallback(() => {
+        setPendingCheckpoint(null);
+    }, []);
+    return {
+        isChecking,
+        pendingCheckpoint,
+        abandonSession,
+        dismiss,
+    };
+};
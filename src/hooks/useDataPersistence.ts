@@ -4,8 +4,9 @@
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { storageManager, LearningData, BackupData } from '@/services/storageManager';
-import { VocabularyItem, UserProgress, UserSettings } from '@/types';
+import { storageManager, LearningData, BackupData, PracticeCheckpoint } from '@/services/storageManager';
+import { StorageKey } from '@/services/storage';
+import { VocabularyItem, UserProgress, UserSettings, DEFAULT_SETTINGS } from '@/types';
 
 /**
  * 数据持久化状态
@@ -33,6 +34,22 @@ interface AutoSaveConfig {
   debounceDelay: number; // 毫秒
 }
 
+/**
+ * 保存一项待保存的数据，常用数据走对应的保存方法，其余按存储键直接写入
+ */
+const savePendingChange = async (key: string, data: any): Promise<void> => {
+  switch (key) {
+    case 'vocabularyList':
+      await storageManager.saveVocabularyList(data);
+      break;
+    case 'userSettings':
+      await storageManager.saveUserSettings(data);
+      break;
+    default:
+      await storageManager.setItem(key as StorageKey, data);
+  }
+};
+
 /**
  * 数据持久化Hook
  */
@@ -106,26 +123,6 @@ export const useDataPersistence = (config: AutoSaveConfig = {
     }
   }, []);
 
-  /**
-   * 保存用户进度
-   */
-  const saveUserProgress = useCallback(async (progress: UserProgress): Promise<void> => {
-    try {
-      setState(prev => ({ ...prev, isSaving: true }));
-      await storageManager.setItem('user_progress', progress);
-      setState(prev => ({ 
-        ...prev, 
-        isSaving: false,
-        lastSaveTime: new Date(),
-      }));
-      updateStorageUsage();
-    } catch (error) {
-      setState(prev => ({ ...prev, isSaving: false }));
-      console.error('Failed to save user progress:', error);
-      throw error;
-    }
-  }, [updateStorageUsage]);
-
   /**
    * 获取用户进度
    */
@@ -218,6 +215,10 @@ export const useDataPersistence = (config: AutoSaveConfig = {
    * 防抖保存
    */
   const debouncedSave = useCallback((key: string, data: any) => {
+    // 用户进度只由进度上下文保存，避免与自动保存互相覆盖
+    if (key === 'userProgress' || key === StorageKey.USER_PROGRESS) {
+      throw new Error('User progress is saved by ProgressProvider');
+    }
     pendingChangesRef.current.set(key, data);
     setState(prev => ({ ...prev, hasUnsavedChanges: true }));
 
@@ -231,19 +232,7 @@ export const useDataPersistence = (config: AutoSaveConfig = {
         
         // 批量保存所有待保存的数据
         for (const [saveKey, saveData] of pendingChangesRef.current.entries()) {
-          switch (saveKey) {
-            case 'userProgress':
-              await storageManager.setItem('user_progress', saveData);
-              break;
-            case 'vocabularyList':
-              await storageManager.saveVocabularyList(saveData);
-              break;
-            case 'userSettings':
-              await storageManager.saveUserSettings(saveData);
-              break;
-            default:
-              await storageManager.setItem(saveKey, saveData);
-          }
+          await savePendingChange(saveKey, saveData);
         }
 
         pendingChangesRef.current.clear();
@@ -369,7 +358,7 @@ export const useDataPersistence = (config: AutoSaveConfig = {
         setState(prev => ({ ...prev, isSaving: true }));
         
         for (const [key, data] of pendingChangesRef.current.entries()) {
-          await storageManager.setItem(key, data);
+          await savePendingChange(key, data);
         }
 
         pendingChangesRef.current.clear();
@@ -456,7 +445,6 @@ export const useDataPersistence = (config: AutoSaveConfig = {
     getLearningData,
     
     // 用户进度方法
-    saveUserProgress,
     getUserProgress,
     
     // 词汇列表方法
@@ -531,4 +519,56 @@ export const useAppStateRestore = () => {
     isRestoring,
     restoredData,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * 练习会话恢复Hook
+ * 在应用启动时查找未完成的练习，超过保留时间的练习会被自动标记为已放弃
+ */
+export const usePracticeSessionRestore = () => {
+  const [isChecking, setIsChecking] = useState(true);
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<PracticeCheckpoint | null>(null);
+
+  useEffect(() => {
+    const checkPendingSession = async () => {
+      try {
+        const userSettings = await storageManager.getUserSettings();
+        const timeout = userSettings.practice?.sessionTimeout ?? DEFAULT_SETTINGS.practice.sessionTimeout;
+        setPendingCheckpoint(await storageManager.getResumableSession(timeout));
+      } catch (error) {
+        console.error('Failed to check pending practice session:', error);
+      } finally {
+        setIsChecking(false);
+      }
+    };
+
+    checkPendingSession();
+  }, []);
+
+  /**
+   * 放弃未完成的练习
+   */
+  const abandonSession = useCallback(async (): Promise<void> => {
+    try {
+      await storageManager.abandonSessionCheckpoint();
+    } catch (error) {
+      console.error('Failed to abandon practice session:', error);
+    } finally {
+      setPendingCheckpoint(null);
+    }
+  }, []);
+
+  /**
+   * 关闭提示但保留检查点（继续练习时使用）
+   */
+  const dismiss = useCallback(() => {
+    setPendingCheckpoint(null);
+  }, []);
+
+  return {
+    isChecking,
+    pendingCheckpoint,
+    abandonSession,
+    dismiss,
+  };
+};
@@ -1,6 +1,7 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useContext } from 'react';
 import { useToast } from '@chakra-ui/react';
 import { audioManager, fallbackTTS, audioErrorHandler } from '@/services/audioManager';
+import { SettingsContext } from '@/contexts/SettingsContext';
 
 /**
  * 增强音频播放状态
@@ -33,7 +34,7 @@ interface UseEnhancedAudioConfig {
   mode?: AudioPlayMode;
   /** 音量 (0-1) */
   volume?: number;
-  /** 播放速度 */
+  /** 播放速度，未指定时使用用户设置中的播放速度 */
   playbackRate?: number;
   /** 是否预加载 */
   preload?: boolean;
@@ -103,7 +104,7 @@ export const useEnhancedAudio = (
   const {
     mode = AudioPlayMode.WEB_AUDIO,
     volume = 0.8,
-    playbackRate = 1.0,
+    playbackRate,
     preload = true,
     enableCache = true,
     enableFallback = true,
@@ -120,7 +121,9 @@ export const useEnhancedAudio = (
   const [state, setState] = useState<EnhancedAudioState>(EnhancedAudioState.IDLE);
   const [currentMode, setCurrentMode] = useState<AudioPlayMode>(mode);
   const [currentVolume, setCurrentVolume] = useState(volume);
-  const [currentPlaybackRate, setCurrentPlaybackRate] = useState(playbackRate);
+  // 在设置提供者之外使用时没有用户设置，退回到 1 倍速
+  const settingsPlaybackRate = useContext(SettingsContext)?.state.settings.audio.playbackSpeed ?? 1.0;
+  const [currentPlaybackRate, setCurrentPlaybackRate] = useState(playbackRate ?? settingsPlaybackRate);
 
   // 检查浏览器支持
   const isWebAudioSupported = useCallback(() => {
@@ -444,6 +447,15 @@ export const useEnhancedAudio = (
     }
   }, []);
 
+  /**
+   * 用户设置中的播放速度变化时立即生效
+   */
+  useEffect(() => {
+    if (playbackRate === undefined) {
+      setPlaybackRate(settingsPlaybackRate);
+    }
+  }, [playbackRate, settingsPlaybackRate, setPlaybackRate]);
+
   /**
    * 预加载音频
    */
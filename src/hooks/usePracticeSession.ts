@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  PracticeSession,
+  PracticeResult,
+  UserAnswer,
+  VocabularyItem,
+  VocabularyDeck,
+} from '@/types';
+import { useProgress } from '@/hooks/useProgress';
+import { useSettings } from '@/hooks/useSettings';
+import { vocabularyService } from '@/services/vocabularyService';
+import { storageManager, PracticeResultRecord } from '@/services/storageManager';
+import { practiceService, buildPracticeConfig, PracticeMode } from '@/services/practiceService';
+import { deckService, resolveDeckVocabulary } from '@/services/deckService';
+import { analyzePracticeSession } from '@/services/practiceAnalytics';
+
+/**
+ * 练习页面阶段
+ */
+export type PracticeStage = 'loading' | 'ready' | 'practicing' | 'finished';
+
+/**
+ * 进入练习页时通过路由传递的状态
+ */
+export interface PracticeResumeState {
+  /** 继续未完成的练习 */
+  resumeSessionId?: string;
+  /** 默认选中的卡组 */
+  deckId?: string;
+}
+
+/**
+ * 练习会话Hook
+ * 负责加载词汇、按练习设置创建会话，并在完成后分析和保存练习结果、更新学习进度
+ * 答题过程中每答完一题保存一次检查点，传入 resumeSessionId 时从检查点继续练习
+ * 选择卡组后只从卡组中出题
+ */
+export const usePracticeSession = (
+  mode: Extract<PracticeMode, 'quick' | 'timed'>,
+  resumeSessionId?: string,
+  initialDeckId?: string
+) => {
+  const { initialized, initializeProgress, recordPracticeSession, addPoints } = useProgress();
+  const { settings: userSettings } = useSettings();
+  // 练习设置来自设置上下文，在设置页修改后立即生效
+  const settings = userSettings.practice;
+
+  const [stage, setStage] = useState<PracticeStage>('loading');
+  const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
+  const [decks, setDecks] = useState<VocabularyDeck[]>([]);
+  const [deckId, setDeckId] = useState<string | null>(initialDeckId ?? null);
+  const [session, setSession] = useState<PracticeSession | null>(null);
+  const [record, setRecord] = useState<PracticeResultRecord | null>(null);
+  const [result, setResult] = useState<PracticeResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 初始化进度数据
+   */
+  useEffect(() => {
+    if (!initialized) {
+      initializeProgress();
+    }
+  }, [initialized, initializeProgress]);
+
+  /**
+   * 加载词汇，需要继续练习时读取检查点
+   */
+  const loadPracticeData = useCallback(async () => {
+    setStage('loading');
+    try {
+      const [allVocabulary, allDecks] = await Promise.all([
+        vocabularyService.getAllVocabulary(),
+        deckService.getAllDecks(),
+      ]);
+      setVocabulary(allVocabulary);
+      setDecks(allDecks);
+
+      if (resumeSessionId) {
+        const checkpoint = await storageManager.getSessionCheckpoint();
+        const resumable = checkpoint &&
+          checkpoint.session.id === resumeSessionId &&
+          checkpoint.session.mode === mode &&
+          checkpoint.session.status === 'in_progress';
+
+        if (resumable) {
+          setSession(checkpoint.session);
+          setStage('practicing');
+          return;
+        }
+      }
+      setStage('ready');
+    } catch (error) {
+      console.error('Failed to load practice data:', error);
+      setError('加载练习数据失败');
+      setStage('ready');
+    }
+  }, [mode, resumeSessionId]);
+
+  useEffect(() => {
+    loadPracticeData();
+  }, [loadPracticeData]);
+
+  const deck = useMemo(() => decks.find(item => item.id === deckId) ?? null, [decks, deckId]);
+
+  /**
+   * 当前选择的出题范围和对应的练习配置
+   */
+  const sourceVocabulary = useMemo(
+    () => (deck ? resolveDeckVocabulary(deck, vocabulary) : vocabulary),
+    [deck, vocabulary]
+  );
+  const config = useMemo(() => buildPracticeConfig(mode, settings, deck ?? undefined), [mode, settings, deck]);
+
+  /**
+   * 开始练习，词汇不足时返回 false
+   */
+  const startPractice = useCallback((): boolean => {
+    const practiceSession = practiceService.buildPracticeSession(mode, vocabulary, settings, {}, deck ?? undefined);
+    if (!practiceSession) {
+      return false;
+    }
+
+    setSession(practiceSession);
+    storageManager.saveSessionCheckpoint(practiceSession, []).catch(error => {
+      console.error('Failed to save practice checkpoint:', error);
+    });
+    setRecord(null);
+    setResult(null);
+    setError(null);
+    setStage('practicing');
+    return true;
+  }, [mode, vocabulary, settings, deck]);
+
+  /**
+   * 保存答题进度
+   */
+  const checkpointPractice = useCallback((answers: UserAnswer[]) => {
+    if (!session) return;
+
+    storageManager.saveSessionCheckpoint(session, answers).catch(error => {
+      console.error('Failed to save practice checkpoint:', error);
+    });
+  }, [session]);
+
+  /**
+   * 中途退出，把练习标记为已放弃
+   */
+  const abandonPractice = useCallback(async () => {
+    try {
+      await storageManager.abandonSessionCheckpoint();
+    } catch (error) {
+      console.error('Failed to abandon practice:', error);
+    }
+  }, []);
+
+  /**
+   * 完成练习，保存结果并更新学习进度
+   */
+  const completePractice = useCallback(async (answers: UserAnswer[]) => {
+    if (!session) return;
+
+    const completedSession = practiceService.completeSession(session, answers);
+    // 限时模式下未答完所有题目说明总时间已用完
+    const timedOut = completedSession.config.timedMode && answers.length < completedSession.questions.length;
+
+    const analysis = analyzePracticeSession(completedSession);
+
+    setSession(completedSession);
+    setResult(analysis);
+    setStage('finished');
+
+    try {
+      await storageManager.clearSessionCheckpoint();
+      setRecord(await practiceService.savePracticeResult(completedSession, { timedOut }));
+
+      const wordResults = await practiceService.recordSessionResults(completedSession);
+      recordPracticeSession(completedSession.startTime, wordResults, analysis.reviewSuggestions);
+      if (completedSession.totalScore > 0) {
+        addPoints(completedSession.totalScore);
+      }
+    } catch (error) {
+      console.error('Failed to save practice result:', error);
+      setError('练习结果保存失败');
+    }
+  }, [session, recordPracticeSession, addPoints]);
+
+  /**
+   * 恢复的会话在重新加载前已答完所有题目时直接结算
+   */
+  useEffect(() => {
+    if (stage === 'practicing' && session && session.questions.length > 0 &&
+        session.answers.length >= session.questions.length) {
+      completePractice(session.answers);
+    }
+  }, [stage, session, completePractice]);
+
+  /**
+   * 返回准备阶段，重新开始
+   */
+  const resetPractice = useCallback(() => {
+    setSession(null);
+    setRecord(null);
+    setResult(null);
+    setStage('ready');
+  }, []);
+
+  return {
+    stage,
+    vocabulary,
+    sourceVocabulary,
+    settings,
+    config,
+    decks,
+    deck,
+    selectDeck: setDeckId,
+    session,
+    record,
+    result,
+    error,
+    startPractice,
+    checkpointPractice,
+    abandonPractice,
+    completePractice,
+    resetPractice,
+  };
+};
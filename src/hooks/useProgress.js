@@ -1,7 +1,7 @@
 import { useCallback, useEffect } from 'react';
 import { useProgressContext, ProgressActionType, } from '@/contexts/ProgressContext';
-import { AchievementType, AchievementStatus, } from '@/types';
 import { storageService, StorageKey } from '@/services/storage';
+import { createAchievements, mergeAchievements } from '@/services/achievementRules';
 export const useProgress = () => {
     const { state, dispatch } = useProgressContext();
     const initializeProgress = useCallback(async () => {
@@ -10,7 +10,10 @@ export const useProgress = () => {
             const savedProgress = storageService.getItem(StorageKey.USER_PROGRESS);
             const savedGoals = storageService.getItem(StorageKey.LEARNING_GOALS);
             if (savedProgress) {
-                dispatch({ type: ProgressActionType.SET_USER_PROGRESS, payload: savedProgress });
+                dispatch({
+                    type: ProgressActionType.SET_USER_PROGRESS,
+                    payload: { ...savedProgress, achievements: mergeAchievements(savedProgress.achievements ?? []) },
+                });
             }
             else {
                 const defaultProgress = createDefaultUserProgress();
@@ -37,7 +40,7 @@ export const useProgress = () => {
             masteredWords: [],
             weakWords: [],
             favoriteWords: [],
-            achievements: createDefaultAchievements(),
+            achievements: createAchievements(),
             totalPoints: 0,
             level: 1,
             currentLevelExp: 0,
@@ -47,98 +50,6 @@ export const useProgress = () => {
             updatedAt: now,
         };
     }, []);
-    const createDefaultAchievements = useCallback(() => {
-        return [
-            {
-                id: 'first_word',
-                name: '初学者',
-                description: '学习第一个单词',
-                icon: '🌱',
-                type: AchievementType.WORDS_MASTERED,
-                progress: 0,
-                target: 1,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 10,
-            },
-            {
-                id: 'ten_words',
-                name: '词汇新手',
-                description: '掌握10个单词',
-                icon: '📚',
-                type: AchievementType.WORDS_MASTERED,
-                progress: 0,
-                target: 10,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 50,
-            },
-            {
-                id: 'fifty_words',
-                name: '词汇达人',
-                description: '掌握50个单词',
-                icon: '🎓',
-                type: AchievementType.WORDS_MASTERED,
-                progress: 0,
-                target: 50,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 200,
-            },
-            {
-                id: 'hundred_words',
-                name: '词汇专家',
-                description: '掌握100个单词',
-                icon: '🏆',
-                type: AchievementType.WORDS_MASTERED,
-                progress: 0,
-                target: 100,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 500,
-            },
-            {
-                id: 'seven_day_streak',
-                name: '坚持不懈',
-                description: '连续学习7天',
-                icon: '🔥',
-                type: AchievementType.STUDY_STREAK,
-                progress: 0,
-                target: 7,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 100,
-            },
-            {
-                id: 'thirty_day_streak',
-                name: '学习达人',
-                description: '连续学习30天',
-                icon: '⭐',
-                type: AchievementType.STUDY_STREAK,
-                progress: 0,
-                target: 30,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 1000,
-            },
-            {
-                id: 'high_accuracy',
-                name: '精准射手',
-                description: '练习正确率达到90%',
-                icon: '🎯',
-                type: AchievementType.ACCURACY_RATE,
-                progress: 0,
-                target: 90,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 300,
-            },
-            {
-                id: 'study_time_10h',
-                name: '时间管理者',
-                description: '累计学习10小时',
-                icon: '⏰',
-                type: AchievementType.STUDY_TIME,
-                progress: 0,
-                target: 600,
-                status: AchievementStatus.LOCKED,
-                rewardPoints: 400,
-            },
-        ];
-    }, []);
     const saveProgressData = useCallback(() => {
         try {
             if (state.userProgress) {
@@ -178,6 +89,26 @@ export const useProgress = () => {
             practiceSessions: state.currentSession?.sessionType === 'practice' ? 1 : 0,
         });
     }, [dispatch, state.currentSession, updateDailyStats]);
+    const recordPracticeSession = useCallback((startTime, results, reviewWordIds = []) => {
+        const endTime = new Date();
+        const wordsStudied = Array.from(new Set(results.map(result => result.wordId)));
+        dispatch({
+            type: ProgressActionType.RECORD_PRACTICE_SESSION,
+            payload: {
+                session: {
+                    id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                    startTime,
+                    endTime,
+                    wordsStudied,
+                    sessionType: 'practice',
+                    duration: Math.floor((endTime.getTime() - startTime.getTime()) / 1000),
+                },
+                correctWordIds: results.filter(result => result.isCorrect).map(result => result.wordId),
+                wrongWordIds: results.filter(result => !result.isCorrect).map(result => result.wordId),
+                reviewWordIds,
+            },
+        });
+    }, [dispatch]);
     const updateStreak = useCallback(() => {
         if (!state.userProgress)
             return;
@@ -200,9 +131,7 @@ export const useProgress = () => {
     }, [state.userProgress, dispatch]);
     const addMasteredWord = useCallback((wordId) => {
         dispatch({ type: ProgressActionType.ADD_MASTERED_WORD, payload: wordId });
-        updateDailyStats({ newMasteredWords: 1 });
-        checkWordMasteryAchievements();
-    }, [dispatch, updateDailyStats]);
+    }, [dispatch]);
     const removeMasteredWord = useCallback((wordId) => {
         dispatch({ type: ProgressActionType.REMOVE_MASTERED_WORD, payload: wordId });
     }, [dispatch]);
@@ -224,34 +153,6 @@ export const useProgress = () => {
     const addPoints = useCallback((points) => {
         dispatch({ type: ProgressActionType.ADD_POINTS, payload: points });
     }, [dispatch]);
-    const checkWordMasteryAchievements = useCallback(() => {
-        if (!state.userProgress)
-            return;
-        const masteredCount = state.userProgress.masteredWords.length;
-        const wordAchievements = state.userProgress.achievements.filter(a => a.type === AchievementType.WORDS_MASTERED);
-        wordAchievements.forEach(achievement => {
-            if (achievement.status === AchievementStatus.LOCKED && masteredCount >= achievement.target) {
-                unlockAchievement(achievement.id);
-            }
-            else if (achievement.status !== AchievementStatus.UNLOCKED) {
-                updateAchievementProgress(achievement.id, masteredCount);
-            }
-        });
-    }, [state.userProgress, unlockAchievement, updateAchievementProgress]);
-    const checkStreakAchievements = useCallback(() => {
-        if (!state.userProgress)
-            return;
-        const streakDays = state.userProgress.streakDays;
-        const streakAchievements = state.userProgress.achievements.filter(a => a.type === AchievementType.STUDY_STREAK);
-        streakAchievements.forEach(achievement => {
-            if (achievement.status === AchievementStatus.LOCKED && streakDays >= achievement.target) {
-                unlockAchievement(achievement.id);
-            }
-            else if (achievement.status !== AchievementStatus.UNLOCKED) {
-                updateAchievementProgress(achievement.id, streakDays);
-            }
-        });
-    }, [state.userProgress, unlockAchievement, updateAchievementProgress]);
     const addLearningGoal = useCallback((goal) => {
         const newGoal = {
             ...goal,
@@ -299,12 +200,6 @@ export const useProgress = () => {
             saveProgressData();
         }
     }, [state.userProgress, state.goals, state.initialized, saveProgressData]);
-    useEffect(() => {
-        if (state.userProgress) {
-            checkWordMasteryAchievements();
-            checkStreakAchievements();
-        }
-    }, [state.userProgress?.masteredWords.length, state.userProgress?.streakDays]);
     return {
         userProgress: state.userProgress,
         summary: state.summary,
@@ -317,6 +212,7 @@ export const useProgress = () => {
         updateDailyStats,
         startStudySession,
         endStudySession,
+        recordPracticeSession,
         updateStreak,
         addMasteredWord,
         removeMasteredWord,
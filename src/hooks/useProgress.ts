@@ -6,13 +6,11 @@ import {
 import {
   UserProgress,
   DailyStats,
-  Achievement,
   StudySession,
   LearningGoal,
-  AchievementType,
-  AchievementStatus,
 } from '@/types';
 import { storageService, StorageKey } from '@/services/storage';
+import { createAchievements, mergeAchievements } from '@/services/achievementRules';
 
 /**
  * 进度管理Hook
@@ -32,7 +30,11 @@ export const useProgress = () => {
       const savedGoals = storageService.getItem<LearningGoal[]>(StorageKey.LEARNING_GOALS);
 
       if (savedProgress) {
-        dispatch({ type: ProgressActionType.SET_USER_PROGRESS, payload: savedProgress });
+        // 按当前的成就定义补齐成就列表，解锁状态由进度上下文根据历史补发
+        dispatch({
+          type: ProgressActionType.SET_USER_PROGRESS,
+          payload: { ...savedProgress, achievements: mergeAchievements(savedProgress.achievements ?? []) },
+        });
       } else {
         // 创建默认用户进度
         const defaultProgress = createDefaultUserProgress();
@@ -64,7 +66,7 @@ export const useProgress = () => {
       masteredWords: [],
       weakWords: [],
       favoriteWords: [],
-      achievements: createDefaultAchievements(),
+      achievements: createAchievements(),
       totalPoints: 0,
       level: 1,
       currentLevelExp: 0,
@@ -75,102 +77,6 @@ export const useProgress = () => {
     };
   }, []);
 
-  /**
-   * 创建默认成就列表
-   */
-  const createDefaultAchievements = useCallback((): Achievement[] => {
-    return [
-      {
-        id: 'first_word',
-        name: '初学者',
-        description: '学习第一个单词',
-        icon: '🌱',
-        type: AchievementType.WORDS_MASTERED,
-        progress: 0,
-        target: 1,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 10,
-      },
-      {
-        id: 'ten_words',
-        name: '词汇新手',
-        description: '掌握10个单词',
-        icon: '📚',
-        type: AchievementType.WORDS_MASTERED,
-        progress: 0,
-        target: 10,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 50,
-      },
-      {
-        id: 'fifty_words',
-        name: '词汇达人',
-        description: '掌握50个单词',
-        icon: '🎓',
-        type: AchievementType.WORDS_MASTERED,
-        progress: 0,
-        target: 50,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 200,
-      },
-      {
-        id: 'hundred_words',
-        name: '词汇专家',
-        description: '掌握100个单词',
-        icon: '🏆',
-        type: AchievementType.WORDS_MASTERED,
-        progress: 0,
-        target: 100,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 500,
-      },
-      {
-        id: 'seven_day_streak',
-        name: '坚持不懈',
-        description: '连续学习7天',
-        icon: '🔥',
-        type: AchievementType.STUDY_STREAK,
-        progress: 0,
-        target: 7,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 100,
-      },
-      {
-        id: 'thirty_day_streak',
-        name: '学习达人',
-        description: '连续学习30天',
-        icon: '⭐',
-        type: AchievementType.STUDY_STREAK,
-        progress: 0,
-        target: 30,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 1000,
-      },
-      {
-        id: 'high_accuracy',
-        name: '精准射手',
-        description: '练习正确率达到90%',
-        icon: '🎯',
-        type: AchievementType.ACCURACY_RATE,
-        progress: 0,
-        target: 90,
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 300,
-      },
-      {
-        id: 'study_time_10h',
-        name: '时间管理者',
-        description: '累计学习10小时',
-        icon: '⏰',
-        type: AchievementType.STUDY_TIME,
-        progress: 0,
-        target: 600, // 10小时 = 600分钟
-        status: AchievementStatus.LOCKED,
-        rewardPoints: 400,
-      },
-    ];
-  }, []);
-
   /**
    * 保存进度数据到本地存储
    */
@@ -229,6 +135,35 @@ export const useProgress = () => {
     });
   }, [dispatch, state.currentSession, updateDailyStats]);
 
+  /**
+   * 记录练习会话结果
+   */
+  const recordPracticeSession = useCallback((
+    startTime: Date,
+    results: { wordId: string; isCorrect: boolean }[],
+    reviewWordIds: string[] = []
+  ) => {
+    const endTime = new Date();
+    const wordsStudied = Array.from(new Set(results.map(result => result.wordId)));
+
+    dispatch({
+      type: ProgressActionType.RECORD_PRACTICE_SESSION,
+      payload: {
+        session: {
+          id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          startTime,
+          endTime,
+          wordsStudied,
+          sessionType: 'practice',
+          duration: Math.floor((endTime.getTime() - startTime.getTime()) / 1000),
+        },
+        correctWordIds: results.filter(result => result.isCorrect).map(result => result.wordId),
+        wrongWordIds: results.filter(result => !result.isCorrect).map(result => result.wordId),
+        reviewWordIds,
+      },
+    });
+  }, [dispatch]);
+
   /**
    * 更新连续学习天数
    */
@@ -264,13 +199,7 @@ export const useProgress = () => {
    */
   const addMasteredWord = useCallback((wordId: string) => {
     dispatch({ type: ProgressActionType.ADD_MASTERED_WORD, payload: wordId });
-    
-    // 更新每日统计
-    updateDailyStats({ newMasteredWords: 1 });
-    
-    // 检查相关成就
-    checkWordMasteryAchievements();
-  }, [dispatch, updateDailyStats]);
+  }, [dispatch]);
 
   /**
    * 移除掌握的单词
@@ -317,46 +246,6 @@ export const useProgress = () => {
     dispatch({ type: ProgressActionType.ADD_POINTS, payload: points });
   }, [dispatch]);
 
-  /**
-   * 检查单词掌握相关成就
-   */
-  const checkWordMasteryAchievements = useCallback(() => {
-    if (!state.userProgress) return;
-
-    const masteredCount = state.userProgress.masteredWords.length;
-    const wordAchievements = state.userProgress.achievements.filter(
-      a => a.type === AchievementType.WORDS_MASTERED
-    );
-
-    wordAchievements.forEach(achievement => {
-      if (achievement.status === AchievementStatus.LOCKED && masteredCount >= achievement.target) {
-        unlockAchievement(achievement.id);
-      } else if (achievement.status !== AchievementStatus.UNLOCKED) {
-        updateAchievementProgress(achievement.id, masteredCount);
-      }
-    });
-  }, [state.userProgress, unlockAchievement, updateAchievementProgress]);
-
-  /**
-   * 检查连续学习相关成就
-   */
-  const checkStreakAchievements = useCallback(() => {
-    if (!state.userProgress) return;
-
-    const streakDays = state.userProgress.streakDays;
-    const streakAchievements = state.userProgress.achievements.filter(
-      a => a.type === AchievementType.STUDY_STREAK
-    );
-
-    streakAchievements.forEach(achievement => {
-      if (achievement.status === AchievementStatus.LOCKED && streakDays >= achievement.target) {
-        unlockAchievement(achievement.id);
-      } else if (achievement.status !== AchievementStatus.UNLOCKED) {
-        updateAchievementProgress(achievement.id, streakDays);
-      }
-    });
-  }, [state.userProgress, unlockAchievement, updateAchievementProgress]);
-
   /**
    * 添加学习目标
    */
@@ -442,14 +331,6 @@ export const useProgress = () => {
     }
   }, [state.userProgress, state.goals, state.initialized, saveProgressData]);
 
-  // 检查成就
-  useEffect(() => {
-    if (state.userProgress) {
-      checkWordMasteryAchievements();
-      checkStreakAchievements();
-    }
-  }, [state.userProgress?.masteredWords.length, state.userProgress?.streakDays]);
-
   return {
     // 状态
     userProgress: state.userProgress,
@@ -465,6 +346,7 @@ export const useProgress = () => {
     updateDailyStats,
     startStudySession,
     endStudySession,
+    recordPracticeSession,
     updateStreak,
     addMasteredWord,
     removeMasteredWord,
@@ -117,7 +117,7 @@ export const useResponsive = () => {
 export const useThemeToggle = () => {
     const { colorMode, toggleColorMode, setColorMode } = useColorMode();
     const [isSystemMode, setIsSystemMode] = useState(false);
-    const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+    const [prefersDark] = useMediaQuery('(prefers-color-scheme: dark)');
     const switchToTheme = useCallback((theme) => {
         if (theme === 'system') {
             setIsSystemMode(true);
@@ -157,7 +157,7 @@ export const useThemeToggle = () => {
   const [isSystemMode, setIsSystemMode] = useState(false);
 
   // 检测系统主题偏好
-  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)');
+  const [prefersDark] = useMediaQuery('(prefers-color-scheme: dark)');
 
   /**
    * 切换到指定主题
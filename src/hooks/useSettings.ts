@@ -0,0 +1,98 @@
+import { useCallback, useEffect } from 'react';
+import {
+  useSettingsContext,
+  SettingsActionType,
+  SettingsSection,
+} from '@/contexts/SettingsContext';
+import { UserSettings, UISettings } from '@/types';
+import { storageManager } from '@/services/storageManager';
+import { useThemeToggle } from '@/hooks/useResponsive';
+
+/**
+ * 字体大小对应的根字号，Chakra 的尺寸基于 rem，会随之整体缩放
+ */
+export const FONT_SIZE_SCALE: Record<UISettings['fontSize'], string> = {
+  small: '14px',
+  medium: '16px',
+  large: '18px',
+  'extra-large': '20px',
+};
+
+/**
+ * 设置管理Hook
+ * 更新通过 reducer 在最新状态上应用，由设置提供者保存到本地存储
+ */
+export const useSettings = () => {
+  const { state, dispatch } = useSettingsContext();
+
+  /**
+   * 初始化设置数据
+   */
+  const initializeSettings = useCallback(async () => {
+    dispatch({ type: SettingsActionType.SET_LOADING, payload: true });
+
+    try {
+      const savedSettings = await storageManager.getUserSettings();
+      dispatch({ type: SettingsActionType.LOAD_SETTINGS, payload: savedSettings });
+    } catch (error) {
+      console.error('Failed to initialize settings:', error);
+      dispatch({ type: SettingsActionType.SET_ERROR, payload: '加载设置失败' });
+    }
+  }, [dispatch]);
+
+  /**
+   * 更新某个分组的设置
+   */
+  const updateSettings = useCallback(<K extends SettingsSection>(
+    section: K,
+    values: Partial<UserSettings[K]>
+  ) => {
+    dispatch({ type: SettingsActionType.UPDATE_SECTION, payload: { section, values } });
+  }, [dispatch]);
+
+  /**
+   * 恢复默认设置
+   */
+  const resetSettings = useCallback(() => {
+    dispatch({ type: SettingsActionType.RESET_SETTINGS });
+  }, [dispatch]);
+
+  return {
+    // 状态
+    settings: state.settings,
+    loading: state.loading,
+    error: state.error,
+    initialized: state.initialized,
+
+    // 方法
+    initializeSettings,
+    updateSettings,
+    resetSettings,
+  };
+};
+
+/**
+ * 应用设置Hook
+ * 加载保存的设置，并在设置变化时同步主题模式和字体大小
+ */
+export const useApplySettings = () => {
+  const { settings, initialized, initializeSettings } = useSettings();
+  const { switchToTheme } = useThemeToggle();
+  const { themeMode, fontSize } = settings.ui;
+
+  useEffect(() => {
+    if (!initialized) {
+      initializeSettings();
+    }
+  }, [initialized, initializeSettings]);
+
+  useEffect(() => {
+    if (initialized) {
+      switchToTheme(themeMode);
+    }
+  }, [initialized, themeMode, switchToTheme]);
+
+  useEffect(() => {
+    document.documentElement.style.fontSize = FONT_SIZE_SCALE[fontSize] ?? FONT_SIZE_SCALE.medium;
+  }, [fontSize]);
+};
@@ -1,16 +1,17 @@
 import { useCallback, useEffect } from 'react';
 import { useVocabularyContext, VocabularyActionType, } from '@/contexts/VocabularyContext';
 import { storageService, StorageKey } from '@/services/storage';
+import { vocabularyStore } from '@/services/vocabularyStore';
 export const useVocabulary = () => {
     const { state, dispatch } = useVocabularyContext();
     const initializeVocabulary = useCallback(async () => {
         dispatch({ type: VocabularyActionType.SET_LOADING, payload: true });
         try {
-            const savedVocabulary = storageService.getItem(StorageKey.VOCABULARY_DATA);
+            const savedVocabulary = await vocabularyStore.getAll();
             const savedFavorites = storageService.getItem(StorageKey.VOCABULARY_FAVORITES);
             const savedFilter = storageService.getItem(StorageKey.VOCABULARY_FILTER);
             const savedSort = storageService.getItem(StorageKey.VOCABULARY_SORT);
-            if (savedVocabulary && savedVocabulary.length > 0) {
+            if (savedVocabulary.length > 0) {
                 dispatch({ type: VocabularyActionType.SET_VOCABULARY, payload: savedVocabulary });
             }
             else {
@@ -34,7 +35,9 @@ export const useVocabulary = () => {
     }, [dispatch]);
     const saveVocabularyData = useCallback(() => {
         try {
-            storageService.setItem(StorageKey.VOCABULARY_DATA, state.vocabulary);
+            vocabularyStore.sync(state.vocabulary).catch(error => {
+                console.error('Failed to save vocabulary list:', error);
+            });
             storageService.setItem(StorageKey.VOCABULARY_FAVORITES, state.favorites);
             storageService.setItem(StorageKey.VOCABULARY_FILTER, state.filter);
             storageService.setItem(StorageKey.VOCABULARY_SORT, {
@@ -12,6 +12,7 @@ import {
   DifficultyLevel,
 } from '@/types';
 import { storageService, StorageKey } from '@/services/storage';
+import { vocabularyStore } from '@/services/vocabularyStore';
 
 /**
  * 词汇管理Hook
@@ -27,13 +28,13 @@ export const useVocabulary = () => {
 
     try {
       // 从本地存储加载词汇数据
-      const savedVocabulary = storageService.getItem<VocabularyItem[]>(StorageKey.VOCABULARY_DATA);
+      const savedVocabulary = await vocabularyStore.getAll();
       const savedFavorites = storageService.getItem<string[]>(StorageKey.VOCABULARY_FAVORITES);
       const savedFilter = storageService.getItem<VocabularyFilter>(StorageKey.VOCABULARY_FILTER);
       const savedSort = storageService.getItem<{ sortBy: VocabularySortBy; direction: SortDirection }>(StorageKey.VOCABULARY_SORT);
 
       // 设置词汇数据
-      if (savedVocabulary && savedVocabulary.length > 0) {
+      if (savedVocabulary.length > 0) {
         dispatch({ type: VocabularyActionType.SET_VOCABULARY, payload: savedVocabulary });
       } else {
         // 如果没有本地数据，设置空数组
@@ -67,7 +68,10 @@ export const useVocabulary = () => {
    */
   const saveVocabularyData = useCallback(() => {
     try {
-      storageService.setItem(StorageKey.VOCABULARY_DATA, state.vocabulary);
+      // 词汇按条目写入，只保存有变化的词汇
+      vocabularyStore.sync(state.vocabulary).catch(error => {
+        console.error('Failed to save vocabulary list:', error);
+      });
       storageService.setItem(StorageKey.VOCABULARY_FAVORITES, state.favorites);
       storageService.setItem(StorageKey.VOCABULARY_FILTER, state.filter);
       storageService.setItem(StorageKey.VOCABULARY_SORT, {
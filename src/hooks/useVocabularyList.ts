@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { VocabularyItem } from '@/types';
+import { vocabularyService } from '@/services/vocabularyService';
+import { masteryService } from '@/services/masteryService';
+
+/**
+ * 词汇列表Hook
+ * 从词汇服务加载全部词汇和收藏列表，练习或手动标记后同步掌握度服务更新的词汇
+ */
+export const useVocabularyList = () => {
+  const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    const [items, favoriteIds] = await Promise.all([
+      vocabularyService.getAllVocabulary(),
+      vocabularyService.getFavoriteIds(),
+    ]);
+    setVocabulary(items);
+    setFavorites(favoriteIds);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(
+    () =>
+      masteryService.subscribe(({ items }) => {
+        const updated = new Map(items.map(item => [item.id, item]));
+        setVocabulary(prev => prev.map(item => updated.get(item.id) ?? item));
+      }),
+    []
+  );
+
+  return { vocabulary, favorites, loading, reload };
+};
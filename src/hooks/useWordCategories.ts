@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { VocabularyItem, Web3Category } from '@/types';
+import { vocabularyStore } from '@/services/vocabularyStore';
+
+/**
+ * 单词分类Hook
+ * 返回单词ID到分类的映射，词汇存储变化时只读取变化的词汇，分类没有变化时保持同一个对象
+ */
+export const useWordCategories = (): Record<string, Web3Category> => {
+  const [categories, setCategories] = useState<Record<string, Web3Category>>({});
+
+  useEffect(() => {
+    let active = true;
+
+    vocabularyStore.getAll()
+      .then(items => {
+        if (!active) return;
+        setCategories(Object.fromEntries(items.map(item => [item.id, item.category])));
+      })
+      .catch(error => {
+        console.error('Failed to load word categories:', error);
+      });
+
+    const unsubscribe = vocabularyStore.subscribe(async ({ updated, deleted }) => {
+      let items: (VocabularyItem | null)[];
+      try {
+        items = await Promise.all(updated.map(id => vocabularyStore.get(id)));
+      } catch (error) {
+        console.error('Failed to update word categories:', error);
+        return;
+      }
+      if (!active) return;
+
+      setCategories(prev => {
+        const changed =
+          deleted.some(id => id in prev) ||
+          items.some(item => item && prev[item.id] !== item.category);
+        if (!changed) return prev;
+
+        const next = { ...prev };
+        deleted.forEach(id => delete next[id]);
+        items.forEach(item => {
+          if (item) next[item.id] = item.category;
+        });
+        return next;
+      });
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return categories;
+};
@@ -7,11 +7,15 @@ import './index.css';
 import { registerServiceWorker, unregisterServiceWorker } from './utils/pwa';
 import { initializeMonitoring } from './utils/monitoring';
 import { initSentry } from './utils/sentry';
+import { dataMigrationService } from './services/dataMigration';
 
 // 初始化监控服务
 initSentry();
 initializeMonitoring();
 
+// 在读取任何本地数据之前升级旧版本数据
+dataMigrationService.runStartupMigrations();
+
 // 注册/注销 Service Worker
 if (import.meta.env.PROD) {
   registerServiceWorker();
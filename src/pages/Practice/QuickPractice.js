@@ -1,6 +1,38 @@
-import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback } from 'react';
+import { Box, VStack, HStack, Text, Button, Badge, Spinner, Center, useToast, } from '@chakra-ui/react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { QuizContainer, PracticeResultSummary, PracticeSourceSelect } from '@/components/practice';
+import { usePracticeSession } from '@/hooks/usePracticeSession';
 const QuickPracticePage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u5FEB\u901F\u7EC3\u4E60\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const navigate = useNavigate();
+    const location = useLocation();
+    const toast = useToast();
+    const routeState = location.state;
+    const { stage, vocabulary, sourceVocabulary, settings, config, decks, deck, selectDeck, session, result, error, startPractice, checkpointPractice, abandonPractice, completePractice, resetPractice, } = usePracticeSession('quick', routeState?.resumeSessionId, routeState?.deckId);
+    const handleStart = useCallback(() => {
+        if (!startPractice()) {
+            toast({
+                title: '词汇数量不足，无法生成练习',
+                status: 'info',
+                duration: 3000,
+                isClosable: true,
+            });
+        }
+    }, [startPractice, toast]);
+    const handleExit = useCallback(async () => {
+        await abandonPractice();
+        navigate('/practice');
+    }, [abandonPractice, navigate]);
+    if (stage === 'loading') {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    if (stage === 'practicing' && session) {
+        return (_jsx(QuizContainer, { questions: session.questions, session: session, onComplete: completePractice, onProgress: checkpointPractice, onExit: handleExit, showInstantFeedback: session.config.showInstantFeedback }));
+    }
+    if (stage === 'finished' && session && result) {
+        return (_jsx(PracticeResultSummary, { result: result, session: session, onRetry: resetPractice, onExit: () => navigate('/practice'), children: error && (_jsx(Text, { color: "red.500", fontSize: "sm", children: error })) }));
+    }
+    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsxs(VStack, { spacing: 6, children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", children: "\u5FEB\u901F\u7EC3\u4E60" }), _jsxs(HStack, { spacing: 4, children: [_jsxs(Badge, { colorScheme: "blue", px: 3, py: 1, borderRadius: "md", children: [config.questionCount, " \u9053\u9898"] }), _jsx(Badge, { colorScheme: "gray", px: 3, py: 1, borderRadius: "md", children: settings.showInstantFeedback ? '即时反馈' : '结束后反馈' })] }), _jsxs(Text, { color: "gray.500", textAlign: "center", children: [deck ? `从卡组「${deck.name}」中出题` : '从词汇库中随机抽题', "\uFF0C\u9898\u578B\u5305\u62EC\u9009\u62E9\u3001\u586B\u7A7A\u3001\u5224\u65AD\u3001\u5339\u914D\u7B49"] }), _jsx(PracticeSourceSelect, { decks: decks, deck: deck, vocabularyCount: vocabulary.length, sourceCount: sourceVocabulary.length, onChange: selectDeck }), error && (_jsx(Text, { color: "red.500", fontSize: "sm", children: error })), _jsx(Button, { colorScheme: "primary", size: "lg", onClick: handleStart, isDisabled: sourceVocabulary.length === 0, children: "\u5F00\u59CB\u7EC3\u4E60" })] }) }));
 };
 export default QuickPracticePage;
@@ -1,21 +1,147 @@
-import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import React, { useCallback } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Badge,
+  Spinner,
+  Center,
+  useToast,
+} from '@chakra-ui/react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { QuizContainer, PracticeResultSummary, PracticeSourceSelect } from '@/components/practice';
+import { usePracticeSession, PracticeResumeState } from '@/hooks/usePracticeSession';
 
+/**
+ * 快速练习页面
+ * 按练习设置中的默认题目数量随机出题，逐题计时
+ */
 const QuickPracticePage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const toast = useToast();
+  const routeState = location.state as PracticeResumeState | null;
+  const {
+    stage,
+    vocabulary,
+    sourceVocabulary,
+    settings,
+    config,
+    decks,
+    deck,
+    selectDeck,
+    session,
+    result,
+    error,
+    startPractice,
+    checkpointPractice,
+    abandonPractice,
+    completePractice,
+    resetPractice,
+  } = usePracticeSession('quick', routeState?.resumeSessionId, routeState?.deckId);
+
+  /**
+   * 开始练习
+   */
+  const handleStart = useCallback(() => {
+    if (!startPractice()) {
+      toast({
+        title: '词汇数量不足，无法生成练习',
+        status: 'info',
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  }, [startPractice, toast]);
+
+  /**
+   * 中途退出练习
+   */
+  const handleExit = useCallback(async () => {
+    await abandonPractice();
+    navigate('/practice');
+  }, [abandonPractice, navigate]);
+
+  if (stage === 'loading') {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
+  if (stage === 'practicing' && session) {
+    return (
+      <QuizContainer
+        questions={session.questions}
+        session={session}
+        onComplete={completePractice}
+        onProgress={checkpointPractice}
+        onExit={handleExit}
+        showInstantFeedback={session.config.showInstantFeedback}
+      />
+    );
+  }
+
+  if (stage === 'finished' && session && result) {
+    return (
+      <PracticeResultSummary
+        result={result}
+        session={session}
+        onRetry={resetPractice}
+        onExit={() => navigate('/practice')}
+      >
+        {error && (
+          <Text color="red.500" fontSize="sm">
+            {error}
+          </Text>
+        )}
+      </PracticeResultSummary>
+    );
+  }
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        快速练习页面功能开发中...
-      </Text>
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+      <VStack spacing={6}>
+        <Text fontSize="lg" fontWeight="semibold">
+          快速练习
+        </Text>
+        <HStack spacing={4}>
+          <Badge colorScheme="blue" px={3} py={1} borderRadius="md">
+            {config.questionCount} 道题
+          </Badge>
+          <Badge colorScheme="gray" px={3} py={1} borderRadius="md">
+            {settings.showInstantFeedback ? '即时反馈' : '结束后反馈'}
+          </Badge>
+        </HStack>
+        <Text color="gray.500" textAlign="center">
+          {deck ? `从卡组「${deck.name}」中出题` : '从词汇库中随机抽题'}，题型包括选择、填空、判断、匹配等
+        </Text>
+        <PracticeSourceSelect
+          decks={decks}
+          deck={deck}
+          vocabularyCount={vocabulary.length}
+          sourceCount={sourceVocabulary.length}
+          onChange={selectDeck}
+        />
+        {error && (
+          <Text color="red.500" fontSize="sm">
+            {error}
+          </Text>
+        )}
+        <Button
+          colorScheme="primary"
+          size="lg"
+          onClick={handleStart}
+          isDisabled={sourceVocabulary.length === 0}
+        >
+          开始练习
+        </Button>
+      </VStack>
     </Box>
   );
 };
 
-export default QuickPracticePage;
\ No newline at end of file
+export default QuickPracticePage;
@@ -1,6 +1,147 @@
-import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Box, VStack, HStack, Text, Button, Badge, Spinner, Center, useToast, } from '@chakra-ui/react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { QuizContainer, PracticeResultSummary } from '@/components/practice';
+import { useProgress } from '@/hooks/useProgress';
+import { vocabularyService } from '@/services/vocabularyService';
+import { reviewScheduler } from '@/services/reviewScheduler';
+import { storageManager } from '@/services/storageManager';
+import { practiceService } from '@/services/practiceService';
+import { analyzePracticeSession } from '@/services/practiceAnalytics';
+const REVIEW_QUESTION_COUNT = 20;
 const ReviewPracticePage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u590D\u4E60\u6A21\u5F0F\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const navigate = useNavigate();
+    const location = useLocation();
+    const resumeSessionId = location.state?.resumeSessionId;
+    const toast = useToast();
+    const { userProgress, initialized, initializeProgress, recordPracticeSession, addPoints, } = useProgress();
+    const [stage, setStage] = useState('loading');
+    const [vocabulary, setVocabulary] = useState([]);
+    const [dueCount, setDueCount] = useState(0);
+    const [session, setSession] = useState(null);
+    const [result, setResult] = useState(null);
+    useEffect(() => {
+        if (!initialized) {
+            initializeProgress();
+        }
+    }, [initialized, initializeProgress]);
+    const loadReviewData = useCallback(async () => {
+        setStage('loading');
+        try {
+            const [allVocabulary, dueQueue] = await Promise.all([
+                vocabularyService.getAllVocabulary(),
+                reviewScheduler.getDueQueue(),
+            ]);
+            setVocabulary(allVocabulary);
+            setDueCount(dueQueue.length);
+            if (resumeSessionId) {
+                const checkpoint = await storageManager.getSessionCheckpoint();
+                if (checkpoint &&
+                    checkpoint.session.id === resumeSessionId &&
+                    checkpoint.session.mode === 'review' &&
+                    checkpoint.session.status === 'in_progress') {
+                    setSession(checkpoint.session);
+                    setStage('practicing');
+                    return;
+                }
+            }
+            setStage('ready');
+        }
+        catch (error) {
+            console.error('Failed to load review data:', error);
+            setStage('ready');
+        }
+    }, [resumeSessionId]);
+    useEffect(() => {
+        loadReviewData();
+    }, [loadReviewData]);
+    const weakWords = useMemo(() => userProgress?.weakWords ?? [], [userProgress]);
+    const handleStart = useCallback(async () => {
+        const reviewSession = await practiceService.buildReviewSession(vocabulary, weakWords, {
+            questionCount: REVIEW_QUESTION_COUNT,
+        });
+        if (!reviewSession) {
+            toast({
+                title: '暂无需要复习的词汇',
+                status: 'info',
+                duration: 3000,
+                isClosable: true,
+            });
+            return;
+        }
+        setSession(reviewSession);
+        storageManager.saveSessionCheckpoint(reviewSession, []).catch(error => {
+            console.error('Failed to save review checkpoint:', error);
+        });
+        setStage('practicing');
+    }, [vocabulary, weakWords, toast]);
+    const handleProgress = useCallback((answers) => {
+        if (!session)
+            return;
+        storageManager.saveSessionCheckpoint(session, answers).catch(error => {
+            console.error('Failed to save review checkpoint:', error);
+        });
+    }, [session]);
+    const handleExit = useCallback(async () => {
+        try {
+            await storageManager.abandonSessionCheckpoint();
+        }
+        catch (error) {
+            console.error('Failed to abandon review:', error);
+        }
+        navigate('/practice');
+    }, [navigate]);
+    const handleComplete = useCallback(async (answers) => {
+        if (!session)
+            return;
+        const completedSession = practiceService.completeSession(session, answers);
+        const analysis = analyzePracticeSession(completedSession);
+        setSession(completedSession);
+        setResult(analysis);
+        setStage('finished');
+        try {
+            await storageManager.clearSessionCheckpoint();
+            await practiceService.savePracticeResult(completedSession);
+            const results = await practiceService.recordSessionResults(completedSession);
+            recordPracticeSession(completedSession.startTime, results, analysis.reviewSuggestions);
+            if (completedSession.totalScore > 0) {
+                addPoints(completedSession.totalScore);
+            }
+        }
+        catch (error) {
+            console.error('Failed to record review results:', error);
+            toast({
+                title: '复习结果保存失败',
+                status: 'error',
+                duration: 3000,
+                isClosable: true,
+            });
+        }
+    }, [session, recordPracticeSession, addPoints, toast]);
+    useEffect(() => {
+        if (stage === 'practicing' && session && session.questions.length > 0 &&
+            session.answers.length >= session.questions.length) {
+            handleComplete(session.answers);
+        }
+    }, [stage, session, handleComplete]);
+    const handleRestart = useCallback(() => {
+        setSession(null);
+        setResult(null);
+        loadReviewData();
+    }, [loadReviewData]);
+    if (stage === 'loading') {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    if (stage === 'practicing' && session) {
+        return (_jsx(QuizContainer, { questions: session.questions, session: session, onComplete: handleComplete, onProgress: handleProgress, onExit: handleExit }));
+    }
+    if (stage === 'finished' && session && result) {
+        return (_jsx(PracticeResultSummary, { result: result, session: session, title: "\u590D\u4E60\u5B8C\u6210\uFF01", retryLabel: "\u7EE7\u7EED\u590D\u4E60", onRetry: handleRestart, onExit: () => navigate('/practice') }));
+    }
+    const hasReviewWords = dueCount > 0 || weakWords.length > 0;
+    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsxs(VStack, { spacing: 6, children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", children: "\u590D\u4E60\u6A21\u5F0F" }), _jsxs(HStack, { spacing: 4, children: [_jsxs(Badge, { colorScheme: "orange", px: 3, py: 1, borderRadius: "md", children: ["\u4ECA\u65E5\u5230\u671F ", dueCount] }), _jsxs(Badge, { colorScheme: "red", px: 3, py: 1, borderRadius: "md", children: ["\u8584\u5F31\u8BCD\u6C47 ", weakWords.length] })] }), _jsx(Text, { color: "gray.500", textAlign: "center", children: hasReviewWords
+                        ? '复习到期词汇和之前答错的词汇，巩固记忆'
+                        : '暂无需要复习的词汇，先去做几轮练习吧' }), _jsx(Button, { colorScheme: "primary", size: "lg", onClick: handleStart, isDisabled: !hasReviewWords || vocabulary.length === 0, children: "\u5F00\u59CB\u590D\u4E60" })] }) }));
 };
 export default ReviewPracticePage;
@@ -1,21 +1,270 @@
-import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Badge,
+  Spinner,
+  Center,
+  useToast,
+} from '@chakra-ui/react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { QuizContainer, PracticeResultSummary } from '@/components/practice';
+import { useProgress } from '@/hooks/useProgress';
+import { PracticeResumeState } from '@/hooks/usePracticeSession';
+import { vocabularyService } from '@/services/vocabularyService';
+import { reviewScheduler } from '@/services/reviewScheduler';
+import { storageManager } from '@/services/storageManager';
+import { practiceService } from '@/services/practiceService';
+import { analyzePracticeSession } from '@/services/practiceAnalytics';
+import { PracticeSession, PracticeResult, UserAnswer, VocabularyItem } from '@/types';
 
+/**
+ * 复习页面阶段
+ */
+type ReviewStage = 'loading' | 'ready' | 'practicing' | 'finished';
+
+/**
+ * 复习题目数量上限
+ */
+const REVIEW_QUESTION_COUNT = 20;
+
+/**
+ * 复习模式页面
+ * 从到期词汇和薄弱词汇构建复习会话，并把结果写回学习数据和用户进度
+ */
 const ReviewPracticePage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const resumeSessionId = (location.state as PracticeResumeState | null)?.resumeSessionId;
+  const toast = useToast();
+  const {
+    userProgress,
+    initialized,
+    initializeProgress,
+    recordPracticeSession,
+    addPoints,
+  } = useProgress();
+
+  const [stage, setStage] = useState<ReviewStage>('loading');
+  const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [session, setSession] = useState<PracticeSession | null>(null);
+  const [result, setResult] = useState<PracticeResult | null>(null);
+
+  /**
+   * 初始化进度数据
+   */
+  useEffect(() => {
+    if (!initialized) {
+      initializeProgress();
+    }
+  }, [initialized, initializeProgress]);
+
+  /**
+   * 加载词汇和到期队列
+   */
+  const loadReviewData = useCallback(async () => {
+    setStage('loading');
+    try {
+      const [allVocabulary, dueQueue] = await Promise.all([
+        vocabularyService.getAllVocabulary(),
+        reviewScheduler.getDueQueue(),
+      ]);
+      setVocabulary(allVocabulary);
+      setDueCount(dueQueue.length);
+
+      if (resumeSessionId) {
+        const checkpoint = await storageManager.getSessionCheckpoint();
+        if (
+          checkpoint &&
+          checkpoint.session.id === resumeSessionId &&
+          checkpoint.session.mode === 'review' &&
+          checkpoint.session.status === 'in_progress'
+        ) {
+          setSession(checkpoint.session);
+          setStage('practicing');
+          return;
+        }
+      }
+      setStage('ready');
+    } catch (error) {
+      console.error('Failed to load review data:', error);
+      setStage('ready');
+    }
+  }, [resumeSessionId]);
+
+  useEffect(() => {
+    loadReviewData();
+  }, [loadReviewData]);
+
+  const weakWords = useMemo(() => userProgress?.weakWords ?? [], [userProgress]);
+
+  /**
+   * 开始复习
+   */
+  const handleStart = useCallback(async () => {
+    const reviewSession = await practiceService.buildReviewSession(vocabulary, weakWords, {
+      questionCount: REVIEW_QUESTION_COUNT,
+    });
+
+    if (!reviewSession) {
+      toast({
+        title: '暂无需要复习的词汇',
+        status: 'info',
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    setSession(reviewSession);
+    storageManager.saveSessionCheckpoint(reviewSession, []).catch(error => {
+      console.error('Failed to save review checkpoint:', error);
+    });
+    setStage('practicing');
+  }, [vocabulary, weakWords, toast]);
+
+  /**
+   * 每答完一题保存复习进度
+   */
+  const handleProgress = useCallback((answers: UserAnswer[]) => {
+    if (!session) return;
+
+    storageManager.saveSessionCheckpoint(session, answers).catch(error => {
+      console.error('Failed to save review checkpoint:', error);
+    });
+  }, [session]);
+
+  /**
+   * 中途退出，把复习标记为已放弃
+   */
+  const handleExit = useCallback(async () => {
+    try {
+      await storageManager.abandonSessionCheckpoint();
+    } catch (error) {
+      console.error('Failed to abandon review:', error);
+    }
+    navigate('/practice');
+  }, [navigate]);
+
+  /**
+   * 完成复习，写回学习数据和进度
+   */
+  const handleComplete = useCallback(async (answers: UserAnswer[]) => {
+    if (!session) return;
+
+    const completedSession = practiceService.completeSession(session, answers);
+    const analysis = analyzePracticeSession(completedSession);
+    setSession(completedSession);
+    setResult(analysis);
+    setStage('finished');
+
+    try {
+      await storageManager.clearSessionCheckpoint();
+      await practiceService.savePracticeResult(completedSession);
+      const results = await practiceService.recordSessionResults(completedSession);
+      recordPracticeSession(completedSession.startTime, results, analysis.reviewSuggestions);
+      if (completedSession.totalScore > 0) {
+        addPoints(completedSession.totalScore);
+      }
+    } catch (error) {
+      console.error('Failed to record review results:', error);
+      toast({
+        title: '复习结果保存失败',
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  }, [session, recordPracticeSession, addPoints, toast]);
+
+  /**
+   * 恢复的复习在重新加载前已答完所有题目时直接结算
+   */
+  useEffect(() => {
+    if (stage === 'practicing' && session && session.questions.length > 0 &&
+        session.answers.length >= session.questions.length) {
+      handleComplete(session.answers);
+    }
+  }, [stage, session, handleComplete]);
+
+  /**
+   * 再来一轮
+   */
+  const handleRestart = useCallback(() => {
+    setSession(null);
+    setResult(null);
+    loadReviewData();
+  }, [loadReviewData]);
+
+  if (stage === 'loading') {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
+  if (stage === 'practicing' && session) {
+    return (
+      <QuizContainer
+        questions={session.questions}
+        session={session}
+        onComplete={handleComplete}
+        onProgress={handleProgress}
+        onExit={handleExit}
+      />
+    );
+  }
+
+  if (stage === 'finished' && session && result) {
+    return (
+      <PracticeResultSummary
+        result={result}
+        session={session}
+        title="复习完成！"
+        retryLabel="继续复习"
+        onRetry={handleRestart}
+        onExit={() => navigate('/practice')}
+      />
+    );
+  }
+
+  const hasReviewWords = dueCount > 0 || weakWords.length > 0;
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        复习模式页面功能开发中...
-      </Text>
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+      <VStack spacing={6}>
+        <Text fontSize="lg" fontWeight="semibold">
+          复习模式
+        </Text>
+        <HStack spacing={4}>
+          <Badge colorScheme="orange" px={3} py={1} borderRadius="md">
+            今日到期 {dueCount}
+          </Badge>
+          <Badge colorScheme="red" px={3} py={1} borderRadius="md">
+            薄弱词汇 {weakWords.length}
+          </Badge>
+        </HStack>
+        <Text color="gray.500" textAlign="center">
+          {hasReviewWords
+            ? '复习到期词汇和之前答错的词汇，巩固记忆'
+            : '暂无需要复习的词汇，先去做几轮练习吧'}
+        </Text>
+        <Button
+          colorScheme="primary"
+          size="lg"
+          onClick={handleStart}
+          isDisabled={!hasReviewWords || vocabulary.length === 0}
+        >
+          开始复习
+        </Button>
+      </VStack>
     </Box>
   );
 };
 
-export default ReviewPracticePage;
\ No newline at end of file
+export default ReviewPracticePage;
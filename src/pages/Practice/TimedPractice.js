@@ -1,6 +1,44 @@
-import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+import { useCallback } from 'react';
+import { Box, VStack, HStack, Text, Button, Badge, Spinner, Center, useToast, } from '@chakra-ui/react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { QuizContainer, PracticeResultSummary, PracticeSourceSelect } from '@/components/practice';
+import { usePracticeSession } from '@/hooks/usePracticeSession';
+const formatDuration = (seconds) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
 const TimedPracticePage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u9650\u65F6\u6311\u6218\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const navigate = useNavigate();
+    const location = useLocation();
+    const toast = useToast();
+    const routeState = location.state;
+    const { stage, vocabulary, sourceVocabulary, config, decks, deck, selectDeck, session, result, error, startPractice, checkpointPractice, abandonPractice, completePractice, resetPractice, } = usePracticeSession('timed', routeState?.resumeSessionId, routeState?.deckId);
+    const totalTimeLimit = config.totalTimeLimit ?? 0;
+    const handleStart = useCallback(() => {
+        if (!startPractice()) {
+            toast({
+                title: '词汇数量不足，无法生成挑战',
+                status: 'info',
+                duration: 3000,
+                isClosable: true,
+            });
+        }
+    }, [startPractice, toast]);
+    const handleExit = useCallback(async () => {
+        await abandonPractice();
+        navigate('/practice');
+    }, [abandonPractice, navigate]);
+    if (stage === 'loading') {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    if (stage === 'practicing' && session) {
+        return (_jsx(QuizContainer, { questions: session.questions, session: session, onComplete: completePractice, onProgress: checkpointPractice, onExit: handleExit, showTimer: false, showInstantFeedback: session.config.showInstantFeedback }));
+    }
+    if (stage === 'finished' && session && result) {
+        return (_jsxs(PracticeResultSummary, { result: result, session: session, title: session.answers.length < session.questions.length ? '时间到！' : '挑战完成！', retryLabel: "\u518D\u6B21\u6311\u6218", onRetry: resetPractice, onExit: () => navigate('/practice'), children: [_jsxs(Text, { fontSize: "sm", color: "gray.500", children: ["\u5B8C\u6210 ", session.answers.length, "/", session.questions.length, " \u9898\uFF0C\u603B\u65F6\u95F4 ", formatDuration(session.config.totalTimeLimit ?? totalTimeLimit)] }), error && (_jsx(Text, { color: "red.500", fontSize: "sm", children: error }))] }));
+    }
+    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsxs(VStack, { spacing: 6, children: [_jsx(Text, { fontSize: "lg", fontWeight: "semibold", children: "\u9650\u65F6\u6311\u6218" }), _jsxs(HStack, { spacing: 4, children: [_jsxs(Badge, { colorScheme: "blue", px: 3, py: 1, borderRadius: "md", children: [config.questionCount, " \u9053\u9898"] }), _jsxs(Badge, { colorScheme: "orange", px: 3, py: 1, borderRadius: "md", children: ["\u603B\u65F6\u95F4 ", formatDuration(totalTimeLimit)] })] }), _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u5728\u603B\u65F6\u95F4\u5185\u5C3D\u53EF\u80FD\u591A\u5730\u7B54\u5BF9\u9898\u76EE\uFF0C\u65F6\u95F4\u7528\u5B8C\u540E\u81EA\u52A8\u7ED3\u675F" }), _jsx(PracticeSourceSelect, { decks: decks, deck: deck, vocabularyCount: vocabulary.length, sourceCount: sourceVocabulary.length, onChange: selectDeck }), error && (_jsx(Text, { color: "red.500", fontSize: "sm", children: error })), _jsx(Button, { colorScheme: "primary", size: "lg", onClick: handleStart, isDisabled: sourceVocabulary.length === 0, children: "\u5F00\u59CB\u6311\u6218" })] }) }));
 };
 export default TimedPracticePage;
@@ -1,21 +1,163 @@
-import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import React, { useCallback } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Badge,
+  Spinner,
+  Center,
+  useToast,
+} from '@chakra-ui/react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { QuizContainer, PracticeResultSummary, PracticeSourceSelect } from '@/components/practice';
+import { usePracticeSession, PracticeResumeState } from '@/hooks/usePracticeSession';
 
+/**
+ * 格式化秒数为 mm:ss
+ */
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * 限时挑战页面
+ * 整场练习共用一个总时间，时间用完立即结束并统计结果
+ */
 const TimedPracticePage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const toast = useToast();
+  const routeState = location.state as PracticeResumeState | null;
+  const {
+    stage,
+    vocabulary,
+    sourceVocabulary,
+    config,
+    decks,
+    deck,
+    selectDeck,
+    session,
+    result,
+    error,
+    startPractice,
+    checkpointPractice,
+    abandonPractice,
+    completePractice,
+    resetPractice,
+  } = usePracticeSession('timed', routeState?.resumeSessionId, routeState?.deckId);
+
+  const totalTimeLimit = config.totalTimeLimit ?? 0;
+
+  /**
+   * 开始挑战
+   */
+  const handleStart = useCallback(() => {
+    if (!startPractice()) {
+      toast({
+        title: '词汇数量不足，无法生成挑战',
+        status: 'info',
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  }, [startPractice, toast]);
+
+  /**
+   * 中途退出练习
+   */
+  const handleExit = useCallback(async () => {
+    await abandonPractice();
+    navigate('/practice');
+  }, [abandonPractice, navigate]);
+
+  if (stage === 'loading') {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
+  if (stage === 'practicing' && session) {
+    return (
+      <QuizContainer
+        questions={session.questions}
+        session={session}
+        onComplete={completePractice}
+        onProgress={checkpointPractice}
+        onExit={handleExit}
+        showTimer={false}
+        showInstantFeedback={session.config.showInstantFeedback}
+      />
+    );
+  }
+
+  if (stage === 'finished' && session && result) {
+    return (
+      <PracticeResultSummary
+        result={result}
+        session={session}
+        title={session.answers.length < session.questions.length ? '时间到！' : '挑战完成！'}
+        retryLabel="再次挑战"
+        onRetry={resetPractice}
+        onExit={() => navigate('/practice')}
+      >
+        <Text fontSize="sm" color="gray.500">
+          完成 {session.answers.length}/{session.questions.length} 题，总时间 {formatDuration(session.config.totalTimeLimit ?? totalTimeLimit)}
+        </Text>
+        {error && (
+          <Text color="red.500" fontSize="sm">
+            {error}
+          </Text>
+        )}
+      </PracticeResultSummary>
+    );
+  }
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        限时挑战页面功能开发中...
-      </Text>
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+      <VStack spacing={6}>
+        <Text fontSize="lg" fontWeight="semibold">
+          限时挑战
+        </Text>
+        <HStack spacing={4}>
+          <Badge colorScheme="blue" px={3} py={1} borderRadius="md">
+            {config.questionCount} 道题
+          </Badge>
+          <Badge colorScheme="orange" px={3} py={1} borderRadius="md">
+            总时间 {formatDuration(totalTimeLimit)}
+          </Badge>
+        </HStack>
+        <Text color="gray.500" textAlign="center">
+          在总时间内尽可能多地答对题目，时间用完后自动结束
+        </Text>
+        <PracticeSourceSelect
+          decks={decks}
+          deck={deck}
+          vocabularyCount={vocabulary.length}
+          sourceCount={sourceVocabulary.length}
+          onChange={selectDeck}
+        />
+        {error && (
+          <Text color="red.500" fontSize="sm">
+            {error}
+          </Text>
+        )}
+        <Button
+          colorScheme="primary"
+          size="lg"
+          onClick={handleStart}
+          isDisabled={sourceVocabulary.length === 0}
+        >
+          开始挑战
+        </Button>
+      </VStack>
     </Box>
   );
 };
 
-export default TimedPracticePage;
\ No newline at end of file
+export default TimedPracticePage;
@@ -1,6 +1,217 @@
 import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
-import { Box, Heading, Text } from '@chakra-ui/react';
+import { useState, useRef, useCallback } from 'react';
+import { Box, VStack, HStack, Heading, Text, Button, Switch, Select, Input, FormControl, FormLabel, FormErrorMessage, FormHelperText, NumberInput, NumberInputField, NumberInputStepper, NumberIncrementStepper, NumberDecrementStepper, Slider, SliderTrack, SliderFilledTrack, SliderThumb, SimpleGrid, Spinner, Center, AlertDialog, AlertDialogOverlay, AlertDialogContent, AlertDialogHeader, AlertDialogBody, AlertDialogFooter, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalFooter, useDisclosure, useToast, useColorModeValue, } from '@chakra-ui/react';
+import { useSettings } from '@/hooks/useSettings';
+import useFormValidation from '@/hooks/useFormValidation';
+import { CommonRules, validateField } from '@/utils/validation';
+import { ThemeMode, Language } from '@/types';
+import { storageService } from '@/services/storage';
+import { vocabularyStore } from '@/services/vocabularyStore';
+import { vocabularyService } from '@/services/vocabularyService';
+import { VocabularyImportModal } from '@/components/vocabulary/VocabularyImportModal';
+import { VocabularyMergeModal } from '@/components/vocabulary/VocabularyMergeModal';
+const rangeRule = (min, max) => CommonRules.custom(value => Number.isInteger(value) && value >= min && value <= max, `请输入 ${min} 到 ${max} 之间的整数`);
+const SETTINGS_VALIDATION_RULES = {
+    dailyWordGoal: [CommonRules.required(), rangeRule(1, 200)],
+    dailyTimeGoal: [CommonRules.required(), rangeRule(5, 300)],
+    reminderTime: [
+        CommonRules.required(),
+        { pattern: /^([01]\d|2[0-3]):[0-5]\d$/, message: '请输入 HH:MM 格式的时间' },
+    ],
+    defaultQuestionCount: [CommonRules.required(), rangeRule(5, 50)],
+    defaultTimeLimit: [CommonRules.required(), rangeRule(10, 120)],
+    sessionTimeout: [CommonRules.required(), rangeRule(5, 1440)],
+    dataRetentionDays: [CommonRules.required(), rangeRule(7, 3650)],
+};
+const toFormValues = (settings) => ({
+    dailyWordGoal: settings.learning.dailyWordGoal,
+    dailyTimeGoal: settings.learning.dailyTimeGoal,
+    reminderTime: settings.learning.studyReminders.time,
+    defaultQuestionCount: settings.practice.defaultQuestionCount,
+    defaultTimeLimit: settings.practice.defaultTimeLimit,
+    sessionTimeout: settings.practice.sessionTimeout,
+    dataRetentionDays: settings.privacy.dataRetentionDays,
+});
+const toSectionUpdate = (settings, field, value) => {
+    switch (field) {
+        case 'dailyWordGoal':
+        case 'dailyTimeGoal':
+            return { section: 'learning', values: { [field]: value } };
+        case 'reminderTime':
+            return {
+                section: 'learning',
+                values: { studyReminders: { ...settings.learning.studyReminders, time: value } },
+            };
+        case 'dataRetentionDays':
+            return { section: 'privacy', values: { dataRetentionDays: value } };
+        default:
+            return { section: 'practice', values: { [field]: value } };
+    }
+};
+const THEME_MODE_OPTIONS = [
+    { value: ThemeMode.LIGHT, label: '浅色' },
+    { value: ThemeMode.DARK, label: '深色' },
+    { value: ThemeMode.SYSTEM, label: '跟随系统' },
+];
+const FONT_SIZE_OPTIONS = [
+    { value: 'small', label: '小' },
+    { value: 'medium', label: '标准' },
+    { value: 'large', label: '大' },
+    { value: 'extra-large', label: '特大' },
+];
+const PLAYBACK_SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const AUDIO_QUALITY_OPTIONS = [
+    { value: 'low', label: '低' },
+    { value: 'medium', label: '中' },
+    { value: 'high', label: '高' },
+];
+const SettingsCard = ({ title, children }) => {
+    const cardBg = useColorModeValue('white', 'gray.800');
+    const borderColor = useColorModeValue('gray.200', 'gray.600');
+    return (_jsxs(Box, { bg: cardBg, p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: borderColor, children: [_jsx(Heading, { size: "sm", mb: 4, children: title }), _jsx(VStack, { spacing: 4, align: "stretch", children: children })] }));
+};
+const EXPORT_MIME_TYPES = {
+    csv: 'text/csv;charset=utf-8',
+    tsv: 'text/tab-separated-values;charset=utf-8',
+    apkg: 'application/octet-stream',
+};
+const SwitchField = ({ id, label, isChecked, onChange, isDisabled }) => (_jsxs(FormControl, { display: "flex", alignItems: "center", justifyContent: "space-between", isDisabled: isDisabled, children: [_jsx(FormLabel, { htmlFor: id, mb: 0, children: label }), _jsx(Switch, { id: id, colorScheme: "primary", isChecked: isChecked, onChange: e => onChange(e.target.checked) })] }));
+const PASSPHRASE_RULES = [
+    CommonRules.required('请输入密码'),
+    CommonRules.minLength(8, '密码至少需要 8 个字符'),
+];
+const EncryptionPassphraseModal = ({ isOpen, onClose, onConfirm }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const handleClose = useCallback(() => {
+        setPassphrase('');
+        setConfirmation('');
+        setError(null);
+        onClose();
+    }, [onClose]);
+    const handleConfirm = useCallback(async () => {
+        const result = validateField(passphrase, PASSPHRASE_RULES);
+        if (!result.isValid) {
+            setError(result.errors[0]);
+            return;
+        }
+        if (passphrase !== confirmation) {
+            setError('两次输入的密码不一致');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            await onConfirm(passphrase);
+            handleClose();
+        }
+        catch (confirmError) {
+            console.error('Failed to enable encryption:', confirmError);
+            setError('启用加密失败，请稍后重试');
+        }
+        finally {
+            setIsSubmitting(false);
+        }
+    }, [passphrase, confirmation, onConfirm, handleClose]);
+    return (_jsxs(Modal, { isOpen: isOpen, onClose: handleClose, isCentered: true, children: [_jsx(ModalOverlay, {}), _jsxs(ModalContent, { children: [_jsx(ModalHeader, { children: "\u8BBE\u7F6E\u52A0\u5BC6\u5BC6\u7801" }), _jsx(ModalBody, { children: _jsxs(VStack, { spacing: 4, align: "stretch", children: [_jsx(Text, { fontSize: "sm", color: "gray.600", children: "\u672C\u5730\u5B66\u4E60\u6570\u636E\u5C06\u4F7F\u7528\u8BE5\u5BC6\u7801\u52A0\u5BC6\uFF0C\u6BCF\u6B21\u6253\u5F00\u5E94\u7528\u65F6\u9700\u8981\u8F93\u5165\u3002\u5BC6\u7801\u65E0\u6CD5\u627E\u56DE\uFF0C\u8BF7\u59A5\u5584\u4FDD\u7BA1\u3002" }), _jsxs(FormControl, { isInvalid: !!error, children: [_jsx(FormLabel, { htmlFor: "encryptionPassphrase", children: "\u5BC6\u7801" }), _jsx(Input, { id: "encryptionPassphrase", type: "password", value: passphrase, onChange: e => setPassphrase(e.target.value) })] }), _jsxs(FormControl, { isInvalid: !!error, children: [_jsx(FormLabel, { htmlFor: "encryptionPassphraseConfirm", children: "\u786E\u8BA4\u5BC6\u7801" }), _jsx(Input, { id: "encryptionPassphraseConfirm", type: "password", value: confirmation, onChange: e => setConfirmation(e.target.value) }), error && _jsx(FormErrorMessage, { children: error })] })] }) }), _jsxs(ModalFooter, { children: [_jsx(Button, { mr: 3, onClick: handleClose, children: "\u53D6\u6D88" }), _jsx(Button, { colorScheme: "primary", onClick: handleConfirm, isLoading: isSubmitting, children: "\u542F\u7528\u52A0\u5BC6" })] })] })] }));
+};
+const SettingsForm = ({ onReset }) => {
+    const { settings, updateSettings } = useSettings();
+    const toast = useToast();
+    const passphraseModal = useDisclosure();
+    const importModal = useDisclosure();
+    const mergeModal = useDisclosure();
+    const deckInputRef = useRef(null);
+    const [initialValues] = useState(() => toFormValues(settings));
+    const { values, errors, setValue } = useFormValidation(initialValues, SETTINGS_VALIDATION_RULES, { debounceMs: 0 });
+    const handleFieldChange = useCallback((field, value) => {
+        setValue(field, value);
+        if (validateField(value, SETTINGS_VALIDATION_RULES[field]).isValid) {
+            const { section, values: sectionValues } = toSectionUpdate(settings, field, value);
+            updateSettings(section, sectionValues);
+        }
+    }, [setValue, settings, updateSettings]);
+    const handleEnableEncryption = useCallback(async (passphrase) => {
+        await storageService.enableEncryption(passphrase);
+        await vocabularyStore.relocate();
+        updateSettings('privacy', { enableLocalEncryption: true });
+        toast({ title: '已启用本地数据加密', status: 'success', duration: 2000, isClosable: true });
+    }, [updateSettings, toast]);
+    const handleEncryptionToggle = useCallback(async (checked) => {
+        if (checked) {
+            passphraseModal.onOpen();
+            return;
+        }
+        try {
+            await storageService.disableEncryption();
+            await vocabularyStore.relocate();
+            updateSettings('privacy', { enableLocalEncryption: false });
+            toast({ title: '已关闭本地数据加密', status: 'info', duration: 2000, isClosable: true });
+        }
+        catch (error) {
+            console.error('Failed to disable encryption:', error);
+            toast({ title: '关闭加密失败', status: 'error', duration: 3000, isClosable: true });
+        }
+    }, [passphraseModal, updateSettings, toast]);
+    const handleExportVocabulary = useCallback(async (format) => {
+        const result = format === 'apkg'
+            ? await vocabularyService.exportAnkiPackage()
+            : await vocabularyService.exportVocabulary(format);
+        if (!result.success || result.data === undefined) {
+            toast({ title: '导出失败', description: result.message, status: 'error', duration: 3000, isClosable: true });
+            return;
+        }
+        const parts = (format === 'csv' ? ['\uFEFF', result.data] : [result.data]);
+        const blob = new Blob(parts, { type: EXPORT_MIME_TYPES[format] });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `web3-vocabulary-${new Date().toISOString().split('T')[0]}.${format}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }, [toast]);
+    const handleImportDeck = useCallback(async (event) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file)
+            return;
+        const result = file.name.toLowerCase().endsWith('.apkg')
+            ? await vocabularyService.importAnkiPackage(await file.arrayBuffer())
+            : await vocabularyService.importVocabulary(await file.text(), 'tsv');
+        toast({
+            title: result.success ? '导入完成' : '导入失败',
+            description: result.message,
+            status: result.success ? 'success' : 'error',
+            duration: 4000,
+            isClosable: true,
+        });
+    }, [toast]);
+    const renderNumberField = (field, label, helperText, min, max, step = 1) => (_jsxs(FormControl, { isInvalid: !!errors[field], children: [_jsx(FormLabel, { htmlFor: field, children: label }), _jsxs(NumberInput, { id: field, min: min, max: max, step: step, value: Number.isNaN(values[field]) ? '' : values[field], onChange: (_, valueAsNumber) => handleFieldChange(field, valueAsNumber), keepWithinRange: false, clampValueOnBlur: false, children: [_jsx(NumberInputField, {}), _jsxs(NumberInputStepper, { children: [_jsx(NumberIncrementStepper, {}), _jsx(NumberDecrementStepper, {})] })] }), errors[field] ? (_jsx(FormErrorMessage, { children: errors[field] })) : (_jsx(FormHelperText, { children: helperText }))] }));
+    const { ui, audio, learning, practice, privacy, notifications } = settings;
+    return (_jsxs(VStack, { spacing: 6, align: "stretch", children: [_jsxs(SimpleGrid, { columns: { base: 1, lg: 2 }, spacing: 6, children: [_jsxs(SettingsCard, { title: "\u754C\u9762", children: [_jsxs(FormControl, { children: [_jsx(FormLabel, { htmlFor: "themeMode", children: "\u4E3B\u9898\u6A21\u5F0F" }), _jsx(Select, { id: "themeMode", value: ui.themeMode, onChange: e => updateSettings('ui', { themeMode: e.target.value }), children: THEME_MODE_OPTIONS.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] }), _jsxs(FormControl, { children: [_jsx(FormLabel, { htmlFor: "fontSize", children: "\u5B57\u4F53\u5927\u5C0F" }), _jsx(Select, { id: "fontSize", value: ui.fontSize, onChange: e => updateSettings('ui', { fontSize: e.target.value }), children: FONT_SIZE_OPTIONS.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] }), _jsxs(FormControl, { children: [_jsx(FormLabel, { htmlFor: "language", children: "\u8BED\u8A00" }), _jsxs(Select, { id: "language", value: ui.language, onChange: e => updateSettings('ui', { language: e.target.value }), children: [_jsx("option", { value: Language.ZH_CN, children: "\u7B80\u4F53\u4E2D\u6587" }), _jsx("option", { value: Language.EN_US, children: "English" })] })] }), _jsx(SwitchField, { id: "enableAnimations", label: "\u542F\u7528\u52A8\u753B", isChecked: ui.enableAnimations, onChange: checked => updateSettings('ui', { enableAnimations: checked }) }), _jsx(SwitchField, { id: "highContrast", label: "\u9AD8\u5BF9\u6BD4\u5EA6", isChecked: ui.highContrast, onChange: checked => updateSettings('ui', { highContrast: checked }) })] }), _jsxs(SettingsCard, { title: "\u97F3\u9891", children: [_jsx(SwitchField, { id: "audioEnabled", label: "\u542F\u7528\u97F3\u9891", isChecked: audio.enabled, onChange: checked => updateSettings('audio', { enabled: checked }) }), _jsxs(FormControl, { isDisabled: !audio.enabled, children: [_jsxs(FormLabel, { htmlFor: "volume", children: ["\u97F3\u91CF ", Math.round(audio.volume * 100), "%"] }), _jsxs(Slider, { id: "volume", min: 0, max: 1, step: 0.05, value: audio.volume, onChange: value => updateSettings('audio', { volume: value }), children: [_jsx(SliderTrack, { children: _jsx(SliderFilledTrack, {}) }), _jsx(SliderThumb, {})] })] }), _jsxs(FormControl, { isDisabled: !audio.enabled, children: [_jsx(FormLabel, { htmlFor: "playbackSpeed", children: "\u64AD\u653E\u901F\u5EA6" }), _jsx(Select, { id: "playbackSpeed", value: audio.playbackSpeed, onChange: e => updateSettings('audio', { playbackSpeed: Number(e.target.value) }), children: PLAYBACK_SPEED_OPTIONS.map(speed => (_jsxs("option", { value: speed, children: [speed, "x"] }, speed))) })] }), _jsxs(FormControl, { isDisabled: !audio.enabled, children: [_jsx(FormLabel, { htmlFor: "audioQuality", children: "\u97F3\u9891\u8D28\u91CF" }), _jsx(Select, { id: "audioQuality", value: audio.quality, onChange: e => updateSettings('audio', { quality: e.target.value }), children: AUDIO_QUALITY_OPTIONS.map(option => (_jsx("option", { value: option.value, children: option.label }, option.value))) })] }), _jsx(SwitchField, { id: "autoPlay", label: "\u81EA\u52A8\u64AD\u653E\u53D1\u97F3", isChecked: audio.autoPlay, isDisabled: !audio.enabled, onChange: checked => updateSettings('audio', { autoPlay: checked }) })] }), _jsxs(SettingsCard, { title: "\u5B66\u4E60", children: [renderNumberField('dailyWordGoal', '每日单词目标', '每天计划学习的单词数', 1, 200), renderNumberField('dailyTimeGoal', '每日学习时间（分钟）', '每天计划学习的时长', 5, 300, 5), _jsx(SwitchField, { id: "adaptiveDifficulty", label: "\u96BE\u5EA6\u81EA\u9002\u5E94", isChecked: learning.adaptiveDifficulty, onChange: checked => updateSettings('learning', { adaptiveDifficulty: checked }) }), _jsx(SwitchField, { id: "studyReminders", label: "\u5B66\u4E60\u63D0\u9192", isChecked: learning.studyReminders.enabled, onChange: checked => updateSettings('learning', {
+                                    studyReminders: { ...learning.studyReminders, enabled: checked },
+                                }) }), _jsxs(FormControl, { isInvalid: !!errors.reminderTime, isDisabled: !learning.studyReminders.enabled, children: [_jsx(FormLabel, { htmlFor: "reminderTime", children: "\u63D0\u9192\u65F6\u95F4" }), _jsx(Input, { id: "reminderTime", type: "time", value: values.reminderTime, onChange: e => handleFieldChange('reminderTime', e.target.value) }), _jsx(FormErrorMessage, { children: errors.reminderTime })] })] }), _jsxs(SettingsCard, { title: "\u7EC3\u4E60", children: [renderNumberField('defaultQuestionCount', '默认题目数量', '快速练习和限时挑战的题目数', 5, 50), renderNumberField('defaultTimeLimit', '每题时间限制（秒）', '限时挑战的总时间按题目数计算', 10, 120, 5), renderNumberField('sessionTimeout', '未完成练习保留时间（分钟）', '超过该时间的未完成练习会被自动放弃', 5, 1440, 5), _jsx(SwitchField, { id: "showInstantFeedback", label: "\u5373\u65F6\u53CD\u9988", isChecked: practice.showInstantFeedback, onChange: checked => updateSettings('practice', { showInstantFeedback: checked }) }), _jsx(SwitchField, { id: "showCorrectAnswer", label: "\u7B54\u9519\u65F6\u663E\u793A\u6B63\u786E\u7B54\u6848", isChecked: practice.showCorrectAnswer, onChange: checked => updateSettings('practice', { showCorrectAnswer: checked }) }), _jsx(SwitchField, { id: "hapticFeedback", label: "\u632F\u52A8\u53CD\u9988", isChecked: practice.hapticFeedback, onChange: checked => updateSettings('practice', { hapticFeedback: checked }) })] }), _jsxs(SettingsCard, { title: "\u901A\u77E5", children: [_jsx(SwitchField, { id: "notificationsEnabled", label: "\u542F\u7528\u901A\u77E5", isChecked: notifications.enabled, onChange: checked => updateSettings('notifications', { enabled: checked }) }), _jsx(SwitchField, { id: "notifyAchievements", label: "\u6210\u5C31\u901A\u77E5", isChecked: notifications.achievements, isDisabled: !notifications.enabled, onChange: checked => updateSettings('notifications', { achievements: checked }) }), _jsx(SwitchField, { id: "notifyStreak", label: "\u8FDE\u7EED\u5B66\u4E60\u63D0\u9192", isChecked: notifications.streakReminders, isDisabled: !notifications.enabled, onChange: checked => updateSettings('notifications', { streakReminders: checked }) }), _jsx(SwitchField, { id: "notifyWeekly", label: "\u6BCF\u5468\u603B\u7ED3", isChecked: notifications.weeklyReports, isDisabled: !notifications.enabled, onChange: checked => updateSettings('notifications', { weeklyReports: checked }) })] }), _jsxs(SettingsCard, { title: "\u9690\u79C1", children: [_jsx(SwitchField, { id: "allowUsageStats", label: "\u5141\u8BB8\u4F7F\u7528\u7EDF\u8BA1", isChecked: privacy.allowUsageStats, onChange: checked => updateSettings('privacy', { allowUsageStats: checked }) }), _jsx(SwitchField, { id: "allowCrashReports", label: "\u5141\u8BB8\u5D29\u6E83\u62A5\u544A", isChecked: privacy.allowCrashReports, onChange: checked => updateSettings('privacy', { allowCrashReports: checked }) }), _jsx(SwitchField, { id: "enableLocalEncryption", label: "\u672C\u5730\u6570\u636E\u52A0\u5BC6", isChecked: storageService.isEncryptionEnabled(), onChange: handleEncryptionToggle }), renderNumberField('dataRetentionDays', '数据保留时间（天）', '超过该时间的学习记录会被清理', 7, 3650)] }), _jsxs(SettingsCard, { title: "\u8BCD\u6C47\u6570\u636E", children: [_jsx(Text, { fontSize: "sm", color: "gray.600", children: "\u4EE5 CSV \u683C\u5F0F\u5BFC\u5165\u6216\u5BFC\u51FA\u8BCD\u6C47\uFF0C\u5BFC\u5165\u524D\u4F1A\u5148\u9884\u89C8\u5217\u6620\u5C04\u548C\u6BCF\u4E00\u884C\u7684\u68C0\u67E5\u7ED3\u679C" }), _jsxs(HStack, { children: [_jsx(Button, { variant: "outline", onClick: () => handleExportVocabulary('csv'), children: "\u5BFC\u51FA CSV" }), _jsx(Button, { colorScheme: "primary", onClick: importModal.onOpen, children: "\u5BFC\u5165 CSV" })] }), _jsx(Text, { fontSize: "sm", color: "gray.600", children: "\u4E0E Anki \u6216 Quizlet \u4E92\u901A\uFF0CAnki \u724C\u7EC4\u4E2D\u7684\u590D\u4E60\u8BB0\u5F55\u4F1A\u4E00\u5E76\u5BFC\u5165" }), _jsxs(HStack, { flexWrap: "wrap", children: [_jsx(Button, { variant: "outline", onClick: () => handleExportVocabulary('apkg'), children: "\u5BFC\u51FA Anki \u724C\u7EC4" }), _jsx(Button, { variant: "outline", onClick: () => handleExportVocabulary('tsv'), children: "\u5BFC\u51FA Quizlet" }), _jsx(Button, { onClick: () => deckInputRef.current?.click(), children: "\u5BFC\u5165 Anki / Quizlet" }), _jsx("input", { ref: deckInputRef, type: "file", accept: ".apkg,.tsv,.txt", onChange: handleImportDeck, style: { display: 'none' } })] }), _jsx(Text, { fontSize: "sm", color: "gray.600", children: "\u67E5\u627E\u540C\u540D\u3001\u4E92\u4E3A\u7F29\u5199\u6216\u62FC\u5199\u76F8\u8FD1\u7684\u8BCD\u6C47\u5E76\u5408\u5E76\uFF0C\u5B66\u4E60\u8BB0\u5F55\u4F1A\u4E00\u5E76\u4FDD\u7559" }), _jsx(HStack, { children: _jsx(Button, { variant: "outline", onClick: mergeModal.onOpen, children: "\u67E5\u627E\u91CD\u590D\u8BCD\u6C47" }) })] })] }), _jsx(HStack, { justify: "flex-end", children: _jsx(Button, { variant: "outline", colorScheme: "red", onClick: onReset, children: "\u6062\u590D\u9ED8\u8BA4\u8BBE\u7F6E" }) }), _jsx(EncryptionPassphraseModal, { isOpen: passphraseModal.isOpen, onClose: passphraseModal.onClose, onConfirm: handleEnableEncryption }), _jsx(VocabularyImportModal, { isOpen: importModal.isOpen, onClose: importModal.onClose }), _jsx(VocabularyMergeModal, { isOpen: mergeModal.isOpen, onClose: mergeModal.onClose })] }));
+};
 const SettingsPage = () => {
-    return (_jsxs(Box, { p: 6, children: [_jsxs(Box, { mb: 6, children: [_jsx(Heading, { size: "lg", mb: 2, color: "primary.600", children: "\u8BBE\u7F6E" }), _jsx(Text, { color: "gray.600", children: "\u4E2A\u6027\u5316\u60A8\u7684\u5B66\u4E60\u4F53\u9A8C" })] }), _jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u8BBE\u7F6E\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) })] }));
+    const { initialized, error, resetSettings } = useSettings();
+    const toast = useToast();
+    const { isOpen, onOpen, onClose } = useDisclosure();
+    const cancelRef = useRef(null);
+    const [formKey, setFormKey] = useState(0);
+    const handleConfirmReset = useCallback(() => {
+        resetSettings();
+        setFormKey(key => key + 1);
+        onClose();
+        toast({
+            title: '已恢复默认设置',
+            status: 'success',
+            duration: 2000,
+            isClosable: true,
+        });
+    }, [resetSettings, onClose, toast]);
+    return (_jsxs(Box, { p: 6, children: [_jsxs(Box, { mb: 6, children: [_jsx(Heading, { size: "lg", mb: 2, color: "primary.600", children: "\u8BBE\u7F6E" }), _jsx(Text, { color: "gray.600", children: "\u4E2A\u6027\u5316\u60A8\u7684\u5B66\u4E60\u4F53\u9A8C\uFF0C\u4FEE\u6539\u540E\u7ACB\u5373\u751F\u6548" }), error && (_jsx(Text, { color: "red.500", fontSize: "sm", mt: 2, children: error }))] }), initialized ? (_jsx(SettingsForm, { onReset: onOpen }, formKey)) : (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) })), _jsx(AlertDialog, { isOpen: isOpen, leastDestructiveRef: cancelRef, onClose: onClose, children: _jsx(AlertDialogOverlay, { children: _jsxs(AlertDialogContent, { children: [_jsx(AlertDialogHeader, { fontSize: "lg", fontWeight: "bold", children: "\u6062\u590D\u9ED8\u8BA4\u8BBE\u7F6E" }), _jsx(AlertDialogBody, { children: "\u6240\u6709\u8BBE\u7F6E\u5C06\u6062\u590D\u4E3A\u9ED8\u8BA4\u503C\uFF0C\u5B66\u4E60\u6570\u636E\u4E0D\u53D7\u5F71\u54CD\u3002\u786E\u5B9A\u7EE7\u7EED\u5417\uFF1F" }), _jsxs(AlertDialogFooter, { children: [_jsx(Button, { ref: cancelRef, onClick: onClose, children: "\u53D6\u6D88" }), _jsx(Button, { colorScheme: "red", onClick: handleConfirmReset, ml: 3, children: "\u6062\u590D\u9ED8\u8BA4" })] })] }) }) })] }));
 };
 export default SettingsPage;
@@ -1,10 +1,760 @@
-import React from 'react';
-import { Box, Heading, Text } from '@chakra-ui/react';
+import React, { useState, useRef, useCallback } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Switch,
+  Select,
+  Input,
+  FormControl,
+  FormLabel,
+  FormErrorMessage,
+  FormHelperText,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  Slider,
+  SliderTrack,
+  SliderFilledTrack,
+  SliderThumb,
+  SimpleGrid,
+  Spinner,
+  Center,
+  AlertDialog,
+  AlertDialogOverlay,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogBody,
+  AlertDialogFooter,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  useDisclosure,
+  useToast,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { useSettings } from '@/hooks/useSettings';
+import useFormValidation from '@/hooks/useFormValidation';
+import { CommonRules, ValidationRule, validateField } from '@/utils/validation';
+import { UserSettings, UISettings, AudioSettings, ThemeMode, Language } from '@/types';
+import { SettingsSection } from '@/contexts/SettingsContext';
+import { storageService } from '@/services/storage';
+import { vocabularyStore } from '@/services/vocabularyStore';
+import { vocabularyService } from '@/services/vocabularyService';
+import { VocabularyImportModal } from '@/components/vocabulary/VocabularyImportModal';
+import { VocabularyMergeModal } from '@/components/vocabulary/VocabularyMergeModal';
+
+/**
+ * 需要校验的数值和文本设置
+ */
+interface SettingsFormValues {
+  dailyWordGoal: number;
+  dailyTimeGoal: number;
+  reminderTime: string;
+  defaultQuestionCount: number;
+  defaultTimeLimit: number;
+  sessionTimeout: number;
+  dataRetentionDays: number;
+}
+
+/**
+ * 数值范围校验规则
+ */
+const rangeRule = (min: number, max: number): ValidationRule =>
+  CommonRules.custom(
+    value => Number.isInteger(value) && value >= min && value <= max,
+    `请输入 ${min} 到 ${max} 之间的整数`
+  );
+
+/**
+ * 设置表单校验规则
+ */
+const SETTINGS_VALIDATION_RULES: Record<keyof SettingsFormValues, ValidationRule[]> = {
+  dailyWordGoal: [CommonRules.required(), rangeRule(1, 200)],
+  dailyTimeGoal: [CommonRules.required(), rangeRule(5, 300)],
+  reminderTime: [
+    CommonRules.required(),
+    { pattern: /^([01]\d|2[0-3]):[0-5]\d$/, message: '请输入 HH:MM 格式的时间' },
+  ],
+  defaultQuestionCount: [CommonRules.required(), rangeRule(5, 50)],
+  defaultTimeLimit: [CommonRules.required(), rangeRule(10, 120)],
+  sessionTimeout: [CommonRules.required(), rangeRule(5, 1440)],
+  dataRetentionDays: [CommonRules.required(), rangeRule(7, 3650)],
+};
+
+/**
+ * 把用户设置转换为表单值
+ */
+const toFormValues = (settings: UserSettings): SettingsFormValues => ({
+  dailyWordGoal: settings.learning.dailyWordGoal,
+  dailyTimeGoal: settings.learning.dailyTimeGoal,
+  reminderTime: settings.learning.studyReminders.time,
+  defaultQuestionCount: settings.practice.defaultQuestionCount,
+  defaultTimeLimit: settings.practice.defaultTimeLimit,
+  sessionTimeout: settings.practice.sessionTimeout,
+  dataRetentionDays: settings.privacy.dataRetentionDays,
+});
+
+/**
+ * 把单个表单字段转换为对应分组的设置更新
+ */
+const toSectionUpdate = (
+  settings: UserSettings,
+  field: keyof SettingsFormValues,
+  value: SettingsFormValues[keyof SettingsFormValues]
+): { section: SettingsSection; values: Record<string, unknown> } => {
+  switch (field) {
+    case 'dailyWordGoal':
+    case 'dailyTimeGoal':
+      return { section: 'learning', values: { [field]: value } };
+    case 'reminderTime':
+      return {
+        section: 'learning',
+        values: { studyReminders: { ...settings.learning.studyReminders, time: value } },
+      };
+    case 'dataRetentionDays':
+      return { section: 'privacy', values: { dataRetentionDays: value } };
+    default:
+      return { section: 'practice', values: { [field]: value } };
+  }
+};
+
+const THEME_MODE_OPTIONS: Array<{ value: ThemeMode; label: string }> = [
+  { value: ThemeMode.LIGHT, label: '浅色' },
+  { value: ThemeMode.DARK, label: '深色' },
+  { value: ThemeMode.SYSTEM, label: '跟随系统' },
+];
+
+const FONT_SIZE_OPTIONS: Array<{ value: UISettings['fontSize']; label: string }> = [
+  { value: 'small', label: '小' },
+  { value: 'medium', label: '标准' },
+  { value: 'large', label: '大' },
+  { value: 'extra-large', label: '特大' },
+];
+
+const PLAYBACK_SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const AUDIO_QUALITY_OPTIONS: Array<{ value: AudioSettings['quality']; label: string }> = [
+  { value: 'low', label: '低' },
+  { value: 'medium', label: '中' },
+  { value: 'high', label: '高' },
+];
+
+/**
+ * 设置分组卡片
+ */
+const SettingsCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => {
+  const cardBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  return (
+    <Box bg={cardBg} p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor={borderColor}>
+      <Heading size="sm" mb={4}>
+        {title}
+      </Heading>
+      <VStack spacing={4} align="stretch">
+        {children}
+      </VStack>
+    </Box>
+  );
+};
+
+/**
+ * 导出文件类型
+ */
+const EXPORT_MIME_TYPES = {
+  csv: 'text/csv;charset=utf-8',
+  tsv: 'text/tab-separated-values;charset=utf-8',
+  apkg: 'application/octet-stream',
+};
+
+/**
+ * 开关设置项
+ */
+const SwitchField: React.FC<{
+  id: string;
+  label: string;
+  isChecked: boolean;
+  onChange: (checked: boolean) => void;
+  isDisabled?: boolean;
+}> = ({ id, label, isChecked, onChange, isDisabled }) => (
+  <FormControl display="flex" alignItems="center" justifyContent="space-between" isDisabled={isDisabled}>
+    <FormLabel htmlFor={id} mb={0}>
+      {label}
+    </FormLabel>
+    <Switch id={id} colorScheme="primary" isChecked={isChecked} onChange={e => onChange(e.target.checked)} />
+  </FormControl>
+);
+
+/**
+ * 加密口令校验规则
+ */
+const PASSPHRASE_RULES: ValidationRule[] = [
+  CommonRules.required('请输入密码'),
+  CommonRules.minLength(8, '密码至少需要 8 个字符'),
+];
+
+/**
+ * 设置加密口令的弹窗
+ */
+const EncryptionPassphraseModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (passphrase: string) => Promise<void>;
+}> = ({ isOpen, onClose, onConfirm }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleClose = useCallback(() => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  const handleConfirm = useCallback(async () => {
+    const result = validateField(passphrase, PASSPHRASE_RULES);
+    if (!result.isValid) {
+      setError(result.errors[0]);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('两次输入的密码不一致');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(passphrase);
+      handleClose();
+    } catch (confirmError) {
+      console.error('Failed to enable encryption:', confirmError);
+      setError('启用加密失败，请稍后重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [passphrase, confirmation, onConfirm, handleClose]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} isCentered>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>设置加密密码</ModalHeader>
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <Text fontSize="sm" color="gray.600">
+              本地学习数据将使用该密码加密，每次打开应用时需要输入。密码无法找回，请妥善保管。
+            </Text>
+            <FormControl isInvalid={!!error}>
+              <FormLabel htmlFor="encryptionPassphrase">密码</FormLabel>
+              <Input
+                id="encryptionPassphrase"
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+              />
+            </FormControl>
+            <FormControl isInvalid={!!error}>
+              <FormLabel htmlFor="encryptionPassphraseConfirm">确认密码</FormLabel>
+              <Input
+                id="encryptionPassphraseConfirm"
+                type="password"
+                value={confirmation}
+                onChange={e => setConfirmation(e.target.value)}
+              />
+              {error && <FormErrorMessage>{error}</FormErrorMessage>}
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button mr={3} onClick={handleClose}>
+            取消
+          </Button>
+          <Button colorScheme="primary" onClick={handleConfirm} isLoading={isSubmitting}>
+            启用加密
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+/**
+ * 设置表单
+ * 开关和选择项修改后立即保存，数值项通过校验后才保存
+ */
+const SettingsForm: React.FC<{ onReset: () => void }> = ({ onReset }) => {
+  const { settings, updateSettings } = useSettings();
+  const toast = useToast();
+  const passphraseModal = useDisclosure();
+  const importModal = useDisclosure();
+  const mergeModal = useDisclosure();
+  const deckInputRef = useRef<HTMLInputElement>(null);
+  const [initialValues] = useState(() => toFormValues(settings));
+  const { values, errors, setValue } = useFormValidation<SettingsFormValues>(
+    initialValues,
+    SETTINGS_VALIDATION_RULES,
+    { debounceMs: 0 }
+  );
+
+  /**
+   * 更新需要校验的字段，校验通过时立即保存
+   */
+  const handleFieldChange = useCallback(<K extends keyof SettingsFormValues>(
+    field: K,
+    value: SettingsFormValues[K]
+  ) => {
+    setValue(field, value);
+
+    if (validateField(value, SETTINGS_VALIDATION_RULES[field]).isValid) {
+      const { section, values: sectionValues } = toSectionUpdate(settings, field, value);
+      updateSettings(section, sectionValues);
+    }
+  }, [setValue, settings, updateSettings]);
+
+  /**
+   * 设置口令后加密现有数据
+   */
+  const handleEnableEncryption = useCallback(async (passphrase: string) => {
+    await storageService.enableEncryption(passphrase);
+    // 词汇数据移回 localStorage 以便一起加密
+    await vocabularyStore.relocate();
+    updateSettings('privacy', { enableLocalEncryption: true });
+    toast({ title: '已启用本地数据加密', status: 'success', duration: 2000, isClosable: true });
+  }, [updateSettings, toast]);
+
+  /**
+   * 开启时先设置口令，关闭时把数据改回明文保存
+   */
+  const handleEncryptionToggle = useCallback(async (checked: boolean) => {
+    if (checked) {
+      passphraseModal.onOpen();
+      return;
+    }
+
+    try {
+      await storageService.disableEncryption();
+      await vocabularyStore.relocate();
+      updateSettings('privacy', { enableLocalEncryption: false });
+      toast({ title: '已关闭本地数据加密', status: 'info', duration: 2000, isClosable: true });
+    } catch (error) {
+      console.error('Failed to disable encryption:', error);
+      toast({ title: '关闭加密失败', status: 'error', duration: 3000, isClosable: true });
+    }
+  }, [passphraseModal, updateSettings, toast]);
+
+  /**
+   * 导出全部词汇，支持 CSV、Quizlet TSV 和 Anki 牌组
+   */
+  const handleExportVocabulary = useCallback(async (format: 'csv' | 'tsv' | 'apkg') => {
+    const result = format === 'apkg'
+      ? await vocabularyService.exportAnkiPackage()
+      : await vocabularyService.exportVocabulary(format);
+    if (!result.success || result.data === undefined) {
+      toast({ title: '导出失败', description: result.message, status: 'error', duration: 3000, isClosable: true });
+      return;
+    }
+
+    // CSV 加上 BOM，Excel 打开时才能正确识别中文
+    const parts = (format === 'csv' ? ['\uFEFF', result.data] : [result.data]) as BlobPart[];
+    const blob = new Blob(parts, { type: EXPORT_MIME_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `web3-vocabulary-${new Date().toISOString().split('T')[0]}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [toast]);
+
+  /**
+   * 导入 Anki 牌组或 Quizlet TSV，无效和重复的词汇会被跳过
+   */
+  const handleImportDeck = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = file.name.toLowerCase().endsWith('.apkg')
+      ? await vocabularyService.importAnkiPackage(await file.arrayBuffer())
+      : await vocabularyService.importVocabulary(await file.text(), 'tsv');
+    toast({
+      title: result.success ? '导入完成' : '导入失败',
+      description: result.message,
+      status: result.success ? 'success' : 'error',
+      duration: 4000,
+      isClosable: true,
+    });
+  }, [toast]);
+
+  /**
+   * 数值输入框
+   */
+  const renderNumberField = (
+    field: keyof SettingsFormValues,
+    label: string,
+    helperText: string,
+    min: number,
+    max: number,
+    step = 1
+  ) => (
+    <FormControl isInvalid={!!errors[field]}>
+      <FormLabel htmlFor={field}>{label}</FormLabel>
+      <NumberInput
+        id={field}
+        min={min}
+        max={max}
+        step={step}
+        value={Number.isNaN(values[field]) ? '' : values[field]}
+        onChange={(_, valueAsNumber) => handleFieldChange(field, valueAsNumber)}
+        keepWithinRange={false}
+        clampValueOnBlur={false}
+      >
+        <NumberInputField />
+        <NumberInputStepper>
+          <NumberIncrementStepper />
+          <NumberDecrementStepper />
+        </NumberInputStepper>
+      </NumberInput>
+      {errors[field] ? (
+        <FormErrorMessage>{errors[field]}</FormErrorMessage>
+      ) : (
+        <FormHelperText>{helperText}</FormHelperText>
+      )}
+    </FormControl>
+  );
+
+  const { ui, audio, learning, practice, privacy, notifications } = settings;
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+        {/* 界面设置 */}
+        <SettingsCard title="界面">
+          <FormControl>
+            <FormLabel htmlFor="themeMode">主题模式</FormLabel>
+            <Select
+              id="themeMode"
+              value={ui.themeMode}
+              onChange={e => updateSettings('ui', { themeMode: e.target.value as ThemeMode })}
+            >
+              {THEME_MODE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl>
+            <FormLabel htmlFor="fontSize">字体大小</FormLabel>
+            <Select
+              id="fontSize"
+              value={ui.fontSize}
+              onChange={e => updateSettings('ui', { fontSize: e.target.value as UISettings['fontSize'] })}
+            >
+              {FONT_SIZE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl>
+            <FormLabel htmlFor="language">语言</FormLabel>
+            <Select
+              id="language"
+              value={ui.language}
+              onChange={e => updateSettings('ui', { language: e.target.value as Language })}
+            >
+              <option value={Language.ZH_CN}>简体中文</option>
+              <option value={Language.EN_US}>English</option>
+            </Select>
+          </FormControl>
+          <SwitchField
+            id="enableAnimations"
+            label="启用动画"
+            isChecked={ui.enableAnimations}
+            onChange={checked => updateSettings('ui', { enableAnimations: checked })}
+          />
+          <SwitchField
+            id="highContrast"
+            label="高对比度"
+            isChecked={ui.highContrast}
+            onChange={checked => updateSettings('ui', { highContrast: checked })}
+          />
+        </SettingsCard>
+
+        {/* 音频设置 */}
+        <SettingsCard title="音频">
+          <SwitchField
+            id="audioEnabled"
+            label="启用音频"
+            isChecked={audio.enabled}
+            onChange={checked => updateSettings('audio', { enabled: checked })}
+          />
+          <FormControl isDisabled={!audio.enabled}>
+            <FormLabel htmlFor="volume">音量 {Math.round(audio.volume * 100)}%</FormLabel>
+            <Slider
+              id="volume"
+              min={0}
+              max={1}
+              step={0.05}
+              value={audio.volume}
+              onChange={value => updateSettings('audio', { volume: value })}
+            >
+              <SliderTrack>
+                <SliderFilledTrack />
+              </SliderTrack>
+              <SliderThumb />
+            </Slider>
+          </FormControl>
+          <FormControl isDisabled={!audio.enabled}>
+            <FormLabel htmlFor="playbackSpeed">播放速度</FormLabel>
+            <Select
+              id="playbackSpeed"
+              value={audio.playbackSpeed}
+              onChange={e => updateSettings('audio', { playbackSpeed: Number(e.target.value) })}
+            >
+              {PLAYBACK_SPEED_OPTIONS.map(speed => (
+                <option key={speed} value={speed}>
+                  {speed}x
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl isDisabled={!audio.enabled}>
+            <FormLabel htmlFor="audioQuality">音频质量</FormLabel>
+            <Select
+              id="audioQuality"
+              value={audio.quality}
+              onChange={e => updateSettings('audio', { quality: e.target.value as AudioSettings['quality'] })}
+            >
+              {AUDIO_QUALITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+          <SwitchField
+            id="autoPlay"
+            label="自动播放发音"
+            isChecked={audio.autoPlay}
+            isDisabled={!audio.enabled}
+            onChange={checked => updateSettings('audio', { autoPlay: checked })}
+          />
+        </SettingsCard>
+
+        {/* 学习设置 */}
+        <SettingsCard title="学习">
+          {renderNumberField('dailyWordGoal', '每日单词目标', '每天计划学习的单词数', 1, 200)}
+          {renderNumberField('dailyTimeGoal', '每日学习时间（分钟）', '每天计划学习的时长', 5, 300, 5)}
+          <SwitchField
+            id="adaptiveDifficulty"
+            label="难度自适应"
+            isChecked={learning.adaptiveDifficulty}
+            onChange={checked => updateSettings('learning', { adaptiveDifficulty: checked })}
+          />
+          <SwitchField
+            id="studyReminders"
+            label="学习提醒"
+            isChecked={learning.studyReminders.enabled}
+            onChange={checked => updateSettings('learning', {
+              studyReminders: { ...learning.studyReminders, enabled: checked },
+            })}
+          />
+          <FormControl isInvalid={!!errors.reminderTime} isDisabled={!learning.studyReminders.enabled}>
+            <FormLabel htmlFor="reminderTime">提醒时间</FormLabel>
+            <Input
+              id="reminderTime"
+              type="time"
+              value={values.reminderTime}
+              onChange={e => handleFieldChange('reminderTime', e.target.value)}
+            />
+            <FormErrorMessage>{errors.reminderTime}</FormErrorMessage>
+          </FormControl>
+        </SettingsCard>
+
+        {/* 练习设置 */}
+        <SettingsCard title="练习">
+          {renderNumberField('defaultQuestionCount', '默认题目数量', '快速练习和限时挑战的题目数', 5, 50)}
+          {renderNumberField('defaultTimeLimit', '每题时间限制（秒）', '限时挑战的总时间按题目数计算', 10, 120, 5)}
+          {renderNumberField('sessionTimeout', '未完成练习保留时间（分钟）', '超过该时间的未完成练习会被自动放弃', 5, 1440, 5)}
+          <SwitchField
+            id="showInstantFeedback"
+            label="即时反馈"
+            isChecked={practice.showInstantFeedback}
+            onChange={checked => updateSettings('practice', { showInstantFeedback: checked })}
+          />
+          <SwitchField
+            id="showCorrectAnswer"
+            label="答错时显示正确答案"
+            isChecked={practice.showCorrectAnswer}
+            onChange={checked => updateSettings('practice', { showCorrectAnswer: checked })}
+          />
+          <SwitchField
+            id="hapticFeedback"
+            label="振动反馈"
+            isChecked={practice.hapticFeedback}
+            onChange={checked => updateSettings('practice', { hapticFeedback: checked })}
+          />
+        </SettingsCard>
+
+        {/* 通知设置 */}
+        <SettingsCard title="通知">
+          <SwitchField
+            id="notificationsEnabled"
+            label="启用通知"
+            isChecked={notifications.enabled}
+            onChange={checked => updateSettings('notifications', { enabled: checked })}
+          />
+          <SwitchField
+            id="notifyAchievements"
+            label="成就通知"
+            isChecked={notifications.achievements}
+            isDisabled={!notifications.enabled}
+            onChange={checked => updateSettings('notifications', { achievements: checked })}
+          />
+          <SwitchField
+            id="notifyStreak"
+            label="连续学习提醒"
+            isChecked={notifications.streakReminders}
+            isDisabled={!notifications.enabled}
+            onChange={checked => updateSettings('notifications', { streakReminders: checked })}
+          />
+          <SwitchField
+            id="notifyWeekly"
+            label="每周总结"
+            isChecked={notifications.weeklyReports}
+            isDisabled={!notifications.enabled}
+            onChange={checked => updateSettings('notifications', { weeklyReports: checked })}
+          />
+        </SettingsCard>
+
+        {/* 隐私设置 */}
+        <SettingsCard title="隐私">
+          <SwitchField
+            id="allowUsageStats"
+            label="允许使用统计"
+            isChecked={privacy.allowUsageStats}
+            onChange={checked => updateSettings('privacy', { allowUsageStats: checked })}
+          />
+          <SwitchField
+            id="allowCrashReports"
+            label="允许崩溃报告"
+            isChecked={privacy.allowCrashReports}
+            onChange={checked => updateSettings('privacy', { allowCrashReports: checked })}
+          />
+          {/* 以存储的实际加密状态为准，恢复默认设置不会关闭已启用的加密 */}
+          <SwitchField
+            id="enableLocalEncryption"
+            label="本地数据加密"
+            isChecked={storageService.isEncryptionEnabled()}
+            onChange={handleEncryptionToggle}
+          />
+          {renderNumberField('dataRetentionDays', '数据保留时间（天）', '超过该时间的学习记录会被清理', 7, 3650)}
+        </SettingsCard>
+
+        {/* 词汇数据 */}
+        <SettingsCard title="词汇数据">
+          <Text fontSize="sm" color="gray.600">
+            以 CSV 格式导入或导出词汇，导入前会先预览列映射和每一行的检查结果
+          </Text>
+          <HStack>
+            <Button variant="outline" onClick={() => handleExportVocabulary('csv')}>
+              导出 CSV
+            </Button>
+            <Button colorScheme="primary" onClick={importModal.onOpen}>
+              导入 CSV
+            </Button>
+          </HStack>
+          <Text fontSize="sm" color="gray.600">
+            与 Anki 或 Quizlet 互通，Anki 牌组中的复习记录会一并导入
+          </Text>
+          <HStack flexWrap="wrap">
+            <Button variant="outline" onClick={() => handleExportVocabulary('apkg')}>
+              导出 Anki 牌组
+            </Button>
+            <Button variant="outline" onClick={() => handleExportVocabulary('tsv')}>
+              导出 Quizlet
+            </Button>
+            <Button onClick={() => deckInputRef.current?.click()}>
+              导入 Anki / Quizlet
+            </Button>
+            <input
+              ref={deckInputRef}
+              type="file"
+              accept=".apkg,.tsv,.txt"
+              onChange={handleImportDeck}
+              style={{ display: 'none' }}
+            />
+          </HStack>
+          <Text fontSize="sm" color="gray.600">
+            查找同名、互为缩写或拼写相近的词汇并合并，学习记录会一并保留
+          </Text>
+          <HStack>
+            <Button variant="outline" onClick={mergeModal.onOpen}>
+              查找重复词汇
+            </Button>
+          </HStack>
+        </SettingsCard>
+      </SimpleGrid>
+
+      <HStack justify="flex-end">
+        <Button variant="outline" colorScheme="red" onClick={onReset}>
+          恢复默认设置
+        </Button>
+      </HStack>
+
+      <EncryptionPassphraseModal
+        isOpen={passphraseModal.isOpen}
+        onClose={passphraseModal.onClose}
+        onConfirm={handleEnableEncryption}
+      />
+
+      <VocabularyImportModal isOpen={importModal.isOpen} onClose={importModal.onClose} />
+      <VocabularyMergeModal isOpen={mergeModal.isOpen} onClose={mergeModal.onClose} />
+    </VStack>
+  );
+};
 
 /**
  * 设置页面组件
  */
 const SettingsPage: React.FC = () => {
+  const { initialized, error, resetSettings } = useSettings();
+  const toast = useToast();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  // 恢复默认设置后重新挂载表单，让表单值与新设置一致
+  const [formKey, setFormKey] = useState(0);
+
+  /**
+   * 确认恢复默认设置
+   */
+  const handleConfirmReset = useCallback(() => {
+    resetSettings();
+    setFormKey(key => key + 1);
+    onClose();
+    toast({
+      title: '已恢复默认设置',
+      status: 'success',
+      duration: 2000,
+      isClosable: true,
+    });
+  }, [resetSettings, onClose, toast]);
+
   return (
     <Box p={6}>
       <Box mb={6}>
@@ -12,24 +762,45 @@ const SettingsPage: React.FC = () => {
           设置
         </Heading>
         <Text color="gray.600">
-          个性化您的学习体验
-        </Text>
-      </Box>
-      
-      <Box
-        bg="white"
-        p={6}
-        borderRadius="xl"
-        boxShadow="sm"
-        border="1px solid"
-        borderColor="gray.200"
-      >
-        <Text color="gray.500" textAlign="center">
-          设置页面功能开发中...
+          个性化您的学习体验，修改后立即生效
         </Text>
+        {error && (
+          <Text color="red.500" fontSize="sm" mt={2}>
+            {error}
+          </Text>
+        )}
       </Box>
+
+      {initialized ? (
+        <SettingsForm key={formKey} onReset={onOpen} />
+      ) : (
+        <Center h="200px">
+          <Spinner size="lg" color="primary.500" />
+        </Center>
+      )}
+
+      <AlertDialog isOpen={isOpen} leastDestructiveRef={cancelRef} onClose={onClose}>
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              恢复默认设置
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              所有设置将恢复为默认值，学习数据不受影响。确定继续吗？
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={onClose}>
+                取消
+              </Button>
+              <Button colorScheme="red" onClick={handleConfirmReset} ml={3}>
+                恢复默认
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
     </Box>
   );
 };
 
-export default SettingsPage;
\ No newline at end of file
+export default SettingsPage;
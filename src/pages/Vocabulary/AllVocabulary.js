@@ -1,6 +1,12 @@
 import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
 const AllVocabularyPage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u5168\u90E8\u8BCD\u6C47\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const { vocabulary, favorites, loading, reload } = useVocabularyList();
+    if (loading) {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    return (_jsx(VocabularyBrowser, { items: vocabulary, vocabulary: vocabulary, favorites: favorites, emptyText: "\u8FD8\u6CA1\u6709\u8BCD\u6C47\uFF0C\u53BB\u6DFB\u52A0\u6216\u5BFC\u5165\u4E00\u4E9B\u8BCD\u6C47\u5427", onChanged: reload }));
 };
 export default AllVocabularyPage;
@@ -1,21 +1,32 @@
 import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
 
+/**
+ * 全部词汇页面
+ * 浏览、筛选和批量管理全部词汇，最近添加的在前
+ */
 const AllVocabularyPage: React.FC = () => {
+  const { vocabulary, favorites, loading, reload } = useVocabularyList();
+
+  if (loading) {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        全部词汇页面功能开发中...
-      </Text>
-    </Box>
+    <VocabularyBrowser
+      items={vocabulary}
+      vocabulary={vocabulary}
+      favorites={favorites}
+      emptyText="还没有词汇，去添加或导入一些词汇吧"
+      onChanged={reload}
+    />
   );
 };
 
-export default AllVocabularyPage;
\ No newline at end of file
+export default AllVocabularyPage;
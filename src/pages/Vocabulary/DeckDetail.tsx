@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Text,
+  Button,
+  Badge,
+  IconButton,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Spinner,
+  Center,
+  Wrap,
+  WrapItem,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+import { ArrowUpIcon, ArrowDownIcon, CloseIcon, AddIcon, EditIcon, SearchIcon, ChevronLeftIcon } from '@chakra-ui/icons';
+import { useNavigate, useParams } from 'react-router-dom';
+import { VocabularyDeck, VocabularyItem, OperationResult } from '@/types';
+import { DeckFormModal } from '@/components/vocabulary/DeckFormModal';
+import { SearchHighlight } from '@/components/vocabulary/SearchHighlight';
+import { deckService, resolveDeckVocabulary, DeckInput } from '@/services/deckService';
+import { vocabularyService } from '@/services/vocabularyService';
+import { VocabularySearchResult } from '@/services/vocabularySearch';
+
+const SEARCH_LIMIT = 8;
+
+/**
+ * 卡组详情页面
+ * 按顺序查看卡组中的词汇，调整顺序、移除词汇，或搜索词汇加入卡组
+ */
+const DeckDetailPage: React.FC = () => {
+  const { deckId = '' } = useParams<{ deckId: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
+  const [deck, setDeck] = useState<VocabularyDeck | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<VocabularySearchResult[]>([]);
+
+  useEffect(() => {
+    setLoadError(null);
+    Promise.all([deckService.getDeck(deckId), vocabularyService.getAllVocabulary()])
+      .then(([found, items]) => {
+        setDeck(found);
+        setVocabulary(items);
+      })
+      .catch(error => {
+        console.error('Failed to load deck:', error);
+        setLoadError('加载卡组失败，请稍后重试');
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [deckId]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    vocabularyService.search(query, { limit: SEARCH_LIMIT }).then(found => {
+      if (!cancelled) setResults(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const words = useMemo(() => (deck ? resolveDeckVocabulary(deck, vocabulary) : []), [deck, vocabulary]);
+  const wordIds = useMemo(() => new Set(deck?.wordIds), [deck]);
+
+  /**
+   * 应用卡组修改的结果，失败时提示
+   */
+  const applyResult = useCallback(
+    (result: OperationResult<VocabularyDeck>) => {
+      if (result.success && result.data) {
+        setDeck(result.data);
+      } else {
+        toast({ title: result.error, status: 'error', duration: 3000, isClosable: true });
+      }
+    },
+    [toast]
+  );
+
+  const handleSubmit = async (input: DeckInput): Promise<string | null> => {
+    const result = await deckService.updateDeck(deckId, input);
+    if (!result.success) {
+      return result.error ?? '保存失败';
+    }
+    setDeck(result.data ?? null);
+    return null;
+  };
+
+  /**
+   * 移动词汇。卡组里可能还留着已删除词汇的ID，所以要换算成wordIds中的位置
+   */
+  const handleMove = async (index: number, offset: number) => {
+    const from = deck!.wordIds.indexOf(words[index].id);
+    const to = deck!.wordIds.indexOf(words[index + offset].id);
+    applyResult(await deckService.moveWord(deckId, from, to));
+  };
+
+  if (loading) {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
+  if (!deck) {
+    return (
+      <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+        <VStack spacing={4}>
+          <Text color={loadError ? 'red.500' : 'gray.500'}>{loadError ?? '卡组不存在或已被删除'}</Text>
+          <Button size="sm" onClick={() => navigate('/vocabulary/decks')}>
+            返回我的卡组
+          </Button>
+        </VStack>
+      </Box>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+        <VStack align="stretch" spacing={3}>
+          <HStack justify="space-between">
+            <HStack>
+              <IconButton
+                aria-label="返回我的卡组"
+                icon={<ChevronLeftIcon />}
+                size="sm"
+                variant="ghost"
+                onClick={() => navigate('/vocabulary/decks')}
+              />
+              <Heading size="md">{deck.name}</Heading>
+            </HStack>
+            <HStack>
+              <Button leftIcon={<EditIcon />} size="sm" variant="outline" onClick={onOpen}>
+                编辑
+              </Button>
+              <Button
+                size="sm"
+                colorScheme="primary"
+                isDisabled={words.length === 0}
+                onClick={() => navigate('/practice/quick', { state: { deckId: deck.id } })}
+              >
+                开始练习
+              </Button>
+            </HStack>
+          </HStack>
+          {deck.description && <Text color="gray.600">{deck.description}</Text>}
+          <Wrap spacing={2}>
+            <WrapItem>
+              <Badge colorScheme="primary">{words.length} 个词汇</Badge>
+            </WrapItem>
+            <WrapItem>
+              <Badge>{deck.settings.randomOrder ? '随机顺序' : '按卡组顺序'}</Badge>
+            </WrapItem>
+            {deck.settings.questionCount && (
+              <WrapItem>
+                <Badge>每次 {deck.settings.questionCount} 题</Badge>
+              </WrapItem>
+            )}
+          </Wrap>
+        </VStack>
+      </Box>
+
+      <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+        <VStack align="stretch" spacing={3}>
+          <Heading size="sm">添加词汇</Heading>
+          <InputGroup>
+            <InputLeftElement pointerEvents="none">
+              <SearchIcon color="gray.400" />
+            </InputLeftElement>
+            <Input value={query} placeholder="搜索单词、释义或拼音" onChange={event => setQuery(event.target.value)} />
+          </InputGroup>
+          {results.map(({ item, highlights }) => (
+            <HStack key={item.id} justify="space-between" align="start">
+              <Box minW={0}>
+                <Text fontWeight="semibold">{item.word}</Text>
+                <SearchHighlight highlights={highlights} excludeFields={['word']} maxItems={1} />
+              </Box>
+              <IconButton
+                aria-label={`把 ${item.word} 加入卡组`}
+                icon={<AddIcon />}
+                size="sm"
+                variant="ghost"
+                isDisabled={wordIds.has(item.id)}
+                onClick={async () => applyResult(await deckService.addWords(deckId, [item.id]))}
+              />
+            </HStack>
+          ))}
+        </VStack>
+      </Box>
+
+      <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+        {words.length === 0 ? (
+          <Text color="gray.500" textAlign="center">
+            卡组中还没有词汇
+          </Text>
+        ) : (
+          <VStack align="stretch" spacing={2}>
+            {words.map((item, index) => (
+              <HStack key={item.id} justify="space-between" py={1} borderBottom="1px solid" borderColor="gray.100">
+                <HStack minW={0}>
+                  <Text color="gray.400" fontSize="sm" w="2em" textAlign="right">
+                    {index + 1}
+                  </Text>
+                  <Text fontWeight="semibold">{item.word}</Text>
+                  <Text color="gray.600" fontSize="sm" noOfLines={1}>
+                    {item.definition}
+                  </Text>
+                </HStack>
+                <HStack spacing={1}>
+                  <IconButton
+                    aria-label="上移"
+                    icon={<ArrowUpIcon />}
+                    size="xs"
+                    variant="ghost"
+                    isDisabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                  />
+                  <IconButton
+                    aria-label="下移"
+                    icon={<ArrowDownIcon />}
+                    size="xs"
+                    variant="ghost"
+                    isDisabled={index === words.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                  />
+                  <IconButton
+                    aria-label="从卡组中移除"
+                    icon={<CloseIcon />}
+                    size="xs"
+                    variant="ghost"
+                    colorScheme="red"
+                    onClick={async () => applyResult(await deckService.removeWords(deckId, [item.id]))}
+                  />
+                </HStack>
+              </HStack>
+            ))}
+          </VStack>
+        )}
+      </Box>
+
+      <DeckFormModal isOpen={isOpen} onClose={onClose} deck={deck} onSubmit={handleSubmit} />
+    </VStack>
+  );
+};
+
+export default DeckDetailPage;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Heading,
+  Text,
+  Button,
+  Badge,
+  IconButton,
+  Spinner,
+  Center,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+import { AddIcon, EditIcon, DeleteIcon } from '@chakra-ui/icons';
+import { useNavigate } from 'react-router-dom';
+import { VocabularyDeck } from '@/types';
+import { DeckFormModal } from '@/components/vocabulary/DeckFormModal';
+import { deckService, DeckInput } from '@/services/deckService';
+
+/**
+ * 我的卡组页面
+ * 列出用户自建的卡组，可以新建、编辑、删除并直接开始练习
+ */
+const DecksPage: React.FC = () => {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [decks, setDecks] = useState<VocabularyDeck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingDeck, setEditingDeck] = useState<VocabularyDeck | null>(null);
+
+  const loadDecks = useCallback(async () => {
+    setDecks(await deckService.getAllDecks());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadDecks();
+  }, [loadDecks]);
+
+  const openForm = (deck: VocabularyDeck | null) => {
+    setEditingDeck(deck);
+    onOpen();
+  };
+
+  /**
+   * 保存卡组，失败时把错误信息交给表单显示
+   */
+  const handleSubmit = async (input: DeckInput): Promise<string | null> => {
+    const result = editingDeck
+      ? await deckService.updateDeck(editingDeck.id, input)
+      : await deckService.createDeck(input);
+    if (!result.success) {
+      return result.error ?? '保存失败';
+    }
+    await loadDecks();
+    if (!editingDeck && result.data) {
+      navigate(`/vocabulary/decks/${result.data.id}`);
+    }
+    return null;
+  };
+
+  const handleDelete = async (deck: VocabularyDeck) => {
+    if (!window.confirm(`确定删除卡组 "${deck.name}" 吗？卡组中的词汇不会被删除。`)) return;
+    const result = await deckService.deleteDeck(deck.id);
+    toast({
+      title: result.success ? result.message : result.error,
+      status: result.success ? 'success' : 'error',
+      duration: 3000,
+      isClosable: true,
+    });
+    await loadDecks();
+  };
+
+  if (loading) {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <HStack justify="space-between">
+        <Heading size="md">我的卡组</Heading>
+        <Button leftIcon={<AddIcon />} colorScheme="primary" size="sm" onClick={() => openForm(null)}>
+          新建卡组
+        </Button>
+      </HStack>
+
+      {decks.length === 0 ? (
+        <Box bg="white" p={6} borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="gray.200">
+          <Text color="gray.500" textAlign="center">
+            还没有卡组。把需要一起复习的词汇放进卡组，就可以只针对它们练习。
+          </Text>
+        </Box>
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2, xl: 3 }} spacing={4}>
+          {decks.map(deck => (
+            <Box
+              key={deck.id}
+              bg="white"
+              p={5}
+              borderRadius="xl"
+              boxShadow="sm"
+              border="1px solid"
+              borderColor="gray.200"
+              cursor="pointer"
+              _hover={{ borderColor: 'primary.300' }}
+              onClick={() => navigate(`/vocabulary/decks/${deck.id}`)}
+            >
+              <VStack align="stretch" spacing={3}>
+                <HStack justify="space-between" align="start">
+                  <Heading size="sm" noOfLines={1}>
+                    {deck.name}
+                  </Heading>
+                  <Badge colorScheme="primary">{deck.wordIds.length} 个词汇</Badge>
+                </HStack>
+                <Text fontSize="sm" color="gray.600" noOfLines={2} minH="2.5em">
+                  {deck.description || '暂无说明'}
+                </Text>
+                <HStack justify="space-between" onClick={event => event.stopPropagation()}>
+                  <Button
+                    size="sm"
+                    colorScheme="primary"
+                    variant="outline"
+                    isDisabled={deck.wordIds.length === 0}
+                    onClick={() => navigate('/practice/quick', { state: { deckId: deck.id } })}
+                  >
+                    开始练习
+                  </Button>
+                  <HStack spacing={1}>
+                    <IconButton
+                      aria-label="编辑卡组"
+                      icon={<EditIcon />}
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openForm(deck)}
+                    />
+                    <IconButton
+                      aria-label="删除卡组"
+                      icon={<DeleteIcon />}
+                      size="sm"
+                      variant="ghost"
+                      colorScheme="red"
+                      onClick={() => handleDelete(deck)}
+                    />
+                  </HStack>
+                </HStack>
+              </VStack>
+            </Box>
+          ))}
+        </SimpleGrid>
+      )}
+
+      <DeckFormModal isOpen={isOpen} onClose={onClose} deck={editingDeck} onSubmit={handleSubmit} />
+    </VStack>
+  );
+};
+
+export default DecksPage;
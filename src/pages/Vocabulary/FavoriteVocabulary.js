@@ -1,6 +1,17 @@
 import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
 const FavoriteVocabularyPage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u6536\u85CF\u8BCD\u6C47\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const { vocabulary, favorites, loading, reload } = useVocabularyList();
+    const items = useMemo(() => {
+        const favoriteSet = new Set(favorites);
+        return vocabulary.filter(item => favoriteSet.has(item.id));
+    }, [vocabulary, favorites]);
+    if (loading) {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    return (_jsx(VocabularyBrowser, { items: items, vocabulary: vocabulary, favorites: favorites, emptyText: "\u8FD8\u6CA1\u6709\u6536\u85CF\u7684\u8BCD\u6C47\uFF0C\u70B9\u51FB\u8BCD\u6C47\u65C1\u7684\u7231\u5FC3\u5373\u53EF\u6536\u85CF", onChanged: reload }));
 };
 export default FavoriteVocabularyPage;
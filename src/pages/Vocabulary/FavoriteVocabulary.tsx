@@ -1,21 +1,37 @@
-import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import React, { useMemo } from 'react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
 
+/**
+ * 收藏词汇页面
+ * 列出收藏的词汇，最近添加的在前
+ */
 const FavoriteVocabularyPage: React.FC = () => {
+  const { vocabulary, favorites, loading, reload } = useVocabularyList();
+
+  const items = useMemo(() => {
+    const favoriteSet = new Set(favorites);
+    return vocabulary.filter(item => favoriteSet.has(item.id));
+  }, [vocabulary, favorites]);
+
+  if (loading) {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        收藏词汇页面功能开发中...
-      </Text>
-    </Box>
+    <VocabularyBrowser
+      items={items}
+      vocabulary={vocabulary}
+      favorites={favorites}
+      emptyText="还没有收藏的词汇，点击词汇旁的爱心即可收藏"
+      onChanged={reload}
+    />
   );
 };
 
-export default FavoriteVocabularyPage;
\ No newline at end of file
+export default FavoriteVocabularyPage;
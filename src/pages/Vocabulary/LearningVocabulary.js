@@ -1,6 +1,16 @@
 import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularySortBy, SortDirection } from '@/types';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
 const LearningVocabularyPage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u5B66\u4E60\u4E2D\u8BCD\u6C47\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const { vocabulary, favorites, loading, reload } = useVocabularyList();
+    const items = useMemo(() => vocabulary.filter(item => getMasteryStatus(item) === 'learning'), [vocabulary]);
+    if (loading) {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    return (_jsx(VocabularyBrowser, { items: items, vocabulary: vocabulary, favorites: favorites, emptyText: "\u8FD8\u6CA1\u6709\u5B66\u4E60\u4E2D\u7684\u8BCD\u6C47\uFF0C\u53BB\u7EC3\u4E60\u51E0\u4E2A\u5355\u8BCD\u5427", defaultSortBy: VocabularySortBy.ACCURACY, defaultSortDirection: SortDirection.ASC, onChanged: reload }));
 };
 export default LearningVocabularyPage;
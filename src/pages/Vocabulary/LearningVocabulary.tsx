@@ -1,21 +1,38 @@
-import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import React, { useMemo } from 'react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularySortBy, SortDirection } from '@/types';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
 
+/**
+ * 学习中词汇页面
+ * 列出已经练习过但还没有掌握的词汇，默认正确率低的在前
+ */
 const LearningVocabularyPage: React.FC = () => {
+  const { vocabulary, favorites, loading, reload } = useVocabularyList();
+
+  const items = useMemo(() => vocabulary.filter(item => getMasteryStatus(item) === 'learning'), [vocabulary]);
+
+  if (loading) {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        学习中词汇页面功能开发中...
-      </Text>
-    </Box>
+    <VocabularyBrowser
+      items={items}
+      vocabulary={vocabulary}
+      favorites={favorites}
+      emptyText="还没有学习中的词汇，去练习几个单词吧"
+      defaultSortBy={VocabularySortBy.ACCURACY}
+      defaultSortDirection={SortDirection.ASC}
+      onChanged={reload}
+    />
   );
 };
 
-export default LearningVocabularyPage;
\ No newline at end of file
+export default LearningVocabularyPage;
@@ -1,6 +1,16 @@
 import { jsx as _jsx } from "react/jsx-runtime";
-import { Box, Text } from '@chakra-ui/react';
+import { useMemo } from 'react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularySortBy, SortDirection } from '@/types';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
 const MasteredVocabularyPage = () => {
-    return (_jsx(Box, { bg: "white", p: 6, borderRadius: "xl", boxShadow: "sm", border: "1px solid", borderColor: "gray.200", children: _jsx(Text, { color: "gray.500", textAlign: "center", children: "\u5DF2\u638C\u63E1\u8BCD\u6C47\u9875\u9762\u529F\u80FD\u5F00\u53D1\u4E2D..." }) }));
+    const { vocabulary, favorites, loading, reload } = useVocabularyList();
+    const items = useMemo(() => vocabulary.filter(item => getMasteryStatus(item) === 'mastered'), [vocabulary]);
+    if (loading) {
+        return (_jsx(Center, { h: "200px", children: _jsx(Spinner, { size: "lg", color: "primary.500" }) }));
+    }
+    return (_jsx(VocabularyBrowser, { items: items, vocabulary: vocabulary, favorites: favorites, emptyText: "\u8FD8\u6CA1\u6709\u5DF2\u638C\u63E1\u7684\u8BCD\u6C47", defaultSortBy: VocabularySortBy.ACCURACY, defaultSortDirection: SortDirection.DESC, onChanged: reload }));
 };
 export default MasteredVocabularyPage;
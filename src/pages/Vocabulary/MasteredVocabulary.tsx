@@ -1,21 +1,38 @@
-import React from 'react';
-import { Box, Text } from '@chakra-ui/react';
+import React, { useMemo } from 'react';
+import { Center, Spinner } from '@chakra-ui/react';
+import { VocabularySortBy, SortDirection } from '@/types';
+import { VocabularyBrowser } from '@/components/vocabulary/VocabularyBrowser';
+import { useVocabularyList } from '@/hooks/useVocabularyList';
+import { getMasteryStatus } from '@/services/vocabularyMastery';
 
+/**
+ * 已掌握词汇页面
+ * 列出达到已掌握程度的词汇，默认正确率高的在前
+ */
 const MasteredVocabularyPage: React.FC = () => {
+  const { vocabulary, favorites, loading, reload } = useVocabularyList();
+
+  const items = useMemo(() => vocabulary.filter(item => getMasteryStatus(item) === 'mastered'), [vocabulary]);
+
+  if (loading) {
+    return (
+      <Center h="200px">
+        <Spinner size="lg" color="primary.500" />
+      </Center>
+    );
+  }
+
   return (
-    <Box
-      bg="white"
-      p={6}
-      borderRadius="xl"
-      boxShadow="sm"
-      border="1px solid"
-      borderColor="gray.200"
-    >
-      <Text color="gray.500" textAlign="center">
-        已掌握词汇页面功能开发中...
-      </Text>
-    </Box>
+    <VocabularyBrowser
+      items={items}
+      vocabulary={vocabulary}
+      favorites={favorites}
+      emptyText="还没有已掌握的词汇"
+      defaultSortBy={VocabularySortBy.ACCURACY}
+      defaultSortDirection={SortDirection.DESC}
+      onChanged={reload}
+    />
   );
 };
 
-export default MasteredVocabularyPage;
\ No newline at end of file
+export default MasteredVocabularyPage;
@@ -0,0 +1,330 @@
+/**
+ * 成就规则
+ * 成就以数据定义：条件由进度指标、分类和时间范围组成，同一条件可以有多个等级
+ * 规则引擎根据用户进度计算每个成就的进度和解锁状态
+ */
+
+import {
+  Achievement,
+  AchievementCondition,
+  AchievementDefinition,
+  AchievementMetric,
+  AchievementStatus,
+  AchievementType,
+  UserProgress,
+  Web3Category,
+} from '@/types';
+
+/**
+ * 分类名称，用于分类成就的名称和描述
+ */
+const CATEGORY_LABELS: Record<Web3Category, string> = {
+  [Web3Category.BLOCKCHAIN]: '区块链',
+  [Web3Category.DEFI]: 'DeFi',
+  [Web3Category.NFT]: 'NFT',
+  [Web3Category.TRADING]: '交易',
+  [Web3Category.PROTOCOL]: '协议',
+  [Web3Category.CONSENSUS]: '共识',
+  [Web3Category.SECURITY]: '安全',
+  [Web3Category.GOVERNANCE]: '治理',
+};
+
+/**
+ * 成就定义
+ */
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: 'words_mastered',
+    type: AchievementType.WORDS_MASTERED,
+    condition: { metric: AchievementMetric.WORDS_MASTERED },
+    tiers: [
+      { id: 'first_word', name: '初学者', description: '学习第一个单词', icon: '🌱', target: 1, rewardPoints: 10 },
+      { id: 'ten_words', name: '词汇新手', description: '掌握10个单词', icon: '📚', target: 10, rewardPoints: 50 },
+      { id: 'fifty_words', name: '词汇达人', description: '掌握50个单词', icon: '🎓', target: 50, rewardPoints: 200 },
+      { id: 'hundred_words', name: '词汇专家', description: '掌握100个单词', icon: '🏆', target: 100, rewardPoints: 500 },
+    ],
+  },
+  {
+    id: 'study_streak',
+    type: AchievementType.STUDY_STREAK,
+    condition: { metric: AchievementMetric.STREAK_DAYS },
+    tiers: [
+      { id: 'seven_day_streak', name: '坚持不懈', description: '连续学习7天', icon: '🔥', target: 7, rewardPoints: 100 },
+      { id: 'thirty_day_streak', name: '学习达人', description: '连续学习30天', icon: '⭐', target: 30, rewardPoints: 1000 },
+    ],
+  },
+  {
+    id: 'practice_count',
+    type: AchievementType.PRACTICE_COUNT,
+    condition: { metric: AchievementMetric.PRACTICE_SESSIONS },
+    tiers: [
+      { id: 'first_practice', name: '初次练习', description: '完成第一次练习', icon: '✏️', target: 1, rewardPoints: 10 },
+      { id: 'fifty_practices', name: '勤学苦练', description: '累计完成50次练习', icon: '💪', target: 50, rewardPoints: 200 },
+    ],
+  },
+  {
+    id: 'weekly_practice',
+    type: AchievementType.PRACTICE_COUNT,
+    condition: { metric: AchievementMetric.PRACTICE_SESSIONS, windowDays: 7 },
+    tiers: [
+      { id: 'weekly_practice', name: '每日一练', description: '7天内完成7次练习', icon: '📅', target: 7, rewardPoints: 100 },
+    ],
+  },
+  {
+    id: 'accuracy_rate',
+    type: AchievementType.ACCURACY_RATE,
+    condition: { metric: AchievementMetric.ACCURACY_RATE, minAnswers: 50 },
+    tiers: [
+      { id: 'high_accuracy', name: '精准射手', description: '练习正确率达到90%', icon: '🎯', target: 90, rewardPoints: 300 },
+    ],
+  },
+  {
+    id: 'study_time',
+    type: AchievementType.STUDY_TIME,
+    condition: { metric: AchievementMetric.STUDY_TIME },
+    tiers: [
+      // 10小时 = 600分钟
+      { id: 'study_time_10h', name: '时间管理者', description: '累计学习10小时', icon: '⏰', target: 600, rewardPoints: 400 },
+    ],
+  },
+  {
+    id: 'category_master',
+    type: AchievementType.CATEGORY_MASTER,
+    condition: { metric: AchievementMetric.WORDS_MASTERED },
+    perCategory: true,
+    tiers: [
+      { id: 'category_explorer', name: '{category}入门', description: '掌握5个{category}单词', icon: '🧭', target: 5, rewardPoints: 50 },
+      { id: 'category_master', name: '{category}大师', description: '掌握20个{category}单词', icon: '👑', target: 20, rewardPoints: 300 },
+    ],
+  },
+];
+
+/**
+ * 规则引擎的输入
+ */
+export interface AchievementInput {
+  /** 用户进度 */
+  progress: UserProgress;
+  /** 单词ID到分类的映射，用于分类条件 */
+  wordCategories: Record<string, Web3Category>;
+  /** 当前时间，用于时间范围条件 */
+  now?: Date;
+}
+
+/**
+ * 各条件上次计算的指标值，键为 getConditionKey 的结果
+ */
+export type AchievementSnapshot = Record<string, number>;
+
+/**
+ * 一次成就计算的结果
+ */
+export interface AchievementEvaluation {
+  /** 更新后的成就列表，没有变化时是原数组 */
+  achievements: Achievement[];
+  /** 本次新解锁的成就 */
+  unlocked: Achievement[];
+  /** 本次计算的指标值，传给下一次计算 */
+  snapshot: AchievementSnapshot;
+  /** 成就列表是否有变化 */
+  changed: boolean;
+}
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * 时间范围的起始日期（含），windowDays 为 1 时只包含今天
+ */
+const getWindowStart = (windowDays: number, now: Date): string => {
+  const start = new Date(now);
+  start.setDate(start.getDate() - (windowDays - 1));
+  return toDateString(start);
+};
+
+/**
+ * 条件的唯一键，相同条件的多个等级共用一次计算结果
+ */
+export const getConditionKey = (condition: AchievementCondition): string =>
+  [condition.metric, condition.category ?? '', condition.windowDays ?? '', condition.minAnswers ?? ''].join('|');
+
+/**
+ * 计算条件对应的指标值
+ */
+export const getMetricValue = (condition: AchievementCondition, input: AchievementInput): number => {
+  const { progress, wordCategories } = input;
+  const windowStart = condition.windowDays ? getWindowStart(condition.windowDays, input.now ?? new Date()) : null;
+  const dailyStats = windowStart
+    ? progress.dailyStats.filter(stats => stats.date >= windowStart)
+    : progress.dailyStats;
+
+  switch (condition.metric) {
+    case AchievementMetric.STREAK_DAYS:
+      return progress.streakDays;
+
+    case AchievementMetric.WORDS_MASTERED:
+      return condition.category
+        ? progress.masteredWords.filter(wordId => wordCategories[wordId] === condition.category).length
+        : progress.masteredWords.length;
+
+    case AchievementMetric.PRACTICE_SESSIONS:
+      return progress.studySessions.filter(
+        session =>
+          session.sessionType === 'practice' &&
+          (!windowStart || toDateString(new Date(session.endTime)) >= windowStart)
+      ).length;
+
+    case AchievementMetric.ACCURACY_RATE: {
+      const totals = dailyStats.reduce(
+        (acc, stats) => ({
+          correct: acc.correct + stats.correctAnswers,
+          total: acc.total + stats.totalAnswers,
+        }),
+        { correct: 0, total: 0 }
+      );
+      if (totals.total === 0 || totals.total < (condition.minAnswers ?? 0)) return 0;
+      return Math.round((totals.correct / totals.total) * 100);
+    }
+
+    case AchievementMetric.STUDY_TIME:
+      return windowStart
+        ? dailyStats.reduce((sum, stats) => sum + stats.studyTimeMinutes, 0)
+        : progress.totalStudyTime;
+
+    case AchievementMetric.WORDS_STUDIED:
+      return dailyStats.reduce((sum, stats) => sum + stats.wordsStudied, 0);
+
+    default:
+      return 0;
+  }
+};
+
+/**
+ * 按定义生成成就列表，分类成就为每个分类各生成一组
+ */
+export const createAchievements = (definitions: AchievementDefinition[] = ACHIEVEMENT_DEFINITIONS): Achievement[] =>
+  definitions.flatMap(definition => {
+    const categories: (Web3Category | undefined)[] = definition.perCategory
+      ? Object.values(Web3Category)
+      : [definition.condition.category];
+
+    return categories.flatMap(category =>
+      definition.tiers.map((tier, index): Achievement => {
+        const format = (text: string) => (category ? text.split('{category}').join(CATEGORY_LABELS[category]) : text);
+        return {
+          id: definition.perCategory && category ? `${tier.id}_${category}` : tier.id,
+          name: format(tier.name),
+          description: format(tier.description),
+          icon: tier.icon,
+          type: definition.type,
+          progress: 0,
+          target: tier.target,
+          status: AchievementStatus.LOCKED,
+          rewardPoints: tier.rewardPoints,
+          definitionId: definition.id,
+          tier: index + 1,
+          category,
+        };
+      })
+    );
+  });
+
+/**
+ * 把保存的成就与当前定义合并：保留进度和解锁状态，名称、目标等以定义为准
+ * 新增的定义补充为未解锁成就，已经不在定义中的成就只保留已解锁的
+ */
+export const mergeAchievements = (
+  saved: Achievement[],
+  definitions: AchievementDefinition[] = ACHIEVEMENT_DEFINITIONS
+): Achievement[] => {
+  const savedMap = new Map(saved.map(achievement => [achievement.id, achievement]));
+  const achievements = createAchievements(definitions).map(achievement => {
+    const existing = savedMap.get(achievement.id);
+    return existing
+      ? {
+          ...achievement,
+          progress: Math.min(existing.progress, achievement.target),
+          status: existing.status,
+          unlockedAt: existing.unlockedAt,
+        }
+      : achievement;
+  });
+
+  const ids = new Set(achievements.map(achievement => achievement.id));
+  const retired = saved.filter(
+    achievement => !ids.has(achievement.id) && achievement.status === AchievementStatus.UNLOCKED
+  );
+  return [...achievements, ...retired];
+};
+
+/**
+ * 用指标值更新单个成就，没有变化时返回原对象
+ */
+const applyMetricValue = (achievement: Achievement, value: number, now: Date): Achievement => {
+  const progress = Math.min(value, achievement.target);
+  const status = progress >= achievement.target
+    ? AchievementStatus.UNLOCKED
+    : progress > 0
+      ? AchievementStatus.IN_PROGRESS
+      : AchievementStatus.LOCKED;
+
+  if (progress === achievement.progress && status === achievement.status) {
+    return achievement;
+  }
+
+  return {
+    ...achievement,
+    progress,
+    status,
+    unlockedAt: status === AchievementStatus.UNLOCKED ? now : achievement.unlockedAt,
+  };
+};
+
+/**
+ * 计算成就进度和解锁状态
+ * 传入上次的 snapshot 时只更新指标值有变化的成就，不传时按全部历史重新计算（用于补发）
+ * 已解锁的成就不会因为指标下降（例如时间范围移动）而重新锁定
+ */
+export const evaluateAchievements = (
+  achievements: Achievement[],
+  input: AchievementInput,
+  previous?: AchievementSnapshot,
+  definitions: AchievementDefinition[] = ACHIEVEMENT_DEFINITIONS
+): AchievementEvaluation => {
+  const now = input.now ?? new Date();
+  const definitionMap = new Map(definitions.map(definition => [definition.id, definition]));
+  const snapshot: AchievementSnapshot = {};
+  const unlocked: Achievement[] = [];
+  let changed = false;
+
+  const updated = achievements.map(achievement => {
+    const definition = achievement.definitionId ? definitionMap.get(achievement.definitionId) : undefined;
+    if (!definition || achievement.status === AchievementStatus.UNLOCKED) {
+      return achievement;
+    }
+
+    const condition = { ...definition.condition, category: achievement.category ?? definition.condition.category };
+    const key = getConditionKey(condition);
+    if (!(key in snapshot)) {
+      snapshot[key] = getMetricValue(condition, { ...input, now });
+    }
+    if (previous && previous[key] === snapshot[key]) {
+      return achievement;
+    }
+
+    const next = applyMetricValue(achievement, snapshot[key], now);
+    if (next !== achievement) {
+      changed = true;
+      if (next.status === AchievementStatus.UNLOCKED) {
+        unlocked.push(next);
+      }
+    }
+    return next;
+  });
+
+  return {
+    achievements: changed ? updated : achievements,
+    unlocked,
+    snapshot,
+    changed,
+  };
+};
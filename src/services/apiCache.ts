@@ -0,0 +1,221 @@
+/**
+ * 接口数据缓存
+ * 按 CacheConfig 提供过期时间、容量上限、过期后先返回旧数据再后台刷新（stale-while-revalidate）和按键失效，
+ * localStorage 和 sessionStorage 策略的缓存持久化到对应存储的 StorageKey.API_CACHE
+ */
+
+import { CacheConfig } from '@/types';
+import { storageService, sessionStorageService, StorageService, StorageKey } from './storage';
+
+/**
+ * 缓存配置
+ */
+export interface ApiCacheConfig extends Omit<CacheConfig, 'strategy'> {
+  /** 缓存策略，暂不支持 indexedDB */
+  strategy: Exclude<CacheConfig['strategy'], 'indexedDB'>;
+  /** 过期后仍可返回旧数据的时长（毫秒），期间在后台刷新；默认 0，即过期后必须重新获取 */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * 缓存条目
+ */
+export interface ApiCacheEntry<T> {
+  data: T;
+  storedAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * 缓存读取结果
+ */
+export interface ApiCacheHit<T> {
+  data: T;
+  /** 已过期，仅在 stale-while-revalidate 窗口内返回 */
+  isStale: boolean;
+  storedAt: number;
+}
+
+/**
+ * 各持久化策略使用的存储服务，memory 策略不持久化
+ */
+const CACHE_STORAGES: Record<ApiCacheConfig['strategy'], StorageService | null> = {
+  memory: null,
+  localStorage: storageService,
+  sessionStorage: sessionStorageService,
+};
+
+/**
+ * API_CACHE 中保存的数据：缓存命名空间（CacheConfig.key） -> 条目
+ */
+type PersistedApiCache = Record<string, Record<string, ApiCacheEntry<unknown>>>;
+
+/**
+ * 接口数据缓存类
+ */
+export class ApiCache<T> {
+  private config: ApiCacheConfig;
+  private entries: Map<string, ApiCacheEntry<T>> | null = null;
+  /** 进行中的请求，避免同一个键重复请求 */
+  private pending: Map<string, Promise<T>> = new Map();
+  private lastWritten: PersistedApiCache | null = null;
+  private storage: StorageService | null;
+
+  constructor(config: ApiCacheConfig) {
+    if (!(config.strategy in CACHE_STORAGES)) {
+      throw new Error(`Unsupported cache strategy: ${config.strategy}`);
+    }
+    this.config = config;
+    this.storage = CACHE_STORAGES[config.strategy];
+
+    if (this.storage) {
+      // 其他地方清除或覆盖缓存数据后重新读取
+      this.storage.subscribe((key, value) => {
+        if (key === StorageKey.API_CACHE && value !== this.lastWritten) {
+          this.entries = null;
+        }
+      });
+    }
+  }
+
+  /**
+   * 读取缓存，已过期且超出 stale-while-revalidate 窗口时返回 null
+   */
+  get(key: string): ApiCacheHit<T> | null {
+    if (!this.config.enabled) return null;
+
+    const entries = this.getEntries();
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    const now = Date.now();
+    const staleUntil = entry.expiresAt + (this.config.staleWhileRevalidate ?? 0);
+    if (now >= staleUntil) {
+      entries.delete(key);
+      this.persist();
+      return null;
+    }
+
+    entry.lastAccessedAt = now;
+    return { data: entry.data, isStale: now >= entry.expiresAt, storedAt: entry.storedAt };
+  }
+
+  /**
+   * 写入缓存，超过容量上限时淘汰最久未访问的条目
+   */
+  set(key: string, data: T): void {
+    if (!this.config.enabled) return;
+
+    const entries = this.getEntries();
+    const now = Date.now();
+    entries.set(key, { data, storedAt: now, expiresAt: now + this.config.ttl, lastAccessedAt: now });
+
+    if (this.config.maxSize !== undefined && entries.size > this.config.maxSize) {
+      const overflow = Array.from(entries.entries())
+        .sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt)
+        .slice(0, entries.size - this.config.maxSize);
+      overflow.forEach(([oldKey]) => entries.delete(oldKey));
+    }
+
+    this.persist();
+  }
+
+  /**
+   * 读取缓存，未命中时调用 fetcher 获取并写入；
+   * 命中过期数据时先返回旧数据，同时在后台刷新
+   */
+  async getOrFetch(key: string, fetcher: () => Promise<T>): Promise<ApiCacheHit<T> & { fromCache: boolean }> {
+    const cached = this.get(key);
+    if (cached) {
+      if (cached.isStale) {
+        this.revalidate(key, fetcher).catch(error => {
+          console.warn(`Failed to revalidate cache entry ${key}:`, error);
+        });
+      }
+      return { ...cached, fromCache: true };
+    }
+
+    const data = await this.revalidate(key, fetcher);
+    return { data, isStale: false, storedAt: Date.now(), fromCache: false };
+  }
+
+  /**
+   * 使指定键失效
+   */
+  invalidate(key: string): void {
+    if (this.getEntries().delete(key)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * 使满足条件的键失效
+   */
+  invalidateWhere(predicate: (key: string) => boolean): void {
+    const entries = this.getEntries();
+    const keys = Array.from(entries.keys()).filter(predicate);
+    keys.forEach(key => entries.delete(key));
+    if (keys.length > 0) {
+      this.persist();
+    }
+  }
+
+  /**
+   * 清空当前缓存命名空间
+   */
+  clear(): void {
+    this.entries = new Map();
+    this.pending.clear();
+    this.persist();
+  }
+
+  /**
+   * 当前缓存的键
+   */
+  keys(): string[] {
+    return Array.from(this.getEntries().keys());
+  }
+
+  private revalidate(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const inflight = this.pending.get(key);
+    if (inflight) return inflight;
+
+    const request = fetcher()
+      .then(data => {
+        this.set(key, data);
+        return data;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private getEntries(): Map<string, ApiCacheEntry<T>> {
+    if (!this.entries) {
+      const stored = this.storage ? this.readPersisted()[this.config.key] : undefined;
+      this.entries = new Map(Object.entries((stored ?? {}) as Record<string, ApiCacheEntry<T>>));
+    }
+    return this.entries;
+  }
+
+  private readPersisted(): PersistedApiCache {
+    return this.storage?.getItem<PersistedApiCache>(StorageKey.API_CACHE) ?? {};
+  }
+
+  private persist(): void {
+    if (!this.storage || !this.entries) return;
+
+    const persisted = { ...this.readPersisted() };
+    if (this.entries.size > 0) {
+      persisted[this.config.key] = Object.fromEntries(this.entries);
+    } else {
+      delete persisted[this.config.key];
+    }
+
+    this.lastWritten = persisted;
+    this.storage.setItem(StorageKey.API_CACHE, persisted);
+  }
+}
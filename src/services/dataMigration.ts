@@ -0,0 +1,773 @@
+/**
+ * 数据迁移服务
+ * 按版本逐步升级本地保存的用户进度、词汇列表和用户设置，迁移前保存快照，失败时回滚
+ */
+
+import {
+  UserProgress,
+  VocabularyItem,
+  UserSettings,
+  DEFAULT_SETTINGS,
+  ThemeMode,
+  Language,
+} from '@/types';
+import { compressString, decompressString } from '@/utils/compression';
+import type { StorageKey, StorageService } from './storage';
+
+/**
+ * 可迁移的数据类型
+ */
+export type MigrationDataType = 'userProgress' | 'vocabularyList' | 'userSettings';
+
+/**
+ * 按数据类型组织的迁移数据
+ */
+export type MigrationPayload = Partial<Record<MigrationDataType, unknown>>;
+
+/**
+ * 单个版本的迁移定义
+ */
+export interface DataMigration {
+  /** 起始版本 */
+  from: string;
+  /** 目标版本 */
+  to: string;
+  /** 迁移说明 */
+  description: string;
+  /** 各类数据的升级函数，未提供的类型原样保留 */
+  migrate: Partial<Record<MigrationDataType, (data: unknown) => unknown>>;
+}
+
+/**
+ * 迁移错误
+ */
+export interface MigrationError extends Error {
+  fromVersion: string;
+  toVersion: string;
+  dataType?: MigrationDataType;
+}
+
+/**
+ * 迁移结果
+ */
+export interface MigrationResult {
+  /** 是否成功（无需迁移也视为成功） */
+  success: boolean;
+  /** 迁移前版本 */
+  fromVersion: string;
+  /** 迁移后版本，失败时保持原版本 */
+  toVersion: string;
+  /** 执行的迁移步骤 */
+  steps: string[];
+  /** 失败原因 */
+  error?: string;
+  /** 已加密、需要解锁后才能读取的存储键，这些数据本次没有迁移 */
+  encryptedKeys?: string[];
+}
+
+/**
+ * 迁移前快照
+ */
+export interface MigrationSnapshot {
+  version: string;
+  timestamp: string;
+  /** 各存储键的原始字符串，null 表示迁移前不存在 */
+  items: Record<string, string | null>;
+}
+
+/**
+ * 创建迁移错误
+ */
+export const createMigrationError = (
+  message: string,
+  fromVersion: string,
+  toVersion: string,
+  dataType?: MigrationDataType
+): MigrationError => {
+  const error = new Error(message) as MigrationError;
+  error.name = 'MigrationError';
+  error.fromVersion = fromVersion;
+  error.toVersion = toVersion;
+  error.dataType = dataType;
+  return error;
+};
+
+type LegacyRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is LegacyRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const toNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/**
+ * 1.0.0 → 1.1.0：旧版扁平设置转换为分组设置
+ * 旧版字段：theme、language、soundEnabled、notificationsEnabled、autoPlayAudio、studyReminder、dailyGoal
+ */
+const migrateSettingsTo110 = (data: unknown): UserSettings => {
+  const legacy = isRecord(data) ? data : {};
+  const sections = {
+    audio: isRecord(legacy.audio) ? legacy.audio : {},
+    learning: isRecord(legacy.learning) ? legacy.learning : {},
+    practice: isRecord(legacy.practice) ? legacy.practice : {},
+    ui: isRecord(legacy.ui) ? legacy.ui : {},
+    privacy: isRecord(legacy.privacy) ? legacy.privacy : {},
+    notifications: isRecord(legacy.notifications) ? legacy.notifications : {},
+  };
+  const learningReminders = isRecord(sections.learning.studyReminders) ? sections.learning.studyReminders : {};
+
+  return {
+    ...DEFAULT_SETTINGS,
+    audio: {
+      ...DEFAULT_SETTINGS.audio,
+      ...(typeof legacy.soundEnabled === 'boolean' && { enabled: legacy.soundEnabled }),
+      ...(typeof legacy.autoPlayAudio === 'boolean' && { autoPlay: legacy.autoPlayAudio }),
+      ...sections.audio,
+    },
+    learning: {
+      ...DEFAULT_SETTINGS.learning,
+      ...(typeof legacy.dailyGoal === 'number' && { dailyWordGoal: legacy.dailyGoal }),
+      ...sections.learning,
+      studyReminders: {
+        ...DEFAULT_SETTINGS.learning.studyReminders,
+        ...(typeof legacy.studyReminder === 'boolean' && { enabled: legacy.studyReminder }),
+        ...learningReminders,
+      },
+    },
+    practice: { ...DEFAULT_SETTINGS.practice, ...sections.practice },
+    ui: {
+      ...DEFAULT_SETTINGS.ui,
+      ...(Object.values(ThemeMode).includes(legacy.theme as ThemeMode) && { themeMode: legacy.theme as ThemeMode }),
+      ...(Object.values(Language).includes(legacy.language as Language) && { language: legacy.language as Language }),
+      ...sections.ui,
+    },
+    privacy: { ...DEFAULT_SETTINGS.privacy, ...sections.privacy },
+    notifications: {
+      ...DEFAULT_SETTINGS.notifications,
+      ...(typeof legacy.notificationsEnabled === 'boolean' && { enabled: legacy.notificationsEnabled }),
+      ...sections.notifications,
+    },
+    version: '1.1.0',
+    lastUpdated: typeof legacy.lastUpdated === 'string' ? new Date(legacy.lastUpdated) : new Date(),
+  };
+};
+
+/**
+ * 1.0.0 → 1.1.0：补齐词汇的自定义标记、学习次数和正确率，清理空标签
+ */
+const migrateVocabularyTo110 = (data: unknown): VocabularyItem[] => {
+  if (!Array.isArray(data)) return [];
+
+  return data.filter(isRecord).map(item => ({
+    ...item,
+    examples: toStringArray(item.examples),
+    tags: Array.from(new Set(toStringArray(item.tags).map(tag => tag.trim()).filter(Boolean))),
+    isCustom: typeof item.isCustom === 'boolean' ? item.isCustom : false,
+    studyCount: toNumber(item.studyCount, 0),
+    accuracy: toNumber(item.accuracy, 0),
+  }) as unknown as VocabularyItem);
+};
+
+/**
+ * 1.0.0 → 1.1.0：补齐薄弱词汇、收藏词汇和最长连续天数
+ */
+const migrateProgressTo110 = (data: unknown): UserProgress | null => {
+  if (!isRecord(data)) return null;
+
+  const streakDays = toNumber(data.streakDays, 0);
+  return {
+    ...data,
+    dailyStats: Array.isArray(data.dailyStats) ? data.dailyStats : [],
+    streakDays,
+    maxStreakDays: Math.max(toNumber(data.maxStreakDays, 0), streakDays),
+    masteredWords: toStringArray(data.masteredWords),
+    weakWords: toStringArray(data.weakWords),
+    favoriteWords: toStringArray(data.favoriteWords),
+    achievements: Array.isArray(data.achievements) ? data.achievements : [],
+    studySessions: Array.isArray(data.studySessions) ? data.studySessions : [],
+  } as unknown as UserProgress;
+};
+
+/**
+ * 迁移注册表，按版本顺序排列
+ */
+export const DATA_MIGRATIONS: DataMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: '设置改为分组结构，补齐词汇学习统计和进度列表字段',
+    migrate: {
+      userSettings: migrateSettingsTo110,
+      vocabularyList: migrateVocabularyTo110,
+      userProgress: migrateProgressTo110,
+    },
+  },
+];
+
+/**
+ * 没有版本信息的数据视为最早版本
+ */
+export const INITIAL_DATA_VERSION = '1.0.0';
+
+/**
+ * 当前数据版本
+ */
+export const CURRENT_DATA_VERSION = DATA_MIGRATIONS[DATA_MIGRATIONS.length - 1].to;
+
+/**
+ * 比较版本号，返回负数、0 或正数
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * 找出从起始版本到目标版本需要依次执行的迁移
+ */
+export const getMigrationPath = (
+  fromVersion: string,
+  toVersion: string = CURRENT_DATA_VERSION,
+  registry: DataMigration[] = DATA_MIGRATIONS
+): DataMigration[] => {
+  if (compareVersions(fromVersion, toVersion) > 0) {
+    throw createMigrationError(`数据版本 ${fromVersion} 高于应用支持的版本 ${toVersion}`, fromVersion, toVersion);
+  }
+
+  const path: DataMigration[] = [];
+  let version = fromVersion;
+
+  while (compareVersions(version, toVersion) < 0) {
+    const step = registry.find(migration => migration.from === version);
+    if (!step) {
+      throw createMigrationError(`缺少从 ${version} 开始的迁移`, fromVersion, toVersion);
+    }
+    path.push(step);
+    version = step.to;
+  }
+
+  return path;
+};
+
+/**
+ * 把单类数据从起始版本逐步升级到目标版本
+ */
+export const migrateData = <T>(
+  dataType: MigrationDataType,
+  data: unknown,
+  fromVersion: string,
+  toVersion: string = CURRENT_DATA_VERSION,
+  registry: DataMigration[] = DATA_MIGRATIONS
+): T => {
+  return getMigrationPath(fromVersion, toVersion, registry).reduce((current, step) => {
+    const migrate = step.migrate[dataType];
+    if (!migrate) return current;
+
+    try {
+      return migrate(current);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw createMigrationError(`${dataType} 从 ${step.from} 迁移到 ${step.to} 失败：${reason}`, step.from, step.to, dataType);
+    }
+  }, data) as T;
+};
+
+/**
+ * 把多类数据一起升级，缺失的类型跳过
+ */
+export const migratePayload = <T extends MigrationPayload>(
+  payload: T,
+  fromVersion: string,
+  toVersion: string = CURRENT_DATA_VERSION,
+  registry: DataMigration[] = DATA_MIGRATIONS
+): T => {
+  const result: MigrationPayload = { ...payload };
+
+  (Object.keys(payload) as MigrationDataType[]).forEach(dataType => {
+    if (payload[dataType] !== undefined && payload[dataType] !== null) {
+      result[dataType] = migrateData(dataType, payload[dataType], fromVersion, toVersion, registry);
+    }
+  });
+
+  return result as T;
+};
+
+/**
+ * 合并两份用户进度：以较新的一份为准，词汇列表取并集，记录按日期或ID合并，连续天数等计数取较大值
+ */
+export const mergeUserProgress = (a: UserProgress, b: UserProgress): UserProgress => {
+  const [newer, older] = new Date(a.updatedAt).getTime() >= new Date(b.updatedAt).getTime() ? [a, b] : [b, a];
+  const unionBy = <T>(first: T[] = [], second: T[] = [], getKey: (item: T) => string): T[] => {
+    const merged = new Map<string, T>();
+    [...second, ...first].forEach(item => merged.set(getKey(item), item));
+    return Array.from(merged.values());
+  };
+
+  return {
+    ...older,
+    ...newer,
+    masteredWords: Array.from(new Set([...(newer.masteredWords || []), ...(older.masteredWords || [])])),
+    weakWords: Array.from(new Set([...(newer.weakWords || []), ...(older.weakWords || [])])),
+    favoriteWords: Array.from(new Set([...(newer.favoriteWords || []), ...(older.favoriteWords || [])])),
+    dailyStats: unionBy(newer.dailyStats, older.dailyStats, stat => stat.date)
+      .sort((x, y) => x.date.localeCompare(y.date)),
+    achievements: unionBy(newer.achievements, older.achievements, achievement => achievement.id),
+    studySessions: unionBy(newer.studySessions, older.studySessions, session => session.id),
+    streakDays: Math.max(newer.streakDays || 0, older.streakDays || 0),
+    maxStreakDays: Math.max(newer.maxStreakDays || 0, older.maxStreakDays || 0),
+    totalStudyTime: Math.max(newer.totalStudyTime || 0, older.totalStudyTime || 0),
+    totalPoints: Math.max(newer.totalPoints || 0, older.totalPoints || 0),
+  };
+};
+
+/**
+ * 合并两份词汇列表：按ID去重，保留更新时间较晚的一条
+ */
+export const mergeVocabularyLists = (a: VocabularyItem[], b: VocabularyItem[]): VocabularyItem[] => {
+  const merged = new Map<string, VocabularyItem>();
+
+  [...a, ...b].forEach(item => {
+    const existing = merged.get(item.id);
+    if (!existing || new Date(item.updatedAt).getTime() > new Date(existing.updatedAt).getTime()) {
+      merged.set(item.id, item);
+    }
+  });
+
+  return Array.from(merged.values());
+};
+
+/**
+ * 带版本信息的存储项，与 StorageService 的存储格式一致
+ */
+interface StoredItem {
+  data: unknown;
+  timestamp: number;
+  expiresAt?: number;
+  version: string;
+}
+
+const isStoredItem = (value: unknown): value is StoredItem =>
+  isRecord(value) && 'data' in value && typeof value.timestamp === 'number' && typeof value.version === 'string';
+
+const createStoredItem = (data: unknown, version: string): StoredItem => ({
+  data,
+  timestamp: Date.now(),
+  version,
+});
+
+/**
+ * 压缩数据和加密数据的前缀，与 StorageService 的存储格式一致
+ */
+const COMPRESSED_PREFIX = 'lz:';
+const ENCRYPTED_PREFIX = 'enc:';
+
+/**
+ * 读取出的存储值，compressed 表示原值是压缩保存的，写回时保持压缩
+ */
+interface RawValue {
+  value: unknown;
+  compressed: boolean;
+}
+
+/**
+ * 读取并解析存储键的值，压缩数据先解压
+ * 加密数据没有口令无法读取，与不存在或损坏的数据一样返回 undefined，由 isEncrypted 单独识别
+ */
+const readValue = (key: string): RawValue | undefined => {
+  const raw = localStorage.getItem(key);
+  if (raw === null || raw.startsWith(ENCRYPTED_PREFIX)) return undefined;
+  const compressed = raw.startsWith(COMPRESSED_PREFIX);
+  try {
+    return {
+      value: JSON.parse(compressed ? decompressString(raw.slice(COMPRESSED_PREFIX.length)) : raw),
+      compressed,
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+const readJson = (key: string): unknown => readValue(key)?.value;
+
+const writeJson = (key: string, value: unknown, compressed = false): void => {
+  const json = JSON.stringify(value);
+  localStorage.setItem(key, compressed ? COMPRESSED_PREFIX + compressString(json) : json);
+};
+
+const isEncrypted = (key: string): boolean => localStorage.getItem(key)?.startsWith(ENCRYPTED_PREFIX) ?? false;
+
+/**
+ * 各类数据的存储键，与 StorageKey 保持一致
+ * 迁移直接读写原始字符串而不经过 StorageService，这样可以保留每项数据原有的版本号
+ */
+const DATA_KEYS: Record<MigrationDataType, string> = {
+  userProgress: 'web3_vocab_user_progress',
+  vocabularyList: 'web3_vocab_vocabulary_list',
+  userSettings: 'web3_vocab_user_settings',
+};
+
+/**
+ * 存储层统一前 StorageService 使用的键 → 统一后的键
+ */
+export const LEGACY_SERVICE_KEYS: Record<string, string> = {
+  vocabulary_data: 'web3_vocab_vocabulary_list',
+  vocabulary_favorites: 'web3_vocab_favorite_words',
+  vocabulary_filter: 'web3_vocab_vocabulary_filter',
+  vocabulary_sort: 'web3_vocab_vocabulary_sort',
+  user_progress: 'web3_vocab_user_progress',
+  daily_stats: 'web3_vocab_daily_stats',
+  achievements: 'web3_vocab_achievements',
+  study_sessions: 'web3_vocab_study_sessions',
+  learning_goals: 'web3_vocab_learning_goals',
+  user_settings: 'web3_vocab_user_settings',
+  theme_mode: 'web3_vocab_theme_mode',
+  language: 'web3_vocab_language',
+  app_state: 'web3_vocab_app_state',
+  last_sync_time: 'web3_vocab_last_sync_time',
+  first_launch: 'web3_vocab_first_launch',
+  vocabulary_cache: 'web3_vocab_vocabulary_cache',
+  audio_cache: 'web3_vocab_audio_cache',
+  api_cache: 'web3_vocab_api_cache',
+};
+
+/**
+ * 存储层统一前 StorageManager 使用的未加前缀的键 → 统一后的键
+ */
+export const LEGACY_MANAGER_KEYS: Record<string, string> = {
+  learning_data: 'web3_vocab_learning_data',
+  ignored_updates: 'web3_vocab_ignored_updates',
+};
+
+/**
+ * 存储层统一前 StorageManager 直接保存 JSON（不带版本信息）的键
+ */
+const UNVERSIONED_KEYS = [
+  'web3_vocab_user_progress',
+  'web3_vocab_vocabulary_list',
+  'web3_vocab_learning_sessions',
+  'web3_vocab_user_settings',
+  'web3_vocab_mastered_words',
+  'web3_vocab_favorite_words',
+  'web3_vocab_practice_results',
+  'web3_vocab_active_practice_session',
+  'web3_vocab_backup_data',
+  'web3_vocab_last_sync_time',
+];
+
+/**
+ * 存储层统一前 StorageManager 记录数据版本的键
+ */
+export const LEGACY_DATA_VERSION_KEY = 'web3_vocab_data_version';
+
+/**
+ * 迁移前快照的存储键
+ */
+export const MIGRATION_SNAPSHOT_KEY = 'web3_vocab_migration_snapshot';
+
+/**
+ * 迁移可能改动的所有键
+ */
+const MIGRATION_KEYS = Array.from(new Set([
+  ...UNVERSIONED_KEYS,
+  ...Object.keys(LEGACY_SERVICE_KEYS),
+  ...Object.values(LEGACY_SERVICE_KEYS),
+  ...Object.keys(LEGACY_MANAGER_KEYS),
+  ...Object.values(LEGACY_MANAGER_KEYS),
+  LEGACY_DATA_VERSION_KEY,
+]));
+
+/**
+ * 数据迁移服务类
+ */
+export class DataMigrationService {
+  private static instance: DataMigrationService;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): DataMigrationService {
+    if (!DataMigrationService.instance) {
+      DataMigrationService.instance = new DataMigrationService();
+    }
+    return DataMigrationService.instance;
+  }
+
+  /**
+   * 启动时合并旧存储键并迁移本地数据，失败时从快照回滚
+   */
+  runStartupMigrations(registry: DataMigration[] = DATA_MIGRATIONS): MigrationResult {
+    const toVersion = registry[registry.length - 1]?.to ?? CURRENT_DATA_VERSION;
+    const fromVersion = this.getStoredVersion();
+    const hasLegacyData = this.hasLegacyData();
+    const encryptedKeys = this.getEncryptedKeys();
+    if (encryptedKeys.length > 0) {
+      console.warn('Encrypted data cannot be migrated before it is unlocked:', encryptedKeys);
+    }
+    const report = encryptedKeys.length > 0 ? { encryptedKeys } : {};
+
+    if (!hasLegacyData && compareVersions(fromVersion, toVersion) === 0) {
+      return { success: true, fromVersion, toVersion, steps: [], ...report };
+    }
+
+    const snapshot = this.createSnapshot(fromVersion);
+
+    try {
+      const steps = getMigrationPath(fromVersion, toVersion, registry).map(step => `${step.from} → ${step.to}`);
+
+      if (hasLegacyData) {
+        this.mergeStorageLayers(toVersion, registry);
+        steps.unshift('合并旧存储键');
+      }
+
+      this.readDataItems().forEach(({ key, dataType, item, compressed }) => {
+        if (compareVersions(item.version, toVersion) === 0) return;
+        const data = migrateData(dataType, item.data, item.version, toVersion, registry);
+        writeJson(key, { ...item, data, version: toVersion }, compressed);
+      });
+
+      return { success: true, fromVersion, toVersion, steps, ...report };
+    } catch (error) {
+      console.error('Data migration failed, restoring snapshot:', error);
+      this.restoreSnapshot(snapshot);
+      return {
+        success: false,
+        fromVersion,
+        toVersion: fromVersion,
+        steps: [],
+        error: error instanceof Error ? error.message : String(error),
+        ...report,
+      };
+    }
+  }
+
+  /**
+   * 解锁后迁移启动时因加密而跳过的数据：通过存储服务读写解密后的内容，写回时重新加密
+   * 解密后的数据不写入快照，全部迁移成功后才写回，失败时保持原样
+   */
+  migrateUnlockedData(
+    storage: Pick<StorageService, 'getStoredItem' | 'setStoredItem'>,
+    registry: DataMigration[] = DATA_MIGRATIONS
+  ): MigrationResult {
+    const toVersion = registry[registry.length - 1]?.to ?? CURRENT_DATA_VERSION;
+    const outdated = (Object.entries(DATA_KEYS) as Array<[MigrationDataType, string]>).flatMap(([dataType, key]) => {
+      const item = storage.getStoredItem(key as StorageKey);
+      return item && compareVersions(item.version, toVersion) !== 0 ? [{ key, dataType, item }] : [];
+    });
+    const fromVersion = outdated.reduce(
+      (lowest, { item }) => (compareVersions(item.version, lowest) < 0 ? item.version : lowest),
+      toVersion
+    );
+
+    if (outdated.length === 0) {
+      return { success: true, fromVersion, toVersion, steps: [] };
+    }
+
+    try {
+      const steps = getMigrationPath(fromVersion, toVersion, registry).map(step => `${step.from} → ${step.to}`);
+      const migrated = outdated.map(({ key, dataType, item }) => ({
+        key,
+        item: { ...item, data: migrateData(dataType, item.data, item.version, toVersion, registry), version: toVersion },
+      }));
+      migrated.forEach(({ key, item }) => storage.setStoredItem(key as StorageKey, item));
+
+      return { success: true, fromVersion, toVersion, steps };
+    } catch (error) {
+      console.error('Migrating unlocked data failed:', error);
+      return {
+        success: false,
+        fromVersion,
+        toVersion: fromVersion,
+        steps: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 获取本地数据中最旧的版本，没有数据时视为当前版本
+   */
+  getStoredVersion(): string {
+    const legacyVersion = localStorage.getItem(LEGACY_DATA_VERSION_KEY) || INITIAL_DATA_VERSION;
+    const keys = [...Object.values(DATA_KEYS), ...Object.keys(LEGACY_SERVICE_KEYS)];
+
+    return keys.reduce((lowest, key) => {
+      const value = readJson(key);
+      if (value === undefined) return lowest;
+
+      const version = isStoredItem(value) ? value.version : legacyVersion;
+      return compareVersions(version, lowest) < 0 ? version : lowest;
+    }, CURRENT_DATA_VERSION);
+  }
+
+  /**
+   * 迁移涉及的键中已加密的键
+   */
+  getEncryptedKeys(): string[] {
+    return MIGRATION_KEYS.filter(isEncrypted);
+  }
+
+  /**
+   * 是否还有存储层统一前的数据
+   */
+  hasLegacyData(): boolean {
+    return (
+      localStorage.getItem(LEGACY_DATA_VERSION_KEY) !== null ||
+      [...Object.keys(LEGACY_SERVICE_KEYS), ...Object.keys(LEGACY_MANAGER_KEYS)].some(
+        key => localStorage.getItem(key) !== null
+      ) ||
+      UNVERSIONED_KEYS.some(key => {
+        const value = readJson(key);
+        return value !== undefined && !isStoredItem(value);
+      })
+    );
+  }
+
+  /**
+   * 获取最近一次迁移前的快照
+   */
+  getSnapshot(): MigrationSnapshot | null {
+    try {
+      const raw = localStorage.getItem(MIGRATION_SNAPSHOT_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.error('Failed to read migration snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 把快照中的原始数据写回存储
+   */
+  restoreSnapshot(snapshot: MigrationSnapshot): void {
+    Object.entries(snapshot.items).forEach(([key, value]) => {
+      if (value === null) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, value);
+      }
+    });
+  }
+
+  /**
+   * 保存迁移前快照，默认包含迁移可能改动的所有键
+   */
+  createSnapshot(version: string, keys: string[] = MIGRATION_KEYS): MigrationSnapshot {
+    const snapshot: MigrationSnapshot = {
+      version,
+      timestamp: new Date().toISOString(),
+      items: keys.reduce<Record<string, string | null>>((items, key) => {
+        items[key] = localStorage.getItem(key);
+        return items;
+      }, {}),
+    };
+
+    localStorage.setItem(MIGRATION_SNAPSHOT_KEY, JSON.stringify(snapshot));
+    return snapshot;
+  }
+
+  /**
+   * 一次性合并存储层统一前的两套键：
+   * StorageManager 的数据补上版本信息，StorageService 的数据移到带前缀的键下，两边都有的数据合并后保存
+   */
+  private mergeStorageLayers(toVersion: string, registry: DataMigration[]): void {
+    const legacyVersion = localStorage.getItem(LEGACY_DATA_VERSION_KEY) || INITIAL_DATA_VERSION;
+
+    UNVERSIONED_KEYS.forEach(key => {
+      const stored = readValue(key);
+      if (stored && !isStoredItem(stored.value)) {
+        writeJson(key, createStoredItem(stored.value, legacyVersion), stored.compressed);
+      }
+    });
+
+    Object.entries(LEGACY_MANAGER_KEYS).forEach(([legacyKey, key]) => {
+      const stored = readValue(legacyKey);
+      if (stored) {
+        writeJson(key, createStoredItem(stored.value, legacyVersion), stored.compressed);
+      }
+      localStorage.removeItem(legacyKey);
+    });
+
+    Object.entries(LEGACY_SERVICE_KEYS).forEach(([legacyKey, key]) => {
+      const legacy = readValue(legacyKey);
+      const current = readValue(key);
+      localStorage.removeItem(legacyKey);
+
+      if (!legacy || !isStoredItem(legacy.value)) return;
+      if (!current || !isStoredItem(current.value)) {
+        writeJson(key, legacy.value, legacy.compressed);
+        return;
+      }
+
+      writeJson(
+        key,
+        this.mergeStoredItems(key, current.value, legacy.value, toVersion, registry),
+        current.compressed || legacy.compressed
+      );
+    });
+
+    localStorage.removeItem(LEGACY_DATA_VERSION_KEY);
+  }
+
+  /**
+   * 合并同一个键下两边的数据，current 为 StorageManager 一侧
+   */
+  private mergeStoredItems(
+    key: string,
+    current: StoredItem,
+    legacy: StoredItem,
+    toVersion: string,
+    registry: DataMigration[]
+  ): StoredItem {
+    const dataType = (Object.keys(DATA_KEYS) as MigrationDataType[]).find(type => DATA_KEYS[type] === key);
+
+    if (dataType) {
+      const currentData = migrateData(dataType, current.data, current.version, toVersion, registry);
+      const legacyData = migrateData(dataType, legacy.data, legacy.version, toVersion, registry);
+
+      if (dataType === 'userProgress' && currentData && legacyData) {
+        return createStoredItem(mergeUserProgress(currentData as UserProgress, legacyData as UserProgress), toVersion);
+      }
+      if (dataType === 'vocabularyList') {
+        return createStoredItem(
+          mergeVocabularyLists(currentData as VocabularyItem[], legacyData as VocabularyItem[]),
+          toVersion
+        );
+      }
+      // 设置页一直写入 StorageManager，以它为准
+      return createStoredItem(currentData ?? legacyData, toVersion);
+    }
+
+    if (key === LEGACY_SERVICE_KEYS.vocabulary_favorites) {
+      return {
+        ...current,
+        data: Array.from(new Set([...toStringArray(current.data), ...toStringArray(legacy.data)])),
+      };
+    }
+
+    return legacy.timestamp > current.timestamp ? legacy : current;
+  }
+
+  /**
+   * 读取三类可迁移数据
+   */
+  private readDataItems(): Array<{ key: string; dataType: MigrationDataType; item: StoredItem; compressed: boolean }> {
+    return (Object.entries(DATA_KEYS) as Array<[MigrationDataType, string]>).flatMap(([dataType, key]) => {
+      const stored = readValue(key);
+      return stored && isStoredItem(stored.value)
+        ? [{ key, dataType, item: stored.value, compressed: stored.compressed }]
+        : [];
+    });
+  }
+}
+
+export const dataMigrationService = DataMigrationService.getInstance();
@@ -0,0 +1,290 @@
+/**
+ * 卡组服务
+ * 管理用户自建的卡组：按顺序保存一组词汇，附带说明和学习设置，可以作为练习的词汇来源
+ */
+
+import { VocabularyDeck, VocabularyItem, DeckStudySettings, OperationResult } from '@/types';
+import { storageManager, STORAGE_KEYS } from './storageManager';
+
+/**
+ * 新建卡组时填写的内容
+ */
+export interface DeckInput {
+  name: string;
+  description?: string;
+  wordIds?: string[];
+  settings?: Partial<DeckStudySettings>;
+}
+
+/**
+ * 卡组名称最大长度
+ */
+export const MAX_DECK_NAME_LENGTH = 60;
+
+/**
+ * 默认学习设置：打乱顺序，题目数量跟随练习设置
+ */
+export const DEFAULT_DECK_SETTINGS: DeckStudySettings = {
+  randomOrder: true,
+};
+
+/**
+ * 按卡组中的顺序取出词汇，已删除的词汇会被忽略
+ */
+export const resolveDeckVocabulary = (deck: VocabularyDeck, vocabulary: VocabularyItem[]): VocabularyItem[] => {
+  const byId = new Map(vocabulary.map(item => [item.id, item]));
+  return deck.wordIds.flatMap(id => {
+    const item = byId.get(id);
+    return item ? [item] : [];
+  });
+};
+
+/**
+ * 把词汇移动到卡组中的新位置
+ */
+export const moveDeckWord = (wordIds: string[], from: number, to: number): string[] => {
+  if (from < 0 || from >= wordIds.length || to < 0 || to >= wordIds.length || from === to) {
+    return wordIds;
+  }
+  const result = [...wordIds];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+const reviveDeck = (deck: VocabularyDeck): VocabularyDeck => ({
+  ...deck,
+  settings: { ...DEFAULT_DECK_SETTINGS, ...deck.settings },
+  createdAt: new Date(deck.createdAt),
+  updatedAt: new Date(deck.updatedAt),
+});
+
+/**
+ * 卡组服务类
+ */
+export class DeckService {
+  private static instance: DeckService;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): DeckService {
+    if (!DeckService.instance) {
+      DeckService.instance = new DeckService();
+    }
+    return DeckService.instance;
+  }
+
+  /**
+   * 获取全部卡组，按创建时间排列
+   */
+  async getAllDecks(): Promise<VocabularyDeck[]> {
+    try {
+      const decks = await storageManager.getItem<VocabularyDeck[]>(STORAGE_KEYS.VOCABULARY_DECKS, []);
+      return decks.map(reviveDeck);
+    } catch (error) {
+      console.error('Failed to get decks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 根据ID获取卡组
+   */
+  async getDeck(id: string): Promise<VocabularyDeck | null> {
+    return (await this.getAllDecks()).find(deck => deck.id === id) ?? null;
+  }
+
+  /**
+   * 新建卡组
+   */
+  async createDeck(input: DeckInput): Promise<OperationResult<VocabularyDeck>> {
+    try {
+      const decks = await this.getAllDecks();
+      const error = this.validateName(input.name, decks);
+      if (error) {
+        return { success: false, error };
+      }
+
+      const now = new Date();
+      const deck: VocabularyDeck = {
+        id: this.generateId(),
+        name: input.name.trim(),
+        description: input.description?.trim() ?? '',
+        wordIds: [...new Set(input.wordIds ?? [])],
+        settings: { ...DEFAULT_DECK_SETTINGS, ...input.settings },
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.saveDecks([...decks, deck]);
+      return {
+        success: true,
+        data: deck,
+        message: `卡组 "${deck.name}" 已创建`,
+      };
+    } catch (error) {
+      console.error('Failed to create deck:', error);
+      return {
+        success: false,
+        error: '创建卡组失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 更新卡组名称、说明、词汇或学习设置
+   */
+  async updateDeck(id: string, changes: Partial<DeckInput>): Promise<OperationResult<VocabularyDeck>> {
+    try {
+      const decks = await this.getAllDecks();
+      const deck = decks.find(item => item.id === id);
+      if (!deck) {
+        return {
+          success: false,
+          error: '卡组不存在',
+          message: `ID为 "${id}" 的卡组不存在`,
+        };
+      }
+
+      if (changes.name !== undefined) {
+        const error = this.validateName(changes.name, decks.filter(item => item.id !== id));
+        if (error) {
+          return { success: false, error };
+        }
+      }
+
+      const updated: VocabularyDeck = {
+        ...deck,
+        ...changes,
+        name: changes.name?.trim() ?? deck.name,
+        description: changes.description?.trim() ?? deck.description,
+        wordIds: changes.wordIds ? [...new Set(changes.wordIds)] : deck.wordIds,
+        settings: { ...deck.settings, ...changes.settings },
+        updatedAt: new Date(),
+      };
+
+      await this.saveDecks(decks.map(item => (item.id === id ? updated : item)));
+      return {
+        success: true,
+        data: updated,
+        message: '卡组已更新',
+      };
+    } catch (error) {
+      console.error('Failed to update deck:', error);
+      return {
+        success: false,
+        error: '更新卡组失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 删除卡组（不会删除其中的词汇）
+   */
+  async deleteDeck(id: string): Promise<OperationResult<void>> {
+    try {
+      const decks = await this.getAllDecks();
+      if (!decks.some(deck => deck.id === id)) {
+        return {
+          success: false,
+          error: '卡组不存在',
+          message: `ID为 "${id}" 的卡组不存在`,
+        };
+      }
+
+      await this.saveDecks(decks.filter(deck => deck.id !== id));
+      return {
+        success: true,
+        message: '卡组已删除',
+      };
+    } catch (error) {
+      console.error('Failed to delete deck:', error);
+      return {
+        success: false,
+        error: '删除卡组失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 把词汇追加到卡组末尾，已在卡组中的词汇保持原位置
+   */
+  async addWords(id: string, wordIds: string[]): Promise<OperationResult<VocabularyDeck>> {
+    const deck = await this.getDeck(id);
+    if (!deck) {
+      return { success: false, error: '卡组不存在', message: `ID为 "${id}" 的卡组不存在` };
+    }
+    return this.updateDeck(id, { wordIds: [...deck.wordIds, ...wordIds] });
+  }
+
+  /**
+   * 从卡组中移除词汇
+   */
+  async removeWords(id: string, wordIds: string[]): Promise<OperationResult<VocabularyDeck>> {
+    const deck = await this.getDeck(id);
+    if (!deck) {
+      return { success: false, error: '卡组不存在', message: `ID为 "${id}" 的卡组不存在` };
+    }
+    const removed = new Set(wordIds);
+    return this.updateDeck(id, { wordIds: deck.wordIds.filter(wordId => !removed.has(wordId)) });
+  }
+
+  /**
+   * 调整卡组中词汇的顺序
+   */
+  async moveWord(id: string, from: number, to: number): Promise<OperationResult<VocabularyDeck>> {
+    const deck = await this.getDeck(id);
+    if (!deck) {
+      return { success: false, error: '卡组不存在', message: `ID为 "${id}" 的卡组不存在` };
+    }
+    return this.updateDeck(id, { wordIds: moveDeckWord(deck.wordIds, from, to) });
+  }
+
+  /**
+   * 从所有卡组中移除已删除的词汇
+   */
+  async removeWordsFromAllDecks(wordIds: string[]): Promise<void> {
+    const removed = new Set(wordIds);
+    const decks = await this.getAllDecks();
+    if (!decks.some(deck => deck.wordIds.some(wordId => removed.has(wordId)))) return;
+
+    await this.saveDecks(decks.map(deck => ({
+      ...deck,
+      wordIds: deck.wordIds.filter(wordId => !removed.has(wordId)),
+    })));
+  }
+
+  private validateName(name: string, others: VocabularyDeck[]): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return '卡组名称不能为空';
+    }
+    if (trimmed.length > MAX_DECK_NAME_LENGTH) {
+      return `卡组名称不能超过 ${MAX_DECK_NAME_LENGTH} 个字符`;
+    }
+    if (others.some(deck => deck.name.toLowerCase() === trimmed.toLowerCase())) {
+      return '卡组名称已存在';
+    }
+    return null;
+  }
+
+  private async saveDecks(decks: VocabularyDeck[]): Promise<void> {
+    await storageManager.setItem(STORAGE_KEYS.VOCABULARY_DECKS, decks);
+  }
+
+  /**
+   * 生成唯一ID
+   */
+  private generateId(): string {
+    return `deck_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+/**
+ * 卡组服务单例实例
+ */
+export const deckService = DeckService.getInstance();
@@ -0,0 +1,223 @@
+/**
+ * 内置词库服务
+ * 按需加载随应用发布的 Web3 词库 JSON 包，校验后转换为词汇数据
+ */
+
+import { VocabularyItem, Web3Category, DifficultyLevel } from '@/types';
+import { VocabularyValidationRules, ValidationRule, validateField } from '@/utils/validation';
+
+/**
+ * 支持的词库包格式版本
+ */
+export const GLOSSARY_FORMAT_VERSION = 1;
+
+/**
+ * 词库条目
+ */
+export interface GlossaryEntry {
+  word: string;
+  definition: string;
+  englishDefinition: string;
+  pronunciation: string;
+  category: Web3Category;
+  difficulty: DifficultyLevel;
+  tags: string[];
+  /** 双语例句，至少各有一条中文和英文 */
+  examples: string[];
+}
+
+/**
+ * 词库包
+ */
+export interface GlossaryPack {
+  id: string;
+  version: string;
+  formatVersion: number;
+  entries: GlossaryEntry[];
+}
+
+/**
+ * 校验问题
+ */
+export interface GlossaryValidationIssue {
+  index: number; // 条目在包中的位置
+  word: string;
+  field: keyof GlossaryEntry;
+  message: string;
+}
+
+/**
+ * 校验结果
+ */
+export interface GlossaryValidationResult {
+  valid: GlossaryEntry[];
+  issues: GlossaryValidationIssue[];
+}
+
+const CJK_PATTERN = /[\u4e00-\u9fff]/;
+
+const CATEGORY_RULES: ValidationRule[] = [
+  ...VocabularyValidationRules.category,
+  {
+    custom: value => Object.values(Web3Category).includes(value),
+    message: '请选择有效的分类',
+  },
+];
+
+const REQUIRED_TEXT_RULES: Partial<Record<keyof GlossaryEntry, ValidationRule[]>> = {
+  englishDefinition: [{ required: true, message: '英文定义不能为空' }],
+  pronunciation: [{ required: true, message: '音标不能为空' }],
+};
+
+/**
+ * 归一化词条，用于判断重复（忽略大小写、空格和连字符的差异）
+ */
+export const normalizeTerm = (word: string): string =>
+  word.trim().toLowerCase().replace(/[\s-]+/g, ' ');
+
+/**
+ * 校验单个条目，返回问题列表
+ */
+const validateEntry = (entry: GlossaryEntry, index: number): GlossaryValidationIssue[] => {
+  const issues: GlossaryValidationIssue[] = [];
+  const check = (field: keyof GlossaryEntry, value: unknown, rules: ValidationRule[]) => {
+    validateField(value, rules).errors.forEach(message => {
+      issues.push({ index, word: entry.word, field, message });
+    });
+  };
+
+  check('word', entry.word, VocabularyValidationRules.word);
+  check('definition', entry.definition, VocabularyValidationRules.definition);
+  check('category', entry.category, CATEGORY_RULES);
+  check('difficulty', entry.difficulty, VocabularyValidationRules.difficulty);
+  Object.entries(REQUIRED_TEXT_RULES).forEach(([field, rules]) => {
+    check(field as keyof GlossaryEntry, entry[field as keyof GlossaryEntry], rules!);
+  });
+
+  const examples = Array.isArray(entry.examples) ? entry.examples : [];
+  examples.forEach(example => check('examples', example, VocabularyValidationRules.example));
+  if (!examples.some(example => CJK_PATTERN.test(example)) || !examples.some(example => !CJK_PATTERN.test(example))) {
+    issues.push({ index, word: entry.word, field: 'examples', message: '至少需要一条中文例句和一条英文例句' });
+  }
+
+  if (!Array.isArray(entry.tags)) {
+    issues.push({ index, word: entry.word, field: 'tags', message: '标签必须是数组' });
+  }
+
+  return issues;
+};
+
+/**
+ * 校验词库条目：不符合词汇校验规则或与前面条目重复的条目会被剔除
+ */
+export const validateGlossaryEntries = (entries: GlossaryEntry[]): GlossaryValidationResult => {
+  const valid: GlossaryEntry[] = [];
+  const issues: GlossaryValidationIssue[] = [];
+  const seen = new Map<string, number>();
+
+  entries.forEach((entry, index) => {
+    const entryIssues = validateEntry(entry, index);
+
+    const term = normalizeTerm(String(entry.word ?? ''));
+    const firstIndex = seen.get(term);
+    if (firstIndex !== undefined) {
+      entryIssues.push({ index, word: entry.word, field: 'word', message: `与第 ${firstIndex + 1} 条词汇重复` });
+    } else if (term) {
+      seen.set(term, index);
+    }
+
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+    } else {
+      valid.push(entry);
+    }
+  });
+
+  return { valid, issues };
+};
+
+/**
+ * 由来源 ID 和词条生成词汇 ID，重复导入同一词条时保持不变
+ */
+export const createGlossaryItemId = (sourceId: string, word: string): string =>
+  `${sourceId}_${normalizeTerm(word).replace(/ /g, '_')}`;
+
+/**
+ * 把词库条目转换为词汇项
+ */
+export const glossaryEntryToVocabulary = (packId: string, entry: GlossaryEntry): VocabularyItem => {
+  const now = new Date();
+  return {
+    ...entry,
+    id: createGlossaryItemId(packId, entry.word),
+    tags: [...entry.tags],
+    examples: [...entry.examples],
+    isCustom: false,
+    studyCount: 0,
+    accuracy: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * 内置词库服务类
+ */
+export class GlossaryService {
+  private static instance: GlossaryService;
+  private packPromise: Promise<{ pack: GlossaryPack; validation: GlossaryValidationResult }> | null = null;
+
+  static getInstance(): GlossaryService {
+    if (!GlossaryService.instance) {
+      GlossaryService.instance = new GlossaryService();
+    }
+    return GlossaryService.instance;
+  }
+
+  /**
+   * 加载并校验内置词库包（JSON 单独分包，首次使用时才下载）
+   */
+  async loadPack(): Promise<{ pack: GlossaryPack; validation: GlossaryValidationResult }> {
+    if (!this.packPromise) {
+      this.packPromise = import('@/data/glossary/web3-core.json')
+        .then(module => {
+          const pack = module.default as GlossaryPack;
+          if (pack.formatVersion !== GLOSSARY_FORMAT_VERSION) {
+            throw new Error(`不支持的词库格式版本：${pack.formatVersion}`);
+          }
+
+          const validation = validateGlossaryEntries(pack.entries);
+          if (validation.issues.length > 0) {
+            console.warn(`Glossary pack ${pack.id}@${pack.version} has invalid entries:`, validation.issues);
+          }
+          return { pack, validation };
+        })
+        .catch(error => {
+          this.packPromise = null;
+          throw error;
+        });
+    }
+    return this.packPromise;
+  }
+
+  /**
+   * 获取内置词库中的词汇
+   */
+  async getVocabulary(limit?: number): Promise<VocabularyItem[]> {
+    const { pack, validation } = await this.loadPack();
+    const entries = limit === undefined ? validation.valid : validation.valid.slice(0, limit);
+    return entries.map(entry => glossaryEntryToVocabulary(pack.id, entry));
+  }
+
+  /**
+   * 获取内置词库版本
+   */
+  async getPackVersion(): Promise<string> {
+    return (await this.loadPack()).pack.version;
+  }
+}
+
+/**
+ * 内置词库服务单例实例
+ */
+export const glossaryService = GlossaryService.getInstance();
@@ -0,0 +1,225 @@
+/**
+ * 掌握度服务
+ * 把每次作答写回词汇的正确率和作答次数，并在单词达到或跌出已掌握时发出事件
+ */
+
+import { PracticeSession, VocabularyItem } from '@/types';
+import { vocabularyService } from './vocabularyService';
+import { storageManager } from './storageManager';
+import { wordHistoryService } from './wordHistory';
+import {
+  applyAnswer,
+  getMasteryLevel,
+  MasteryAnswer,
+  MASTERED_ACCURACY,
+  MASTERED_LEVEL,
+  MIN_ANSWERS_FOR_MASTERY,
+} from './vocabularyMastery';
+
+/**
+ * 掌握状态变化事件
+ */
+export interface MasteryEvent {
+  wordId: string;
+  word: string;
+  /** mastered：达到已掌握；demoted：从已掌握降级 */
+  type: 'mastered' | 'demoted';
+  previousLevel: number;
+  level: number;
+}
+
+/**
+ * 一次掌握度更新的结果
+ */
+export interface MasteryUpdate {
+  /** 更新后的词汇 */
+  items: VocabularyItem[];
+  /** 更新后每个单词的掌握程度 */
+  levels: Record<string, number>;
+  /** 跨过已掌握界线的单词 */
+  events: MasteryEvent[];
+}
+
+/**
+ * 掌握度更新监听器
+ */
+export type MasteryListener = (update: MasteryUpdate) => void;
+
+/**
+ * 单词作答记录
+ */
+export interface WordAnswer extends MasteryAnswer {
+  wordId: string;
+}
+
+/**
+ * 比较更新前后的掌握程度，生成跨过已掌握界线的事件
+ */
+const createMasteryEvent = (item: VocabularyItem, previousLevel: number, level: number): MasteryEvent | null => {
+  if (previousLevel < MASTERED_LEVEL && level >= MASTERED_LEVEL) {
+    return { wordId: item.id, word: item.word, type: 'mastered', previousLevel, level };
+  }
+  if (previousLevel >= MASTERED_LEVEL && level < MASTERED_LEVEL) {
+    return { wordId: item.id, word: item.word, type: 'demoted', previousLevel, level };
+  }
+  return null;
+};
+
+/**
+ * 掌握度服务类
+ */
+export class MasteryService {
+  private static instance: MasteryService;
+  private listeners = new Set<MasteryListener>();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): MasteryService {
+    if (!MasteryService.instance) {
+      MasteryService.instance = new MasteryService();
+    }
+    return MasteryService.instance;
+  }
+
+  /**
+   * 按顺序应用作答记录，同一个单词可以出现多次
+   */
+  async recordAnswers(answers: WordAnswer[]): Promise<MasteryUpdate> {
+    const vocabulary = new Map((await vocabularyService.getAllVocabulary()).map(item => [item.id, item]));
+    const changed = new Map<string, VocabularyItem>();
+
+    answers.forEach(answer => {
+      const item = changed.get(answer.wordId) ?? vocabulary.get(answer.wordId);
+      if (!item) return;
+      changed.set(item.id, { ...item, ...applyAnswer(item, answer) });
+    });
+
+    return this.applyChanges(vocabulary, Array.from(changed.values()));
+  }
+
+  /**
+   * 应用练习会话中的全部作答
+   */
+  async recordSession(session: PracticeSession): Promise<MasteryUpdate> {
+    const questionMap = new Map(session.questions.map(question => [question.id, question]));
+    const answers = session.answers.flatMap(answer => {
+      const question = questionMap.get(answer.questionId);
+      return question
+        ? [{ wordId: question.vocabulary.id, isCorrect: answer.isCorrect, questionType: question.type }]
+        : [];
+    });
+    return this.recordAnswers(answers);
+  }
+
+  /**
+   * 手动标记为已掌握：正确率和作答次数至少提高到已掌握的要求
+   */
+  async markMastered(wordIds: string[]): Promise<MasteryUpdate> {
+    const vocabulary = new Map((await vocabularyService.getAllVocabulary()).map(item => [item.id, item]));
+    const changed = wordIds.flatMap(id => {
+      const item = vocabulary.get(id);
+      return item
+        ? [{
+            ...item,
+            accuracy: Math.max(item.accuracy, MASTERED_ACCURACY),
+            studyCount: Math.max(item.studyCount, MIN_ANSWERS_FOR_MASTERY),
+          }]
+        : [];
+    });
+
+    const update = await this.applyChanges(vocabulary, changed, false);
+    for (const item of update.items) {
+      await storageManager.updateLearningData(item.id, { masteryLevel: update.levels[item.id] });
+    }
+    await wordHistoryService.recordEvents(
+      update.items.map(item => ({ wordId: item.id, event: { type: 'mastered', timestamp: new Date().toISOString() } }))
+    );
+    return update;
+  }
+
+  /**
+   * 重置学习进度：正确率、作答次数和复习记录归零
+   */
+  async resetWords(wordIds: string[]): Promise<MasteryUpdate> {
+    const vocabulary = new Map((await vocabularyService.getAllVocabulary()).map(item => [item.id, item]));
+    const changed = wordIds.flatMap(id => {
+      const item = vocabulary.get(id);
+      return item ? [{ ...item, accuracy: 0, studyCount: 0 }] : [];
+    });
+
+    const update = await this.applyChanges(vocabulary, changed, false);
+    for (const item of update.items) {
+      await storageManager.updateLearningData(item.id, {
+        masteryLevel: update.levels[item.id],
+        correctRate: 0,
+        reviewCount: 0,
+        mistakes: [],
+        easeFactor: undefined,
+        intervalDays: undefined,
+      });
+    }
+    await wordHistoryService.recordEvents(
+      update.items.map(item => ({ wordId: item.id, event: { type: 'reset', timestamp: new Date().toISOString() } }))
+    );
+    return update;
+  }
+
+  /**
+   * 订阅掌握度更新，返回取消订阅函数
+   */
+  subscribe(listener: MasteryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 保存变化的词汇，计算掌握程度变化并通知监听器
+   * recordCrossings 为 true 时把达到或跌出已掌握记入学习事件，手动标记和重置由调用方自己记录
+   */
+  private async applyChanges(
+    previous: Map<string, VocabularyItem>,
+    changed: VocabularyItem[],
+    recordCrossings = true
+  ): Promise<MasteryUpdate> {
+    const items = await vocabularyService.saveStudyStats(changed);
+    const levels: Record<string, number> = {};
+    const events: MasteryEvent[] = [];
+
+    items.forEach(item => {
+      const level = getMasteryLevel(item);
+      const event = createMasteryEvent(item, getMasteryLevel(previous.get(item.id) ?? item), level);
+      levels[item.id] = level;
+      if (event) events.push(event);
+    });
+
+    if (recordCrossings) {
+      await wordHistoryService.recordEvents(
+        events.map(event => ({ wordId: event.wordId, event: { type: event.type, timestamp: new Date().toISOString() } }))
+      );
+    }
+
+    const update = { items, levels, events };
+    if (items.length > 0) {
+      this.notify(update);
+    }
+    return update;
+  }
+
+  private notify(update: MasteryUpdate): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('Mastery listener failed:', error);
+      }
+    });
+  }
+}
+
+/**
+ * 掌握度服务单例实例
+ */
+export const masteryService = MasteryService.getInstance();
@@ -0,0 +1,240 @@
+/**
+ * 练习结果分析服务
+ * 根据完成的练习会话统计各题型、各难度的表现，找出薄弱分类和标签，并给出复习建议
+ */
+
+import {
+  PracticeSession,
+  PracticeResult,
+  QuizQuestion,
+  QuestionType,
+  PracticeDifficulty,
+  UserAnswer,
+} from '@/types';
+
+/**
+ * 分组统计
+ */
+export interface PracticeBreakdown {
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+/**
+ * 薄弱领域类型
+ */
+export type WeakAreaKind = 'category' | 'tag';
+
+/**
+ * 薄弱领域详情
+ */
+export interface WeakAreaDetail {
+  /** 领域类型 */
+  kind: WeakAreaKind;
+  /** 分类值或标签名 */
+  key: string;
+  /** 涉及题目数 */
+  total: number;
+  /** 答错（含跳过）题数 */
+  wrong: number;
+  /** 错误率 */
+  errorRate: number;
+}
+
+/**
+ * 薄弱领域判定阈值
+ */
+export interface WeakAreaThresholds {
+  /** 最少错误题数 */
+  minErrors: number;
+  /** 最低错误率 */
+  minErrorRate: number;
+}
+
+/**
+ * 默认薄弱领域判定阈值：同一分类或标签至少错 2 题且错误率不低于 50%
+ */
+export const DEFAULT_WEAK_AREA_THRESHOLDS: WeakAreaThresholds = {
+  minErrors: 2,
+  minErrorRate: 0.5,
+};
+
+/**
+ * 答对但耗时超过时间限制该比例时，也建议复习
+ */
+const SLOW_ANSWER_RATIO = 0.8;
+
+/**
+ * 生成薄弱领域标识，例如 "category:defi"、"tag:staking"
+ */
+export const formatWeakArea = (kind: WeakAreaKind, key: string): string => `${kind}:${key}`;
+
+/**
+ * 解析薄弱领域标识
+ */
+export const parseWeakArea = (area: string): { kind: WeakAreaKind; key: string } | null => {
+  const separatorIndex = area.indexOf(':');
+  if (separatorIndex <= 0) return null;
+
+  const kind = area.slice(0, separatorIndex);
+  if (kind !== 'category' && kind !== 'tag') return null;
+
+  return { kind, key: area.slice(separatorIndex + 1) };
+};
+
+const toAccuracy = (correct: number, total: number): number => (total > 0 ? correct / total : 0);
+
+/**
+ * 判断答案是否为空（跳过或超时未作答）
+ */
+const isEmptyAnswer = (answer: UserAnswer['answer']): boolean => {
+  if (typeof answer === 'string') return answer.trim() === '';
+  if (Array.isArray(answer)) return answer.every(item => !item || item.trim() === '');
+  return Object.keys(answer).length === 0;
+};
+
+/**
+ * 创建所有键都为零的分组统计
+ */
+const createBreakdown = <K extends string>(keys: K[]): Record<K, PracticeBreakdown> =>
+  keys.reduce((result, key) => {
+    result[key] = { total: 0, correct: 0, accuracy: 0 };
+    return result;
+  }, {} as Record<K, PracticeBreakdown>);
+
+/**
+ * 单题分析结果
+ */
+interface QuestionOutcome {
+  question: QuizQuestion;
+  answer?: UserAnswer;
+  isCorrect: boolean;
+  isSkipped: boolean;
+}
+
+/**
+ * 把题目和答案一一对应
+ */
+const getQuestionOutcomes = (session: PracticeSession): QuestionOutcome[] => {
+  const answerMap = new Map(session.answers.map(answer => [answer.questionId, answer]));
+
+  return session.questions.map(question => {
+    const answer = answerMap.get(question.id);
+    const isSkipped = !answer || isEmptyAnswer(answer.answer);
+    return {
+      question,
+      answer,
+      isCorrect: !!answer && answer.isCorrect,
+      isSkipped,
+    };
+  });
+};
+
+/**
+ * 按分类和标签统计错误，找出错误集中的薄弱领域
+ */
+export const detectWeakAreas = (
+  session: PracticeSession,
+  thresholds: WeakAreaThresholds = DEFAULT_WEAK_AREA_THRESHOLDS
+): WeakAreaDetail[] => {
+  const groups = new Map<string, WeakAreaDetail>();
+
+  const addToGroup = (kind: WeakAreaKind, key: string, isWrong: boolean) => {
+    const id = formatWeakArea(kind, key);
+    const group = groups.get(id) ?? { kind, key, total: 0, wrong: 0, errorRate: 0 };
+    group.total += 1;
+    if (isWrong) group.wrong += 1;
+    groups.set(id, group);
+  };
+
+  getQuestionOutcomes(session).forEach(({ question, isCorrect }) => {
+    const { category, tags } = question.vocabulary;
+    addToGroup('category', category, !isCorrect);
+    // 同一词汇的重复标签只计一次
+    new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))
+      .forEach(tag => addToGroup('tag', tag, !isCorrect));
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, errorRate: group.wrong / group.total }))
+    .filter(group => group.wrong >= thresholds.minErrors && group.errorRate >= thresholds.minErrorRate)
+    .sort((a, b) => {
+      if (a.wrong !== b.wrong) return b.wrong - a.wrong;
+      if (a.errorRate !== b.errorRate) return b.errorRate - a.errorRate;
+      // 错误数相同时分类优先于标签
+      if (a.kind !== b.kind) return a.kind === 'category' ? -1 : 1;
+      return a.key.localeCompare(b.key);
+    });
+};
+
+/**
+ * 生成复习建议：先列出答错和跳过的词汇，再列出答对但明显犹豫的词汇
+ */
+export const getReviewSuggestions = (session: PracticeSession): string[] => {
+  const outcomes = getQuestionOutcomes(session);
+  const suggestions = new Set<string>();
+
+  outcomes
+    .filter(outcome => !outcome.isCorrect)
+    .forEach(outcome => suggestions.add(outcome.question.vocabulary.id));
+
+  outcomes
+    .filter(outcome =>
+      outcome.isCorrect &&
+      outcome.answer &&
+      outcome.question.timeLimit > 0 &&
+      outcome.answer.timeSpent >= outcome.question.timeLimit * SLOW_ANSWER_RATIO
+    )
+    .forEach(outcome => suggestions.add(outcome.question.vocabulary.id));
+
+  return Array.from(suggestions);
+};
+
+/**
+ * 分析完成的练习会话，生成完整的练习结果
+ */
+export const analyzePracticeSession = (
+  session: PracticeSession,
+  thresholds: WeakAreaThresholds = DEFAULT_WEAK_AREA_THRESHOLDS
+): PracticeResult => {
+  const outcomes = getQuestionOutcomes(session);
+  const byQuestionType = createBreakdown(Object.values(QuestionType));
+  const byDifficulty = createBreakdown(Object.values(PracticeDifficulty));
+
+  outcomes.forEach(({ question, isCorrect }) => {
+    [byQuestionType[question.type], byDifficulty[question.difficulty]].forEach(breakdown => {
+      if (!breakdown) return;
+      breakdown.total += 1;
+      if (isCorrect) breakdown.correct += 1;
+    });
+  });
+
+  [...Object.values(byQuestionType), ...Object.values(byDifficulty)].forEach(breakdown => {
+    breakdown.accuracy = toAccuracy(breakdown.correct, breakdown.total);
+  });
+
+  const answered = outcomes.filter(outcome => !outcome.isSkipped);
+  const correctAnswers = outcomes.filter(outcome => outcome.isCorrect).length;
+  const answeredTime = answered.reduce((sum, outcome) => sum + (outcome.answer?.timeSpent ?? 0), 0);
+  const sessionTime = session.endTime
+    ? Math.round((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 1000)
+    : 0;
+
+  return {
+    sessionId: session.id,
+    totalQuestions: outcomes.length,
+    correctAnswers,
+    wrongAnswers: answered.length - correctAnswers,
+    skippedAnswers: outcomes.length - answered.length,
+    accuracy: toAccuracy(correctAnswers, outcomes.length),
+    // 会话时长包含阅读反馈的时间，缺失时退回到答题时间之和
+    totalTime: sessionTime > 0 ? sessionTime : answeredTime,
+    averageTime: answered.length > 0 ? answeredTime / answered.length : 0,
+    totalScore: session.answers.reduce((sum, answer) => sum + answer.score, 0),
+    byQuestionType,
+    byDifficulty,
+    weakAreas: detectWeakAreas(session, thresholds).map(area => formatWeakArea(area.kind, area.key)),
+    reviewSuggestions: getReviewSuggestions(session),
+  };
+};
@@ -0,0 +1,367 @@
+/**
+ * 练习会话服务
+ * 负责创建练习会话、挑选复习词汇以及把答题结果写回学习数据
+ */
+
+import {
+  VocabularyItem,
+  VocabularyDeck,
+  QuizQuestion,
+  QuestionType,
+  PracticeSession,
+  PracticeConfig,
+  PracticeSettings,
+  UserAnswer,
+  DEFAULT_SETTINGS,
+} from '@/types';
+import { reviewScheduler, answerToQuality, ReviewSchedule } from './reviewScheduler';
+import { buildQuestionsForWords, generateQuestions, QuestionGeneratorOptions } from './questionGenerator';
+import { storageManager, PracticeResultRecord, PracticeAnswerRecord } from './storageManager';
+import { resolveDeckVocabulary } from './deckService';
+import { wordHistoryService, formatAnswer } from './wordHistory';
+import { masteryService } from './masteryService';
+
+/**
+ * 练习模式
+ */
+export type PracticeMode = PracticeSession['mode'];
+
+/**
+ * 复习会话构建选项
+ */
+export interface ReviewSessionOptions {
+  /** 题目数量上限 */
+  questionCount: number;
+  /** 当前时间 */
+  now?: Date;
+  /** 随机种子 */
+  seed?: number;
+}
+
+/**
+ * 练习结果记录选项
+ */
+export interface PracticeResultOptions {
+  /** 是否因总时间用完而结束 */
+  timedOut?: boolean;
+}
+
+/**
+ * 单词答题结果
+ */
+export interface WordAnswerResult {
+  /** 单词ID */
+  wordId: string;
+  /** 是否答对 */
+  isCorrect: boolean;
+  /** 答题时间（秒） */
+  timeSpent: number;
+}
+
+/**
+ * 默认练习配置
+ */
+export const DEFAULT_PRACTICE_CONFIG: PracticeConfig = {
+  questionCount: 10,
+  timedMode: false,
+  showInstantFeedback: true,
+  allowSkip: false,
+  randomOrder: true,
+};
+
+/**
+ * 复习模式使用的题型
+ */
+export const REVIEW_QUESTION_TYPES: QuestionType[] = [
+  QuestionType.MULTIPLE_CHOICE,
+  QuestionType.FILL_BLANK,
+];
+
+/**
+ * 根据练习设置生成快速练习或限时挑战的配置
+ * 传入卡组时从卡组中出题，题目数量、题型和出题顺序使用卡组的学习设置
+ */
+export const buildPracticeConfig = (
+  mode: Extract<PracticeMode, 'quick' | 'timed'>,
+  settings: PracticeSettings = DEFAULT_SETTINGS.practice,
+  deck?: VocabularyDeck
+): PracticeConfig => {
+  const questionCount = deck?.settings.questionCount ?? settings.defaultQuestionCount;
+  const source: Partial<PracticeConfig> = deck
+    ? { deckId: deck.id, questionTypes: deck.settings.questionTypes, randomOrder: deck.settings.randomOrder }
+    : {};
+
+  if (mode === 'timed') {
+    return {
+      ...DEFAULT_PRACTICE_CONFIG,
+      ...source,
+      questionCount,
+      timedMode: true,
+      // 总时间按每题默认时间累计，整场练习共用
+      totalTimeLimit: questionCount * settings.defaultTimeLimit,
+      // 限时挑战不弹出即时反馈，避免占用答题时间
+      showInstantFeedback: false,
+    };
+  }
+
+  return {
+    ...DEFAULT_PRACTICE_CONFIG,
+    ...source,
+    questionCount,
+    showInstantFeedback: settings.showInstantFeedback,
+  };
+};
+
+/**
+ * 根据完成的练习会话生成练习结果记录
+ */
+export const createPracticeResultRecord = (
+  session: PracticeSession,
+  options: PracticeResultOptions = {}
+): PracticeResultRecord => {
+  const questionMap = new Map(session.questions.map(question => [question.id, question]));
+  const endTime = session.endTime ?? new Date();
+
+  const answers = session.answers
+    .map((answer): PracticeAnswerRecord | null => {
+      const question = questionMap.get(answer.questionId);
+      return question
+        ? {
+            questionId: question.id,
+            wordId: question.vocabulary.id,
+            type: question.type,
+            difficulty: question.difficulty,
+            isCorrect: answer.isCorrect,
+            timeSpent: answer.timeSpent,
+            score: answer.score,
+          }
+        : null;
+    })
+    .filter((answer): answer is PracticeAnswerRecord => answer !== null);
+
+  return {
+    sessionId: session.id,
+    mode: session.mode,
+    date: endTime.toISOString(),
+    startTime: new Date(session.startTime).toISOString(),
+    duration: Math.max(0, Math.round((endTime.getTime() - new Date(session.startTime).getTime()) / 1000)),
+    totalQuestions: session.questions.length,
+    answeredQuestions: answers.length,
+    correctAnswers: answers.filter(answer => answer.isCorrect).length,
+    totalScore: session.totalScore,
+    maxScore: session.maxScore,
+    accuracy: session.accuracy,
+    timeLimit: session.config.timedMode ? session.config.totalTimeLimit : undefined,
+    timedOut: options.timedOut ?? false,
+    answers,
+  };
+};
+
+/**
+ * 生成唯一ID
+ */
+const generateId = (prefix: string): string =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * 挑选复习词汇：先按调度队列顺序取到期词汇，再补充薄弱词汇
+ */
+export const selectReviewWords = (
+  vocabulary: VocabularyItem[],
+  dueQueue: ReviewSchedule[],
+  weakWords: string[],
+  limit: number
+): VocabularyItem[] => {
+  const vocabularyMap = new Map(vocabulary.map(item => [item.id, item]));
+  const selectedIds = new Set<string>();
+  const selected: VocabularyItem[] = [];
+
+  const pick = (wordId: string) => {
+    if (selected.length >= limit || selectedIds.has(wordId)) return;
+    const item = vocabularyMap.get(wordId);
+    if (item) {
+      selectedIds.add(wordId);
+      selected.push(item);
+    }
+  };
+
+  dueQueue.forEach(schedule => pick(schedule.wordId));
+  weakWords.forEach(pick);
+
+  return selected;
+};
+
+/**
+ * 练习会话服务类
+ */
+export class PracticeService {
+  private static instance: PracticeService;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): PracticeService {
+    if (!PracticeService.instance) {
+      PracticeService.instance = new PracticeService();
+    }
+    return PracticeService.instance;
+  }
+
+  /**
+   * 创建练习会话
+   */
+  createSession(
+    mode: PracticeMode,
+    questions: QuizQuestion[],
+    config: Partial<PracticeConfig> = {}
+  ): PracticeSession {
+    return {
+      id: generateId('practice'),
+      startTime: new Date(),
+      questions,
+      answers: [],
+      totalScore: 0,
+      maxScore: questions.reduce((sum, question) => sum + question.points, 0),
+      accuracy: 0,
+      status: 'in_progress',
+      mode,
+      config: {
+        ...DEFAULT_PRACTICE_CONFIG,
+        ...config,
+        questionCount: questions.length,
+      },
+    };
+  }
+
+  /**
+   * 根据练习设置构建快速练习或限时挑战会话
+   * 传入卡组时只从卡组的词汇中出题，干扰项仍从全部词汇中选取
+   */
+  buildPracticeSession(
+    mode: Extract<PracticeMode, 'quick' | 'timed'>,
+    vocabulary: VocabularyItem[],
+    settings: PracticeSettings = DEFAULT_SETTINGS.practice,
+    options: QuestionGeneratorOptions = {},
+    deck?: VocabularyDeck
+  ): PracticeSession | null {
+    const config = buildPracticeConfig(mode, settings, deck);
+    const questions = generateQuestions(deck ? resolveDeckVocabulary(deck, vocabulary) : vocabulary, config, {
+      ...options,
+      distractorPool: options.distractorPool ?? vocabulary,
+    });
+
+    if (questions.length === 0) {
+      return null;
+    }
+
+    // 词汇不足时题目会少于设置数量，按实际题数重新计算配置
+    return this.createSession(mode, questions, {
+      ...config,
+      questionCount: questions.length,
+      ...(config.timedMode ? { totalTimeLimit: questions.length * settings.defaultTimeLimit } : {}),
+    });
+  }
+
+  /**
+   * 根据到期词汇和薄弱词汇构建复习会话
+   */
+  async buildReviewSession(
+    vocabulary: VocabularyItem[],
+    weakWords: string[],
+    options: ReviewSessionOptions
+  ): Promise<PracticeSession | null> {
+    const dueQueue = await reviewScheduler.getDueQueue({ now: options.now });
+    const words = selectReviewWords(vocabulary, dueQueue, weakWords, options.questionCount);
+
+    if (words.length === 0) {
+      return null;
+    }
+
+    const questions = buildQuestionsForWords(words, REVIEW_QUESTION_TYPES, {
+      seed: options.seed,
+      distractorPool: vocabulary,
+    });
+    return this.createSession('review', questions, { randomOrder: false });
+  }
+
+  /**
+   * 结束练习会话并汇总得分
+   */
+  completeSession(session: PracticeSession, answers: UserAnswer[]): PracticeSession {
+    const correctCount = answers.filter(answer => answer.isCorrect).length;
+
+    return {
+      ...session,
+      answers,
+      endTime: new Date(),
+      totalScore: answers.reduce((sum, answer) => sum + answer.score, 0),
+      accuracy: session.questions.length > 0 ? correctCount / session.questions.length : 0,
+      status: 'completed',
+    };
+  }
+
+  /**
+   * 按单词汇总会话答题结果
+   */
+  getWordResults(session: PracticeSession): WordAnswerResult[] {
+    const questionMap = new Map(session.questions.map(question => [question.id, question]));
+
+    return session.answers
+      .map(answer => {
+        const question = questionMap.get(answer.questionId);
+        return question
+          ? { wordId: question.vocabulary.id, isCorrect: answer.isCorrect, timeSpent: answer.timeSpent }
+          : null;
+      })
+      .filter((result): result is WordAnswerResult => result !== null);
+  }
+
+  /**
+   * 把会话答题结果写回词汇掌握度和学习数据，并记录每个单词的学习事件
+   */
+  async recordSessionResults(session: PracticeSession): Promise<WordAnswerResult[]> {
+    const questionMap = new Map(session.questions.map(question => [question.id, question]));
+    const results = this.getWordResults(session);
+
+    await wordHistoryService.recordSession(session);
+    const { levels } = await masteryService.recordSession(session);
+
+    for (const answer of session.answers) {
+      const question = questionMap.get(answer.questionId);
+      if (!question) continue;
+
+      const quality = answerToQuality(answer.isCorrect, answer.timeSpent, question.timeLimit);
+      const mistake = answer.isCorrect ? undefined : formatAnswer(answer.answer) || undefined;
+      await reviewScheduler.recordReview(question.vocabulary.id, quality, {
+        mistake,
+        masteryLevel: levels[question.vocabulary.id],
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * 保存练习结果，供进度页面统计使用
+   */
+  async savePracticeResult(
+    session: PracticeSession,
+    options: PracticeResultOptions = {}
+  ): Promise<PracticeResultRecord> {
+    const record = createPracticeResultRecord(session, options);
+    await storageManager.savePracticeResult(record);
+    return record;
+  }
+
+  /**
+   * 获取历史练习结果
+   */
+  async getPracticeResults(): Promise<PracticeResultRecord[]> {
+    return storageManager.getPracticeResults();
+  }
+}
+
+/**
+ * 练习会话服务单例实例
+ */
+export const practiceService = PracticeService.getInstance();
@@ -0,0 +1,548 @@
+/**
+ * 题目生成服务
+ * 把词汇库中的 VocabularyItem 转换为各种题型的 QuizQuestion，
+ * 支持传入随机种子以便复现同一套题目
+ */
+
+import {
+  VocabularyItem,
+  DifficultyLevel,
+  QuizQuestion,
+  QuestionType,
+  PracticeDifficulty,
+  PracticeConfig,
+  MultipleChoiceQuestion,
+  FillBlankQuestion,
+  ListeningQuestion,
+  DragDropQuestion,
+  TrueFalseQuestion,
+  MatchingQuestion,
+} from '@/types';
+import { vocabularyService } from './vocabularyService';
+import { deckService, resolveDeckVocabulary } from './deckService';
+import { findRelationType, INTERCHANGEABLE_RELATIONS } from './vocabularyRelations';
+import { compactTerm } from './vocabularyDuplicates';
+
+/**
+ * 随机数生成函数，返回 [0, 1) 区间的数
+ */
+export type RandomFn = () => number;
+
+/**
+ * 题目生成选项
+ */
+export interface QuestionGeneratorOptions {
+  /** 随机种子，相同种子和输入生成相同题目 */
+  seed?: number;
+  /** 干扰项词汇池，默认使用待出题词汇 */
+  distractorPool?: VocabularyItem[];
+}
+
+/**
+ * 单个题目的生成上下文
+ */
+export interface QuestionBuildContext {
+  /** 干扰项词汇池 */
+  pool: VocabularyItem[];
+  /** 随机数生成函数 */
+  random: RandomFn;
+  /** 题目ID */
+  id: string;
+}
+
+/**
+ * 难度对应的题目设置
+ */
+export interface QuestionDifficultySettings {
+  /** 题目难度 */
+  difficulty: PracticeDifficulty;
+  /** 答题时间限制（秒） */
+  timeLimit: number;
+  /** 题目分值 */
+  points: number;
+}
+
+/**
+ * 词汇难度对应的题目难度、时间限制和分值
+ */
+export const DIFFICULTY_SETTINGS: Record<DifficultyLevel, QuestionDifficultySettings> = {
+  [DifficultyLevel.BEGINNER]: { difficulty: PracticeDifficulty.EASY, timeLimit: 30, points: 10 },
+  [DifficultyLevel.INTERMEDIATE]: { difficulty: PracticeDifficulty.MEDIUM, timeLimit: 30, points: 15 },
+  [DifficultyLevel.ADVANCED]: { difficulty: PracticeDifficulty.HARD, timeLimit: 45, points: 20 },
+};
+
+/**
+ * 各题型的答题时间倍数，题目越复杂给的时间越多
+ */
+const TIME_LIMIT_FACTORS: Record<QuestionType, number> = {
+  [QuestionType.MULTIPLE_CHOICE]: 1,
+  [QuestionType.TRUE_FALSE]: 0.5,
+  [QuestionType.FILL_BLANK]: 1.5,
+  [QuestionType.LISTENING]: 1.5,
+  [QuestionType.DRAG_DROP]: 2,
+  [QuestionType.MATCHING]: 2,
+};
+
+/**
+ * 默认生成的题型
+ */
+export const DEFAULT_QUESTION_TYPES: QuestionType[] = Object.values(QuestionType);
+
+/** 选择题选项数量 */
+const OPTION_COUNT = 4;
+/** 匹配题配对数量 */
+const MATCHING_PAIR_COUNT = 4;
+/** 拖拽排序题的例句单词数范围 */
+const MIN_DRAG_ITEMS = 3;
+const MAX_DRAG_ITEMS = 10;
+/** 填空题空格占位符，与 FillBlankQuestion 组件保持一致 */
+const BLANK_PLACEHOLDER = '___';
+
+/**
+ * 创建可复现的随机数生成函数（mulberry32）
+ */
+export const createRandom = (seed: number = Date.now()): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 使用指定随机函数打乱数组（Fisher-Yates），不修改原数组
+ */
+export const shuffle = <T>(items: T[], random: RandomFn): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * 获取题目的难度、时间限制和分值
+ */
+export const getQuestionSettings = (
+  level: DifficultyLevel,
+  type: QuestionType
+): QuestionDifficultySettings => {
+  const settings = DIFFICULTY_SETTINGS[level] ?? DIFFICULTY_SETTINGS[DifficultyLevel.BEGINNER];
+  return {
+    ...settings,
+    timeLimit: Math.round(settings.timeLimit * TIME_LIMIT_FACTORS[type]),
+  };
+};
+
+/**
+ * 挑选干扰词汇：优先有关联的词汇（相关、反义、组成部分），其次同分类，不足时从其他分类补充
+ * 别名和缩写与原词含义相同，不会作为干扰项
+ */
+export const pickDistractors = (
+  item: VocabularyItem,
+  pool: VocabularyItem[],
+  count: number,
+  random: RandomFn
+): VocabularyItem[] => {
+  const seenDefinitions = new Set([item.definition]);
+  const relationTypes = new Map<string, ReturnType<typeof findRelationType>>();
+  const candidates = pool.filter(other => {
+    if (other.id === item.id || seenDefinitions.has(other.definition)) return false;
+    const relationType = findRelationType(item, other);
+    if (relationType && INTERCHANGEABLE_RELATIONS.has(relationType)) return false;
+    seenDefinitions.add(other.definition);
+    relationTypes.set(other.id, relationType);
+    return true;
+  });
+
+  const linked = shuffle(candidates.filter(other => relationTypes.get(other.id)), random);
+  const unlinked = candidates.filter(other => !relationTypes.get(other.id));
+  const sameCategory = shuffle(unlinked.filter(other => other.category === item.category), random);
+  const otherCategories = shuffle(unlinked.filter(other => other.category !== item.category), random);
+
+  return [...linked, ...sameCategory, ...otherCategories].slice(0, count);
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 术语边界外不能出现的字符：汉字之间没有分隔符，不作为单词的一部分
+ */
+const TERM_CHAR = '(?:(?!\\p{Script=Han})[\\p{L}\\p{N}_])';
+
+/**
+ * 匹配完整术语的正则，避免 "DAO" 匹配到 "DAOs"、"gas" 匹配到 "Vegas"
+ */
+const createTermPattern = (term: string): RegExp =>
+  new RegExp(`(?<!${TERM_CHAR})${escapeRegExp(term)}(?!${TERM_CHAR})`, 'iu');
+
+/**
+ * 查找包含目标单词的例句，返回挖空后的模板和原文中的答案
+ */
+const findBlankExample = (
+  item: VocabularyItem,
+  random: RandomFn
+): { template: string; answer: string; example: string } | null => {
+  const pattern = createTermPattern(item.word);
+  const examples = shuffle(item.examples.filter(example => pattern.test(example)), random);
+  if (examples.length === 0) return null;
+
+  const example = examples[0];
+  const match = example.match(pattern);
+  if (!match) return null;
+
+  return {
+    template: example.replace(pattern, BLANK_PLACEHOLDER),
+    answer: match[0],
+    example,
+  };
+};
+
+/**
+ * 生成选择题：根据单词选择正确释义
+ */
+export const buildMultipleChoice = (
+  item: VocabularyItem,
+  context: QuestionBuildContext
+): MultipleChoiceQuestion | null => {
+  const distractors = pickDistractors(item, context.pool, OPTION_COUNT - 1, context.random);
+  if (distractors.length === 0) return null;
+
+  const options = shuffle([item.definition, ...distractors.map(other => other.definition)], context.random);
+
+  return {
+    id: context.id,
+    type: QuestionType.MULTIPLE_CHOICE,
+    vocabulary: item,
+    question: `"${item.word}" 的正确释义是？`,
+    correctAnswer: item.definition,
+    explanation: item.englishDefinition,
+    options,
+    correctIndex: options.indexOf(item.definition),
+    ...getQuestionSettings(item.difficulty, QuestionType.MULTIPLE_CHOICE),
+  };
+};
+
+/**
+ * 生成填空题：从例句中挖去目标单词
+ */
+export const buildFillBlank = (
+  item: VocabularyItem,
+  context: QuestionBuildContext
+): FillBlankQuestion | null => {
+  const blank = findBlankExample(item, context.random);
+  if (!blank) return null;
+
+  return {
+    id: context.id,
+    type: QuestionType.FILL_BLANK,
+    vocabulary: item,
+    question: '根据释义补全例句中缺少的术语',
+    correctAnswer: blank.answer,
+    explanation: blank.example,
+    template: blank.template,
+    blanks: [
+      {
+        index: 0,
+        answer: blank.answer,
+        hints: [item.definition],
+      },
+    ],
+    ...getQuestionSettings(item.difficulty, QuestionType.FILL_BLANK),
+  };
+};
+
+/**
+ * 生成听力题：听发音写出单词，需要词汇带有音频
+ */
+export const buildListening = (
+  item: VocabularyItem,
+  context: QuestionBuildContext
+): ListeningQuestion | null => {
+  if (!item.audioUrl) return null;
+
+  return {
+    id: context.id,
+    type: QuestionType.LISTENING,
+    vocabulary: item,
+    question: '听音频，写出你听到的术语',
+    correctAnswer: item.word,
+    explanation: item.definition,
+    audioUrl: item.audioUrl,
+    // 实际时长由播放器加载元数据后获取
+    audioDuration: 0,
+    playLimit: 3,
+    ...getQuestionSettings(item.difficulty, QuestionType.LISTENING),
+  };
+};
+
+/**
+ * 生成拖拽排序题：把例句中的单词排列成正确顺序
+ */
+export const buildDragDrop = (
+  item: VocabularyItem,
+  context: QuestionBuildContext
+): DragDropQuestion | null => {
+  const example = shuffle(
+    item.examples.filter(sentence => {
+      const words = sentence.trim().split(/\s+/);
+      const uniqueWords = new Set(words.map(word => word.toLowerCase()));
+      // 有重复单词时存在多个正确顺序，不适合出题
+      return words.length >= MIN_DRAG_ITEMS && words.length <= MAX_DRAG_ITEMS && uniqueWords.size === words.length;
+    }),
+    context.random
+  )[0];
+  if (!example) return null;
+
+  const words = example.trim().split(/\s+/);
+  const ordered = words.map((content, index) => ({
+    id: `${context.id}_item_${index}`,
+    content,
+    correctPosition: index,
+  }));
+
+  // 打乱后仍是正确顺序时重新打乱，单词不重复且至少有两个，必然存在其他顺序
+  let items = shuffle(ordered, context.random);
+  while (items.every((entry, index) => entry.correctPosition === index)) {
+    items = shuffle(ordered, context.random);
+  }
+
+  return {
+    id: context.id,
+    type: QuestionType.DRAG_DROP,
+    vocabulary: item,
+    question: `将下列单词排列成包含 "${item.word}" 的正确例句`,
+    correctAnswer: words.join(' '),
+    explanation: item.definition,
+    items,
+    ...getQuestionSettings(item.difficulty, QuestionType.DRAG_DROP),
+  };
+};
+
+/**
+ * 生成判断题：判断单词和给出的释义是否对应
+ */
+export const buildTrueFalse = (
+  item: VocabularyItem,
+  context: QuestionBuildContext
+): TrueFalseQuestion => {
+  const [distractor] = context.random() < 0.5
+    ? pickDistractors(item, context.pool, 1, context.random)
+    : [];
+  const isTrue = !distractor;
+  const shownDefinition = isTrue ? item.definition : distractor.definition;
+
+  return {
+    id: context.id,
+    type: QuestionType.TRUE_FALSE,
+    vocabulary: item,
+    question: `"${item.word}" 的释义是"${shownDefinition}"`,
+    correctAnswer: String(isTrue),
+    explanation: `"${item.word}" 的正确释义是"${item.definition}"`,
+    isTrue,
+    ...getQuestionSettings(item.difficulty, QuestionType.TRUE_FALSE),
+  };
+};
+
+/**
+ * 生成匹配题：把单词和释义一一对应
+ */
+export const buildMatching = (
+  item: VocabularyItem,
+  context: QuestionBuildContext
+): MatchingQuestion | null => {
+  // 左侧的术语也不能重复，同名词条只保留一个
+  const seenWords = new Set([compactTerm(item.word)]);
+  const distractors = pickDistractors(item, context.pool, context.pool.length, context.random)
+    .filter(other => {
+      const word = compactTerm(other.word);
+      if (seenWords.has(word)) return false;
+      seenWords.add(word);
+      return true;
+    })
+    .slice(0, MATCHING_PAIR_COUNT - 1);
+  if (distractors.length < 2) return null;
+
+  const pairs = [item, ...distractors].map((pairItem, index) => ({
+    item: pairItem,
+    leftId: `${context.id}_left_${index}`,
+    rightId: `${context.id}_right_${index}`,
+  }));
+
+  return {
+    id: context.id,
+    type: QuestionType.MATCHING,
+    vocabulary: item,
+    question: '将术语与对应的释义连线',
+    correctAnswer: pairs.map(pair => `${pair.item.word}: ${pair.item.definition}`).join('；'),
+    explanation: item.englishDefinition,
+    leftItems: shuffle(pairs.map(pair => ({ id: pair.leftId, content: pair.item.word })), context.random),
+    rightItems: shuffle(pairs.map(pair => ({ id: pair.rightId, content: pair.item.definition })), context.random),
+    correctMatches: pairs.map(pair => ({ leftId: pair.leftId, rightId: pair.rightId })),
+    ...getQuestionSettings(item.difficulty, QuestionType.MATCHING),
+  };
+};
+
+/**
+ * 题型对应的生成函数，返回 null 表示该词汇无法生成此题型
+ */
+const QUESTION_BUILDERS: Record<
+  QuestionType,
+  (item: VocabularyItem, context: QuestionBuildContext) => QuizQuestion | null
+> = {
+  [QuestionType.MULTIPLE_CHOICE]: buildMultipleChoice,
+  [QuestionType.FILL_BLANK]: buildFillBlank,
+  [QuestionType.LISTENING]: buildListening,
+  [QuestionType.DRAG_DROP]: buildDragDrop,
+  [QuestionType.TRUE_FALSE]: buildTrueFalse,
+  [QuestionType.MATCHING]: buildMatching,
+};
+
+/**
+ * 为单个词汇生成题目：优先使用指定题型，无法生成时依次尝试其他允许的题型
+ */
+export const buildQuestion = (
+  item: VocabularyItem,
+  preferredType: QuestionType,
+  allowedTypes: QuestionType[],
+  context: QuestionBuildContext
+): QuizQuestion | null => {
+  const types = [preferredType, ...allowedTypes.filter(type => type !== preferredType)];
+
+  for (const type of types) {
+    const question = QUESTION_BUILDERS[type](item, context);
+    if (question) return question;
+  }
+
+  return null;
+};
+
+/**
+ * 按顺序为给定词汇生成题目，题型随机分配
+ */
+export const buildQuestionsForWords = (
+  words: VocabularyItem[],
+  questionTypes: QuestionType[] = DEFAULT_QUESTION_TYPES,
+  options: QuestionGeneratorOptions & { limit?: number } = {}
+): QuizQuestion[] => {
+  const random = createRandom(options.seed);
+  const pool = options.distractorPool ?? words;
+  const types = questionTypes.length > 0 ? questionTypes : DEFAULT_QUESTION_TYPES;
+  const limit = options.limit ?? words.length;
+  // 同一种子下题目ID也保持一致
+  const sessionKey = Math.floor(random() * 0xffffffff).toString(36);
+  const questions: QuizQuestion[] = [];
+
+  for (const item of words) {
+    if (questions.length >= limit) break;
+
+    const preferredType = types[Math.floor(random() * types.length)];
+    const question = buildQuestion(item, preferredType, types, {
+      pool,
+      random,
+      id: `question_${sessionKey}_${questions.length}`,
+    });
+    if (question) {
+      questions.push(question);
+    }
+  }
+
+  return questions;
+};
+
+/**
+ * 根据练习配置过滤可出题的词汇
+ */
+export const filterVocabulary = (
+  vocabulary: VocabularyItem[],
+  config: Pick<PracticeConfig, 'categories' | 'difficulties'>
+): VocabularyItem[] => {
+  const { categories, difficulties } = config;
+
+  return vocabulary.filter(item => {
+    if (categories && categories.length > 0 && !categories.includes(item.category)) {
+      return false;
+    }
+    if (difficulties && difficulties.length > 0) {
+      const { difficulty } = getQuestionSettings(item.difficulty, QuestionType.MULTIPLE_CHOICE);
+      if (!difficulties.includes(difficulty)) return false;
+    }
+    return true;
+  });
+};
+
+/**
+ * 根据练习配置生成一套题目
+ */
+export const generateQuestions = (
+  vocabulary: VocabularyItem[],
+  config: PracticeConfig,
+  options: QuestionGeneratorOptions = {}
+): QuizQuestion[] => {
+  const random = createRandom(options.seed);
+  const candidates = filterVocabulary(vocabulary, config);
+  const ordered = config.randomOrder ? shuffle(candidates, random) : candidates;
+
+  // 某些词汇无法生成任何题型时会被跳过，由后续词汇补足数量
+  return buildQuestionsForWords(ordered, config.questionTypes, {
+    seed: Math.floor(random() * 0xffffffff),
+    distractorPool: options.distractorPool ?? vocabulary,
+    limit: Math.max(0, config.questionCount),
+  });
+};
+
+/**
+ * 题目生成服务类
+ */
+export class QuestionGenerator {
+  private static instance: QuestionGenerator;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): QuestionGenerator {
+    if (!QuestionGenerator.instance) {
+      QuestionGenerator.instance = new QuestionGenerator();
+    }
+    return QuestionGenerator.instance;
+  }
+
+  /**
+   * 根据传入的词汇生成题目
+   */
+  generate(
+    vocabulary: VocabularyItem[],
+    config: PracticeConfig,
+    options: QuestionGeneratorOptions = {}
+  ): QuizQuestion[] {
+    return generateQuestions(vocabulary, config, options);
+  }
+
+  /**
+   * 从词汇库读取词汇并生成题目，配置中指定了卡组时只从卡组中出题
+   */
+  async generateFromStore(
+    config: PracticeConfig,
+    options: QuestionGeneratorOptions = {}
+  ): Promise<QuizQuestion[]> {
+    const vocabulary = await vocabularyService.getAllVocabulary();
+    const deck = config.deckId ? await deckService.getDeck(config.deckId) : null;
+    if (config.deckId && !deck) {
+      return [];
+    }
+
+    return generateQuestions(deck ? resolveDeckVocabulary(deck, vocabulary) : vocabulary, config, {
+      ...options,
+      distractorPool: options.distractorPool ?? vocabulary,
+    });
+  }
+}
+
+/**
+ * 题目生成服务单例实例
+ */
+export const questionGenerator = QuestionGenerator.getInstance();
@@ -0,0 +1,355 @@
+/**
+ * 复习调度服务
+ * 根据 LearningSettings.reviewAlgorithm 计算每个单词的下次复习时间和难度系数，
+ * 并生成确定性的"今日待复习"队列
+ */
+
+import { addDays, differenceInCalendarDays, endOfDay, isValid, parseISO } from 'date-fns';
+import { LearningSettings, DEFAULT_SETTINGS } from '@/types';
+import { storageManager, LearningData, MAX_RECORDED_MISTAKES } from './storageManager';
+
+/**
+ * 复习算法类型
+ */
+export type ReviewAlgorithm = LearningSettings['reviewAlgorithm'];
+
+/**
+ * 单词复习计划
+ */
+export interface ReviewSchedule {
+  /** 单词ID */
+  wordId: string;
+  /** 使用的算法 */
+  algorithm: ReviewAlgorithm;
+  /** 难度系数（ease factor） */
+  easeFactor: number;
+  /** 复习间隔（天） */
+  intervalDays: number;
+  /** 下次复习日期 */
+  dueDate: Date;
+  /** 逾期天数（未到期时为负数） */
+  overdueDays: number;
+  /** 今日是否需要复习 */
+  isDue: boolean;
+}
+
+/**
+ * 复习队列查询选项
+ */
+export interface DueQueueOptions {
+  /** 当前时间，默认为 new Date() */
+  now?: Date;
+  /** 复习算法，默认读取用户设置 */
+  algorithm?: ReviewAlgorithm;
+  /** 最大返回数量 */
+  limit?: number;
+}
+
+/**
+ * 答题质量（SM-2 标准，0-5）
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** 最小难度系数 */
+export const MIN_EASE_FACTOR = 1.3;
+/** 默认难度系数 */
+export const DEFAULT_EASE_FACTOR = 2.5;
+/** 最大难度系数 */
+export const MAX_EASE_FACTOR = 2.8;
+/** 最大复习间隔（天） */
+export const MAX_INTERVAL_DAYS = 365;
+
+/**
+ * 固定间隔算法：按掌握程度（1-5）对应的复习间隔（天）
+ */
+const FIXED_INTERVALS = [1, 2, 4, 7, 15];
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const clampMastery = (level: number): number =>
+  clamp(Math.round(level) || 1, 1, FIXED_INTERVALS.length);
+
+/**
+ * 解析最后复习日期，无效时回退到当前时间
+ */
+const parseReviewDate = (value: string, now: Date): Date => {
+  const parsed = value ? parseISO(value) : now;
+  return isValid(parsed) ? parsed : now;
+};
+
+/**
+ * 计算单词的难度系数
+ */
+export const getEaseFactor = (data: LearningData, algorithm: ReviewAlgorithm): number => {
+  switch (algorithm) {
+    case 'fixed_interval':
+      return DEFAULT_EASE_FACTOR;
+
+    case 'adaptive': {
+      // 正确率和掌握程度共同决定系数
+      const base = MIN_EASE_FACTOR + (DEFAULT_EASE_FACTOR - MIN_EASE_FACTOR) * data.correctRate;
+      const masteryBonus = (clampMastery(data.masteryLevel) - 3) * 0.1;
+      return clamp(base + masteryBonus, MIN_EASE_FACTOR, MAX_EASE_FACTOR);
+    }
+
+    case 'spaced_repetition':
+    default:
+      if (typeof data.easeFactor === 'number') {
+        return clamp(data.easeFactor, MIN_EASE_FACTOR, MAX_EASE_FACTOR);
+      }
+      if (data.reviewCount === 0) {
+        return DEFAULT_EASE_FACTOR;
+      }
+      // 旧数据没有记录系数，根据历史正确率推算
+      return MIN_EASE_FACTOR + (DEFAULT_EASE_FACTOR - MIN_EASE_FACTOR) * clamp(data.correctRate, 0, 1);
+  }
+};
+
+/**
+ * 计算单词当前的复习间隔（天）
+ */
+export const getIntervalDays = (
+  data: LearningData,
+  algorithm: ReviewAlgorithm,
+  easeFactor: number = getEaseFactor(data, algorithm)
+): number => {
+  if (data.reviewCount === 0) {
+    return 0;
+  }
+
+  const fixedInterval = FIXED_INTERVALS[clampMastery(data.masteryLevel) - 1];
+
+  switch (algorithm) {
+    case 'fixed_interval':
+      return fixedInterval;
+
+    case 'adaptive': {
+      const scale = (easeFactor / DEFAULT_EASE_FACTOR) * (0.5 + clamp(data.correctRate, 0, 1));
+      return clamp(Math.round(fixedInterval * scale), 1, MAX_INTERVAL_DAYS);
+    }
+
+    case 'spaced_repetition':
+    default:
+      if (typeof data.intervalDays === 'number') {
+        return clamp(data.intervalDays, 0, MAX_INTERVAL_DAYS);
+      }
+      // SM-2：第1次1天，第2次6天，之后按系数递增
+      if (data.reviewCount === 1) return 1;
+      if (data.reviewCount === 2) return 6;
+      return clamp(Math.round(6 * Math.pow(easeFactor, data.reviewCount - 2)), 1, MAX_INTERVAL_DAYS);
+  }
+};
+
+/**
+ * 计算单个单词的复习计划
+ */
+export const scheduleWord = (
+  data: LearningData,
+  algorithm: ReviewAlgorithm,
+  now: Date = new Date()
+): ReviewSchedule => {
+  const easeFactor = getEaseFactor(data, algorithm);
+  const intervalDays = getIntervalDays(data, algorithm, easeFactor);
+  const dueDate = addDays(parseReviewDate(data.lastReviewDate, now), intervalDays);
+
+  return {
+    wordId: data.wordId,
+    algorithm,
+    easeFactor,
+    intervalDays,
+    dueDate,
+    overdueDays: differenceInCalendarDays(now, dueDate),
+    isDue: dueDate.getTime() <= endOfDay(now).getTime(),
+  };
+};
+
+/**
+ * 复习队列排序：逾期越久越靠前，其次掌握程度低、正确率低的优先，最后按ID保证稳定
+ */
+const compareSchedules = (
+  a: ReviewSchedule,
+  b: ReviewSchedule,
+  learningData: Record<string, LearningData>
+): number => {
+  if (a.overdueDays !== b.overdueDays) {
+    return b.overdueDays - a.overdueDays;
+  }
+
+  const dataA = learningData[a.wordId];
+  const dataB = learningData[b.wordId];
+  if (dataA.masteryLevel !== dataB.masteryLevel) {
+    return dataA.masteryLevel - dataB.masteryLevel;
+  }
+  if (dataA.correctRate !== dataB.correctRate) {
+    return dataA.correctRate - dataB.correctRate;
+  }
+
+  return a.wordId < b.wordId ? -1 : a.wordId > b.wordId ? 1 : 0;
+};
+
+/**
+ * 根据学习数据生成今日待复习队列
+ */
+export const buildDueQueue = (
+  learningData: Record<string, LearningData>,
+  algorithm: ReviewAlgorithm,
+  now: Date = new Date(),
+  limit?: number
+): ReviewSchedule[] => {
+  const queue = Object.values(learningData)
+    .filter(data => data.reviewCount > 0)
+    .map(data => scheduleWord(data, algorithm, now))
+    .filter(schedule => schedule.isDue)
+    .sort((a, b) => compareSchedules(a, b, learningData));
+
+  return typeof limit === 'number' ? queue.slice(0, Math.max(0, limit)) : queue;
+};
+
+/**
+ * 根据答题结果换算SM-2答题质量
+ */
+export const answerToQuality = (
+  isCorrect: boolean,
+  timeSpent: number,
+  timeLimit: number
+): ReviewQuality => {
+  if (!isCorrect) {
+    // 超时未作答视为完全遗忘
+    return timeLimit > 0 && timeSpent >= timeLimit ? 0 : 1;
+  }
+
+  if (timeLimit <= 0) return 4;
+
+  const ratio = timeSpent / timeLimit;
+  if (ratio <= 0.3) return 5;
+  if (ratio <= 0.7) return 4;
+  return 3;
+};
+
+/**
+ * 根据一次复习结果计算新的学习数据
+ */
+export const applyReview = (
+  data: LearningData,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): LearningData => {
+  const isSuccess = quality >= 3;
+  const reviewCount = data.reviewCount + 1;
+  const correctRate = (data.correctRate * data.reviewCount + (isSuccess ? 1 : 0)) / reviewCount;
+  const masteryLevel = clampMastery(data.masteryLevel + (isSuccess ? 1 : -1));
+
+  // SM-2 难度系数更新公式
+  const previousEase = getEaseFactor(data, 'spaced_repetition');
+  const easeFactor = clamp(
+    previousEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+    MIN_EASE_FACTOR,
+    MAX_EASE_FACTOR
+  );
+
+  let intervalDays: number;
+  if (!isSuccess) {
+    intervalDays = 1;
+  } else {
+    const previousInterval = getIntervalDays(data, 'spaced_repetition', previousEase);
+    if (previousInterval < 1) {
+      intervalDays = 1;
+    } else if (previousInterval === 1) {
+      intervalDays = 6;
+    } else {
+      intervalDays = clamp(Math.round(previousInterval * easeFactor), 1, MAX_INTERVAL_DAYS);
+    }
+  }
+
+  // intervalDays 始终记录SM-2间隔，固定间隔和自适应算法在调度时由掌握程度推算
+  return {
+    ...data,
+    reviewCount,
+    correctRate,
+    masteryLevel,
+    easeFactor,
+    intervalDays,
+    lastReviewDate: now.toISOString(),
+  };
+};
+
+/**
+ * 复习调度服务类
+ */
+export class ReviewScheduler {
+  private static instance: ReviewScheduler;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): ReviewScheduler {
+    if (!ReviewScheduler.instance) {
+      ReviewScheduler.instance = new ReviewScheduler();
+    }
+    return ReviewScheduler.instance;
+  }
+
+  /**
+   * 读取用户设置中的复习算法
+   */
+  async getReviewAlgorithm(): Promise<ReviewAlgorithm> {
+    try {
+      const settings = await storageManager.getUserSettings();
+      return settings.learning?.reviewAlgorithm ?? DEFAULT_SETTINGS.learning.reviewAlgorithm;
+    } catch (error) {
+      console.error('Failed to read review algorithm:', error);
+      return DEFAULT_SETTINGS.learning.reviewAlgorithm;
+    }
+  }
+
+  /**
+   * 获取所有已学习单词的复习计划
+   */
+  async getSchedules(options: DueQueueOptions = {}): Promise<ReviewSchedule[]> {
+    const algorithm = options.algorithm ?? await this.getReviewAlgorithm();
+    const now = options.now ?? new Date();
+    const learningData = await storageManager.getAllLearningData();
+
+    return Object.values(learningData)
+      .filter(data => data.reviewCount > 0)
+      .map(data => scheduleWord(data, algorithm, now));
+  }
+
+  /**
+   * 获取今日待复习队列
+   */
+  async getDueQueue(options: DueQueueOptions = {}): Promise<ReviewSchedule[]> {
+    const algorithm = options.algorithm ?? await this.getReviewAlgorithm();
+    const learningData = await storageManager.getAllLearningData();
+    return buildDueQueue(learningData, algorithm, options.now ?? new Date(), options.limit);
+  }
+
+  /**
+   * 记录一次复习结果并保存
+   * 传入 mistake 时把答错时给出的答案追加到错误记录；传入 masteryLevel 时使用掌握度服务计算的掌握程度
+   */
+  async recordReview(
+    wordId: string,
+    quality: ReviewQuality,
+    options: Pick<DueQueueOptions, 'now'> & { mistake?: string; masteryLevel?: number } = {}
+  ): Promise<LearningData> {
+    const current = await storageManager.getLearningData(wordId);
+    const reviewed = applyReview(current, quality, options.now ?? new Date());
+    const updated: LearningData = {
+      ...reviewed,
+      masteryLevel: options.masteryLevel ?? reviewed.masteryLevel,
+      mistakes: options.mistake
+        ? [...(current.mistakes ?? []), options.mistake].slice(-MAX_RECORDED_MISTAKES)
+        : reviewed.mistakes,
+    };
+
+    await storageManager.saveLearningData(wordId, updated);
+    return updated;
+  }
+}
+
+/**
+ * 复习调度服务单例实例
+ */
+export const reviewScheduler = ReviewScheduler.getInstance();
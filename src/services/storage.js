@@ -1,3 +1,6 @@
+import { CURRENT_DATA_VERSION } from './dataMigration';
+import { compressString, decompressString } from '@/utils/compression';
+import { deriveKey, encryptString, decryptString, generateSalt, isEncryptionError, PBKDF2_ITERATIONS, } from '@/utils/crypto';
 export var StorageType;
 (function (StorageType) {
     StorageType["LOCAL"] = "localStorage";
@@ -5,31 +8,47 @@ export var StorageType;
 })(StorageType || (StorageType = {}));
 export var StorageKey;
 (function (StorageKey) {
-    StorageKey["VOCABULARY_DATA"] = "vocabulary_data";
-    StorageKey["VOCABULARY_FAVORITES"] = "vocabulary_favorites";
-    StorageKey["VOCABULARY_FILTER"] = "vocabulary_filter";
-    StorageKey["VOCABULARY_SORT"] = "vocabulary_sort";
-    StorageKey["USER_PROGRESS"] = "user_progress";
-    StorageKey["DAILY_STATS"] = "daily_stats";
-    StorageKey["ACHIEVEMENTS"] = "achievements";
-    StorageKey["STUDY_SESSIONS"] = "study_sessions";
-    StorageKey["LEARNING_GOALS"] = "learning_goals";
-    StorageKey["USER_SETTINGS"] = "user_settings";
-    StorageKey["THEME_MODE"] = "theme_mode";
-    StorageKey["LANGUAGE"] = "language";
-    StorageKey["APP_STATE"] = "app_state";
-    StorageKey["LAST_SYNC_TIME"] = "last_sync_time";
-    StorageKey["FIRST_LAUNCH"] = "first_launch";
-    StorageKey["VOCABULARY_CACHE"] = "vocabulary_cache";
-    StorageKey["AUDIO_CACHE"] = "audio_cache";
-    StorageKey["API_CACHE"] = "api_cache";
+    StorageKey["VOCABULARY_DATA"] = "web3_vocab_vocabulary_list";
+    StorageKey["VOCABULARY_FAVORITES"] = "web3_vocab_favorite_words";
+    StorageKey["VOCABULARY_FILTER"] = "web3_vocab_vocabulary_filter";
+    StorageKey["VOCABULARY_SORT"] = "web3_vocab_vocabulary_sort";
+    StorageKey["MASTERED_WORDS"] = "web3_vocab_mastered_words";
+    StorageKey["VOCABULARY_DECKS"] = "web3_vocab_vocabulary_decks";
+    StorageKey["USER_PROGRESS"] = "web3_vocab_user_progress";
+    StorageKey["DAILY_STATS"] = "web3_vocab_daily_stats";
+    StorageKey["ACHIEVEMENTS"] = "web3_vocab_achievements";
+    StorageKey["STUDY_SESSIONS"] = "web3_vocab_study_sessions";
+    StorageKey["LEARNING_GOALS"] = "web3_vocab_learning_goals";
+    StorageKey["LEARNING_DATA"] = "web3_vocab_learning_data";
+    StorageKey["LEARNING_SESSIONS"] = "web3_vocab_learning_sessions";
+    StorageKey["WORD_HISTORY"] = "web3_vocab_word_history";
+    StorageKey["PRACTICE_RESULTS"] = "web3_vocab_practice_results";
+    StorageKey["ACTIVE_PRACTICE_SESSION"] = "web3_vocab_active_practice_session";
+    StorageKey["USER_SETTINGS"] = "web3_vocab_user_settings";
+    StorageKey["THEME_MODE"] = "web3_vocab_theme_mode";
+    StorageKey["LANGUAGE"] = "web3_vocab_language";
+    StorageKey["APP_STATE"] = "web3_vocab_app_state";
+    StorageKey["LAST_SYNC_TIME"] = "web3_vocab_last_sync_time";
+    StorageKey["FIRST_LAUNCH"] = "web3_vocab_first_launch";
+    StorageKey["IGNORED_UPDATES"] = "web3_vocab_ignored_updates";
+    StorageKey["BACKUP_DATA"] = "web3_vocab_backup_data";
+    StorageKey["MIGRATION_SNAPSHOT"] = "web3_vocab_migration_snapshot";
+    StorageKey["ENCRYPTION_META"] = "web3_vocab_encryption_meta";
+    StorageKey["VOCABULARY_CACHE"] = "web3_vocab_vocabulary_cache";
+    StorageKey["AUDIO_CACHE"] = "web3_vocab_audio_cache";
+    StorageKey["API_CACHE"] = "web3_vocab_api_cache";
 })(StorageKey || (StorageKey = {}));
 const DEFAULT_CONFIG = {
     type: StorageType.LOCAL,
     compress: false,
     encrypt: false,
 };
-const DATA_VERSION = '1.0.0';
+const DATA_VERSION = CURRENT_DATA_VERSION;
+const COMPRESSED_PREFIX = 'lz:';
+const ENCRYPTED_PREFIX = 'enc:';
+const ENCRYPTION_VERIFIER = 'web3-vocab-encryption';
+const isQuotaExceededError = (error) => error instanceof DOMException &&
+    (error.code === 22 || error.name === 'QuotaExceededError');
 export class StorageService {
     constructor(config = {}) {
         Object.defineProperty(this, "config", {
@@ -44,6 +63,30 @@ export class StorageService {
             writable: true,
             value: void 0
         });
+        Object.defineProperty(this, "listeners", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: new Set()
+        });
+        Object.defineProperty(this, "encryptionKey", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: null
+        });
+        Object.defineProperty(this, "plaintextCache", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: new Map()
+        });
+        Object.defineProperty(this, "pendingWrites", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: Promise.resolve()
+        });
         this.config = { ...DEFAULT_CONFIG, ...config };
         this.storage = this.config.type === StorageType.LOCAL
             ? window.localStorage
@@ -60,22 +103,18 @@ export class StorageService {
             return false;
         }
     }
-    serialize(data) {
+    serialize(data, ttl = this.config.ttl) {
         try {
             const item = {
                 data,
                 timestamp: Date.now(),
                 version: DATA_VERSION,
             };
-            if (this.config.ttl) {
-                item.expiresAt = Date.now() + this.config.ttl;
+            if (ttl) {
+                item.expiresAt = Date.now() + ttl;
             }
-            let serialized = JSON.stringify(item);
-            if (this.config.compress) {
-            }
-            if (this.config.encrypt) {
-            }
-            return serialized;
+            const serialized = JSON.stringify(item);
+            return this.config.compress ? COMPRESSED_PREFIX + compressString(serialized) : serialized;
         }
         catch (error) {
             console.error('Failed to serialize data:', error);
@@ -84,11 +123,7 @@ export class StorageService {
     }
     deserialize(serialized) {
         try {
-            if (this.config.encrypt) {
-            }
-            if (this.config.compress) {
-            }
-            const item = JSON.parse(serialized);
+            const item = this.parseSerialized(serialized);
             if (item.expiresAt && Date.now() > item.expiresAt) {
                 return null;
             }
@@ -102,14 +137,62 @@ export class StorageService {
             return null;
         }
     }
-    setItem(key, value) {
+    parseSerialized(serialized) {
+        const json = serialized.startsWith(COMPRESSED_PREFIX)
+            ? decompressString(serialized.slice(COMPRESSED_PREFIX.length))
+            : serialized;
+        return JSON.parse(json);
+    }
+    readSerialized(key) {
+        if (this.encryptionKey && this.plaintextCache.has(key)) {
+            return this.plaintextCache.get(key) ?? null;
+        }
+        const raw = this.storage.getItem(key);
+        if (raw === null || raw.startsWith(ENCRYPTED_PREFIX)) {
+            return null;
+        }
+        return raw;
+    }
+    writeSerialized(key, serialized) {
+        if (!this.encryptionKey) {
+            this.storage.setItem(key, serialized);
+            return;
+        }
+        const encryptionKey = this.encryptionKey;
+        this.plaintextCache.set(key, serialized);
+        this.pendingWrites = this.pendingWrites
+            .then(async () => {
+            const encrypted = await encryptString(encryptionKey, serialized);
+            if (this.plaintextCache.get(key) === serialized) {
+                this.storage.setItem(key, ENCRYPTED_PREFIX + encrypted);
+            }
+        })
+            .catch(error => {
+            console.error(`Failed to encrypt item ${key}:`, error);
+        });
+    }
+    setItem(key, value, options = {}) {
         if (!this.isStorageAvailable()) {
             console.warn('Storage is not available');
             return false;
         }
+        if (this.isLocked()) {
+            console.warn(`Storage is locked, cannot save ${key}`);
+            return false;
+        }
         try {
-            const serialized = this.serialize(value);
-            this.storage.setItem(key, serialized);
+            const serialized = this.serialize(value, options.ttl ?? this.config.ttl);
+            try {
+                this.writeSerialized(key, serialized);
+            }
+            catch (error) {
+                if (!isQuotaExceededError(error)) {
+                    throw error;
+                }
+                this.handleQuotaExceeded();
+                this.writeSerialized(key, serialized);
+            }
+            this.notify(key, value);
             return true;
         }
         catch (error) {
@@ -123,7 +206,7 @@ export class StorageService {
             return null;
         }
         try {
-            const serialized = this.storage.getItem(key);
+            const serialized = this.readSerialized(key);
             if (serialized === null) {
                 return null;
             }
@@ -134,6 +217,33 @@ export class StorageService {
             return null;
         }
     }
+    getStoredItem(key) {
+        try {
+            const serialized = this.readSerialized(key);
+            return serialized === null ? null : this.parseSerialized(serialized);
+        }
+        catch (error) {
+            console.error(`Failed to read stored item ${key}:`, error);
+            return null;
+        }
+    }
+    setStoredItem(key, item) {
+        if (this.isLocked()) {
+            console.warn(`Storage is locked, cannot save ${key}`);
+            return false;
+        }
+        try {
+            const json = JSON.stringify(item);
+            const compress = this.config.compress || (this.readSerialized(key)?.startsWith(COMPRESSED_PREFIX) ?? false);
+            this.writeSerialized(key, compress ? COMPRESSED_PREFIX + compressString(json) : json);
+            this.notify(key, item.data);
+            return true;
+        }
+        catch (error) {
+            console.error(`Failed to set stored item ${key}:`, error);
+            return false;
+        }
+    }
     removeItem(key) {
         if (!this.isStorageAvailable()) {
             console.warn('Storage is not available');
@@ -141,6 +251,11 @@ export class StorageService {
         }
         try {
             this.storage.removeItem(key);
+            this.plaintextCache.delete(key);
+            if (key === StorageKey.ENCRYPTION_META) {
+                this.resetEncryptionState();
+            }
+            this.notify(key, undefined);
             return true;
         }
         catch (error) {
@@ -155,6 +270,7 @@ export class StorageService {
         }
         try {
             this.storage.clear();
+            this.resetEncryptionState();
             return true;
         }
         catch (error) {
@@ -227,12 +343,13 @@ export class StorageService {
         let cleanedCount = 0;
         const keys = this.getAllKeys();
         keys.forEach(key => {
-            const serialized = this.storage.getItem(key);
+            const serialized = this.readSerialized(key);
             if (serialized) {
                 try {
-                    const item = JSON.parse(serialized);
+                    const item = this.parseSerialized(serialized);
                     if (item.expiresAt && Date.now() > item.expiresAt) {
                         this.storage.removeItem(key);
+                        this.plaintextCache.delete(key);
                         cleanedCount++;
                     }
                 }
@@ -242,14 +359,160 @@ export class StorageService {
         });
         return cleanedCount;
     }
+    subscribe(listener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+    notify(key, value) {
+        this.listeners.forEach(listener => {
+            try {
+                listener(key, value);
+            }
+            catch (error) {
+                console.error(`Storage listener failed for ${key}:`, error);
+            }
+        });
+    }
+    handleQuotaExceeded() {
+        this.cleanExpired();
+        const oneMonthAgo = new Date();
+        oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+        [StorageKey.LEARNING_SESSIONS, StorageKey.PRACTICE_RESULTS].forEach(key => {
+            const records = this.getItem(key);
+            if (!Array.isArray(records))
+                return;
+            const recent = records.filter(record => new Date(record.date) > oneMonthAgo);
+            if (recent.length < records.length) {
+                this.writeSerialized(key, this.serialize(recent));
+            }
+        });
+    }
+    getEncryptionMeta() {
+        try {
+            const raw = this.storage.getItem(StorageKey.ENCRYPTION_META);
+            return raw ? JSON.parse(raw) : null;
+        }
+        catch {
+            return null;
+        }
+    }
+    isEncryptionEnabled() {
+        return this.getEncryptionMeta() !== null;
+    }
+    isLocked() {
+        return (this.config.encrypt || this.isEncryptionEnabled()) && !this.encryptionKey;
+    }
+    async enableEncryption(passphrase, iterations = PBKDF2_ITERATIONS) {
+        if (this.isEncryptionEnabled()) {
+            throw new Error('Encryption is already enabled');
+        }
+        const salt = generateSalt();
+        const key = await deriveKey(passphrase, salt, iterations);
+        const meta = {
+            salt,
+            iterations,
+            verifier: await encryptString(key, ENCRYPTION_VERIFIER),
+        };
+        const items = await Promise.all(this.getEncryptableKeys().map(async (storageKey) => {
+            const plaintext = this.storage.getItem(storageKey);
+            return { storageKey, plaintext, encrypted: await encryptString(key, plaintext) };
+        }));
+        this.storage.setItem(StorageKey.ENCRYPTION_META, JSON.stringify(meta));
+        items.forEach(({ storageKey, plaintext, encrypted }) => {
+            this.storage.setItem(storageKey, ENCRYPTED_PREFIX + encrypted);
+            this.plaintextCache.set(storageKey, plaintext);
+        });
+        this.encryptionKey = key;
+    }
+    async unlock(passphrase) {
+        const meta = this.getEncryptionMeta();
+        if (!meta) {
+            return true;
+        }
+        const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+        try {
+            await decryptString(key, meta.verifier);
+        }
+        catch (error) {
+            if (isEncryptionError(error)) {
+                return false;
+            }
+            throw error;
+        }
+        const cache = new Map();
+        const plaintextKeys = [];
+        await Promise.all(this.getEncryptableKeys().map(async (storageKey) => {
+            const raw = this.storage.getItem(storageKey);
+            if (!raw.startsWith(ENCRYPTED_PREFIX)) {
+                plaintextKeys.push(storageKey);
+                cache.set(storageKey, raw);
+                return;
+            }
+            try {
+                cache.set(storageKey, await decryptString(key, raw.slice(ENCRYPTED_PREFIX.length)));
+            }
+            catch (error) {
+                console.error(`Failed to decrypt item ${storageKey}:`, error);
+            }
+        }));
+        this.encryptionKey = key;
+        this.plaintextCache = cache;
+        plaintextKeys.forEach(storageKey => this.writeSerialized(storageKey, cache.get(storageKey)));
+        return true;
+    }
+    async disableEncryption() {
+        if (!this.isEncryptionEnabled()) {
+            return;
+        }
+        if (!this.encryptionKey) {
+            throw new Error('Storage is locked');
+        }
+        await this.flush();
+        this.plaintextCache.forEach((plaintext, storageKey) => {
+            this.storage.setItem(storageKey, plaintext);
+        });
+        this.storage.removeItem(StorageKey.ENCRYPTION_META);
+        this.resetEncryptionState();
+    }
+    async reloadItems(keys) {
+        if (!this.encryptionKey) {
+            return;
+        }
+        const encryptionKey = this.encryptionKey;
+        keys.forEach(key => this.plaintextCache.delete(key));
+        await this.flush();
+        for (const key of keys) {
+            const raw = this.storage.getItem(key);
+            if (raw === null)
+                continue;
+            if (raw.startsWith(ENCRYPTED_PREFIX)) {
+                this.plaintextCache.set(key, await decryptString(encryptionKey, raw.slice(ENCRYPTED_PREFIX.length)));
+            }
+            else {
+                this.writeSerialized(key, raw);
+            }
+        }
+    }
+    flush() {
+        return this.pendingWrites;
+    }
+    resetEncryptionState() {
+        this.encryptionKey = null;
+        this.plaintextCache.clear();
+    }
+    getEncryptableKeys() {
+        return Object.values(StorageKey).filter(storageKey => storageKey !== StorageKey.ENCRYPTION_META && this.storage.getItem(storageKey) !== null);
+    }
     exportData() {
         const data = {};
         const keys = this.getAllKeys();
         keys.forEach(key => {
-            const value = this.storage.getItem(key);
+            const value = this.readSerialized(key);
             if (value) {
                 try {
-                    data[key] = JSON.parse(value);
+                    data[key] = this.parseSerialized(value);
                 }
                 catch {
                     data[key] = value;
@@ -262,7 +525,7 @@ export class StorageService {
         try {
             Object.entries(data).forEach(([key, value]) => {
                 const serialized = typeof value === 'string' ? value : JSON.stringify(value);
-                this.storage.setItem(key, serialized);
+                this.writeSerialized(key, serialized);
             });
             return true;
         }
@@ -276,10 +539,6 @@ export const storageService = new StorageService();
 export const sessionStorageService = new StorageService({
     type: StorageType.SESSION,
 });
-export const secureStorageService = new StorageService({
-    type: StorageType.LOCAL,
-    encrypt: true,
-});
 export const StorageUtils = {
     checkQuota() {
         if ('storage' in navigator && 'estimate' in navigator.storage) {
@@ -3,6 +3,17 @@
  * 提供统一的数据持久化接口，支持LocalStorage和SessionStorage
  */
 
+import { CURRENT_DATA_VERSION } from './dataMigration';
+import { compressString, decompressString } from '@/utils/compression';
+import {
+  deriveKey,
+  encryptString,
+  decryptString,
+  generateSalt,
+  isEncryptionError,
+  PBKDF2_ITERATIONS,
+} from '@/utils/crypto';
+
 /**
  * 存储类型枚举
  */
@@ -13,35 +24,53 @@ export enum StorageType {
 
 /**
  * 存储键枚举
+ * 应用的所有持久化数据统一使用这些键，storageManager 也基于同一套键读写
  */
 export enum StorageKey {
   // 词汇相关
-  VOCABULARY_DATA = 'vocabulary_data',
-  VOCABULARY_FAVORITES = 'vocabulary_favorites',
-  VOCABULARY_FILTER = 'vocabulary_filter',
-  VOCABULARY_SORT = 'vocabulary_sort',
-  
+  VOCABULARY_DATA = 'web3_vocab_vocabulary_list',
+  VOCABULARY_FAVORITES = 'web3_vocab_favorite_words',
+  VOCABULARY_FILTER = 'web3_vocab_vocabulary_filter',
+  VOCABULARY_SORT = 'web3_vocab_vocabulary_sort',
+  MASTERED_WORDS = 'web3_vocab_mastered_words',
+  VOCABULARY_DECKS = 'web3_vocab_vocabulary_decks',
+
   // 进度相关
-  USER_PROGRESS = 'user_progress',
-  DAILY_STATS = 'daily_stats',
-  ACHIEVEMENTS = 'achievements',
-  STUDY_SESSIONS = 'study_sessions',
-  LEARNING_GOALS = 'learning_goals',
-  
+  USER_PROGRESS = 'web3_vocab_user_progress',
+  DAILY_STATS = 'web3_vocab_daily_stats',
+  ACHIEVEMENTS = 'web3_vocab_achievements',
+  STUDY_SESSIONS = 'web3_vocab_study_sessions',
+  LEARNING_GOALS = 'web3_vocab_learning_goals',
+  LEARNING_DATA = 'web3_vocab_learning_data',
+  LEARNING_SESSIONS = 'web3_vocab_learning_sessions',
+  WORD_HISTORY = 'web3_vocab_word_history',
+
+  // 练习相关
+  PRACTICE_RESULTS = 'web3_vocab_practice_results',
+  ACTIVE_PRACTICE_SESSION = 'web3_vocab_active_practice_session',
+
   // 设置相关
-  USER_SETTINGS = 'user_settings',
-  THEME_MODE = 'theme_mode',
-  LANGUAGE = 'language',
-  
+  USER_SETTINGS = 'web3_vocab_user_settings',
+  THEME_MODE = 'web3_vocab_theme_mode',
+  LANGUAGE = 'web3_vocab_language',
+
   // 应用状态
-  APP_STATE = 'app_state',
-  LAST_SYNC_TIME = 'last_sync_time',
-  FIRST_LAUNCH = 'first_launch',
-  
+  APP_STATE = 'web3_vocab_app_state',
+  LAST_SYNC_TIME = 'web3_vocab_last_sync_time',
+  FIRST_LAUNCH = 'web3_vocab_first_launch',
+  IGNORED_UPDATES = 'web3_vocab_ignored_updates',
+
+  // 备份和迁移
+  BACKUP_DATA = 'web3_vocab_backup_data',
+  MIGRATION_SNAPSHOT = 'web3_vocab_migration_snapshot',
+
+  // 加密相关（明文保存，不参与加密）
+  ENCRYPTION_META = 'web3_vocab_encryption_meta',
+
   // 缓存相关
-  VOCABULARY_CACHE = 'vocabulary_cache',
-  AUDIO_CACHE = 'audio_cache',
-  API_CACHE = 'api_cache',
+  VOCABULARY_CACHE = 'web3_vocab_vocabulary_cache',
+  AUDIO_CACHE = 'web3_vocab_audio_cache',
+  API_CACHE = 'web3_vocab_api_cache',
 }
 
 /**
@@ -58,10 +87,23 @@ interface StorageConfig {
   ttl?: number;
 }
 
+/**
+ * 单次写入选项
+ */
+export interface StorageSetOptions {
+  /** 过期时间（毫秒），覆盖全局配置 */
+  ttl?: number;
+}
+
+/**
+ * 存储变化监听器，value 为 undefined 表示数据被删除
+ */
+export type StorageChangeListener = (key: StorageKey, value: unknown) => void;
+
 /**
  * 存储项接口
  */
-interface StorageItem<T = any> {
+export interface StorageItem<T = any> {
   /** 数据内容 */
   data: T;
   /** 创建时间戳 */
@@ -72,6 +114,18 @@ interface StorageItem<T = any> {
   version: string;
 }
 
+/**
+ * 加密元数据，用于从口令重新派生密钥并校验口令是否正确
+ */
+export interface EncryptionMeta {
+  /** PBKDF2 盐值（Base64） */
+  salt: string;
+  /** PBKDF2 迭代次数 */
+  iterations: number;
+  /** 用密钥加密的校验文本 */
+  verifier: string;
+}
+
 /**
  * 默认配置
  */
@@ -82,9 +136,27 @@ const DEFAULT_CONFIG: StorageConfig = {
 };
 
 /**
- * 数据版本
+ * 数据版本，与迁移注册表保持一致
+ */
+const DATA_VERSION = CURRENT_DATA_VERSION;
+
+/**
+ * 压缩数据和加密数据的前缀，未加前缀的是 JSON 明文
+ */
+const COMPRESSED_PREFIX = 'lz:';
+const ENCRYPTED_PREFIX = 'enc:';
+
+/**
+ * 加密校验文本
+ */
+const ENCRYPTION_VERIFIER = 'web3-vocab-encryption';
+
+/**
+ * 判断是否为存储空间不足错误
  */
-const DATA_VERSION = '1.0.0';
+const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.code === 22 || error.name === 'QuotaExceededError');
 
 /**
  * 本地存储服务类
@@ -92,6 +164,13 @@ const DATA_VERSION = '1.0.0';
 export class StorageService {
   private config: StorageConfig;
   private storage: Storage;
+  private listeners: Set<StorageChangeListener> = new Set();
+  /** 加密密钥，解锁后才有值 */
+  private encryptionKey: CryptoKey | null = null;
+  /** 已解密数据的缓存，加密后同步读取都从这里取 */
+  private plaintextCache: Map<string, string> = new Map();
+  /** 排队中的加密写入 */
+  private pendingWrites: Promise<void> = Promise.resolve();
 
   constructor(config: Partial<StorageConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -117,7 +196,7 @@ export class StorageService {
   /**
    * 序列化数据
    */
-  private serialize<T>(data: T): string {
+  private serialize<T>(data: T, ttl: number | undefined = this.config.ttl): string {
     try {
       const item: StorageItem<T> = {
         data,
@@ -125,23 +204,14 @@ export class StorageService {
         version: DATA_VERSION,
       };
 
-      if (this.config.ttl) {
-        item.expiresAt = Date.now() + this.config.ttl;
-      }
-
-      let serialized = JSON.stringify(item);
-
-      // TODO: 实现数据压缩
-      if (this.config.compress) {
-        // 可以使用 lz-string 等库进行压缩
+      if (ttl) {
+        item.expiresAt = Date.now() + ttl;
       }
 
-      // TODO: 实现数据加密
-      if (this.config.encrypt) {
-        // 可以使用 crypto-js 等库进行加密
-      }
+      const serialized = JSON.stringify(item);
 
-      return serialized;
+      // 加密在写入时异步进行，见 writeSerialized
+      return this.config.compress ? COMPRESSED_PREFIX + compressString(serialized) : serialized;
     } catch (error) {
       console.error('Failed to serialize data:', error);
       throw new Error('Data serialization failed');
@@ -153,17 +223,7 @@ export class StorageService {
    */
   private deserialize<T>(serialized: string): T | null {
     try {
-      // TODO: 实现数据解密
-      if (this.config.encrypt) {
-        // 解密逻辑
-      }
-
-      // TODO: 实现数据解压缩
-      if (this.config.compress) {
-        // 解压缩逻辑
-      }
-
-      const item: StorageItem<T> = JSON.parse(serialized);
+      const item = this.parseSerialized<T>(serialized);
 
       // 检查数据是否过期
       if (item.expiresAt && Date.now() > item.expiresAt) {
@@ -172,8 +232,8 @@ export class StorageService {
 
       // 检查数据版本兼容性
       if (item.version !== DATA_VERSION) {
+        // 旧版本数据在启动时由 dataMigrationService 统一迁移，加密数据在解锁后迁移
         console.warn(`Data version mismatch: ${item.version} vs ${DATA_VERSION}`);
-        // 可以在这里实现数据迁移逻辑
       }
 
       return item.data;
@@ -183,18 +243,84 @@ export class StorageService {
     }
   }
 
+  /**
+   * 解析序列化后的字符串，按前缀识别是否压缩，与当前配置无关
+   */
+  private parseSerialized<T>(serialized: string): StorageItem<T> {
+    const json = serialized.startsWith(COMPRESSED_PREFIX)
+      ? decompressString(serialized.slice(COMPRESSED_PREFIX.length))
+      : serialized;
+    return JSON.parse(json);
+  }
+
+  /**
+   * 读取序列化后的明文，加密数据从解密缓存中取，未解锁时返回 null
+   */
+  private readSerialized(key: string): string | null {
+    if (this.encryptionKey && this.plaintextCache.has(key)) {
+      return this.plaintextCache.get(key) ?? null;
+    }
+
+    const raw = this.storage.getItem(key);
+    if (raw === null || raw.startsWith(ENCRYPTED_PREFIX)) {
+      return null;
+    }
+    return raw;
+  }
+
+  /**
+   * 写入序列化后的明文，启用加密时先更新缓存，再排队加密写入
+   */
+  private writeSerialized(key: string, serialized: string): void {
+    if (!this.encryptionKey) {
+      this.storage.setItem(key, serialized);
+      return;
+    }
+
+    const encryptionKey = this.encryptionKey;
+    this.plaintextCache.set(key, serialized);
+    this.pendingWrites = this.pendingWrites
+      .then(async () => {
+        const encrypted = await encryptString(encryptionKey, serialized);
+        // 排队期间数据已被更新或删除时跳过
+        if (this.plaintextCache.get(key) === serialized) {
+          this.storage.setItem(key, ENCRYPTED_PREFIX + encrypted);
+        }
+      })
+      .catch(error => {
+        console.error(`Failed to encrypt item ${key}:`, error);
+      });
+  }
+
   /**
    * 存储数据
    */
-  setItem<T>(key: StorageKey, value: T): boolean {
+  setItem<T>(key: StorageKey, value: T, options: StorageSetOptions = {}): boolean {
     if (!this.isStorageAvailable()) {
       console.warn('Storage is not available');
       return false;
     }
 
+    if (this.isLocked()) {
+      console.warn(`Storage is locked, cannot save ${key}`);
+      return false;
+    }
+
     try {
-      const serialized = this.serialize(value);
-      this.storage.setItem(key, serialized);
+      const serialized = this.serialize(value, options.ttl ?? this.config.ttl);
+
+      try {
+        this.writeSerialized(key, serialized);
+      } catch (error) {
+        if (!isQuotaExceededError(error)) {
+          throw error;
+        }
+        // 存储空间不足时先清理再重试一次
+        this.handleQuotaExceeded();
+        this.writeSerialized(key, serialized);
+      }
+
+      this.notify(key, value);
       return true;
     } catch (error) {
       console.error(`Failed to set item ${key}:`, error);
@@ -212,7 +338,7 @@ export class StorageService {
     }
 
     try {
-      const serialized = this.storage.getItem(key);
+      const serialized = this.readSerialized(key);
       if (serialized === null) {
         return null;
       }
@@ -224,6 +350,42 @@ export class StorageService {
     }
   }
 
+  /**
+   * 读取带版本信息的原始存储项，不检查过期和版本，加密数据未解锁时返回 null
+   * 供数据迁移读取旧版本数据
+   */
+  getStoredItem<T>(key: StorageKey): StorageItem<T> | null {
+    try {
+      const serialized = this.readSerialized(key);
+      return serialized === null ? null : this.parseSerialized<T>(serialized);
+    } catch (error) {
+      console.error(`Failed to read stored item ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 写入带版本信息的原始存储项，保留其中的版本号和过期时间
+   * 原值是压缩保存的继续压缩，启用加密时重新加密
+   */
+  setStoredItem<T>(key: StorageKey, item: StorageItem<T>): boolean {
+    if (this.isLocked()) {
+      console.warn(`Storage is locked, cannot save ${key}`);
+      return false;
+    }
+
+    try {
+      const json = JSON.stringify(item);
+      const compress = this.config.compress || (this.readSerialized(key)?.startsWith(COMPRESSED_PREFIX) ?? false);
+      this.writeSerialized(key, compress ? COMPRESSED_PREFIX + compressString(json) : json);
+      this.notify(key, item.data);
+      return true;
+    } catch (error) {
+      console.error(`Failed to set stored item ${key}:`, error);
+      return false;
+    }
+  }
+
   /**
    * 删除数据
    */
@@ -235,6 +397,12 @@ export class StorageService {
 
     try {
       this.storage.removeItem(key);
+      this.plaintextCache.delete(key);
+      if (key === StorageKey.ENCRYPTION_META) {
+        // 加密元数据被清除后无法再解密，回到未加密状态
+        this.resetEncryptionState();
+      }
+      this.notify(key, undefined);
       return true;
     } catch (error) {
       console.error(`Failed to remove item ${key}:`, error);
@@ -253,6 +421,7 @@ export class StorageService {
 
     try {
       this.storage.clear();
+      this.resetEncryptionState();
       return true;
     } catch (error) {
       console.error('Failed to clear storage:', error);
@@ -365,12 +534,13 @@ export class StorageService {
     const keys = this.getAllKeys();
 
     keys.forEach(key => {
-      const serialized = this.storage.getItem(key);
+      const serialized = this.readSerialized(key);
       if (serialized) {
         try {
-          const item: StorageItem = JSON.parse(serialized);
+          const item: StorageItem = this.parseSerialized(serialized);
           if (item.expiresAt && Date.now() > item.expiresAt) {
             this.storage.removeItem(key);
+            this.plaintextCache.delete(key);
             cleanedCount++;
           }
         } catch {
@@ -382,6 +552,222 @@ export class StorageService {
     return cleanedCount;
   }
 
+  /**
+   * 订阅存储变化，返回取消订阅函数
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 通知存储变化
+   */
+  private notify(key: StorageKey, value: unknown): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key, value);
+      } catch (error) {
+        console.error(`Storage listener failed for ${key}:`, error);
+      }
+    });
+  }
+
+  /**
+   * 处理存储空间不足：清理过期数据，并只保留最近一个月的学习会话和练习结果
+   */
+  private handleQuotaExceeded(): void {
+    this.cleanExpired();
+
+    const oneMonthAgo = new Date();
+    oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+
+    [StorageKey.LEARNING_SESSIONS, StorageKey.PRACTICE_RESULTS].forEach(key => {
+      const records = this.getItem<Array<{ date: string }>>(key);
+      if (!Array.isArray(records)) return;
+
+      const recent = records.filter(record => new Date(record.date) > oneMonthAgo);
+      if (recent.length < records.length) {
+        this.writeSerialized(key, this.serialize(recent));
+      }
+    });
+  }
+
+  /**
+   * 获取加密元数据，未启用加密时返回 null
+   */
+  getEncryptionMeta(): EncryptionMeta | null {
+    try {
+      const raw = this.storage.getItem(StorageKey.ENCRYPTION_META);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 是否已启用加密
+   */
+  isEncryptionEnabled(): boolean {
+    return this.getEncryptionMeta() !== null;
+  }
+
+  /**
+   * 是否处于锁定状态：需要加密但还没有输入口令，此时加密数据读不到，也不能写入
+   */
+  isLocked(): boolean {
+    return (this.config.encrypt || this.isEncryptionEnabled()) && !this.encryptionKey;
+  }
+
+  /**
+   * 启用加密：用口令派生密钥，并把现有的明文数据全部改为加密保存
+   */
+  async enableEncryption(passphrase: string, iterations: number = PBKDF2_ITERATIONS): Promise<void> {
+    if (this.isEncryptionEnabled()) {
+      throw new Error('Encryption is already enabled');
+    }
+
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, iterations);
+    const meta: EncryptionMeta = {
+      salt,
+      iterations,
+      verifier: await encryptString(key, ENCRYPTION_VERIFIER),
+    };
+
+    const items = await Promise.all(
+      this.getEncryptableKeys().map(async storageKey => {
+        const plaintext = this.storage.getItem(storageKey) as string;
+        return { storageKey, plaintext, encrypted: await encryptString(key, plaintext) };
+      })
+    );
+
+    // 先写元数据：即使中途失败，未加密的数据仍然可以按明文读取
+    this.storage.setItem(StorageKey.ENCRYPTION_META, JSON.stringify(meta));
+    items.forEach(({ storageKey, plaintext, encrypted }) => {
+      this.storage.setItem(storageKey, ENCRYPTED_PREFIX + encrypted);
+      this.plaintextCache.set(storageKey, plaintext);
+    });
+    this.encryptionKey = key;
+  }
+
+  /**
+   * 用口令解锁，口令错误时返回 false，不会改动任何数据
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const meta = this.getEncryptionMeta();
+    if (!meta) {
+      return true;
+    }
+
+    const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+    try {
+      await decryptString(key, meta.verifier);
+    } catch (error) {
+      if (isEncryptionError(error)) {
+        return false;
+      }
+      throw error;
+    }
+
+    const cache = new Map<string, string>();
+    const plaintextKeys: string[] = [];
+
+    await Promise.all(
+      this.getEncryptableKeys().map(async storageKey => {
+        const raw = this.storage.getItem(storageKey) as string;
+        if (!raw.startsWith(ENCRYPTED_PREFIX)) {
+          plaintextKeys.push(storageKey);
+          cache.set(storageKey, raw);
+          return;
+        }
+
+        try {
+          cache.set(storageKey, await decryptString(key, raw.slice(ENCRYPTED_PREFIX.length)));
+        } catch (error) {
+          // 单项解密失败时保留原数据，不影响其他数据
+          console.error(`Failed to decrypt item ${storageKey}:`, error);
+        }
+      })
+    );
+
+    this.encryptionKey = key;
+    this.plaintextCache = cache;
+
+    // 启用加密后仍以明文保存的数据补上加密
+    plaintextKeys.forEach(storageKey => this.writeSerialized(storageKey, cache.get(storageKey) as string));
+    return true;
+  }
+
+  /**
+   * 关闭加密：把已解密的数据改回明文保存，必须先解锁
+   */
+  async disableEncryption(): Promise<void> {
+    if (!this.isEncryptionEnabled()) {
+      return;
+    }
+    if (!this.encryptionKey) {
+      throw new Error('Storage is locked');
+    }
+
+    await this.flush();
+    this.plaintextCache.forEach((plaintext, storageKey) => {
+      this.storage.setItem(storageKey, plaintext);
+    });
+    this.storage.removeItem(StorageKey.ENCRYPTION_META);
+    this.resetEncryptionState();
+  }
+
+  /**
+   * 存储内容被直接改写（如回滚快照）后重新载入这些键：
+   * 丢弃解密缓存使排队中的写入失效，再按存储中的内容重建缓存，未加密的数据补上加密
+   */
+  async reloadItems(keys: string[]): Promise<void> {
+    if (!this.encryptionKey) {
+      return;
+    }
+
+    const encryptionKey = this.encryptionKey;
+    keys.forEach(key => this.plaintextCache.delete(key));
+    await this.flush();
+
+    for (const key of keys) {
+      const raw = this.storage.getItem(key);
+      if (raw === null) continue;
+      if (raw.startsWith(ENCRYPTED_PREFIX)) {
+        this.plaintextCache.set(key, await decryptString(encryptionKey, raw.slice(ENCRYPTED_PREFIX.length)));
+      } else {
+        this.writeSerialized(key, raw);
+      }
+    }
+  }
+
+  /**
+   * 等待排队中的加密写入完成
+   */
+  flush(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  /**
+   * 清除内存中的密钥和解密缓存
+   */
+  private resetEncryptionState(): void {
+    this.encryptionKey = null;
+    this.plaintextCache.clear();
+  }
+
+  /**
+   * 当前存储中需要加密的键
+   */
+  private getEncryptableKeys(): StorageKey[] {
+    return Object.values(StorageKey).filter(
+      storageKey => storageKey !== StorageKey.ENCRYPTION_META && this.storage.getItem(storageKey) !== null
+    );
+  }
+
   /**
    * 导出所有数据
    */
@@ -390,10 +776,10 @@ export class StorageService {
     const keys = this.getAllKeys();
 
     keys.forEach(key => {
-      const value = this.storage.getItem(key);
+      const value = this.readSerialized(key);
       if (value) {
         try {
-          data[key] = JSON.parse(value);
+          data[key] = this.parseSerialized(value);
         } catch {
           data[key] = value;
         }
@@ -410,7 +796,7 @@ export class StorageService {
     try {
       Object.entries(data).forEach(([key, value]) => {
         const serialized = typeof value === 'string' ? value : JSON.stringify(value);
-        this.storage.setItem(key, serialized);
+        this.writeSerialized(key, serialized);
       });
       return true;
     } catch (error) {
@@ -432,14 +818,6 @@ export const sessionStorageService = new StorageService({
   type: StorageType.SESSION,
 });
 
-/**
- * 加密存储服务实例
- */
-export const secureStorageService = new StorageService({
-  type: StorageType.LOCAL,
-  encrypt: true,
-});
-
 /**
  * 存储工具函数
  */
@@ -1,13 +1,84 @@
+import { DEFAULT_SETTINGS, } from '@/types';
+import { storageService, StorageKey } from './storage';
+import { vocabularyStore } from './vocabularyStore';
+import { dataMigrationService, migratePayload, CURRENT_DATA_VERSION, INITIAL_DATA_VERSION, } from './dataMigration';
 export const STORAGE_KEYS = {
-    USER_PROGRESS: 'web3_vocab_user_progress',
-    VOCABULARY_LIST: 'web3_vocab_vocabulary_list',
-    LEARNING_SESSIONS: 'web3_vocab_learning_sessions',
-    USER_SETTINGS: 'web3_vocab_user_settings',
-    MASTERED_WORDS: 'web3_vocab_mastered_words',
-    FAVORITE_WORDS: 'web3_vocab_favorite_words',
-    PRACTICE_RESULTS: 'web3_vocab_practice_results',
-    BACKUP_DATA: 'web3_vocab_backup_data',
-    LAST_SYNC_TIME: 'web3_vocab_last_sync_time',
+    USER_PROGRESS: StorageKey.USER_PROGRESS,
+    VOCABULARY_LIST: StorageKey.VOCABULARY_DATA,
+    LEARNING_DATA: StorageKey.LEARNING_DATA,
+    LEARNING_SESSIONS: StorageKey.LEARNING_SESSIONS,
+    WORD_HISTORY: StorageKey.WORD_HISTORY,
+    USER_SETTINGS: StorageKey.USER_SETTINGS,
+    MASTERED_WORDS: StorageKey.MASTERED_WORDS,
+    FAVORITE_WORDS: StorageKey.VOCABULARY_FAVORITES,
+    VOCABULARY_DECKS: StorageKey.VOCABULARY_DECKS,
+    PRACTICE_RESULTS: StorageKey.PRACTICE_RESULTS,
+    ACTIVE_PRACTICE_SESSION: StorageKey.ACTIVE_PRACTICE_SESSION,
+    BACKUP_DATA: StorageKey.BACKUP_DATA,
+    LAST_SYNC_TIME: StorageKey.LAST_SYNC_TIME,
+    MIGRATION_SNAPSHOT: StorageKey.MIGRATION_SNAPSHOT,
+};
+const SYNC_KEYS = new Set([
+    StorageKey.USER_PROGRESS,
+    StorageKey.VOCABULARY_DATA,
+    StorageKey.VOCABULARY_FAVORITES,
+    StorageKey.MASTERED_WORDS,
+    StorageKey.VOCABULARY_DECKS,
+    StorageKey.LEARNING_DATA,
+    StorageKey.LEARNING_SESSIONS,
+    StorageKey.WORD_HISTORY,
+    StorageKey.LEARNING_GOALS,
+    StorageKey.PRACTICE_RESULTS,
+    StorageKey.USER_SETTINGS,
+]);
+export const MAX_RECORDED_MISTAKES = 20;
+export const MAX_WORD_EVENTS = 100;
+const MAX_PRACTICE_RESULTS = 200;
+export const mergeUserSettings = (stored) => ({
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    audio: { ...DEFAULT_SETTINGS.audio, ...stored?.audio },
+    learning: {
+        ...DEFAULT_SETTINGS.learning,
+        ...stored?.learning,
+        studyReminders: { ...DEFAULT_SETTINGS.learning.studyReminders, ...stored?.learning?.studyReminders },
+    },
+    practice: { ...DEFAULT_SETTINGS.practice, ...stored?.practice },
+    ui: { ...DEFAULT_SETTINGS.ui, ...stored?.ui },
+    privacy: { ...DEFAULT_SETTINGS.privacy, ...stored?.privacy },
+    notifications: { ...DEFAULT_SETTINGS.notifications, ...stored?.notifications },
+    lastUpdated: stored?.lastUpdated ? new Date(stored.lastUpdated) : DEFAULT_SETTINGS.lastUpdated,
+});
+export const isCheckpointStale = (checkpoint, timeoutMinutes, now = new Date()) => now.getTime() - new Date(checkpoint.savedAt).getTime() > timeoutMinutes * 60 * 1000;
+export const reviveCheckpoint = (checkpoint) => ({
+    ...checkpoint,
+    session: {
+        ...checkpoint.session,
+        startTime: new Date(checkpoint.session.startTime),
+        endTime: checkpoint.session.endTime ? new Date(checkpoint.session.endTime) : undefined,
+        answers: checkpoint.session.answers.map(answer => ({
+            ...answer,
+            answeredAt: new Date(answer.answeredAt),
+        })),
+    },
+});
+export const combineLearningData = (target, source) => {
+    const reviewCount = target.reviewCount + source.reviewCount;
+    const [latest, earlier] = new Date(source.lastReviewDate) > new Date(target.lastReviewDate)
+        ? [source, target]
+        : [target, source];
+    return {
+        ...earlier,
+        ...latest,
+        wordId: target.wordId,
+        studyTime: target.studyTime + source.studyTime,
+        reviewCount,
+        correctRate: reviewCount > 0
+            ? (target.correctRate * target.reviewCount + source.correctRate * source.reviewCount) / reviewCount
+            : Math.max(target.correctRate, source.correctRate),
+        masteryLevel: Math.max(target.masteryLevel, source.masteryLevel),
+        mistakes: [...new Set([...target.mistakes, ...source.mistakes])],
+    };
 };
 export class StorageManager {
     static getInstance() {
@@ -39,6 +110,14 @@ export class StorageManager {
         this.startAutoSync();
     }
     initializeEventListeners() {
+        storageService.subscribe((key, value) => {
+            if (SYNC_KEYS.has(key)) {
+                this.addToSyncQueue(key, value);
+            }
+        });
+        vocabularyStore.subscribe(change => {
+            this.addToSyncQueue(STORAGE_KEYS.VOCABULARY_LIST, change);
+        });
         window.addEventListener('online', () => {
             this.isOnline = true;
             this.processSyncQueue();
@@ -73,19 +152,28 @@ export class StorageManager {
                 ...existingData,
                 ...data,
                 wordId,
-                lastReviewDate: new Date().toISOString(),
+                lastReviewDate: data.lastReviewDate ?? new Date().toISOString(),
             };
             const allLearningData = await this.getAllLearningData();
             allLearningData[wordId] = updatedData;
-            await this.setItem('learning_data', allLearningData);
-            this.addToSyncQueue('learning_data', allLearningData);
-            await this.updateUserProgress(updatedData);
+            await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
         }
         catch (error) {
             console.error('Failed to save learning data:', error);
             throw error;
         }
     }
+    async updateLearningData(wordId, data) {
+        try {
+            const allLearningData = await this.getAllLearningData();
+            allLearningData[wordId] = { ...(await this.getLearningData(wordId)), ...data, wordId };
+            await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
+        }
+        catch (error) {
+            console.error('Failed to update learning data:', error);
+            throw error;
+        }
+    }
     async getLearningData(wordId) {
         try {
             const allData = await this.getAllLearningData();
@@ -114,58 +202,85 @@ export class StorageManager {
     }
     async getAllLearningData() {
         try {
-            return await this.getItem('learning_data', {});
+            return await this.getItem(STORAGE_KEYS.LEARNING_DATA, {});
         }
         catch (error) {
             console.error('Failed to get all learning data:', error);
             return {};
         }
     }
-    async updateUserProgress(learningData) {
+    async importLearningData(records, merge = false) {
+        const allLearningData = await this.getAllLearningData();
+        const imported = merge ? records : records.filter(record => !allLearningData[record.wordId]);
+        if (imported.length === 0)
+            return 0;
+        imported.forEach(record => {
+            const existing = allLearningData[record.wordId];
+            allLearningData[record.wordId] = existing ? combineLearningData(existing, record) : record;
+        });
+        await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
+        return imported.length;
+    }
+    async removeLearningData(wordIds) {
         try {
-            const userProgress = await this.getUserProgress();
-            const today = new Date().toISOString().split('T')[0];
-            let todayStats = userProgress.dailyStats.find(stat => stat.date === today);
-            if (!todayStats) {
-                todayStats = {
-                    date: today,
-                    wordsStudied: 0,
-                    practiceSessions: 0,
-                    correctAnswers: 0,
-                    totalAnswers: 0,
-                    studyTimeMinutes: 0,
-                    newMasteredWords: 0,
-                };
-                userProgress.dailyStats.push(todayStats);
+            const removed = new Set(wordIds);
+            const allLearningData = await this.getAllLearningData();
+            if (wordIds.some(id => allLearningData[id])) {
+                wordIds.forEach(id => delete allLearningData[id]);
+                await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
             }
-            todayStats.studyTimeMinutes += Math.round(learningData.studyTime / 60000);
-            userProgress.totalStudyTime += Math.round(learningData.studyTime / 60000);
-            if (learningData.masteryLevel >= 4) {
-                if (!userProgress.masteredWords.includes(learningData.wordId)) {
-                    userProgress.masteredWords.push(learningData.wordId);
-                    todayStats.newMasteredWords += 1;
-                }
+            const mastered = await this.getItem(STORAGE_KEYS.MASTERED_WORDS, []);
+            if (mastered.some(id => removed.has(id))) {
+                await this.setItem(STORAGE_KEYS.MASTERED_WORDS, mastered.filter(id => !removed.has(id)));
             }
-            const yesterday = new Date();
-            yesterday.setDate(yesterday.getDate() - 1);
-            const yesterdayStr = yesterday.toISOString().split('T')[0];
-            const hasYesterdayStats = userProgress.dailyStats.some(stat => stat.date === yesterdayStr);
-            if (hasYesterdayStats || userProgress.streakDays === 0) {
-                userProgress.streakDays += 1;
-                if (userProgress.streakDays > userProgress.maxStreakDays) {
-                    userProgress.maxStreakDays = userProgress.streakDays;
+        }
+        catch (error) {
+            console.error('Failed to remove learning data:', error);
+            throw error;
+        }
+    }
+    async mergeLearningData(targetId, sourceId) {
+        try {
+            const allLearningData = await this.getAllLearningData();
+            const source = allLearningData[sourceId];
+            if (source) {
+                const target = allLearningData[targetId];
+                allLearningData[targetId] = target
+                    ? combineLearningData(target, source)
+                    : { ...source, wordId: targetId };
+                delete allLearningData[sourceId];
+                await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
+            }
+            const history = await this.getItem(STORAGE_KEYS.WORD_HISTORY, {});
+            if (history[sourceId]) {
+                history[targetId] = [...(history[targetId] ?? []), ...history[sourceId]]
+                    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+                    .slice(-MAX_WORD_EVENTS);
+                delete history[sourceId];
+                await this.setItem(STORAGE_KEYS.WORD_HISTORY, history);
+            }
+            const replaceId = (ids) => [...new Set(ids.map(id => (id === sourceId ? targetId : id)))];
+            for (const key of [STORAGE_KEYS.FAVORITE_WORDS, STORAGE_KEYS.MASTERED_WORDS]) {
+                const ids = await this.getItem(key, []);
+                if (ids.includes(sourceId)) {
+                    await this.setItem(key, replaceId(ids));
                 }
             }
-            else {
-                userProgress.streakDays = 1;
+            const decks = await this.getItem(STORAGE_KEYS.VOCABULARY_DECKS, []);
+            if (decks.some(deck => deck.wordIds.includes(sourceId))) {
+                await this.setItem(STORAGE_KEYS.VOCABULARY_DECKS, decks.map(deck => ({ ...deck, wordIds: replaceId(deck.wordIds) })));
+            }
+            const results = await this.getPracticeResults();
+            if (results.some(result => result.answers.some(answer => answer.wordId === sourceId))) {
+                await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, results.map(result => ({
+                    ...result,
+                    answers: result.answers.map(answer => (answer.wordId === sourceId ? { ...answer, wordId: targetId } : answer)),
+                })));
             }
-            userProgress.lastStudyTime = new Date();
-            userProgress.updatedAt = new Date();
-            await this.setItem(STORAGE_KEYS.USER_PROGRESS, userProgress);
-            this.addToSyncQueue(STORAGE_KEYS.USER_PROGRESS, userProgress);
         }
         catch (error) {
-            console.error('Failed to update user progress:', error);
+            console.error('Failed to merge learning data:', error);
+            throw error;
         }
     }
     async getUserProgress() {
@@ -214,10 +329,86 @@ export class StorageManager {
             };
         }
     }
+    async savePracticeResult(result) {
+        try {
+            const results = await this.getPracticeResults();
+            const updatedResults = [
+                ...results.filter(item => item.sessionId !== result.sessionId),
+                result,
+            ].slice(-MAX_PRACTICE_RESULTS);
+            await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, updatedResults);
+        }
+        catch (error) {
+            console.error('Failed to save practice result:', error);
+            throw error;
+        }
+    }
+    async getPracticeResults() {
+        try {
+            return await this.getItem(STORAGE_KEYS.PRACTICE_RESULTS, []);
+        }
+        catch (error) {
+            console.error('Failed to get practice results:', error);
+            return [];
+        }
+    }
+    async saveSessionCheckpoint(session, answers) {
+        try {
+            const checkpoint = {
+                session: { ...session, answers, status: 'in_progress' },
+                savedAt: new Date().toISOString(),
+            };
+            await this.setItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION, checkpoint);
+            return checkpoint;
+        }
+        catch (error) {
+            console.error('Failed to save session checkpoint:', error);
+            throw error;
+        }
+    }
+    async getSessionCheckpoint() {
+        try {
+            const checkpoint = await this.getItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION, null);
+            return checkpoint ? reviveCheckpoint(checkpoint) : null;
+        }
+        catch (error) {
+            console.error('Failed to get session checkpoint:', error);
+            return null;
+        }
+    }
+    async getResumableSession(timeoutMinutes, now = new Date()) {
+        const checkpoint = await this.getSessionCheckpoint();
+        if (!checkpoint || checkpoint.session.status !== 'in_progress') {
+            return null;
+        }
+        if (isCheckpointStale(checkpoint, timeoutMinutes, now)) {
+            await this.abandonSessionCheckpoint();
+            return null;
+        }
+        return checkpoint;
+    }
+    async abandonSessionCheckpoint() {
+        try {
+            const checkpoint = await this.getSessionCheckpoint();
+            if (!checkpoint || checkpoint.session.status !== 'in_progress') {
+                return;
+            }
+            await this.setItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION, {
+                ...checkpoint,
+                session: { ...checkpoint.session, status: 'abandoned', endTime: new Date() },
+            });
+        }
+        catch (error) {
+            console.error('Failed to abandon session checkpoint:', error);
+            throw error;
+        }
+    }
+    async clearSessionCheckpoint() {
+        storageService.removeItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION);
+    }
     async saveVocabularyList(vocabulary) {
         try {
-            await this.setItem(STORAGE_KEYS.VOCABULARY_LIST, vocabulary);
-            this.addToSyncQueue(STORAGE_KEYS.VOCABULARY_LIST, vocabulary);
+            await vocabularyStore.sync(vocabulary);
         }
         catch (error) {
             console.error('Failed to save vocabulary list:', error);
@@ -226,7 +417,7 @@ export class StorageManager {
     }
     async getVocabularyList() {
         try {
-            return await this.getItem(STORAGE_KEYS.VOCABULARY_LIST, []);
+            return await vocabularyStore.getAll();
         }
         catch (error) {
             console.error('Failed to get vocabulary list:', error);
@@ -236,7 +427,6 @@ export class StorageManager {
     async saveUserSettings(settings) {
         try {
             await this.setItem(STORAGE_KEYS.USER_SETTINGS, settings);
-            this.addToSyncQueue(STORAGE_KEYS.USER_SETTINGS, settings);
         }
         catch (error) {
             console.error('Failed to save user settings:', error);
@@ -245,34 +435,18 @@ export class StorageManager {
     }
     async getUserSettings() {
         try {
-            const defaultSettings = {
-                theme: 'light',
-                language: 'zh-CN',
-                soundEnabled: true,
-                notificationsEnabled: true,
-                autoPlayAudio: true,
-                studyReminder: true,
-                dailyGoal: 20,
-            };
-            return await this.getItem(STORAGE_KEYS.USER_SETTINGS, defaultSettings);
+            const storedSettings = await this.getItem(STORAGE_KEYS.USER_SETTINGS, null);
+            return mergeUserSettings(storedSettings);
         }
         catch (error) {
             console.error('Failed to get user settings:', error);
-            return {
-                theme: 'light',
-                language: 'zh-CN',
-                soundEnabled: true,
-                notificationsEnabled: true,
-                autoPlayAudio: true,
-                studyReminder: true,
-                dailyGoal: 20,
-            };
+            return mergeUserSettings(null);
         }
     }
     async createBackup() {
         try {
             const backupData = {
-                version: '1.0.0',
+                version: CURRENT_DATA_VERSION,
                 timestamp: new Date().toISOString(),
                 userProgress: await this.getUserProgress(),
                 vocabularyList: await this.getVocabularyList(),
@@ -281,6 +455,9 @@ export class StorageManager {
                 masteredWords: await this.getItem(STORAGE_KEYS.MASTERED_WORDS, []),
                 favoriteWords: await this.getItem(STORAGE_KEYS.FAVORITE_WORDS, []),
                 practiceResults: await this.getItem(STORAGE_KEYS.PRACTICE_RESULTS, []),
+                decks: await this.getItem(STORAGE_KEYS.VOCABULARY_DECKS, []),
+                wordHistory: await this.getItem(STORAGE_KEYS.WORD_HISTORY, {}),
+                learningData: await this.getAllLearningData(),
             };
             await this.setItem(STORAGE_KEYS.BACKUP_DATA, backupData);
             return backupData;
@@ -292,13 +469,41 @@ export class StorageManager {
     }
     async restoreFromBackup(backupData) {
         try {
-            await this.setItem(STORAGE_KEYS.USER_PROGRESS, backupData.userProgress);
-            await this.setItem(STORAGE_KEYS.VOCABULARY_LIST, backupData.vocabularyList);
-            await this.setItem(STORAGE_KEYS.LEARNING_SESSIONS, backupData.learningSessions);
-            await this.setItem(STORAGE_KEYS.USER_SETTINGS, backupData.userSettings);
-            await this.setItem(STORAGE_KEYS.MASTERED_WORDS, backupData.masteredWords);
-            await this.setItem(STORAGE_KEYS.FAVORITE_WORDS, backupData.favoriteWords);
-            await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, backupData.practiceResults);
+            const migrated = migratePayload({
+                userProgress: backupData.userProgress,
+                vocabularyList: backupData.vocabularyList,
+                userSettings: backupData.userSettings,
+            }, backupData.version || INITIAL_DATA_VERSION);
+            const previousVocabulary = await this.getVocabularyList();
+            const snapshot = dataMigrationService.createSnapshot(dataMigrationService.getStoredVersion(), [
+                STORAGE_KEYS.USER_PROGRESS,
+                STORAGE_KEYS.LEARNING_SESSIONS,
+                STORAGE_KEYS.USER_SETTINGS,
+                STORAGE_KEYS.MASTERED_WORDS,
+                STORAGE_KEYS.FAVORITE_WORDS,
+                STORAGE_KEYS.PRACTICE_RESULTS,
+                STORAGE_KEYS.VOCABULARY_DECKS,
+                STORAGE_KEYS.WORD_HISTORY,
+                STORAGE_KEYS.LEARNING_DATA,
+            ]);
+            try {
+                await this.setItem(STORAGE_KEYS.USER_PROGRESS, migrated.userProgress);
+                await vocabularyStore.replaceAll(migrated.vocabularyList);
+                await this.setItem(STORAGE_KEYS.LEARNING_SESSIONS, backupData.learningSessions);
+                await this.setItem(STORAGE_KEYS.USER_SETTINGS, migrated.userSettings);
+                await this.setItem(STORAGE_KEYS.MASTERED_WORDS, backupData.masteredWords);
+                await this.setItem(STORAGE_KEYS.FAVORITE_WORDS, backupData.favoriteWords);
+                await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, backupData.practiceResults);
+                await this.setItem(STORAGE_KEYS.VOCABULARY_DECKS, backupData.decks ?? []);
+                await this.setItem(STORAGE_KEYS.WORD_HISTORY, backupData.wordHistory ?? {});
+                await this.setItem(STORAGE_KEYS.LEARNING_DATA, backupData.learningData ?? {});
+            }
+            catch (error) {
+                dataMigrationService.restoreSnapshot(snapshot);
+                await storageService.reloadItems(Object.keys(snapshot.items));
+                await vocabularyStore.replaceAll(previousVocabulary);
+                throw error;
+            }
             this.syncQueue.clear();
         }
         catch (error) {
@@ -328,10 +533,8 @@ export class StorageManager {
     }
     async clearAllData() {
         try {
-            const keys = Object.values(STORAGE_KEYS);
-            for (const key of keys) {
-                localStorage.removeItem(key);
-            }
+            Object.values(StorageKey).forEach(key => storageService.removeItem(key));
+            await vocabularyStore.clear();
             this.syncQueue.clear();
         }
         catch (error) {
@@ -341,14 +544,7 @@ export class StorageManager {
     }
     getStorageUsage() {
         try {
-            let used = 0;
-            const keys = Object.values(STORAGE_KEYS);
-            for (const key of keys) {
-                const item = localStorage.getItem(key);
-                if (item) {
-                    used += item.length;
-                }
-            }
+            const used = Object.values(StorageKey).reduce((sum, key) => sum + storageService.getItemSize(key), 0);
             const total = 5 * 1024 * 1024;
             const percentage = (used / total) * 100;
             return { used, total, percentage };
@@ -358,46 +554,14 @@ export class StorageManager {
             return { used: 0, total: 0, percentage: 0 };
         }
     }
-    async setItem(key, value) {
-        try {
-            const serializedValue = JSON.stringify(value);
-            localStorage.setItem(key, serializedValue);
-        }
-        catch (error) {
-            if (error instanceof DOMException && error.code === 22) {
-                await this.handleStorageQuotaExceeded();
-                throw new Error('Storage quota exceeded');
-            }
-            throw error;
+    async setItem(key, value, options) {
+        if (!storageService.setItem(key, value, options)) {
+            throw new Error(`Failed to save ${key}`);
         }
     }
     async getItem(key, defaultValue) {
-        try {
-            const item = localStorage.getItem(key);
-            if (item === null) {
-                return defaultValue;
-            }
-            return JSON.parse(item);
-        }
-        catch (error) {
-            console.error(`Failed to parse stored item for key ${key}:`, error);
-            return defaultValue;
-        }
-    }
-    async handleStorageQuotaExceeded() {
-        try {
-            const sessions = await this.getItem(STORAGE_KEYS.LEARNING_SESSIONS, []);
-            const oneMonthAgo = new Date();
-            oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-            const recentSessions = sessions.filter((session) => new Date(session.date) > oneMonthAgo);
-            await this.setItem(STORAGE_KEYS.LEARNING_SESSIONS, recentSessions);
-            const practiceResults = await this.getItem(STORAGE_KEYS.PRACTICE_RESULTS, []);
-            const recentResults = practiceResults.filter((result) => new Date(result.date) > oneMonthAgo);
-            await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, recentResults);
-        }
-        catch (error) {
-            console.error('Failed to handle storage quota exceeded:', error);
-        }
+        const item = storageService.getItem(key);
+        return item === null ? defaultValue : item;
     }
     addToSyncQueue(key, data) {
         this.syncQueue.set(key, data);
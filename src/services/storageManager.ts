@@ -3,23 +3,64 @@
  * 提供用户学习数据的本地存储、备份和恢复功能
  */
 
-import { VocabularyItem, UserProgress, UserSettings, StudySession } from '@/types';
+import {
+  VocabularyItem,
+  VocabularyDeck,
+  UserProgress,
+  UserSettings,
+  StudySession,
+  PracticeSession,
+  UserAnswer,
+  QuestionType,
+  PracticeDifficulty,
+  DEFAULT_SETTINGS,
+} from '@/types';
+import { storageService, StorageKey, StorageSetOptions } from './storage';
+import { vocabularyStore } from './vocabularyStore';
+import {
+  dataMigrationService,
+  migratePayload,
+  CURRENT_DATA_VERSION,
+  INITIAL_DATA_VERSION,
+} from './dataMigration';
 
 /**
  * 存储键名常量
  */
 export const STORAGE_KEYS = {
-  USER_PROGRESS: 'web3_vocab_user_progress',
-  VOCABULARY_LIST: 'web3_vocab_vocabulary_list',
-  LEARNING_SESSIONS: 'web3_vocab_learning_sessions',
-  USER_SETTINGS: 'web3_vocab_user_settings',
-  MASTERED_WORDS: 'web3_vocab_mastered_words',
-  FAVORITE_WORDS: 'web3_vocab_favorite_words',
-  PRACTICE_RESULTS: 'web3_vocab_practice_results',
-  BACKUP_DATA: 'web3_vocab_backup_data',
-  LAST_SYNC_TIME: 'web3_vocab_last_sync_time',
+  USER_PROGRESS: StorageKey.USER_PROGRESS,
+  VOCABULARY_LIST: StorageKey.VOCABULARY_DATA,
+  LEARNING_DATA: StorageKey.LEARNING_DATA,
+  LEARNING_SESSIONS: StorageKey.LEARNING_SESSIONS,
+  WORD_HISTORY: StorageKey.WORD_HISTORY,
+  USER_SETTINGS: StorageKey.USER_SETTINGS,
+  MASTERED_WORDS: StorageKey.MASTERED_WORDS,
+  FAVORITE_WORDS: StorageKey.VOCABULARY_FAVORITES,
+  VOCABULARY_DECKS: StorageKey.VOCABULARY_DECKS,
+  PRACTICE_RESULTS: StorageKey.PRACTICE_RESULTS,
+  ACTIVE_PRACTICE_SESSION: StorageKey.ACTIVE_PRACTICE_SESSION,
+  BACKUP_DATA: StorageKey.BACKUP_DATA,
+  LAST_SYNC_TIME: StorageKey.LAST_SYNC_TIME,
+  MIGRATION_SNAPSHOT: StorageKey.MIGRATION_SNAPSHOT,
 } as const;
 
+/**
+ * 需要同步的用户数据键
+ */
+const SYNC_KEYS: ReadonlySet<StorageKey> = new Set([
+  StorageKey.USER_PROGRESS,
+  StorageKey.VOCABULARY_DATA,
+  StorageKey.VOCABULARY_FAVORITES,
+  StorageKey.MASTERED_WORDS,
+  StorageKey.VOCABULARY_DECKS,
+  StorageKey.LEARNING_DATA,
+  StorageKey.LEARNING_SESSIONS,
+  StorageKey.WORD_HISTORY,
+  StorageKey.LEARNING_GOALS,
+  StorageKey.PRACTICE_RESULTS,
+  StorageKey.USER_SETTINGS,
+]);
+
 /**
  * 学习数据接口
  */
@@ -30,9 +71,154 @@ export interface LearningData {
   reviewCount: number; // 复习次数
   lastReviewDate: string; // 最后复习日期
   masteryLevel: number; // 掌握程度（1-5）
-  mistakes: string[]; // 错误记录
+  mistakes: string[]; // 最近答错时给出的答案
+  easeFactor?: number; // 复习难度系数（SM-2）
+  intervalDays?: number; // 复习间隔（天）
 }
 
+/**
+ * 学习数据中最多保留的错误答案数量
+ */
+export const MAX_RECORDED_MISTAKES = 20;
+
+/**
+ * 单词学习事件类型：见过、作答、达到已掌握、跌出已掌握、重置进度
+ */
+export type WordEventType = 'seen' | 'answered' | 'mastered' | 'demoted' | 'reset';
+
+/**
+ * 单词学习事件
+ */
+export interface WordEvent {
+  type: WordEventType;
+  timestamp: string;
+  sessionId?: string;
+  questionType?: QuestionType;
+  answer?: string; // 用户给出的答案
+  correctAnswer?: string;
+  isCorrect?: boolean;
+  timeSpent?: number; // 答题时间（秒）
+}
+
+/**
+ * 每个单词最多保留的学习事件数量
+ */
+export const MAX_WORD_EVENTS = 100;
+
+/**
+ * 练习结果中的单题记录
+ */
+export interface PracticeAnswerRecord {
+  questionId: string;
+  wordId: string;
+  type: QuestionType;
+  difficulty: PracticeDifficulty;
+  isCorrect: boolean;
+  timeSpent: number; // 答题时间（秒）
+  score: number;
+}
+
+/**
+ * 练习结果记录
+ */
+export interface PracticeResultRecord {
+  sessionId: string;
+  mode: PracticeSession['mode'];
+  date: string; // 完成时间
+  startTime: string; // 开始时间
+  duration: number; // 总用时（秒）
+  totalQuestions: number;
+  answeredQuestions: number;
+  correctAnswers: number;
+  totalScore: number;
+  maxScore: number;
+  accuracy: number; // 正确率（0-1）
+  timeLimit?: number; // 总时间限制（秒）
+  timedOut: boolean; // 是否因超时结束
+  answers: PracticeAnswerRecord[];
+}
+
+/**
+ * 最多保留的练习结果数量
+ */
+const MAX_PRACTICE_RESULTS = 200;
+
+/**
+ * 练习检查点，记录进行中练习的题目和已作答的答案
+ */
+export interface PracticeCheckpoint {
+  session: PracticeSession; // 会话（answers 为已作答的答案）
+  savedAt: string; // 最近一次保存时间
+}
+
+/**
+ * 按分组把保存的设置与默认设置合并，兼容旧版本缺少字段的数据
+ */
+export const mergeUserSettings = (stored: Partial<UserSettings> | null | undefined): UserSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  audio: { ...DEFAULT_SETTINGS.audio, ...stored?.audio },
+  learning: {
+    ...DEFAULT_SETTINGS.learning,
+    ...stored?.learning,
+    studyReminders: { ...DEFAULT_SETTINGS.learning.studyReminders, ...stored?.learning?.studyReminders },
+  },
+  practice: { ...DEFAULT_SETTINGS.practice, ...stored?.practice },
+  ui: { ...DEFAULT_SETTINGS.ui, ...stored?.ui },
+  privacy: { ...DEFAULT_SETTINGS.privacy, ...stored?.privacy },
+  notifications: { ...DEFAULT_SETTINGS.notifications, ...stored?.notifications },
+  lastUpdated: stored?.lastUpdated ? new Date(stored.lastUpdated) : DEFAULT_SETTINGS.lastUpdated,
+});
+
+/**
+ * 判断检查点是否已超过保留时间
+ */
+export const isCheckpointStale = (
+  checkpoint: PracticeCheckpoint,
+  timeoutMinutes: number,
+  now: Date = new Date()
+): boolean => now.getTime() - new Date(checkpoint.savedAt).getTime() > timeoutMinutes * 60 * 1000;
+
+/**
+ * 把从 JSON 读取的检查点中的日期字段还原为 Date
+ */
+export const reviveCheckpoint = (checkpoint: PracticeCheckpoint): PracticeCheckpoint => ({
+  ...checkpoint,
+  session: {
+    ...checkpoint.session,
+    startTime: new Date(checkpoint.session.startTime),
+    endTime: checkpoint.session.endTime ? new Date(checkpoint.session.endTime) : undefined,
+    answers: checkpoint.session.answers.map(answer => ({
+      ...answer,
+      answeredAt: new Date(answer.answeredAt),
+    })),
+  },
+});
+
+/**
+ * 合并同一词汇的两条学习数据（如合并重复词汇时），结果沿用 target 的 wordId
+ * 复习次数和学习时间累加，正确率按复习次数加权，复习间隔沿用最近一次复习的记录
+ */
+export const combineLearningData = (target: LearningData, source: LearningData): LearningData => {
+  const reviewCount = target.reviewCount + source.reviewCount;
+  const [latest, earlier] = new Date(source.lastReviewDate) > new Date(target.lastReviewDate)
+    ? [source, target]
+    : [target, source];
+
+  return {
+    ...earlier,
+    ...latest,
+    wordId: target.wordId,
+    studyTime: target.studyTime + source.studyTime,
+    reviewCount,
+    correctRate: reviewCount > 0
+      ? (target.correctRate * target.reviewCount + source.correctRate * source.reviewCount) / reviewCount
+      : Math.max(target.correctRate, source.correctRate),
+    masteryLevel: Math.max(target.masteryLevel, source.masteryLevel),
+    mistakes: [...new Set([...target.mistakes, ...source.mistakes])],
+  };
+};
+
 /**
  * 备份数据结构
  */
@@ -45,7 +231,13 @@ export interface BackupData {
   userSettings: UserSettings;
   masteredWords: string[];
   favoriteWords: string[];
-  practiceResults: any[];
+  practiceResults: PracticeResultRecord[];
+  /** 用户卡组（旧版本备份中没有） */
+  decks?: VocabularyDeck[];
+  /** 单词学习事件（旧版本备份中没有） */
+  wordHistory?: Record<string, WordEvent[]>;
+  /** 单词学习数据（旧版本备份中没有） */
+  learningData?: Record<string, LearningData>;
 }
 
 /**
@@ -73,6 +265,16 @@ export class StorageManager {
    * 初始化事件监听器
    */
   private initializeEventListeners() {
+    // 任何通过存储服务写入的用户数据都加入同步队列
+    storageService.subscribe((key, value) => {
+      if (SYNC_KEYS.has(key)) {
+        this.addToSyncQueue(key, value);
+      }
+    });
+    vocabularyStore.subscribe(change => {
+      this.addToSyncQueue(STORAGE_KEYS.VOCABULARY_LIST, change);
+    });
+
     // 监听网络状态变化
     window.addEventListener('online', () => {
       this.isOnline = true;
@@ -117,6 +319,7 @@ export class StorageManager {
 
   /**
    * 保存用户学习数据
+   * 传入 lastReviewDate 时按该时间记录复习，否则使用当前时间；用户进度由进度上下文统一保存
    */
   async saveLearningData(wordId: string, data: Partial<LearningData>): Promise<void> {
     try {
@@ -125,23 +328,33 @@ export class StorageManager {
         ...existingData,
         ...data,
         wordId,
-        lastReviewDate: new Date().toISOString(),
+        lastReviewDate: data.lastReviewDate ?? new Date().toISOString(),
       };
 
       const allLearningData = await this.getAllLearningData();
       allLearningData[wordId] = updatedData;
 
-      await this.setItem('learning_data', allLearningData);
-      this.addToSyncQueue('learning_data', allLearningData);
-
-      // 更新用户进度
-      await this.updateUserProgress(updatedData);
+      await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
     } catch (error) {
       console.error('Failed to save learning data:', error);
       throw error;
     }
   }
 
+  /**
+   * 更新单词学习数据的部分字段，不记为一次复习（保留原有的复习日期）
+   */
+  async updateLearningData(wordId: string, data: Partial<LearningData>): Promise<void> {
+    try {
+      const allLearningData = await this.getAllLearningData();
+      allLearningData[wordId] = { ...(await this.getLearningData(wordId)), ...data, wordId };
+      await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
+    } catch (error) {
+      console.error('Failed to update learning data:', error);
+      throw error;
+    }
+  }
+
   /**
    * 获取单词学习数据
    */
@@ -176,7 +389,7 @@ export class StorageManager {
    */
   async getAllLearningData(): Promise<Record<string, LearningData>> {
     try {
-      return await this.getItem('learning_data', {});
+      return await this.getItem(STORAGE_KEYS.LEARNING_DATA, {});
     } catch (error) {
       console.error('Failed to get all learning data:', error);
       return {};
@@ -184,62 +397,92 @@ export class StorageManager {
   }
 
   /**
-   * 更新用户进度
+   * 导入学习数据（如从 Anki 复习记录换算），保留原有的复习日期
+   * 默认不覆盖已有记录；merge 为 true 时与已有记录合并
    */
-  private async updateUserProgress(learningData: LearningData): Promise<void> {
+  async importLearningData(records: LearningData[], merge = false): Promise<number> {
+    const allLearningData = await this.getAllLearningData();
+    const imported = merge ? records : records.filter(record => !allLearningData[record.wordId]);
+    if (imported.length === 0) return 0;
+
+    imported.forEach(record => {
+      const existing = allLearningData[record.wordId];
+      allLearningData[record.wordId] = existing ? combineLearningData(existing, record) : record;
+    });
+    await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
+    return imported.length;
+  }
+
+  /**
+   * 删除词汇时一并删除其学习数据和已掌握记录
+   */
+  async removeLearningData(wordIds: string[]): Promise<void> {
     try {
-      const userProgress = await this.getUserProgress();
-      const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD格式
-
-      // 查找或创建今日统计
-      let todayStats = userProgress.dailyStats.find(stat => stat.date === today);
-      if (!todayStats) {
-        todayStats = {
-          date: today,
-          wordsStudied: 0,
-          practiceSessions: 0,
-          correctAnswers: 0,
-          totalAnswers: 0,
-          studyTimeMinutes: 0,
-          newMasteredWords: 0,
-        };
-        userProgress.dailyStats.push(todayStats);
+      const removed = new Set(wordIds);
+      const allLearningData = await this.getAllLearningData();
+      if (wordIds.some(id => allLearningData[id])) {
+        wordIds.forEach(id => delete allLearningData[id]);
+        await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
       }
 
-      // 更新今日学习时间（转换为分钟）
-      todayStats.studyTimeMinutes += Math.round(learningData.studyTime / 60000);
-      userProgress.totalStudyTime += Math.round(learningData.studyTime / 60000);
+      const mastered = await this.getItem<string[]>(STORAGE_KEYS.MASTERED_WORDS, []);
+      if (mastered.some(id => removed.has(id))) {
+        await this.setItem(STORAGE_KEYS.MASTERED_WORDS, mastered.filter(id => !removed.has(id)));
+      }
+    } catch (error) {
+      console.error('Failed to remove learning data:', error);
+      throw error;
+    }
+  }
 
-      // 更新掌握词汇量
-      if (learningData.masteryLevel >= 4) {
-        if (!userProgress.masteredWords.includes(learningData.wordId)) {
-          userProgress.masteredWords.push(learningData.wordId);
-          todayStats.newMasteredWords += 1;
-        }
+  /**
+   * 合并重复词汇时把 source 的学习记录转到 target：学习数据、学习事件、收藏、已掌握、卡组和练习记录
+   */
+  async mergeLearningData(targetId: string, sourceId: string): Promise<void> {
+    try {
+      const allLearningData = await this.getAllLearningData();
+      const source = allLearningData[sourceId];
+      if (source) {
+        const target = allLearningData[targetId];
+        allLearningData[targetId] = target
+          ? combineLearningData(target, source)
+          : { ...source, wordId: targetId };
+        delete allLearningData[sourceId];
+        await this.setItem(STORAGE_KEYS.LEARNING_DATA, allLearningData);
       }
 
-      // 更新连续学习天数
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
+      const history = await this.getItem<Record<string, WordEvent[]>>(STORAGE_KEYS.WORD_HISTORY, {});
+      if (history[sourceId]) {
+        history[targetId] = [...(history[targetId] ?? []), ...history[sourceId]]
+          .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+          .slice(-MAX_WORD_EVENTS);
+        delete history[sourceId];
+        await this.setItem(STORAGE_KEYS.WORD_HISTORY, history);
+      }
 
-      const hasYesterdayStats = userProgress.dailyStats.some(stat => stat.date === yesterdayStr);
-      if (hasYesterdayStats || userProgress.streakDays === 0) {
-        userProgress.streakDays += 1;
-        if (userProgress.streakDays > userProgress.maxStreakDays) {
-          userProgress.maxStreakDays = userProgress.streakDays;
+      const replaceId = (ids: string[]) => [...new Set(ids.map(id => (id === sourceId ? targetId : id)))];
+      for (const key of [STORAGE_KEYS.FAVORITE_WORDS, STORAGE_KEYS.MASTERED_WORDS]) {
+        const ids = await this.getItem<string[]>(key, []);
+        if (ids.includes(sourceId)) {
+          await this.setItem(key, replaceId(ids));
         }
-      } else {
-        userProgress.streakDays = 1;
       }
 
-      userProgress.lastStudyTime = new Date();
-      userProgress.updatedAt = new Date();
+      const decks = await this.getItem<VocabularyDeck[]>(STORAGE_KEYS.VOCABULARY_DECKS, []);
+      if (decks.some(deck => deck.wordIds.includes(sourceId))) {
+        await this.setItem(STORAGE_KEYS.VOCABULARY_DECKS, decks.map(deck => ({ ...deck, wordIds: replaceId(deck.wordIds) })));
+      }
 
-      await this.setItem(STORAGE_KEYS.USER_PROGRESS, userProgress);
-      this.addToSyncQueue(STORAGE_KEYS.USER_PROGRESS, userProgress);
+      const results = await this.getPracticeResults();
+      if (results.some(result => result.answers.some(answer => answer.wordId === sourceId))) {
+        await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, results.map(result => ({
+          ...result,
+          answers: result.answers.map(answer => (answer.wordId === sourceId ? { ...answer, wordId: targetId } : answer)),
+        })));
+      }
     } catch (error) {
-      console.error('Failed to update user progress:', error);
+      console.error('Failed to merge learning data:', error);
+      throw error;
     }
   }
 
@@ -294,12 +537,116 @@ export class StorageManager {
   }
 
   /**
-   * 保存词汇列表
+   * 保存练习结果
+   */
+  async savePracticeResult(result: PracticeResultRecord): Promise<void> {
+    try {
+      const results = await this.getPracticeResults();
+      const updatedResults = [
+        ...results.filter(item => item.sessionId !== result.sessionId),
+        result,
+      ].slice(-MAX_PRACTICE_RESULTS);
+
+      await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, updatedResults);
+    } catch (error) {
+      console.error('Failed to save practice result:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取练习结果列表（按完成时间先后排列）
+   */
+  async getPracticeResults(): Promise<PracticeResultRecord[]> {
+    try {
+      return await this.getItem<PracticeResultRecord[]>(STORAGE_KEYS.PRACTICE_RESULTS, []);
+    } catch (error) {
+      console.error('Failed to get practice results:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存练习检查点，每答完一题调用一次
+   */
+  async saveSessionCheckpoint(session: PracticeSession, answers: UserAnswer[]): Promise<PracticeCheckpoint> {
+    try {
+      const checkpoint: PracticeCheckpoint = {
+        session: { ...session, answers, status: 'in_progress' },
+        savedAt: new Date().toISOString(),
+      };
+
+      await this.setItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION, checkpoint);
+      return checkpoint;
+    } catch (error) {
+      console.error('Failed to save session checkpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取最近一次练习检查点（包括已放弃的）
+   */
+  async getSessionCheckpoint(): Promise<PracticeCheckpoint | null> {
+    try {
+      const checkpoint = await this.getItem<PracticeCheckpoint | null>(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION, null);
+      return checkpoint ? reviveCheckpoint(checkpoint) : null;
+    } catch (error) {
+      console.error('Failed to get session checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取可以继续的练习，超过保留时间的检查点会被自动标记为已放弃
+   */
+  async getResumableSession(timeoutMinutes: number, now: Date = new Date()): Promise<PracticeCheckpoint | null> {
+    const checkpoint = await this.getSessionCheckpoint();
+    if (!checkpoint || checkpoint.session.status !== 'in_progress') {
+      return null;
+    }
+
+    if (isCheckpointStale(checkpoint, timeoutMinutes, now)) {
+      await this.abandonSessionCheckpoint();
+      return null;
+    }
+
+    return checkpoint;
+  }
+
+  /**
+   * 把当前检查点标记为已放弃
+   */
+  async abandonSessionCheckpoint(): Promise<void> {
+    try {
+      const checkpoint = await this.getSessionCheckpoint();
+      if (!checkpoint || checkpoint.session.status !== 'in_progress') {
+        return;
+      }
+
+      await this.setItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION, {
+        ...checkpoint,
+        session: { ...checkpoint.session, status: 'abandoned', endTime: new Date() },
+      });
+    } catch (error) {
+      console.error('Failed to abandon session checkpoint:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 练习完成后清除检查点
+   */
+  async clearSessionCheckpoint(): Promise<void> {
+    storageService.removeItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION);
+  }
+
+  /**
+   * 保存词汇列表（只写入有变化的词汇）
    */
   async saveVocabularyList(vocabulary: VocabularyItem[]): Promise<void> {
     try {
-      await this.setItem(STORAGE_KEYS.VOCABULARY_LIST, vocabulary);
-      this.addToSyncQueue(STORAGE_KEYS.VOCABULARY_LIST, vocabulary);
+      await vocabularyStore.sync(vocabulary);
     } catch (error) {
       console.error('Failed to save vocabulary list:', error);
       throw error;
@@ -311,7 +658,7 @@ export class StorageManager {
    */
   async getVocabularyList(): Promise<VocabularyItem[]> {
     try {
-      return await this.getItem(STORAGE_KEYS.VOCABULARY_LIST, []);
+      return await vocabularyStore.getAll();
     } catch (error) {
       console.error('Failed to get vocabulary list:', error);
       return [];
@@ -324,7 +671,6 @@ export class StorageManager {
   async saveUserSettings(settings: UserSettings): Promise<void> {
     try {
       await this.setItem(STORAGE_KEYS.USER_SETTINGS, settings);
-      this.addToSyncQueue(STORAGE_KEYS.USER_SETTINGS, settings);
     } catch (error) {
       console.error('Failed to save user settings:', error);
       throw error;
@@ -332,32 +678,15 @@ export class StorageManager {
   }
 
   /**
-   * 获取用户设置
+   * 获取用户设置（缺失的字段使用默认设置补齐）
    */
   async getUserSettings(): Promise<UserSettings> {
     try {
-      const defaultSettings: UserSettings = {
-        theme: 'light',
-        language: 'zh-CN',
-        soundEnabled: true,
-        notificationsEnabled: true,
-        autoPlayAudio: true,
-        studyReminder: true,
-        dailyGoal: 20,
-      };
-
-      return await this.getItem(STORAGE_KEYS.USER_SETTINGS, defaultSettings);
+      const storedSettings = await this.getItem<Partial<UserSettings> | null>(STORAGE_KEYS.USER_SETTINGS, null);
+      return mergeUserSettings(storedSettings);
     } catch (error) {
       console.error('Failed to get user settings:', error);
-      return {
-        theme: 'light',
-        language: 'zh-CN',
-        soundEnabled: true,
-        notificationsEnabled: true,
-        autoPlayAudio: true,
-        studyReminder: true,
-        dailyGoal: 20,
-      };
+      return mergeUserSettings(null);
     }
   }
 
@@ -367,7 +696,7 @@ export class StorageManager {
   async createBackup(): Promise<BackupData> {
     try {
       const backupData: BackupData = {
-        version: '1.0.0',
+        version: CURRENT_DATA_VERSION,
         timestamp: new Date().toISOString(),
         userProgress: await this.getUserProgress(),
         vocabularyList: await this.getVocabularyList(),
@@ -376,6 +705,9 @@ export class StorageManager {
         masteredWords: await this.getItem(STORAGE_KEYS.MASTERED_WORDS, []),
         favoriteWords: await this.getItem(STORAGE_KEYS.FAVORITE_WORDS, []),
         practiceResults: await this.getItem(STORAGE_KEYS.PRACTICE_RESULTS, []),
+        decks: await this.getItem(STORAGE_KEYS.VOCABULARY_DECKS, []),
+        wordHistory: await this.getItem(STORAGE_KEYS.WORD_HISTORY, {}),
+        learningData: await this.getAllLearningData(),
       };
 
       await this.setItem(STORAGE_KEYS.BACKUP_DATA, backupData);
@@ -388,16 +720,50 @@ export class StorageManager {
 
   /**
    * 恢复数据
+   * 旧版本备份先迁移到当前版本，写入失败时回滚到恢复前的数据
    */
   async restoreFromBackup(backupData: BackupData): Promise<void> {
     try {
-      await this.setItem(STORAGE_KEYS.USER_PROGRESS, backupData.userProgress);
-      await this.setItem(STORAGE_KEYS.VOCABULARY_LIST, backupData.vocabularyList);
-      await this.setItem(STORAGE_KEYS.LEARNING_SESSIONS, backupData.learningSessions);
-      await this.setItem(STORAGE_KEYS.USER_SETTINGS, backupData.userSettings);
-      await this.setItem(STORAGE_KEYS.MASTERED_WORDS, backupData.masteredWords);
-      await this.setItem(STORAGE_KEYS.FAVORITE_WORDS, backupData.favoriteWords);
-      await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, backupData.practiceResults);
+      const migrated = migratePayload(
+        {
+          userProgress: backupData.userProgress,
+          vocabularyList: backupData.vocabularyList,
+          userSettings: backupData.userSettings,
+        },
+        backupData.version || INITIAL_DATA_VERSION
+      );
+
+      const previousVocabulary = await this.getVocabularyList();
+      const snapshot = dataMigrationService.createSnapshot(dataMigrationService.getStoredVersion(), [
+        STORAGE_KEYS.USER_PROGRESS,
+        STORAGE_KEYS.LEARNING_SESSIONS,
+        STORAGE_KEYS.USER_SETTINGS,
+        STORAGE_KEYS.MASTERED_WORDS,
+        STORAGE_KEYS.FAVORITE_WORDS,
+        STORAGE_KEYS.PRACTICE_RESULTS,
+        STORAGE_KEYS.VOCABULARY_DECKS,
+        STORAGE_KEYS.WORD_HISTORY,
+        STORAGE_KEYS.LEARNING_DATA,
+      ]);
+
+      try {
+        await this.setItem(STORAGE_KEYS.USER_PROGRESS, migrated.userProgress);
+        await vocabularyStore.replaceAll(migrated.vocabularyList);
+        await this.setItem(STORAGE_KEYS.LEARNING_SESSIONS, backupData.learningSessions);
+        await this.setItem(STORAGE_KEYS.USER_SETTINGS, migrated.userSettings);
+        await this.setItem(STORAGE_KEYS.MASTERED_WORDS, backupData.masteredWords);
+        await this.setItem(STORAGE_KEYS.FAVORITE_WORDS, backupData.favoriteWords);
+        await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, backupData.practiceResults);
+        await this.setItem(STORAGE_KEYS.VOCABULARY_DECKS, backupData.decks ?? []);
+        await this.setItem(STORAGE_KEYS.WORD_HISTORY, backupData.wordHistory ?? {});
+        await this.setItem(STORAGE_KEYS.LEARNING_DATA, backupData.learningData ?? {});
+      } catch (error) {
+        // 快照直接改写存储，启用加密时还要重建解密缓存
+        dataMigrationService.restoreSnapshot(snapshot);
+        await storageService.reloadItems(Object.keys(snapshot.items));
+        await vocabularyStore.replaceAll(previousVocabulary);
+        throw error;
+      }
 
       // 清空同步队列，避免覆盖恢复的数据
       this.syncQueue.clear();
@@ -438,10 +804,8 @@ export class StorageManager {
    */
   async clearAllData(): Promise<void> {
     try {
-      const keys = Object.values(STORAGE_KEYS);
-      for (const key of keys) {
-        localStorage.removeItem(key);
-      }
+      Object.values(StorageKey).forEach(key => storageService.removeItem(key));
+      await vocabularyStore.clear();
       this.syncQueue.clear();
     } catch (error) {
       console.error('Failed to clear all data:', error);
@@ -454,15 +818,7 @@ export class StorageManager {
    */
   getStorageUsage(): { used: number; total: number; percentage: number } {
     try {
-      let used = 0;
-      const keys = Object.values(STORAGE_KEYS);
-      
-      for (const key of keys) {
-        const item = localStorage.getItem(key);
-        if (item) {
-          used += item.length;
-        }
-      }
+      const used = Object.values(StorageKey).reduce((sum, key) => sum + storageService.getItemSize(key), 0);
 
       // localStorage通常限制为5-10MB，这里假设5MB
       const total = 5 * 1024 * 1024; // 5MB in bytes
@@ -476,61 +832,17 @@ export class StorageManager {
   }
 
   /**
-   * 基础存储方法
+   * 基础存储方法，数据统一经过存储服务读写（带版本信息，支持过期时间和空间不足处理）
    */
-  private async setItem(key: string, value: any): Promise<void> {
-    try {
-      const serializedValue = JSON.stringify(value);
-      localStorage.setItem(key, serializedValue);
-    } catch (error) {
-      if (error instanceof DOMException && error.code === 22) {
-        // 存储空间不足
-        await this.handleStorageQuotaExceeded();
-        throw new Error('Storage quota exceeded');
-      }
-      throw error;
-    }
-  }
-
-  private async getItem<T>(key: string, defaultValue: T): Promise<T> {
-    try {
-      const item = localStorage.getItem(key);
-      if (item === null) {
-        return defaultValue;
-      }
-      return JSON.parse(item);
-    } catch (error) {
-      console.error(`Failed to parse stored item for key ${key}:`, error);
-      return defaultValue;
+  async setItem(key: StorageKey, value: any, options?: StorageSetOptions): Promise<void> {
+    if (!storageService.setItem(key, value, options)) {
+      throw new Error(`Failed to save ${key}`);
     }
   }
 
-  /**
-   * 处理存储空间不足
-   */
-  private async handleStorageQuotaExceeded(): Promise<void> {
-    try {
-      // 清理旧的学习会话数据
-      const sessions = await this.getItem(STORAGE_KEYS.LEARNING_SESSIONS, []);
-      const oneMonthAgo = new Date();
-      oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-      
-      const recentSessions = sessions.filter((session: any) => 
-        new Date(session.date) > oneMonthAgo
-      );
-      
-      await this.setItem(STORAGE_KEYS.LEARNING_SESSIONS, recentSessions);
-
-      // 清理旧的练习结果
-      const practiceResults = await this.getItem(STORAGE_KEYS.PRACTICE_RESULTS, []);
-      const recentResults = practiceResults.filter((result: any) => 
-        new Date(result.date) > oneMonthAgo
-      );
-      
-      await this.setItem(STORAGE_KEYS.PRACTICE_RESULTS, recentResults);
-    } catch (error) {
-      console.error('Failed to handle storage quota exceeded:', error);
-    }
+  async getItem<T>(key: StorageKey, defaultValue: T): Promise<T> {
+    const item = storageService.getItem<T>(key);
+    return item === null ? defaultValue : item;
   }
 
   /**
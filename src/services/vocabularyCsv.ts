@@ -0,0 +1,315 @@
+/**
+ * 词汇 CSV 导入导出
+ * 导入分两步：先按列映射生成预演报告（逐行列出错误和重复项），确认后只写入有效的行；
+ * 其他格式（Anki、Quizlet）转换为记录后复用同一套校验
+ */
+
+import { VocabularyItem, Web3Category, DifficultyLevel } from '@/types';
+import { parseCsv, stringifyCsv } from '@/utils/csv';
+import { VocabularyValidationRules, ValidationRule, validateField } from '@/utils/validation';
+import { TermIndex, DuplicateMatch } from './vocabularyDuplicates';
+import { formatRelations, parseRelations, VocabularyRelationRef } from './vocabularyRelations';
+
+/**
+ * 可从 CSV 导入的词汇字段
+ */
+export type CsvVocabularyField =
+  | 'word'
+  | 'definition'
+  | 'englishDefinition'
+  | 'pronunciation'
+  | 'category'
+  | 'difficulty'
+  | 'tags'
+  | 'examples'
+  | 'relations';
+
+/**
+ * 列映射：词汇字段 -> 列下标，未映射的字段使用默认值
+ */
+export type CsvColumnMapping = Partial<Record<CsvVocabularyField, number>>;
+
+/**
+ * 导入时写入的词汇数据
+ */
+export type VocabularyImportItem = Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * 单行预演结果
+ */
+export interface VocabularyImportRowReport {
+  /** 记录在文件中的起始行号 */
+  line: number;
+  word: string;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+  /** 重复时指向已有词汇或文件中更早的行 */
+  duplicateOf?: { existingId?: string; line?: number };
+  /** 重复的匹配方式 */
+  match?: DuplicateMatch;
+  /** 有效和重复的行都带有转换后的词汇，重复行可以选择合并或仍然导入 */
+  item?: VocabularyImportItem;
+  /** 关联词汇，写入后再按单词解析为 ID */
+  relations?: VocabularyRelationRef[];
+}
+
+/**
+ * 导入预演报告
+ */
+export interface VocabularyImportReport {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  /** 未映射的必填字段，不为空时无法导入 */
+  missingFields: CsvVocabularyField[];
+  rows: VocabularyImportRowReport[];
+  summary: { total: number; valid: number; invalid: number; duplicate: number };
+}
+
+/**
+ * CSV 导入预演报告
+ */
+export interface CsvImportReport extends VocabularyImportReport {
+  delimiter: string;
+}
+
+/**
+ * 待导入的一条记录
+ */
+export interface VocabularyImportRecord {
+  /** 在源文件中的位置（CSV 为行号） */
+  line: number;
+  values: string[];
+}
+
+export interface CsvImportOptions {
+  mapping?: CsvColumnMapping;
+  delimiter?: string;
+}
+
+/**
+ * 字段显示名称，用于列映射界面
+ */
+export const CSV_FIELD_LABELS: Record<CsvVocabularyField, string> = {
+  word: '单词',
+  definition: '中文定义',
+  englishDefinition: '英文定义',
+  pronunciation: '音标',
+  category: '分类',
+  difficulty: '难度',
+  tags: '标签',
+  examples: '例句',
+  relations: '关联词汇',
+};
+
+export const REQUIRED_CSV_FIELDS: CsvVocabularyField[] = ['word', 'definition', 'category', 'difficulty'];
+
+/**
+ * 导出列，表头与旧版导出文件保持一致
+ */
+const EXPORT_COLUMNS: { header: string; value: (item: VocabularyItem, byId: Map<string, VocabularyItem>) => unknown }[] = [
+  { header: 'Word', value: item => item.word },
+  { header: 'Definition', value: item => item.definition },
+  { header: 'English Definition', value: item => item.englishDefinition },
+  { header: 'Pronunciation', value: item => item.pronunciation },
+  { header: 'Category', value: item => item.category },
+  { header: 'Difficulty', value: item => item.difficulty },
+  { header: 'Tags', value: item => item.tags.join(', ') },
+  // 例句之间用换行分隔，字段会被引号包裹
+  { header: 'Examples', value: item => item.examples.join('\n') },
+  { header: 'Study Count', value: item => item.studyCount },
+  { header: 'Accuracy', value: item => item.accuracy },
+  { header: 'Is Custom', value: item => item.isCustom },
+  { header: 'Created At', value: item => new Date(item.createdAt) },
+  { header: 'Updated At', value: item => new Date(item.updatedAt) },
+  { header: 'Relations', value: (item, byId) => formatRelations(item, byId) },
+];
+
+/**
+ * 自动识别列映射时接受的表头（忽略大小写、空格、下划线和连字符）
+ */
+const HEADER_ALIASES: Record<CsvVocabularyField, string[]> = {
+  word: ['word', 'term', '单词', '词汇', '术语'],
+  definition: ['definition', 'meaning', 'chinesedefinition', '定义', '释义', '中文定义', '中文释义'],
+  englishDefinition: ['englishdefinition', 'english', 'englishmeaning', '英文定义', '英文释义'],
+  pronunciation: ['pronunciation', 'phonetic', 'ipa', '音标', '发音'],
+  category: ['category', 'topic', '分类', '类别'],
+  difficulty: ['difficulty', 'level', '难度', '难度等级'],
+  tags: ['tags', 'tag', 'labels', '标签'],
+  examples: ['examples', 'example', 'sentences', '例句'],
+  relations: ['relations', 'relation', 'relatedterms', '关联', '关联词汇'],
+};
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * 根据表头识别列映射
+ */
+export const detectCsvColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  (Object.keys(HEADER_ALIASES) as CsvVocabularyField[]).forEach(field => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    if (index >= 0) {
+      mapping[field] = index;
+    }
+  });
+  return mapping;
+};
+
+const matchEnumValue = <T extends string>(values: T[], raw: string): T | undefined =>
+  values.find(value => value === raw.trim().toLowerCase());
+
+const FIELD_RULES: Partial<Record<CsvVocabularyField, ValidationRule[]>> = {
+  word: VocabularyValidationRules.word,
+  definition: VocabularyValidationRules.definition,
+};
+
+/**
+ * 按映射把一行转换为词汇数据，返回转换结果和错误信息
+ */
+const convertRow = (
+  row: string[],
+  mapping: CsvColumnMapping
+): { item: VocabularyImportItem; errors: string[]; relations: VocabularyRelationRef[] } => {
+  const read = (field: CsvVocabularyField): string => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  const errors: string[] = [];
+
+  (Object.keys(FIELD_RULES) as CsvVocabularyField[]).forEach(field => {
+    errors.push(...validateField(read(field), FIELD_RULES[field]!).errors);
+  });
+
+  const category = matchEnumValue(Object.values(Web3Category), read('category'));
+  if (!category) {
+    errors.push(read('category') ? `无效的分类：${read('category')}` : '分类不能为空');
+  }
+  const difficulty = matchEnumValue(Object.values(DifficultyLevel), read('difficulty'));
+  if (!difficulty) {
+    errors.push(read('difficulty') ? `无效的难度等级：${read('difficulty')}` : '难度等级不能为空');
+  }
+
+  const examples = read('examples').split(/\r?\n/).map(example => example.trim()).filter(Boolean);
+  examples.forEach(example => {
+    errors.push(...validateField(example, VocabularyValidationRules.example).errors);
+  });
+
+  const { relations, errors: relationErrors } = parseRelations(read('relations'));
+  errors.push(...relationErrors);
+
+  const item: VocabularyImportItem = {
+    word: read('word'),
+    definition: read('definition'),
+    englishDefinition: read('englishDefinition') || undefined,
+    pronunciation: read('pronunciation'),
+    category: category ?? Web3Category.BLOCKCHAIN,
+    difficulty: difficulty ?? DifficultyLevel.BEGINNER,
+    tags: read('tags').split(/[,;，；]/).map(tag => tag.trim()).filter(Boolean),
+    examples,
+    isCustom: true,
+    studyCount: 0,
+    accuracy: 0,
+  };
+
+  return { item, errors, relations };
+};
+
+/**
+ * 描述重复原因
+ */
+const describeDuplicate = (match: DuplicateMatch, word: string, line?: number): string => {
+  if (line !== undefined) {
+    return match.type === 'exact' ? `与第 ${line} 行重复` : `与第 ${line} 行的 "${word}" 相似`;
+  }
+  if (match.type === 'exact') return '该单词已存在';
+  return match.type === 'alias' ? `与已有词汇 "${word}" 是同一术语` : `与已有词汇 "${word}" 拼写相近`;
+};
+
+/**
+ * 按列映射校验记录并生成预演报告，不写入任何数据
+ * 与已有词汇或更早的记录同名、互为缩写或拼写相近的记录标记为重复，已有词汇优先
+ */
+export const buildVocabularyImportReport = (
+  records: VocabularyImportRecord[],
+  headers: string[],
+  mapping: CsvColumnMapping,
+  existing: VocabularyItem[]
+): VocabularyImportReport => {
+  const missingFields = REQUIRED_CSV_FIELDS.filter(field => mapping[field] === undefined);
+  const existingTerms = new TermIndex<string>();
+  existing.forEach(item => existingTerms.add(item.id, item.word));
+  const fileTerms = new TermIndex<number>();
+  const report: VocabularyImportRowReport[] = [];
+
+  records.forEach(({ line, values }) => {
+    // 跳过空行
+    if (values.every(value => value.trim() === '')) return;
+
+    const { item, errors, relations } = convertRow(values, mapping);
+    const relationRefs = relations.length > 0 ? { relations } : {};
+
+    if (errors.length > 0) {
+      report.push({ line, word: item.word, status: 'invalid', errors });
+      return;
+    }
+
+    const [existingMatch] = existingTerms.find(item.word);
+    const [earlierMatch] = existingMatch ? [] : fileTerms.find(item.word);
+    const duplicate = existingMatch ?? earlierMatch;
+    if (duplicate) {
+      report.push({
+        line,
+        word: item.word,
+        status: 'duplicate',
+        errors: [describeDuplicate(duplicate.match, duplicate.word, earlierMatch?.key)],
+        duplicateOf: existingMatch ? { existingId: existingMatch.key } : { line: earlierMatch.key },
+        match: duplicate.match,
+        item,
+        ...relationRefs,
+      });
+      return;
+    }
+
+    fileTerms.add(line, item.word);
+    report.push({ line, word: item.word, status: 'valid', errors: [], item, ...relationRefs });
+  });
+
+  const count = (status: VocabularyImportRowReport['status']) => report.filter(row => row.status === status).length;
+  return {
+    headers,
+    mapping,
+    missingFields,
+    rows: report,
+    summary: { total: report.length, valid: count('valid'), invalid: count('invalid'), duplicate: count('duplicate') },
+  };
+};
+
+/**
+ * 生成 CSV 导入预演报告，第一行为表头
+ */
+export const buildCsvImportReport = (
+  text: string,
+  existing: VocabularyItem[],
+  options: CsvImportOptions = {}
+): CsvImportReport => {
+  const { rows, lines, delimiter } = parseCsv(text, { delimiter: options.delimiter });
+  const headers = rows[0] ?? [];
+  const mapping = options.mapping ?? detectCsvColumnMapping(headers);
+  const records = rows.slice(1).map((values, index) => ({ line: lines[index + 1], values }));
+
+  return { ...buildVocabularyImportReport(records, headers, mapping, existing), delimiter };
+};
+
+/**
+ * 把词汇导出为 CSV
+ */
+export const vocabularyToCsv = (vocabulary: VocabularyItem[]): string => {
+  const byId = new Map(vocabulary.map(item => [item.id, item]));
+  return stringifyCsv([
+    EXPORT_COLUMNS.map(column => column.header),
+    ...vocabulary.map(item => EXPORT_COLUMNS.map(column => column.value(item, byId))),
+  ]);
+};
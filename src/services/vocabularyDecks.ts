@@ -0,0 +1,453 @@
+/**
+ * Anki 牌组（.apkg）和 Quizlet TSV 的导入导出
+ * 导入时先把笔记或行按各自的字段映射转换为统一顺序的记录，再复用 CSV 导入的校验和预演报告；
+ * Anki 牌组中的复习记录会换算为学习数据
+ */
+
+import { VocabularyItem, Web3Category, DifficultyLevel } from '@/types';
+import { readZip, createZip } from '@/utils/zip';
+import { openSqliteDatabase, createSqliteDatabase, SqliteRow } from '@/utils/sqlite';
+import {
+  buildVocabularyImportReport,
+  detectCsvColumnMapping,
+  CsvColumnMapping,
+  CsvVocabularyField,
+  CSV_FIELD_LABELS,
+  VocabularyImportRecord,
+  VocabularyImportReport,
+} from './vocabularyCsv';
+import { LearningData } from './storageManager';
+import { formatRelations } from './vocabularyRelations';
+
+/**
+ * 牌组导入选项：来源中没有分类和难度时使用的默认值
+ */
+export interface DeckImportOptions {
+  category?: Web3Category;
+  difficulty?: DifficultyLevel;
+}
+
+/**
+ * 从复习记录换算的学习数据（不含单词ID）
+ */
+export type ImportedLearningData = Omit<LearningData, 'wordId'>;
+
+/**
+ * Anki 牌组导入预演结果
+ */
+export interface AnkiImportPreview {
+  report: VocabularyImportReport;
+  /** 笔记位置（report.rows[].line） -> 学习数据 */
+  learningData: Map<number, ImportedLearningData>;
+}
+
+/** Anki 字段分隔符 */
+const FIELD_SEPARATOR = '\x1f';
+/** Quizlet TSV 中多个例句的分隔符 */
+const QUIZLET_EXAMPLE_SEPARATOR = ' | ';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 转换后记录的字段顺序
+ */
+const RECORD_FIELDS: CsvVocabularyField[] = [
+  'word',
+  'definition',
+  'englishDefinition',
+  'pronunciation',
+  'category',
+  'difficulty',
+  'tags',
+  'examples',
+  'relations',
+];
+const RECORD_MAPPING = Object.fromEntries(RECORD_FIELDS.map((field, index) => [field, index])) as CsvColumnMapping;
+const RECORD_HEADERS = RECORD_FIELDS.map(field => CSV_FIELD_LABELS[field]);
+
+/**
+ * 导出牌组使用的笔记类型和牌组 ID，保持不变以便重复导入时更新同一批笔记
+ */
+const ANKI_MODEL_ID = 1700000000001;
+const ANKI_DECK_ID = 1700000000002;
+const ANKI_DECK_NAME = 'Web3 Vocabulary';
+
+/**
+ * 导出笔记类型的字段，名称可被 detectCsvColumnMapping 识别
+ */
+const ANKI_FIELDS: { name: string; value: (item: VocabularyItem, byId: Map<string, VocabularyItem>) => string }[] = [
+  { name: 'Word', value: item => escapeHtml(item.word) },
+  { name: 'Definition', value: item => escapeHtml(item.definition) },
+  { name: 'English Definition', value: item => escapeHtml(item.englishDefinition ?? '') },
+  { name: 'Pronunciation', value: item => escapeHtml(item.pronunciation) },
+  { name: 'Examples', value: item => item.examples.map(escapeHtml).join('<br>') },
+  { name: 'Category', value: item => item.category },
+  { name: 'Difficulty', value: item => item.difficulty },
+  { name: 'Relations', value: (item, byId) => escapeHtml(formatRelations(item, byId)) },
+];
+
+/**
+ * 旧版 Anki 集合（schema 11）的表结构
+ */
+const ANKI_SCHEMA = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+};
+
+/** 手动改期的复习记录类型，不计入复习次数 */
+const REVLOG_MANUAL = 4;
+
+/**
+ * 掌握程度（1-5）对应的最小复习间隔（天），与固定间隔复习算法一致
+ */
+const MASTERY_INTERVALS = [1, 2, 4, 7, 15];
+
+const createDeckError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'DeckImportError';
+  return error;
+};
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * 把 Anki 字段中的 HTML 转为纯文本，换行标签转为换行
+ */
+export const htmlToText = (html: string): string =>
+  html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const isHex = code[1].toLowerCase() === 'x';
+        return String.fromCodePoint(parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10));
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+
+const matchValue = <T extends string>(values: T[], candidates: string[]): T | undefined =>
+  values.find(value => candidates.some(candidate => candidate.trim().toLowerCase() === value));
+
+/**
+ * 转换为统一顺序的记录；没有分类和难度时依次从标签和默认值中取值
+ */
+const toRecord = (
+  line: number,
+  fields: Partial<Record<CsvVocabularyField, string>>,
+  tags: string[],
+  options: DeckImportOptions
+): VocabularyImportRecord => {
+  const values: Partial<Record<CsvVocabularyField, string>> = {
+    ...fields,
+    category: fields.category?.trim()
+      || matchValue(Object.values(Web3Category), tags)
+      || options.category
+      || Web3Category.BLOCKCHAIN,
+    difficulty: fields.difficulty?.trim()
+      || matchValue(Object.values(DifficultyLevel), tags)
+      || options.difficulty
+      || DifficultyLevel.BEGINNER,
+    tags: fields.tags ?? tags.join(', '),
+  };
+  return { line, values: RECORD_FIELDS.map(field => values[field] ?? '') };
+};
+
+/**
+ * 由复习记录换算学习数据，没有有效复习记录时返回 null
+ */
+const toLearningData = (reviews: SqliteRow[], cards: SqliteRow[]): ImportedLearningData | null => {
+  const counted = reviews.filter(review => Number(review.type) !== REVLOG_MANUAL);
+  if (counted.length === 0 || cards.length === 0) return null;
+
+  // 以复习次数最多的卡片的当前状态为准，学习中的卡片间隔为负数（秒）
+  const card = cards.reduce((best, current) => (Number(current.reps) > Number(best.reps) ? current : best));
+  const intervalDays = Math.max(0, Number(card.ivl) || 0);
+
+  return {
+    studyTime: counted.reduce((total, review) => total + (Number(review.time) || 0), 0),
+    correctRate: counted.filter(review => Number(review.ease) > 1).length / counted.length,
+    reviewCount: counted.length,
+    lastReviewDate: new Date(Math.max(...counted.map(review => Number(review.id)))).toISOString(),
+    masteryLevel: Math.max(1, MASTERY_INTERVALS.filter(days => intervalDays >= days).length),
+    mistakes: [],
+    easeFactor: Number(card.factor) > 0 ? Number(card.factor) / 1000 : undefined,
+    intervalDays,
+  };
+};
+
+const groupBy = (rows: SqliteRow[], column: string): Map<number, SqliteRow[]> => {
+  const groups = new Map<number, SqliteRow[]>();
+  rows.forEach(row => {
+    const key = Number(row[column]);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return groups;
+};
+
+/**
+ * 解析 Anki 牌组（.apkg）并生成导入预演报告
+ * 只支持旧版集合格式（collection.anki2 / collection.anki21），新版 Anki 导出时需勾选兼容旧版本
+ */
+export const parseAnkiPackage = async (
+  data: ArrayBuffer | Uint8Array,
+  existing: VocabularyItem[],
+  options: DeckImportOptions = {}
+): Promise<AnkiImportPreview> => {
+  const files = await readZip(data);
+  const hasLegacyOnlyDummy = files.has('collection.anki21b') && !files.has('collection.anki21');
+  const collection = files.get('collection.anki21') ?? (hasLegacyOnlyDummy ? undefined : files.get('collection.anki2'));
+  if (!collection) {
+    throw createDeckError(hasLegacyOnlyDummy
+      ? '不支持新版 Anki 牌组格式，请在导出时勾选“支持旧版本 Anki”'
+      : '不是有效的 Anki 牌组文件');
+  }
+
+  const db = openSqliteDatabase(collection);
+  const [col] = db.readTable('col');
+  const models: Record<string, { flds: { name: string; ord: number }[] }> = JSON.parse(String(col?.models ?? '{}'));
+  const cardsByNote = groupBy(db.readTable('cards'), 'nid');
+  const reviewsByCard = groupBy(db.readTable('revlog'), 'cid');
+
+  const records: VocabularyImportRecord[] = [];
+  const learningData = new Map<number, ImportedLearningData>();
+
+  db.readTable('notes').forEach((note, index) => {
+    const line = index + 1;
+    const fieldNames = (models[String(note.mid)]?.flds ?? [])
+      .slice()
+      .sort((a, b) => a.ord - b.ord)
+      .map(field => field.name);
+    const values = String(note.flds ?? '').split(FIELD_SEPARATOR).map(htmlToText);
+
+    // 按字段名识别映射，识别不到时按“正面/背面”处理
+    const mapping: CsvColumnMapping = { word: 0, definition: 1, ...detectCsvColumnMapping(fieldNames) };
+    const fields: Partial<Record<CsvVocabularyField, string>> = {};
+    (Object.keys(mapping) as CsvVocabularyField[]).forEach(field => {
+      fields[field] = values[mapping[field]!] ?? '';
+    });
+    // Anki 标签中不能有空格，导出时替换成了下划线
+    const tags = String(note.tags ?? '').split(/\s+/).filter(Boolean);
+    records.push(toRecord(line, fields, tags, options));
+
+    const cards = cardsByNote.get(Number(note.id)) ?? [];
+    const seeded = toLearningData(cards.flatMap(card => reviewsByCard.get(Number(card.id)) ?? []), cards);
+    if (seeded) {
+      learningData.set(line, seeded);
+    }
+  });
+
+  return {
+    report: buildVocabularyImportReport(records, RECORD_HEADERS, RECORD_MAPPING, existing),
+    learningData,
+  };
+};
+
+/**
+ * 计算 Anki 笔记的校验和：第一个字段 SHA-1 的前 8 位十六进制
+ */
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+};
+
+/**
+ * 生成 Anki 牌组（.apkg），每个词汇一张新卡片
+ */
+export const createAnkiPackage = async (vocabulary: VocabularyItem[], now: Date = new Date()): Promise<Uint8Array> => {
+  const nowMs = now.getTime();
+  const nowSeconds = Math.floor(nowMs / 1000);
+  const byId = new Map(vocabulary.map(item => [item.id, item]));
+  const dayStart = new Date(now);
+  dayStart.setHours(0, 0, 0, 0);
+
+  const model = {
+    id: ANKI_MODEL_ID,
+    name: ANKI_DECK_NAME,
+    type: 0,
+    mod: nowSeconds,
+    usn: -1,
+    sortf: 0,
+    did: ANKI_DECK_ID,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '<div class="word">{{Word}}</div><div class="ipa">{{Pronunciation}}</div>',
+      afmt: '{{FrontSide}}<hr id=answer>{{Definition}}<br>{{English Definition}}<div class="examples">{{Examples}}</div>',
+      bqfmt: '',
+      bafmt: '',
+      did: null,
+    }],
+    flds: ANKI_FIELDS.map((field, ord) => ({ name: field.name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: '.card { font-family: arial; font-size: 20px; text-align: center; }\n.word { font-size: 28px; font-weight: bold; }\n.ipa { color: #718096; }\n.examples { margin-top: 12px; font-size: 16px; color: #4a5568; }',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    mod: nowSeconds,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  });
+  const deckConfig = {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+    lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+  };
+  const conf = {
+    activeDecks: [ANKI_DECK_ID],
+    curDeck: ANKI_DECK_ID,
+    curModel: ANKI_MODEL_ID,
+    nextPos: vocabulary.length + 1,
+    estTimes: true,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    timeLim: 0,
+    addToCur: true,
+    newSpread: 0,
+    dueCounts: true,
+    collapseTime: 1200,
+  };
+
+  const notes = await Promise.all(vocabulary.map(async (item, index) => [
+    nowMs + index,
+    item.id,
+    ANKI_MODEL_ID,
+    nowSeconds,
+    -1,
+    item.tags.length > 0 ? ` ${item.tags.map(tag => tag.trim().replace(/\s+/g, '_')).join(' ')} ` : '',
+    ANKI_FIELDS.map(field => field.value(item, byId)).join(FIELD_SEPARATOR),
+    item.word,
+    await fieldChecksum(item.word),
+    0,
+    '',
+  ]));
+  const cards = vocabulary.map((_, index) => [
+    nowMs + index, nowMs + index, ANKI_DECK_ID, 0, nowSeconds, -1, 0, 0, index + 1, 0, 0, 0, 0, 0, 0, 0, 0, '',
+  ]);
+
+  const collection = createSqliteDatabase([
+    {
+      name: 'col',
+      sql: ANKI_SCHEMA.col,
+      rows: [[
+        1,
+        Math.floor(dayStart.getTime() / 1000),
+        nowMs,
+        nowMs,
+        11,
+        0,
+        0,
+        0,
+        JSON.stringify(conf),
+        JSON.stringify({ [ANKI_MODEL_ID]: model }),
+        JSON.stringify({ 1: deck(1, 'Default'), [ANKI_DECK_ID]: deck(ANKI_DECK_ID, ANKI_DECK_NAME) }),
+        JSON.stringify({ 1: deckConfig }),
+        '{}',
+      ]],
+    },
+    { name: 'notes', sql: ANKI_SCHEMA.notes, rows: notes },
+    { name: 'cards', sql: ANKI_SCHEMA.cards, rows: cards },
+    { name: 'revlog', sql: ANKI_SCHEMA.revlog, rows: [] },
+    { name: 'graves', sql: ANKI_SCHEMA.graves, rows: [] },
+  ]);
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: 'collection.anki2', data: collection },
+    { name: 'media', data: encoder.encode('{}') },
+  ]);
+};
+
+/**
+ * 解析 Quizlet 风格的 TSV 并生成导入预演报告
+ * 每行依次为：单词、中文定义，以及可选的英文定义、例句（以“ | ”分隔）、标签（以逗号分隔）、关联词汇；没有表头
+ */
+export const parseQuizletTsv = (
+  text: string,
+  existing: VocabularyItem[],
+  options: DeckImportOptions = {}
+): VocabularyImportReport => {
+  const records = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line, index) => {
+      const [word = '', definition = '', englishDefinition = '', examples = '', tags = '', relations = ''] = line.split('\t');
+      return toRecord(
+        index + 1,
+        {
+          word,
+          definition,
+          englishDefinition,
+          examples: examples.split(QUIZLET_EXAMPLE_SEPARATOR).join('\n'),
+          tags,
+          relations,
+        },
+        tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        options
+      );
+    })
+    .filter(record => record.values[0].trim() !== '' || record.values[1].trim() !== '');
+
+  return buildVocabularyImportReport(records, RECORD_HEADERS, RECORD_MAPPING, existing);
+};
+
+/**
+ * 把词汇导出为 Quizlet 风格的 TSV，末尾为空的列会省略
+ */
+export const vocabularyToQuizletTsv = (vocabulary: VocabularyItem[]): string => {
+  const byId = new Map(vocabulary.map(item => [item.id, item]));
+  return vocabulary
+    .map(item => {
+      const columns = [
+        item.word,
+        item.definition,
+        item.englishDefinition ?? '',
+        item.examples.join(QUIZLET_EXAMPLE_SEPARATOR),
+        item.tags.join(', '),
+        formatRelations(item, byId),
+      ].map(value => value.replace(/[\t\r\n]+/g, ' ').trim());
+      while (columns.length > 2 && columns[columns.length - 1] === '') {
+        columns.pop();
+      }
+      return columns.join('\t');
+    })
+    .join('\n');
+};
@@ -0,0 +1,275 @@
+/**
+ * 词汇查重与合并
+ * 除了忽略大小写和连字符的完全相同，还识别常见缩写（PoS / Proof of Stake）和拼写相近的词条，
+ * 合并时保留两边的例句、标签和学习记录
+ */
+
+import { VocabularyItem } from '@/types';
+import { stringSimilarity } from '@/utils/stringDistance';
+import { normalizeTerm } from './glossaryService';
+import type { VocabularyImportItem } from './vocabularyCsv';
+
+/**
+ * 匹配方式：完全相同、缩写或别名、拼写相近
+ */
+export type DuplicateMatchType = 'exact' | 'alias' | 'fuzzy';
+
+export interface DuplicateMatch {
+  type: DuplicateMatchType;
+  /** 相似度（0-1） */
+  similarity: number;
+}
+
+/**
+ * 与某个词条相似的已有词汇
+ */
+export interface SimilarVocabulary {
+  item: VocabularyItem;
+  match: DuplicateMatch;
+}
+
+/**
+ * 词汇库中的一组疑似重复词汇，target 为较早添加的一条
+ */
+export interface DuplicatePair {
+  target: VocabularyItem;
+  source: VocabularyItem;
+  match: DuplicateMatch;
+}
+
+/**
+ * 合并时保留哪一边的释义
+ */
+export type DefinitionChoice = 'target' | 'source';
+
+export interface VocabularyMergeOptions {
+  definition?: DefinitionChoice;
+}
+
+/**
+ * 导入时对重复行的处理：跳过、合并到已有词汇或作为新词汇导入
+ */
+export interface DuplicateResolution {
+  action: 'skip' | 'merge' | 'import';
+  /** 合并时保留的释义，target 为已有词汇，source 为导入的词汇 */
+  definition?: DefinitionChoice;
+}
+
+export interface ImportResolutionOptions {
+  /** 行号 -> 处理方式，未指定的重复行会被跳过 */
+  resolutions?: Record<number, DuplicateResolution>;
+}
+
+/**
+ * 拼写相近的判定阈值
+ */
+export const FUZZY_SIMILARITY_THRESHOLD = 0.85;
+
+/** 参与拼写相近比较的最短长度，避免短缩写之间误判 */
+const MIN_FUZZY_LENGTH = 5;
+
+/**
+ * 常见 Web3 术语的缩写和别名，每组中的词条视为同一个术语
+ */
+export const TERM_ALIASES: string[][] = [
+  ['proof of stake', 'pos'],
+  ['proof of work', 'pow'],
+  ['delegated proof of stake', 'dpos'],
+  ['decentralized finance', 'defi'],
+  ['non fungible token', 'nft'],
+  ['decentralized autonomous organization', 'dao'],
+  ['automated market maker', 'amm'],
+  ['total value locked', 'tvl'],
+  ['decentralized exchange', 'dex'],
+  ['centralized exchange', 'cex'],
+  ['maximal extractable value', 'miner extractable value', 'mev'],
+  ['zero knowledge proof', 'zk proof', 'zkp'],
+  ['liquidity provider', 'lp'],
+  ['annual percentage yield', 'apy'],
+  ['annual percentage rate', 'apr'],
+  ['ethereum virtual machine', 'evm'],
+  ['layer 1', 'layer one', 'l1'],
+  ['layer 2', 'layer two', 'l2'],
+  ['multi signature', 'multisig'],
+  ['initial coin offering', 'ico'],
+  ['know your customer', 'kyc'],
+  ['bitcoin', 'btc'],
+  ['ethereum', 'eth'],
+];
+
+/** 生成首字母缩写时可以省略的虚词 */
+const STOP_WORDS = new Set(['of', 'the', 'and', 'for', 'to', 'a', 'an', 'on', 'in']);
+
+interface TermKey {
+  compact: string;
+  /** 所属别名组，不在别名表中时为 -1 */
+  aliasGroup: number;
+  /** 单个词时为空；多个词时为首字母缩写（含虚词和不含虚词两种） */
+  initials: string[];
+}
+
+/**
+ * 去掉标点和空格后的紧凑形式，用于判断完全相同
+ */
+export const compactTerm = (word: string): string =>
+  normalizeTerm(word).replace(/[^\p{L}\p{N}]+/gu, '');
+
+const ALIAS_GROUPS = new Map<string, number>(
+  TERM_ALIASES.flatMap((group, index) => group.map(alias => [compactTerm(alias), index] as [string, number]))
+);
+
+const describeTerm = (word: string): TermKey => {
+  const tokens = normalizeTerm(word).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const compact = tokens.join('');
+  const initials = tokens.length > 1
+    ? [...new Set([
+      tokens.map(token => token[0]).join(''),
+      tokens.filter(token => !STOP_WORDS.has(token)).map(token => token[0]).join(''),
+    ])]
+    : [];
+
+  return { compact, aliasGroup: ALIAS_GROUPS.get(compact) ?? -1, initials };
+};
+
+const isAcronymOf = (short: TermKey, long: TermKey): boolean =>
+  short.initials.length === 0 && short.compact.length >= 2 && long.initials.includes(short.compact);
+
+const matchTermKeys = (a: TermKey, b: TermKey, threshold: number): DuplicateMatch | null => {
+  if (!a.compact || !b.compact) return null;
+  if (a.compact === b.compact) return { type: 'exact', similarity: 1 };
+
+  const similarity = stringSimilarity(a.compact, b.compact);
+  if ((a.aliasGroup >= 0 && a.aliasGroup === b.aliasGroup) || isAcronymOf(a, b) || isAcronymOf(b, a)) {
+    return { type: 'alias', similarity };
+  }
+  if (Math.min(a.compact.length, b.compact.length) >= MIN_FUZZY_LENGTH && similarity >= threshold) {
+    return { type: 'fuzzy', similarity };
+  }
+  return null;
+};
+
+const MATCH_RANK: Record<DuplicateMatchType, number> = { exact: 0, alias: 1, fuzzy: 2 };
+
+/**
+ * 匹配结果排序：完全相同优先，其次是别名，最后按相似度从高到低
+ */
+const compareMatches = (a: DuplicateMatch, b: DuplicateMatch): number =>
+  MATCH_RANK[a.type] - MATCH_RANK[b.type] || b.similarity - a.similarity;
+
+/**
+ * 比较两个词条，不重复时返回 null
+ */
+export const matchTerms = (a: string, b: string, threshold = FUZZY_SIMILARITY_THRESHOLD): DuplicateMatch | null =>
+  matchTermKeys(describeTerm(a), describeTerm(b), threshold);
+
+/**
+ * 词条索引，预先计算各词条的比较键，用于批量查重
+ */
+export class TermIndex<K> {
+  private entries: { key: K; word: string; term: TermKey }[] = [];
+
+  constructor(private threshold = FUZZY_SIMILARITY_THRESHOLD) {}
+
+  add(key: K, word: string): void {
+    this.entries.push({ key, word, term: describeTerm(word) });
+  }
+
+  /**
+   * 查找与词条重复的全部记录，按匹配程度排序
+   */
+  find(word: string): { key: K; word: string; match: DuplicateMatch }[] {
+    const term = describeTerm(word);
+    return this.entries
+      .flatMap(entry => {
+        const match = matchTermKeys(term, entry.term, this.threshold);
+        return match ? [{ key: entry.key, word: entry.word, match }] : [];
+      })
+      .sort((a, b) => compareMatches(a.match, b.match));
+  }
+}
+
+/**
+ * 在词汇列表中查找与词条重复或相似的词汇
+ */
+export const findSimilarVocabulary = (
+  word: string,
+  vocabulary: VocabularyItem[],
+  threshold = FUZZY_SIMILARITY_THRESHOLD
+): SimilarVocabulary[] => {
+  const index = new TermIndex<VocabularyItem>(threshold);
+  vocabulary.forEach(item => index.add(item, item.word));
+  return index.find(word).map(({ key, match }) => ({ item: key, match }));
+};
+
+/**
+ * 找出词汇库中两两重复的词汇
+ */
+export const findDuplicatePairs = (
+  vocabulary: VocabularyItem[],
+  threshold = FUZZY_SIMILARITY_THRESHOLD
+): DuplicatePair[] => {
+  const sorted = [...vocabulary].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const terms = sorted.map(item => describeTerm(item.word));
+  const pairs: DuplicatePair[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const match = matchTermKeys(terms[i], terms[j], threshold);
+      if (match) {
+        pairs.push({ target: sorted[i], source: sorted[j], match });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => compareMatches(a.match, b.match));
+};
+
+const uniqueValues = (values: string[], key: (value: string) => string = value => value): string[] => {
+  const seen = new Set<string>();
+  return values
+    .map(value => value.trim())
+    .filter(value => {
+      if (!value || seen.has(key(value))) return false;
+      seen.add(key(value));
+      return true;
+    });
+};
+
+/**
+ * 把 source 合并到 target：合并例句、标签和关系，按选择保留释义，累加学习次数
+ * 结果沿用 target 的 ID
+ */
+export const mergeVocabularyItems = (
+  target: VocabularyItem,
+  source: VocabularyImportItem & Partial<Pick<VocabularyItem, 'id' | 'createdAt'>>,
+  options: VocabularyMergeOptions = {}
+): VocabularyItem => {
+  const [preferred, other] = options.definition === 'source' ? [source, target] : [target, source];
+  const studyCount = target.studyCount + source.studyCount;
+  const accuracy = studyCount > 0
+    ? (target.accuracy * target.studyCount + source.accuracy * source.studyCount) / studyCount
+    : 0;
+  const createdAt = source.createdAt && new Date(source.createdAt) < new Date(target.createdAt)
+    ? source.createdAt
+    : target.createdAt;
+  const relations = [...(target.relations ?? []), ...(source.relations ?? [])].filter((relation, index, all) =>
+    relation.targetId !== target.id
+    && relation.targetId !== source.id
+    && all.findIndex(other => other.type === relation.type && other.targetId === relation.targetId) === index
+  );
+
+  return {
+    ...target,
+    definition: preferred.definition,
+    englishDefinition: preferred.englishDefinition || other.englishDefinition,
+    pronunciation: preferred.pronunciation || other.pronunciation,
+    audioUrl: target.audioUrl ?? source.audioUrl,
+    examples: uniqueValues([...target.examples, ...source.examples]),
+    tags: uniqueValues([...target.tags, ...source.tags], tag => tag.toLowerCase()),
+    ...(relations.length > 0 || target.relations ? { relations } : {}),
+    studyCount,
+    accuracy,
+    createdAt,
+    updatedAt: new Date(),
+  };
+};
@@ -0,0 +1,96 @@
+/**
+ * 词汇掌握度模型
+ * 每次作答按近期加权更新词汇正确率，题型越难权重越高；掌握程度（1-5）由正确率和作答次数决定，
+ * 正确率下降时会降级
+ */
+
+import { QuestionType, VocabularyItem } from '@/types';
+
+/**
+ * 各题型答题结果的权重：判断题可以猜对，权重最低；需要自己写出单词的填空题权重最高
+ */
+export const QUESTION_TYPE_WEIGHTS: Record<QuestionType, number> = {
+  [QuestionType.TRUE_FALSE]: 0.5,
+  [QuestionType.MULTIPLE_CHOICE]: 0.8,
+  [QuestionType.MATCHING]: 0.8,
+  [QuestionType.DRAG_DROP]: 1,
+  [QuestionType.LISTENING]: 1.1,
+  [QuestionType.FILL_BLANK]: 1.2,
+};
+
+/**
+ * 近期作答的最低权重：作答次数较少时按平均值计算，之后每次作答至少占这个比例
+ */
+export const RECENCY_WEIGHT = 0.2;
+
+/** 最低掌握程度 */
+export const MIN_MASTERY_LEVEL = 1;
+/** 最高掌握程度 */
+export const MAX_MASTERY_LEVEL = 5;
+/** 视为已掌握的掌握程度 */
+export const MASTERED_LEVEL = 4;
+/** 视为已掌握的正确率 */
+export const MASTERED_ACCURACY = 0.8;
+/** 视为已掌握前至少需要的作答次数 */
+export const MIN_ANSWERS_FOR_MASTERY = 3;
+
+/**
+ * 达到各掌握程度（从1开始）需要的正确率
+ */
+const LEVEL_ACCURACY = [0, 0.4, 0.6, MASTERED_ACCURACY, 0.9];
+
+/**
+ * 词汇学习状态：未学习、学习中、已掌握
+ */
+export type MasteryStatus = 'new' | 'learning' | 'mastered';
+
+/**
+ * 计算掌握度所需的词汇数据
+ */
+export type MasteryState = Pick<VocabularyItem, 'accuracy' | 'studyCount'>;
+
+/**
+ * 一次作答
+ */
+export interface MasteryAnswer {
+  isCorrect: boolean;
+  questionType: QuestionType;
+}
+
+/**
+ * 按近期加权和题型权重计算作答后的正确率
+ */
+export const updateAccuracy = (state: MasteryState, answer: MasteryAnswer): number => {
+  const weight = Math.min(
+    1,
+    Math.max(1 / (state.studyCount + 1), RECENCY_WEIGHT) * QUESTION_TYPE_WEIGHTS[answer.questionType]
+  );
+  const accuracy = state.accuracy + weight * ((answer.isCorrect ? 1 : 0) - state.accuracy);
+  return Math.round(accuracy * 1000) / 1000;
+};
+
+/**
+ * 应用一次作答，返回新的正确率和作答次数
+ */
+export const applyAnswer = (state: MasteryState, answer: MasteryAnswer): MasteryState => ({
+  accuracy: updateAccuracy(state, answer),
+  studyCount: state.studyCount + 1,
+});
+
+/**
+ * 根据正确率和作答次数计算掌握程度，作答次数不足时不会达到已掌握
+ */
+export const getMasteryLevel = (state: MasteryState): number => {
+  if (state.studyCount === 0) return MIN_MASTERY_LEVEL;
+
+  const level = LEVEL_ACCURACY.filter(threshold => state.accuracy >= threshold).length;
+  return state.studyCount < MIN_ANSWERS_FOR_MASTERY ? Math.min(level, MASTERED_LEVEL - 1) : level;
+};
+
+/**
+ * 获取词汇的学习状态
+ */
+export const getMasteryStatus = (state: MasteryState): MasteryStatus => {
+  if (state.studyCount === 0) return 'new';
+  return getMasteryLevel(state) >= MASTERED_LEVEL ? 'mastered' : 'learning';
+};
@@ -0,0 +1,163 @@
+/**
+ * 词汇关系
+ * 关系只保存在发起方词汇上（如 PoS 是 Proof of Stake 的缩写），查询时同时给出反向关系；
+ * 导入导出时用目标单词代替 ID，以文本形式保存
+ */
+
+import { VocabularyItem, VocabularyRelation, VocabularyRelationType } from '@/types';
+import { compactTerm } from './vocabularyDuplicates';
+
+/**
+ * 关系的显示文本：name 用于编辑和导入导出，label 为从发起方看到的目标，inverseLabel 为从目标看到的发起方
+ */
+export const RELATION_LABELS: Record<VocabularyRelationType, { name: string; label: string; inverseLabel: string }> = {
+  [VocabularyRelationType.ALIAS]: { name: '别名', label: '别名', inverseLabel: '别名' },
+  [VocabularyRelationType.ABBREVIATION_OF]: { name: '缩写', label: '全称', inverseLabel: '缩写' },
+  [VocabularyRelationType.RELATED]: { name: '相关', label: '相关术语', inverseLabel: '相关术语' },
+  [VocabularyRelationType.OPPOSITE]: { name: '反义', label: '反义词', inverseLabel: '反义词' },
+  [VocabularyRelationType.PART_OF]: { name: '组成部分', label: '所属概念', inverseLabel: '组成部分' },
+};
+
+/**
+ * 含义相同、可以互相替代的关系，出题时不能互为干扰项
+ */
+export const INTERCHANGEABLE_RELATIONS: ReadonlySet<VocabularyRelationType> = new Set([
+  VocabularyRelationType.ALIAS,
+  VocabularyRelationType.ABBREVIATION_OF,
+]);
+
+/**
+ * 以单词表示的关系，用于导入导出
+ */
+export interface VocabularyRelationRef {
+  type: VocabularyRelationType;
+  word: string;
+}
+
+/**
+ * 与某个词汇相关联的词汇
+ */
+export interface LinkedTerm {
+  item: VocabularyItem;
+  type: VocabularyRelationType;
+  /** outgoing 表示关系保存在当前词汇上，incoming 表示保存在对方词汇上 */
+  direction: 'outgoing' | 'incoming';
+  label: string;
+}
+
+/** 导入导出文本中关系之间、类型与单词之间的分隔符 */
+const RELATION_SEPARATOR = /[;\n；]/;
+const TYPE_SEPARATOR = /[:：]/;
+
+/**
+ * 查找两个词汇之间的关系（任一方向），没有关系时返回 undefined
+ */
+export const findRelationType = (a: VocabularyItem, b: VocabularyItem): VocabularyRelationType | undefined =>
+  a.relations?.find(relation => relation.targetId === b.id)?.type
+  ?? b.relations?.find(relation => relation.targetId === a.id)?.type;
+
+/**
+ * 列出与词汇相关联的全部词汇，目标已不存在的关系会被忽略
+ */
+export const getLinkedTerms = (item: VocabularyItem, vocabulary: VocabularyItem[]): LinkedTerm[] => {
+  const byId = new Map(vocabulary.map(other => [other.id, other]));
+  const outgoing = (item.relations ?? []).flatMap(relation => {
+    const target = byId.get(relation.targetId);
+    return target && target.id !== item.id
+      ? [{ item: target, type: relation.type, direction: 'outgoing' as const, label: RELATION_LABELS[relation.type].label }]
+      : [];
+  });
+  const incoming = vocabulary.flatMap(other => (other.id === item.id ? [] : (other.relations ?? [])
+    .filter(relation => relation.targetId === item.id)
+    .map(relation => ({
+      item: other,
+      type: relation.type,
+      direction: 'incoming' as const,
+      label: RELATION_LABELS[relation.type].inverseLabel,
+    }))));
+
+  return [...outgoing, ...incoming];
+};
+
+/**
+ * 添加关系，已有相同关系时原样返回
+ */
+export const withRelation = (
+  item: VocabularyItem,
+  type: VocabularyRelationType,
+  targetId: string
+): VocabularyItem => {
+  const relations = item.relations ?? [];
+  if (targetId === item.id || relations.some(relation => relation.type === type && relation.targetId === targetId)) {
+    return item;
+  }
+  return { ...item, relations: [...relations, { type, targetId }] };
+};
+
+/**
+ * 删除满足条件的关系
+ */
+export const withoutRelations = (
+  item: VocabularyItem,
+  predicate: (relation: VocabularyRelation) => boolean
+): VocabularyItem => ({
+  ...item,
+  relations: (item.relations ?? []).filter(relation => !predicate(relation)),
+});
+
+/**
+ * 把关系中的目标 ID 换成单词，目标已不存在的关系会被忽略
+ */
+export const toRelationRefs = (item: VocabularyItem, byId: Map<string, VocabularyItem>): VocabularyRelationRef[] =>
+  (item.relations ?? []).flatMap(relation => {
+    const target = byId.get(relation.targetId);
+    return target ? [{ type: relation.type, word: target.word }] : [];
+  });
+
+/**
+ * 把关系转为文本，如 “abbreviation_of:Proof of Stake; related:Layer 2”
+ */
+export const formatRelations = (item: VocabularyItem, byId: Map<string, VocabularyItem>): string =>
+  toRelationRefs(item, byId)
+    .map(ref => `${ref.type}:${ref.word}`)
+    .join('; ');
+
+const matchRelationType = (raw: string): VocabularyRelationType | undefined => {
+  const value = raw.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return (Object.values(VocabularyRelationType) as VocabularyRelationType[]).find(
+    type => type === value || RELATION_LABELS[type].name === raw.trim()
+  );
+};
+
+/**
+ * 解析关系文本，类型可以是英文值或中文名称（如 “缩写:Proof of Stake”）
+ */
+export const parseRelations = (text: string): { relations: VocabularyRelationRef[]; errors: string[] } => {
+  const relations: VocabularyRelationRef[] = [];
+  const errors: string[] = [];
+
+  text.split(RELATION_SEPARATOR).map(part => part.trim()).filter(Boolean).forEach(part => {
+    const separator = part.search(TYPE_SEPARATOR);
+    const type = separator > 0 ? matchRelationType(part.slice(0, separator)) : undefined;
+    const word = separator > 0 ? part.slice(separator + 1).trim() : '';
+    if (!type || !word) {
+      errors.push(`无效的关联词汇：${part}`);
+      return;
+    }
+    relations.push({ type, word });
+  });
+
+  return { relations, errors };
+};
+
+/**
+ * 创建关系解析函数：按单词把导入的关系解析为词汇 ID，找不到的单词会被忽略
+ */
+export const createRelationResolver = (vocabulary: VocabularyItem[]) => {
+  const idsByTerm = new Map(vocabulary.map(other => [compactTerm(other.word), other.id]));
+  return (item: VocabularyItem, refs: VocabularyRelationRef[]): VocabularyItem =>
+    refs.reduce((result, ref) => {
+      const targetId = idsByTerm.get(compactTerm(ref.word));
+      return targetId ? withRelation(result, ref.type, targetId) : result;
+    }, item);
+};
@@ -0,0 +1,472 @@
+/**
+ * 词汇全文搜索
+ * 对单词、释义、英文释义、例句和标签建立倒排索引，支持前缀匹配、拼写纠错和用拼音搜索中文，
+ * 结果按字段权重和匹配方式打分排序，并给出高亮片段
+ */
+
+import { VocabularyItem } from '@/types';
+import { editDistance } from '@/utils/stringDistance';
+import { getPinyin, isHanChar, matchPinyinSequence, normalizePinyinInput } from '@/utils/pinyin';
+import { compactTerm } from './vocabularyDuplicates';
+
+/**
+ * 参与搜索的字段
+ */
+export type SearchField = 'word' | 'definition' | 'englishDefinition' | 'examples' | 'tags';
+
+/**
+ * 匹配方式：完全相同、前缀、拼写相近、拼音
+ */
+export type SearchMatchType = 'exact' | 'prefix' | 'fuzzy' | 'pinyin';
+
+/**
+ * 高亮片段
+ */
+export interface SearchHighlight {
+  field: SearchField;
+  /** 例句和标签在数组中的下标，其他字段为 0 */
+  index: number;
+  /** 匹配位置附近的文本，较长的文本会被截断 */
+  snippet: string;
+  /** snippet 中需要高亮的区间 [start, end) */
+  ranges: [number, number][];
+}
+
+export interface VocabularySearchResult {
+  item: VocabularyItem;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+export interface VocabularySearchOptions {
+  /** 最多返回的结果数 */
+  limit?: number;
+  /** 是否允许拼写纠错，默认开启 */
+  fuzzy?: boolean;
+  /** 是否用拼音匹配中文，默认开启 */
+  pinyin?: boolean;
+}
+
+/**
+ * 各字段的权重，单词命中排在释义、例句命中之前
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  word: 10,
+  tags: 4,
+  definition: 3,
+  englishDefinition: 2,
+  examples: 1,
+};
+
+const MATCH_WEIGHTS: Record<SearchMatchType, number> = {
+  exact: 1,
+  prefix: 0.7,
+  pinyin: 0.6,
+  fuzzy: 0.5,
+};
+
+/** 片段最大长度 */
+const SNIPPET_LENGTH = 60;
+/** 片段中保留的匹配位置之前的字符数 */
+const SNIPPET_CONTEXT = 16;
+/** 参与拼写纠错的最短长度 */
+const MIN_FUZZY_LENGTH = 4;
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  /** 汉字的读音，其他词为空 */
+  readings?: string[];
+}
+
+/**
+ * 一段被索引的文本，例句和标签每条单独一段
+ */
+interface FieldText {
+  field: SearchField;
+  index: number;
+  text: string;
+  tokens: Token[];
+}
+
+interface Posting {
+  slot: number;
+  position: number;
+}
+
+interface IndexedDocument {
+  item: VocabularyItem;
+  slots: FieldText[];
+  terms: Set<string>;
+  syllables: Set<string>;
+}
+
+interface Hit {
+  slot: number;
+  start: number;
+  end: number;
+  weight: number;
+}
+
+type PostingMap = Map<string, Map<string, Posting[]>>;
+
+/**
+ * 查询中的一个单元：连续的汉字作为短语整体匹配，其他按词匹配
+ */
+type QueryUnit = { kind: 'phrase'; chars: string[] } | { kind: 'term'; text: string };
+
+/** 每个汉字单独成词，其他连续的字母和数字成词 */
+const TOKEN_PATTERN = /\p{Script=Han}|(?:(?!\p{Script=Han})[\p{L}\p{N}])+/gu;
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN_PATTERN), match => {
+    const start = match.index ?? 0;
+    const token: Token = { text: match[0].toLowerCase(), start, end: start + match[0].length };
+    if (isHanChar(match[0])) {
+      token.readings = getPinyin(match[0]);
+    }
+    return token;
+  });
+
+const parseQuery = (query: string): QueryUnit[] => {
+  const units: QueryUnit[] = [];
+  let previous: Token | null = null;
+
+  tokenize(query).forEach(token => {
+    const last = units[units.length - 1];
+    if (token.readings && previous?.readings && previous.end === token.start && last?.kind === 'phrase') {
+      last.chars.push(token.text);
+    } else {
+      units.push(token.readings ? { kind: 'phrase', chars: [token.text] } : { kind: 'term', text: token.text });
+    }
+    previous = token;
+  });
+
+  return units;
+};
+
+const addPosting = (map: PostingMap, key: string, id: string, posting: Posting): void => {
+  let documents = map.get(key);
+  if (!documents) {
+    documents = new Map();
+    map.set(key, documents);
+  }
+  documents.set(id, [...(documents.get(id) ?? []), posting]);
+};
+
+const removePostings = (map: PostingMap, keys: Iterable<string>, id: string): void => {
+  for (const key of keys) {
+    const documents = map.get(key);
+    documents?.delete(id);
+    if (documents?.size === 0) {
+      map.delete(key);
+    }
+  }
+};
+
+const mergeRanges = (ranges: [number, number][]): [number, number][] =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+
+/**
+ * 截取匹配位置附近的片段，并把高亮区间换算到片段中的位置
+ */
+export const createSnippet = (
+  text: string,
+  ranges: [number, number][],
+  maxLength = SNIPPET_LENGTH
+): { snippet: string; ranges: [number, number][] } => {
+  const merged = mergeRanges(ranges);
+  if (text.length <= maxLength) {
+    return { snippet: text, ranges: merged };
+  }
+
+  const first = merged[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(first - SNIPPET_CONTEXT, text.length - maxLength));
+  const end = Math.min(text.length, start + maxLength);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    ranges: merged
+      .filter(([rangeStart, rangeEnd]) => rangeStart < end && rangeEnd > start)
+      .map(([rangeStart, rangeEnd]) => [
+        Math.max(rangeStart, start) - start + prefix.length,
+        Math.min(rangeEnd, end) - start + prefix.length,
+      ]),
+  };
+};
+
+/**
+ * 词汇搜索索引
+ * 增删改词汇时只更新对应词汇的索引项；sync 按对象引用找出变化的词汇，适合配合不可变的词汇列表使用
+ */
+export class VocabularySearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  /** 词或单个汉字 -> 词汇 ID -> 出现位置 */
+  private terms: PostingMap = new Map();
+  /** 汉字读音 -> 词汇 ID -> 出现位置 */
+  private syllables: PostingMap = new Map();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * 添加或更新词汇
+   */
+  add(item: VocabularyItem): void {
+    this.remove(item.id);
+
+    const values: [SearchField, string[]][] = [
+      ['word', [item.word]],
+      ['tags', item.tags],
+      ['definition', [item.definition]],
+      ['englishDefinition', item.englishDefinition ? [item.englishDefinition] : []],
+      ['examples', item.examples],
+    ];
+    const slots = values.flatMap(([field, texts]) =>
+      texts.map((text, index) => ({ field, index, text, tokens: tokenize(text) }))
+    );
+    const document: IndexedDocument = { item, slots, terms: new Set(), syllables: new Set() };
+
+    slots.forEach((slot, slotIndex) => {
+      slot.tokens.forEach((token, position) => {
+        const posting = { slot: slotIndex, position };
+        addPosting(this.terms, token.text, item.id, posting);
+        document.terms.add(token.text);
+        token.readings?.forEach(reading => {
+          addPosting(this.syllables, reading, item.id, posting);
+          document.syllables.add(reading);
+        });
+      });
+    });
+
+    this.documents.set(item.id, document);
+  }
+
+  /**
+   * 删除词汇
+   */
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    removePostings(this.terms, document.terms, id);
+    removePostings(this.syllables, document.syllables, id);
+    this.documents.delete(id);
+  }
+
+  /**
+   * 与词汇列表同步：只重建对象引用变化的词汇，删除列表中已不存在的词汇
+   */
+  sync(items: VocabularyItem[]): this {
+    const current = new Set<string>();
+    items.forEach(item => {
+      current.add(item.id);
+      if (this.documents.get(item.id)?.item !== item) {
+        this.add(item);
+      }
+    });
+    Array.from(this.documents.keys())
+      .filter(id => !current.has(id))
+      .forEach(id => this.remove(id));
+    return this;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.terms.clear();
+    this.syllables.clear();
+  }
+
+  /**
+   * 搜索词汇，查询中的每个词都需要命中，结果按相关度从高到低排序
+   */
+  search(query: string, options: VocabularySearchOptions = {}): VocabularySearchResult[] {
+    const units = parseQuery(query);
+    if (units.length === 0) return [];
+
+    let matched: Map<string, { score: number; hits: Hit[] }> | null = null;
+    for (const unit of units) {
+      const unitHits = unit.kind === 'phrase' ? this.matchPhrase(unit.chars) : this.matchTerm(unit.text, options);
+      const next = new Map<string, { score: number; hits: Hit[] }>();
+
+      unitHits.forEach((hits, id) => {
+        const previous: { score: number; hits: Hit[] } | undefined = matched?.get(id);
+        if (matched && !previous) return;
+        next.set(id, {
+          score: (previous?.score ?? 0) + Math.max(...hits.map(hit => hit.weight)),
+          hits: [...(previous?.hits ?? []), ...hits],
+        });
+      });
+
+      matched = next;
+      if (matched.size === 0) return [];
+    }
+
+    const compactQuery = compactTerm(query);
+    const results = Array.from(matched!.entries()).map(([id, { score, hits }]) => {
+      const document = this.documents.get(id)!;
+      const compactWord = compactTerm(document.item.word);
+      const bonus = compactWord === compactQuery
+        ? SEARCH_FIELD_WEIGHTS.word * 2
+        : compactWord.startsWith(compactQuery) ? SEARCH_FIELD_WEIGHTS.word / 2 : 0;
+
+      return {
+        item: document.item,
+        score: score + bonus,
+        highlights: this.buildHighlights(document, hits),
+      };
+    });
+
+    results.sort((a, b) => b.score - a.score || a.item.word.localeCompare(b.item.word));
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * 连续汉字按短语匹配，需要在同一段文本中依次相邻出现
+   */
+  private matchPhrase(chars: string[]): Map<string, Hit[]> {
+    const result = new Map<string, Hit[]>();
+
+    this.terms.get(chars[0])?.forEach((postings, id) => {
+      const document = this.documents.get(id)!;
+      const hits = postings.flatMap(({ slot, position }) => {
+        const tokens = document.slots[slot].tokens;
+        const matches = chars.every((char, offset) => {
+          const token = tokens[position + offset];
+          return token?.text === char && (offset === 0 || tokens[position + offset - 1].end === token.start);
+        });
+        return matches
+          ? [this.createHit(document, slot, tokens[position].start, tokens[position + chars.length - 1].end, 'exact')]
+          : [];
+      });
+      if (hits.length > 0) {
+        result.set(id, hits);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * 单个词依次按完全相同、前缀、拼写相近和拼音匹配
+   */
+  private matchTerm(text: string, options: VocabularySearchOptions): Map<string, Hit[]> {
+    const result = new Map<string, Hit[]>();
+    const collect = (id: string, hits: Hit[]) => {
+      if (hits.length > 0) {
+        result.set(id, [...(result.get(id) ?? []), ...hits]);
+      }
+    };
+    const collectPostings = (documents: Map<string, Posting[]>, type: SearchMatchType, length?: number, scale = 1) => {
+      documents.forEach((postings, id) => {
+        const document = this.documents.get(id)!;
+        collect(id, postings.map(({ slot, position }) => {
+          const token = document.slots[slot].tokens[position];
+          return this.createHit(document, slot, token.start, token.start + (length ?? token.text.length), type, scale);
+        }));
+      });
+    };
+
+    const maxDistance = text.length >= 8 ? 2 : 1;
+    const fuzzy = options.fuzzy !== false && text.length >= MIN_FUZZY_LENGTH && !/^\d+$/.test(text);
+    this.terms.forEach((documents, term) => {
+      if (term === text) {
+        collectPostings(documents, 'exact');
+      } else if (isHanChar(term)) {
+        return;
+      } else if (text.length >= 2 && term.startsWith(text)) {
+        collectPostings(documents, 'prefix', text.length);
+      } else if (fuzzy && Math.abs(term.length - text.length) <= maxDistance) {
+        const distance = editDistance(text, term, maxDistance);
+        if (distance <= maxDistance) {
+          collectPostings(documents, 'fuzzy', undefined, 1 / distance);
+        }
+      }
+    });
+
+    if (options.pinyin !== false) {
+      this.matchPinyin(normalizePinyinInput(text)).forEach((hits, id) => collect(id, hits));
+    }
+
+    return result;
+  }
+
+  /**
+   * 用拼音匹配连续的汉字，输入可以是全拼、首字母或两者混合
+   * 只匹配一个字时要求输入完整的音节，避免 “d” 之类的输入命中大量汉字
+   */
+  private matchPinyin(input: string): Map<string, Hit[]> {
+    const result = new Map<string, Hit[]>();
+    if (input.length < 2 || !/^[a-z]+$/.test(input)) return result;
+
+    const candidates = new Map<string, Set<string>>();
+    this.syllables.forEach((documents, syllable) => {
+      if (syllable[0] !== input[0]) return;
+      documents.forEach((postings, id) => {
+        const positions = candidates.get(id) ?? new Set<string>();
+        postings.forEach(({ slot, position }) => positions.add(`${slot}:${position}`));
+        candidates.set(id, positions);
+      });
+    });
+
+    candidates.forEach((positions, id) => {
+      const document = this.documents.get(id)!;
+      const hits = Array.from(positions).flatMap(key => {
+        const [slot, position] = key.split(':').map(Number);
+        const tokens = document.slots[slot].tokens;
+        const readings: string[][] = [];
+        for (let index = position; index < tokens.length && readings.length < input.length; index++) {
+          const token = tokens[index];
+          if (!token.readings || (index > position && tokens[index - 1].end !== token.start)) break;
+          readings.push(token.readings);
+        }
+
+        const count = matchPinyinSequence(input, readings);
+        if (count === 0 || (count === 1 && !readings[0].includes(input))) return [];
+        return [this.createHit(document, slot, tokens[position].start, tokens[position + count - 1].end, 'pinyin')];
+      });
+      if (hits.length > 0) {
+        result.set(id, hits);
+      }
+    });
+
+    return result;
+  }
+
+  private createHit(
+    document: IndexedDocument,
+    slot: number,
+    start: number,
+    end: number,
+    type: SearchMatchType,
+    scale = 1
+  ): Hit {
+    return { slot, start, end, weight: SEARCH_FIELD_WEIGHTS[document.slots[slot].field] * MATCH_WEIGHTS[type] * scale };
+  }
+
+  private buildHighlights(document: IndexedDocument, hits: Hit[]): SearchHighlight[] {
+    const bySlot = new Map<number, [number, number][]>();
+    hits.forEach(hit => bySlot.set(hit.slot, [...(bySlot.get(hit.slot) ?? []), [hit.start, hit.end]]));
+
+    return Array.from(bySlot.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([slot, ranges]) => {
+        const { field, index, text } = document.slots[slot];
+        return { field, index, ...createSnippet(text, ranges) };
+      });
+  }
+}
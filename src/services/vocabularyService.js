@@ -1,5 +1,14 @@
 import { VocabularySortBy, SortDirection, } from '@/types';
-import { storageService, StorageKey } from './storage';
+import { vocabularyStore, matchesVocabularyFilter } from './vocabularyStore';
+import { buildCsvImportReport, vocabularyToCsv, CSV_FIELD_LABELS, } from './vocabularyCsv';
+import { parseAnkiPackage, parseQuizletTsv, createAnkiPackage, vocabularyToQuizletTsv, } from './vocabularyDecks';
+import { compactTerm, findSimilarVocabulary, findDuplicatePairs, mergeVocabularyItems, } from './vocabularyDuplicates';
+import { storageManager, STORAGE_KEYS } from './storageManager';
+import { deckService } from './deckService';
+import { wordHistoryService } from './wordHistory';
+import { getMasteryStatus } from './vocabularyMastery';
+import { createRelationResolver, getLinkedTerms, toRelationRefs, withRelation, withoutRelations, } from './vocabularyRelations';
+import { VocabularySearchIndex } from './vocabularySearch';
 export class VocabularyService {
     constructor() {
         Object.defineProperty(this, "cache", {
@@ -8,6 +17,12 @@ export class VocabularyService {
             writable: true,
             value: new Map()
         });
+        Object.defineProperty(this, "searchIndex", {
+            enumerable: true,
+            configurable: true,
+            writable: true,
+            value: new VocabularySearchIndex()
+        });
         Object.defineProperty(this, "isInitialized", {
             enumerable: true,
             configurable: true,
@@ -25,12 +40,10 @@ export class VocabularyService {
         if (this.isInitialized)
             return;
         try {
-            const savedVocabulary = storageService.getItem(StorageKey.VOCABULARY_DATA);
-            if (savedVocabulary) {
-                savedVocabulary.forEach(item => {
-                    this.cache.set(item.id, item);
-                });
-            }
+            const savedVocabulary = await vocabularyStore.getAll();
+            savedVocabulary.forEach(item => {
+                this.cache.set(item.id, item);
+            });
             this.isInitialized = true;
         }
         catch (error) {
@@ -46,17 +59,24 @@ export class VocabularyService {
         await this.initialize();
         return this.cache.get(id) || null;
     }
-    async addVocabulary(vocabulary) {
+    async addVocabulary(vocabulary, options = {}) {
         try {
             await this.initialize();
-            const existingWord = Array.from(this.cache.values()).find(item => item.word.toLowerCase() === vocabulary.word.toLowerCase());
-            if (existingWord) {
+            const [similar] = findSimilarVocabulary(vocabulary.word, Array.from(this.cache.values()));
+            if (similar?.match.type === 'exact') {
                 return {
                     success: false,
                     error: '该单词已存在',
                     message: `单词 "${vocabulary.word}" 已经在词汇库中`,
                 };
             }
+            if (similar && !options.allowSimilar) {
+                return {
+                    success: false,
+                    error: '发现相似词汇',
+                    message: `词汇库中已有相似的单词 "${similar.item.word}"`,
+                };
+            }
             const newVocabulary = {
                 ...vocabulary,
                 id: this.generateId(),
@@ -65,8 +85,8 @@ export class VocabularyService {
                 studyCount: 0,
                 accuracy: 0,
             };
+            await vocabularyStore.put(newVocabulary);
             this.cache.set(newVocabulary.id, newVocabulary);
-            await this.saveToStorage();
             return {
                 success: true,
                 data: newVocabulary,
@@ -96,8 +116,8 @@ export class VocabularyService {
                 ...vocabulary,
                 updatedAt: new Date(),
             };
+            await vocabularyStore.put(updatedVocabulary);
             this.cache.set(vocabulary.id, updatedVocabulary);
-            await this.saveToStorage();
             return {
                 success: true,
                 data: updatedVocabulary,
@@ -123,8 +143,7 @@ export class VocabularyService {
                     message: `ID为 "${id}" 的词汇不存在`,
                 };
             }
-            this.cache.delete(id);
-            await this.saveToStorage();
+            await this.removeVocabulary([id]);
             return {
                 success: true,
                 message: '词汇删除成功',
@@ -139,20 +158,127 @@ export class VocabularyService {
             };
         }
     }
+    async deleteMultipleVocabulary(ids) {
+        try {
+            await this.initialize();
+            const existing = Array.from(new Set(ids)).filter(id => this.cache.has(id));
+            if (existing.length === 0) {
+                return {
+                    success: false,
+                    error: '没有可删除的词汇',
+                };
+            }
+            await this.removeVocabulary(existing);
+            return {
+                success: true,
+                data: existing.length,
+                message: `已删除 ${existing.length} 个词汇`,
+            };
+        }
+        catch (error) {
+            console.error('Failed to delete vocabulary list:', error);
+            return {
+                success: false,
+                error: '批量删除词汇失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
+    async addTags(ids, tags) {
+        try {
+            await this.initialize();
+            const newTags = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+            if (newTags.length === 0) {
+                return {
+                    success: false,
+                    error: '标签不能为空',
+                };
+            }
+            const now = new Date();
+            const updated = ids.flatMap(id => {
+                const item = this.cache.get(id);
+                if (!item)
+                    return [];
+                const merged = Array.from(new Set([...item.tags, ...newTags]));
+                return merged.length === item.tags.length ? [] : [{ ...item, tags: merged, updatedAt: now }];
+            });
+            if (updated.length > 0) {
+                await vocabularyStore.putMany(updated);
+                updated.forEach(item => this.cache.set(item.id, item));
+            }
+            return {
+                success: true,
+                data: updated,
+                message: `已为 ${updated.length} 个词汇添加标签`,
+            };
+        }
+        catch (error) {
+            console.error('Failed to add tags:', error);
+            return {
+                success: false,
+                error: '添加标签失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
+    async getFavoriteIds() {
+        try {
+            return await storageManager.getItem(STORAGE_KEYS.FAVORITE_WORDS, []);
+        }
+        catch (error) {
+            console.error('Failed to get favorite words:', error);
+            return [];
+        }
+    }
+    async setFavorites(ids, favorite) {
+        try {
+            const current = await this.getFavoriteIds();
+            const changed = new Set(ids);
+            const favorites = favorite
+                ? Array.from(new Set([...current, ...ids]))
+                : current.filter(id => !changed.has(id));
+            if (favorites.length !== current.length) {
+                await storageManager.setItem(STORAGE_KEYS.FAVORITE_WORDS, favorites);
+            }
+            return {
+                success: true,
+                data: favorites,
+                message: favorite ? '已添加收藏' : '已取消收藏',
+            };
+        }
+        catch (error) {
+            console.error('Failed to update favorite words:', error);
+            return {
+                success: false,
+                error: '更新收藏失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
     async addMultipleVocabulary(vocabularyList) {
         try {
             await this.initialize();
             const results = [];
             const errors = [];
+            const existingWords = new Set(Array.from(this.cache.values(), item => compactTerm(item.word)));
             for (const vocabulary of vocabularyList) {
-                const result = await this.addVocabulary(vocabulary);
-                if (result.success && result.data) {
-                    results.push(result.data);
-                }
-                else {
-                    errors.push(`${vocabulary.word}: ${result.error}`);
+                const word = compactTerm(vocabulary.word);
+                if (existingWords.has(word)) {
+                    errors.push(`${vocabulary.word}: 该单词已存在`);
+                    continue;
                 }
+                existingWords.add(word);
+                results.push({
+                    ...vocabulary,
+                    id: this.generateId(),
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                    studyCount: 0,
+                    accuracy: 0,
+                });
             }
+            await vocabularyStore.putMany(results);
+            results.forEach(item => this.cache.set(item.id, item));
             return {
                 success: errors.length === 0,
                 data: results,
@@ -170,37 +296,153 @@ export class VocabularyService {
             };
         }
     }
-    async searchVocabulary(filter) {
+    async findSimilarVocabulary(word) {
+        return findSimilarVocabulary(word, await this.getAllVocabulary());
+    }
+    async findDuplicateVocabulary() {
+        return findDuplicatePairs(await this.getAllVocabulary());
+    }
+    async mergeVocabulary(targetId, sourceId, options = {}) {
+        try {
+            await this.initialize();
+            if (targetId === sourceId) {
+                return {
+                    success: false,
+                    error: '不能合并同一个词汇',
+                };
+            }
+            const target = this.cache.get(targetId);
+            const source = this.cache.get(sourceId);
+            if (!target || !source) {
+                return {
+                    success: false,
+                    error: '词汇不存在',
+                    message: `ID为 "${target ? sourceId : targetId}" 的词汇不存在`,
+                };
+            }
+            const merged = mergeVocabularyItems(target, source, options);
+            await vocabularyStore.put(merged);
+            await vocabularyStore.delete(sourceId);
+            this.cache.set(targetId, merged);
+            this.cache.delete(sourceId);
+            await this.retargetRelations(sourceId, targetId);
+            await storageManager.mergeLearningData(targetId, sourceId);
+            return {
+                success: true,
+                data: merged,
+                message: `已将 "${source.word}" 合并到 "${target.word}"`,
+            };
+        }
+        catch (error) {
+            console.error('Failed to merge vocabulary:', error);
+            return {
+                success: false,
+                error: '合并词汇失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
+    async addRelation(sourceId, targetId, type) {
         await this.initialize();
-        let results = Array.from(this.cache.values());
-        if (filter.keyword) {
-            const keyword = filter.keyword.toLowerCase();
-            results = results.filter(item => item.word.toLowerCase().includes(keyword) ||
-                item.definition.toLowerCase().includes(keyword) ||
-                item.englishDefinition?.toLowerCase().includes(keyword) ||
-                item.tags.some(tag => tag.toLowerCase().includes(keyword)));
+        const source = this.cache.get(sourceId);
+        if (!source || !this.cache.has(targetId)) {
+            return {
+                success: false,
+                error: '词汇不存在',
+                message: `ID为 "${source ? targetId : sourceId}" 的词汇不存在`,
+            };
         }
-        if (filter.categories && filter.categories.length > 0) {
-            results = results.filter(item => filter.categories.includes(item.category));
+        if (sourceId === targetId) {
+            return {
+                success: false,
+                error: '不能关联词汇自身',
+            };
         }
-        if (filter.difficulties && filter.difficulties.length > 0) {
-            results = results.filter(item => filter.difficulties.includes(item.difficulty));
+        return this.updateVocabulary(withRelation(source, type, targetId));
+    }
+    async removeRelation(sourceId, targetId, type) {
+        await this.initialize();
+        const source = this.cache.get(sourceId);
+        if (!source) {
+            return {
+                success: false,
+                error: '词汇不存在',
+                message: `ID为 "${sourceId}" 的词汇不存在`,
+            };
         }
-        if (filter.tags && filter.tags.length > 0) {
-            results = results.filter(item => filter.tags.some(tag => item.tags.includes(tag)));
+        return this.updateVocabulary(withoutRelations(source, relation => relation.type === type && relation.targetId === targetId));
+    }
+    async saveStudyStats(items) {
+        await this.initialize();
+        const updated = items.flatMap(({ id, accuracy, studyCount }) => {
+            const item = this.cache.get(id);
+            return item ? [{ ...item, accuracy, studyCount }] : [];
+        });
+        if (updated.length === 0)
+            return [];
+        await vocabularyStore.putMany(updated);
+        updated.forEach(item => this.cache.set(item.id, item));
+        return updated;
+    }
+    async getLinkedTerms(id) {
+        const item = await this.getVocabularyById(id);
+        return item ? getLinkedTerms(item, await this.getAllVocabulary()) : [];
+    }
+    async removeVocabulary(ids) {
+        await vocabularyStore.deleteMany(ids);
+        ids.forEach(id => this.cache.delete(id));
+        for (const id of ids) {
+            await this.retargetRelations(id);
         }
-        if (filter.customOnly) {
-            results = results.filter(item => item.isCustom);
+        await deckService.removeWordsFromAllDecks(ids);
+        await storageManager.removeLearningData(ids);
+        await wordHistoryService.clearHistory(ids);
+        await this.setFavorites(ids, false);
+    }
+    async retargetRelations(fromId, toId) {
+        const changed = [];
+        this.cache.forEach(item => {
+            const affected = item.relations?.filter(relation => relation.targetId === fromId) ?? [];
+            if (affected.length === 0)
+                return;
+            const cleaned = withoutRelations(item, relation => relation.targetId === fromId);
+            changed.push(toId ? affected.reduce((result, relation) => withRelation(result, relation.type, toId), cleaned) : cleaned);
+        });
+        if (changed.length === 0)
+            return;
+        await vocabularyStore.putMany(changed);
+        changed.forEach(item => this.cache.set(item.id, item));
+    }
+    async applyImportedRelations(entries) {
+        const pending = entries.filter(entry => entry.relations.length > 0 && this.cache.has(entry.id));
+        if (pending.length === 0)
+            return;
+        const resolve = createRelationResolver(Array.from(this.cache.values()));
+        const updated = pending.map(entry => resolve(this.cache.get(entry.id), entry.relations));
+        await vocabularyStore.putMany(updated);
+        updated.forEach(item => this.cache.set(item.id, item));
+    }
+    async searchVocabulary(filter) {
+        await this.initialize();
+        if (!filter.keyword?.trim()) {
+            return vocabularyStore.query(filter);
         }
-        return results;
+        const rest = { ...filter, keyword: undefined };
+        return (await this.search(filter.keyword))
+            .map(result => result.item)
+            .filter(item => matchesVocabularyFilter(item, rest));
+    }
+    async search(query, options) {
+        await this.initialize();
+        return this.searchIndex.sync(Array.from(this.cache.values())).search(query, options);
     }
     async getVocabularyStats() {
         await this.initialize();
         const vocabulary = Array.from(this.cache.values());
         const total = vocabulary.length;
-        const mastered = vocabulary.filter(item => item.accuracy >= 0.8).length;
-        const learning = vocabulary.filter(item => item.accuracy > 0 && item.accuracy < 0.8).length;
-        const notStarted = vocabulary.filter(item => item.accuracy === 0).length;
+        const mastered = vocabulary.filter(item => getMasteryStatus(item) === 'mastered').length;
+        const learning = vocabulary.filter(item => getMasteryStatus(item) === 'learning').length;
+        const notStarted = vocabulary.filter(item => getMasteryStatus(item) === 'new').length;
         const byCategory = vocabulary.reduce((acc, item) => {
             acc[item.category] = (acc[item.category] || 0) + 1;
             return acc;
@@ -235,6 +477,8 @@ export class VocabularyService {
                 case VocabularySortBy.STUDY_COUNT:
                     comparison = a.studyCount - b.studyCount;
                     break;
+                case VocabularySortBy.RELEVANCE:
+                    break;
                 case VocabularySortBy.CREATED_AT:
                 default:
                     comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -281,7 +525,8 @@ export class VocabularyService {
         try {
             const vocabulary = await this.getAllVocabulary();
             if (format === 'json') {
-                const jsonData = JSON.stringify(vocabulary, null, 2);
+                const byId = new Map(vocabulary.map(item => [item.id, item]));
+                const jsonData = JSON.stringify(vocabulary.map(item => (item.relations ? { ...item, relations: toRelationRefs(item, byId) } : item)), null, 2);
                 return {
                     success: true,
                     data: jsonData,
@@ -289,29 +534,20 @@ export class VocabularyService {
                 };
             }
             else if (format === 'csv') {
-                const csvHeader = 'Word,Definition,English Definition,Pronunciation,Category,Difficulty,Tags,Examples,Study Count,Accuracy,Is Custom,Created At,Updated At\n';
-                const csvRows = vocabulary.map(item => [
-                    item.word,
-                    `"${item.definition.replace(/"/g, '""')}"`,
-                    `"${item.englishDefinition?.replace(/"/g, '""') || ''}"`,
-                    item.pronunciation,
-                    item.category,
-                    item.difficulty,
-                    `"${item.tags.join(', ')}"`,
-                    `"${item.examples.join('; ').replace(/"/g, '""')}"`,
-                    item.studyCount,
-                    item.accuracy,
-                    item.isCustom,
-                    item.createdAt.toISOString(),
-                    item.updatedAt.toISOString(),
-                ].join(','));
-                const csvData = csvHeader + csvRows.join('\n');
+                const csvData = vocabularyToCsv(vocabulary);
                 return {
                     success: true,
                     data: csvData,
                     message: '词汇数据导出成功',
                 };
             }
+            else if (format === 'tsv') {
+                return {
+                    success: true,
+                    data: vocabularyToQuizletTsv(vocabulary),
+                    message: '词汇数据导出成功',
+                };
+            }
             return {
                 success: false,
                 error: '不支持的导出格式',
@@ -326,36 +562,62 @@ export class VocabularyService {
             };
         }
     }
-    async importVocabulary(data, format = 'json') {
+    async previewCsvImport(data, options = {}) {
         try {
-            let vocabularyList = [];
-            if (format === 'json') {
-                const parsed = JSON.parse(data);
-                vocabularyList = Array.isArray(parsed) ? parsed : [parsed];
+            const report = buildCsvImportReport(data, await this.getAllVocabulary(), options);
+            return {
+                success: true,
+                data: report,
+            };
+        }
+        catch (error) {
+            console.error('Failed to preview vocabulary import:', error);
+            return {
+                success: false,
+                error: '解析CSV文件失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
+    async exportAnkiPackage() {
+        try {
+            const data = await createAnkiPackage(await this.getAllVocabulary());
+            return {
+                success: true,
+                data,
+                message: '词汇数据导出成功',
+            };
+        }
+        catch (error) {
+            console.error('Failed to export Anki package:', error);
+            return {
+                success: false,
+                error: '导出Anki牌组失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
+    async importVocabulary(data, format = 'json', options = {}) {
+        try {
+            if (format === 'csv') {
+                const report = buildCsvImportReport(data, await this.getAllVocabulary(), options);
+                return await this.importFromReport(report, undefined, options.resolutions);
             }
-            else if (format === 'csv') {
-                const lines = data.split('\n');
-                const headers = lines[0].split(',');
-                for (let i = 1; i < lines.length; i++) {
-                    const values = lines[i].split(',');
-                    if (values.length >= headers.length) {
-                        vocabularyList.push({
-                            word: values[0],
-                            definition: values[1].replace(/^"|"$/g, '').replace(/""/g, '"'),
-                            englishDefinition: values[2].replace(/^"|"$/g, '').replace(/""/g, '"') || undefined,
-                            pronunciation: values[3],
-                            category: values[4],
-                            difficulty: values[5],
-                            tags: values[6].replace(/^"|"$/g, '').split(', ').filter(Boolean),
-                            examples: values[7].replace(/^"|"$/g, '').replace(/""/g, '"').split('; ').filter(Boolean),
-                            studyCount: parseInt(values[8]) || 0,
-                            accuracy: parseFloat(values[9]) || 0,
-                            isCustom: values[10] === 'true',
-                        });
-                    }
-                }
+            if (format === 'tsv') {
+                const report = parseQuizletTsv(data, await this.getAllVocabulary(), options);
+                return await this.importFromReport(report, undefined, options.resolutions);
             }
-            const result = await this.addMultipleVocabulary(vocabularyList);
+            const parsed = JSON.parse(data);
+            const entries = Array.isArray(parsed) ? parsed : [parsed];
+            const relationsByTerm = new Map(entries.map(({ word, relations }) => [
+                compactTerm(String(word ?? '')),
+                (relations ?? []).filter((ref) => typeof ref?.word === 'string'),
+            ]));
+            const result = await this.addMultipleVocabulary(entries.map(entry => ({ ...entry, relations: undefined })));
+            await this.applyImportedRelations((result.data ?? []).map(item => ({
+                id: item.id,
+                relations: relationsByTerm.get(compactTerm(item.word)) ?? [],
+            })));
             return {
                 success: result.success,
                 data: result.data?.length || 0,
@@ -371,10 +633,78 @@ export class VocabularyService {
             };
         }
     }
+    async importAnkiPackage(data, options = {}) {
+        try {
+            const { report, learningData } = await parseAnkiPackage(data, await this.getAllVocabulary(), options);
+            return await this.importFromReport(report, learningData, options.resolutions);
+        }
+        catch (error) {
+            console.error('Failed to import Anki package:', error);
+            return {
+                success: false,
+                error: '导入Anki牌组失败',
+                message: error instanceof Error ? error.message : '未知错误',
+            };
+        }
+    }
+    async importFromReport(report, learningData, resolutions = {}) {
+        if (report.missingFields.length > 0) {
+            return {
+                success: false,
+                error: '导入词汇数据失败',
+                message: `缺少必填列：${report.missingFields.map(field => CSV_FIELD_LABELS[field]).join('、')}`,
+            };
+        }
+        const resolutionOf = (row) => row.status === 'duplicate' && row.item ? resolutions[row.line]?.action ?? 'skip' : undefined;
+        const addedRows = report.rows.filter(row => (row.status === 'valid' && row.item) || resolutionOf(row) === 'import');
+        const mergedRows = report.rows.filter(row => resolutionOf(row) === 'merge' && row.duplicateOf?.existingId);
+        const result = await this.addMultipleVocabulary(addedRows.map(row => row.item));
+        const imported = result.data ?? [];
+        const idsByTerm = new Map(imported.map(item => [compactTerm(item.word), item.id]));
+        const seededRecords = addedRows.flatMap(row => {
+            const wordId = idsByTerm.get(compactTerm(row.word));
+            const seeded = learningData?.get(row.line);
+            return wordId && seeded ? [{ ...seeded, wordId }] : [];
+        });
+        const mergedRecords = [];
+        let mergedCount = 0;
+        for (const row of mergedRows) {
+            const target = this.cache.get(row.duplicateOf.existingId);
+            if (!target)
+                continue;
+            const merged = mergeVocabularyItems(target, row.item, { definition: resolutions[row.line]?.definition });
+            await vocabularyStore.put(merged);
+            this.cache.set(merged.id, merged);
+            mergedCount++;
+            const seeded = learningData?.get(row.line);
+            if (seeded)
+                mergedRecords.push({ ...seeded, wordId: merged.id });
+        }
+        await this.applyImportedRelations([
+            ...addedRows.map(row => ({ id: idsByTerm.get(compactTerm(row.word)) ?? '', relations: row.relations ?? [] })),
+            ...mergedRows.map(row => ({ id: row.duplicateOf.existingId, relations: row.relations ?? [] })),
+        ]);
+        if (seededRecords.length > 0) {
+            await storageManager.importLearningData(seededRecords);
+        }
+        if (mergedRecords.length > 0) {
+            await storageManager.importLearningData(mergedRecords, true);
+        }
+        const skippedDuplicates = report.summary.duplicate - (addedRows.length - report.summary.valid) - mergedCount;
+        const skipped = report.summary.invalid + skippedDuplicates;
+        const mergedMessage = mergedCount > 0 ? `，合并 ${mergedCount} 个重复词汇` : '';
+        return {
+            success: result.success,
+            data: imported.length,
+            message: result.success && (skipped > 0 || mergedCount > 0)
+                ? `成功导入 ${imported.length} 个词汇${mergedMessage}，跳过 ${report.summary.invalid} 行无效数据和 ${skippedDuplicates} 个重复词汇`
+                : result.message,
+        };
+    }
     async clearAllVocabulary() {
         try {
+            await vocabularyStore.clear();
             this.cache.clear();
-            await this.saveToStorage();
             return {
                 success: true,
                 message: '所有词汇已清空',
@@ -392,9 +722,5 @@ export class VocabularyService {
     generateId() {
         return `vocab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     }
-    async saveToStorage() {
-        const vocabulary = Array.from(this.cache.values());
-        storageService.setItem(StorageKey.VOCABULARY_DATA, vocabulary);
-    }
 }
 export const vocabularyService = VocabularyService.getInstance();
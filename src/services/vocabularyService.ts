@@ -6,11 +6,52 @@ import {
   SortDirection,
   Web3Category,
   DifficultyLevel,
+  VocabularyRelationType,
   BaseApiResponse,
   VocabularyApiResponse,
   OperationResult,
 } from '@/types';
-import { storageService, StorageKey } from './storage';
+import { vocabularyStore, matchesVocabularyFilter } from './vocabularyStore';
+import {
+  buildCsvImportReport,
+  vocabularyToCsv,
+  CsvImportOptions,
+  CsvImportReport,
+  VocabularyImportReport,
+  CSV_FIELD_LABELS,
+} from './vocabularyCsv';
+import {
+  parseAnkiPackage,
+  parseQuizletTsv,
+  createAnkiPackage,
+  vocabularyToQuizletTsv,
+  DeckImportOptions,
+  ImportedLearningData,
+} from './vocabularyDecks';
+import {
+  compactTerm,
+  findSimilarVocabulary,
+  findDuplicatePairs,
+  mergeVocabularyItems,
+  DuplicatePair,
+  ImportResolutionOptions,
+  SimilarVocabulary,
+  VocabularyMergeOptions,
+} from './vocabularyDuplicates';
+import { storageManager, LearningData, STORAGE_KEYS } from './storageManager';
+import { deckService } from './deckService';
+import { wordHistoryService } from './wordHistory';
+import { getMasteryStatus } from './vocabularyMastery';
+import {
+  createRelationResolver,
+  getLinkedTerms,
+  toRelationRefs,
+  withRelation,
+  withoutRelations,
+  LinkedTerm,
+  VocabularyRelationRef,
+} from './vocabularyRelations';
+import { VocabularySearchIndex, VocabularySearchOptions, VocabularySearchResult } from './vocabularySearch';
 
 /**
  * 词汇数据服务类
@@ -19,6 +60,7 @@ import { storageService, StorageKey } from './storage';
 export class VocabularyService {
   private static instance: VocabularyService;
   private cache: Map<string, VocabularyItem> = new Map();
+  private searchIndex = new VocabularySearchIndex();
   private isInitialized = false;
 
   /**
@@ -38,12 +80,10 @@ export class VocabularyService {
     if (this.isInitialized) return;
 
     try {
-      const savedVocabulary = storageService.getItem<VocabularyItem[]>(StorageKey.VOCABULARY_DATA);
-      if (savedVocabulary) {
-        savedVocabulary.forEach(item => {
-          this.cache.set(item.id, item);
-        });
-      }
+      const savedVocabulary = await vocabularyStore.getAll();
+      savedVocabulary.forEach(item => {
+        this.cache.set(item.id, item);
+      });
       this.isInitialized = true;
     } catch (error) {
       console.error('Failed to initialize vocabulary service:', error);
@@ -69,17 +109,19 @@ export class VocabularyService {
 
   /**
    * 添加词汇
+   * 同名词汇（忽略大小写、空格和标点）直接拒绝；缩写或拼写相近的词汇需要传入 allowSimilar 确认后才会添加
    */
-  async addVocabulary(vocabulary: Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>): Promise<OperationResult<VocabularyItem>> {
+  async addVocabulary(
+    vocabulary: Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>,
+    options: { allowSimilar?: boolean } = {}
+  ): Promise<OperationResult<VocabularyItem>> {
     try {
       await this.initialize();
 
-      // 检查是否已存在相同单词
-      const existingWord = Array.from(this.cache.values()).find(
-        item => item.word.toLowerCase() === vocabulary.word.toLowerCase()
-      );
+      // 检查是否已存在相同或相似的单词
+      const [similar] = findSimilarVocabulary(vocabulary.word, Array.from(this.cache.values()));
 
-      if (existingWord) {
+      if (similar?.match.type === 'exact') {
         return {
           success: false,
           error: '该单词已存在',
@@ -87,6 +129,14 @@ export class VocabularyService {
         };
       }
 
+      if (similar && !options.allowSimilar) {
+        return {
+          success: false,
+          error: '发现相似词汇',
+          message: `词汇库中已有相似的单词 "${similar.item.word}"`,
+        };
+      }
+
       // 创建新词汇项
       const newVocabulary: VocabularyItem = {
         ...vocabulary,
@@ -97,12 +147,12 @@ export class VocabularyService {
         accuracy: 0,
       };
 
+      // 保存到存储
+      await vocabularyStore.put(newVocabulary);
+
       // 添加到缓存
       this.cache.set(newVocabulary.id, newVocabulary);
 
-      // 保存到存储
-      await this.saveToStorage();
-
       return {
         success: true,
         data: newVocabulary,
@@ -139,12 +189,12 @@ export class VocabularyService {
         updatedAt: new Date(),
       };
 
+      // 保存到存储
+      await vocabularyStore.put(updatedVocabulary);
+
       // 更新缓存
       this.cache.set(vocabulary.id, updatedVocabulary);
 
-      // 保存到存储
-      await this.saveToStorage();
-
       return {
         success: true,
         data: updatedVocabulary,
@@ -175,11 +225,7 @@ export class VocabularyService {
         };
       }
 
-      // 从缓存中删除
-      this.cache.delete(id);
-
-      // 保存到存储
-      await this.saveToStorage();
+      await this.removeVocabulary([id]);
 
       return {
         success: true,
@@ -195,6 +241,123 @@ export class VocabularyService {
     }
   }
 
+  /**
+   * 批量删除词汇，不存在的ID会被忽略
+   */
+  async deleteMultipleVocabulary(ids: string[]): Promise<OperationResult<number>> {
+    try {
+      await this.initialize();
+
+      const existing = Array.from(new Set(ids)).filter(id => this.cache.has(id));
+      if (existing.length === 0) {
+        return {
+          success: false,
+          error: '没有可删除的词汇',
+        };
+      }
+
+      await this.removeVocabulary(existing);
+
+      return {
+        success: true,
+        data: existing.length,
+        message: `已删除 ${existing.length} 个词汇`,
+      };
+    } catch (error) {
+      console.error('Failed to delete vocabulary list:', error);
+      return {
+        success: false,
+        error: '批量删除词汇失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 给多个词汇添加标签，已有的标签不会重复添加
+   */
+  async addTags(ids: string[], tags: string[]): Promise<OperationResult<VocabularyItem[]>> {
+    try {
+      await this.initialize();
+
+      const newTags = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+      if (newTags.length === 0) {
+        return {
+          success: false,
+          error: '标签不能为空',
+        };
+      }
+
+      const now = new Date();
+      const updated = ids.flatMap(id => {
+        const item = this.cache.get(id);
+        if (!item) return [];
+        const merged = Array.from(new Set([...item.tags, ...newTags]));
+        return merged.length === item.tags.length ? [] : [{ ...item, tags: merged, updatedAt: now }];
+      });
+
+      if (updated.length > 0) {
+        await vocabularyStore.putMany(updated);
+        updated.forEach(item => this.cache.set(item.id, item));
+      }
+
+      return {
+        success: true,
+        data: updated,
+        message: `已为 ${updated.length} 个词汇添加标签`,
+      };
+    } catch (error) {
+      console.error('Failed to add tags:', error);
+      return {
+        success: false,
+        error: '添加标签失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 获取收藏的词汇ID
+   */
+  async getFavoriteIds(): Promise<string[]> {
+    try {
+      return await storageManager.getItem<string[]>(STORAGE_KEYS.FAVORITE_WORDS, []);
+    } catch (error) {
+      console.error('Failed to get favorite words:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 批量收藏或取消收藏词汇，返回更新后的收藏列表
+   */
+  async setFavorites(ids: string[], favorite: boolean): Promise<OperationResult<string[]>> {
+    try {
+      const current = await this.getFavoriteIds();
+      const changed = new Set(ids);
+      const favorites = favorite
+        ? Array.from(new Set([...current, ...ids]))
+        : current.filter(id => !changed.has(id));
+
+      if (favorites.length !== current.length) {
+        await storageManager.setItem(STORAGE_KEYS.FAVORITE_WORDS, favorites);
+      }
+
+      return {
+        success: true,
+        data: favorites,
+        message: favorite ? '已添加收藏' : '已取消收藏',
+      };
+    } catch (error) {
+      console.error('Failed to update favorite words:', error);
+      return {
+        success: false,
+        error: '更新收藏失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
   /**
    * 批量添加词汇
    */
@@ -204,16 +367,30 @@ export class VocabularyService {
 
       const results: VocabularyItem[] = [];
       const errors: string[] = [];
+      const existingWords = new Set(Array.from(this.cache.values(), item => compactTerm(item.word)));
 
       for (const vocabulary of vocabularyList) {
-        const result = await this.addVocabulary(vocabulary);
-        if (result.success && result.data) {
-          results.push(result.data);
-        } else {
-          errors.push(`${vocabulary.word}: ${result.error}`);
+        const word = compactTerm(vocabulary.word);
+        if (existingWords.has(word)) {
+          errors.push(`${vocabulary.word}: 该单词已存在`);
+          continue;
         }
+
+        existingWords.add(word);
+        results.push({
+          ...vocabulary,
+          id: this.generateId(),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          studyCount: 0,
+          accuracy: 0,
+        });
       }
 
+      // 一次性写入，避免逐条保存
+      await vocabularyStore.putMany(results);
+      results.forEach(item => this.cache.set(item.id, item));
+
       return {
         success: errors.length === 0,
         data: results,
@@ -232,47 +409,218 @@ export class VocabularyService {
   }
 
   /**
-   * 搜索词汇
+   * 查找与单词相同、互为缩写或拼写相近的已有词汇
    */
-  async searchVocabulary(filter: VocabularyFilter): Promise<VocabularyItem[]> {
-    await this.initialize();
-    
-    let results = Array.from(this.cache.values());
-
-    // 关键词过滤
-    if (filter.keyword) {
-      const keyword = filter.keyword.toLowerCase();
-      results = results.filter(item =>
-        item.word.toLowerCase().includes(keyword) ||
-        item.definition.toLowerCase().includes(keyword) ||
-        item.englishDefinition?.toLowerCase().includes(keyword) ||
-        item.tags.some(tag => tag.toLowerCase().includes(keyword))
-      );
+  async findSimilarVocabulary(word: string): Promise<SimilarVocabulary[]> {
+    return findSimilarVocabulary(word, await this.getAllVocabulary());
+  }
+
+  /**
+   * 找出词汇库中疑似重复的词汇对
+   */
+  async findDuplicateVocabulary(): Promise<DuplicatePair[]> {
+    return findDuplicatePairs(await this.getAllVocabulary());
+  }
+
+  /**
+   * 把 source 合并到 target 后删除 source
+   * 例句和标签取并集，释义按选择保留，两边的学习记录都转到 target
+   */
+  async mergeVocabulary(
+    targetId: string,
+    sourceId: string,
+    options: VocabularyMergeOptions = {}
+  ): Promise<OperationResult<VocabularyItem>> {
+    try {
+      await this.initialize();
+
+      if (targetId === sourceId) {
+        return {
+          success: false,
+          error: '不能合并同一个词汇',
+        };
+      }
+
+      const target = this.cache.get(targetId);
+      const source = this.cache.get(sourceId);
+      if (!target || !source) {
+        return {
+          success: false,
+          error: '词汇不存在',
+          message: `ID为 "${target ? sourceId : targetId}" 的词汇不存在`,
+        };
+      }
+
+      const merged = mergeVocabularyItems(target, source, options);
+      await vocabularyStore.put(merged);
+      await vocabularyStore.delete(sourceId);
+      this.cache.set(targetId, merged);
+      this.cache.delete(sourceId);
+      await this.retargetRelations(sourceId, targetId);
+      await storageManager.mergeLearningData(targetId, sourceId);
+
+      return {
+        success: true,
+        data: merged,
+        message: `已将 "${source.word}" 合并到 "${target.word}"`,
+      };
+    } catch (error) {
+      console.error('Failed to merge vocabulary:', error);
+      return {
+        success: false,
+        error: '合并词汇失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
     }
+  }
 
-    // 分类过滤
-    if (filter.categories && filter.categories.length > 0) {
-      results = results.filter(item => filter.categories!.includes(item.category));
+  /**
+   * 添加词汇关系，关系保存在 source 上
+   */
+  async addRelation(
+    sourceId: string,
+    targetId: string,
+    type: VocabularyRelationType
+  ): Promise<OperationResult<VocabularyItem>> {
+    await this.initialize();
+
+    const source = this.cache.get(sourceId);
+    if (!source || !this.cache.has(targetId)) {
+      return {
+        success: false,
+        error: '词汇不存在',
+        message: `ID为 "${source ? targetId : sourceId}" 的词汇不存在`,
+      };
+    }
+    if (sourceId === targetId) {
+      return {
+        success: false,
+        error: '不能关联词汇自身',
+      };
     }
 
-    // 难度过滤
-    if (filter.difficulties && filter.difficulties.length > 0) {
-      results = results.filter(item => filter.difficulties!.includes(item.difficulty));
+    return this.updateVocabulary(withRelation(source, type, targetId));
+  }
+
+  /**
+   * 删除 source 上指向 target 的关系
+   */
+  async removeRelation(
+    sourceId: string,
+    targetId: string,
+    type: VocabularyRelationType
+  ): Promise<OperationResult<VocabularyItem>> {
+    await this.initialize();
+
+    const source = this.cache.get(sourceId);
+    if (!source) {
+      return {
+        success: false,
+        error: '词汇不存在',
+        message: `ID为 "${sourceId}" 的词汇不存在`,
+      };
     }
 
-    // 标签过滤
-    if (filter.tags && filter.tags.length > 0) {
-      results = results.filter(item =>
-        filter.tags!.some(tag => item.tags.includes(tag))
-      );
+    return this.updateVocabulary(
+      withoutRelations(source, relation => relation.type === type && relation.targetId === targetId)
+    );
+  }
+
+  /**
+   * 保存练习后更新的正确率和作答次数，不修改词汇的更新时间
+   */
+  async saveStudyStats(items: Pick<VocabularyItem, 'id' | 'accuracy' | 'studyCount'>[]): Promise<VocabularyItem[]> {
+    await this.initialize();
+
+    const updated = items.flatMap(({ id, accuracy, studyCount }) => {
+      const item = this.cache.get(id);
+      return item ? [{ ...item, accuracy, studyCount }] : [];
+    });
+    if (updated.length === 0) return [];
+
+    await vocabularyStore.putMany(updated);
+    updated.forEach(item => this.cache.set(item.id, item));
+    return updated;
+  }
+
+  /**
+   * 获取与词汇相关联的词汇（包括保存在对方词汇上的反向关系）
+   */
+  async getLinkedTerms(id: string): Promise<LinkedTerm[]> {
+    const item = await this.getVocabularyById(id);
+    return item ? getLinkedTerms(item, await this.getAllVocabulary()) : [];
+  }
+
+  /**
+   * 删除词汇及其关联数据：其他词汇指向它的关系、卡组中的位置、学习数据、学习事件和收藏
+   * 进度中的已掌握和薄弱列表由进度上下文监听词汇删除后清理
+   */
+  private async removeVocabulary(ids: string[]): Promise<void> {
+    await vocabularyStore.deleteMany(ids);
+    ids.forEach(id => this.cache.delete(id));
+
+    for (const id of ids) {
+      await this.retargetRelations(id);
     }
+    await deckService.removeWordsFromAllDecks(ids);
+    await storageManager.removeLearningData(ids);
+    await wordHistoryService.clearHistory(ids);
+    await this.setFavorites(ids, false);
+  }
 
-    // 自定义词汇过滤
-    if (filter.customOnly) {
-      results = results.filter(item => item.isCustom);
+  /**
+   * 把指向 fromId 的关系改为指向 toId，不传 toId 时直接删除这些关系
+   */
+  private async retargetRelations(fromId: string, toId?: string): Promise<void> {
+    const changed: VocabularyItem[] = [];
+    this.cache.forEach(item => {
+      const affected = item.relations?.filter(relation => relation.targetId === fromId) ?? [];
+      if (affected.length === 0) return;
+
+      const cleaned = withoutRelations(item, relation => relation.targetId === fromId);
+      changed.push(toId ? affected.reduce((result, relation) => withRelation(result, relation.type, toId), cleaned) : cleaned);
+    });
+    if (changed.length === 0) return;
+
+    await vocabularyStore.putMany(changed);
+    changed.forEach(item => this.cache.set(item.id, item));
+  }
+
+  /**
+   * 导入完成后按单词写入关联词汇，单词可以指向同一批导入的词汇
+   */
+  private async applyImportedRelations(entries: { id: string; relations: VocabularyRelationRef[] }[]): Promise<void> {
+    const pending = entries.filter(entry => entry.relations.length > 0 && this.cache.has(entry.id));
+    if (pending.length === 0) return;
+
+    const resolve = createRelationResolver(Array.from(this.cache.values()));
+    const updated = pending.map(entry => resolve(this.cache.get(entry.id)!, entry.relations));
+    await vocabularyStore.putMany(updated);
+    updated.forEach(item => this.cache.set(item.id, item));
+  }
+
+  /**
+   * 搜索词汇
+   * 有关键词时按相关度排序，其他条件在搜索结果中过滤
+   */
+  async searchVocabulary(filter: VocabularyFilter): Promise<VocabularyItem[]> {
+    await this.initialize();
+    if (!filter.keyword?.trim()) {
+      return vocabularyStore.query(filter);
     }
 
-    return results;
+    const rest = { ...filter, keyword: undefined };
+    return (await this.search(filter.keyword))
+      .map(result => result.item)
+      .filter(item => matchesVocabularyFilter(item, rest));
+  }
+
+  /**
+   * 全文搜索，返回相关度和高亮片段
+   */
+  async search(query: string, options?: VocabularySearchOptions): Promise<VocabularySearchResult[]> {
+    await this.initialize();
+    return this.searchIndex.sync(Array.from(this.cache.values())).search(query, options);
   }
 
   /**
@@ -283,9 +631,9 @@ export class VocabularyService {
     
     const vocabulary = Array.from(this.cache.values());
     const total = vocabulary.length;
-    const mastered = vocabulary.filter(item => item.accuracy >= 0.8).length;
-    const learning = vocabulary.filter(item => item.accuracy > 0 && item.accuracy < 0.8).length;
-    const notStarted = vocabulary.filter(item => item.accuracy === 0).length;
+    const mastered = vocabulary.filter(item => getMasteryStatus(item) === 'mastered').length;
+    const learning = vocabulary.filter(item => getMasteryStatus(item) === 'learning').length;
+    const notStarted = vocabulary.filter(item => getMasteryStatus(item) === 'new').length;
 
     const byCategory = vocabulary.reduce((acc, item) => {
       acc[item.category] = (acc[item.category] || 0) + 1;
@@ -328,6 +676,9 @@ export class VocabularyService {
         case VocabularySortBy.STUDY_COUNT:
           comparison = a.studyCount - b.studyCount;
           break;
+        case VocabularySortBy.RELEVANCE:
+          // 过滤时已按相关度排好
+          break;
         case VocabularySortBy.CREATED_AT:
         default:
           comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
@@ -391,41 +742,36 @@ export class VocabularyService {
   /**
    * 导出词汇数据
    */
-  async exportVocabulary(format: 'json' | 'csv' = 'json'): Promise<OperationResult<string>> {
+  async exportVocabulary(format: 'json' | 'csv' | 'tsv' = 'json'): Promise<OperationResult<string>> {
     try {
       const vocabulary = await this.getAllVocabulary();
 
       if (format === 'json') {
-        const jsonData = JSON.stringify(vocabulary, null, 2);
+        // 关系中的目标 ID 导入后会变化，导出为单词
+        const byId = new Map(vocabulary.map(item => [item.id, item]));
+        const jsonData = JSON.stringify(
+          vocabulary.map(item => (item.relations ? { ...item, relations: toRelationRefs(item, byId) } : item)),
+          null,
+          2
+        );
         return {
           success: true,
           data: jsonData,
           message: '词汇数据导出成功',
         };
       } else if (format === 'csv') {
-        const csvHeader = 'Word,Definition,English Definition,Pronunciation,Category,Difficulty,Tags,Examples,Study Count,Accuracy,Is Custom,Created At,Updated At\n';
-        const csvRows = vocabulary.map(item => [
-          item.word,
-          `"${item.definition.replace(/"/g, '""')}"`,
-          `"${item.englishDefinition?.replace(/"/g, '""') || ''}"`,
-          item.pronunciation,
-          item.category,
-          item.difficulty,
-          `"${item.tags.join(', ')}"`,
-          `"${item.examples.join('; ').replace(/"/g, '""')}"`,
-          item.studyCount,
-          item.accuracy,
-          item.isCustom,
-          item.createdAt.toISOString(),
-          item.updatedAt.toISOString(),
-        ].join(','));
-
-        const csvData = csvHeader + csvRows.join('\n');
+        const csvData = vocabularyToCsv(vocabulary);
         return {
           success: true,
           data: csvData,
           message: '词汇数据导出成功',
         };
+      } else if (format === 'tsv') {
+        return {
+          success: true,
+          data: vocabularyToQuizletTsv(vocabulary),
+          message: '词汇数据导出成功',
+        };
       }
 
       return {
@@ -443,40 +789,77 @@ export class VocabularyService {
   }
 
   /**
-   * 导入词汇数据
+   * 预演 CSV 导入：按列映射解析并逐行校验，返回错误和重复项报告，不写入数据
    */
-  async importVocabulary(data: string, format: 'json' | 'csv' = 'json'): Promise<OperationResult<number>> {
+  async previewCsvImport(data: string, options: CsvImportOptions = {}): Promise<OperationResult<CsvImportReport>> {
     try {
-      let vocabularyList: Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>[] = [];
+      const report = buildCsvImportReport(data, await this.getAllVocabulary(), options);
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error) {
+      console.error('Failed to preview vocabulary import:', error);
+      return {
+        success: false,
+        error: '解析CSV文件失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
 
-      if (format === 'json') {
-        const parsed = JSON.parse(data);
-        vocabularyList = Array.isArray(parsed) ? parsed : [parsed];
-      } else if (format === 'csv') {
-        const lines = data.split('\n');
-        const headers = lines[0].split(',');
-        
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(',');
-          if (values.length >= headers.length) {
-            vocabularyList.push({
-              word: values[0],
-              definition: values[1].replace(/^"|"$/g, '').replace(/""/g, '"'),
-              englishDefinition: values[2].replace(/^"|"$/g, '').replace(/""/g, '"') || undefined,
-              pronunciation: values[3],
-              category: values[4] as Web3Category,
-              difficulty: values[5] as DifficultyLevel,
-              tags: values[6].replace(/^"|"$/g, '').split(', ').filter(Boolean),
-              examples: values[7].replace(/^"|"$/g, '').replace(/""/g, '"').split('; ').filter(Boolean),
-              studyCount: parseInt(values[8]) || 0,
-              accuracy: parseFloat(values[9]) || 0,
-              isCustom: values[10] === 'true',
-            });
-          }
-        }
+  /**
+   * 导出为 Anki 牌组（.apkg）
+   */
+  async exportAnkiPackage(): Promise<OperationResult<Uint8Array>> {
+    try {
+      const data = await createAnkiPackage(await this.getAllVocabulary());
+      return {
+        success: true,
+        data,
+        message: '词汇数据导出成功',
+      };
+    } catch (error) {
+      console.error('Failed to export Anki package:', error);
+      return {
+        success: false,
+        error: '导出Anki牌组失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 导入词汇数据
+   * CSV 和 TSV 导入预演报告中有效的行；重复的行按 resolutions 合并或仍然导入，未指定的跳过
+   */
+  async importVocabulary(
+    data: string,
+    format: 'json' | 'csv' | 'tsv' = 'json',
+    options: CsvImportOptions & DeckImportOptions & ImportResolutionOptions = {}
+  ): Promise<OperationResult<number>> {
+    try {
+      if (format === 'csv') {
+        const report = buildCsvImportReport(data, await this.getAllVocabulary(), options);
+        return await this.importFromReport(report, undefined, options.resolutions);
+      }
+      if (format === 'tsv') {
+        const report = parseQuizletTsv(data, await this.getAllVocabulary(), options);
+        return await this.importFromReport(report, undefined, options.resolutions);
       }
 
-      const result = await this.addMultipleVocabulary(vocabularyList);
+      const parsed = JSON.parse(data);
+      const entries: (Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt' | 'relations'> & { relations?: unknown[] })[] =
+        Array.isArray(parsed) ? parsed : [parsed];
+      const relationsByTerm = new Map(entries.map(({ word, relations }) => [
+        compactTerm(String(word ?? '')),
+        (relations ?? []).filter((ref): ref is VocabularyRelationRef => typeof (ref as VocabularyRelationRef)?.word === 'string'),
+      ]));
+      const result = await this.addMultipleVocabulary(entries.map(entry => ({ ...entry, relations: undefined })));
+      await this.applyImportedRelations((result.data ?? []).map(item => ({
+        id: item.id,
+        relations: relationsByTerm.get(compactTerm(item.word)) ?? [],
+      })));
       return {
         success: result.success,
         data: result.data?.length || 0,
@@ -492,13 +875,103 @@ export class VocabularyService {
     }
   }
 
+  /**
+   * 导入 Anki 牌组（.apkg），有复习记录的卡片会生成对应的学习数据
+   */
+  async importAnkiPackage(
+    data: ArrayBuffer | Uint8Array,
+    options: DeckImportOptions & ImportResolutionOptions = {}
+  ): Promise<OperationResult<number>> {
+    try {
+      const { report, learningData } = await parseAnkiPackage(data, await this.getAllVocabulary(), options);
+      return await this.importFromReport(report, learningData, options.resolutions);
+    } catch (error) {
+      console.error('Failed to import Anki package:', error);
+      return {
+        success: false,
+        error: '导入Anki牌组失败',
+        message: error instanceof Error ? error.message : '未知错误',
+      };
+    }
+  }
+
+  /**
+   * 写入预演报告中有效的词汇，并按行号写入对应的学习数据
+   * 选择合并的重复行合并到已有词汇，学习数据与已有记录合并
+   */
+  private async importFromReport(
+    report: VocabularyImportReport,
+    learningData?: Map<number, ImportedLearningData>,
+    resolutions: ImportResolutionOptions['resolutions'] = {}
+  ): Promise<OperationResult<number>> {
+    if (report.missingFields.length > 0) {
+      return {
+        success: false,
+        error: '导入词汇数据失败',
+        message: `缺少必填列：${report.missingFields.map(field => CSV_FIELD_LABELS[field]).join('、')}`,
+      };
+    }
+
+    const resolutionOf = (row: VocabularyImportReport['rows'][number]) =>
+      row.status === 'duplicate' && row.item ? resolutions[row.line]?.action ?? 'skip' : undefined;
+    const addedRows = report.rows.filter(row => (row.status === 'valid' && row.item) || resolutionOf(row) === 'import');
+    const mergedRows = report.rows.filter(row => resolutionOf(row) === 'merge' && row.duplicateOf?.existingId);
+
+    const result = await this.addMultipleVocabulary(addedRows.map(row => row.item!));
+    const imported = result.data ?? [];
+    const idsByTerm = new Map(imported.map(item => [compactTerm(item.word), item.id]));
+    const seededRecords = addedRows.flatMap(row => {
+      const wordId = idsByTerm.get(compactTerm(row.word));
+      const seeded = learningData?.get(row.line);
+      return wordId && seeded ? [{ ...seeded, wordId }] : [];
+    });
+
+    const mergedRecords: LearningData[] = [];
+    let mergedCount = 0;
+    for (const row of mergedRows) {
+      const target = this.cache.get(row.duplicateOf!.existingId!);
+      if (!target) continue;
+
+      const merged = mergeVocabularyItems(target, row.item!, { definition: resolutions[row.line]?.definition });
+      await vocabularyStore.put(merged);
+      this.cache.set(merged.id, merged);
+      mergedCount++;
+
+      const seeded = learningData?.get(row.line);
+      if (seeded) mergedRecords.push({ ...seeded, wordId: merged.id });
+    }
+
+    await this.applyImportedRelations([
+      ...addedRows.map(row => ({ id: idsByTerm.get(compactTerm(row.word)) ?? '', relations: row.relations ?? [] })),
+      ...mergedRows.map(row => ({ id: row.duplicateOf!.existingId!, relations: row.relations ?? [] })),
+    ]);
+
+    if (seededRecords.length > 0) {
+      await storageManager.importLearningData(seededRecords);
+    }
+    if (mergedRecords.length > 0) {
+      await storageManager.importLearningData(mergedRecords, true);
+    }
+
+    const skippedDuplicates = report.summary.duplicate - (addedRows.length - report.summary.valid) - mergedCount;
+    const skipped = report.summary.invalid + skippedDuplicates;
+    const mergedMessage = mergedCount > 0 ? `，合并 ${mergedCount} 个重复词汇` : '';
+    return {
+      success: result.success,
+      data: imported.length,
+      message: result.success && (skipped > 0 || mergedCount > 0)
+        ? `成功导入 ${imported.length} 个词汇${mergedMessage}，跳过 ${report.summary.invalid} 行无效数据和 ${skippedDuplicates} 个重复词汇`
+        : result.message,
+    };
+  }
+
   /**
    * 清空所有词汇
    */
   async clearAllVocabulary(): Promise<OperationResult<void>> {
     try {
+      await vocabularyStore.clear();
       this.cache.clear();
-      await this.saveToStorage();
       
       return {
         success: true,
@@ -520,14 +993,6 @@ export class VocabularyService {
   private generateId(): string {
     return `vocab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
-
-  /**
-   * 保存到存储
-   */
-  private async saveToStorage(): Promise<void> {
-    const vocabulary = Array.from(this.cache.values());
-    storageService.setItem(StorageKey.VOCABULARY_DATA, vocabulary);
-  }
 }
 
 /**
@@ -0,0 +1,432 @@
+/**
+ * 词汇数据源适配器
+ * 内置词库、本地文件和 HTTP JSON 接口通过统一的适配器接口提供词汇，
+ * 外部数据结构通过声明式字段映射转换为 VocabularyItem
+ */
+
+import {
+  VocabularyItem,
+  Web3Category,
+  DifficultyLevel,
+  PaginatedResponse,
+  RetryConfig,
+  ApiErrorType,
+} from '@/types';
+import { createApiError, ApiError } from '@/utils/apiErrorHandler';
+import { glossaryService, createGlossaryItemId } from './glossaryService';
+
+/**
+ * 数据源类型
+ */
+export type VocabularySourceType = 'bundled' | 'local-file' | 'http-json';
+
+/**
+ * 可以映射的词汇字段
+ */
+export type MappedVocabularyField =
+  | 'id'
+  | 'word'
+  | 'definition'
+  | 'englishDefinition'
+  | 'pronunciation'
+  | 'audioUrl'
+  | 'examples'
+  | 'category'
+  | 'difficulty'
+  | 'tags';
+
+/**
+ * 字段映射规则
+ */
+export interface FieldMappingRule {
+  /** 源字段路径，支持 a.b.c 访问嵌套字段；数组表示依次尝试，取第一个有值的字段 */
+  from: string | string[];
+  /** 源值到目标值的对照表，如 { easy: 'beginner' } */
+  values?: Record<string, string>;
+  /** 把字符串按分隔符拆分为数组（用于 tags、examples） */
+  split?: string;
+  /** 源字段缺失时的默认值 */
+  default?: unknown;
+}
+
+/**
+ * 字段映射，值为字符串时等同于 { from: 字符串 }，未声明的字段按同名字段读取
+ */
+export type VocabularyFieldMapping = Partial<Record<MappedVocabularyField, string | FieldMappingRule>>;
+
+/**
+ * 获取选项
+ */
+export interface VocabularySourceFetchOptions {
+  /** 最多返回的词汇数量 */
+  limit?: number;
+}
+
+/**
+ * 获取结果
+ */
+export interface VocabularySourceResult {
+  items: VocabularyItem[];
+  /** 缺少必填字段或分类、难度无效而被跳过的记录数 */
+  skipped: number;
+}
+
+/**
+ * 词汇数据源适配器
+ */
+export interface VocabularySourceAdapter {
+  readonly id: string;
+  readonly name: string;
+  readonly type: VocabularySourceType;
+  fetchVocabulary(options?: VocabularySourceFetchOptions): Promise<VocabularySourceResult>;
+}
+
+/**
+ * 默认重试配置
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  delay: 500,
+  backoffMultiplier: 2,
+  maxDelay: 5000,
+  retryableErrors: [
+    ApiErrorType.NETWORK_ERROR,
+    ApiErrorType.TIMEOUT_ERROR,
+    ApiErrorType.SERVER_ERROR,
+    ApiErrorType.RATE_LIMIT_ERROR,
+  ],
+};
+
+const MAPPED_FIELDS: MappedVocabularyField[] = [
+  'id',
+  'word',
+  'definition',
+  'englishDefinition',
+  'pronunciation',
+  'audioUrl',
+  'examples',
+  'category',
+  'difficulty',
+  'tags',
+];
+
+const ARRAY_FIELDS: ReadonlySet<MappedVocabularyField> = new Set(['examples', 'tags']);
+
+/**
+ * 按点号路径读取字段
+ */
+export const getValueAtPath = (record: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, record);
+
+const readField = (record: unknown, field: MappedVocabularyField, mapping: VocabularyFieldMapping): unknown => {
+  const declared = mapping[field] ?? field;
+  const rule: FieldMappingRule = typeof declared === 'string' ? { from: declared } : declared;
+  const paths = Array.isArray(rule.from) ? rule.from : [rule.from];
+
+  let value = paths
+    .map(path => getValueAtPath(record, path))
+    .find(candidate => candidate !== undefined && candidate !== null && candidate !== '');
+  if (value === undefined) {
+    value = rule.default;
+  }
+
+  if (typeof value === 'string' && rule.split !== undefined) {
+    value = value.split(rule.split).map(part => part.trim()).filter(Boolean);
+  }
+  if (rule.values) {
+    const translate = (item: unknown) => (typeof item === 'string' && item in rule.values! ? rule.values![item] : item);
+    value = Array.isArray(value) ? value.map(translate) : translate(value);
+  }
+  if (typeof value === 'number') {
+    value = String(value);
+  }
+
+  return value;
+};
+
+/**
+ * 按字段映射把外部记录转换为词汇，必填字段缺失或分类、难度无效时返回 null
+ */
+export const mapVocabularyRecord = (
+  record: unknown,
+  mapping: VocabularyFieldMapping,
+  sourceId: string
+): VocabularyItem | null => {
+  const fields: Partial<Record<MappedVocabularyField, unknown>> = {};
+  MAPPED_FIELDS.forEach(field => {
+    const value = readField(record, field, mapping);
+    if (ARRAY_FIELDS.has(field)) {
+      fields[field] = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? [value] : [];
+    } else if (value !== undefined) {
+      fields[field] = typeof value === 'string' ? value.trim() : value;
+    }
+  });
+
+  const { word, definition, category, difficulty } = fields;
+  if (
+    typeof word !== 'string' ||
+    !word ||
+    typeof definition !== 'string' ||
+    !definition ||
+    !Object.values(Web3Category).includes(category as Web3Category) ||
+    !Object.values(DifficultyLevel).includes(difficulty as DifficultyLevel)
+  ) {
+    return null;
+  }
+
+  const now = new Date();
+  return {
+    id: typeof fields.id === 'string' && fields.id ? fields.id : createGlossaryItemId(sourceId, word),
+    word,
+    definition,
+    englishDefinition: typeof fields.englishDefinition === 'string' ? fields.englishDefinition : undefined,
+    pronunciation: typeof fields.pronunciation === 'string' ? fields.pronunciation : '',
+    audioUrl: typeof fields.audioUrl === 'string' ? fields.audioUrl : undefined,
+    examples: fields.examples as string[],
+    category: category as Web3Category,
+    difficulty: difficulty as DifficultyLevel,
+    tags: fields.tags as string[],
+    isCustom: false,
+    studyCount: 0,
+    accuracy: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * 批量转换记录
+ */
+export const mapVocabularyRecords = (
+  records: unknown[],
+  mapping: VocabularyFieldMapping,
+  sourceId: string,
+  limit?: number
+): VocabularySourceResult => {
+  const items: VocabularyItem[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    if (limit !== undefined && items.length >= limit) break;
+    const item = mapVocabularyRecord(record, mapping, sourceId);
+    if (item) {
+      items.push(item);
+    } else {
+      skipped++;
+    }
+  }
+
+  return { items, skipped };
+};
+
+/**
+ * 判断错误的 API 错误类型
+ */
+export const getApiErrorType = (error: unknown): ApiErrorType => {
+  const apiError = error as ApiError;
+  if (apiError?.name === 'NetworkError' || error instanceof TypeError) {
+    return ApiErrorType.NETWORK_ERROR;
+  }
+  if (apiError?.name === 'TimeoutError' || apiError?.status === 408) {
+    return ApiErrorType.TIMEOUT_ERROR;
+  }
+
+  switch (apiError?.status) {
+    case 400:
+    case 422:
+      return ApiErrorType.VALIDATION_ERROR;
+    case 401:
+      return ApiErrorType.AUTHENTICATION_ERROR;
+    case 403:
+      return ApiErrorType.AUTHORIZATION_ERROR;
+    case 404:
+      return ApiErrorType.NOT_FOUND_ERROR;
+    case 429:
+      return ApiErrorType.RATE_LIMIT_ERROR;
+    default:
+      return apiError?.status && apiError.status >= 500 ? ApiErrorType.SERVER_ERROR : ApiErrorType.UNKNOWN_ERROR;
+  }
+};
+
+/**
+ * 按重试配置执行请求，只重试 retryableErrors 中的错误类型，延迟按指数退避增长
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, config: RetryConfig): Promise<T> => {
+  let attempt = 0;
+  for (;;) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= config.maxRetries || !config.retryableErrors.includes(getApiErrorType(error))) {
+        throw error;
+      }
+
+      const delay = Math.min(config.delay * Math.pow(config.backoffMultiplier, attempt), config.maxDelay);
+      attempt++;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
+
+/**
+ * 内置词库包数据源
+ */
+export const createBundledPackAdapter = (mapping: VocabularyFieldMapping = {}): VocabularySourceAdapter => ({
+  id: 'bundled',
+  name: '内置词库',
+  type: 'bundled',
+
+  async fetchVocabulary(options = {}) {
+    const { pack, validation } = await glossaryService.loadPack();
+    const result = mapVocabularyRecords(validation.valid, mapping, pack.id, options.limit);
+    return { items: result.items, skipped: result.skipped + validation.issues.length };
+  },
+});
+
+/**
+ * 读取文件文本
+ */
+const readFileText = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('读取文件失败'));
+    reader.readAsText(file);
+  });
+
+/**
+ * 本地文件数据源配置
+ */
+export interface LocalFileSourceOptions {
+  id?: string;
+  file: Blob & { name?: string };
+  mapping?: VocabularyFieldMapping;
+  /** 记录数组在 JSON 中的路径，省略时 JSON 本身应为数组 */
+  recordsPath?: string;
+}
+
+/**
+ * 本地 JSON 文件数据源
+ */
+export const createLocalFileAdapter = ({
+  id = 'local-file',
+  file,
+  mapping = {},
+  recordsPath,
+}: LocalFileSourceOptions): VocabularySourceAdapter => ({
+  id,
+  name: file.name || '本地文件',
+  type: 'local-file',
+
+  async fetchVocabulary(options = {}) {
+    const text = await readFileText(file);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('文件不是有效的 JSON');
+    }
+
+    const records = recordsPath ? getValueAtPath(parsed, recordsPath) : parsed;
+    if (!Array.isArray(records)) {
+      throw new Error('文件中没有找到词汇记录数组');
+    }
+    return mapVocabularyRecords(records, mapping, id, options.limit);
+  },
+});
+
+/**
+ * HTTP JSON 数据源配置
+ */
+export interface HttpJsonSourceOptions {
+  id: string;
+  name: string;
+  /** 接口地址，分页参数 page、limit 会追加到查询字符串 */
+  url: string;
+  mapping?: VocabularyFieldMapping;
+  pageSize?: number;
+  headers?: Record<string, string>;
+  retry?: RetryConfig;
+  /** 单次请求超时时间（毫秒） */
+  timeout?: number;
+}
+
+/**
+ * HTTP JSON 数据源，接口返回 PaginatedResponse 时自动翻页，返回数组时视为单页
+ */
+export const createHttpJsonAdapter = ({
+  id,
+  name,
+  url,
+  mapping = {},
+  pageSize = 100,
+  headers,
+  retry = DEFAULT_RETRY_CONFIG,
+  timeout = 10000,
+}: HttpJsonSourceOptions): VocabularySourceAdapter => {
+  const fetchPage = async (page: number): Promise<PaginatedResponse<unknown> | unknown[]> => {
+    const pageUrl = new URL(url, typeof window !== 'undefined' ? window.location.href : undefined);
+    pageUrl.searchParams.set('page', String(page));
+    pageUrl.searchParams.set('limit', String(pageSize));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error('请求超时') as ApiError;
+        error.name = 'TimeoutError';
+        error.url = pageUrl.toString();
+        error.method = 'GET';
+        reject(error);
+      }, timeout);
+    });
+
+    const request = async () => {
+      const response = await fetch(pageUrl.toString(), {
+        method: 'GET',
+        headers: { Accept: 'application/json', ...headers },
+      });
+      if (!response.ok) {
+        throw createApiError(response, await response.text().catch(() => undefined), pageUrl.toString(), 'GET');
+      }
+      return response.json();
+    };
+
+    try {
+      return await Promise.race([request(), timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    id,
+    name,
+    type: 'http-json',
+
+    async fetchVocabulary(options = {}) {
+      const items: VocabularyItem[] = [];
+      let skipped = 0;
+
+      for (let page = 1; ; page++) {
+        const body = await withRetry(() => fetchPage(page), retry);
+        const records = Array.isArray(body) ? body : body.data ?? [];
+        const remaining = options.limit === undefined ? undefined : options.limit - items.length;
+        const result = mapVocabularyRecords(records, mapping, id, remaining);
+        items.push(...result.items);
+        skipped += result.skipped;
+
+        const hasNext = !Array.isArray(body) && body.pagination?.hasNext;
+        if (!hasNext || (options.limit !== undefined && items.length >= options.limit)) {
+          break;
+        }
+      }
+
+      return { items, skipped };
+    },
+  };
+};
@@ -0,0 +1,377 @@
+/**
+ * 词汇持久化存储
+ * 优先使用 IndexedDB 按条目读写并通过索引查询，不支持 IndexedDB 或启用了本地数据加密时回退到 localStorage
+ */
+
+import { VocabularyItem, VocabularyFilter } from '@/types';
+import { storageService, StorageKey } from './storage';
+import { offlineStorageManager, isIndexedDBSupported, OfflineStorageManager } from '@/utils/pwa';
+
+const VOCABULARY_STORE_NAME = 'vocabulary';
+
+/**
+ * 存储后端类型
+ */
+export type VocabularyBackendType = 'indexedDB' | 'localStorage';
+
+/**
+ * 可用于查询的索引
+ */
+export type VocabularyIndexName = 'category' | 'difficulty' | 'tags';
+
+/**
+ * 词汇存储后端
+ */
+export interface VocabularyStoreBackend {
+  readonly type: VocabularyBackendType;
+  getAll(): Promise<VocabularyItem[]>;
+  get(id: string): Promise<VocabularyItem | null>;
+  put(items: VocabularyItem[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+  /** 返回索引字段等于任一给定值的词汇（已去重） */
+  queryByIndex(index: VocabularyIndexName, values: string[]): Promise<VocabularyItem[]>;
+}
+
+/**
+ * 词汇变更监听器
+ */
+export type VocabularyStoreListener = (change: { updated: string[]; deleted: string[] }) => void;
+
+/**
+ * 判断词汇是否满足过滤条件（不含收藏过滤，收藏列表不在词汇数据中）
+ */
+export const matchesVocabularyFilter = (item: VocabularyItem, filter: VocabularyFilter): boolean => {
+  if (filter.keyword) {
+    const keyword = filter.keyword.toLowerCase();
+    const matched =
+      item.word.toLowerCase().includes(keyword) ||
+      item.definition.toLowerCase().includes(keyword) ||
+      item.englishDefinition?.toLowerCase().includes(keyword) ||
+      item.tags.some(tag => tag.toLowerCase().includes(keyword));
+    if (!matched) return false;
+  }
+
+  if (filter.categories && filter.categories.length > 0 && !filter.categories.includes(item.category)) {
+    return false;
+  }
+
+  if (filter.difficulties && filter.difficulties.length > 0 && !filter.difficulties.includes(item.difficulty)) {
+    return false;
+  }
+
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => item.tags.includes(tag))) {
+    return false;
+  }
+
+  if (filter.customOnly && !item.isCustom) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * 选择查询使用的索引，优先选择通常结果最少的条件
+ */
+const pickIndex = (filter: VocabularyFilter): { index: VocabularyIndexName; values: string[] } | null => {
+  if (filter.tags && filter.tags.length > 0) {
+    return { index: 'tags', values: filter.tags };
+  }
+  if (filter.categories && filter.categories.length > 0) {
+    return { index: 'category', values: filter.categories };
+  }
+  if (filter.difficulties && filter.difficulties.length > 0) {
+    return { index: 'difficulty', values: filter.difficulties };
+  }
+  return null;
+};
+
+/**
+ * IndexedDB 后端，每个词汇单独存为一条记录
+ */
+export const createIndexedDBBackend = (manager: OfflineStorageManager = offlineStorageManager): VocabularyStoreBackend => ({
+  type: 'indexedDB',
+
+  async getAll() {
+    return manager.getAllData(VOCABULARY_STORE_NAME);
+  },
+
+  async get(id) {
+    return (await manager.getData(VOCABULARY_STORE_NAME, id)) ?? null;
+  },
+
+  async put(items) {
+    if (items.length > 0) {
+      await manager.storeMany(VOCABULARY_STORE_NAME, items);
+    }
+  },
+
+  async delete(ids) {
+    if (ids.length > 0) {
+      await manager.deleteData(VOCABULARY_STORE_NAME, ids);
+    }
+  },
+
+  async clear() {
+    await manager.clearStore(VOCABULARY_STORE_NAME);
+  },
+
+  async queryByIndex(index, values) {
+    const results = new Map<string, VocabularyItem>();
+    for (const value of new Set(values)) {
+      const items = (await manager.getAllByIndex(VOCABULARY_STORE_NAME, index, value)) as VocabularyItem[];
+      items.forEach(item => results.set(item.id, item));
+    }
+    return Array.from(results.values());
+  },
+});
+
+/**
+ * localStorage 后端，整个列表存为一项（经过存储服务，可压缩、加密）
+ */
+export const createLocalStorageBackend = (): VocabularyStoreBackend => {
+  const read = (): VocabularyItem[] => storageService.getItem<VocabularyItem[]>(StorageKey.VOCABULARY_DATA) || [];
+  const write = (items: VocabularyItem[]) => {
+    if (!storageService.setItem(StorageKey.VOCABULARY_DATA, items)) {
+      throw new Error('词汇数据保存失败');
+    }
+  };
+
+  return {
+    type: 'localStorage',
+
+    async getAll() {
+      return read();
+    },
+
+    async get(id) {
+      return read().find(item => item.id === id) || null;
+    },
+
+    async put(items) {
+      if (items.length === 0) return;
+      const byId = new Map(read().map(item => [item.id, item]));
+      items.forEach(item => byId.set(item.id, item));
+      write(Array.from(byId.values()));
+    },
+
+    async delete(ids) {
+      if (ids.length === 0) return;
+      const removed = new Set(ids);
+      write(read().filter(item => !removed.has(item.id)));
+    },
+
+    async clear() {
+      storageService.removeItem(StorageKey.VOCABULARY_DATA);
+    },
+
+    async queryByIndex(index, values) {
+      return read().filter(item =>
+        index === 'tags' ? item.tags.some(tag => values.includes(tag)) : values.includes(item[index])
+      );
+    },
+  };
+};
+
+/**
+ * 词汇存储类
+ */
+export class VocabularyStore {
+  private static instance: VocabularyStore;
+  private backend: Promise<VocabularyStoreBackend> | null = null;
+  private listeners: Set<VocabularyStoreListener> = new Set();
+
+  static getInstance(): VocabularyStore {
+    if (!VocabularyStore.instance) {
+      VocabularyStore.instance = new VocabularyStore();
+    }
+    return VocabularyStore.instance;
+  }
+
+  /**
+   * @param backend 指定存储后端（默认在首次使用时自动选择）
+   */
+  constructor(backend?: VocabularyStoreBackend) {
+    if (backend) {
+      this.backend = Promise.resolve(backend);
+    }
+  }
+
+  /**
+   * 当前使用的存储后端类型
+   */
+  async getBackendType(): Promise<VocabularyBackendType> {
+    return (await this.getBackend()).type;
+  }
+
+  async getAll(): Promise<VocabularyItem[]> {
+    return (await this.getBackend()).getAll();
+  }
+
+  async get(id: string): Promise<VocabularyItem | null> {
+    return (await this.getBackend()).get(id);
+  }
+
+  /**
+   * 写入单个词汇
+   */
+  async put(item: VocabularyItem): Promise<void> {
+    await this.putMany([item]);
+  }
+
+  /**
+   * 批量写入词汇
+   */
+  async putMany(items: VocabularyItem[]): Promise<void> {
+    await (await this.getBackend()).put(items);
+    this.notify(items.map(item => item.id), []);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.deleteMany([id]);
+  }
+
+  async deleteMany(ids: string[]): Promise<void> {
+    await (await this.getBackend()).delete(ids);
+    this.notify([], ids);
+  }
+
+  async clear(): Promise<void> {
+    const backend = await this.getBackend();
+    const ids = (await backend.getAll()).map(item => item.id);
+    await backend.clear();
+    this.notify([], ids);
+  }
+
+  /**
+   * 用给定列表替换全部词汇
+   */
+  async replaceAll(items: VocabularyItem[]): Promise<void> {
+    const backend = await this.getBackend();
+    await backend.clear();
+    await backend.put(items);
+    this.notify(items.map(item => item.id), []);
+  }
+
+  /**
+   * 把存储内容同步为给定列表，只写入有变化的词汇并删除多余的词汇
+   */
+  async sync(items: VocabularyItem[]): Promise<{ updated: number; deleted: number }> {
+    const backend = await this.getBackend();
+    const stored = new Map((await backend.getAll()).map(item => [item.id, JSON.stringify(item)]));
+
+    const changed = items.filter(item => stored.get(item.id) !== JSON.stringify(item));
+    const keep = new Set(items.map(item => item.id));
+    const removed = Array.from(stored.keys()).filter(id => !keep.has(id));
+
+    await backend.put(changed);
+    await backend.delete(removed);
+    if (changed.length > 0 || removed.length > 0) {
+      this.notify(changed.map(item => item.id), removed);
+    }
+
+    return { updated: changed.length, deleted: removed.length };
+  }
+
+  /**
+   * 按过滤条件查询，分类、难度、标签条件使用索引缩小范围
+   */
+  async query(filter: VocabularyFilter): Promise<VocabularyItem[]> {
+    const backend = await this.getBackend();
+    const indexed = pickIndex(filter);
+    const candidates = indexed
+      ? await backend.queryByIndex(indexed.index, indexed.values)
+      : await backend.getAll();
+
+    return candidates.filter(item => matchesVocabularyFilter(item, filter));
+  }
+
+  /**
+   * 切换存储后端并搬移数据（启用或关闭本地数据加密后调用）
+   */
+  async relocate(): Promise<VocabularyBackendType> {
+    const current = await this.getBackend();
+    const target = await this.selectBackend();
+    if (target.type === current.type) {
+      return current.type;
+    }
+
+    const items = await current.getAll();
+    await target.put(items);
+    await current.clear();
+    this.backend = Promise.resolve(target);
+    return target.type;
+  }
+
+  /**
+   * 订阅词汇变更，返回取消订阅函数
+   */
+  subscribe(listener: VocabularyStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(updated: string[], deleted: string[]): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener({ updated, deleted });
+      } catch (error) {
+        console.error('Vocabulary store listener failed:', error);
+      }
+    });
+  }
+
+  private getBackend(): Promise<VocabularyStoreBackend> {
+    if (!this.backend) {
+      this.backend = this.selectBackend()
+        .then(backend => this.importLegacyData(backend))
+        .catch(error => {
+          // 下次使用时重新尝试
+          this.backend = null;
+          throw error;
+        });
+    }
+    return this.backend;
+  }
+
+  /**
+   * 选择存储后端：启用加密时数据需要经过存储服务加密，只能使用 localStorage
+   */
+  private async selectBackend(): Promise<VocabularyStoreBackend> {
+    if (storageService.isEncryptionEnabled() || !isIndexedDBSupported()) {
+      return createLocalStorageBackend();
+    }
+
+    try {
+      await offlineStorageManager.init();
+      return createIndexedDBBackend();
+    } catch (error) {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+      return createLocalStorageBackend();
+    }
+  }
+
+  /**
+   * 把 localStorage 中的整表数据迁入 IndexedDB
+   */
+  private async importLegacyData(backend: VocabularyStoreBackend): Promise<VocabularyStoreBackend> {
+    if (backend.type !== 'indexedDB') {
+      return backend;
+    }
+
+    const legacy = storageService.getItem<VocabularyItem[]>(StorageKey.VOCABULARY_DATA);
+    if (legacy && legacy.length > 0) {
+      await backend.put(legacy);
+    }
+    storageService.removeItem(StorageKey.VOCABULARY_DATA);
+    return backend;
+  }
+}
+
+/**
+ * 词汇存储单例实例
+ */
+export const vocabularyStore = VocabularyStore.getInstance();
@@ -0,0 +1,194 @@
+/**
+ * 单词学习记录服务
+ * 按单词保存学习事件（见过、作答、达到或跌出已掌握、重置），用于详情页的学习时间线和易混答案统计
+ */
+
+import { PracticeSession, UserAnswer } from '@/types';
+import { storageManager, STORAGE_KEYS, WordEvent, WordEventType, MAX_WORD_EVENTS } from './storageManager';
+
+/**
+ * 易混答案：答错时反复给出的同一个答案
+ */
+export interface WordConfusion {
+  /** 给出的答案 */
+  answer: string;
+  /** 出现次数 */
+  count: number;
+  /** 最近一次出现的时间 */
+  lastSeen: string;
+}
+
+/**
+ * 学习事件类型的显示名称
+ */
+export const WORD_EVENT_LABELS: Record<WordEventType, string> = {
+  seen: '见过',
+  answered: '作答',
+  mastered: '已掌握',
+  demoted: '掌握降级',
+  reset: '重置进度',
+};
+
+/**
+ * 把用户答案转换为便于显示和比较的文本
+ */
+export const formatAnswer = (answer: UserAnswer['answer']): string => {
+  if (typeof answer === 'string') return answer.trim();
+  if (Array.isArray(answer)) return answer.join(' / ');
+  return Object.entries(answer)
+    .map(([key, value]) => `${key} → ${value}`)
+    .join('; ');
+};
+
+/**
+ * 把练习会话转换为学习事件：作答的题目记为 answered，未作答的记为 seen
+ */
+export const buildSessionEvents = (session: PracticeSession): Array<{ wordId: string; event: WordEvent }> => {
+  const answerMap = new Map(session.answers.map(answer => [answer.questionId, answer]));
+  const fallbackTime = new Date(session.endTime ?? new Date()).toISOString();
+
+  return session.questions.map(question => {
+    const answer = answerMap.get(question.id);
+    const event: WordEvent = answer
+      ? {
+          type: 'answered',
+          timestamp: new Date(answer.answeredAt).toISOString(),
+          sessionId: session.id,
+          questionType: question.type,
+          answer: formatAnswer(answer.answer),
+          correctAnswer: question.correctAnswer,
+          isCorrect: answer.isCorrect,
+          timeSpent: answer.timeSpent,
+        }
+      : {
+          type: 'seen',
+          timestamp: fallbackTime,
+          sessionId: session.id,
+          questionType: question.type,
+        };
+    return { wordId: question.vocabulary.id, event };
+  });
+};
+
+/**
+ * 统计答错时最常给出的答案，按次数从多到少排列，次数相同时最近的在前
+ */
+export const getConfusions = (events: WordEvent[], limit = 3): WordConfusion[] => {
+  const confusions = new Map<string, WordConfusion>();
+
+  events.forEach(event => {
+    if (event.type !== 'answered' || event.isCorrect || !event.answer) return;
+    const key = event.answer.toLowerCase();
+    const existing = confusions.get(key);
+    if (existing) {
+      existing.count += 1;
+      if (event.timestamp > existing.lastSeen) {
+        existing.answer = event.answer;
+        existing.lastSeen = event.timestamp;
+      }
+    } else {
+      confusions.set(key, { answer: event.answer, count: 1, lastSeen: event.timestamp });
+    }
+  });
+
+  return Array.from(confusions.values())
+    .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+    .slice(0, limit);
+};
+
+/**
+ * 单词学习记录服务类
+ */
+export class WordHistoryService {
+  private static instance: WordHistoryService;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): WordHistoryService {
+    if (!WordHistoryService.instance) {
+      WordHistoryService.instance = new WordHistoryService();
+    }
+    return WordHistoryService.instance;
+  }
+
+  /**
+   * 获取单词的学习事件，按时间先后排列
+   */
+  async getHistory(wordId: string): Promise<WordEvent[]> {
+    return (await this.getAllHistory())[wordId] ?? [];
+  }
+
+  /**
+   * 记录学习事件
+   */
+  async recordEvents(entries: Array<{ wordId: string; event: WordEvent }>): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      const history = await this.getAllHistory();
+      entries.forEach(({ wordId, event }) => {
+        history[wordId] = [...(history[wordId] ?? []), event].slice(-MAX_WORD_EVENTS);
+      });
+      await storageManager.setItem(STORAGE_KEYS.WORD_HISTORY, history);
+    } catch (error) {
+      console.error('Failed to record word events:', error);
+    }
+  }
+
+  /**
+   * 记录练习会话中每道题对应的学习事件
+   */
+  async recordSession(session: PracticeSession): Promise<void> {
+    await this.recordEvents(buildSessionEvents(session));
+  }
+
+  /**
+   * 记录单词被查看
+   */
+  async recordSeen(wordId: string): Promise<void> {
+    await this.recordEvents([{ wordId, event: { type: 'seen', timestamp: new Date().toISOString() } }]);
+  }
+
+  /**
+   * 记录单词被标记为已掌握
+   */
+  async recordMastered(wordId: string): Promise<void> {
+    await this.recordEvents([{ wordId, event: { type: 'mastered', timestamp: new Date().toISOString() } }]);
+  }
+
+  /**
+   * 记录单词的学习进度被重置
+   */
+  async recordReset(wordId: string): Promise<void> {
+    await this.recordEvents([{ wordId, event: { type: 'reset', timestamp: new Date().toISOString() } }]);
+  }
+
+  /**
+   * 删除多个单词的全部学习事件
+   */
+  async clearHistory(wordIds: string[]): Promise<void> {
+    try {
+      const history = await this.getAllHistory();
+      const existing = wordIds.filter(wordId => history[wordId]);
+      if (existing.length === 0) return;
+      existing.forEach(wordId => delete history[wordId]);
+      await storageManager.setItem(STORAGE_KEYS.WORD_HISTORY, history);
+    } catch (error) {
+      console.error('Failed to clear word history:', error);
+    }
+  }
+
+  private async getAllHistory(): Promise<Record<string, WordEvent[]>> {
+    try {
+      return await storageManager.getItem<Record<string, WordEvent[]>>(STORAGE_KEYS.WORD_HISTORY, {});
+    } catch (error) {
+      console.error('Failed to get word history:', error);
+      return {};
+    }
+  }
+}
+
+/**
+ * 单词学习记录服务单例实例
+ */
+export const wordHistoryService = WordHistoryService.getInstance();
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChakraProvider } from '@chakra-ui/react';
+import React from 'react';
+import MatchingQuestion from '../../components/practice/MatchingQuestion';
+import {
+  MatchingQuestion as MatchingQuestionType,
+  QuestionType,
+  PracticeDifficulty,
+} from '../../types/practice';
+import { VocabularyItem, DifficultyLevel, Web3Category } from '../../types/vocabulary';
+
+// Mock data
+const mockWord: VocabularyItem = {
+  id: '1',
+  word: 'Blockchain',
+  definition: '区块链',
+  pronunciation: '/ˈblɒktʃeɪn/',
+  examples: [],
+  category: Web3Category.BLOCKCHAIN,
+  difficulty: DifficultyLevel.BEGINNER,
+  tags: [],
+  isCustom: false,
+  studyCount: 0,
+  accuracy: 0,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+const matchingQuestion: MatchingQuestionType = {
+  id: 'q1',
+  type: QuestionType.MATCHING,
+  vocabulary: mockWord,
+  question: '将术语与对应的释义连线',
+  correctAnswer: '',
+  timeLimit: 60,
+  difficulty: PracticeDifficulty.EASY,
+  points: 10,
+  leftItems: [
+    { id: 'l1', content: 'Blockchain' },
+    { id: 'l2', content: 'Wallet' },
+  ],
+  rightItems: [
+    { id: 'r2', content: '钱包' },
+    { id: 'r1', content: '区块链' },
+  ],
+  correctMatches: [
+    { leftId: 'l1', rightId: 'r1' },
+    { leftId: 'l2', rightId: 'r2' },
+  ],
+};
+
+// Test wrapper
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ChakraProvider>{children}</ChakraProvider>
+);
+
+describe('MatchingQuestion Component', () => {
+  it('should submit matches after pairing every term', () => {
+    const onAnswer = vi.fn();
+    render(
+      <TestWrapper>
+        <MatchingQuestion question={matchingQuestion} onAnswer={onAnswer} />
+      </TestWrapper>
+    );
+
+    const submitButton = screen.getByText('提交答案').closest('button')!;
+    expect(submitButton).toBeDisabled();
+
+    fireEvent.click(screen.getByText('Blockchain'));
+    fireEvent.click(screen.getByText('区块链'));
+    fireEvent.click(screen.getByText('Wallet'));
+    fireEvent.click(screen.getByText('钱包'));
+
+    expect(submitButton).not.toBeDisabled();
+    fireEvent.click(submitButton);
+
+    expect(onAnswer).toHaveBeenCalledWith({ l1: 'r1', l2: 'r2' });
+  });
+
+  it('should move a definition to the newly selected term', () => {
+    const onAnswer = vi.fn();
+    render(
+      <TestWrapper>
+        <MatchingQuestion question={matchingQuestion} onAnswer={onAnswer} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByText('Blockchain'));
+    fireEvent.click(screen.getByText('钱包'));
+    fireEvent.click(screen.getByText('Wallet'));
+    fireEvent.click(screen.getByText('钱包'));
+
+    expect(screen.getByText(/已配对 1\/2/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChakraProvider } from '@chakra-ui/react';
+import React from 'react';
+import TrueFalseQuestion from '../../components/practice/TrueFalseQuestion';
+import { TrueFalseQuestion as TrueFalseQuestionType, QuestionType, PracticeDifficulty } from '../../types/practice';
+import { VocabularyItem, DifficultyLevel, Web3Category } from '../../types/vocabulary';
+
+// Mock data
+const mockWord: VocabularyItem = {
+  id: '1',
+  word: 'Blockchain',
+  definition: '区块链',
+  pronunciation: '/ˈblɒktʃeɪn/',
+  examples: [],
+  category: Web3Category.BLOCKCHAIN,
+  difficulty: DifficultyLevel.BEGINNER,
+  tags: [],
+  isCustom: false,
+  studyCount: 0,
+  accuracy: 0,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+const trueFalseQuestion: TrueFalseQuestionType = {
+  id: 'q2',
+  type: QuestionType.TRUE_FALSE,
+  vocabulary: mockWord,
+  question: '"Blockchain" 的释义是"区块链"',
+  correctAnswer: 'true',
+  timeLimit: 15,
+  difficulty: PracticeDifficulty.EASY,
+  points: 10,
+  isTrue: true,
+};
+
+// Test wrapper
+const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <ChakraProvider>{children}</ChakraProvider>
+);
+
+describe('TrueFalseQuestion Component', () => {
+  it('should answer with the selected choice', () => {
+    const onAnswer = vi.fn();
+    render(
+      <TestWrapper>
+        <TrueFalseQuestion question={trueFalseQuestion} onAnswer={onAnswer} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByText('错误'));
+    fireEvent.click(screen.getByText('提交答案'));
+
+    expect(onAnswer).toHaveBeenCalledWith('false');
+  });
+
+  it('should support keyboard shortcuts', () => {
+    const onAnswer = vi.fn();
+    render(
+      <TestWrapper>
+        <TrueFalseQuestion question={trueFalseQuestion} onAnswer={onAnswer} />
+      </TestWrapper>
+    );
+
+    fireEvent.keyDown(window, { key: 't' });
+    fireEvent.keyDown(window, { key: 'Enter' });
+
+    expect(onAnswer).toHaveBeenCalledWith('true');
+  });
+});
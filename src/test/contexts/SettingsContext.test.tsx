@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import React from 'react';
+import {
+  SettingsProvider,
+  settingsReducer,
+  SettingsActionType,
+  SettingsState,
+} from '../../contexts/SettingsContext';
+import { useSettings } from '../../hooks/useSettings';
+import { storageManager } from '../../services/storageManager';
+import { DEFAULT_SETTINGS, ThemeMode } from '../../types';
+
+const createState = (overrides: Partial<SettingsState> = {}): SettingsState => ({
+  settings: DEFAULT_SETTINGS,
+  loading: false,
+  error: null,
+  initialized: true,
+  pendingEdits: [],
+  ...overrides,
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <SettingsProvider>{children}</SettingsProvider>
+);
+
+describe('SettingsContext', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('settingsReducer', () => {
+    it('should update a single section without touching the others', () => {
+      const state = settingsReducer(createState(), {
+        type: SettingsActionType.UPDATE_SECTION,
+        payload: { section: 'ui', values: { fontSize: 'large' } },
+      });
+
+      expect(state.settings.ui.fontSize).toBe('large');
+      expect(state.settings.ui.themeMode).toBe(DEFAULT_SETTINGS.ui.themeMode);
+      expect(state.settings.practice).toEqual(DEFAULT_SETTINGS.practice);
+    });
+
+    it('should reset to default settings', () => {
+      const changed = settingsReducer(createState(), {
+        type: SettingsActionType.UPDATE_SECTION,
+        payload: { section: 'practice', values: { defaultQuestionCount: 30 } },
+      });
+      const state = settingsReducer(changed, { type: SettingsActionType.RESET_SETTINGS });
+
+      expect(state.settings.practice.defaultQuestionCount).toBe(DEFAULT_SETTINGS.practice.defaultQuestionCount);
+    });
+  });
+
+  describe('useSettings', () => {
+    it('should persist updates and restore them on initialization', async () => {
+      const { result } = renderHook(() => useSettings(), { wrapper });
+
+      await act(async () => {
+        await result.current.initializeSettings();
+      });
+      act(() => {
+        result.current.updateSettings('ui', { themeMode: ThemeMode.DARK });
+      });
+
+      expect(result.current.settings.ui.themeMode).toBe(ThemeMode.DARK);
+      expect((await storageManager.getUserSettings()).ui.themeMode).toBe(ThemeMode.DARK);
+
+      const { result: restored } = renderHook(() => useSettings(), { wrapper });
+      await act(async () => {
+        await restored.current.initializeSettings();
+      });
+      await waitFor(() => expect(restored.current.initialized).toBe(true));
+      expect(restored.current.settings.ui.themeMode).toBe(ThemeMode.DARK);
+    });
+
+    it('should save defaults when resetting', async () => {
+      const { result } = renderHook(() => useSettings(), { wrapper });
+
+      await act(async () => {
+        await result.current.initializeSettings();
+      });
+      act(() => {
+        result.current.updateSettings('audio', { playbackSpeed: 1.5 });
+      });
+      act(() => {
+        result.current.resetSettings();
+      });
+
+      expect(result.current.settings.audio.playbackSpeed).toBe(DEFAULT_SETTINGS.audio.playbackSpeed);
+      expect((await storageManager.getUserSettings()).audio.playbackSpeed).toBe(DEFAULT_SETTINGS.audio.playbackSpeed);
+    });
+
+    it('should keep every update made before a re-render', async () => {
+      const { result } = renderHook(() => useSettings(), { wrapper });
+
+      await act(async () => {
+        await result.current.initializeSettings();
+      });
+      act(() => {
+        result.current.updateSettings('audio', { volume: 0.3 });
+        result.current.updateSettings('audio', { playbackSpeed: 1.25 });
+        result.current.updateSettings('ui', { fontSize: 'large' });
+      });
+
+      expect(result.current.settings.audio).toMatchObject({ volume: 0.3, playbackSpeed: 1.25 });
+      expect(await storageManager.getUserSettings()).toMatchObject({
+        audio: { volume: 0.3, playbackSpeed: 1.25 },
+        ui: { fontSize: 'large' },
+      });
+    });
+
+    it('should apply updates made while the saved settings are loading', async () => {
+      await storageManager.saveUserSettings({
+        ...DEFAULT_SETTINGS,
+        ui: { ...DEFAULT_SETTINGS.ui, themeMode: ThemeMode.DARK },
+      });
+      const { result } = renderHook(() => useSettings(), { wrapper });
+
+      await act(async () => {
+        const loading = result.current.initializeSettings();
+        result.current.updateSettings('audio', { volume: 0.2 });
+        await loading;
+      });
+
+      expect(result.current.settings.ui.themeMode).toBe(ThemeMode.DARK);
+      expect(result.current.settings.audio.volume).toBe(0.2);
+      expect((await storageManager.getUserSettings()).audio.volume).toBe(0.2);
+    });
+  });
+});
@@ -47,13 +47,14 @@ const mockVocabularyItems: VocabularyItem[] = [
 ];
 
 // Mock API service
+// 上下文经由 masteryService 在导入时就会加载此模块，mock 数据要在调用时再读取
 vi.mock('../../services/vocabularyService', () => ({
   vocabularyService: {
-    getAllVocabulary: vi.fn().mockResolvedValue(mockVocabularyItems),
+    getAllVocabulary: vi.fn(() => Promise.resolve(mockVocabularyItems)),
     addVocabulary: vi.fn(),
     updateVocabulary: vi.fn(),
     deleteVocabulary: vi.fn(),
-    generateWeb3Vocabulary: vi.fn().mockResolvedValue(mockVocabularyItems),
+    generateWeb3Vocabulary: vi.fn(() => Promise.resolve(mockVocabularyItems)),
   },
 }));
 
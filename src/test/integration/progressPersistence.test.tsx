@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { ProgressProvider } from '../../contexts/ProgressContext';
+import { useProgress } from '../../hooks/useProgress';
+import { storageManager } from '../../services/storageManager';
+import { storageService, StorageKey } from '../../services/storage';
+import { UserProgress } from '../../types';
+
+const dateString = (daysAgo: number) =>
+  new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const savedProgress = () => storageService.getItem<UserProgress>(StorageKey.USER_PROGRESS);
+
+const renderProgress = async () => {
+  const rendered = renderHook(() => useProgress(), { wrapper: ProgressProvider });
+  await act(() => rendered.result.current.initializeProgress());
+  return rendered;
+};
+
+/**
+ * 模拟一次练习：逐题保存学习数据，结束后记录练习会话
+ */
+const practice = async (progress: ReturnType<typeof useProgress>, wordIds: string[]) => {
+  const startTime = new Date(Date.now() - 5 * 60 * 1000);
+  for (const wordId of wordIds) {
+    await storageManager.saveLearningData(wordId, { reviewCount: 1, studyTime: 60000 });
+  }
+  act(() => {
+    progress.recordPracticeSession(startTime, wordIds.map(wordId => ({ wordId, isCorrect: true })));
+  });
+};
+
+describe('progress persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    storageService.clear();
+  });
+
+  it('should keep the streak and study time after reloading', async () => {
+    const first = await renderProgress();
+    await practice(first.result.current, ['a', 'b']);
+    await waitFor(() => expect(savedProgress()?.studySessions).toHaveLength(1));
+    first.unmount();
+
+    const { result } = await renderProgress();
+
+    expect(result.current.userProgress).toMatchObject({ streakDays: 1, maxStreakDays: 1, totalStudyTime: 5 });
+    expect(result.current.getTodayStats()).toMatchObject({ practiceSessions: 1, wordsStudied: 2, studyTimeMinutes: 5 });
+  });
+
+  it('should count the streak once per day and continue it from yesterday', async () => {
+    const { result: initial, unmount } = await renderProgress();
+    storageService.setItem(StorageKey.USER_PROGRESS, {
+      ...initial.current.userProgress!,
+      streakDays: 3,
+      maxStreakDays: 3,
+      dailyStats: [{
+        date: dateString(1),
+        wordsStudied: 5,
+        practiceSessions: 1,
+        correctAnswers: 4,
+        totalAnswers: 5,
+        studyTimeMinutes: 10,
+        newMasteredWords: 0,
+      }],
+    });
+    unmount();
+
+    const { result } = await renderProgress();
+    await practice(result.current, ['a']);
+    await practice(result.current, ['b']);
+    await practice(result.current, ['c']);
+
+    expect(result.current.userProgress).toMatchObject({ streakDays: 4, maxStreakDays: 4, totalStudyTime: 15 });
+    await waitFor(() => expect(savedProgress()).toMatchObject({ streakDays: 4, maxStreakDays: 4 }));
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import {
+  createAchievements,
+  evaluateAchievements,
+  getMetricValue,
+  mergeAchievements,
+} from '../../services/achievementRules';
+import {
+  progressReducer,
+  ProgressActionType,
+  ProgressState,
+  ProgressProvider,
+  useProgressContext,
+} from '../../contexts/ProgressContext';
+import { masteryService } from '../../services/masteryService';
+import { vocabularyService } from '../../services/vocabularyService';
+import {
+  AchievementMetric,
+  AchievementStatus,
+  AchievementType,
+  DailyStats,
+  DifficultyLevel,
+  QuestionType,
+  StudySession,
+  UserProgress,
+  Web3Category,
+} from '../../types';
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+const createProgress = (overrides: Partial<UserProgress> = {}): UserProgress => ({
+  userId: 'user_test',
+  dailyStats: [],
+  streakDays: 0,
+  maxStreakDays: 0,
+  totalStudyTime: 0,
+  masteredWords: [],
+  weakWords: [],
+  favoriteWords: [],
+  achievements: createAchievements(),
+  totalPoints: 0,
+  level: 1,
+  currentLevelExp: 0,
+  nextLevelExp: 100,
+  studySessions: [],
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+const createStats = (date: string, correctAnswers: number, totalAnswers: number): DailyStats => ({
+  date,
+  wordsStudied: totalAnswers,
+  practiceSessions: 1,
+  correctAnswers,
+  totalAnswers,
+  studyTimeMinutes: 30,
+  newMasteredWords: 0,
+});
+
+const createSession = (id: string, endTime: string): StudySession => ({
+  id,
+  startTime: new Date(endTime),
+  endTime: new Date(endTime),
+  wordsStudied: [],
+  sessionType: 'practice',
+});
+
+const findAchievement = (achievements: UserProgress['achievements'], id: string) =>
+  achievements.find(achievement => achievement.id === id)!;
+
+const addWord = async (word: string) => {
+  const result = await vocabularyService.addVocabulary({
+    word,
+    definition: `${word} 的释义`,
+    pronunciation: '',
+    examples: [],
+    category: Web3Category.DEFI,
+    difficulty: DifficultyLevel.BEGINNER,
+    tags: [],
+    isCustom: true,
+    studyCount: 0,
+    accuracy: 0,
+  });
+  return result.data!;
+};
+
+const renderProgress = () => {
+  const hook = renderHook(() => useProgressContext(), { wrapper: ProgressProvider });
+  act(() => {
+    hook.result.current.dispatch({ type: ProgressActionType.SET_USER_PROGRESS, payload: createProgress() });
+  });
+  return hook;
+};
+
+describe('achievementRules', () => {
+  it('should create one set of category achievements per category', () => {
+    const achievements = createAchievements();
+
+    expect(findAchievement(achievements, 'first_word').target).toBe(1);
+    Object.values(Web3Category).forEach(category => {
+      expect(findAchievement(achievements, `category_explorer_${category}`).category).toBe(category);
+      expect(findAchievement(achievements, `category_master_${category}`).tier).toBe(2);
+    });
+
+    const defi = findAchievement(achievements, 'category_master_defi');
+    expect(defi.type).toBe(AchievementType.CATEGORY_MASTER);
+    expect(defi.name).toBe('DeFi大师');
+    expect(defi.description).toBe('掌握20个DeFi单词');
+  });
+
+  it('should compute metrics with category, time window and minimum answer filters', () => {
+    const progress = createProgress({
+      masteredWords: ['w1', 'w2', 'w3'],
+      dailyStats: [createStats('2026-03-01', 10, 10), createStats('2026-03-14', 9, 10)],
+      studySessions: [
+        createSession('s1', '2026-03-01T10:00:00Z'),
+        createSession('s2', '2026-03-10T10:00:00Z'),
+        createSession('s3', '2026-03-15T10:00:00Z'),
+      ],
+    });
+    const input = {
+      progress,
+      wordCategories: { w1: Web3Category.DEFI, w2: Web3Category.DEFI, w3: Web3Category.NFT },
+      now,
+    };
+
+    expect(getMetricValue({ metric: AchievementMetric.WORDS_MASTERED }, input)).toBe(3);
+    expect(getMetricValue({ metric: AchievementMetric.WORDS_MASTERED, category: Web3Category.DEFI }, input)).toBe(2);
+    expect(getMetricValue({ metric: AchievementMetric.PRACTICE_SESSIONS }, input)).toBe(3);
+    expect(getMetricValue({ metric: AchievementMetric.PRACTICE_SESSIONS, windowDays: 7 }, input)).toBe(2);
+    expect(getMetricValue({ metric: AchievementMetric.ACCURACY_RATE }, input)).toBe(95);
+    expect(getMetricValue({ metric: AchievementMetric.ACCURACY_RATE, windowDays: 7 }, input)).toBe(90);
+    // 作答数不足时不计算正确率
+    expect(getMetricValue({ metric: AchievementMetric.ACCURACY_RATE, minAnswers: 50 }, input)).toBe(0);
+  });
+
+  it('should backfill from history and then only update changed conditions', () => {
+    const masteredWords = Array.from({ length: 5 }, (_, index) => `defi_${index}`);
+    const wordCategories = Object.fromEntries(masteredWords.map(wordId => [wordId, Web3Category.DEFI]));
+    const progress = createProgress({ masteredWords, streakDays: 3 });
+
+    const backfill = evaluateAchievements(progress.achievements, { progress, wordCategories, now });
+    expect(backfill.changed).toBe(true);
+    expect(backfill.unlocked.map(achievement => achievement.id).sort()).toEqual(['category_explorer_defi', 'first_word']);
+    expect(findAchievement(backfill.achievements, 'category_master_defi')).toMatchObject({
+      status: AchievementStatus.IN_PROGRESS,
+      progress: 5,
+    });
+    expect(findAchievement(backfill.achievements, 'category_explorer_nft').status).toBe(AchievementStatus.LOCKED);
+    expect(findAchievement(backfill.achievements, 'seven_day_streak').progress).toBe(3);
+
+    // 指标没有变化时不更新成就
+    const updated = { ...progress, achievements: backfill.achievements };
+    const unchanged = evaluateAchievements(updated.achievements, { progress: updated, wordCategories, now }, backfill.snapshot);
+    expect(unchanged.changed).toBe(false);
+    expect(unchanged.achievements).toBe(backfill.achievements);
+
+    const streak = { ...updated, streakDays: 7 };
+    const next = evaluateAchievements(streak.achievements, { progress: streak, wordCategories, now }, backfill.snapshot);
+    expect(next.unlocked.map(achievement => achievement.id)).toEqual(['seven_day_streak']);
+  });
+
+  it('should not relock unlocked achievements when a windowed metric drops', () => {
+    const sessions = Array.from({ length: 7 }, (_, index) => createSession(`s${index}`, `2026-03-1${index}T10:00:00Z`));
+    const progress = createProgress({ studySessions: sessions });
+    const first = evaluateAchievements(progress.achievements, { progress, wordCategories: {}, now: new Date('2026-03-16T12:00:00Z') });
+    expect(findAchievement(first.achievements, 'weekly_practice').status).toBe(AchievementStatus.UNLOCKED);
+
+    const later = { ...progress, achievements: first.achievements };
+    const result = evaluateAchievements(
+      later.achievements,
+      { progress: later, wordCategories: {}, now: new Date('2026-04-30T12:00:00Z') },
+      first.snapshot
+    );
+    expect(findAchievement(result.achievements, 'weekly_practice').status).toBe(AchievementStatus.UNLOCKED);
+  });
+
+  it('should merge saved achievements with the current definitions', () => {
+    const saved = createAchievements()
+      .filter(achievement => achievement.id === 'first_word' || achievement.id === 'ten_words')
+      .map(achievement =>
+        achievement.id === 'first_word'
+          ? { ...achievement, status: AchievementStatus.UNLOCKED, progress: 1, unlockedAt: now }
+          : { ...achievement, status: AchievementStatus.IN_PROGRESS, progress: 4 }
+      );
+    const retired = { ...saved[0], id: 'retired_unlocked' };
+    const retiredLocked = { ...saved[1], id: 'retired_locked' };
+
+    const merged = mergeAchievements([...saved, retired, retiredLocked]);
+
+    expect(merged).toHaveLength(createAchievements().length + 1);
+    expect(findAchievement(merged, 'first_word')).toMatchObject({ status: AchievementStatus.UNLOCKED, unlockedAt: now });
+    expect(findAchievement(merged, 'ten_words').progress).toBe(4);
+    expect(findAchievement(merged, 'category_master_nft').status).toBe(AchievementStatus.LOCKED);
+    expect(merged.some(achievement => achievement.id === 'retired_unlocked')).toBe(true);
+    expect(merged.some(achievement => achievement.id === 'retired_locked')).toBe(false);
+  });
+
+  it('should award reward points only for newly unlocked achievements', () => {
+    const progress = createProgress({ masteredWords: ['w1'] });
+    const state = {
+      userProgress: progress,
+      summary: null,
+      goals: [],
+      currentSession: null,
+      loading: false,
+      error: null,
+      initialized: true,
+    } as ProgressState;
+
+    const { achievements } = evaluateAchievements(progress.achievements, { progress, wordCategories: {}, now });
+    const synced = progressReducer(state, { type: ProgressActionType.SYNC_ACHIEVEMENTS, payload: achievements });
+    expect(synced.userProgress!.totalPoints).toBe(10);
+
+    const again = progressReducer(synced, { type: ProgressActionType.SYNC_ACHIEVEMENTS, payload: achievements });
+    expect(again.userProgress!.totalPoints).toBe(10);
+  });
+});
+
+describe('achievements in the progress provider', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should unlock achievements when practice answers master words', async () => {
+    const words = await Promise.all(['Swap', 'Pool', 'Vault', 'Yield', 'Lending'].map(word => addWord(word)));
+    const { result, unmount } = renderProgress();
+
+    await act(() =>
+      masteryService.recordAnswers(
+        words.flatMap(word =>
+          [1, 2, 3].map(() => ({ wordId: word.id, isCorrect: true, questionType: QuestionType.FILL_BLANK }))
+        )
+      )
+    );
+
+    await waitFor(() => {
+      const progress = result.current.state.userProgress!;
+      expect(progress.masteredWords).toHaveLength(5);
+      expect(findAchievement(progress.achievements, 'first_word').status).toBe(AchievementStatus.UNLOCKED);
+      expect(findAchievement(progress.achievements, 'category_explorer_defi').status).toBe(AchievementStatus.UNLOCKED);
+      expect(progress.totalPoints).toBe(60);
+    });
+    expect(findAchievement(result.current.state.userProgress!.achievements, 'category_explorer_nft').status)
+      .toBe(AchievementStatus.LOCKED);
+    unmount();
+  });
+
+  it('should backfill mastered words from the vocabulary when progress loads', async () => {
+    // 直接保存学习统计，模拟成就规则上线前已经掌握的单词，不会发出掌握事件
+    const word = await addWord('Staking');
+    await vocabularyService.saveStudyStats([{ ...word, studyCount: 5, accuracy: 0.95 }]);
+    const { result, unmount } = renderProgress();
+
+    await waitFor(() => {
+      const progress = result.current.state.userProgress!;
+      expect(progress.masteredWords).toEqual([word.id]);
+      expect(findAchievement(progress.achievements, 'first_word').status).toBe(AchievementStatus.UNLOCKED);
+    });
+    unmount();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiCache, ApiCacheConfig } from '../../services/apiCache';
+import { storageService, sessionStorageService, StorageKey } from '../../services/storage';
+
+const config: ApiCacheConfig = {
+  key: 'test_cache',
+  ttl: 1000,
+  enabled: true,
+  strategy: 'localStorage',
+  maxSize: 2,
+  staleWhileRevalidate: 5000,
+};
+
+describe('ApiCache', () => {
+  beforeEach(() => {
+    storageService.removeItem(StorageKey.API_CACHE);
+    sessionStorageService.removeItem(StorageKey.API_CACHE);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire entries after the ttl and stale window', () => {
+    const cache = new ApiCache<string>({ ...config, staleWhileRevalidate: 0 });
+    cache.set('a', 'value');
+
+    expect(cache.get('a')).toMatchObject({ data: 'value', isStale: false });
+    vi.advanceTimersByTime(1001);
+    expect(cache.get('a')).toBeNull();
+    expect(cache.keys()).toEqual([]);
+  });
+
+  it('should serve stale data while revalidating in the background', async () => {
+    const cache = new ApiCache<string>(config);
+    const fetcher = vi.fn().mockResolvedValue('third').mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+    expect(await cache.getOrFetch('a', fetcher)).toMatchObject({ data: 'first', fromCache: false });
+    expect(await cache.getOrFetch('a', fetcher)).toMatchObject({ data: 'first', fromCache: true, isStale: false });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2000);
+    expect(await cache.getOrFetch('a', fetcher)).toMatchObject({ data: 'first', fromCache: true, isStale: true });
+    await vi.waitFor(() => expect(cache.get('a')).toMatchObject({ data: 'second', isStale: false }));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(6001);
+    expect(await cache.getOrFetch('a', fetcher)).toMatchObject({ data: 'third', fromCache: false });
+  });
+
+  it('should evict the least recently used entry beyond maxSize', () => {
+    const cache = new ApiCache<number>(config);
+    cache.set('a', 1);
+    vi.advanceTimersByTime(10);
+    cache.set('b', 2);
+    vi.advanceTimersByTime(10);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.keys().sort()).toEqual(['a', 'c']);
+  });
+
+  it('should invalidate single keys and keys matching a predicate', () => {
+    const cache = new ApiCache<number>({ ...config, maxSize: 10 });
+    ['remote_10', 'remote_20', 'bundled_10'].forEach((key, index) => cache.set(key, index));
+
+    cache.invalidate('bundled_10');
+    expect(cache.keys()).toEqual(['remote_10', 'remote_20']);
+    cache.invalidateWhere(key => key.startsWith('remote_'));
+    expect(cache.keys()).toEqual([]);
+  });
+
+  it('should persist through API_CACHE unless using the memory strategy', () => {
+    new ApiCache<string>(config).set('a', 'persisted');
+    new ApiCache<string>({ ...config, key: 'memory_cache', strategy: 'memory' }).set('a', 'transient');
+
+    expect(new ApiCache<string>(config).get('a')?.data).toBe('persisted');
+    expect(new ApiCache<string>({ ...config, key: 'memory_cache', strategy: 'memory' }).get('a')).toBeNull();
+    expect(Object.keys(storageService.getItem<Record<string, unknown>>(StorageKey.API_CACHE)!)).toEqual(['test_cache']);
+  });
+
+  it('should keep sessionStorage caches out of localStorage and reject unsupported strategies', () => {
+    const sessionConfig: ApiCacheConfig = { ...config, key: 'session_cache', strategy: 'sessionStorage' };
+    new ApiCache<string>(sessionConfig).set('a', 'session');
+
+    expect(new ApiCache<string>(sessionConfig).get('a')?.data).toBe('session');
+    expect(Object.keys(sessionStorageService.getItem<Record<string, unknown>>(StorageKey.API_CACHE)!)).toEqual(['session_cache']);
+    expect(storageService.getItem(StorageKey.API_CACHE)).toBeNull();
+    expect(() => new ApiCache<string>({ ...config, strategy: 'indexedDB' } as unknown as ApiCacheConfig)).toThrow(
+      'Unsupported cache strategy: indexedDB'
+    );
+  });
+
+  it('should reload after the stored cache is cleared elsewhere', () => {
+    const cache = new ApiCache<string>(config);
+    cache.set('a', 'value');
+
+    storageService.removeItem(StorageKey.API_CACHE);
+
+    expect(cache.get('a')).toBeNull();
+  });
+});
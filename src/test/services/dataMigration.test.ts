@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  dataMigrationService,
+  migrateData,
+  getMigrationPath,
+  compareVersions,
+  DataMigration,
+  mergeUserProgress,
+  mergeVocabularyLists,
+  CURRENT_DATA_VERSION,
+  LEGACY_DATA_VERSION_KEY,
+  MIGRATION_SNAPSHOT_KEY,
+} from '../../services/dataMigration';
+import { storageService, StorageKey, StorageService } from '../../services/storage';
+import { compressString, decompressString } from '../../utils/compression';
+import { storageManager, BackupData } from '../../services/storageManager';
+import { DEFAULT_SETTINGS, ThemeMode, UserProgress, UserSettings, VocabularyItem } from '../../types';
+
+const legacySettings = {
+  theme: 'dark',
+  language: 'en-US',
+  soundEnabled: false,
+  notificationsEnabled: true,
+  autoPlayAudio: true,
+  studyReminder: true,
+  dailyGoal: 30,
+};
+
+const legacyVocabulary = [
+  {
+    id: 'defi',
+    word: 'DeFi',
+    definition: '去中心化金融',
+    category: 'defi',
+    difficulty: 'beginner',
+    tags: ['finance', ' ', 'finance'],
+  },
+];
+
+const readStored = (key: string) => JSON.parse(localStorage.getItem(key)!);
+
+const legacyProgress = {
+  userId: 'user-1',
+  totalWordsStudied: 12,
+  streakDays: 4,
+  masteredWords: ['defi'],
+};
+
+describe('dataMigration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should convert flat 1.0.0 settings into sections', () => {
+    const settings = migrateData<UserSettings>('userSettings', legacySettings, '1.0.0');
+
+    expect(settings.ui.themeMode).toBe(ThemeMode.DARK);
+    expect(settings.audio.enabled).toBe(false);
+    expect(settings.audio.autoPlay).toBe(true);
+    expect(settings.learning.dailyWordGoal).toBe(30);
+    expect(settings.learning.studyReminders.enabled).toBe(true);
+    expect(settings.practice.sessionTimeout).toBe(DEFAULT_SETTINGS.practice.sessionTimeout);
+    expect(settings.version).toBe(CURRENT_DATA_VERSION);
+  });
+
+  it('should fill missing vocabulary statistics and clean tags', () => {
+    const [item] = migrateData<VocabularyItem[]>('vocabularyList', legacyVocabulary, '1.0.0');
+
+    expect(item).toMatchObject({ isCustom: false, studyCount: 0, accuracy: 0, examples: [] });
+    expect(item.tags).toEqual(['finance']);
+  });
+
+  it('should fill missing progress lists', () => {
+    const progress = migrateData<UserProgress>('userProgress', legacyProgress, '1.0.0');
+
+    expect(progress.weakWords).toEqual([]);
+    expect(progress.favoriteWords).toEqual([]);
+    expect(progress.masteredWords).toEqual(['defi']);
+    expect(progress.maxStreakDays).toBe(4);
+  });
+
+  it('should chain migrations and reject gaps or newer data', () => {
+    const registry: DataMigration[] = [
+      { from: '1.0.0', to: '1.1.0', description: 'a', migrate: { userSettings: data => ({ ...(data as object), a: true }) } },
+      { from: '1.1.0', to: '2.0.0', description: 'b', migrate: { userSettings: data => ({ ...(data as object), b: true }) } },
+    ];
+
+    expect(migrateData('userSettings', {}, '1.0.0', '2.0.0', registry)).toEqual({ a: true, b: true });
+    expect(() => getMigrationPath('0.9.0', '2.0.0', registry)).toThrow('缺少从 0.9.0 开始的迁移');
+    expect(() => getMigrationPath('3.0.0', '2.0.0', registry)).toThrow();
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+  });
+
+  it('should migrate stored data on startup', () => {
+    localStorage.setItem('web3_vocab_user_settings', JSON.stringify(legacySettings));
+    localStorage.setItem('vocabulary_data', JSON.stringify({ data: legacyVocabulary, timestamp: 1, version: '1.0.0' }));
+
+    const result = dataMigrationService.runStartupMigrations();
+
+    expect(result).toMatchObject({ success: true, fromVersion: '1.0.0', toVersion: CURRENT_DATA_VERSION });
+    expect(readStored(StorageKey.USER_SETTINGS).data.ui.themeMode).toBe(ThemeMode.DARK);
+    expect(readStored(StorageKey.VOCABULARY_DATA).version).toBe(CURRENT_DATA_VERSION);
+    expect(localStorage.getItem('vocabulary_data')).toBeNull();
+    expect(dataMigrationService.getSnapshot()?.items['web3_vocab_user_settings']).toBe(JSON.stringify(legacySettings));
+    expect(dataMigrationService.runStartupMigrations().steps).toEqual([]);
+  });
+
+  it('should migrate compressed data and report encrypted data', () => {
+    const compressed = `lz:${compressString(JSON.stringify({ data: legacySettings, timestamp: 1, version: '1.0.0' }))}`;
+    localStorage.setItem(StorageKey.USER_SETTINGS, compressed);
+    localStorage.setItem(StorageKey.USER_PROGRESS, 'enc:ciphertext');
+
+    expect(dataMigrationService.getStoredVersion()).toBe('1.0.0');
+    const result = dataMigrationService.runStartupMigrations();
+
+    expect(result).toMatchObject({ success: true, fromVersion: '1.0.0', encryptedKeys: [StorageKey.USER_PROGRESS] });
+    const raw = localStorage.getItem(StorageKey.USER_SETTINGS)!;
+    expect(raw.startsWith('lz:')).toBe(true);
+    expect(JSON.parse(decompressString(raw.slice(3))).version).toBe(CURRENT_DATA_VERSION);
+    expect(storageService.getItem<UserSettings>(StorageKey.USER_SETTINGS)?.ui.themeMode).toBe(ThemeMode.DARK);
+    expect(localStorage.getItem(StorageKey.USER_PROGRESS)).toBe('enc:ciphertext');
+  });
+
+  it('should migrate encrypted data once it is unlocked', async () => {
+    localStorage.setItem(StorageKey.USER_SETTINGS, JSON.stringify({ data: legacySettings, timestamp: 1, version: '1.0.0' }));
+    await new StorageService().enableEncryption('correct horse', 1000);
+    expect(dataMigrationService.runStartupMigrations().encryptedKeys).toEqual([StorageKey.USER_SETTINGS]);
+
+    const unlocked = new StorageService();
+    await unlocked.unlock('correct horse');
+    const result = dataMigrationService.migrateUnlockedData(unlocked);
+    await unlocked.flush();
+
+    expect(result).toMatchObject({ success: true, fromVersion: '1.0.0', toVersion: CURRENT_DATA_VERSION });
+    expect(localStorage.getItem(StorageKey.USER_SETTINGS)?.startsWith('enc:')).toBe(true);
+    const reopened = new StorageService();
+    await reopened.unlock('correct horse');
+    expect(reopened.getStoredItem<UserSettings>(StorageKey.USER_SETTINGS)).toMatchObject({
+      version: CURRENT_DATA_VERSION,
+      data: { ui: { themeMode: ThemeMode.DARK } },
+    });
+    expect(dataMigrationService.migrateUnlockedData(reopened).steps).toEqual([]);
+  });
+
+  it('should restore the snapshot when a migration fails', () => {
+    const raw = JSON.stringify(legacySettings);
+    localStorage.setItem('web3_vocab_user_settings', raw);
+    localStorage.setItem('web3_vocab_user_progress', JSON.stringify(legacyProgress));
+    const registry: DataMigration[] = [
+      {
+        from: '1.0.0',
+        to: '1.1.0',
+        description: 'broken',
+        migrate: {
+          userProgress: data => data,
+          userSettings: () => {
+            throw new Error('boom');
+          },
+        },
+      },
+    ];
+
+    const result = dataMigrationService.runStartupMigrations(registry);
+
+    expect(result.success).toBe(false);
+    expect(result.toVersion).toBe('1.0.0');
+    expect(localStorage.getItem('web3_vocab_user_settings')).toBe(raw);
+    expect(dataMigrationService.hasLegacyData()).toBe(true);
+    expect(localStorage.getItem(MIGRATION_SNAPSHOT_KEY)).not.toBeNull();
+  });
+
+  it('should migrate old backups before restoring them', async () => {
+    const backup = {
+      version: '1.0.0',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      userProgress: legacyProgress,
+      vocabularyList: legacyVocabulary,
+      learningSessions: [],
+      userSettings: legacySettings,
+      masteredWords: [],
+      favoriteWords: [],
+      practiceResults: [],
+    } as unknown as BackupData;
+
+    await storageManager.restoreFromBackup(backup);
+
+    const settings = await storageManager.getUserSettings();
+    expect(settings.learning.dailyWordGoal).toBe(30);
+    expect((await storageManager.getVocabularyList())[0].studyCount).toBe(0);
+    expect(readStored(StorageKey.USER_SETTINGS).version).toBe(CURRENT_DATA_VERSION);
+  });
+
+  it('should merge data saved under both key sets once', () => {
+    const managerProgress = { ...legacyProgress, masteredWords: ['defi'], streakDays: 2, updatedAt: '2024-01-02' };
+    const serviceProgress = { ...legacyProgress, masteredWords: ['dao'], streakDays: 5, updatedAt: '2024-01-01' };
+    localStorage.setItem(LEGACY_DATA_VERSION_KEY, CURRENT_DATA_VERSION);
+    localStorage.setItem('web3_vocab_user_progress', JSON.stringify(managerProgress));
+    localStorage.setItem('user_progress', JSON.stringify({ data: serviceProgress, timestamp: 1, version: '1.0.0' }));
+    localStorage.setItem('vocabulary_favorites', JSON.stringify({ data: ['dao'], timestamp: 1, version: '1.0.0' }));
+    localStorage.setItem('web3_vocab_favorite_words', JSON.stringify(['defi']));
+    localStorage.setItem('learning_data', JSON.stringify({ defi: { wordId: 'defi' } }));
+
+    const result = dataMigrationService.runStartupMigrations();
+
+    expect(result.success).toBe(true);
+    expect(dataMigrationService.hasLegacyData()).toBe(false);
+    const progress = storageService.getItem<UserProgress>(StorageKey.USER_PROGRESS);
+    expect(progress?.masteredWords.sort()).toEqual(['dao', 'defi']);
+    expect(progress?.streakDays).toBe(5);
+    expect(storageService.getItem<string[]>(StorageKey.VOCABULARY_FAVORITES)?.sort()).toEqual(['dao', 'defi']);
+    expect(storageService.getItem(StorageKey.LEARNING_DATA)).toEqual({ defi: { wordId: 'defi' } });
+    expect(localStorage.getItem('learning_data')).toBeNull();
+  });
+
+  it('should keep the newer copy when merging records', () => {
+    const older = { ...legacyVocabulary[0], id: 'defi', updatedAt: '2024-01-01' } as unknown as VocabularyItem;
+    const newer = { ...older, definition: '新定义', updatedAt: '2024-02-01' } as unknown as VocabularyItem;
+    expect(mergeVocabularyLists([newer], [older])).toEqual([newer]);
+
+    const progress = migrateData<UserProgress>('userProgress', legacyProgress, '1.0.0');
+    const merged = mergeUserProgress(
+      { ...progress, level: 3, updatedAt: new Date('2024-02-01') },
+      { ...progress, level: 1, weakWords: ['nft'], updatedAt: new Date('2024-01-01') }
+    );
+    expect(merged.level).toBe(3);
+    expect(merged.weakWords).toEqual(['nft']);
+  });
+});
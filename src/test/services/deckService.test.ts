@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { deckService, resolveDeckVocabulary, moveDeckWord } from '../../services/deckService';
+import { practiceService, buildPracticeConfig } from '../../services/practiceService';
+import { storageManager } from '../../services/storageManager';
+import { DEFAULT_SETTINGS, QuestionType } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const vocabulary = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => createVocabularyItem(id));
+
+describe('deckService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should validate deck names', async () => {
+    expect((await deckService.createDeck({ name: '  ' })).error).toBe('卡组名称不能为空');
+    expect((await deckService.createDeck({ name: 'x'.repeat(61) })).success).toBe(false);
+
+    const created = await deckService.createDeck({ name: ' Audit prep ', description: '重入与 MEV' });
+    expect(created.data).toMatchObject({ name: 'Audit prep', wordIds: [], settings: { randomOrder: true } });
+    expect((await deckService.createDeck({ name: 'audit PREP' })).error).toBe('卡组名称已存在');
+
+    const other = (await deckService.createDeck({ name: 'Other' })).data!;
+    expect((await deckService.updateDeck(other.id, { name: 'Audit Prep' })).success).toBe(false);
+    expect((await deckService.updateDeck(created.data!.id, { name: 'AUDIT PREP' })).success).toBe(true);
+  });
+
+  it('should keep words ordered and unique', async () => {
+    const deck = (await deckService.createDeck({ name: 'Deck' })).data!;
+    await deckService.addWords(deck.id, ['c', 'a']);
+    await deckService.addWords(deck.id, ['a', 'b', 'missing']);
+    await deckService.moveWord(deck.id, 2, 0);
+    await deckService.removeWords(deck.id, ['a']);
+
+    const saved = (await deckService.getDeck(deck.id))!;
+    expect(saved.wordIds).toEqual(['b', 'c', 'missing']);
+    expect(saved.createdAt).toBeInstanceOf(Date);
+    expect(resolveDeckVocabulary(saved, vocabulary).map(item => item.id)).toEqual(['b', 'c']);
+    expect(moveDeckWord(['a', 'b'], 0, 5)).toEqual(['a', 'b']);
+  });
+
+  it('should drive practice config and question order', async () => {
+    const deck = (await deckService.createDeck({
+      name: 'Ordered',
+      wordIds: ['e', 'b', 'd'],
+      settings: { randomOrder: false, questionTypes: [QuestionType.MULTIPLE_CHOICE], questionCount: 2 },
+    })).data!;
+
+    const config = buildPracticeConfig('quick', DEFAULT_SETTINGS.practice, deck);
+    expect(config).toMatchObject({ deckId: deck.id, questionCount: 2, randomOrder: false });
+
+    const session = practiceService.buildPracticeSession('quick', vocabulary, DEFAULT_SETTINGS.practice, { seed: 1 }, deck)!;
+    expect(session.questions.map(question => question.vocabulary.id)).toEqual(['e', 'b']);
+    expect(session.questions.every(question => question.type === QuestionType.MULTIPLE_CHOICE)).toBe(true);
+    expect(session.config.questionCount).toBe(2);
+  });
+
+  it('should be included in backups', async () => {
+    const deck = (await deckService.createDeck({ name: 'Backup', wordIds: ['a'] })).data!;
+    const backup = await storageManager.createBackup();
+    expect(backup.decks?.map(item => item.id)).toEqual([deck.id]);
+
+    await deckService.deleteDeck(deck.id);
+    expect(await deckService.getAllDecks()).toEqual([]);
+
+    await storageManager.restoreFromBackup(backup);
+    expect((await deckService.getAllDecks()).map(item => item.name)).toEqual(['Backup']);
+  });
+
+  it('should follow merged and deleted words', async () => {
+    const deck = (await deckService.createDeck({ name: 'Merge', wordIds: ['a', 'b', 'c'] })).data!;
+    await storageManager.mergeLearningData('c', 'a');
+    expect((await deckService.getDeck(deck.id))!.wordIds).toEqual(['c', 'b']);
+
+    await deckService.removeWordsFromAllDecks(['b']);
+    expect((await deckService.getDeck(deck.id))!.wordIds).toEqual(['c']);
+  });
+});
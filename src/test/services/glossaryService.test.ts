@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  glossaryService,
+  validateGlossaryEntries,
+  normalizeTerm,
+  GlossaryEntry,
+} from '../../services/glossaryService';
+import { web3VocabularyAPI } from '../../services/web3VocabularyAPI';
+import { DifficultyLevel, Web3Category } from '../../types';
+
+const entry: GlossaryEntry = {
+  word: 'Smart Contract',
+  definition: '智能合约，自动执行的程序',
+  englishDefinition: 'A program that executes automatically on a blockchain',
+  pronunciation: 'smɑːrt ˈkɒntrækt',
+  category: Web3Category.PROTOCOL,
+  difficulty: DifficultyLevel.INTERMEDIATE,
+  tags: ['合约'],
+  examples: ['智能合约部署后无法修改。', 'Smart contracts cannot be changed after deployment.'],
+};
+
+describe('glossaryService', () => {
+  it('should ship a valid pack covering every category', async () => {
+    const { pack, validation } = await glossaryService.loadPack();
+
+    expect(validation.issues).toEqual([]);
+    expect(validation.valid).toHaveLength(pack.entries.length);
+    Object.values(Web3Category).forEach(category => {
+      expect(pack.entries.filter(item => item.category === category).length).toBeGreaterThanOrEqual(5);
+    });
+  });
+
+  it('should reject duplicates and entries failing the vocabulary rules', () => {
+    const { valid, issues } = validateGlossaryEntries([
+      entry,
+      { ...entry, word: 'smart-contract' },
+      { ...entry, word: 'ERC-20' },
+      { ...entry, word: 'Bad$Word' },
+      { ...entry, word: 'Oracle', definition: '短' },
+      { ...entry, word: 'Rollup', category: 'defi2' as Web3Category },
+      { ...entry, word: 'Bridge', examples: ['Only an English example.'] },
+    ]);
+
+    expect(valid.map(item => item.word)).toEqual(['Smart Contract', 'ERC-20']);
+    expect(issues.map(issue => [issue.word, issue.field])).toEqual([
+      ['smart-contract', 'word'],
+      ['Bad$Word', 'word'],
+      ['Oracle', 'definition'],
+      ['Rollup', 'category'],
+      ['Bridge', 'examples'],
+    ]);
+    expect(issues[0].message).toBe('与第 1 条词汇重复');
+  });
+
+  it('should serve real terms without padded copies', async () => {
+    const result = await web3VocabularyAPI.getWeb3Vocabulary(1000);
+    const words = result.data!.map(item => normalizeTerm(item.word));
+
+    expect(result.success).toBe(true);
+    expect(new Set(words).size).toBe(words.length);
+    expect(result.data).toHaveLength((await glossaryService.loadPack()).pack.entries.length);
+    expect(result.data!.find(item => item.word === 'ERC-20')?.id).toBe('web3-core_erc_20');
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import {
+  applyAnswer,
+  getMasteryLevel,
+  getMasteryStatus,
+  updateAccuracy,
+  MasteryState,
+} from '../../services/vocabularyMastery';
+import { masteryService, MasteryUpdate } from '../../services/masteryService';
+import { practiceService } from '../../services/practiceService';
+import { vocabularyService } from '../../services/vocabularyService';
+import { storageManager } from '../../services/storageManager';
+import { wordHistoryService } from '../../services/wordHistory';
+import { storageService, StorageKey } from '../../services/storage';
+import { ProgressProvider, useProgressContext, ProgressActionType } from '../../contexts/ProgressContext';
+import { useProgress } from '../../hooks/useProgress';
+import {
+  DifficultyLevel,
+  PracticeDifficulty,
+  QuestionType,
+  UserAnswer,
+  UserProgress,
+  VocabularyItem,
+  Web3Category,
+} from '../../types';
+
+const fresh: MasteryState = { accuracy: 0, studyCount: 0 };
+
+const answerAll = (state: MasteryState, results: boolean[], questionType = QuestionType.FILL_BLANK) =>
+  results.reduce((current, isCorrect) => applyAnswer(current, { isCorrect, questionType }), state);
+
+const addWord = async (word: string): Promise<VocabularyItem> => {
+  const result = await vocabularyService.addVocabulary({
+    word,
+    definition: `${word} 的释义`,
+    pronunciation: '',
+    examples: [],
+    category: Web3Category.DEFI,
+    difficulty: DifficultyLevel.BEGINNER,
+    tags: [],
+    isCustom: true,
+    studyCount: 0,
+    accuracy: 0,
+  });
+  return result.data!;
+};
+
+describe('vocabularyMastery', () => {
+  it('should weight answers by question type and recency', () => {
+    expect(updateAccuracy(fresh, { isCorrect: true, questionType: QuestionType.FILL_BLANK })).toBe(1);
+    expect(updateAccuracy(fresh, { isCorrect: true, questionType: QuestionType.TRUE_FALSE })).toBe(0.5);
+
+    // 作答次数多时最近一次仍然占固定比例
+    const seasoned = { accuracy: 0.5, studyCount: 50 };
+    expect(updateAccuracy(seasoned, { isCorrect: true, questionType: QuestionType.DRAG_DROP })).toBe(0.6);
+    expect(updateAccuracy(seasoned, { isCorrect: false, questionType: QuestionType.DRAG_DROP })).toBe(0.4);
+  });
+
+  it('should promote after enough answers and demote on mistakes', () => {
+    const twice = answerAll(fresh, [true, true]);
+    expect(getMasteryLevel(twice)).toBe(3);
+    expect(getMasteryStatus(twice)).toBe('learning');
+
+    const mastered = answerAll(twice, [true]);
+    expect(getMasteryLevel(mastered)).toBe(5);
+    expect(getMasteryStatus(mastered)).toBe('mastered');
+
+    // 判断题答错影响较小，填空题答错会跌出已掌握
+    expect(getMasteryStatus(answerAll(mastered, [false], QuestionType.TRUE_FALSE))).toBe('mastered');
+    expect(getMasteryStatus(answerAll(mastered, [false]))).toBe('learning');
+    expect(getMasteryStatus(fresh)).toBe('new');
+  });
+});
+
+describe('masteryService', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should update words from practice sessions and emit threshold events', async () => {
+    const item = await addWord('Oracle');
+    const updates: MasteryUpdate[] = [];
+    const unsubscribe = masteryService.subscribe(update => updates.push(update));
+
+    const question = {
+      id: 'q',
+      type: QuestionType.FILL_BLANK,
+      vocabulary: item,
+      question: '',
+      correctAnswer: item.word,
+      difficulty: PracticeDifficulty.EASY,
+      points: 10,
+      timeLimit: 30,
+    };
+    const answer = (questionId: string, isCorrect: boolean): UserAnswer => ({
+      questionId,
+      answer: isCorrect ? item.word : 'Bridge',
+      isCorrect,
+      timeSpent: 5,
+      answeredAt: new Date(),
+      score: isCorrect ? 10 : 0,
+    });
+    const questions = ['q1', 'q2', 'q3'].map(id => ({ ...question, id }));
+
+    const session = practiceService.createSession('quick', questions);
+    await practiceService.recordSessionResults(
+      practiceService.completeSession(session, questions.map(({ id }) => answer(id, true)))
+    );
+
+    const saved = (await vocabularyService.getVocabularyById(item.id))!;
+    expect(saved).toMatchObject({ accuracy: 1, studyCount: 3, updatedAt: item.updatedAt });
+    expect((await storageManager.getLearningData(item.id)).masteryLevel).toBe(5);
+    expect((await vocabularyService.getVocabularyStats()).mastered).toBe(1);
+    expect(updates[0].events).toEqual([
+      { wordId: item.id, word: 'Oracle', type: 'mastered', previousLevel: 1, level: 5 },
+    ]);
+
+    await masteryService.recordAnswers([{ wordId: item.id, isCorrect: false, questionType: QuestionType.LISTENING }]);
+    expect(updates[1].events.map(event => event.type)).toEqual(['demoted']);
+    expect((await wordHistoryService.getHistory(item.id)).map(event => event.type)).toEqual([
+      'answered', 'answered', 'answered', 'mastered', 'demoted',
+    ]);
+
+    unsubscribe();
+  });
+
+  it('should mark words as mastered and reset them', async () => {
+    const item = await addWord('Bridge');
+    const reviewedAt = '2024-01-01T00:00:00.000Z';
+    await storageManager.importLearningData([{
+      ...(await storageManager.getLearningData(item.id)),
+      reviewCount: 2,
+      lastReviewDate: reviewedAt,
+    }]);
+    const { result, unmount } = renderHook(() => useProgressContext(), { wrapper: ProgressProvider });
+    const progress = await storageManager.getUserProgress();
+    act(() => {
+      result.current.dispatch({ type: ProgressActionType.SET_USER_PROGRESS, payload: progress });
+    });
+
+    await act(() => masteryService.markMastered([item.id]));
+    expect(getMasteryStatus((await vocabularyService.getVocabularyById(item.id))!)).toBe('mastered');
+    await waitFor(() => expect(result.current.state.userProgress!.masteredWords).toContain(item.id));
+    expect(await storageManager.getLearningData(item.id)).toMatchObject({ masteryLevel: 4, lastReviewDate: reviewedAt });
+
+    await act(() => masteryService.resetWords([item.id]));
+    expect(await vocabularyService.getVocabularyById(item.id)).toMatchObject({ accuracy: 0, studyCount: 0 });
+    expect(await storageManager.getLearningData(item.id)).toMatchObject({ reviewCount: 0, lastReviewDate: reviewedAt });
+    await waitFor(() => expect(result.current.state.userProgress!.masteredWords).not.toContain(item.id));
+    expect((await wordHistoryService.getHistory(item.id)).map(event => event.type)).toEqual(['mastered', 'reset']);
+    unmount();
+  });
+
+  it('should drop demoted words from the saved progress', async () => {
+    const item = await addWord('Relayer');
+    const savedMasteredWords = () => storageService.getItem<UserProgress>(StorageKey.USER_PROGRESS)?.masteredWords;
+    const { result, unmount } = renderHook(() => useProgress(), { wrapper: ProgressProvider });
+    await act(() => result.current.initializeProgress());
+
+    await act(() => masteryService.markMastered([item.id]));
+    await waitFor(() => expect(savedMasteredWords()).toContain(item.id));
+
+    await act(() => masteryService.recordAnswers([{ wordId: item.id, isCorrect: false, questionType: QuestionType.FILL_BLANK }]));
+    await waitFor(() => expect(savedMasteredWords()).not.toContain(item.id));
+    unmount();
+  });
+});
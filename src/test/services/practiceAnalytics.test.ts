@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzePracticeSession,
+  detectWeakAreas,
+  getReviewSuggestions,
+  parseWeakArea,
+} from '../../services/practiceAnalytics';
+import { practiceService } from '../../services/practiceService';
+import { buildTrueFalse, createRandom } from '../../services/questionGenerator';
+import {
+  DifficultyLevel,
+  Web3Category,
+  UserAnswer,
+  QuestionType,
+  PracticeDifficulty,
+  PracticeSession,
+} from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const vocabulary = [
+  createVocabularyItem('a', { tags: ['AMM', 'liquidity'] }),
+  createVocabularyItem('b', { tags: ['amm'] }),
+  createVocabularyItem('c', { category: Web3Category.NFT, difficulty: DifficultyLevel.ADVANCED }),
+  createVocabularyItem('d', { category: Web3Category.NFT }),
+];
+
+const createAnswer = (questionId: string, isCorrect: boolean, overrides: Partial<UserAnswer> = {}): UserAnswer => ({
+  questionId,
+  answer: isCorrect ? 'true' : 'false',
+  isCorrect,
+  timeSpent: 5,
+  answeredAt: new Date('2024-01-01T10:00:00'),
+  score: isCorrect ? 10 : 0,
+  ...overrides,
+});
+
+/**
+ * a、b 答错，c 答对但很慢，d 未作答
+ */
+const createSession = (): PracticeSession => {
+  const random = createRandom(1);
+  const questions = vocabulary.map((item, index) =>
+    buildTrueFalse(item, { pool: vocabulary, random, id: `q${index}` })
+  );
+  const session = {
+    ...practiceService.createSession('quick', questions),
+    startTime: new Date('2024-01-01T10:00:00'),
+  };
+
+  return {
+    ...practiceService.completeSession(session, [
+      createAnswer('q0', false),
+      createAnswer('q1', false),
+      createAnswer('q2', true, { timeSpent: questions[2].timeLimit }),
+      createAnswer('q3', false, { answer: '' }),
+    ]),
+    endTime: new Date('2024-01-01T10:02:00'),
+  };
+};
+
+describe('practiceAnalytics', () => {
+  describe('analyzePracticeSession', () => {
+    it('should summarize answers and time', () => {
+      const result = analyzePracticeSession(createSession());
+
+      expect(result).toMatchObject({
+        totalQuestions: 4,
+        correctAnswers: 1,
+        wrongAnswers: 2,
+        skippedAnswers: 1,
+        accuracy: 0.25,
+        totalTime: 120,
+        totalScore: 10,
+      });
+    });
+
+    it('should break results down by question type and difficulty', () => {
+      const result = analyzePracticeSession(createSession());
+
+      expect(result.byQuestionType[QuestionType.TRUE_FALSE]).toEqual({ total: 4, correct: 1, accuracy: 0.25 });
+      expect(result.byQuestionType[QuestionType.MATCHING]).toEqual({ total: 0, correct: 0, accuracy: 0 });
+      expect(result.byDifficulty[PracticeDifficulty.HARD]).toEqual({ total: 1, correct: 1, accuracy: 1 });
+      expect(result.byDifficulty[PracticeDifficulty.EASY].total).toBe(3);
+    });
+  });
+
+  describe('detectWeakAreas', () => {
+    it('should find categories and tags with clustered errors', () => {
+      const areas = detectWeakAreas(createSession());
+
+      expect(areas.map(area => `${area.kind}:${area.key}`)).toEqual(['category:defi', 'tag:amm']);
+      expect(areas[0]).toMatchObject({ total: 2, wrong: 2, errorRate: 1 });
+    });
+
+    it('should respect custom thresholds', () => {
+      const areas = detectWeakAreas(createSession(), { minErrors: 1, minErrorRate: 0.5 });
+      expect(areas.map(area => area.key)).toContain('nft');
+      expect(areas.map(area => area.key)).toContain('liquidity');
+    });
+  });
+
+  describe('getReviewSuggestions', () => {
+    it('should list wrong and skipped words before slow correct ones', () => {
+      expect(getReviewSuggestions(createSession())).toEqual(['a', 'b', 'd', 'c']);
+    });
+  });
+
+  describe('parseWeakArea', () => {
+    it('should parse area identifiers', () => {
+      expect(parseWeakArea('tag:layer-2')).toEqual({ kind: 'tag', key: 'layer-2' });
+      expect(parseWeakArea('unknown')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  practiceService,
+  selectReviewWords,
+  buildPracticeConfig,
+  createPracticeResultRecord,
+} from '../../services/practiceService';
+import { buildMultipleChoice, createRandom } from '../../services/questionGenerator';
+import { ReviewSchedule } from '../../services/reviewScheduler';
+import { UserAnswer, DEFAULT_SETTINGS } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createSchedule = (wordId: string): ReviewSchedule => ({
+  wordId,
+  algorithm: 'spaced_repetition',
+  easeFactor: 2.5,
+  intervalDays: 1,
+  dueDate: new Date('2024-01-01'),
+  overdueDays: 0,
+  isDue: true,
+});
+
+const vocabulary = ['a', 'b', 'c', 'd', 'e'].map(id => createVocabularyItem(id));
+
+describe('practiceService', () => {
+  describe('selectReviewWords', () => {
+    it('should take due words first and then weak words without duplicates', () => {
+      const words = selectReviewWords(
+        vocabulary,
+        [createSchedule('c'), createSchedule('a')],
+        ['a', 'e', 'missing'],
+        10
+      );
+
+      expect(words.map(item => item.id)).toEqual(['c', 'a', 'e']);
+    });
+
+    it('should respect the limit', () => {
+      const words = selectReviewWords(vocabulary, [createSchedule('b')], ['c', 'd'], 2);
+      expect(words.map(item => item.id)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('completeSession', () => {
+    it('should summarize score and accuracy', () => {
+      const random = createRandom(1);
+      const questions = vocabulary
+        .slice(0, 2)
+        .map((item, index) => buildMultipleChoice(item, { pool: vocabulary, random, id: `q${index}` })!);
+      const session = practiceService.createSession('review', questions);
+      const answers: UserAnswer[] = [
+        { questionId: questions[0].id, answer: '0', isCorrect: true, timeSpent: 3, answeredAt: new Date(), score: 10 },
+        { questionId: questions[1].id, answer: '1', isCorrect: false, timeSpent: 5, answeredAt: new Date(), score: 0 },
+      ];
+
+      const completed = practiceService.completeSession(session, answers);
+
+      expect(session.maxScore).toBe(20);
+      expect(completed.status).toBe('completed');
+      expect(completed.totalScore).toBe(10);
+      expect(completed.accuracy).toBe(0.5);
+      expect(practiceService.getWordResults(completed)).toEqual([
+        { wordId: 'a', isCorrect: true, timeSpent: 3 },
+        { wordId: 'b', isCorrect: false, timeSpent: 5 },
+      ]);
+    });
+  });
+
+  describe('buildPracticeConfig', () => {
+    it('should derive the session time limit from practice settings', () => {
+      const settings = { ...DEFAULT_SETTINGS.practice, defaultQuestionCount: 8, defaultTimeLimit: 20 };
+
+      const quick = buildPracticeConfig('quick', settings);
+      expect(quick.questionCount).toBe(8);
+      expect(quick.timedMode).toBe(false);
+      expect(quick.totalTimeLimit).toBeUndefined();
+
+      const timed = buildPracticeConfig('timed', settings);
+      expect(timed.timedMode).toBe(true);
+      expect(timed.totalTimeLimit).toBe(160);
+    });
+  });
+
+  describe('buildPracticeSession', () => {
+    it('should size the session to the generated questions', () => {
+      const settings = { ...DEFAULT_SETTINGS.practice, defaultQuestionCount: 10, defaultTimeLimit: 30 };
+      const session = practiceService.buildPracticeSession('timed', vocabulary, settings, { seed: 1 })!;
+
+      expect(session.mode).toBe('timed');
+      expect(session.questions).toHaveLength(vocabulary.length);
+      expect(session.config.totalTimeLimit).toBe(vocabulary.length * 30);
+      expect(practiceService.buildPracticeSession('quick', [], settings)).toBeNull();
+    });
+  });
+
+  describe('createPracticeResultRecord', () => {
+    it('should record per-question results and timeout state', () => {
+      const random = createRandom(2);
+      const questions = vocabulary
+        .slice(0, 3)
+        .map((item, index) => buildMultipleChoice(item, { pool: vocabulary, random, id: `q${index}` })!);
+      const session = {
+        ...practiceService.createSession('timed', questions, { timedMode: true, totalTimeLimit: 90 }),
+        startTime: new Date('2024-01-01T10:00:00'),
+      };
+      const completed = {
+        ...practiceService.completeSession(session, [
+          { questionId: 'q0', answer: '0', isCorrect: true, timeSpent: 4, answeredAt: new Date(), score: 10 },
+        ]),
+        endTime: new Date('2024-01-01T10:01:30'),
+      };
+
+      const record = createPracticeResultRecord(completed, { timedOut: true });
+
+      expect(record).toMatchObject({
+        sessionId: session.id,
+        mode: 'timed',
+        duration: 90,
+        totalQuestions: 3,
+        answeredQuestions: 1,
+        correctAnswers: 1,
+        timeLimit: 90,
+        timedOut: true,
+      });
+      expect(record.answers[0]).toMatchObject({ wordId: 'a', type: 'multiple_choice', timeSpent: 4 });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateQuestions,
+  buildMultipleChoice,
+  buildFillBlank,
+  buildListening,
+  buildDragDrop,
+  buildTrueFalse,
+  buildMatching,
+  createRandom,
+  pickDistractors,
+  getQuestionSettings,
+  QuestionBuildContext,
+} from '../../services/questionGenerator';
+import { DEFAULT_PRACTICE_CONFIG } from '../../services/practiceService';
+import {
+  VocabularyItem,
+  DifficultyLevel,
+  Web3Category,
+  QuestionType,
+  PracticeDifficulty,
+  PracticeConfig,
+  VocabularyRelationType,
+} from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createItem = (id: string, overrides: Partial<VocabularyItem> = {}): VocabularyItem =>
+  createVocabularyItem(id, { examples: [`The Word${id} term is used here`], ...overrides });
+
+const vocabulary: VocabularyItem[] = [
+  createItem('a'),
+  createItem('b'),
+  createItem('c'),
+  createItem('d'),
+  createItem('e', { category: Web3Category.NFT }),
+  createItem('f', { category: Web3Category.NFT, difficulty: DifficultyLevel.ADVANCED }),
+  createItem('g', { category: Web3Category.NFT, audioUrl: 'https://example.com/g.mp3' }),
+];
+
+const createContext = (seed = 1): QuestionBuildContext => ({
+  pool: vocabulary,
+  random: createRandom(seed),
+  id: 'question_1',
+});
+
+const createConfig = (overrides: Partial<PracticeConfig> = {}): PracticeConfig => ({
+  ...DEFAULT_PRACTICE_CONFIG,
+  ...overrides,
+});
+
+describe('questionGenerator', () => {
+  describe('generateQuestions', () => {
+    it('should reproduce the same quiz for the same seed', () => {
+      const config = createConfig({ questionCount: 5 });
+      const first = generateQuestions(vocabulary, config, { seed: 42 });
+      const second = generateQuestions(vocabulary, config, { seed: 42 });
+
+      expect(first).toHaveLength(5);
+      expect(second).toEqual(first);
+    });
+
+    it('should only use the configured question types', () => {
+      const questions = generateQuestions(
+        vocabulary,
+        createConfig({ questionCount: 7, questionTypes: [QuestionType.TRUE_FALSE, QuestionType.MATCHING] }),
+        { seed: 7 }
+      );
+
+      expect(questions).toHaveLength(7);
+      questions.forEach(question => {
+        expect([QuestionType.TRUE_FALSE, QuestionType.MATCHING]).toContain(question.type);
+      });
+    });
+
+    it('should fall back to another type when a word cannot build the preferred one', () => {
+      const questions = generateQuestions(
+        vocabulary,
+        createConfig({ questionCount: 7, questionTypes: [QuestionType.LISTENING, QuestionType.MULTIPLE_CHOICE] }),
+        { seed: 3 }
+      );
+
+      questions
+        .filter(question => question.type === QuestionType.LISTENING)
+        .forEach(question => expect(question.vocabulary.id).toBe('g'));
+      expect(questions).toHaveLength(7);
+    });
+
+    it('should filter by category and difficulty', () => {
+      const questions = generateQuestions(
+        vocabulary,
+        createConfig({
+          questionCount: 10,
+          categories: [Web3Category.NFT],
+          difficulties: [PracticeDifficulty.EASY],
+        }),
+        { seed: 1 }
+      );
+
+      expect(questions.map(question => question.vocabulary.id).sort()).toEqual(['e', 'g']);
+    });
+
+    it('should keep question ids unique', () => {
+      const questions = generateQuestions(vocabulary, createConfig({ questionCount: 7 }), { seed: 9 });
+      expect(new Set(questions.map(question => question.id)).size).toBe(questions.length);
+    });
+  });
+
+  describe('question builders', () => {
+    it('should prefer distractors from the same category', () => {
+      const distractors = pickDistractors(vocabulary[0], vocabulary, 3, createRandom(5));
+      expect(distractors.map(item => item.category)).toEqual([
+        Web3Category.DEFI,
+        Web3Category.DEFI,
+        Web3Category.DEFI,
+      ]);
+    });
+
+    it('should prefer related terms and skip aliases as distractors', () => {
+      const item = createItem('a', {
+        relations: [
+          { type: VocabularyRelationType.ABBREVIATION_OF, targetId: 'b' },
+          { type: VocabularyRelationType.RELATED, targetId: 'f' },
+        ],
+      });
+      const pool = [
+        item,
+        ...vocabulary.slice(1, 4),
+        createItem('e', { category: Web3Category.NFT, relations: [{ type: VocabularyRelationType.OPPOSITE, targetId: 'a' }] }),
+        ...vocabulary.slice(5),
+      ];
+
+      const distractors = pickDistractors(item, pool, 4, createRandom(5));
+
+      expect(distractors.slice(0, 2).map(other => other.id).sort()).toEqual(['e', 'f']);
+      expect(distractors.map(other => other.id)).not.toContain('b');
+    });
+
+    it('should build multiple choice with the correct definition', () => {
+      const question = buildMultipleChoice(vocabulary[0], createContext())!;
+
+      expect(question.options).toHaveLength(4);
+      expect(question.options[question.correctIndex]).toBe('Definition a');
+    });
+
+    it('should build fill blank from examples', () => {
+      const question = buildFillBlank(vocabulary[0], createContext())!;
+
+      expect(question.template).toBe('The ___ term is used here');
+      expect(question.blanks[0].answer).toBe('Worda');
+      expect(buildFillBlank(createItem('x', { examples: [] }), createContext())).toBeNull();
+    });
+
+    it('should only blank whole terms in fill blank examples', () => {
+      const dao = createItem('x', { word: 'DAO', examples: ['Many DAOs vote on proposals'] });
+      expect(buildFillBlank(dao, createContext())).toBeNull();
+
+      const gas = createItem('y', { word: 'gas', examples: ['Fees in Vegas are paid in Gas.'] });
+      const question = buildFillBlank(gas, createContext())!;
+      expect(question.template).toBe('Fees in Vegas are paid in ___.');
+      expect(question.blanks[0].answer).toBe('Gas');
+    });
+
+    it('should require audio for listening questions', () => {
+      expect(buildListening(vocabulary[0], createContext())).toBeNull();
+      expect(buildListening(vocabulary[6], createContext())?.correctAnswer).toBe('Wordg');
+    });
+
+    it('should build drag drop items that restore the example', () => {
+      const question = buildDragDrop(vocabulary[0], createContext())!;
+      const ordered = [...question.items].sort((a, b) => a.correctPosition - b.correctPosition);
+
+      expect(ordered.map(item => item.content).join(' ')).toBe('The Worda term is used here');
+    });
+
+    it('should never present drag drop items in the correct order', () => {
+      const item = createItem('x', { examples: ['Stake your tokens'] });
+      for (let seed = 1; seed <= 30; seed++) {
+        const question = buildDragDrop(item, createContext(seed))!;
+        expect(question.items.map(entry => entry.correctPosition)).not.toEqual([0, 1, 2]);
+      }
+    });
+
+    it('should build true false with a consistent answer', () => {
+      for (let seed = 1; seed <= 10; seed++) {
+        const question = buildTrueFalse(vocabulary[0], createContext(seed));
+        expect(question.question.includes('Definition a')).toBe(question.isTrue);
+        expect(question.correctAnswer).toBe(String(question.isTrue));
+      }
+    });
+
+    it('should build matching pairs for every left item', () => {
+      const question = buildMatching(vocabulary[0], createContext())!;
+
+      expect(question.leftItems).toHaveLength(4);
+      expect(question.correctMatches).toHaveLength(4);
+      const rightContent = new Map(question.rightItems.map(item => [item.id, item.content]));
+      const leftContent = new Map(question.leftItems.map(item => [item.id, item.content]));
+      question.correctMatches.forEach(match => {
+        const word = leftContent.get(match.leftId)!;
+        expect(rightContent.get(match.rightId)).toBe(`Definition ${word.replace('Word', '')}`);
+      });
+    });
+
+    it('should not repeat a term among the matching pairs', () => {
+      const pool = [
+        ...vocabulary,
+        createItem('h', { word: 'Worda' }),
+        createItem('i', { word: 'WORD-b' }),
+      ];
+      const question = buildMatching(vocabulary[0], { ...createContext(), pool })!;
+      const words = question.leftItems.map(item => item.content.replace('-', '').toLowerCase());
+
+      expect(question.leftItems).toHaveLength(4);
+      expect(new Set(words).size).toBe(4);
+    });
+
+    it('should scale time limit and points by difficulty', () => {
+      const beginner = getQuestionSettings(DifficultyLevel.BEGINNER, QuestionType.MULTIPLE_CHOICE);
+      const advanced = getQuestionSettings(DifficultyLevel.ADVANCED, QuestionType.MULTIPLE_CHOICE);
+
+      expect(advanced.points).toBeGreaterThan(beginner.points);
+      expect(advanced.timeLimit).toBeGreaterThan(beginner.timeLimit);
+      expect(getQuestionSettings(DifficultyLevel.BEGINNER, QuestionType.MATCHING).timeLimit)
+        .toBeGreaterThan(beginner.timeLimit);
+    });
+  });
+});
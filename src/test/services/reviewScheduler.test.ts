@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  scheduleWord,
+  buildDueQueue,
+  applyReview,
+  answerToQuality,
+  getEaseFactor,
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  reviewScheduler,
+} from '../../services/reviewScheduler';
+import { LearningData, storageManager } from '../../services/storageManager';
+
+const NOW = new Date('2024-03-10T12:00:00');
+
+const createLearningData = (overrides: Partial<LearningData> = {}): LearningData => ({
+  wordId: 'word_1',
+  studyTime: 0,
+  correctRate: 1,
+  reviewCount: 1,
+  lastReviewDate: new Date('2024-03-09T12:00:00').toISOString(),
+  masteryLevel: 1,
+  mistakes: [],
+  ...overrides,
+});
+
+describe('reviewScheduler', () => {
+  describe('scheduleWord', () => {
+    it('should use SM-2 intervals for spaced repetition', () => {
+      const first = scheduleWord(createLearningData({ reviewCount: 1 }), 'spaced_repetition', NOW);
+      expect(first.intervalDays).toBe(1);
+      expect(first.isDue).toBe(true);
+
+      const second = scheduleWord(createLearningData({ reviewCount: 2 }), 'spaced_repetition', NOW);
+      expect(second.intervalDays).toBe(6);
+      expect(second.isDue).toBe(false);
+    });
+
+    it('should prefer persisted ease factor and interval', () => {
+      const schedule = scheduleWord(
+        createLearningData({ reviewCount: 5, easeFactor: 1.8, intervalDays: 3 }),
+        'spaced_repetition',
+        NOW
+      );
+
+      expect(schedule.easeFactor).toBe(1.8);
+      expect(schedule.intervalDays).toBe(3);
+      expect(schedule.dueDate.toISOString()).toBe(new Date('2024-03-12T12:00:00').toISOString());
+    });
+
+    it('should use mastery level for fixed intervals', () => {
+      const schedule = scheduleWord(createLearningData({ masteryLevel: 4 }), 'fixed_interval', NOW);
+      expect(schedule.intervalDays).toBe(7);
+      expect(schedule.easeFactor).toBe(DEFAULT_EASE_FACTOR);
+    });
+
+    it('should shorten adaptive intervals for low accuracy', () => {
+      const strong = scheduleWord(createLearningData({ masteryLevel: 5, correctRate: 1 }), 'adaptive', NOW);
+      const weak = scheduleWord(createLearningData({ masteryLevel: 5, correctRate: 0.2 }), 'adaptive', NOW);
+
+      expect(weak.intervalDays).toBeLessThan(strong.intervalDays);
+      expect(weak.easeFactor).toBeLessThan(strong.easeFactor);
+    });
+
+    it('should fall back to now for invalid review dates', () => {
+      const schedule = scheduleWord(
+        createLearningData({ reviewCount: 1, lastReviewDate: 'invalid' }),
+        'spaced_repetition',
+        NOW
+      );
+      expect(schedule.overdueDays).toBe(-1);
+    });
+  });
+
+  describe('buildDueQueue', () => {
+    const learningData: Record<string, LearningData> = {
+      b: createLearningData({ wordId: 'b', masteryLevel: 2 }),
+      a: createLearningData({ wordId: 'a', masteryLevel: 2 }),
+      overdue: createLearningData({
+        wordId: 'overdue',
+        lastReviewDate: new Date('2024-03-01T12:00:00').toISOString(),
+      }),
+      weak: createLearningData({ wordId: 'weak', masteryLevel: 1, correctRate: 0.3 }),
+      future: createLearningData({ wordId: 'future', reviewCount: 2 }),
+      unseen: createLearningData({ wordId: 'unseen', reviewCount: 0 }),
+    };
+
+    it('should order due words deterministically', () => {
+      const queue = buildDueQueue(learningData, 'spaced_repetition', NOW);
+      expect(queue.map(item => item.wordId)).toEqual(['overdue', 'weak', 'a', 'b']);
+    });
+
+    it('should return the same queue on repeated calls', () => {
+      const first = buildDueQueue(learningData, 'spaced_repetition', NOW);
+      const second = buildDueQueue(learningData, 'spaced_repetition', NOW);
+      expect(second).toEqual(first);
+    });
+
+    it('should respect the limit', () => {
+      const queue = buildDueQueue(learningData, 'spaced_repetition', NOW, 2);
+      expect(queue.map(item => item.wordId)).toEqual(['overdue', 'weak']);
+    });
+  });
+
+  describe('applyReview', () => {
+    it('should grow the interval after a successful review', () => {
+      const data = createLearningData({ reviewCount: 2, intervalDays: 6, easeFactor: 2.5, masteryLevel: 2 });
+      const updated = applyReview(data, 5, NOW);
+
+      expect(updated.reviewCount).toBe(3);
+      expect(updated.easeFactor).toBeCloseTo(2.6);
+      expect(updated.intervalDays).toBe(16);
+      expect(updated.masteryLevel).toBe(3);
+      expect(updated.lastReviewDate).toBe(NOW.toISOString());
+    });
+
+    it('should reset the interval and lower ease after a lapse', () => {
+      const data = createLearningData({ reviewCount: 4, intervalDays: 20, easeFactor: 1.4, masteryLevel: 3 });
+      const updated = applyReview(data, 1, NOW);
+
+      expect(updated.intervalDays).toBe(1);
+      expect(updated.easeFactor).toBe(MIN_EASE_FACTOR);
+      expect(updated.masteryLevel).toBe(2);
+      expect(updated.correctRate).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('answerToQuality', () => {
+    it('should map answer speed and correctness to SM-2 quality', () => {
+      expect(answerToQuality(true, 3, 30)).toBe(5);
+      expect(answerToQuality(true, 15, 30)).toBe(4);
+      expect(answerToQuality(true, 28, 30)).toBe(3);
+      expect(answerToQuality(false, 10, 30)).toBe(1);
+      expect(answerToQuality(false, 30, 30)).toBe(0);
+    });
+  });
+
+  describe('getEaseFactor', () => {
+    it('should derive ease from accuracy for legacy data', () => {
+      expect(getEaseFactor(createLearningData({ reviewCount: 3, correctRate: 0 }), 'spaced_repetition'))
+        .toBe(MIN_EASE_FACTOR);
+      expect(getEaseFactor(createLearningData({ reviewCount: 0 }), 'spaced_repetition'))
+        .toBe(DEFAULT_EASE_FACTOR);
+    });
+  });
+
+  describe('recordReview', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should persist the review at the given time', async () => {
+      const updated = await reviewScheduler.recordReview('word_1', 4, { now: NOW });
+      const saved = await storageManager.getLearningData('word_1');
+
+      expect(saved.lastReviewDate).toBe(NOW.toISOString());
+      expect(saved).toEqual(updated);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { storageService, StorageService, StorageKey } from '../../services/storage';
+import { storageManager } from '../../services/storageManager';
+import { vocabularyStore } from '../../services/vocabularyStore';
+import { compressString, decompressString } from '../../utils/compression';
+
+// 测试中使用较少的迭代次数，加快密钥派生
+const TEST_ITERATIONS = 1000;
+
+describe('storageService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire items written with a ttl', () => {
+    vi.useFakeTimers();
+    storageService.setItem(StorageKey.API_CACHE, { ok: true }, { ttl: 1000 });
+
+    expect(storageService.getItem(StorageKey.API_CACHE)).toEqual({ ok: true });
+    vi.advanceTimersByTime(1001);
+    expect(storageService.getItem(StorageKey.API_CACHE)).toBeNull();
+  });
+
+  it('should notify listeners of writes and removals', () => {
+    const listener = vi.fn();
+    const unsubscribe = storageService.subscribe(listener);
+
+    storageService.setItem(StorageKey.LEARNING_GOALS, []);
+    storageService.removeItem(StorageKey.LEARNING_GOALS);
+    unsubscribe();
+    storageService.setItem(StorageKey.LEARNING_GOALS, []);
+
+    expect(listener.mock.calls).toEqual([
+      [StorageKey.LEARNING_GOALS, []],
+      [StorageKey.LEARNING_GOALS, undefined],
+    ]);
+  });
+
+  it('should share keys with storageManager', async () => {
+    storageService.setItem(StorageKey.VOCABULARY_FAVORITES, ['defi']);
+    await storageManager.setItem(StorageKey.MASTERED_WORDS, ['dao']);
+
+    expect((await storageManager.createBackup()).favoriteWords).toEqual(['defi']);
+    expect(storageService.getItem(StorageKey.MASTERED_WORDS)).toEqual(['dao']);
+  });
+});
+
+describe('storage compression', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should round-trip unicode text', () => {
+    const text = JSON.stringify({ word: 'DeFi', definition: '去中心化金融 🚀', tags: Array(50).fill('defi') });
+    const compressed = compressString(text);
+
+    expect(compressed.length).toBeLessThan(text.length);
+    expect(decompressString(compressed)).toBe(text);
+    expect(decompressString(compressString(''))).toBe('');
+  });
+
+  it('should read compressed and plain items regardless of config', () => {
+    const compressedService = new StorageService({ compress: true });
+    compressedService.setItem(StorageKey.VOCABULARY_CACHE, { words: ['defi'] });
+
+    expect(localStorage.getItem(StorageKey.VOCABULARY_CACHE)?.startsWith('lz:')).toBe(true);
+    expect(storageService.getItem(StorageKey.VOCABULARY_CACHE)).toEqual({ words: ['defi'] });
+  });
+});
+
+describe('storage encryption', () => {
+  beforeEach(async () => {
+    await storageService.disableEncryption().catch(() => undefined);
+    localStorage.clear();
+    storageService.clear();
+  });
+
+  it('should encrypt existing plain-text data when enabled', async () => {
+    storageService.setItem(StorageKey.MASTERED_WORDS, ['defi']);
+
+    await storageService.enableEncryption('correct horse', TEST_ITERATIONS);
+    storageService.setItem(StorageKey.LEARNING_GOALS, [{ id: 'goal' }]);
+    await storageService.flush();
+
+    expect(localStorage.getItem(StorageKey.MASTERED_WORDS)?.startsWith('enc:')).toBe(true);
+    expect(localStorage.getItem(StorageKey.LEARNING_GOALS)?.startsWith('enc:')).toBe(true);
+    expect(localStorage.getItem(StorageKey.MASTERED_WORDS)).not.toContain('defi');
+    expect(storageService.getItem(StorageKey.MASTERED_WORDS)).toEqual(['defi']);
+  });
+
+  it('should stay locked with a wrong passphrase and unlock with the right one', async () => {
+    storageService.setItem(StorageKey.MASTERED_WORDS, ['defi']);
+    await storageService.enableEncryption('correct horse', TEST_ITERATIONS);
+
+    // 模拟重新打开应用
+    const reopened = new StorageService();
+    expect(reopened.isLocked()).toBe(true);
+    expect(reopened.getItem(StorageKey.MASTERED_WORDS)).toBeNull();
+    expect(reopened.setItem(StorageKey.MASTERED_WORDS, [])).toBe(false);
+
+    expect(await reopened.unlock('wrong passphrase')).toBe(false);
+    expect(reopened.isLocked()).toBe(true);
+
+    expect(await reopened.unlock('correct horse')).toBe(true);
+    expect(reopened.getItem(StorageKey.MASTERED_WORDS)).toEqual(['defi']);
+  });
+
+  it('should reload the decrypted data after a failed backup restore', async () => {
+    storageService.setItem(StorageKey.MASTERED_WORDS, ['defi']);
+    await storageService.enableEncryption('correct horse', TEST_ITERATIONS);
+    const backup = await storageManager.createBackup();
+    const replaceAll = vi.spyOn(vocabularyStore, 'replaceAll').mockRejectedValueOnce(new Error('quota exceeded'));
+
+    await expect(storageManager.restoreFromBackup({ ...backup, masteredWords: ['dao'] })).rejects.toThrow('quota exceeded');
+    replaceAll.mockRestore();
+    await storageService.flush();
+
+    expect(storageService.getItem(StorageKey.MASTERED_WORDS)).toEqual(['defi']);
+    expect(storageService.getItem(StorageKey.USER_PROGRESS)).toBeNull();
+    const reopened = new StorageService();
+    await reopened.unlock('correct horse');
+    expect(reopened.getItem(StorageKey.MASTERED_WORDS)).toEqual(['defi']);
+    expect(reopened.getItem(StorageKey.USER_PROGRESS)).toBeNull();
+  });
+
+  it('should write plain text again when disabled', async () => {
+    storageService.setItem(StorageKey.MASTERED_WORDS, ['defi']);
+    await storageService.enableEncryption('correct horse', TEST_ITERATIONS);
+    storageService.setItem(StorageKey.MASTERED_WORDS, ['defi', 'dao']);
+
+    await storageService.disableEncryption();
+
+    expect(storageService.isEncryptionEnabled()).toBe(false);
+    expect(JSON.parse(localStorage.getItem(StorageKey.MASTERED_WORDS)!).data).toEqual(['defi', 'dao']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { storageManager, isCheckpointStale, mergeUserSettings, STORAGE_KEYS } from '../../services/storageManager';
+import { practiceService } from '../../services/practiceService';
+import { buildTrueFalse, createRandom } from '../../services/questionGenerator';
+import { UserAnswer, UserSettings, DEFAULT_SETTINGS } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createSession = () => {
+  const vocabulary = ['a', 'b', 'c'].map(id => createVocabularyItem(id));
+  const random = createRandom(1);
+  const questions = vocabulary.map((item, index) =>
+    buildTrueFalse(item, { pool: vocabulary, random, id: `q${index}` })
+  );
+  return practiceService.createSession('quick', questions);
+};
+
+const answer: UserAnswer = {
+  questionId: 'q0',
+  answer: 'true',
+  isCorrect: true,
+  timeSpent: 4,
+  answeredAt: new Date('2024-01-01T10:00:00'),
+  score: 10,
+};
+
+describe('storageManager session checkpoints', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should save and restore answers with dates revived', async () => {
+    const session = createSession();
+    await storageManager.saveSessionCheckpoint(session, [answer]);
+
+    const checkpoint = await storageManager.getResumableSession(60);
+
+    expect(checkpoint?.session.id).toBe(session.id);
+    expect(checkpoint?.session.answers).toHaveLength(1);
+    expect(checkpoint?.session.startTime).toBeInstanceOf(Date);
+    expect(checkpoint?.session.answers[0].answeredAt).toBeInstanceOf(Date);
+  });
+
+  it('should mark stale sessions as abandoned', async () => {
+    await storageManager.saveSessionCheckpoint(createSession(), [answer]);
+    const later = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    expect(await storageManager.getResumableSession(60, later)).toBeNull();
+    expect((await storageManager.getSessionCheckpoint())?.session.status).toBe('abandoned');
+  });
+
+  it('should not offer abandoned or cleared sessions', async () => {
+    await storageManager.saveSessionCheckpoint(createSession(), []);
+    await storageManager.abandonSessionCheckpoint();
+    expect(await storageManager.getResumableSession(60)).toBeNull();
+
+    await storageManager.saveSessionCheckpoint(createSession(), []);
+    await storageManager.clearSessionCheckpoint();
+    expect(localStorage.getItem(STORAGE_KEYS.ACTIVE_PRACTICE_SESSION)).toBeNull();
+  });
+
+  it('should compare checkpoint age against the timeout', () => {
+    const checkpoint = { session: createSession(), savedAt: '2024-01-01T10:00:00.000Z' };
+
+    expect(isCheckpointStale(checkpoint, 30, new Date('2024-01-01T10:29:00.000Z'))).toBe(false);
+    expect(isCheckpointStale(checkpoint, 30, new Date('2024-01-01T10:31:00.000Z'))).toBe(true);
+  });
+});
+
+describe('mergeUserSettings', () => {
+  it('should fill missing sections and fields from the defaults', () => {
+    const stored = { practice: { defaultQuestionCount: 25 } } as unknown as Partial<UserSettings>;
+    const settings = mergeUserSettings(stored);
+
+    expect(settings.practice.defaultQuestionCount).toBe(25);
+    expect(settings.practice.sessionTimeout).toBe(DEFAULT_SETTINGS.practice.sessionTimeout);
+    expect(settings.ui).toEqual(DEFAULT_SETTINGS.ui);
+  });
+
+  it('should return defaults when nothing is stored', () => {
+    expect(mergeUserSettings(null).audio).toEqual(DEFAULT_SETTINGS.audio);
+  });
+});
+
+describe('storageManager learning data', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should back up and restore learning data', async () => {
+    await storageManager.saveLearningData('a', { reviewCount: 3, masteryLevel: 4 });
+    const backup = await storageManager.createBackup();
+    await storageManager.removeLearningData(['a']);
+
+    await storageManager.restoreFromBackup(backup);
+
+    expect(backup.learningData?.a).toBeDefined();
+    expect(await storageManager.getLearningData('a')).toMatchObject({ reviewCount: 3, masteryLevel: 4 });
+  });
+
+  it('should leave user progress to the progress context', async () => {
+    await storageManager.saveLearningData('a', { studyTime: 120000, masteryLevel: 5 });
+
+    expect(localStorage.getItem(STORAGE_KEYS.USER_PROGRESS)).toBeNull();
+    expect((await storageManager.getLearningData('a')).masteryLevel).toBe(5);
+  });
+});
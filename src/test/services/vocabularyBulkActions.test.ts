@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { vocabularyService } from '../../services/vocabularyService';
+import { deckService } from '../../services/deckService';
+import { wordHistoryService } from '../../services/wordHistory';
+import { storageManager, STORAGE_KEYS } from '../../services/storageManager';
+import { storageService, StorageKey } from '../../services/storage';
+import { filterVocabulary, sortVocabulary } from '../../contexts/VocabularyContext';
+import { ProgressProvider } from '../../contexts/ProgressContext';
+import { useProgress } from '../../hooks/useProgress';
+import {
+  DifficultyLevel,
+  SortDirection,
+  UserProgress,
+  VocabularyItem,
+  VocabularySortBy,
+  Web3Category,
+} from '../../types';
+
+const addWord = async (word: string, tags: string[] = []): Promise<VocabularyItem> => {
+  const result = await vocabularyService.addVocabulary({
+    word,
+    definition: `${word} 的释义`,
+    pronunciation: '',
+    examples: [],
+    category: Web3Category.DEFI,
+    difficulty: DifficultyLevel.BEGINNER,
+    tags,
+    isCustom: true,
+    studyCount: 0,
+    accuracy: 0,
+  });
+  return result.data!;
+};
+
+describe('vocabulary bulk actions', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should favorite and unfavorite words in bulk', async () => {
+    const [a, b, c] = await Promise.all(['Oracle', 'Bridge', 'Rollup'].map(word => addWord(word)));
+
+    await vocabularyService.setFavorites([a.id, b.id], true);
+    await vocabularyService.setFavorites([b.id, c.id], true);
+    expect(await vocabularyService.getFavoriteIds()).toEqual([a.id, b.id, c.id]);
+
+    const result = await vocabularyService.setFavorites([a.id, c.id], false);
+    expect(result.data).toEqual([b.id]);
+    expect(await vocabularyService.getFavoriteIds()).toEqual([b.id]);
+  });
+
+  it('should add tags without duplicating existing ones', async () => {
+    const tagged = await addWord('Oracle', ['defi']);
+    const plain = await addWord('Bridge');
+
+    expect((await vocabularyService.addTags([tagged.id], [' '])).error).toBe('标签不能为空');
+
+    const result = await vocabularyService.addTags([tagged.id, plain.id], ['defi', ' infra ']);
+    expect(result.data).toHaveLength(2);
+    expect((await vocabularyService.getVocabularyById(tagged.id))!.tags).toEqual(['defi', 'infra']);
+    expect((await vocabularyService.getVocabularyById(plain.id))!.tags).toEqual(['defi', 'infra']);
+
+    expect((await vocabularyService.addTags([tagged.id], ['infra'])).data).toEqual([]);
+  });
+
+  it('should delete words with their decks, favorites and history', async () => {
+    const [a, b, c] = await Promise.all(['Oracle', 'Bridge', 'Rollup'].map(word => addWord(word)));
+    const deck = (await deckService.createDeck({ name: 'Infra' })).data!;
+    await deckService.addWords(deck.id, [a.id, b.id, c.id]);
+    await vocabularyService.setFavorites([a.id, c.id], true);
+    await wordHistoryService.recordSeen(a.id);
+
+    const result = await vocabularyService.deleteMultipleVocabulary([a.id, b.id, 'missing']);
+    expect(result).toMatchObject({ success: true, data: 2 });
+
+    expect((await vocabularyService.getAllVocabulary()).map(item => item.id)).toEqual([c.id]);
+    expect((await deckService.getDeck(deck.id))!.wordIds).toEqual([c.id]);
+    expect(await vocabularyService.getFavoriteIds()).toEqual([c.id]);
+    expect(await wordHistoryService.getHistory(a.id)).toEqual([]);
+    expect((await vocabularyService.deleteMultipleVocabulary(['missing'])).success).toBe(false);
+  });
+
+  it('should delete learning records and drop the words from progress', async () => {
+    const [a, b, c] = await Promise.all(['Oracle', 'Bridge', 'Rollup'].map(word => addWord(word)));
+    const { result, unmount } = renderHook(() => useProgress(), { wrapper: ProgressProvider });
+    await act(() => result.current.initializeProgress());
+    act(() => {
+      result.current.addMasteredWord(a.id);
+      result.current.addMasteredWord(c.id);
+      result.current.addWeakWord(b.id);
+    });
+    for (const item of [a, b, c]) {
+      await storageManager.saveLearningData(item.id, { reviewCount: 1 });
+    }
+    await storageManager.setItem(STORAGE_KEYS.MASTERED_WORDS, [a.id, c.id]);
+
+    await act(async () => {
+      await vocabularyService.deleteMultipleVocabulary([a.id, b.id]);
+    });
+
+    expect(Object.keys(await storageManager.getAllLearningData())).toEqual([c.id]);
+    expect(await storageManager.getItem(STORAGE_KEYS.MASTERED_WORDS, [])).toEqual([c.id]);
+    await waitFor(() =>
+      expect(storageService.getItem<UserProgress>(StorageKey.USER_PROGRESS)).toMatchObject({
+        masteredWords: [c.id],
+        weakWords: [],
+      })
+    );
+    unmount();
+  });
+
+  it('should filter by tags and favorites and sort by any field', async () => {
+    const oracle = await addWord('Oracle', ['infra']);
+    const bridge = await addWord('Bridge', ['infra', 'l2']);
+    const rollup = await addWord('Rollup', ['l2']);
+    const vocabulary = [oracle, bridge, rollup];
+
+    const infra = filterVocabulary(vocabulary, { tags: ['infra'] }, []);
+    expect(sortVocabulary(infra, VocabularySortBy.WORD, SortDirection.ASC).map(item => item.word)).toEqual([
+      'Bridge',
+      'Oracle',
+    ]);
+    expect(filterVocabulary(vocabulary, { favoritesOnly: true }, [rollup.id])).toEqual([rollup]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseCsv, stringifyCsv } from '../../utils/csv';
+import { buildCsvImportReport, vocabularyToCsv } from '../../services/vocabularyCsv';
+import { vocabularyService } from '../../services/vocabularyService';
+import { DifficultyLevel, VocabularyItem, Web3Category } from '../../types';
+
+const existing: VocabularyItem = {
+  id: 'vocab_1',
+  word: 'Smart Contract',
+  definition: '智能合约，自动执行的程序',
+  englishDefinition: 'A program that runs on a blockchain, "trustless", by design',
+  pronunciation: 'smɑːrt ˈkɒntrækt',
+  category: Web3Category.PROTOCOL,
+  difficulty: DifficultyLevel.INTERMEDIATE,
+  tags: ['合约', 'evm'],
+  examples: ['智能合约部署后无法修改。', 'Contracts, once deployed, are immutable.'],
+  isCustom: true,
+  studyCount: 2,
+  accuracy: 0.5,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+};
+
+describe('CSV parsing', () => {
+  it('should handle quotes, embedded newlines, CRLF and BOM', () => {
+    const { rows, lines, delimiter } = parseCsv('\uFEFFa,b\r\n"x, ""y""","line 1\nline 2"\r\nlast,""\r\n');
+
+    expect(delimiter).toBe(',');
+    expect(rows).toEqual([['a', 'b'], ['x, "y"', 'line 1\nline 2'], ['last', '']]);
+    expect(lines).toEqual([1, 2, 4]);
+  });
+
+  it('should detect semicolon and tab delimiters', () => {
+    expect(parseCsv('word;definition\n"a;b";c').rows).toEqual([['word', 'definition'], ['a;b', 'c']]);
+    expect(parseCsv('word\tdefinition\na\tb').delimiter).toBe('\t');
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCsv('a,b\n"open,field\nmore')).toThrow('第 2 行的引号未闭合');
+  });
+
+  it('should round-trip exported vocabulary', () => {
+    const csv = vocabularyToCsv([existing]);
+    const { rows } = parseCsv(csv);
+
+    expect(rows[0][0]).toBe('Word');
+    expect(rows[1].slice(0, 8)).toEqual([
+      existing.word,
+      existing.definition,
+      existing.englishDefinition,
+      existing.pronunciation,
+      existing.category,
+      existing.difficulty,
+      '合约, evm',
+      existing.examples.join('\n'),
+    ]);
+    expect(stringifyCsv([[' padded', 'plain']], { delimiter: ';' })).toBe('" padded";plain');
+  });
+});
+
+describe('CSV import report', () => {
+  const csv = [
+    '术语;释义;分类;难度;例句',
+    'Gas Fee;"支付给网络的交易手续费";defi;beginner;"Gas 费用随拥堵上涨。\nGas fees rise with congestion."',
+    'smart-contract;"重复的智能合约定义";protocol;advanced;',
+    'Bad$Word;"无效单词的定义内容";defi;beginner;',
+    'Staking;"质押代币获得奖励";unknown;expert;',
+    '',
+    'gas fee;"文件内重复的词条定义";defi;beginner;',
+  ].join('\n');
+
+  it('should list per-row errors and duplicates without writing anything', () => {
+    const report = buildCsvImportReport(csv, [existing]);
+
+    expect(report.delimiter).toBe(';');
+    expect(report.missingFields).toEqual([]);
+    expect(report.summary).toEqual({ total: 5, valid: 1, invalid: 2, duplicate: 2 });
+    expect(report.rows.map(row => [row.line, row.status])).toEqual([
+      [2, 'valid'],
+      [4, 'duplicate'],
+      [5, 'invalid'],
+      [6, 'invalid'],
+      [8, 'duplicate'],
+    ]);
+    expect(report.rows[0].item?.examples).toHaveLength(2);
+    expect(report.rows[1].duplicateOf).toEqual({ existingId: 'vocab_1' });
+    expect(report.rows[3].errors).toEqual(['无效的分类：unknown', '无效的难度等级：expert']);
+    expect(report.rows[4].errors).toEqual(['与第 2 行重复']);
+  });
+
+  it('should honour an explicit column mapping', () => {
+    const report = buildCsvImportReport('a,b,c,d\nLedger,分类账本的定义,blockchain,beginner', [], {
+      mapping: { word: 0, definition: 1, category: 2 },
+    });
+
+    expect(report.missingFields).toEqual(['difficulty']);
+    expect(report.rows[0].errors).toEqual(['难度等级不能为空']);
+  });
+});
+
+describe('vocabularyService CSV import', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should import only the valid rows', async () => {
+    const csv = 'Word,Definition,Category,Difficulty\n"Layer 2","二层扩容网络，如 Rollup",protocol,advanced\nBad$Word,无效单词的定义内容,defi,beginner';
+
+    const result = await vocabularyService.importVocabulary(csv, 'csv');
+
+    expect(result).toMatchObject({ success: true, data: 1 });
+    expect(result.message).toBe('成功导入 1 个词汇，跳过 1 行无效数据和 0 个重复词汇');
+    expect((await vocabularyService.getAllVocabulary()).map(item => item.definition)).toEqual(['二层扩容网络，如 Rollup']);
+
+    const missing = await vocabularyService.importVocabulary('Word\nOnly', 'csv');
+    expect(missing.success).toBe(false);
+    expect(missing.message).toBe('缺少必填列：中文定义、分类、难度');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createAnkiPackage,
+  parseAnkiPackage,
+  parseQuizletTsv,
+  vocabularyToQuizletTsv,
+  htmlToText,
+} from '../../services/vocabularyDecks';
+import { vocabularyService } from '../../services/vocabularyService';
+import { storageManager } from '../../services/storageManager';
+import { createSqliteDatabase, openSqliteDatabase } from '../../utils/sqlite';
+import { createZip, readZip } from '../../utils/zip';
+import { DifficultyLevel, VocabularyItem, Web3Category } from '../../types';
+
+const item: VocabularyItem = {
+  id: 'vocab_1',
+  word: 'Liquidity Pool',
+  definition: '流动性池，存放交易对代币的智能合约',
+  englishDefinition: 'A pool of tokens locked in a smart contract',
+  pronunciation: 'lɪˈkwɪdəti puːl',
+  category: Web3Category.DEFI,
+  difficulty: DifficultyLevel.INTERMEDIATE,
+  tags: ['AMM', 'liquidity mining'],
+  examples: ['向流动性池提供资金可以获得手续费。', 'LPs earn fees from the <pool>.'],
+  isCustom: true,
+  studyCount: 0,
+  accuracy: 0,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+/**
+ * 构造一个使用 Basic 笔记类型、带复习记录的 Anki 牌组
+ */
+const createBasicDeck = (): Uint8Array => {
+  const day = 24 * 60 * 60 * 1000;
+  const firstReview = Date.UTC(2024, 0, 1);
+  const models = { 1: { flds: [{ name: 'Back', ord: 1 }, { name: 'Front', ord: 0 }] } };
+  const collection = createSqliteDatabase([
+    { name: 'col', sql: 'CREATE TABLE col (id integer primary key, models text not null)', rows: [[1, JSON.stringify(models)]] },
+    {
+      name: 'notes',
+      sql: 'CREATE TABLE notes (id integer primary key, /* 0 */ guid text not null, mid integer not null, tags text not null, flds text not null)',
+      rows: [
+        [10, 'a', 1, ' governance advanced ', 'Quorum\x1f法定人数，提案通过所需的<b>最低</b>投票量&nbsp;'],
+        [11, 'b', 1, '', 'Bad$Word\x1f无效的单词定义内容'],
+      ],
+    },
+    {
+      name: 'cards',
+      sql: 'CREATE TABLE cards (id integer primary key, nid integer not null, reps integer not null, ivl integer not null, factor integer not null)',
+      rows: [[100, 10, 3, 8, 2300], [101, 11, 0, 0, 0]],
+    },
+    {
+      name: 'revlog',
+      sql: 'CREATE TABLE revlog (id integer primary key, cid integer not null, ease integer not null, time integer not null, type integer not null)',
+      rows: [
+        [firstReview, 100, 3, 4000, 0],
+        [firstReview + day, 100, 1, 6000, 1],
+        [firstReview + 3 * day, 100, 4, 2000, 1],
+        [firstReview + 4 * day, 100, 0, 0, 4],
+      ],
+    },
+  ]);
+  return createZip([{ name: 'collection.anki2', data: collection }, { name: 'media', data: new TextEncoder().encode('{}') }]);
+};
+
+describe('Anki packages', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should round-trip exported notes', async () => {
+    const apkg = await createAnkiPackage([item]);
+    const files = await readZip(apkg);
+    const notes = openSqliteDatabase(files.get('collection.anki2')!).readTable('notes');
+
+    expect(notes[0]).toMatchObject({ guid: 'vocab_1', tags: ' AMM liquidity_mining ', sfld: 'Liquidity Pool' });
+
+    const { report, learningData } = await parseAnkiPackage(apkg, []);
+    expect(report.summary.valid).toBe(1);
+    expect(report.rows[0].item).toMatchObject({
+      word: item.word,
+      definition: item.definition,
+      englishDefinition: item.englishDefinition,
+      pronunciation: item.pronunciation,
+      category: item.category,
+      difficulty: item.difficulty,
+      tags: ['AMM', 'liquidity_mining'],
+      examples: item.examples,
+    });
+    expect(learningData.size).toBe(0);
+  });
+
+  it('should map Basic notes and seed learning data from review history', async () => {
+    const result = await vocabularyService.importAnkiPackage(createBasicDeck());
+
+    expect(result).toMatchObject({ success: true, data: 1 });
+    const [imported] = await vocabularyService.getAllVocabulary();
+    expect(imported).toMatchObject({
+      word: 'Quorum',
+      definition: '法定人数，提案通过所需的最低投票量',
+      category: Web3Category.GOVERNANCE,
+      difficulty: DifficultyLevel.ADVANCED,
+    });
+
+    const learningData = await storageManager.getLearningData(imported.id);
+    expect(learningData).toMatchObject({
+      reviewCount: 3,
+      studyTime: 12000,
+      lastReviewDate: '2024-01-04T00:00:00.000Z',
+      masteryLevel: 4,
+      easeFactor: 2.3,
+      intervalDays: 8,
+    });
+    expect(learningData.correctRate).toBeCloseTo(2 / 3);
+  });
+
+  it('should explain that the new Anki format is not supported', async () => {
+    const apkg = createZip([
+      { name: 'collection.anki2', data: new Uint8Array(0) },
+      { name: 'collection.anki21b', data: new Uint8Array(0) },
+    ]);
+
+    await expect(parseAnkiPackage(apkg, [])).rejects.toThrow('请在导出时勾选“支持旧版本 Anki”');
+  });
+
+  it('should convert field HTML to text', () => {
+    expect(htmlToText('<div>A &amp; B</div><div>第二行&#x21;</div>[sound:a.mp3]')).toBe('A & B\n第二行!');
+  });
+});
+
+describe('Quizlet TSV', () => {
+  it('should round-trip terms with optional columns', () => {
+    const tsv = vocabularyToQuizletTsv([item, { ...item, id: 'vocab_2', word: 'Gas', englishDefinition: undefined, examples: [], tags: [] }]);
+
+    expect(tsv.split('\n')[1]).toBe(`Gas\t${item.definition}`);
+
+    const report = parseQuizletTsv(tsv, [], { category: Web3Category.DEFI });
+    expect(report.summary).toMatchObject({ valid: 2, invalid: 0 });
+    expect(report.rows[0].item).toMatchObject({
+      word: item.word,
+      englishDefinition: item.englishDefinition,
+      examples: item.examples,
+      tags: item.tags,
+      category: Web3Category.DEFI,
+      difficulty: DifficultyLevel.BEGINNER,
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { editDistance } from '../../utils/stringDistance';
+import { matchTerms, findDuplicatePairs, mergeVocabularyItems } from '../../services/vocabularyDuplicates';
+import { buildCsvImportReport } from '../../services/vocabularyCsv';
+import { vocabularyService } from '../../services/vocabularyService';
+import { storageManager, STORAGE_KEYS } from '../../services/storageManager';
+import { DifficultyLevel, VocabularyItem, Web3Category } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createItem = (overrides: Partial<VocabularyItem>): VocabularyItem =>
+  createVocabularyItem('vocab_1', {
+    word: 'Proof of Stake',
+    definition: '权益证明，按质押数量选出出块者',
+    pronunciation: 'pruːf əv steɪk',
+    category: Web3Category.CONSENSUS,
+    difficulty: DifficultyLevel.INTERMEDIATE,
+    tags: ['共识'],
+    examples: ['以太坊已切换到权益证明。'],
+    isCustom: true,
+    ...overrides,
+  });
+
+/**
+ * 新增词汇时提交的数据（不含 ID 和时间）
+ */
+const createNewItem = (): Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'> => {
+  const item: Partial<VocabularyItem> = createItem({});
+  delete item.id;
+  delete item.createdAt;
+  delete item.updatedAt;
+  return item as Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>;
+};
+
+describe('duplicate matching', () => {
+  it('should count transpositions as one edit', () => {
+    expect(editDistance('stake', 'satke')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('abcdef', 'uvwxyz', 2)).toBe(3);
+  });
+
+  it('should classify exact, alias, acronym and fuzzy matches', () => {
+    expect(matchTerms('Proof of Stake', 'proof-of-stake')?.type).toBe('exact');
+    expect(matchTerms('ERC-20', 'ERC20')?.type).toBe('exact');
+    expect(matchTerms('PoS', 'Proof of Stake')?.type).toBe('alias');
+    expect(matchTerms('DeFi', 'Decentralized Finance')?.type).toBe('alias');
+    expect(matchTerms('TVL', 'Total Value Locked')?.type).toBe('alias');
+    expect(matchTerms('Proof of Stake', 'Proof of Stak')?.type).toBe('fuzzy');
+    expect(matchTerms('Proof of Stake', 'Proof of Work')).toBeNull();
+    expect(matchTerms('Layer 1', 'Layer 2')).toBeNull();
+    expect(matchTerms('Gas', 'Gap')).toBeNull();
+  });
+
+  it('should pair duplicates with the older item as the target', () => {
+    const older = createItem({ id: 'a' });
+    const newer = createItem({ id: 'b', word: 'PoS', createdAt: new Date('2024-02-01T00:00:00Z') });
+    const other = createItem({ id: 'c', word: 'Slashing' });
+
+    const pairs = findDuplicatePairs([newer, other, older]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ target: { id: 'a' }, source: { id: 'b' }, match: { type: 'alias' } });
+  });
+
+  it('should combine examples, tags and study counts when merging', () => {
+    const target = createItem({ studyCount: 2, accuracy: 1, tags: ['共识', 'PoS'] });
+    const source = createItem({
+      id: 'vocab_2',
+      word: 'PoS',
+      definition: '权益证明机制',
+      englishDefinition: 'A consensus mechanism based on staked tokens',
+      tags: ['pos', 'staking'],
+      examples: ['以太坊已切换到权益证明。', 'PoS replaced mining on Ethereum.'],
+      studyCount: 2,
+      accuracy: 0.5,
+    });
+
+    const merged = mergeVocabularyItems(target, source, { definition: 'source' });
+
+    expect(merged).toMatchObject({
+      id: 'vocab_1',
+      word: 'Proof of Stake',
+      definition: '权益证明机制',
+      englishDefinition: source.englishDefinition,
+      tags: ['共识', 'PoS', 'staking'],
+      examples: ['以太坊已切换到权益证明。', 'PoS replaced mining on Ethereum.'],
+      studyCount: 4,
+      accuracy: 0.75,
+    });
+  });
+});
+
+describe('vocabularyService duplicates', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should ask for confirmation before adding a similar word', async () => {
+    const data = createNewItem();
+    await vocabularyService.addVocabulary(data);
+
+    expect(await vocabularyService.addVocabulary({ ...data, word: 'Proof-of-Stake' })).toMatchObject({
+      success: false,
+      error: '该单词已存在',
+    });
+    expect(await vocabularyService.addVocabulary({ ...data, word: 'PoS' })).toMatchObject({
+      success: false,
+      error: '发现相似词汇',
+      message: '词汇库中已有相似的单词 "Proof of Stake"',
+    });
+    expect((await vocabularyService.addVocabulary({ ...data, word: 'PoS' }, { allowSimilar: true })).success).toBe(true);
+  });
+
+  it('should merge two items and keep the study history of both', async () => {
+    const data = createNewItem();
+    const target = (await vocabularyService.addVocabulary(data)).data!;
+    const source = (await vocabularyService.addVocabulary({ ...data, word: 'PoS', tags: ['staking'] }, { allowSimilar: true })).data!;
+    await storageManager.importLearningData([
+      { wordId: target.id, studyTime: 1000, correctRate: 1, reviewCount: 1, lastReviewDate: '2024-01-01T00:00:00.000Z', masteryLevel: 2, mistakes: [] },
+      { wordId: source.id, studyTime: 3000, correctRate: 0.5, reviewCount: 3, lastReviewDate: '2024-01-05T00:00:00.000Z', masteryLevel: 1, mistakes: ['x'], intervalDays: 4 },
+    ]);
+    await storageManager.setItem(STORAGE_KEYS.FAVORITE_WORDS, [source.id]);
+
+    const result = await vocabularyService.mergeVocabulary(target.id, source.id);
+
+    expect(result.success).toBe(true);
+    expect(await vocabularyService.getVocabularyById(source.id)).toBeNull();
+    expect(result.data!.tags).toEqual(['共识', 'staking']);
+
+    const learningData = await storageManager.getAllLearningData();
+    expect(learningData[source.id]).toBeUndefined();
+    expect(learningData[target.id]).toMatchObject({
+      studyTime: 4000,
+      reviewCount: 4,
+      correctRate: 0.625,
+      masteryLevel: 2,
+      lastReviewDate: '2024-01-05T00:00:00.000Z',
+      intervalDays: 4,
+      mistakes: ['x'],
+    });
+    expect(await storageManager.getItem(STORAGE_KEYS.FAVORITE_WORDS, [])).toEqual([target.id]);
+  });
+
+  it('should flag near-duplicates on import and apply the chosen resolutions', async () => {
+    const data = createNewItem();
+    const existing = (await vocabularyService.addVocabulary(data)).data!;
+    const csv = [
+      'Word,Definition,Category,Difficulty,Tags,Examples',
+      'PoS,权益证明（缩写）,consensus,beginner,staking,PoS secures the chain.',
+      'Proof of Stak,拼写错误的词条定义,consensus,beginner,,',
+      'Slashing,罚没质押的惩罚机制,consensus,advanced,,',
+    ].join('\n');
+
+    const report = buildCsvImportReport(csv, [existing]);
+    expect(report.rows.map(row => [row.status, row.match?.type])).toEqual([
+      ['duplicate', 'alias'],
+      ['duplicate', 'fuzzy'],
+      ['valid', undefined],
+    ]);
+    expect(report.rows[0].errors).toEqual(['与已有词汇 "Proof of Stake" 是同一术语']);
+
+    const result = await vocabularyService.importVocabulary(csv, 'csv', {
+      resolutions: { 2: { action: 'merge', definition: 'source' } },
+    });
+
+    expect(result.message).toBe('成功导入 1 个词汇，合并 1 个重复词汇，跳过 0 行无效数据和 1 个重复词汇');
+    const merged = await vocabularyService.getVocabularyById(existing.id);
+    expect(merged).toMatchObject({
+      definition: '权益证明（缩写）',
+      tags: ['共识', 'staking'],
+      examples: ['以太坊已切换到权益证明。', 'PoS secures the chain.'],
+    });
+    expect((await vocabularyService.getAllVocabulary()).map(item => item.word).sort()).toEqual(['Proof of Stake', 'Slashing']);
+  });
+});
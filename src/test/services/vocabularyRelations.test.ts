@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getLinkedTerms, parseRelations, formatRelations } from '../../services/vocabularyRelations';
+import { vocabularyService } from '../../services/vocabularyService';
+import { DifficultyLevel, VocabularyItem, VocabularyRelationType, Web3Category } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createItem = (overrides: Partial<VocabularyItem>): VocabularyItem =>
+  createVocabularyItem('vocab_1', {
+    word: 'Proof of Stake',
+    definition: '权益证明，按质押数量选出出块者',
+    pronunciation: 'pruːf əv steɪk',
+    category: Web3Category.CONSENSUS,
+    difficulty: DifficultyLevel.INTERMEDIATE,
+    isCustom: true,
+    ...overrides,
+  });
+
+/**
+ * 新增词汇时提交的数据（不含 ID 和时间）
+ */
+const createNewItem = (word: string, definition: string): Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'> => {
+  const item: Partial<VocabularyItem> = createItem({ word, definition });
+  delete item.id;
+  delete item.createdAt;
+  delete item.updatedAt;
+  return item as Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>;
+};
+
+describe('vocabulary relations', () => {
+  const pos = createItem({ id: 'pos', word: 'PoS', relations: [{ type: VocabularyRelationType.ABBREVIATION_OF, targetId: 'stake' }] });
+  const stake = createItem({ id: 'stake', relations: [{ type: VocabularyRelationType.OPPOSITE, targetId: 'missing' }] });
+  const slashing = createItem({ id: 'slashing', word: 'Slashing', relations: [{ type: VocabularyRelationType.PART_OF, targetId: 'stake' }] });
+  const vocabulary = [pos, stake, slashing];
+
+  it('should list outgoing and incoming links with matching labels', () => {
+    expect(getLinkedTerms(pos, vocabulary).map(link => [link.item.id, link.direction, link.label])).toEqual([
+      ['stake', 'outgoing', '全称'],
+    ]);
+    expect(getLinkedTerms(stake, vocabulary).map(link => [link.item.id, link.direction, link.label])).toEqual([
+      ['pos', 'incoming', '缩写'],
+      ['slashing', 'incoming', '组成部分'],
+    ]);
+  });
+
+  it('should format relations as words and parse them back', () => {
+    const byId = new Map(vocabulary.map(item => [item.id, item]));
+    expect(formatRelations(slashing, byId)).toBe('part_of:Proof of Stake');
+    expect(formatRelations(stake, byId)).toBe('');
+
+    expect(parseRelations('abbreviation_of:Proof of Stake；相关：Validator; unknown:Gas; Slashing')).toEqual({
+      relations: [
+        { type: VocabularyRelationType.ABBREVIATION_OF, word: 'Proof of Stake' },
+        { type: VocabularyRelationType.RELATED, word: 'Validator' },
+      ],
+      errors: ['无效的关联词汇：unknown:Gas', '无效的关联词汇：Slashing'],
+    });
+  });
+});
+
+describe('vocabularyService relations', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  const addPair = async () => {
+    const stake = (await vocabularyService.addVocabulary(createNewItem('Proof of Stake', '权益证明，按质押数量选出出块者'))).data!;
+    const validator = (await vocabularyService.addVocabulary(createNewItem('Validator', '验证者，负责验证区块的节点'))).data!;
+    await vocabularyService.addRelation(validator.id, stake.id, VocabularyRelationType.PART_OF);
+    return { stake, validator };
+  };
+
+  it('should keep relations through a CSV export and import', async () => {
+    await addPair();
+    const csv = (await vocabularyService.exportVocabulary('csv')).data!;
+    expect(csv).toContain('part_of:Proof of Stake');
+
+    await vocabularyService.clearAllVocabulary();
+    expect((await vocabularyService.importVocabulary(csv, 'csv')).success).toBe(true);
+
+    const imported = await vocabularyService.getAllVocabulary();
+    const stake = imported.find(item => item.word === 'Proof of Stake')!;
+    const validator = imported.find(item => item.word === 'Validator')!;
+    expect(validator.relations).toEqual([{ type: VocabularyRelationType.PART_OF, targetId: stake.id }]);
+  });
+
+  it('should keep relations through a JSON export and import', async () => {
+    await addPair();
+    const json = (await vocabularyService.exportVocabulary('json')).data!;
+
+    await vocabularyService.clearAllVocabulary();
+    await vocabularyService.importVocabulary(json, 'json');
+
+    const imported = await vocabularyService.getAllVocabulary();
+    const stake = imported.find(item => item.word === 'Proof of Stake')!;
+    const links = await vocabularyService.getLinkedTerms(stake.id);
+    expect(links.map(link => [link.item.word, link.label])).toEqual([['Validator', '组成部分']]);
+  });
+
+  it('should drop relations to deleted words and retarget them on merge', async () => {
+    const { stake, validator } = await addPair();
+    const pos = (await vocabularyService.addVocabulary(createNewItem('PoS', '权益证明的缩写'), { allowSimilar: true })).data!;
+    await vocabularyService.addRelation(validator.id, pos.id, VocabularyRelationType.RELATED);
+
+    await vocabularyService.mergeVocabulary(stake.id, pos.id);
+    expect((await vocabularyService.getVocabularyById(validator.id))!.relations).toEqual([
+      { type: VocabularyRelationType.PART_OF, targetId: stake.id },
+      { type: VocabularyRelationType.RELATED, targetId: stake.id },
+    ]);
+
+    await vocabularyService.deleteVocabulary(stake.id);
+    expect((await vocabularyService.getVocabularyById(validator.id))!.relations).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VocabularySearchIndex, createSnippet } from '../../services/vocabularySearch';
+import { matchPinyinSequence, getPinyin } from '../../utils/pinyin';
+import { vocabularyService } from '../../services/vocabularyService';
+import { VocabularyItem, Web3Category } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createItem = (overrides: Partial<VocabularyItem>): VocabularyItem =>
+  createVocabularyItem('vocab_1', {
+    word: 'Ethereum',
+    definition: '以太坊，支持智能合约的公链',
+    englishDefinition: 'A blockchain platform for smart contracts',
+    pronunciation: 'ɪˈθɪəriəm',
+    category: Web3Category.BLOCKCHAIN,
+    tags: ['公链'],
+    examples: ['Ethereum switched to proof of stake in 2022.'],
+    ...overrides,
+  });
+
+const ethereum = createItem({});
+const blockchain = createItem({
+  id: 'vocab_2',
+  word: 'Blockchain',
+  definition: '区块链，由区块按时间顺序链接而成的分布式账本',
+  englishDefinition: 'A distributed ledger',
+  tags: ['基础'],
+  examples: ['Ethereum is a programmable blockchain.'],
+});
+const contract = createItem({
+  id: 'vocab_3',
+  word: 'Smart Contract',
+  definition: '智能合约，部署在区块链上自动执行的程序',
+  englishDefinition: 'Code that runs on a blockchain',
+  tags: ['开发'],
+  examples: [],
+});
+
+describe('pinyin', () => {
+  it('should match full pinyin, initials and a mix of both', () => {
+    const readings = Array.from('区块链', char => getPinyin(char));
+    expect(matchPinyinSequence('qukuailian', readings)).toBe(3);
+    expect(matchPinyinSequence('qkl', readings)).toBe(3);
+    expect(matchPinyinSequence('qukuai', readings)).toBe(2);
+    expect(matchPinyinSequence('qulian', readings)).toBe(0);
+    expect(getPinyin('绿')).toEqual(expect.arrayContaining(['lv', 'lu']));
+  });
+});
+
+describe('VocabularySearchIndex', () => {
+  let index: VocabularySearchIndex;
+
+  beforeEach(() => {
+    index = new VocabularySearchIndex();
+    index.sync([ethereum, blockchain, contract]);
+  });
+
+  const words = (query: string) => index.search(query).map(result => result.item.word);
+
+  it('should rank word matches above definition and example matches', () => {
+    expect(words('ethereum')).toEqual(['Ethereum', 'Blockchain']);
+    expect(words('block')).toEqual(['Blockchain', 'Ethereum', 'Smart Contract']);
+    expect(words('smart contract')).toEqual(['Smart Contract', 'Ethereum']);
+  });
+
+  it('should tolerate typos', () => {
+    expect(words('etherium')).toEqual(['Ethereum', 'Blockchain']);
+    expect(words('blokchain')[0]).toBe('Blockchain');
+    expect(index.search('etherium', { fuzzy: false })).toEqual([]);
+  });
+
+  it('should match Chinese text as a phrase and by pinyin', () => {
+    expect(words('区块链')).toEqual(['Blockchain', 'Smart Contract']);
+    expect(words('链区')).toEqual([]);
+    expect(words('zhineng heyue').sort()).toEqual(['Ethereum', 'Smart Contract']);
+    expect(words('qkl')).toEqual(['Blockchain', 'Smart Contract']);
+    expect(index.search('qkl', { pinyin: false })).toEqual([]);
+  });
+
+  it('should return highlighted snippets', () => {
+    const [result] = index.search('qukuailian');
+    expect(result.highlights).toEqual([
+      { field: 'definition', index: 0, snippet: blockchain.definition, ranges: [[0, 3]] },
+    ]);
+
+    const snippet = createSnippet('a'.repeat(100) + 'match' + 'b'.repeat(100), [[100, 105]], 40);
+    expect(snippet.snippet).toBe(`…${'a'.repeat(16)}match${'b'.repeat(19)}…`);
+    expect(snippet.ranges).toEqual([[17, 22]]);
+  });
+
+  it('should update incrementally', () => {
+    const renamed = { ...contract, word: 'Chaincode' };
+    index.sync([ethereum, blockchain, renamed]);
+    expect(words('chaincode')).toEqual(['Chaincode']);
+    expect(words('smart')).toEqual(['Ethereum']);
+
+    index.remove(blockchain.id);
+    expect(index.size).toBe(2);
+    expect(words('账本')).toEqual([]);
+
+    index.add(blockchain);
+    expect(words('账本')).toEqual(['Blockchain']);
+  });
+});
+
+describe('vocabularyService search', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    await vocabularyService.clearAllVocabulary();
+  });
+
+  it('should reflect added, updated and deleted words', async () => {
+    const data: Partial<VocabularyItem> = { ...ethereum };
+    delete data.id;
+    delete data.createdAt;
+    delete data.updatedAt;
+    const added = (await vocabularyService.addVocabulary(data as Omit<VocabularyItem, 'id' | 'createdAt' | 'updatedAt'>)).data!;
+    expect((await vocabularyService.searchVocabulary({ keyword: 'yitaifang' })).map(item => item.id)).toEqual([added.id]);
+
+    await vocabularyService.updateVocabulary({ ...added, definition: '以太坊', tags: [] });
+    expect(await vocabularyService.searchVocabulary({ keyword: 'gonglian' })).toEqual([]);
+
+    await vocabularyService.deleteVocabulary(added.id);
+    expect(await vocabularyService.search('ethereum')).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  createBundledPackAdapter,
+  createHttpJsonAdapter,
+  createLocalFileAdapter,
+  mapVocabularyRecord,
+  VocabularyFieldMapping,
+} from '../../services/vocabularySources';
+import { Web3VocabularyAPI } from '../../services/web3VocabularyAPI';
+import { ApiErrorType, ApiStatus, DifficultyLevel, RetryConfig, Web3Category } from '../../types';
+
+// 外部接口使用的字段名与词汇字段不同
+const remoteTerms = Array.from({ length: 5 }, (_, index) => ({
+  term: `Term ${index + 1}`,
+  meaning: { zh: `第 ${index + 1} 个术语的释义`, en: `Definition of term ${index + 1}` },
+  ipa: 'tɜːrm',
+  topic: index % 2 === 0 ? 'DeFi' : 'NFT',
+  level: 'easy',
+  labels: 'remote, sample',
+}));
+
+const remoteMapping: VocabularyFieldMapping = {
+  word: 'term',
+  definition: 'meaning.zh',
+  englishDefinition: 'meaning.en',
+  pronunciation: 'ipa',
+  category: { from: 'topic', values: { DeFi: Web3Category.DEFI, NFT: Web3Category.NFT } },
+  difficulty: { from: 'level', values: { easy: DifficultyLevel.BEGINNER, hard: DifficultyLevel.ADVANCED } },
+  tags: { from: 'labels', split: ',' },
+};
+
+const fastRetry: RetryConfig = {
+  maxRetries: 2,
+  delay: 1,
+  backoffMultiplier: 2,
+  maxDelay: 5,
+  retryableErrors: [ApiErrorType.SERVER_ERROR],
+};
+
+describe('vocabulary sources', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: string[];
+  let failuresBeforeSuccess: number;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push(url.pathname + url.search);
+
+      if (url.pathname === '/flaky' && failuresBeforeSuccess > 0) {
+        failuresBeforeSuccess--;
+        res.writeHead(503).end('unavailable');
+        return;
+      }
+      if (url.pathname === '/missing') {
+        res.writeHead(404).end('not found');
+        return;
+      }
+
+      const page = Number(url.searchParams.get('page'));
+      const limit = Number(url.searchParams.get('limit'));
+      const total = remoteTerms.length;
+      const totalPages = Math.ceil(total / limit);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        status: ApiStatus.SUCCESS,
+        data: remoteTerms.slice((page - 1) * limit, page * limit),
+        timestamp: Date.now(),
+        pagination: { page, limit, total, totalPages, hasNext: page < totalPages, hasPrev: page > 1 },
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failuresBeforeSuccess = 0;
+  });
+
+  it('should follow pagination from the HTTP source', async () => {
+    const source = createHttpJsonAdapter({ id: 'remote', name: 'Remote', url: `${baseUrl}/terms`, mapping: remoteMapping, pageSize: 2 });
+
+    const { items, skipped } = await source.fetchVocabulary();
+
+    expect(requests).toEqual(['/terms?page=1&limit=2', '/terms?page=2&limit=2', '/terms?page=3&limit=2']);
+    expect(skipped).toBe(0);
+    expect(items).toHaveLength(5);
+    expect(items[1]).toMatchObject({
+      id: 'remote_term_2',
+      word: 'Term 2',
+      definition: '第 2 个术语的释义',
+      englishDefinition: 'Definition of term 2',
+      category: Web3Category.NFT,
+      difficulty: DifficultyLevel.BEGINNER,
+      tags: ['remote', 'sample'],
+    });
+  });
+
+  it('should stop requesting pages once the limit is reached', async () => {
+    const source = createHttpJsonAdapter({ id: 'remote', name: 'Remote', url: `${baseUrl}/terms`, mapping: remoteMapping, pageSize: 2 });
+
+    const { items } = await source.fetchVocabulary({ limit: 3 });
+
+    expect(items.map(item => item.word)).toEqual(['Term 1', 'Term 2', 'Term 3']);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should retry retryable errors and give up on others', async () => {
+    failuresBeforeSuccess = 2;
+    const flaky = createHttpJsonAdapter({ id: 'flaky', name: 'Flaky', url: `${baseUrl}/flaky`, mapping: remoteMapping, retry: fastRetry });
+    expect((await flaky.fetchVocabulary()).items).toHaveLength(5);
+    expect(requests).toHaveLength(3);
+
+    requests = [];
+    failuresBeforeSuccess = 3;
+    await expect(flaky.fetchVocabulary()).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(3);
+
+    requests = [];
+    const missing = createHttpJsonAdapter({ id: 'missing', name: 'Missing', url: `${baseUrl}/missing`, retry: fastRetry });
+    await expect(missing.fetchVocabulary()).rejects.toMatchObject({ status: 404 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should map local files and skip invalid records', async () => {
+    const file = new Blob([JSON.stringify({ terms: [...remoteTerms.slice(0, 2), { term: 'Broken', level: 'unknown' }] })]);
+    const source = createLocalFileAdapter({ id: 'upload', file, mapping: remoteMapping, recordsPath: 'terms' });
+
+    const { items, skipped } = await source.fetchVocabulary();
+
+    expect(items.map(item => item.word)).toEqual(['Term 1', 'Term 2']);
+    expect(skipped).toBe(1);
+    await expect(createLocalFileAdapter({ file: new Blob(['{']) }).fetchVocabulary()).rejects.toThrow('文件不是有效的 JSON');
+  });
+
+  it('should read same-named fields and defaults without a mapping', () => {
+    const item = mapVocabularyRecord(
+      { word: 'DAO', definition: '去中心化自治组织', category: 'governance', difficulty: 'beginner', examples: 'one example' },
+      { pronunciation: { from: 'ipa', default: 'daʊ' } },
+      'custom'
+    );
+
+    expect(item).toMatchObject({ id: 'custom_dao', pronunciation: 'daʊ', examples: ['one example'], tags: [] });
+  });
+
+  it('should serve vocabulary from the selected source', async () => {
+    const api = new Web3VocabularyAPI();
+    api.registerSource(createHttpJsonAdapter({ id: 'remote', name: 'Remote', url: `${baseUrl}/terms`, mapping: remoteMapping }));
+
+    expect((await api.getWeb3Vocabulary(2, 'remote')).data?.map(item => item.word)).toEqual(['Term 1', 'Term 2']);
+    expect((await createBundledPackAdapter().fetchVocabulary({ limit: 1 })).items[0].id).toBe('web3-core_blockchain');
+    expect(api.getActiveSource().type).toBe('bundled');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  VocabularyStore,
+  VocabularyStoreBackend,
+  createLocalStorageBackend,
+  matchesVocabularyFilter,
+} from '../../services/vocabularyStore';
+import { storageService, StorageKey } from '../../services/storage';
+import { VocabularyItem, DifficultyLevel, Web3Category } from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createItem = (id: string, overrides: Partial<VocabularyItem> = {}): VocabularyItem =>
+  createVocabularyItem(id, { word: id.toUpperCase(), definition: `${id} 的定义`, ...overrides });
+
+/**
+ * 记录调用的内存后端
+ */
+const createMemoryBackend = () => {
+  const inner = createLocalStorageBackend();
+  const backend: VocabularyStoreBackend = {
+    type: 'indexedDB',
+    getAll: vi.fn(() => inner.getAll()),
+    get: vi.fn(id => inner.get(id)),
+    put: vi.fn(items => inner.put(items)),
+    delete: vi.fn(ids => inner.delete(ids)),
+    clear: vi.fn(() => inner.clear()),
+    queryByIndex: vi.fn((index, values) => inner.queryByIndex(index, values)),
+  };
+  return backend;
+};
+
+describe('vocabularyStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should fall back to localStorage without IndexedDB', async () => {
+    const store = new VocabularyStore();
+    await store.putMany([createItem('defi'), createItem('dao')]);
+    await store.delete('dao');
+
+    expect(await store.getBackendType()).toBe('localStorage');
+    expect(storageService.getItem<VocabularyItem[]>(StorageKey.VOCABULARY_DATA)?.map(item => item.id)).toEqual(['defi']);
+  });
+
+  it('should query through the most selective index', async () => {
+    const backend = createMemoryBackend();
+    const store = new VocabularyStore(backend);
+    await store.putMany([
+      createItem('defi', { tags: ['finance'], difficulty: DifficultyLevel.ADVANCED }),
+      createItem('dao', { tags: ['governance'], category: Web3Category.GOVERNANCE }),
+      createItem('amm', { tags: ['finance'] }),
+    ]);
+
+    const results = await store.query({ tags: ['finance'], difficulties: [DifficultyLevel.BEGINNER] });
+
+    expect(backend.queryByIndex).toHaveBeenCalledWith('tags', ['finance']);
+    expect(backend.getAll).not.toHaveBeenCalled();
+    expect(results.map(item => item.id)).toEqual(['amm']);
+  });
+
+  it('should only write changed items when syncing', async () => {
+    const backend = createMemoryBackend();
+    const store = new VocabularyStore(backend);
+    const listener = vi.fn();
+    const items = [createItem('defi'), createItem('dao'), createItem('nft')];
+    await store.putMany(items);
+    store.subscribe(listener);
+    vi.mocked(backend.put).mockClear();
+
+    const result = await store.sync([{ ...items[0], definition: '新定义' }, items[1]]);
+
+    expect(result).toEqual({ updated: 1, deleted: 1 });
+    expect(backend.put).toHaveBeenCalledWith([expect.objectContaining({ id: 'defi', definition: '新定义' })]);
+    expect(backend.delete).toHaveBeenCalledWith(['nft']);
+    expect(listener).toHaveBeenCalledWith({ updated: ['defi'], deleted: ['nft'] });
+    expect((await store.get('defi'))?.definition).toBe('新定义');
+  });
+
+  it('should match keyword and custom filters', () => {
+    const item = createItem('defi', { englishDefinition: 'Decentralized finance', isCustom: true });
+
+    expect(matchesVocabularyFilter(item, { keyword: 'decentralized', customOnly: true })).toBe(true);
+    expect(matchesVocabularyFilter(item, { categories: [Web3Category.NFT] })).toBe(false);
+    expect(matchesVocabularyFilter({ ...item, isCustom: false }, { customOnly: true })).toBe(false);
+  });
+});
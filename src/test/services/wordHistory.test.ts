@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { wordHistoryService, buildSessionEvents, getConfusions, formatAnswer } from '../../services/wordHistory';
+import { practiceService } from '../../services/practiceService';
+import { storageManager, WordEvent } from '../../services/storageManager';
+import {
+  PracticeDifficulty,
+  QuestionType,
+  QuizQuestion,
+  UserAnswer,
+} from '../../types';
+import { createVocabularyItem } from '../utils/fixtures';
+
+const createQuestion = (id: string, wordId: string): QuizQuestion => ({
+  id,
+  type: QuestionType.FILL_BLANK,
+  vocabulary: createVocabularyItem(wordId),
+  question: `Question ${id}`,
+  correctAnswer: `Word ${wordId}`,
+  difficulty: PracticeDifficulty.EASY,
+  points: 10,
+  timeLimit: 30,
+});
+
+const createAnswer = (questionId: string, answer: UserAnswer['answer'], isCorrect: boolean, minute: number): UserAnswer => ({
+  questionId,
+  answer,
+  isCorrect,
+  timeSpent: 5,
+  answeredAt: new Date(`2024-03-01T10:0${minute}:00Z`),
+  score: isCorrect ? 10 : 0,
+});
+
+const answered = (answer: string, isCorrect: boolean, timestamp: string): WordEvent => ({
+  type: 'answered',
+  timestamp,
+  answer,
+  isCorrect,
+});
+
+describe('wordHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should turn answered and skipped questions into events', () => {
+    const session = practiceService.createSession('quick', [createQuestion('q1', 'a'), createQuestion('q2', 'b')]);
+    const events = buildSessionEvents({
+      ...session,
+      answers: [createAnswer('q1', ' Word x ', false, 1)],
+      endTime: new Date('2024-03-01T10:05:00Z'),
+    });
+
+    expect(events).toEqual([
+      {
+        wordId: 'a',
+        event: {
+          type: 'answered',
+          timestamp: '2024-03-01T10:01:00.000Z',
+          sessionId: session.id,
+          questionType: QuestionType.FILL_BLANK,
+          answer: 'Word x',
+          correctAnswer: 'Word a',
+          isCorrect: false,
+          timeSpent: 5,
+        },
+      },
+      {
+        wordId: 'b',
+        event: {
+          type: 'seen',
+          timestamp: '2024-03-01T10:05:00.000Z',
+          sessionId: session.id,
+          questionType: QuestionType.FILL_BLANK,
+        },
+      },
+    ]);
+    expect(formatAnswer({ a: '1', b: '2' })).toBe('a → 1; b → 2');
+  });
+
+  it('should surface the most common wrong answers', () => {
+    const confusions = getConfusions([
+      answered('Staking', false, '2024-03-01'),
+      answered('Slashing', false, '2024-03-02'),
+      answered('slashing', false, '2024-03-03'),
+      answered('Validator', true, '2024-03-04'),
+      answered('Staking', false, '2024-03-05'),
+      answered('Bonding', false, '2024-03-06'),
+    ], 2);
+
+    expect(confusions).toEqual([
+      { answer: 'Staking', count: 2, lastSeen: '2024-03-05' },
+      { answer: 'slashing', count: 2, lastSeen: '2024-03-03' },
+    ]);
+  });
+
+  it('should record session results into history and mistakes', async () => {
+    const session = practiceService.createSession('quick', [createQuestion('q1', 'a'), createQuestion('q2', 'a')]);
+    const completed = practiceService.completeSession(session, [
+      createAnswer('q1', 'Wrong', false, 1),
+      createAnswer('q2', 'Word a', true, 2),
+    ]);
+
+    await practiceService.recordSessionResults(completed);
+    await wordHistoryService.recordMastered('a');
+
+    const history = await wordHistoryService.getHistory('a');
+    expect(history.map(event => event.type)).toEqual(['answered', 'answered', 'mastered']);
+    expect((await storageManager.getLearningData('a')).mistakes).toEqual(['Wrong']);
+  });
+
+  it('should follow merges, backups and deletes', async () => {
+    await wordHistoryService.recordEvents([
+      { wordId: 'a', event: answered('x', false, '2024-03-02T00:00:00Z') },
+      { wordId: 'b', event: answered('y', false, '2024-03-01T00:00:00Z') },
+    ]);
+
+    await storageManager.mergeLearningData('a', 'b');
+    expect((await wordHistoryService.getHistory('a')).map(event => event.answer)).toEqual(['y', 'x']);
+    expect(await wordHistoryService.getHistory('b')).toEqual([]);
+
+    const backup = await storageManager.createBackup();
+    await wordHistoryService.clearHistory(['a']);
+    expect(await wordHistoryService.getHistory('a')).toEqual([]);
+
+    await storageManager.restoreFromBackup(backup);
+    expect(await wordHistoryService.getHistory('a')).toHaveLength(2);
+  });
+});
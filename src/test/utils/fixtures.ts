@@ -0,0 +1,19 @@
+import { VocabularyItem, Web3Category, DifficultyLevel } from '../../types';
+
+// Test data factories without React dependencies, shared by service and component tests
+export const createVocabularyItem = (id: string, overrides: Partial<VocabularyItem> = {}): VocabularyItem => ({
+  id,
+  word: `Word${id}`,
+  definition: `Definition ${id}`,
+  pronunciation: '',
+  examples: [],
+  category: Web3Category.DEFI,
+  difficulty: DifficultyLevel.BEGINNER,
+  tags: [],
+  isCustom: false,
+  studyCount: 0,
+  accuracy: 0,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides,
+});
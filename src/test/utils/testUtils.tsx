@@ -6,6 +6,8 @@ import { VocabularyProvider } from '../../contexts/VocabularyContext';
 import { ProgressProvider } from '../../contexts/ProgressContext';
 import { ErrorProvider } from '../../contexts/ErrorContext';
 import theme from '../../theme';
+import { VocabularyItem, Web3Category } from '../../types';
+import { createVocabularyItem } from './fixtures';
 
 // Custom render function with all providers
 const AllTheProviders: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -41,23 +43,17 @@ export * from '@testing-library/react';
 export { customRender as render };
 
 // Test data factories
-export const createMockVocabularyItem = (overrides = {}) => ({
-  id: '1',
-  word: 'Blockchain',
-  definition: 'A distributed ledger technology',
-  pronunciation: '/ˈblɒktʃeɪn/',
-  audioUrl: 'https://example.com/audio/blockchain.mp3',
-  examples: ['Bitcoin uses blockchain technology'],
-  category: 'BLOCKCHAIN',
-  difficulty: 'BEGINNER',
-  tags: ['technology', 'crypto'],
-  isCustom: false,
-  studyCount: 0,
-  accuracy: 0,
-  createdAt: new Date('2024-01-01'),
-  updatedAt: new Date('2024-01-01'),
-  ...overrides,
-});
+export const createMockVocabularyItem = (overrides: Partial<VocabularyItem> = {}): VocabularyItem =>
+  createVocabularyItem('1', {
+    word: 'Blockchain',
+    definition: 'A distributed ledger technology',
+    pronunciation: '/ˈblɒktʃeɪn/',
+    audioUrl: 'https://example.com/audio/blockchain.mp3',
+    examples: ['Bitcoin uses blockchain technology'],
+    category: Web3Category.BLOCKCHAIN,
+    tags: ['technology', 'crypto'],
+    ...overrides,
+  });
 
 export const createMockQuizQuestion = (overrides = {}) => ({
   id: '1',
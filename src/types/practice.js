@@ -7,6 +7,14 @@ export var QuestionType;
     QuestionType["TRUE_FALSE"] = "true_false";
     QuestionType["MATCHING"] = "matching";
 })(QuestionType || (QuestionType = {}));
+export const QUESTION_TYPE_LABELS = {
+    [QuestionType.MULTIPLE_CHOICE]: '选择题',
+    [QuestionType.FILL_BLANK]: '填空题',
+    [QuestionType.LISTENING]: '听力题',
+    [QuestionType.DRAG_DROP]: '排序题',
+    [QuestionType.TRUE_FALSE]: '判断题',
+    [QuestionType.MATCHING]: '匹配题',
+};
 export var PracticeDifficulty;
 (function (PracticeDifficulty) {
     PracticeDifficulty["EASY"] = "easy";
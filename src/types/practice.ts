@@ -12,6 +12,18 @@ export enum QuestionType {
   MATCHING = 'matching',
 }
 
+/**
+ * 题型显示名称
+ */
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: '选择题',
+  [QuestionType.FILL_BLANK]: '填空题',
+  [QuestionType.LISTENING]: '听力题',
+  [QuestionType.DRAG_DROP]: '排序题',
+  [QuestionType.TRUE_FALSE]: '判断题',
+  [QuestionType.MATCHING]: '匹配题',
+};
+
 /**
  * 练习难度枚举
  */
@@ -197,6 +209,8 @@ export interface PracticeConfig {
   difficulties?: PracticeDifficulty[];
   /** 词汇分类过滤 */
   categories?: string[];
+  /** 词汇来源卡组，不设置时从全部词汇中出题 */
+  deckId?: string;
   /** 是否启用计时 */
   timedMode: boolean;
   /** 总时间限制（秒） */
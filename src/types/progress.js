@@ -13,3 +13,12 @@ export var AchievementStatus;
     AchievementStatus["IN_PROGRESS"] = "in_progress";
     AchievementStatus["UNLOCKED"] = "unlocked";
 })(AchievementStatus || (AchievementStatus = {}));
+export var AchievementMetric;
+(function (AchievementMetric) {
+    AchievementMetric["STREAK_DAYS"] = "streak_days";
+    AchievementMetric["WORDS_MASTERED"] = "words_mastered";
+    AchievementMetric["PRACTICE_SESSIONS"] = "practice_sessions";
+    AchievementMetric["ACCURACY_RATE"] = "accuracy_rate";
+    AchievementMetric["STUDY_TIME"] = "study_time";
+    AchievementMetric["WORDS_STUDIED"] = "words_studied";
+})(AchievementMetric || (AchievementMetric = {}));
@@ -1,3 +1,5 @@
+import type { Web3Category } from './vocabulary';
+
 /**
  * 每日学习统计
  */
@@ -39,6 +41,72 @@ export enum AchievementStatus {
   UNLOCKED = 'unlocked',
 }
 
+/**
+ * 成就条件使用的进度指标
+ */
+export enum AchievementMetric {
+  /** 当前连续学习天数 */
+  STREAK_DAYS = 'streak_days',
+  /** 已掌握单词数，可限定分类 */
+  WORDS_MASTERED = 'words_mastered',
+  /** 练习次数，可限定时间范围 */
+  PRACTICE_SESSIONS = 'practice_sessions',
+  /** 答题正确率（百分比），可限定时间范围 */
+  ACCURACY_RATE = 'accuracy_rate',
+  /** 学习时间（分钟），可限定时间范围 */
+  STUDY_TIME = 'study_time',
+  /** 学习单词数，可限定时间范围 */
+  WORDS_STUDIED = 'words_studied',
+}
+
+/**
+ * 成就条件
+ */
+export interface AchievementCondition {
+  /** 统计的指标 */
+  metric: AchievementMetric;
+  /** 只统计该分类的单词 */
+  category?: Web3Category;
+  /** 只统计最近几天（含今天）的数据，不传时统计全部历史 */
+  windowDays?: number;
+  /** 正确率至少需要的答题数，答题数不足时视为 0 */
+  minAnswers?: number;
+}
+
+/**
+ * 成就等级，同一条件的多个目标值
+ */
+export interface AchievementTier {
+  /** 成就ID */
+  id: string;
+  /** 成就名称，{category} 会替换为分类名称 */
+  name: string;
+  /** 成就描述，{category} 会替换为分类名称 */
+  description: string;
+  /** 成就图标 */
+  icon: string;
+  /** 目标值 */
+  target: number;
+  /** 奖励积分 */
+  rewardPoints: number;
+}
+
+/**
+ * 成就定义
+ */
+export interface AchievementDefinition {
+  /** 定义ID */
+  id: string;
+  /** 成就类型 */
+  type: AchievementType;
+  /** 解锁条件 */
+  condition: AchievementCondition;
+  /** 为每个分类分别生成成就，成就ID后追加分类 */
+  perCategory?: boolean;
+  /** 按目标值从低到高排列的等级 */
+  tiers: AchievementTier[];
+}
+
 /**
  * 成就接口
  */
@@ -63,6 +131,12 @@ export interface Achievement {
   status: AchievementStatus;
   /** 奖励积分 */
   rewardPoints: number;
+  /** 来源的成就定义ID */
+  definitionId?: string;
+  /** 等级（从 1 开始） */
+  tier?: number;
+  /** 分类成就对应的分类 */
+  category?: Web3Category;
 }
 
 /**
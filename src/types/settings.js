@@ -38,6 +38,7 @@ export const DEFAULT_SETTINGS = {
         showDetailedStats: true,
         autoNextQuestion: false,
         autoNextDelay: 2,
+        sessionTimeout: 120,
     },
     ui: {
         themeMode: ThemeMode.SYSTEM,
@@ -74,6 +74,8 @@ export interface PracticeSettings {
   autoNextQuestion: boolean;
   /** 自动进入下一题延迟（秒） */
   autoNextDelay: number;
+  /** 未完成练习的保留时间（分钟），超时后自动标记为已放弃 */
+  sessionTimeout: number;
 }
 
 /**
@@ -245,6 +247,7 @@ export const DEFAULT_SETTINGS: UserSettings = {
     showDetailedStats: true,
     autoNextQuestion: false,
     autoNextDelay: 2,
+    sessionTimeout: 120,
   },
   ui: {
     themeMode: ThemeMode.SYSTEM,
@@ -15,6 +15,14 @@ export var DifficultyLevel;
     DifficultyLevel["INTERMEDIATE"] = "intermediate";
     DifficultyLevel["ADVANCED"] = "advanced";
 })(DifficultyLevel || (DifficultyLevel = {}));
+export var VocabularyRelationType;
+(function (VocabularyRelationType) {
+    VocabularyRelationType["ALIAS"] = "alias";
+    VocabularyRelationType["ABBREVIATION_OF"] = "abbreviation_of";
+    VocabularyRelationType["RELATED"] = "related";
+    VocabularyRelationType["OPPOSITE"] = "opposite";
+    VocabularyRelationType["PART_OF"] = "part_of";
+})(VocabularyRelationType || (VocabularyRelationType = {}));
 export var VocabularySortBy;
 (function (VocabularySortBy) {
     VocabularySortBy["CREATED_AT"] = "createdAt";
@@ -22,6 +30,7 @@ export var VocabularySortBy;
     VocabularySortBy["DIFFICULTY"] = "difficulty";
     VocabularySortBy["ACCURACY"] = "accuracy";
     VocabularySortBy["STUDY_COUNT"] = "studyCount";
+    VocabularySortBy["RELEVANCE"] = "relevance";
 })(VocabularySortBy || (VocabularySortBy = {}));
 export var SortDirection;
 (function (SortDirection) {
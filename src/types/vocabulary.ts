@@ -1,3 +1,5 @@
+import type { QuestionType } from './practice';
+
 /**
  * Web3.0和DeFi领域分类枚举
  */
@@ -21,6 +23,30 @@ export enum DifficultyLevel {
   ADVANCED = 'advanced',
 }
 
+/**
+ * 词汇关系类型
+ */
+export enum VocabularyRelationType {
+  /** 别名，含义相同 */
+  ALIAS = 'alias',
+  /** 是目标词汇的缩写 */
+  ABBREVIATION_OF = 'abbreviation_of',
+  /** 相关概念 */
+  RELATED = 'related',
+  /** 含义相反 */
+  OPPOSITE = 'opposite',
+  /** 是目标词汇的组成部分 */
+  PART_OF = 'part_of',
+}
+
+/**
+ * 词汇关系，从所在词汇指向目标词汇
+ */
+export interface VocabularyRelation {
+  type: VocabularyRelationType;
+  targetId: string;
+}
+
 /**
  * 词汇项目接口
  */
@@ -45,6 +71,8 @@ export interface VocabularyItem {
   difficulty: DifficultyLevel;
   /** 标签列表 */
   tags: string[];
+  /** 与其他词汇的关系 */
+  relations?: VocabularyRelation[];
   /** 创建时间 */
   createdAt: Date;
   /** 更新时间 */
@@ -75,6 +103,38 @@ export interface VocabularyStats {
   byDifficulty: Record<DifficultyLevel, number>;
 }
 
+/**
+ * 卡组学习设置
+ */
+export interface DeckStudySettings {
+  /** 每次练习的题目数量，不设置时使用练习设置中的默认值 */
+  questionCount?: number;
+  /** 出题类型，不设置时使用全部题型 */
+  questionTypes?: QuestionType[];
+  /** 是否打乱顺序，关闭时按卡组中的顺序出题 */
+  randomOrder: boolean;
+}
+
+/**
+ * 用户自建卡组，按顺序保存一组词汇
+ */
+export interface VocabularyDeck {
+  /** 唯一标识符 */
+  id: string;
+  /** 卡组名称 */
+  name: string;
+  /** 卡组说明 */
+  description: string;
+  /** 词汇ID，按卡组中的顺序排列 */
+  wordIds: string[];
+  /** 学习设置 */
+  settings: DeckStudySettings;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
 /**
  * 词汇搜索过滤器
  */
@@ -102,6 +162,8 @@ export enum VocabularySortBy {
   DIFFICULTY = 'difficulty',
   ACCURACY = 'accuracy',
   STUDY_COUNT = 'studyCount',
+  /** 搜索相关度，保持搜索结果的顺序 */
+  RELEVANCE = 'relevance',
 }
 
 /**
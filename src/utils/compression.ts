@@ -0,0 +1,163 @@
+// 字符串压缩工具（LZW）
+
+/**
+ * 压缩格式：
+ * 先把字符串编码为 UTF-8 字节，再用变长码（9~16 位）的 LZW 压缩，
+ * 输出按每个字符 15 位打包并加上偏移，保证结果都是 BMP 内的普通字符，可以安全存入 localStorage
+ */
+const CLEAR_CODE = 256;
+const END_CODE = 257;
+const FIRST_CODE = 258;
+const MAX_CODE = 1 << 16;
+const MIN_WIDTH = 9;
+const MAX_WIDTH = 16;
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+/**
+ * 表示小于 limit 的码所需的位数
+ */
+const codeWidth = (limit: number): number =>
+  Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, Math.ceil(Math.log2(limit))));
+
+const createBitWriter = () => {
+  const chars: string[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  return {
+    write(value: number, width: number) {
+      for (let i = 0; i < width; i++) {
+        buffer |= ((value >> i) & 1) << bits;
+        bits++;
+        if (bits === BITS_PER_CHAR) {
+          chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+          buffer = 0;
+          bits = 0;
+        }
+      }
+    },
+    finish(): string {
+      if (bits > 0) {
+        chars.push(String.fromCharCode(buffer + CHAR_OFFSET));
+      }
+      return chars.join('');
+    },
+  };
+};
+
+const createBitReader = (input: string) => {
+  let index = 0;
+  let buffer = 0;
+  let bits = 0;
+
+  return {
+    read(width: number): number {
+      let value = 0;
+      for (let i = 0; i < width; i++) {
+        if (bits === 0) {
+          if (index >= input.length) {
+            throw new Error('Compressed data is truncated');
+          }
+          buffer = input.charCodeAt(index++) - CHAR_OFFSET;
+          bits = BITS_PER_CHAR;
+        }
+        value |= (buffer & 1) << i;
+        buffer >>= 1;
+        bits--;
+      }
+      return value;
+    },
+  };
+};
+
+/**
+ * 压缩字符串
+ */
+export const compressString = (input: string): string => {
+  const bytes = new TextEncoder().encode(input);
+  const writer = createBitWriter();
+
+  if (bytes.length === 0) {
+    writer.write(END_CODE, codeWidth(FIRST_CODE));
+    return writer.finish();
+  }
+
+  // 键为 前缀码 * 256 + 下一个字节
+  let dictionary = new Map<number, number>();
+  let nextCode = FIRST_CODE;
+  let current = bytes[0];
+
+  for (let i = 1; i < bytes.length; i++) {
+    const key = current * 256 + bytes[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    writer.write(current, codeWidth(nextCode));
+    if (nextCode < MAX_CODE) {
+      dictionary.set(key, nextCode++);
+    } else {
+      // 码表用完后清空重来
+      writer.write(CLEAR_CODE, MAX_WIDTH);
+      dictionary = new Map();
+      nextCode = FIRST_CODE;
+    }
+    current = bytes[i];
+  }
+
+  writer.write(current, codeWidth(nextCode));
+  writer.write(END_CODE, codeWidth(nextCode < MAX_CODE ? nextCode + 1 : nextCode));
+  return writer.finish();
+};
+
+/**
+ * 解压 compressString 的结果，数据损坏时抛出错误
+ */
+export const decompressString = (compressed: string): string => {
+  const reader = createBitReader(compressed);
+  const output: number[] = [];
+  let dictionary: number[][] = [];
+  let nextCode = FIRST_CODE;
+  let previous: number[] | null = null;
+
+  for (;;) {
+    // 解码端的码表比编码端晚一步更新
+    const code = reader.read(previous === null ? codeWidth(FIRST_CODE) : codeWidth(nextCode + 1));
+
+    if (code === END_CODE) {
+      break;
+    }
+    if (code === CLEAR_CODE) {
+      dictionary = [];
+      nextCode = FIRST_CODE;
+      previous = null;
+      continue;
+    }
+
+    let entry: number[];
+    if (code < CLEAR_CODE) {
+      entry = [code];
+    } else if (code < nextCode) {
+      entry = dictionary[code - FIRST_CODE];
+    } else if (code === nextCode && previous) {
+      entry = [...previous, previous[0]];
+    } else {
+      throw new Error('Invalid compressed data');
+    }
+
+    for (const byte of entry) {
+      output.push(byte);
+    }
+
+    if (previous && nextCode < MAX_CODE) {
+      dictionary.push([...previous, entry[0]]);
+      nextCode++;
+    }
+    previous = entry;
+  }
+
+  return new TextDecoder().decode(new Uint8Array(output));
+};
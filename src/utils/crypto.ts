@@ -0,0 +1,128 @@
+// 本地数据加密工具（Web Crypto AES-GCM + PBKDF2）
+
+/**
+ * PBKDF2 迭代次数
+ */
+export const PBKDF2_ITERATIONS = 100000;
+
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+/**
+ * 加密错误
+ */
+export interface EncryptionError extends Error {
+  /** WRONG_KEY：密钥错误或数据被篡改；INVALID_PAYLOAD：数据格式不正确 */
+  code: 'WRONG_KEY' | 'INVALID_PAYLOAD';
+}
+
+/**
+ * 创建加密错误
+ */
+export const createEncryptionError = (message: string, code: EncryptionError['code']): EncryptionError => {
+  const error = new Error(message) as EncryptionError;
+  error.name = 'EncryptionError';
+  error.code = code;
+  return error;
+};
+
+/**
+ * 判断是否为加密错误
+ */
+export const isEncryptionError = (error: unknown): error is EncryptionError =>
+  error instanceof Error && error.name === 'EncryptionError';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * 检查当前环境是否支持 Web Crypto
+ */
+export const isCryptoSupported = (): boolean =>
+  typeof crypto !== 'undefined' && typeof crypto.subtle?.deriveKey === 'function';
+
+/**
+ * 生成随机盐值（Base64）
+ */
+export const generateSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+
+/**
+ * 用口令和盐值派生 AES-GCM 密钥
+ */
+export const deriveKey = async (
+  passphrase: string,
+  salt: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * 加密字符串，结果格式为 “IV.密文”（均为 Base64）
+ */
+export const encryptString = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+/**
+ * 解密 encryptString 的结果，密钥错误时抛出 WRONG_KEY 错误
+ */
+export const decryptString = async (key: CryptoKey, payload: string): Promise<string> => {
+  const [iv, ciphertext] = payload.split('.');
+  let ivBytes: Uint8Array<ArrayBuffer>;
+  let cipherBytes: Uint8Array<ArrayBuffer>;
+
+  try {
+    ivBytes = fromBase64(iv);
+    cipherBytes = fromBase64(ciphertext);
+  } catch {
+    throw createEncryptionError('加密数据格式不正确', 'INVALID_PAYLOAD');
+  }
+
+  if (!ciphertext || ivBytes.length !== IV_LENGTH) {
+    throw createEncryptionError('加密数据格式不正确', 'INVALID_PAYLOAD');
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: ivBytes }, key, cipherBytes);
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM 校验失败：密钥错误或数据被篡改
+    throw createEncryptionError('密码错误，无法解密数据', 'WRONG_KEY');
+  }
+};
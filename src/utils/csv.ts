@@ -0,0 +1,159 @@
+// CSV 解析与生成（RFC 4180）
+
+/**
+ * 自动识别时支持的分隔符
+ */
+export const CSV_DELIMITERS = [',', ';', '\t'] as const;
+
+const BOM = '\uFEFF';
+
+export interface CsvParseOptions {
+  /** 分隔符，不传时根据第一行自动识别 */
+  delimiter?: string;
+}
+
+export interface CsvParseResult {
+  rows: string[][];
+  /** 每条记录起始的行号（从 1 开始），字段内含换行时与数组下标不一致 */
+  lines: number[];
+  delimiter: string;
+}
+
+export interface CsvStringifyOptions {
+  delimiter?: string;
+  /** 写入 UTF-8 BOM，便于 Excel 正确识别中文 */
+  bom?: boolean;
+  lineEnding?: '\r\n' | '\n';
+}
+
+/**
+ * 根据第一条记录中（引号外）各分隔符出现的次数识别分隔符，默认逗号
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const counts = new Map<string, number>(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text.startsWith(BOM) ? text.slice(1) : text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter;
+  });
+  return best;
+};
+
+/**
+ * 解析 CSV 文本
+ * 支持引号包裹的字段、字段内的分隔符和换行、"" 转义、CRLF/LF 换行和 UTF-8 BOM；
+ * 引号未闭合时抛出 CsvParseError
+ */
+export const parseCsv = (input: string, options: CsvParseOptions = {}): CsvParseResult => {
+  const text = input.startsWith(BOM) ? input.slice(1) : input;
+  const delimiter = options.delimiter ?? detectCsvDelimiter(text);
+  const rows: string[][] = [];
+  const lines: number[] = [];
+
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let quoteLine = 1;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    lines.push(rowLine);
+    row = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      quoted = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      endRow();
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      rowLine = line;
+    } else {
+      // 不规范的数据（如未加引号字段中的引号）按原样保留
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    const error = new Error(`第 ${quoteLine} 行的引号未闭合`);
+    error.name = 'CsvParseError';
+    throw error;
+  }
+
+  // 末尾换行不产生空记录
+  if (field !== '' || quoted || row.length > 0) {
+    endRow();
+  }
+
+  return { rows, lines, delimiter };
+};
+
+/**
+ * 转换单个字段，包含分隔符、引号、换行或首尾空白时加引号
+ */
+export const quoteCsvField = (value: unknown, delimiter = ','): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  const needsQuotes =
+    text.includes(delimiter) ||
+    /["\r\n]/.test(text) ||
+    text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 生成 CSV 文本
+ */
+export const stringifyCsv = (rows: unknown[][], options: CsvStringifyOptions = {}): string => {
+  const { delimiter = ',', bom = false, lineEnding = '\r\n' } = options;
+  const body = rows
+    .map(row => row.map(value => quoteCsvField(value, delimiter)).join(delimiter))
+    .join(lineEnding);
+  return (bom ? BOM : '') + body;
+};
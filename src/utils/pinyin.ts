@@ -0,0 +1,69 @@
+// 汉字拼音
+
+import PINYIN_GROUPS from '@/data/pinyin.json';
+
+/**
+ * 汉字 -> 读音（不带声调，ü 写作 v），多音字有多个读音
+ * 数据覆盖 GB2312 的全部汉字，首次使用时展开；含 v 的音节同时收录 u 的写法（lv / lu）
+ */
+let readings: Map<string, string[]> | null = null;
+
+const getReadings = (): Map<string, string[]> => {
+  if (!readings) {
+    readings = new Map();
+    for (const [syllable, chars] of Object.entries(PINYIN_GROUPS as Record<string, string>)) {
+      const variants = syllable.includes('v') ? [syllable, syllable.replace('v', 'u')] : [syllable];
+      for (const char of chars) {
+        readings.set(char, [...(readings.get(char) ?? []), ...variants]);
+      }
+    }
+  }
+  return readings;
+};
+
+/**
+ * 是否为汉字
+ */
+export const isHanChar = (char: string): boolean => /^\p{Script=Han}$/u.test(char);
+
+/**
+ * 获取单个汉字的全部读音，未收录的字返回空数组
+ */
+export const getPinyin = (char: string): string[] => getReadings().get(char) ?? [];
+
+/**
+ * 规范化拼音输入：转小写并去掉空格、撇号，ü 和 u: 写作 v
+ */
+export const normalizePinyinInput = (input: string): string =>
+  input.toLowerCase().replace(/ü|u:/g, 'v').replace(/[\s']+/g, '');
+
+/**
+ * 判断拼音输入能否匹配一串汉字的读音
+ * 每个字可以输入完整音节或音节开头（如 “qukuailian”、“qkl”、“qukl” 都能匹配 “区块链”），
+ * 匹配成功时返回用到的字数，否则返回 0
+ */
+export const matchPinyinSequence = (input: string, syllables: string[][]): number => {
+  const visited = new Set<string>();
+
+  const match = (offset: number, index: number): number => {
+    if (offset === input.length) return index;
+    if (index >= syllables.length) return 0;
+
+    const key = `${offset}:${index}`;
+    if (visited.has(key)) return 0;
+    visited.add(key);
+
+    const rest = input.slice(offset);
+    for (const syllable of syllables[index]) {
+      for (let length = Math.min(syllable.length, rest.length); length > 0; length--) {
+        if (syllable.startsWith(rest.slice(0, length))) {
+          const count = match(offset + length, index + 1);
+          if (count > 0) return count;
+        }
+      }
+    }
+    return 0;
+  };
+
+  return input ? match(0, 0) : 0;
+};
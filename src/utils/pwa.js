@@ -1,17 +1,3 @@
-export const unregisterServiceWorker = async () => {
-    if ('serviceWorker' in navigator) {
-        try {
-            const registrations = await navigator.serviceWorker.getRegistrations();
-            for (const registration of registrations) {
-                await registration.unregister();
-                console.log('Service Worker unregistered:', registration);
-            }
-        } catch (error) {
-            console.error('Service Worker unregistration failed:', error);
-        }
-    }
-};
-
 export const registerServiceWorker = async () => {
     if ('serviceWorker' in navigator) {
         try {
@@ -251,7 +237,7 @@ export class OfflineStorageManager {
             enumerable: true,
             configurable: true,
             writable: true,
-            value: 1
+            value: 2
         });
         Object.defineProperty(this, "db", {
             enumerable: true,
@@ -261,6 +247,9 @@ export class OfflineStorageManager {
         });
     }
     async init() {
+        if (this.db) {
+            return;
+        }
         return new Promise((resolve, reject) => {
             const request = indexedDB.open(this.dbName, this.dbVersion);
             request.onerror = () => {
@@ -273,12 +262,20 @@ export class OfflineStorageManager {
                 resolve();
             };
             request.onupgradeneeded = (event) => {
-                const db = event.target.result;
-                if (!db.objectStoreNames.contains('vocabulary')) {
-                    const vocabularyStore = db.createObjectStore('vocabulary', { keyPath: 'id' });
+                const request = event.target;
+                const db = request.result;
+                const vocabularyStore = db.objectStoreNames.contains('vocabulary')
+                    ? request.transaction.objectStore('vocabulary')
+                    : db.createObjectStore('vocabulary', { keyPath: 'id' });
+                if (!vocabularyStore.indexNames.contains('category')) {
                     vocabularyStore.createIndex('category', 'category', { unique: false });
+                }
+                if (!vocabularyStore.indexNames.contains('difficulty')) {
                     vocabularyStore.createIndex('difficulty', 'difficulty', { unique: false });
                 }
+                if (!vocabularyStore.indexNames.contains('tags')) {
+                    vocabularyStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+                }
                 if (!db.objectStoreNames.contains('progress')) {
                     db.createObjectStore('progress', { keyPath: 'id' });
                 }
@@ -324,5 +321,54 @@ export class OfflineStorageManager {
             request.onerror = () => reject(request.error);
         });
     }
+    async storeMany(storeName, items) {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        return new Promise((resolve, reject) => {
+            const transaction = this.db.transaction([storeName], 'readwrite');
+            const store = transaction.objectStore(storeName);
+            items.forEach(item => store.put(item));
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+    async deleteData(storeName, keys) {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        return new Promise((resolve, reject) => {
+            const transaction = this.db.transaction([storeName], 'readwrite');
+            const store = transaction.objectStore(storeName);
+            keys.forEach(key => store.delete(key));
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+    async clearStore(storeName) {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        return new Promise((resolve, reject) => {
+            const transaction = this.db.transaction([storeName], 'readwrite');
+            const request = transaction.objectStore(storeName).clear();
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+        });
+    }
+    async getAllByIndex(storeName, indexName, value) {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        return new Promise((resolve, reject) => {
+            const transaction = this.db.transaction([storeName], 'readonly');
+            const request = transaction.objectStore(storeName).index(indexName).getAll(value);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
 }
+export const isIndexedDBSupported = () => typeof indexedDB !== 'undefined' && indexedDB !== null;
 export const offlineStorageManager = new OfflineStorageManager();
@@ -260,10 +260,14 @@ export const pushNotificationManager = new PushNotificationManager();
 // 离线存储管理
 export class OfflineStorageManager {
   private dbName = 'web3-defi-vocab-db';
-  private dbVersion = 1;
+  private dbVersion = 2;
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.dbVersion);
 
@@ -279,14 +283,23 @@ export class OfflineStorageManager {
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+        const request = event.target as IDBOpenDBRequest;
+        const db = request.result;
         
         // 创建对象存储
-        if (!db.objectStoreNames.contains('vocabulary')) {
-          const vocabularyStore = db.createObjectStore('vocabulary', { keyPath: 'id' });
+        const vocabularyStore = db.objectStoreNames.contains('vocabulary')
+          ? request.transaction!.objectStore('vocabulary')
+          : db.createObjectStore('vocabulary', { keyPath: 'id' });
+        if (!vocabularyStore.indexNames.contains('category')) {
           vocabularyStore.createIndex('category', 'category', { unique: false });
+        }
+        if (!vocabularyStore.indexNames.contains('difficulty')) {
           vocabularyStore.createIndex('difficulty', 'difficulty', { unique: false });
         }
+        // v2：按标签查询（每个标签一条索引记录）
+        if (!vocabularyStore.indexNames.contains('tags')) {
+          vocabularyStore.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+        }
 
         if (!db.objectStoreNames.contains('progress')) {
           db.createObjectStore('progress', { keyPath: 'id' });
@@ -343,7 +356,81 @@ export class OfflineStorageManager {
       request.onerror = () => reject(request.error);
     });
   }
+
+  /**
+   * 在同一个事务中批量写入
+   */
+  async storeMany(storeName: string, items: unknown[]): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      items.forEach(item => store.put(item));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * 在同一个事务中批量删除
+   */
+  async deleteData(storeName: string, keys: string[]): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      keys.forEach(key => store.delete(key));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async clearStore(storeName: string): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const request = transaction.objectStore(storeName).clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * 通过索引查询匹配指定值的全部记录
+   */
+  async getAllByIndex(storeName: string, indexName: string, value: IDBValidKey): Promise<unknown[]> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).index(indexName).getAll(value);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
 }
 
+/**
+ * 检查当前环境是否支持 IndexedDB
+ */
+export const isIndexedDBSupported = (): boolean => typeof indexedDB !== 'undefined' && indexedDB !== null;
+
 // 创建全局离线存储管理器实例
 export const offlineStorageManager = new OfflineStorageManager();
\ No newline at end of file
@@ -0,0 +1,472 @@
+// SQLite 数据库文件读写（Anki 的 collection.anki2 等）
+
+/**
+ * 只实现导入导出需要的部分：
+ * 读取时遍历表的 B-tree（含溢出页），不使用索引；
+ * 写入时生成只包含数据表（无索引）的新数据库，页大小固定为 4096，文本统一使用 UTF-8
+ */
+const HEADER_MAGIC = 'SQLite format 3\0';
+const PAGE_SIZE = 4096;
+const DATABASE_HEADER_SIZE = 100;
+const TABLE_LEAF = 0x0d;
+const TABLE_INTERIOR = 0x05;
+const SQLITE_VERSION_NUMBER = 3045000;
+
+export type SqliteValue = number | string | Uint8Array | null;
+export type SqliteRow = Record<string, SqliteValue>;
+
+/**
+ * 写入的数据表，行中各列按建表语句的顺序排列
+ */
+export interface SqliteTableDefinition {
+  name: string;
+  sql: string;
+  rows: SqliteValue[][];
+}
+
+/**
+ * 只读数据库
+ */
+export interface SqliteDatabase {
+  tableNames: string[];
+  /** 按建表语句的列名读取全部行，表不存在时返回空数组 */
+  readTable: (name: string) => SqliteRow[];
+}
+
+const createSqliteError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'SqliteError';
+  return error;
+};
+
+/**
+ * 从建表语句中解析列名，以及作为 rowid 别名的 INTEGER PRIMARY KEY 列
+ */
+export const parseTableColumns = (sql: string): { columns: string[]; rowidColumn: number } => {
+  const withoutComments = sql.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--[^\n]*/g, '');
+  const body = withoutComments.slice(withoutComments.indexOf('(') + 1, withoutComments.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  definitions
+    .map(definition => definition.trim())
+    .filter(definition => definition && !/^(primary|unique|check|foreign|constraint)\b/i.test(definition))
+    .forEach(definition => {
+      const name = definition.split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, '');
+      if (/^\S+\s+integer\s+primary\s+key\b/i.test(definition)) {
+        rowidColumn = columns.length;
+      }
+      columns.push(name);
+    });
+
+  return { columns, rowidColumn };
+};
+
+/**
+ * 表 B-tree 叶子页中单元格在本页保存的负载大小，其余部分写入溢出页
+ */
+const localPayloadSize = (payloadSize: number, usableSize: number): number => {
+  const maxLocal = usableSize - 35;
+  if (payloadSize <= maxLocal) return payloadSize;
+
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+  const size = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+  return size <= maxLocal ? size : minLocal;
+};
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [value, i + 1];
+  }
+
+  // 9 字节的变长整数按 64 位有符号数处理（负数 rowid）
+  let big = BigInt(0);
+  for (let i = 0; i < 8; i++) {
+    big = (big << BigInt(7)) | BigInt(bytes[offset + i] & 0x7f);
+  }
+  big = (big << BigInt(8)) | BigInt(bytes[offset + 8]);
+  return [Number(BigInt.asIntN(64, big)), 9];
+};
+
+const encodeVarint = (value: number): number[] => {
+  if (value < 0 || value >= 2 ** 56) {
+    throw createSqliteError(`整数超出支持范围：${value}`);
+  }
+  const groups: number[] = [];
+  let rest = value;
+  do {
+    groups.unshift(rest % 128);
+    rest = Math.floor(rest / 128);
+  } while (rest > 0);
+  return groups.map((group, index) => (index < groups.length - 1 ? group | 0x80 : group));
+};
+
+const readSignedInt = (view: DataView, offset: number, size: number): number => {
+  switch (size) {
+    case 1:
+      return view.getInt8(offset);
+    case 2:
+      return view.getInt16(offset);
+    case 3:
+      return (view.getInt8(offset) << 16) | view.getUint16(offset + 1);
+    case 4:
+      return view.getInt32(offset);
+    case 6:
+      return view.getInt16(offset) * 2 ** 32 + view.getUint32(offset + 2);
+    default:
+      return Number(view.getBigInt64(offset));
+  }
+};
+
+const INTEGER_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+/**
+ * 解码记录格式的负载
+ */
+const decodeRecord = (payload: Uint8Array, decoder: TextDecoder): SqliteValue[] => {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const [headerSize, headerSizeLength] = readVarint(payload, 0);
+  const types: number[] = [];
+  for (let offset = headerSizeLength; offset < headerSize;) {
+    const [type, length] = readVarint(payload, offset);
+    types.push(type);
+    offset += length;
+  }
+
+  const values: SqliteValue[] = [];
+  let offset = headerSize;
+  types.forEach(type => {
+    if (type === 0) {
+      values.push(null);
+    } else if (INTEGER_SIZES[type]) {
+      values.push(readSignedInt(view, offset, INTEGER_SIZES[type]));
+      offset += INTEGER_SIZES[type];
+    } else if (type === 7) {
+      values.push(view.getFloat64(offset));
+      offset += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const data = payload.subarray(offset, offset + size);
+      values.push(type % 2 === 0 ? data.slice() : decoder.decode(data));
+      offset += size;
+    } else {
+      throw createSqliteError(`不支持的数据类型：${type}`);
+    }
+  });
+  return values;
+};
+
+/**
+ * 打开 SQLite 数据库文件
+ */
+export const openSqliteDatabase = (input: ArrayBuffer | Uint8Array): SqliteDatabase => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  if (bytes.length < DATABASE_HEADER_SIZE || decoder.decode(bytes.subarray(0, 16)) !== HEADER_MAGIC) {
+    throw createSqliteError('不是有效的 SQLite 数据库');
+  }
+  if (view.getUint32(56) > 1) {
+    throw createSqliteError('不支持 UTF-16 编码的数据库');
+  }
+
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usableSize = pageSize - bytes[20];
+  const pageOffset = (page: number) => (page - 1) * pageSize;
+
+  const readPayload = (cellStart: number, payloadSize: number, headerLength: number): Uint8Array => {
+    const start = cellStart + headerLength;
+    const local = localPayloadSize(payloadSize, usableSize);
+    if (local === payloadSize) {
+      return bytes.subarray(start, start + payloadSize);
+    }
+
+    const payload = new Uint8Array(payloadSize);
+    payload.set(bytes.subarray(start, start + local));
+    let written = local;
+    let overflowPage = view.getUint32(start + local);
+    while (written < payloadSize && overflowPage !== 0) {
+      const offset = pageOffset(overflowPage);
+      const size = Math.min(payloadSize - written, usableSize - 4);
+      payload.set(bytes.subarray(offset + 4, offset + 4 + size), written);
+      written += size;
+      overflowPage = view.getUint32(offset);
+    }
+    return payload;
+  };
+
+  const walkTable = (page: number, visit: (rowid: number, payload: Uint8Array) => void) => {
+    const base = pageOffset(page);
+    const header = base + (page === 1 ? DATABASE_HEADER_SIZE : 0);
+    const type = bytes[header];
+    const cellCount = view.getUint16(header + 3);
+
+    if (type === TABLE_LEAF) {
+      for (let i = 0; i < cellCount; i++) {
+        const cell = base + view.getUint16(header + 8 + i * 2);
+        const [payloadSize, sizeLength] = readVarint(bytes, cell);
+        const [rowid, rowidLength] = readVarint(bytes, cell + sizeLength);
+        visit(rowid, readPayload(cell, payloadSize, sizeLength + rowidLength));
+      }
+    } else if (type === TABLE_INTERIOR) {
+      for (let i = 0; i < cellCount; i++) {
+        const cell = base + view.getUint16(header + 12 + i * 2);
+        walkTable(view.getUint32(cell), visit);
+      }
+      walkTable(view.getUint32(header + 8), visit);
+    } else {
+      throw createSqliteError(`第 ${page} 页不是数据表页`);
+    }
+  };
+
+  const schema = new Map<string, { rootPage: number; sql: string }>();
+  walkTable(1, (_, payload) => {
+    const [type, name, , rootPage, sql] = decodeRecord(payload, decoder);
+    if (type === 'table' && typeof name === 'string' && typeof rootPage === 'number') {
+      schema.set(name, { rootPage, sql: String(sql ?? '') });
+    }
+  });
+
+  return {
+    tableNames: Array.from(schema.keys()),
+    readTable: (name: string) => {
+      const table = schema.get(name);
+      if (!table) return [];
+
+      const { columns, rowidColumn } = parseTableColumns(table.sql);
+      const rows: SqliteRow[] = [];
+      walkTable(table.rootPage, (rowid, payload) => {
+        const values = decodeRecord(payload, decoder);
+        const row: SqliteRow = {};
+        columns.forEach((column, index) => {
+          row[column] = index === rowidColumn && values[index] == null ? rowid : values[index] ?? null;
+        });
+        rows.push(row);
+      });
+      return rows;
+    },
+  };
+};
+
+/**
+ * 编码为记录格式
+ */
+const encodeRecord = (values: SqliteValue[], encoder: TextEncoder): Uint8Array => {
+  const types: number[] = [];
+  const bodies: Uint8Array[] = [];
+
+  values.forEach(value => {
+    if (value === null || value === undefined) {
+      types.push(0);
+    } else if (typeof value === 'number' && Number.isInteger(value) && (value === 0 || value === 1)) {
+      types.push(8 + value);
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      const [type, size] =
+        value >= -128 && value < 128 ? [1, 1]
+          : value >= -32768 && value < 32768 ? [2, 2]
+            : value >= -8388608 && value < 8388608 ? [3, 3]
+              : value >= -2147483648 && value < 2147483648 ? [4, 4]
+                : value >= -(2 ** 47) && value < 2 ** 47 ? [5, 6]
+                  : [6, 8];
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setBigInt64(0, BigInt(value));
+      types.push(type);
+      bodies.push(body.subarray(8 - size));
+    } else if (typeof value === 'number') {
+      const body = new Uint8Array(8);
+      new DataView(body.buffer).setFloat64(0, value);
+      types.push(7);
+      bodies.push(body);
+    } else if (typeof value === 'string') {
+      const body = encoder.encode(value);
+      types.push(body.length * 2 + 13);
+      bodies.push(body);
+    } else {
+      types.push(value.length * 2 + 12);
+      bodies.push(value);
+    }
+  });
+
+  const typeBytes = types.flatMap(encodeVarint);
+  let headerSize = typeBytes.length + 1;
+  while (encodeVarint(headerSize).length + typeBytes.length !== headerSize) {
+    headerSize = encodeVarint(headerSize).length + typeBytes.length;
+  }
+
+  const bodyLength = bodies.reduce((total, body) => total + body.length, 0);
+  const record = new Uint8Array(headerSize + bodyLength);
+  record.set([...encodeVarint(headerSize), ...typeBytes]);
+  let offset = headerSize;
+  bodies.forEach(body => {
+    record.set(body, offset);
+    offset += body.length;
+  });
+  return record;
+};
+
+/**
+ * 生成 SQLite 数据库文件
+ */
+export const createSqliteDatabase = (tables: SqliteTableDefinition[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const usableSize = PAGE_SIZE;
+  // pages[0] 为第 1 页（sqlite_master），最后写入
+  const pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];
+  const allocatePage = (): [number, Uint8Array] => {
+    const page = new Uint8Array(PAGE_SIZE);
+    pages.push(page);
+    return [pages.length, page];
+  };
+
+  /**
+   * 生成叶子页单元格，超出本页容量的负载写入溢出页
+   */
+  const createLeafCell = (rowid: number, record: Uint8Array): Uint8Array => {
+    const local = localPayloadSize(record.length, usableSize);
+    const prefix = [...encodeVarint(record.length), ...encodeVarint(rowid)];
+    const cell = new Uint8Array(prefix.length + local + (local < record.length ? 4 : 0));
+    cell.set(prefix);
+    cell.set(record.subarray(0, local), prefix.length);
+
+    if (local < record.length) {
+      let previous: { view: DataView; offset: number } = { view: new DataView(cell.buffer), offset: prefix.length + local };
+      for (let offset = local; offset < record.length; offset += usableSize - 4) {
+        const [pageNumber, page] = allocatePage();
+        previous.view.setUint32(previous.offset, pageNumber);
+        page.set(record.subarray(offset, offset + usableSize - 4), 4);
+        previous = { view: new DataView(page.buffer), offset: 0 };
+      }
+    }
+    return cell;
+  };
+
+  const writePage = (page: Uint8Array, headerOffset: number, type: number, cells: Uint8Array[], rightChild?: number) => {
+    const view = new DataView(page.buffer);
+    const headerSize = type === TABLE_INTERIOR ? 12 : 8;
+    let contentStart = PAGE_SIZE;
+
+    page[headerOffset] = type;
+    view.setUint16(headerOffset + 3, cells.length);
+    cells.forEach((cell, index) => {
+      contentStart -= cell.length;
+      page.set(cell, contentStart);
+      view.setUint16(headerOffset + headerSize + index * 2, contentStart);
+    });
+    view.setUint16(headerOffset + 5, contentStart);
+    if (rightChild !== undefined) {
+      view.setUint32(headerOffset + 8, rightChild);
+    }
+  };
+
+  /**
+   * 按页容量分组
+   */
+  const packCells = <T extends { size: number }>(items: T[], capacity: number): T[][] => {
+    const groups: T[][] = [[]];
+    let used = 0;
+    items.forEach(item => {
+      if (used + item.size + 2 > capacity && groups[groups.length - 1].length > 0) {
+        groups.push([]);
+        used = 0;
+      }
+      groups[groups.length - 1].push(item);
+      used += item.size + 2;
+    });
+    return groups;
+  };
+
+  /**
+   * 写入一张表的 B-tree，返回根页页号
+   */
+  const writeTable = (rows: { rowid: number; record: Uint8Array }[]): number => {
+    const cells = rows.map(row => {
+      const cell = createLeafCell(row.rowid, row.record);
+      return { rowid: row.rowid, cell, size: cell.length };
+    });
+
+    let level = packCells(cells, PAGE_SIZE - 8).map(group => {
+      const [pageNumber, page] = allocatePage();
+      writePage(page, 0, TABLE_LEAF, group.map(item => item.cell));
+      return { pageNumber, maxRowid: group.length > 0 ? group[group.length - 1].rowid : 0 };
+    });
+
+    // 逐层生成内部页，直到只剩一个根页
+    while (level.length > 1) {
+      const children = level.map(child => ({ ...child, size: 4 + encodeVarint(child.maxRowid).length }));
+      level = packCells(children, PAGE_SIZE - 12).map(group => {
+        const [pageNumber, page] = allocatePage();
+        const last = group[group.length - 1];
+        const interiorCells = group.slice(0, -1).map(child => {
+          const cell = new Uint8Array(child.size);
+          new DataView(cell.buffer).setUint32(0, child.pageNumber);
+          cell.set(encodeVarint(child.maxRowid), 4);
+          return cell;
+        });
+        writePage(page, 0, TABLE_INTERIOR, interiorCells, last.pageNumber);
+        return { pageNumber, maxRowid: last.maxRowid };
+      });
+    }
+    return level[0].pageNumber;
+  };
+
+  const masterCells = tables.map((table, index) => {
+    const { rowidColumn } = parseTableColumns(table.sql);
+    const rows = table.rows
+      .map((values, rowIndex) => {
+        const rowid = rowidColumn >= 0 ? Number(values[rowidColumn]) : rowIndex + 1;
+        const stored = rowidColumn >= 0 ? values.map((value, column) => (column === rowidColumn ? null : value)) : values;
+        return { rowid, record: encodeRecord(stored, encoder) };
+      })
+      .sort((a, b) => a.rowid - b.rowid);
+
+    const rootPage = writeTable(rows);
+    return createLeafCell(index + 1, encodeRecord(['table', table.name, table.name, rootPage, table.sql], encoder));
+  });
+
+  if (masterCells.reduce((total, cell) => total + cell.length + 2, 0) > PAGE_SIZE - DATABASE_HEADER_SIZE - 8) {
+    throw createSqliteError('表结构过多，无法写入第一页');
+  }
+
+  const firstPage = pages[0];
+  writePage(firstPage, DATABASE_HEADER_SIZE, TABLE_LEAF, masterCells);
+  const header = new DataView(firstPage.buffer);
+  firstPage.set(encoder.encode(HEADER_MAGIC), 0);
+  header.setUint16(16, PAGE_SIZE);
+  firstPage[18] = 1;
+  firstPage[19] = 1;
+  firstPage[21] = 64;
+  firstPage[22] = 32;
+  firstPage[23] = 32;
+  header.setUint32(24, 1);
+  header.setUint32(28, pages.length);
+  header.setUint32(40, 1);
+  header.setUint32(44, 4);
+  header.setUint32(56, 1);
+  header.setUint32(92, 1);
+  header.setUint32(96, SQLITE_VERSION_NUMBER);
+
+  const output = new Uint8Array(pages.length * PAGE_SIZE);
+  pages.forEach((page, index) => output.set(page, index * PAGE_SIZE));
+  return output;
+};
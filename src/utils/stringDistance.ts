@@ -0,0 +1,44 @@
+// 字符串编辑距离
+
+/**
+ * 计算两个字符串的编辑距离（插入、删除、替换和相邻字符交换各算一次）
+ * 传入 maxDistance 时，距离超过该值会提前结束并返回 maxDistance + 1
+ */
+export const editDistance = (a: string, b: string, maxDistance = Infinity): number => {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(row[j] + 1, current[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousRow[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousRow = row;
+    row = current;
+  }
+
+  return row[b.length];
+};
+
+/**
+ * 按编辑距离计算相似度（0-1），1 表示完全相同
+ */
+export const stringSimilarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
@@ -27,6 +27,7 @@ export const ValidationPatterns = {
   alphabetic: /^[a-zA-Z]+$/,
   numeric: /^\d+$/,
   noSpecialChars: /^[a-zA-Z0-9\s]+$/,
+  vocabularyWord: /^[a-zA-Z0-9\s-]+$/,
   strongPassword: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
 };
 
@@ -175,7 +176,11 @@ export const VocabularyValidationRules = {
     CommonRules.required('单词不能为空'),
     CommonRules.minLength(1, '单词至少需要1个字符'),
     CommonRules.maxLength(50, '单词不能超过50个字符'),
-    CommonRules.noSpecialChars('单词不能包含特殊字符'),
+    {
+      // Hyphens are allowed for terms such as ERC-20
+      pattern: ValidationPatterns.vocabularyWord,
+      message: '单词只能包含字母、数字、空格和连字符',
+    },
   ],
 
   definition: [
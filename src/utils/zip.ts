@@ -0,0 +1,188 @@
+// ZIP 读写（Anki .apkg 等打包格式）
+
+/**
+ * 支持存储（0）和 deflate（8）两种压缩方式；deflate 解压依赖浏览器的 DecompressionStream。
+ * 写入时统一使用存储方式，不支持 ZIP64 和分卷
+ */
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+/** 文件名使用 UTF-8 编码 */
+const FLAG_UTF8 = 0x0800;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZipError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'ZipError';
+  return error;
+};
+
+/**
+ * 解压 deflate 数据
+ */
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw createZipError('当前环境不支持解压缩');
+  }
+
+  const stream = new ReadableStream({
+    start(controller) {
+      controller.enqueue(data.slice());
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('deflate-raw'));
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * 读取 ZIP 文件中的全部条目（跳过目录）
+ */
+export const readZip = async (input: ArrayBuffer | Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // 从末尾向前查找目录结束记录（其后可能跟有最长 65535 字节的注释）
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw createZipError('不是有效的 ZIP 文件');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw createZipError('ZIP 文件目录已损坏');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw createZipError(`ZIP 条目已损坏：${name}`);
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORE) {
+      entries.set(name, compressed);
+    } else if (method === METHOD_DEFLATE) {
+      entries.set(name, await inflateRaw(compressed));
+    } else {
+      throw createZipError(`不支持的压缩方式：${method}`);
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * 生成 ZIP 文件（不压缩）
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+
+  const localSize = files.reduce((total, file) => total + 30 + file.nameBytes.length + file.data.length, 0);
+  const centralSize = files.reduce((total, file) => total + 46 + file.nameBytes.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+  files.forEach(file => {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, FLAG_UTF8, true);
+    view.setUint16(offset + 8, METHOD_STORE, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    output.set(file.nameBytes, offset + 30);
+    output.set(file.data, offset + 30 + file.nameBytes.length);
+    offset += 30 + file.nameBytes.length + file.data.length;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, FLAG_UTF8, true);
+    view.setUint16(offset + 10, METHOD_STORE, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    output.set(file.nameBytes, offset + 46);
+    offset += 46 + file.nameBytes.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return output;
+};